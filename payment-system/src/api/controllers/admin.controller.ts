@@ -0,0 +1,156 @@
+// src/api/controllers/admin.controller.ts
+
+import { Request, Response } from 'express';
+import { EventReplayService } from '../../lib/payment/events/event-replay.service';
+import { errorHandler } from '../../lib/payment/utils/error';
+import { PaymentLogger } from '../../lib/payment/utils/logger';
+
+export class AdminController {
+  private logger: PaymentLogger;
+
+  constructor(private eventReplayService: EventReplayService) {
+    this.logger = new PaymentLogger('info', 'AdminController');
+  }
+
+  /**
+   * Replay stored events of the given types in a time range to one target
+   */
+  replayEvents = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { types, from, to, target, dryRun, ratePerSecond } = req.body;
+
+      if (!target || !from || !to) {
+        this.badRequest(res, 'invalid_replay_request', 'target, from and to are required');
+        return;
+      }
+
+      if (types !== undefined && (!Array.isArray(types) || types.some(t => typeof t !== 'string'))) {
+        this.badRequest(res, 'invalid_replay_request', 'types must be a list of event types');
+        return;
+      }
+
+      if (ratePerSecond !== undefined && typeof ratePerSecond !== 'number') {
+        this.badRequest(res, 'invalid_replay_request', 'ratePerSecond must be a number');
+        return;
+      }
+
+      const job = await this.eventReplayService.startReplay({
+        types,
+        from: new Date(from),
+        to: new Date(to),
+        target,
+        dryRun: dryRun === true,
+        ratePerSecond
+      });
+
+      this.logger.info(`Replay ${job.dryRun ? 'dry run' : 'started'} by ${req.user?.id}`, {
+        jobId: job.id,
+        target,
+        total: job.total
+      });
+
+      res.status(job.dryRun ? 200 : 202).json({
+        success: true,
+        job
+      });
+    } catch (error) {
+      this.logger.error('Error starting event replay', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to start event replay'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * List replay jobs, newest first, with the targets events can be sent to
+   */
+  getReplayJobs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json({
+        success: true,
+        jobs: this.eventReplayService.listJobs(),
+        targets: this.eventReplayService.getTargets()
+      });
+    } catch (error) {
+      this.logger.error('Error listing replay jobs', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to list replay jobs'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get the progress of one replay job
+   */
+  getReplayJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const job = this.eventReplayService.getJob(req.params.id);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'replay_job_not_found',
+            message: `Replay job not found: ${req.params.id}`
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        job
+      });
+    } catch (error) {
+      this.logger.error('Error getting replay job', { error, jobId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get replay job'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Stop a running replay job
+   */
+  cancelReplayJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const job = this.eventReplayService.cancelReplay(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        job
+      });
+    } catch (error) {
+      this.logger.error('Error cancelling replay job', { error, jobId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to cancel replay job'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  private badRequest(res: Response, code: string, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: {
+        code,
+        message
+      }
+    });
+  }
+}
@@ -0,0 +1,146 @@
+// src/api/controllers/dispute.controller.ts
+
+import { Request, Response } from 'express';
+import { DisputeManager } from '../../lib/payment/disputes/dispute.manager';
+import { Dispute, DisputeStatus } from '../../lib/payment/disputes/types';
+import { errorHandler } from '../../lib/payment/utils/error';
+import { PaymentLogger } from '../../lib/payment/utils/logger';
+
+export class DisputeController {
+  private logger: PaymentLogger;
+
+  constructor(private disputeManager: DisputeManager) {
+    this.logger = new PaymentLogger('info', 'DisputeController');
+  }
+
+  /**
+   * List disputes
+   */
+  getDisputes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, paymentTransactionId, limit, offset } = req.query;
+      
+      this.logger.info('Getting disputes', { status, paymentTransactionId, limit, offset });
+      
+      if (status && !Object.values(DisputeStatus).includes(status as DisputeStatus)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'invalid_status',
+            message: `Invalid dispute status: ${status}`
+          }
+        });
+        return;
+      }
+      
+      const disputes = await this.disputeManager.listDisputes({
+        status: status as DisputeStatus | undefined,
+        paymentTransactionId: paymentTransactionId as string | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined
+      });
+      
+      res.status(200).json({
+        success: true,
+        disputes: disputes.map(dispute => this.formatDispute(dispute))
+      });
+    } catch (error) {
+      this.logger.error('Error getting disputes', { error });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get disputes'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get a dispute by ID
+   */
+  getDispute = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      
+      this.logger.info(`Getting dispute ${id}`);
+      
+      const dispute = await this.disputeManager.getDispute(id);
+      
+      res.status(200).json({
+        success: true,
+        dispute: {
+          ...this.formatDispute(dispute),
+          evidence: dispute.evidence
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error getting dispute', { error, disputeId: req.params.id });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get dispute'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Add evidence to a dispute and optionally submit it for review
+   */
+  submitEvidence = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { evidence, submit } = req.body;
+      
+      this.logger.info(`Submitting evidence for dispute ${id}`, {
+        fields: Object.keys(evidence || {}),
+        submit
+      });
+      
+      const dispute = await this.disputeManager.submitEvidence(
+        id,
+        evidence,
+        submit !== false
+      );
+      
+      res.status(200).json({
+        success: true,
+        dispute: {
+          ...this.formatDispute(dispute),
+          evidence: dispute.evidence
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error submitting dispute evidence', { error, disputeId: req.params.id });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to submit dispute evidence'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  private formatDispute(dispute: Dispute) {
+    return {
+      id: dispute.id,
+      status: dispute.status,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      paymentTransactionId: dispute.paymentTransactionId,
+      chargebackTransactionId: dispute.chargebackTransactionId,
+      evidenceDueBy: dispute.evidenceDueBy,
+      evidenceSubmittedAt: dispute.evidenceSubmittedAt,
+      createdAt: dispute.createdAt,
+      updatedAt: dispute.updatedAt,
+      closedAt: dispute.closedAt
+    };
+  }
+}
@@ -0,0 +1,280 @@
+// src/api/controllers/invoice.controller.ts
+
+import { Request, Response } from 'express';
+import { InvoiceManager, InvoiceRenderFormat } from '../../lib/payment/invoices/invoice.manager';
+import { InvoiceStatus } from '../../lib/payment/invoices/types';
+import { errorHandler } from '../../lib/payment/utils/error';
+import { PaymentLogger } from '../../lib/payment/utils/logger';
+
+const RENDER_CONTENT_TYPES: Record<InvoiceRenderFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  text: 'text/plain; charset=utf-8'
+};
+
+export class InvoiceController {
+  private logger: PaymentLogger;
+
+  constructor(private invoiceManager: InvoiceManager) {
+    this.logger = new PaymentLogger('info', 'InvoiceController');
+  }
+
+  /**
+   * List invoices
+   */
+  getInvoices = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { merchantId, customerId, status, limit, offset } = req.query;
+
+      if (status && !Object.values(InvoiceStatus).includes(status as InvoiceStatus)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'invalid_status',
+            message: `Invalid invoice status: ${status}`
+          }
+        });
+        return;
+      }
+
+      const invoices = await this.invoiceManager.listInvoices({
+        merchantId: merchantId as string | undefined,
+        customerId: customerId as string | undefined,
+        status: status as InvoiceStatus | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        invoices
+      });
+    } catch (error) {
+      this.logger.error('Error getting invoices', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get invoices'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get an invoice by ID
+   */
+  getInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const invoice = await this.invoiceManager.getInvoice(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      this.logger.error('Error getting invoice', { error, invoiceId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get invoice'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Create a draft invoice
+   */
+  createInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { dueDate, ...input } = req.body;
+
+      this.logger.info('Creating invoice', {
+        merchantId: input.merchantId,
+        customerId: input.customerId,
+        lineItems: input.lineItems?.length
+      });
+
+      const invoice = await this.invoiceManager.createInvoice({
+        ...input,
+        dueDate: dueDate ? new Date(dueDate) : undefined
+      });
+
+      res.status(201).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      this.logger.error('Error creating invoice', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to create invoice'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Edit a draft invoice
+   */
+  updateInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { dueDate, ...changes } = req.body;
+
+      this.logger.info(`Updating invoice ${id}`, { fields: Object.keys(req.body) });
+
+      const invoice = await this.invoiceManager.updateDraft(id, {
+        ...changes,
+        dueDate: dueDate ? new Date(dueDate) : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      this.logger.error('Error updating invoice', { error, invoiceId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to update invoice'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Number a draft invoice and open it for payment
+   */
+  finalizeInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const invoice = await this.invoiceManager.finalizeInvoice(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      this.logger.error('Error finalizing invoice', { error, invoiceId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to finalize invoice'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Charge the amount due on an invoice
+   */
+  payInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { paymentMethodId } = req.body;
+
+      this.logger.info(`Paying invoice ${id}`);
+
+      const invoice = await this.invoiceManager.payInvoice(id, paymentMethodId);
+
+      res.status(200).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      this.logger.error('Error paying invoice', { error, invoiceId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to pay invoice'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Void an invoice
+   */
+  voidInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const invoice = await this.invoiceManager.voidInvoice(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      this.logger.error('Error voiding invoice', { error, invoiceId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to void invoice'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Write off an invoice as uncollectible
+   */
+  markUncollectible = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const invoice = await this.invoiceManager.markUncollectible(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        invoice
+      });
+    } catch (error) {
+      this.logger.error('Error marking invoice uncollectible', { error, invoiceId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to mark invoice uncollectible'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Render an invoice as HTML (default) or as a plain-text layout for PDF generation
+   */
+  renderInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const format = (req.query.format || 'html') as InvoiceRenderFormat;
+
+      if (!RENDER_CONTENT_TYPES[format]) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'invalid_format',
+            message: `Invalid render format: ${format}`
+          }
+        });
+        return;
+      }
+
+      const document = await this.invoiceManager.renderInvoice(req.params.id, format);
+
+      res.status(200).type(RENDER_CONTENT_TYPES[format]).send(document);
+    } catch (error) {
+      this.logger.error('Error rendering invoice', { error, invoiceId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to render invoice'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+}
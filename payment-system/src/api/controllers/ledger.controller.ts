@@ -0,0 +1,232 @@
+// src/api/controllers/ledger.controller.ts
+
+import { Request, Response } from 'express';
+import { LedgerManager } from '../../lib/payment/ledger/ledger.manager';
+import { LedgerAccountType } from '../../lib/payment/ledger/types';
+import { errorHandler } from '../../lib/payment/utils/error';
+import { PaymentLogger } from '../../lib/payment/utils/logger';
+
+export class LedgerController {
+  private logger: PaymentLogger;
+
+  constructor(private ledgerManager: LedgerManager) {
+    this.logger = new PaymentLogger('info', 'LedgerController');
+  }
+
+  /**
+   * List ledger accounts
+   */
+  getAccounts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { customerId, currency, type } = req.query;
+
+      if (!this.isValidType(type, res)) {
+        return;
+      }
+
+      const accounts = await this.ledgerManager.listAccounts({
+        customerId: customerId as string | undefined,
+        currency: currency as string | undefined,
+        type: type as LedgerAccountType | undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        accounts
+      });
+    } catch (error) {
+      this.logger.error('Error getting ledger accounts', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get ledger accounts'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get the balance of one account
+   */
+  getAccountBalance = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const balance = await this.ledgerManager.getAccountBalance(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        balance
+      });
+    } catch (error) {
+      this.logger.error('Error getting account balance', { error, accountId: req.params.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get account balance'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get account balances, optionally filtered by customer, currency or type
+   */
+  getBalances = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { customerId, currency, type } = req.query;
+
+      if (!this.isValidType(type, res)) {
+        return;
+      }
+
+      const balances = await this.ledgerManager.getBalances({
+        customerId: customerId as string | undefined,
+        currency: currency as string | undefined,
+        type: type as LedgerAccountType | undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        balances
+      });
+    } catch (error) {
+      this.logger.error('Error getting ledger balances', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get ledger balances'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get balances summed per currency and account type
+   */
+  getCurrencyBalances = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const balances = await this.ledgerManager.getCurrencyBalances();
+
+      res.status(200).json({
+        success: true,
+        balances
+      });
+    } catch (error) {
+      this.logger.error('Error getting currency balances', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get currency balances'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get a customer's balances, one per currency
+   */
+  getCustomerBalances = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const balances = await this.ledgerManager.getCustomerBalances(req.params.customerId);
+
+      res.status(200).json({
+        success: true,
+        balances
+      });
+    } catch (error) {
+      this.logger.error('Error getting customer balances', {
+        error,
+        customerId: req.params.customerId
+      });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get customer balances'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get the journal entries posted for a transaction
+   */
+  getTransactionEntries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entries = await this.ledgerManager.getEntries(req.params.transactionId);
+
+      res.status(200).json({
+        success: true,
+        entries
+      });
+    } catch (error) {
+      this.logger.error('Error getting journal entries', {
+        error,
+        transactionId: req.params.transactionId
+      });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get journal entries'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get the trial balance for a currency
+   */
+  getTrialBalance = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { currency } = req.query;
+
+      if (!currency) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'missing_currency',
+            message: 'A currency is required for the trial balance'
+          }
+        });
+        return;
+      }
+
+      const trialBalance = await this.ledgerManager.getTrialBalance(
+        (currency as string).toUpperCase()
+      );
+
+      res.status(200).json({
+        success: true,
+        trialBalance
+      });
+    } catch (error) {
+      this.logger.error('Error getting trial balance', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get trial balance'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  private isValidType(type: any, res: Response): boolean {
+    if (type && !Object.values(LedgerAccountType).includes(type as LedgerAccountType)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'invalid_account_type',
+          message: `Invalid account type: ${type}`
+        }
+      });
+      return false;
+    }
+
+    return true;
+  }
+}
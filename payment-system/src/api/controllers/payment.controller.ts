@@ -105,6 +105,99 @@ export class PaymentController {
     }
   };
 
+  authorizePayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Ensure service is initialized
+      if (!this.initialized) {
+        await this.initialize();
+      }
+      
+      const result = await this.paymentService.authorizePayment({
+        amount: {
+          amount: req.body.amount,
+          currency: req.body.currency
+        },
+        customer: {
+          id: req.user.id,
+          email: req.user.email,
+          name: req.user.name
+        },
+        paymentMethod: req.body.paymentMethodId || req.body.paymentMethod,
+        metadata: {
+          ...req.body.metadata,
+          idempotencyKey: req.headers['idempotency-key'],
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent']
+        }
+      });
+      
+      if (result.success) {
+        res.status(200).json(result);
+      } else if (result.error?.code === 'REQUIRES_ACTION') {
+        res.status(202).json(result);
+      } else {
+        res.status(400).json(result);
+      }
+    } catch (error) {
+      const errorResponse = errorHandler.handleControllerError(error, 'Payment authorization failed');
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  };
+
+  capturePayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Ensure service is initialized
+      if (!this.initialized) {
+        await this.initialize();
+      }
+      
+      if (!(await this.checkOwnership(req, res))) {
+        return;
+      }
+      
+      const result = await this.paymentService.capturePayment(
+        req.params.transactionId,
+        req.body.amount
+      );
+      
+      if (result.success) {
+        res.status(200).json(result);
+      } else {
+        res.status(this.getFailureStatus(result)).json(result);
+      }
+    } catch (error) {
+      const errorResponse = errorHandler.handleControllerError(error, 'Payment capture failed');
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  };
+
+  voidPayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Ensure service is initialized
+      if (!this.initialized) {
+        await this.initialize();
+      }
+      
+      if (!(await this.checkOwnership(req, res))) {
+        return;
+      }
+      
+      const result = await this.paymentService.voidPayment(
+        req.params.transactionId,
+        req.body.reason
+      );
+      
+      if (result.success) {
+        res.status(200).json(result);
+      } else {
+        res.status(this.getFailureStatus(result)).json(result);
+      }
+    } catch (error) {
+      const errorResponse = errorHandler.handleControllerError(error, 'Payment void failed');
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  };
+
   getPaymentMethods = async (req: Request, res: Response): Promise<void> => {
     try {
       // Ensure service is initialized
@@ -188,4 +281,34 @@ export class PaymentController {
       res.status(errorResponse.statusCode).json(errorResponse.body);
     }
   };
+
+  // Capture and void act on an existing payment, which must belong to the
+  // caller. Sends the error response and returns false when it does not.
+  private async checkOwnership(req: Request, res: Response): Promise<boolean> {
+    const transaction = await this.paymentService.getTransaction(req.params.transactionId);
+    
+    if (!transaction) {
+      res.status(404).json({ error: 'Transaction not found' });
+      return false;
+    }
+    
+    if (transaction.customerId !== req.user.id) {
+      res.status(403).json({ error: 'Unauthorized access' });
+      return false;
+    }
+    
+    return true;
+  }
+
+  // Map a failed capture/void result to a status code
+  private getFailureStatus(result: { error?: { code: string } }): number {
+    switch (result.error?.code) {
+      case ErrorCode.TRANSACTION_NOT_FOUND:
+        return 404;
+      case ErrorCode.TRANSACTION_INVALID_STATE:
+        return 409;
+      default:
+        return 400;
+    }
+  }
 }
@@ -0,0 +1,318 @@
+// src/api/controllers/subscription.controller.ts
+
+import { Request, Response } from 'express';
+import { SubscriptionManager } from '../../lib/payment/subscriptions/subscription.manager';
+import { DunningManager } from '../../lib/payment/subscriptions/dunning.manager';
+import { errorHandler } from '../../lib/payment/utils/error';
+import { PaymentLogger } from '../../lib/payment/utils/logger';
+
+export class SubscriptionController {
+  private logger: PaymentLogger;
+
+  constructor(
+    private subscriptionManager: SubscriptionManager,
+    private dunningManager?: DunningManager
+  ) {
+    this.logger = new PaymentLogger('info', 'SubscriptionController');
+  }
+
+  /**
+   * List the plans available for subscription
+   */
+  getPlans = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const plans = await this.subscriptionManager.listPlans();
+
+      res.status(200).json({
+        success: true,
+        plans
+      });
+    } catch (error) {
+      this.logger.error('Error getting plans', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get plans'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Add a plan to the catalog
+   */
+  createPlan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, price, currency, interval, trialDays, metadata } = req.body;
+
+      this.logger.info('Creating plan', { name, price, currency, interval });
+
+      const plan = await this.subscriptionManager.createPlan({
+        name,
+        price,
+        currency,
+        interval,
+        trialDays,
+        metadata
+      });
+
+      res.status(201).json({
+        success: true,
+        plan
+      });
+    } catch (error) {
+      this.logger.error('Error creating plan', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to create plan'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * List subscriptions currently in dunning
+   */
+  getDunningAccounts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.dunningManager) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'dunning_unavailable',
+            message: 'Dunning functionality is not available'
+          }
+        });
+        return;
+      }
+
+      const { limit, offset } = req.query;
+
+      const subscriptions = await this.dunningManager.getDunningAccounts(
+        limit ? parseInt(limit as string) : undefined,
+        offset ? parseInt(offset as string) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        accounts: subscriptions.map(subscription => ({
+          subscriptionId: subscription.id,
+          customerId: subscription.customerId,
+          customerEmail: subscription.customerEmail,
+          planName: subscription.plan.name,
+          amount: subscription.plan.price,
+          currency: subscription.plan.currency,
+          status: subscription.status,
+          dunning: subscription.dunning
+        }))
+      });
+    } catch (error) {
+      this.logger.error('Error getting dunning accounts', { error });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get dunning accounts'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Subscribe the current user to a plan
+   */
+  createSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { planId, paymentMethodId, trialDays, metadata } = req.body;
+
+      this.logger.info('Creating subscription', { customerId: req.user.id, planId });
+
+      const subscription = await this.subscriptionManager.createSubscription({
+        customerId: req.user.id,
+        customerEmail: req.user.email,
+        planId,
+        paymentMethodId,
+        trialDays,
+        metadata
+      });
+
+      res.status(201).json(subscription);
+    } catch (error) {
+      this.logger.error('Error creating subscription', { error, customerId: req.user?.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to create subscription'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Get the current user's subscription
+   */
+  getCurrentSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const subscription = await this.subscriptionManager.getCurrentSubscription(req.user.id);
+
+      if (!subscription) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'subscription_not_found',
+            message: 'No active subscription'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json(subscription);
+    } catch (error) {
+      this.logger.error('Error getting subscription', { error, customerId: req.user?.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get subscription'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Preview the proration for switching the current subscription to another plan
+   */
+  previewPlanChange = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { planId } = req.query;
+
+      if (!planId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'missing_plan_id',
+            message: 'planId query parameter is required'
+          }
+        });
+        return;
+      }
+
+      const current = await this.subscriptionManager.getCurrentSubscription(req.user.id);
+
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'subscription_not_found',
+            message: 'No active subscription'
+          }
+        });
+        return;
+      }
+
+      const preview = await this.subscriptionManager.previewPlanChange(current.id, planId as string);
+
+      res.status(200).json({
+        success: true,
+        preview
+      });
+    } catch (error) {
+      this.logger.error('Error previewing plan change', { error, customerId: req.user?.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to preview plan change'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Change plan and/or toggle cancel-at-period-end on the current subscription
+   */
+  updateCurrentSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { planId, cancelAtPeriodEnd } = req.body;
+      const current = await this.subscriptionManager.getCurrentSubscription(req.user.id);
+
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'subscription_not_found',
+            message: 'No active subscription'
+          }
+        });
+        return;
+      }
+
+      this.logger.info(`Updating subscription ${current.id}`, { planId, cancelAtPeriodEnd });
+
+      let subscription = current;
+
+      if (planId) {
+        subscription = await this.subscriptionManager.changePlan(subscription.id, planId);
+      }
+
+      if (cancelAtPeriodEnd === true) {
+        subscription = await this.subscriptionManager.cancelSubscription(subscription.id, { atPeriodEnd: true });
+      } else if (cancelAtPeriodEnd === false) {
+        subscription = await this.subscriptionManager.resumeSubscription(subscription.id);
+      }
+
+      res.status(200).json(subscription);
+    } catch (error) {
+      this.logger.error('Error updating subscription', { error, customerId: req.user?.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to update subscription'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * Cancel the current subscription. Cancels at period end unless ?immediate=true.
+   */
+  cancelCurrentSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const immediate = req.query.immediate === 'true';
+      const current = await this.subscriptionManager.getCurrentSubscription(req.user.id);
+
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'subscription_not_found',
+            message: 'No active subscription'
+          }
+        });
+        return;
+      }
+
+      this.logger.info(`Canceling subscription ${current.id}`, { immediate });
+
+      const subscription = await this.subscriptionManager.cancelSubscription(current.id, {
+        atPeriodEnd: !immediate
+      });
+
+      res.status(200).json(subscription);
+    } catch (error) {
+      this.logger.error('Error canceling subscription', { error, customerId: req.user?.id });
+
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to cancel subscription'
+      );
+
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+}
@@ -3,6 +3,8 @@
 import { Request, Response } from 'express';
 import { TransactionManager } from '../../lib/payment/transaction/managers/transaction.manager';
 import { RetryManager } from '../../lib/payment/transaction/managers/retry.manager';
+import { RefundManager } from '../../lib/payment/transaction/managers/refund.manager';
+import { RecordLocker } from '../../lib/payment/utils/record-locker';
 import { 
   TransactionStatus, 
   TransactionType
@@ -17,7 +19,9 @@ export class TransactionController {
 
   constructor(
     private transactionManager: TransactionManager,
-    private retryManager?: RetryManager
+    private retryManager?: RetryManager,
+    private refundManager?: RefundManager,
+    private recordLocker?: RecordLocker
   ) {
     this.logger = new PaymentLogger('info', 'TransactionController');
   }
@@ -228,7 +232,7 @@ export class TransactionController {
   updateTransactionStatus = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { status, metadata } = req.body;
+      const { status, metadata, reason } = req.body;
       
       this.logger.info(`Updating transaction ${id} status to ${status}`);
       
@@ -248,7 +252,9 @@ export class TransactionController {
       const transaction = await this.transactionManager.updateTransactionStatus(
         id,
         status as TransactionStatus,
-        metadata
+        metadata,
+        undefined,
+        { actor: req.user?.id, reason }
       );
       
       // Return updated transaction
@@ -402,6 +408,40 @@ export class TransactionController {
     }
   }
 
+  /**
+   * Dump the current lock wait-for graph for debugging stuck transactions
+   */
+  getLockGraph = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.recordLocker) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'locking_unavailable',
+            message: 'Record locking is not available'
+          }
+        });
+        return;
+      }
+      
+      res.status(200).json({
+        success: true,
+        graph: this.recordLocker.getLockGraph(),
+        metrics: this.recordLocker.getMetrics()
+      });
+    } catch (error) {
+      this.logger.error('Error getting lock graph', { error });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get lock graph'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
   /**
    * Cancel a pending retry
    */
@@ -457,4 +497,134 @@ export class TransactionController {
       res.status(errorResponse.statusCode).json(errorResponse.body);
     }
   }
+
+  /**
+   * Refund all or part of a captured payment
+   */
+  createRefund = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { amount, reason, metadata } = req.body;
+      
+      this.logger.info(`Creating refund for transaction ${id}`, { amount, reason });
+      
+      // Check if refund manager is available
+      if (!this.refundManager) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'refund_unavailable',
+            message: 'Refund functionality is not available'
+          }
+        });
+        return;
+      }
+      
+      const refund = await this.refundManager.createRefund(id, {
+        amount,
+        reason,
+        metadata,
+        idempotencyKey: req['idempotencyKey']
+      });
+      
+      if (refund.status === TransactionStatus.FAILED) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'refund_failed',
+            message: refund.metadata?.failureMessage || 'Refund was declined by the provider'
+          },
+          refund: {
+            id: refund.id,
+            status: refund.status
+          }
+        });
+        return;
+      }
+      
+      // Return refund transaction
+      res.status(201).json({
+        success: true,
+        refund: {
+          id: refund.id,
+          parentTransactionId: refund.parentTransactionId,
+          status: refund.status,
+          amount: refund.amount,
+          currency: refund.currency,
+          reason: refund.metadata?.reason,
+          createdAt: refund.createdAt,
+          completedAt: refund.completedAt
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Error creating refund`, { 
+        error, 
+        transactionId: req.params.id 
+      });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to create refund'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+
+  /**
+   * List refunds recorded against a payment
+   */
+  getRefunds = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      
+      this.logger.info(`Getting refunds for transaction ${id}`);
+      
+      // Check if refund manager is available
+      if (!this.refundManager) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'refund_unavailable',
+            message: 'Refund functionality is not available'
+          }
+        });
+        return;
+      }
+      
+      const ledger = await this.refundManager.getRefundLedger(id);
+      
+      // Return ledger with refund summaries
+      res.status(200).json({
+        success: true,
+        ledger: {
+          ...ledger,
+          refunds: ledger.refunds.map(refund => ({
+            id: refund.id,
+            status: refund.status,
+            amount: refund.amount,
+            currency: refund.currency,
+            reason: refund.metadata?.reason,
+            createdAt: refund.createdAt,
+            completedAt: refund.completedAt,
+            failedAt: refund.failedAt
+          }))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Error getting refunds`, { 
+        error, 
+        transactionId: req.params.id 
+      });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get refunds'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
 }
@@ -3,10 +3,20 @@
 import { Request, Response } from 'express';
 import { WebhookManager } from '../../lib/payment/webhooks/webhook.manager';
 import { TransactionManager } from '../../lib/payment/transaction/managers/transaction.manager';
-import { TransactionStatus } from '../../lib/payment/types/transaction.types';
+import { DisputeManager } from '../../lib/payment/disputes/dispute.manager';
+import { Transaction, TransactionStatus } from '../../lib/payment/types/transaction.types';
+import { isStatusRegression } from '../../lib/payment/transaction/utils/status';
+import { AuditManager } from '../../lib/payment/compliance/audit.manager';
+import {
+  InboundWebhookStore,
+  InMemoryInboundWebhookStore,
+  InboundWebhookEvent,
+  InboundWebhookOutcome
+} from '../../lib/payment/webhooks/inbound-webhook.store';
+import { WebhookDeliveryQuery, WebhookDeliveryStatus, WebhookEventType } from '../../lib/payment/webhooks/types';
+import { verifyWebhookSignature } from '../../lib/payment/webhooks/webhook.signature';
 import { PaymentLogger } from '../../lib/payment/utils/logger';
 import { errorHandler } from '../../lib/payment/utils/error';
-import crypto from 'crypto';
 
 export class WebhookController {
   private logger: PaymentLogger;
@@ -17,7 +27,10 @@ export class WebhookController {
     private providerConfig: {
       stripeWebhookSecret?: string;
       [key: string]: any;
-    } = {}
+    } = {},
+    private disputeManager?: DisputeManager,
+    private inboundWebhookStore: InboundWebhookStore = new InMemoryInboundWebhookStore(),
+    private auditManager?: AuditManager
   ) {
     this.logger = new PaymentLogger('info', 'WebhookController');
   }
@@ -26,6 +39,8 @@ export class WebhookController {
    * Handle incoming Stripe webhook
    */
 handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
+  let inbound: InboundWebhookEvent | undefined;
+  
   try {
     // Get Stripe signature from headers
     const signature = req.headers['stripe-signature'] as string;
@@ -85,21 +100,44 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
       // Process event based on type
       const event = req.body;
       
+      inbound = {
+        provider: 'stripe',
+        eventId: event.id,
+        eventType: event.type,
+        eventCreatedAt: event.created ? new Date(event.created * 1000) : new Date(),
+        receivedAt: new Date()
+      };
+      
+      // Stripe retries deliveries, so the same event can arrive more than once
+      if (!await this.inboundWebhookStore.claim(inbound)) {
+        await this.recordDecision(inbound, InboundWebhookOutcome.IGNORED, 'duplicate_event');
+        res.status(200).json({ received: true, duplicate: true });
+        return;
+      }
+      
       switch (event.type) {
         case 'payment_intent.succeeded':
-          await this.handlePaymentIntentSucceeded(event.data.object);
+          await this.handlePaymentIntentSucceeded(event.data.object, inbound);
           break;
           
         case 'payment_intent.payment_failed':
-          await this.handlePaymentIntentFailed(event.data.object);
+          await this.handlePaymentIntentFailed(event.data.object, inbound);
           break;
           
         case 'charge.succeeded':
-          await this.handleChargeSucceeded(event.data.object);
+          await this.handleChargeSucceeded(event.data.object, inbound);
           break;
           
         case 'charge.failed':
-          await this.handleChargeFailed(event.data.object);
+          await this.handleChargeFailed(event.data.object, inbound);
+          break;
+          
+        case 'charge.dispute.created':
+        case 'charge.dispute.updated':
+        case 'charge.dispute.closed':
+        case 'charge.dispute.funds_withdrawn':
+        case 'charge.dispute.funds_reinstated':
+          await this.handleDisputeEvent(event.type, event.data.object, inbound);
           break;
         
         // Add more event types as needed
@@ -108,26 +146,53 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
           this.logger.info(`Unhandled Stripe event type: ${event.type}`);
       }
       
-      // Always return 200 to Stripe, even if processing fails
-      // This prevents Stripe from retrying the webhook
+      if (!inbound.outcome) {
+        await this.recordDecision(inbound, InboundWebhookOutcome.IGNORED, 'no_action');
+      }
+      
+      await this.inboundWebhookStore.complete(
+        inbound.provider,
+        inbound.eventId,
+        inbound.outcome!,
+        inbound.transactionId
+      );
+      
+      // Handlers record a failure instead of throwing it
+      if (inbound.outcome === InboundWebhookOutcome.FAILED) {
+        this.respondProcessingFailed(res);
+        return;
+      }
+      
       res.status(200).json({ received: true });
     } catch (error) {
       this.logger.error('Error processing Stripe webhook', { error });
       
-      // Always return 200 to Stripe to prevent retries
-      // Log the error internally for investigation
-      res.status(200).json({ received: true });
+      // A failed event may be processed again if it is delivered again, but
+      // one whose change was already applied must not be applied twice
+      const applied = inbound?.outcome === InboundWebhookOutcome.APPLIED;
+      if (inbound) {
+        const outcome = applied ? InboundWebhookOutcome.APPLIED : InboundWebhookOutcome.FAILED;
+        
+        try {
+          await this.inboundWebhookStore.complete(inbound.provider, inbound.eventId, outcome, inbound.transactionId);
+        } catch (completeError) {
+          this.logger.error('Failed to record webhook processing failure', { error: completeError });
+        }
+      }
       
-      // Also emit an event for monitoring
-      try {
-        await this.webhookManager.emitEvent('webhook.processing_error', {
-          provider: 'stripe',
-          error: error.message,
-          timestamp: new Date()
-        });
-      } catch (emitError) {
-        this.logger.error('Failed to emit webhook error event', { error: emitError });
+      // Nothing is left to retry once the change has been applied
+      if (applied) {
+        res.status(200).json({ received: true });
+      } else {
+        this.respondProcessingFailed(res);
       }
+      
+      // Also emit an event for monitoring
+      await this.publishEvent('webhook.processing_error', {
+        provider: 'stripe',
+        error: error.message,
+        timestamp: new Date()
+      });
     }
   }
   
@@ -361,53 +426,23 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
   signature: string,
   secret: string
 ): boolean {
-  try {
-    // Parse signature components
-    const signatureParts = signature.split(',');
-    if (signatureParts.length < 2) {
-      throw new Error('Invalid signature format');
-    }
-    
-    // Extract timestamp and signature values
-    const timestampPart = signatureParts.find(part => part.startsWith('t='));
-    const signaturePart = signatureParts.find(part => part.startsWith('v1='));
-    
-    if (!timestampPart || !signaturePart) {
-      throw new Error('Missing timestamp or signature components');
-    }
-    
-    const timestamp = timestampPart.substring(2);
-    const signatureValue = signaturePart.substring(3);
-    
-    // Check if webhook is too old (5 minutes)
-    const now = Math.floor(Date.now() / 1000);
-    if (now - parseInt(timestamp) > 300) {
-      throw new Error('Webhook timestamp too old');
-    }
-    
-    // Compute expected signature
-    const signedPayload = `${timestamp}.${payload}`;
-    const expectedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(signedPayload)
-      .digest('hex');
-    
-    // Compare signatures using constant-time comparison
-    return crypto.timingSafeEqual(
-      Buffer.from(expectedSignature),
-      Buffer.from(signatureValue)
-    );
-  } catch (error) {
-    this.logger.error('Signature verification failed', { error });
-    return false;
+  // Stripe signs `<timestamp>.<payload>` the same way our outbound
+  // webhooks are signed, so one verifier covers both
+  const isValid = verifyWebhookSignature(payload, signature, secret);
+  
+  if (!isValid) {
+    this.logger.error('Signature verification failed');
   }
+  
+  return isValid;
 }
   
   /**
    * Handle payment intent succeeded event
    */
   private async handlePaymentIntentSucceeded(
-    paymentIntent: any
+    paymentIntent: any,
+    inbound: InboundWebhookEvent
   ): Promise<void> {
     try {
       this.logger.info(`Payment intent succeeded: ${paymentIntent.id}`);
@@ -429,9 +464,14 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
         return;
       }
       
+      if (!await this.isInOrder(inbound, transaction, TransactionStatus.COMPLETED)) {
+        return;
+      }
+      
       // Ignore if transaction is already completed
       if (transaction.status === TransactionStatus.COMPLETED) {
         this.logger.info(`Transaction ${transactionId} already completed`);
+        await this.recordDecision(inbound, InboundWebhookOutcome.IGNORED, 'already_completed', transactionId);
         return;
       }
       
@@ -444,13 +484,18 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
           stripePaymentStatus: paymentIntent.status,
           paymentMethod: paymentIntent.payment_method_types?.join(','),
           paymentMethodDetails: paymentIntent.payment_method_details
-        }
+        },
+        undefined,
+        { actor: `webhook:${inbound.provider}`, reason: inbound.eventType }
       );
       
       this.logger.info(`Updated transaction ${transactionId} to COMPLETED based on webhook`);
+      await this.recordDecision(inbound, InboundWebhookOutcome.APPLIED, 'status_applied', transactionId, {
+        status: { from: transaction.status, to: TransactionStatus.COMPLETED }
+      });
       
       // Emit event
-      await this.webhookManager.emitEvent('payment.succeeded', {
+      await this.publishEvent('payment.succeeded', {
         transactionId,
         provider: 'stripe',
         externalId,
@@ -460,9 +505,12 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
       });
     } catch (error) {
       this.logger.error(`Error handling payment intent succeeded: ${paymentIntent.id}`, { error });
+      await this.recordFailure(inbound, 'processing_error', paymentIntent.metadata?.transactionId, {
+        error: error.message
+      });
       
       // Emit event for monitoring
-      await this.webhookManager.emitEvent('webhook.processing_error', {
+      await this.publishEvent('webhook.processing_error', {
         provider: 'stripe',
         eventType: 'payment_intent.succeeded',
         error: error.message,
@@ -476,7 +524,8 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
    * Handle payment intent failed event
    */
   private async handlePaymentIntentFailed(
-    paymentIntent: any
+    paymentIntent: any,
+    inbound: InboundWebhookEvent
   ): Promise<void> {
     try {
       this.logger.info(`Payment intent failed: ${paymentIntent.id}`);
@@ -498,10 +547,17 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
         return;
       }
       
+      if (!await this.isInOrder(inbound, transaction, TransactionStatus.FAILED)) {
+        return;
+      }
+      
       // Ignore if transaction is already failed or completed
       if (transaction.status === TransactionStatus.FAILED || 
           transaction.status === TransactionStatus.COMPLETED) {
         this.logger.info(`Transaction ${transactionId} already in terminal state: ${transaction.status}`);
+        await this.recordDecision(inbound, InboundWebhookOutcome.IGNORED, 'already_terminal', transactionId, undefined, {
+          currentStatus: transaction.status
+        });
         return;
       }
       
@@ -511,7 +567,7 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
       const errorMessage = error.message || 'Payment failed';
       
       // Handle as transaction error with appropriate error info
-      await this.transactionManager.handleTransactionError(
+      const updatedTransaction = await this.transactionManager.handleTransactionError(
         transactionId,
         {
           code: errorCode,
@@ -527,9 +583,12 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
       );
       
       this.logger.info(`Handled payment failure for transaction ${transactionId}`);
+      await this.recordDecision(inbound, InboundWebhookOutcome.APPLIED, 'status_applied', transactionId, {
+        status: { from: transaction.status, to: updatedTransaction.status }
+      });
       
       // Emit event
-      await this.webhookManager.emitEvent('payment.failed', {
+      await this.publishEvent('payment.failed', {
         transactionId,
         provider: 'stripe',
         externalId,
@@ -539,9 +598,12 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
       });
     } catch (error) {
       this.logger.error(`Error handling payment intent failed: ${paymentIntent.id}`, { error });
+      await this.recordFailure(inbound, 'processing_error', paymentIntent.metadata?.transactionId, {
+        error: error.message
+      });
       
       // Emit event for monitoring
-      await this.webhookManager.emitEvent('webhook.processing_error', {
+      await this.publishEvent('webhook.processing_error', {
         provider: 'stripe',
         eventType: 'payment_intent.payment_failed',
         error: error.message,
@@ -554,7 +616,7 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
   /**
    * Handle charge succeeded event
    */
-  private async handleChargeSucceeded(charge: any): Promise<void> {
+  private async handleChargeSucceeded(charge: any, inbound: InboundWebhookEvent): Promise<void> {
     try {
       this.logger.info(`Charge succeeded: ${charge.id}`);
       
@@ -584,7 +646,7 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
         status: charge.status,
         amount: charge.amount,
         currency: charge.currency
-      });
+      }, inbound);
     } catch (error) {
       this.logger.error(`Error handling charge succeeded: ${charge.id}`, { error });
     }
@@ -593,7 +655,7 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
   /**
    * Handle charge failed event
    */
-  private async handleChargeFailed(charge: any): Promise<void> {
+  private async handleChargeFailed(charge: any, inbound: InboundWebhookEvent): Promise<void> {
     try {
       this.logger.info(`Charge failed: ${charge.id}`);
       
@@ -622,12 +684,109 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
           message: charge.failure_message,
           decline_code: charge.outcome?.type
         }
-      });
+      }, inbound);
     } catch (error) {
       this.logger.error(`Error handling charge failed: ${charge.id}`, { error });
     }
   }
   
+  /**
+   * Handle charge.dispute.* events
+   */
+  private async handleDisputeEvent(
+    eventType: string,
+    dispute: any,
+    inbound: InboundWebhookEvent
+  ): Promise<void> {
+    try {
+      this.logger.info(`Dispute event ${eventType}: ${dispute.id}`, {
+        status: dispute.status,
+        reason: dispute.reason
+      });
+      
+      if (!this.disputeManager) {
+        this.logger.warn(`Dispute handling is not configured, skipping ${dispute.id}`);
+        return;
+      }
+      
+      // Stripe does not copy our metadata onto disputes, so the payment is
+      // found by the payment intent or charge that was disputed
+      const paymentIntentId = this.getObjectId(dispute.payment_intent);
+      const chargeId = this.getObjectId(dispute.charge);
+      
+      let transaction: Transaction | null = null;
+      for (const reference of [paymentIntentId, chargeId]) {
+        if (!transaction && reference) {
+          transaction = await this.transactionManager.getTransactionByProviderReference(reference);
+        }
+      }
+      
+      if (!transaction) {
+        this.logger.warn(`No transaction found for dispute: ${dispute.id}`, {
+          paymentIntentId,
+          chargeId
+        });
+        return;
+      }
+      
+      const transactionId = transaction.id;
+      
+      const result = await this.disputeManager.syncDispute({
+        providerDisputeId: dispute.id,
+        providerChargeId: chargeId,
+        paymentTransactionId: transactionId,
+        status: dispute.status,
+        reason: dispute.reason,
+        amount: dispute.amount / 100,
+        currency: dispute.currency?.toUpperCase(),
+        evidenceDueBy: dispute.evidence_details?.due_by 
+          ? new Date(dispute.evidence_details.due_by * 1000)
+          : undefined,
+        metadata: {
+          lastEventType: eventType,
+          isChargeRefundable: dispute.is_charge_refundable
+        }
+      });
+      
+      // Not tied to the transaction, so it never makes a later payment
+      // event look stale
+      await this.recordDecision(inbound, InboundWebhookOutcome.APPLIED, 'dispute_synced', undefined, undefined, {
+        transactionId,
+        disputeId: result.id,
+        disputeStatus: result.status
+      });
+      
+      if (eventType === 'charge.dispute.created') {
+        await this.publishEvent('payment.disputed', {
+          transactionId,
+          disputeId: result.id,
+          provider: 'stripe',
+          externalId: dispute.id,
+          amount: result.amount,
+          currency: result.currency,
+          reason: result.reason,
+          evidenceDueBy: result.evidenceDueBy,
+          timestamp: new Date()
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Error handling dispute event: ${dispute.id}`, { error });
+      await this.recordFailure(inbound, 'processing_error', undefined, {
+        disputeId: dispute.id,
+        error: error.message
+      });
+      
+      // Emit event for monitoring
+      await this.publishEvent('webhook.processing_error', {
+        provider: 'stripe',
+        eventType,
+        error: error.message,
+        disputeId: dispute.id,
+        timestamp: new Date()
+      });
+    }
+  }
+  
   /**
    * Get a single webhook
    */
@@ -676,6 +835,347 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
     }
   }
   
+  /**
+   * Issue a new signing secret. The old one keeps signing deliveries for
+   * the grace period so the receiver can switch over without failures.
+   */
+  rotateWebhookSecret = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { gracePeriodHours = 24 } = req.body || {};
+      
+      if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > 168) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'invalid_grace_period',
+            message: 'gracePeriodHours must be a number between 0 and 168'
+          }
+        });
+        return;
+      }
+      
+      this.logger.info(`Rotating secret of webhook ${id}`, { gracePeriodHours, requestedBy: req.user?.id });
+      
+      const webhook = await this.webhookManager.rotateSecret(id, gracePeriodHours * 60 * 60 * 1000);
+      
+      // The new secret is only ever shown here
+      res.status(200).json({
+        success: true,
+        webhook: {
+          id: webhook.id,
+          secret: webhook.secret,
+          previousSecretExpiresAt: webhook.previousSecretExpiresAt,
+          updatedAt: webhook.updatedAt
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Error rotating secret of webhook ${req.params.id}`, { error });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to rotate webhook secret'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+  
+  /**
+   * List deliveries to a webhook, newest first
+   */
+  getWebhookDeliveries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { eventType, status, startDate, endDate, limit, offset } = req.query;
+      
+      this.logger.info(`Getting deliveries for webhook ${id}`, {
+        eventType, status, startDate, endDate, limit, offset
+      });
+      
+      // Parse query parameters
+      const query: WebhookDeliveryQuery = {
+        limit: limit ? parseInt(limit as string) : 50,
+        offset: offset ? parseInt(offset as string) : undefined
+      };
+      
+      if (eventType) {
+        query.eventType = eventType as WebhookEventType;
+      }
+      
+      if (status) {
+        if (!Object.keys(WebhookDeliveryStatus).some(key => (WebhookDeliveryStatus as any)[key] === status)) {
+          this.sendInvalidDeliveryQuery(res, `Unknown delivery status: ${status}`);
+          return;
+        }
+        query.status = status as WebhookDeliveryStatus;
+      }
+      
+      if (startDate) {
+        query.startDate = new Date(startDate as string);
+      }
+      
+      if (endDate) {
+        query.endDate = new Date(endDate as string);
+      }
+      
+      if (
+        (query.startDate && isNaN(query.startDate.getTime())) ||
+        (query.endDate && isNaN(query.endDate.getTime()))
+      ) {
+        this.sendInvalidDeliveryQuery(res, 'startDate and endDate must be valid dates');
+        return;
+      }
+      
+      // Get deliveries
+      const deliveries = await this.webhookManager.getDeliveries(id, query);
+      
+      // Return deliveries
+      res.status(200).json({
+        success: true,
+        deliveries
+      });
+    } catch (error) {
+      this.logger.error(`Error getting deliveries for webhook ${req.params.id}`, { error });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get webhook deliveries'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+  
+  /**
+   * Get one delivery with the request sent and every attempt's response
+   */
+  getWebhookDelivery = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, deliveryId } = req.params;
+      
+      this.logger.info(`Getting delivery ${deliveryId} for webhook ${id}`);
+      
+      const details = await this.webhookManager.getDeliveryDetails(id, deliveryId);
+      
+      res.status(200).json({
+        success: true,
+        ...details
+      });
+    } catch (error) {
+      this.logger.error(`Error getting webhook delivery ${req.params.deliveryId}`, { error });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to get webhook delivery'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+  
+  /**
+   * Send the event of one delivery again
+   */
+  redeliverWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, deliveryId } = req.params;
+      
+      this.logger.info(`Redelivering ${deliveryId} to webhook ${id}`, { requestedBy: req.user?.id });
+      
+      const delivery = await this.webhookManager.redeliver(id, deliveryId);
+      
+      res.status(202).json({
+        success: true,
+        delivery
+      });
+    } catch (error) {
+      this.logger.error(`Error redelivering webhook delivery ${req.params.deliveryId}`, { error });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to redeliver webhook'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+  
+  /**
+   * Send again every delivery to a webhook that failed in a time window
+   */
+  redeliverFailedWebhooks = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { startDate, endDate } = req.body;
+      
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      
+      if (!startDate || !endDate || isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+        this.sendInvalidDeliveryQuery(res, 'startDate and endDate must be valid dates with startDate first');
+        return;
+      }
+      
+      this.logger.info(`Redelivering failed deliveries to webhook ${id}`, {
+        startDate: start,
+        endDate: end,
+        requestedBy: req.user?.id
+      });
+      
+      const deliveries = await this.webhookManager.redeliverFailed(id, start, end);
+      
+      res.status(202).json({
+        success: true,
+        count: deliveries.length,
+        deliveries
+      });
+    } catch (error) {
+      this.logger.error(`Error redelivering failed webhooks for ${req.params.id}`, { error });
+      
+      // Format and return error response
+      const errorResponse = errorHandler.handleControllerError(
+        error,
+        'Failed to redeliver failed webhooks'
+      );
+      
+      res.status(errorResponse.statusCode).json(errorResponse.body);
+    }
+  }
+  
+  /**
+   * Refuse a status change carried by an event older than the last one
+   * applied to the transaction, or one that would move it back a stage.
+   * Providers send events out of order, e.g. charge.failed after
+   * payment_intent.succeeded.
+   */
+  private async isInOrder(
+    inbound: InboundWebhookEvent,
+    transaction: Transaction,
+    nextStatus: TransactionStatus
+  ): Promise<boolean> {
+    const lastApplied = await this.inboundWebhookStore.getLastApplied(inbound.provider, transaction.id);
+    
+    if (lastApplied && lastApplied.eventCreatedAt > inbound.eventCreatedAt) {
+      await this.recordDecision(inbound, InboundWebhookOutcome.STALE, 'older_than_last_applied', transaction.id, undefined, {
+        currentStatus: transaction.status,
+        attemptedStatus: nextStatus,
+        lastAppliedEventId: lastApplied.eventId,
+        lastAppliedEventCreatedAt: lastApplied.eventCreatedAt
+      });
+      return false;
+    }
+    
+    if (isStatusRegression(transaction.status, nextStatus)) {
+      await this.recordDecision(inbound, InboundWebhookOutcome.STALE, 'status_regression', transaction.id, undefined, {
+        currentStatus: transaction.status,
+        attemptedStatus: nextStatus
+      });
+      return false;
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Record that processing an inbound event failed, unless its change was
+   * already applied and only a later step such as publishing an event broke
+   */
+  private async recordFailure(
+    inbound: InboundWebhookEvent,
+    reason: string,
+    transactionId?: string,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    if (inbound.outcome === InboundWebhookOutcome.APPLIED) {
+      return;
+    }
+    
+    await this.recordDecision(inbound, InboundWebhookOutcome.FAILED, reason, transactionId, undefined, details);
+  }
+  
+  /**
+   * A non-2xx response makes the provider deliver the event again, and a
+   * failed event is claimed again when it arrives
+   */
+  private respondProcessingFailed(res: Response): void {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'processing_failed',
+        message: 'Webhook could not be processed'
+      }
+    });
+  }
+  
+  /**
+   * ID of a Stripe object reference, which is an ID string unless expanded
+   */
+  private getObjectId(reference: string | { id: string } | null | undefined): string | undefined {
+    return typeof reference === 'string' ? reference : reference?.id;
+  }
+
+  /**
+   * Publish an event through the webhook manager. The change it reports is
+   * already saved, so a failure is logged rather than thrown.
+   */
+  private async publishEvent(type: string, data: Record<string, any>): Promise<void> {
+    try {
+      await this.webhookManager.emitEvent(type, data);
+    } catch (error) {
+      this.logger.error(`Failed to emit ${type} event`, { error });
+    }
+  }
+  
+  /**
+   * Note what was done with an inbound event and write it to the audit trail
+   */
+  private async recordDecision(
+    inbound: InboundWebhookEvent,
+    outcome: InboundWebhookOutcome,
+    reason: string,
+    transactionId?: string,
+    changes?: Record<string, any>,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    inbound.outcome = outcome;
+    inbound.transactionId = transactionId || inbound.transactionId;
+    
+    this.logger.info(`Stripe event ${inbound.eventId} ${outcome}: ${reason}`, {
+      eventType: inbound.eventType,
+      transactionId,
+      ...details
+    });
+    
+    if (!this.auditManager) {
+      return;
+    }
+    
+    try {
+      await this.auditManager.logAction(
+        `webhook.${outcome}`,
+        transactionId ? 'transaction' : 'inbound_webhook',
+        transactionId || inbound.eventId,
+        inbound.provider,
+        changes,
+        {
+          ...details,
+          reason,
+          eventId: inbound.eventId,
+          eventType: inbound.eventType,
+          eventCreatedAt: inbound.eventCreatedAt
+        }
+      );
+    } catch (error) {
+      // Auditing must not stop the webhook from being processed
+      this.logger.warn(`Failed to audit Stripe event ${inbound.eventId}`, { error });
+    }
+  }
+  
   /**
    * Check if a Stripe error code is retryable
    */
@@ -693,6 +1193,16 @@ handleStripeWebhook = async (req: Request, res: Response): Promise<void> => {
     return retryableErrors.includes(errorCode);
   }
   
+  private sendInvalidDeliveryQuery(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'invalid_delivery_query',
+        message
+      }
+    });
+  }
+  
   /**
    * Validate a URL
    */
@@ -43,3 +43,22 @@ export const authMiddleware = (
     return res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+/**
+ * Allow only callers whose token carries the admin role. Must run after
+ * authMiddleware.
+ */
+export const requireAdmin = (
+  req: Request, 
+  res: Response, 
+  next: NextFunction
+) => {
+  const user = req.user as { role?: string; roles?: string[] } | undefined;
+  const roles = user ? [...(user.roles || []), ...(user.role ? [user.role] : [])] : [];
+  
+  if (!roles.includes('admin')) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  
+  next();
+};
@@ -1,9 +1,11 @@
 // src/api/middleware/idempotency.middleware.ts
 import { Request, Response, NextFunction } from 'express';
-import { IdempotencyManager } from '../../lib/payment/transaction/utils/idempotency';
+import { IdempotencyManager, IdempotentResponse } from '../../lib/payment/transaction/utils/idempotency';
+import { IdempotencyStore } from '../../lib/payment/transaction/store/idempotency.store';
 import { PaymentLogger } from '../../lib/payment/utils/logger';
 import { EventEmitter } from '../../lib/payment/events/event.emitter';
 import { errorHandler, ErrorCode } from '../../lib/payment/utils/error';
+import { container } from '../../lib/payment/container';
 import { createHash } from 'crypto';
 
 // Create a singleton instance of the logger
@@ -110,23 +112,21 @@ export const createIdempotencyMiddleware = (
           path: req.path
         });
 
-        // Return the cached resource with idempotency markers
-        if (cacheResponseEnabled && keyStatus.cachedResponse) {
+        // Replay the original response with idempotency markers
+        if (cacheResponseEnabled && keyStatus.response) {
           logger.info('Returning cached response for idempotency key', {
             key: idempotencyKey,
             resourceId: existingResource.resourceId
           });
 
+          const { statusCode, headers, body } = keyStatus.response;
+
           // Set headers to indicate idempotent response
+          res.set(headers);
           res.set('X-Idempotency-Replay', 'true');
-          
-          try {
-            const cachedResponse = JSON.parse(keyStatus.cachedResponse);
-            return res.status(cachedResponse.statusCode || 200).json(cachedResponse.body);
-          } catch (e) {
-            // If there's an error parsing cached response, continue with normal flow
-            logger.error('Error parsing cached response', { error: e, key: idempotencyKey });
-          }
+
+          // Send the stored body as-is so it matches the original byte for byte
+          return res.status(statusCode).send(body);
         }
 
         // If no cached response, return standard idempotent response
@@ -163,28 +163,12 @@ export const createIdempotencyMiddleware = (
         throw error;
       }
 
-      // Set up response interception to capture and store results
-      const originalSend = res.send;
-      const originalJson = res.json;
+      // Capture the response as it is written out. send and json both end
+      // up here, so this sees the final status, headers and body
       const originalEnd = res.end;
 
-      // Override send method
-      res.send = function(body: any): Response {
-        captureAndStoreResult(req, res, body, idempotencyManager, requestContext);
-        return originalSend.apply(res, arguments);
-      };
-
-      // Override json method
-      res.json = function(body: any): Response {
-        captureAndStoreResult(req, res, body, idempotencyManager, requestContext);
-        return originalJson.apply(res, arguments);
-      };
-
-      // Override end method
       res.end = function(chunk: any): Response {
-        if (chunk) {
-          captureAndStoreResult(req, res, chunk, idempotencyManager, requestContext);
-        }
+        captureAndStoreResult(req, res, chunk, idempotencyManager, requestContext);
         return originalEnd.apply(res, arguments);
       };
 
@@ -228,9 +212,12 @@ export const createIdempotencyMiddleware = (
   };
 };
 
-// Default middleware instance for backwards compatibility
+// Default middleware instance for backwards compatibility. Keys are kept in
+// the shared store so a retry reaching another instance is still recognised
 export const idempotencyMiddleware = createIdempotencyMiddleware(
-  new IdempotencyManager()
+  new IdempotencyManager({
+    store: container.resolve<IdempotencyStore>('idempotencyStore')
+  })
 );
 
 // Helper function to generate a hash from the request for replay detection
@@ -307,22 +294,25 @@ async function captureAndStoreResult(
       const idempotencyKey = req['idempotencyKey'];
       if (!idempotencyKey) return;
 
+      // The body as written to the socket; end may also be called with only
+      // a callback
+      const rawBody = Buffer.isBuffer(body)
+        ? body.toString('utf8')
+        : (body === undefined || body === null || typeof body === 'function' ? '' : String(body));
+
       // Parse body if needed
-      let data = body;
-      if (typeof body === 'string') {
-        try {
-          data = JSON.parse(body);
-        } catch (e) {
-          // Not JSON, use as is
-        }
+      let data: any = rawBody;
+      try {
+        data = JSON.parse(rawBody);
+      } catch (e) {
+        // Not JSON, use as is
       }
 
       // Store the response for future replays if successful
-      const responseCache = {
+      const response: IdempotentResponse = {
         statusCode: res.statusCode,
-        headers: res.getHeaders(),
-        body: data,
-        timestamp: new Date()
+        headers: getReplayableHeaders(res),
+        body: rawBody
       };
 
       // Extract resource ID and type using various possible formats
@@ -369,7 +359,7 @@ async function captureAndStoreResult(
           idempotencyKey,
           resourceId,
           resourceType || 'unknown',
-          JSON.stringify(responseCache),
+          response,
           requestContext.hash
         );
 
@@ -393,3 +383,33 @@ function getResourceTypeFromPath(path: string): string {
     ? segments[segments.length - 1].split('?')[0]
     : 'resource';
 }
+
+// Headers that describe this particular response rather than its content,
+// and are set again when the replay is sent
+const NON_REPLAYABLE_HEADERS = [
+  'connection',
+  'content-length',
+  'date',
+  'etag',
+  'keep-alive',
+  'set-cookie',
+  'transfer-encoding',
+  'x-idempotency-replay'
+];
+
+// Helper function to collect the headers to send with a replayed response
+function getReplayableHeaders(res: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const outgoing = res.getHeaders();
+
+  for (const name of Object.keys(outgoing)) {
+    const value = outgoing[name];
+    if (value === undefined || NON_REPLAYABLE_HEADERS.includes(name.toLowerCase())) {
+      continue;
+    }
+
+    headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+
+  return headers;
+}
@@ -12,7 +12,17 @@ import {
   complianceValidationSchema,
   auditLogsQuerySchema,
   webhookEndpointSchema,
-  paymentInputSchema
+  paymentInputSchema,
+  capturePaymentSchema,
+  voidPaymentSchema,
+  createRefundSchema,
+  disputeEvidenceSchema,
+  subscriptionPlanSchema,
+  createSubscriptionSchema,
+  updateSubscriptionSchema,
+  createInvoiceSchema,
+  updateInvoiceSchema,
+  payInvoiceSchema
 } from '../validation/enhanced-schemas';
 import { PaymentLogger } from '../../lib/payment/utils/logger';
 
@@ -36,6 +46,7 @@ const schemas = {
   // Transactions
   createTransaction: transactionSchema,
   updateTransaction: transactionSchema.partial(),
+  createRefund: createRefundSchema,
   
   // Analytics
   metricsQuery: metricsQuerySchema,
@@ -45,12 +56,27 @@ const schemas = {
   complianceValidation: complianceValidationSchema,
   auditLogs: auditLogsQuerySchema,
   
+  // Disputes
+  submitDisputeEvidence: disputeEvidenceSchema,
+  
+  // Subscriptions
+  createPlan: subscriptionPlanSchema,
+  createSubscription: createSubscriptionSchema,
+  updateSubscription: updateSubscriptionSchema,
+  
+  // Invoices
+  createInvoice: createInvoiceSchema,
+  updateInvoice: updateInvoiceSchema,
+  payInvoice: payInvoiceSchema,
+  
   // Webhooks
   createWebhook: webhookEndpointSchema,
   updateWebhook: webhookEndpointSchema.partial(),
   
   // Payments
-  processPayment: paymentInputSchema
+  processPayment: paymentInputSchema,
+  capturePayment: capturePaymentSchema,
+  voidPayment: voidPaymentSchema
 };
 
 // Schema location in request
@@ -0,0 +1,56 @@
+// src/api/routes/admin.routes.ts
+
+import express from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { authMiddleware, requireAdmin } from '../middleware/auth.middleware';
+import { EventReplayService } from '../../lib/payment/events/event-replay.service';
+import { DatabaseEventStore } from '../../lib/payment/events/database-event.store';
+import { createEventCatalog } from '../../lib/payment/events/event.catalog';
+import { WebhookManager } from '../../lib/payment/webhooks/webhook.manager';
+import { WebhookEventType } from '../../lib/payment/webhooks/types';
+import { container } from '../../lib/payment/container';
+
+// Get dependencies from container
+const eventStore = container.resolve<DatabaseEventStore>('eventStore');
+const webhookManager = container.resolve<WebhookManager>('webhookManager');
+
+// Create replay service with the handlers events can be replayed to
+const eventReplayService = new EventReplayService(eventStore, {
+  schemaRegistry: createEventCatalog()
+});
+
+eventReplayService.registerTarget('webhooks', (data, event) =>
+  webhookManager.processEvent(event.type as WebhookEventType, data)
+);
+
+// Create controller
+const adminController = new AdminController(eventReplayService);
+
+// Create router
+const router = express.Router();
+
+// Every admin route needs an authenticated admin
+router.use(authMiddleware, requireAdmin);
+
+// Define routes
+router.post(
+  '/events/replay',
+  adminController.replayEvents
+);
+
+router.get(
+  '/events/replay',
+  adminController.getReplayJobs
+);
+
+router.get(
+  '/events/replay/:id',
+  adminController.getReplayJob
+);
+
+router.post(
+  '/events/replay/:id/cancel',
+  adminController.cancelReplayJob
+);
+
+export default router;
@@ -0,0 +1,44 @@
+// src/api/routes/dispute.routes.ts
+
+import express from 'express';
+import { DisputeController } from '../controllers/dispute.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validation.middleware';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware';
+import { DisputeManager } from '../../lib/payment/disputes/dispute.manager';
+import { container } from '../../lib/payment/container';
+
+// Get dependencies from container
+const disputeManager = container.resolve<DisputeManager>('disputeManager');
+
+// Alert on disputes whose evidence deadline is approaching
+disputeManager.startDeadlineMonitor();
+
+// Create controller
+const disputeController = new DisputeController(disputeManager);
+
+// Create router
+const router = express.Router();
+
+// Define routes
+router.get(
+  '/',
+  authMiddleware,
+  disputeController.getDisputes
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  disputeController.getDispute
+);
+
+router.post(
+  '/:id/evidence',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('submitDisputeEvidence'),
+  disputeController.submitEvidence
+);
+
+export default router;
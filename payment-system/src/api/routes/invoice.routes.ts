@@ -0,0 +1,84 @@
+// src/api/routes/invoice.routes.ts
+
+import express from 'express';
+import { InvoiceController } from '../controllers/invoice.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validation.middleware';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware';
+import { InvoiceManager } from '../../lib/payment/invoices/invoice.manager';
+import { container } from '../../lib/payment/container';
+
+// Get dependencies from container
+const invoiceManager = container.resolve<InvoiceManager>('invoiceManager');
+
+// Create controller
+const invoiceController = new InvoiceController(invoiceManager);
+
+// Create router
+const router = express.Router();
+
+// Define routes
+router.get(
+  '/',
+  authMiddleware,
+  invoiceController.getInvoices
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('createInvoice'),
+  invoiceController.createInvoice
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  invoiceController.getInvoice
+);
+
+router.patch(
+  '/:id',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('updateInvoice'),
+  invoiceController.updateInvoice
+);
+
+router.get(
+  '/:id/render',
+  authMiddleware,
+  invoiceController.renderInvoice
+);
+
+router.post(
+  '/:id/finalize',
+  authMiddleware,
+  idempotencyMiddleware,
+  invoiceController.finalizeInvoice
+);
+
+router.post(
+  '/:id/pay',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('payInvoice'),
+  invoiceController.payInvoice
+);
+
+router.post(
+  '/:id/void',
+  authMiddleware,
+  idempotencyMiddleware,
+  invoiceController.voidInvoice
+);
+
+router.post(
+  '/:id/mark-uncollectible',
+  authMiddleware,
+  idempotencyMiddleware,
+  invoiceController.markUncollectible
+);
+
+export default router;
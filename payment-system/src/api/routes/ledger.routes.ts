@@ -0,0 +1,61 @@
+// src/api/routes/ledger.routes.ts
+
+import express from 'express';
+import { LedgerController } from '../controllers/ledger.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { LedgerManager } from '../../lib/payment/ledger/ledger.manager';
+import { container } from '../../lib/payment/container';
+
+// Get dependencies from container
+const ledgerManager = container.resolve<LedgerManager>('ledgerManager');
+
+// Create controller
+const ledgerController = new LedgerController(ledgerManager);
+
+// Create router
+const router = express.Router();
+
+// Define routes
+router.get(
+  '/accounts',
+  authMiddleware,
+  ledgerController.getAccounts
+);
+
+router.get(
+  '/accounts/:id/balance',
+  authMiddleware,
+  ledgerController.getAccountBalance
+);
+
+router.get(
+  '/balances',
+  authMiddleware,
+  ledgerController.getBalances
+);
+
+router.get(
+  '/balances/currencies',
+  authMiddleware,
+  ledgerController.getCurrencyBalances
+);
+
+router.get(
+  '/customers/:customerId/balances',
+  authMiddleware,
+  ledgerController.getCustomerBalances
+);
+
+router.get(
+  '/transactions/:transactionId/entries',
+  authMiddleware,
+  ledgerController.getTransactionEntries
+);
+
+router.get(
+  '/trial-balance',
+  authMiddleware,
+  ledgerController.getTrialBalance
+);
+
+export default router;
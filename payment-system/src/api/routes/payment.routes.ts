@@ -26,6 +26,32 @@ router.post(
   controller.confirmPayment
 );
 
+// Authorization and capture routes
+router.post(
+  '/authorize',
+  authMiddleware,
+  rateLimiter,
+  idempotencyMiddleware,
+  validateRequest('processPayment'),
+  controller.authorizePayment
+);
+
+router.post(
+  '/:transactionId/capture',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('capturePayment'),
+  controller.capturePayment
+);
+
+router.post(
+  '/:transactionId/void',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('voidPayment'),
+  controller.voidPayment
+);
+
 // Payment method routes
 router.get(
   '/methods',
@@ -0,0 +1,82 @@
+// src/api/routes/subscription.routes.ts
+
+import express from 'express';
+import { SubscriptionController } from '../controllers/subscription.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validation.middleware';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware';
+import { SubscriptionManager } from '../../lib/payment/subscriptions/subscription.manager';
+import { SubscriptionScheduler } from '../../lib/payment/subscriptions/subscription.scheduler';
+import { DunningManager } from '../../lib/payment/subscriptions/dunning.manager';
+import { container } from '../../lib/payment/container';
+
+// Get dependencies from container
+const subscriptionManager = container.resolve<SubscriptionManager>('subscriptionManager');
+const dunningManager = container.resolve<DunningManager>('dunningManager');
+
+// Renew subscriptions whose billing period has ended; failed renewals go into dunning
+const subscriptionScheduler = new SubscriptionScheduler(subscriptionManager, { dunningManager });
+subscriptionScheduler.start();
+
+// Create controller
+const subscriptionController = new SubscriptionController(subscriptionManager, dunningManager);
+
+// Create router
+const router = express.Router();
+
+// Define routes
+router.get(
+  '/plans',
+  authMiddleware,
+  subscriptionController.getPlans
+);
+
+router.post(
+  '/plans',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('createPlan'),
+  subscriptionController.createPlan
+);
+
+router.get(
+  '/dunning',
+  authMiddleware,
+  subscriptionController.getDunningAccounts
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('createSubscription'),
+  subscriptionController.createSubscription
+);
+
+router.get(
+  '/current',
+  authMiddleware,
+  subscriptionController.getCurrentSubscription
+);
+
+router.get(
+  '/current/proration',
+  authMiddleware,
+  subscriptionController.previewPlanChange
+);
+
+router.patch(
+  '/current',
+  authMiddleware,
+  idempotencyMiddleware,
+  validateRequest('updateSubscription'),
+  subscriptionController.updateCurrentSubscription
+);
+
+router.delete(
+  '/current',
+  authMiddleware,
+  subscriptionController.cancelCurrentSubscription
+);
+
+export default router;
@@ -2,39 +2,59 @@
 
 import express from 'express';
 import { TransactionController } from '../controllers/transaction.controller';
-import { authenticateJWT } from '../middleware/auth.middleware';
+import { authenticateJWT, requireAdmin } from '../middleware/auth.middleware';
 import { validateRequest } from '../middleware/validation.middleware';
+import { idempotencyMiddleware } from '../middleware/idempotency.middleware';
 import { TransactionManager } from '../../lib/payment/transaction/managers/transaction.manager';
 import { RetryManager } from '../../lib/payment/transaction/managers/retry.manager';
+import { RefundManager } from '../../lib/payment/transaction/managers/refund.manager';
 import { DatabaseTransactionStore } from '../../lib/payment/transaction/store/database-transaction.store';
 import { RetryQueue } from '../../lib/payment/recovery/queue/retry.queue';
 import { EventEmitter } from '../../lib/payment/events/event.emitter';
+import { OutboxStore } from '../../lib/payment/events/outbox.store';
 import { RecordLocker } from '../../lib/payment/utils/record-locker';
+import { MetricsCollector } from '../../lib/payment/monitoring/metrics/collector';
+import { loadRetryConfig } from '../../lib/payment/config/retry.config';
+import { ProviderRouter } from '../../lib/payment/providers/provider-router';
 import { container } from '../../lib/payment/container';
 
 // Get dependencies from container
 const transactionStore = container.resolve<DatabaseTransactionStore>('transactionStore');
 const eventEmitter = container.resolve<EventEmitter>('eventEmitter');
+const outboxStore = container.resolve<OutboxStore>('outboxStore');
 const recordLocker = container.resolve<RecordLocker>('recordLocker');
 const retryQueue = container.resolve<RetryQueue>('retryQueue');
+const providerRouter = container.resolve<ProviderRouter>('providerRouter');
+const metricsCollector = container.resolve<MetricsCollector>('metricsCollector');
 
 // Create retry manager
 const retryManager = new RetryManager(transactionStore, retryQueue, {
   eventEmitter,
-  recordLocker
+  recordLocker,
+  retryRules: loadRetryConfig().rules,
+  metricsCollector
 });
 
 // Create transaction manager
 const transactionManager = new TransactionManager(transactionStore, {
   eventEmitter,
   retryManager,
+  recordLocker,
+  outboxStore
+});
+
+// Create refund manager
+const refundManager = new RefundManager(transactionManager, providerRouter, {
+  eventEmitter,
   recordLocker
 });
 
 // Create controller
 const transactionController = new TransactionController(
   transactionManager,
-  retryManager
+  retryManager,
+  refundManager,
+  recordLocker
 );
 
 // Create router
@@ -79,10 +99,31 @@ router.delete(
   transactionController.cancelRetry
 );
 
+router.post(
+  '/:id/refunds',
+  authenticateJWT,
+  idempotencyMiddleware,
+  validateRequest('createRefund'),
+  transactionController.createRefund
+);
+
+router.get(
+  '/:id/refunds',
+  authenticateJWT,
+  transactionController.getRefunds
+);
+
 router.get(
   '/stats/retry',
   authenticateJWT,
   transactionController.getRetryStats
 );
 
+router.get(
+  '/debug/locks',
+  authenticateJWT,
+  requireAdmin,
+  transactionController.getLockGraph
+);
+
 export default router;
@@ -5,7 +5,13 @@ import { WebhookController } from '../controllers/webhook.controller';
 import { authenticateJWT } from '../middleware/auth.middleware';
 import { validateRequest } from '../middleware/validation.middleware';
 import { WebhookManager } from '../../lib/payment/webhooks/webhook.manager';
+import { WebhookStore } from '../../lib/payment/webhooks/webhook.store';
+import { WebhookDeliveryWorker } from '../../lib/payment/webhooks/webhook-delivery.worker';
+import { AlertNotifier } from '../../lib/payment/monitoring/alerts/notifier';
+import { InboundWebhookStore } from '../../lib/payment/webhooks/inbound-webhook.store';
+import { AuditManager } from '../../lib/payment/compliance/audit.manager';
 import { TransactionManager } from '../../lib/payment/transaction/managers/transaction.manager';
+import { DisputeManager } from '../../lib/payment/disputes/dispute.manager';
 import { container } from '../../lib/payment/container';
 
 // Disable body parsing for Stripe webhook endpoint
@@ -15,6 +21,15 @@ const rawBodyParser = express.raw({ type: 'application/json' });
 // Get dependencies from container
 const webhookManager = container.resolve<WebhookManager>('webhookManager');
 const transactionManager = container.resolve<TransactionManager>('transactionManager');
+const disputeManager = container.resolve<DisputeManager>('disputeManager');
+const webhookStore = container.resolve<WebhookStore>('webhookStore');
+const alertNotifier = container.resolve<AlertNotifier>('alertNotifier');
+const inboundWebhookStore = container.resolve<InboundWebhookStore>('inboundWebhookStore');
+const auditManager = container.resolve<AuditManager>('auditManager');
+
+// Sends queued outbound webhooks and retries the ones that fail
+const webhookDeliveryWorker = new WebhookDeliveryWorker(webhookStore, { alertNotifier });
+webhookDeliveryWorker.start();
 
 // Load Stripe webhook secret from environment
 const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
@@ -25,7 +40,10 @@ const webhookController = new WebhookController(
   transactionManager,
   {
     stripeWebhookSecret
-  }
+  },
+  disputeManager,
+  inboundWebhookStore,
+  auditManager
 );
 
 // Create router
@@ -58,6 +76,37 @@ router.get(
   webhookController.getWebhook
 );
 
+router.post(
+  '/:id/rotate-secret',
+  authenticateJWT,
+  webhookController.rotateWebhookSecret
+);
+
+// Delivery log and manual redelivery
+router.get(
+  '/:id/deliveries',
+  authenticateJWT,
+  webhookController.getWebhookDeliveries
+);
+
+router.post(
+  '/:id/deliveries/redeliver',
+  authenticateJWT,
+  webhookController.redeliverFailedWebhooks
+);
+
+router.get(
+  '/:id/deliveries/:deliveryId',
+  authenticateJWT,
+  webhookController.getWebhookDelivery
+);
+
+router.post(
+  '/:id/deliveries/:deliveryId/redeliver',
+  authenticateJWT,
+  webhookController.redeliverWebhook
+);
+
 router.patch(
   '/:id',
   authenticateJWT,
@@ -244,6 +244,117 @@ export const paymentInputSchema = z.object({
   metadata: z.record(z.any()).optional()
 });
 
+// Capture/void Schemas
+export const capturePaymentSchema = z.object({
+  amount: amountSchema.optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const voidPaymentSchema = z.object({
+  reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer', 'abandoned']).optional()
+});
+
+export const createRefundSchema = z.object({
+  amount: amountSchema.optional(),
+  reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer']).optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const disputeEvidenceSchema = z.object({
+  evidence: z.object({
+    productDescription: z.string().max(20000).optional(),
+    customerName: z.string().max(255).optional(),
+    customerEmailAddress: z.string().email().optional(),
+    customerCommunication: z.string().optional(),
+    receipt: z.string().optional(),
+    shippingCarrier: z.string().max(255).optional(),
+    shippingTrackingNumber: z.string().max(255).optional(),
+    shippingDocumentation: z.string().optional(),
+    refundPolicy: z.string().optional(),
+    cancellationPolicy: z.string().optional(),
+    uncategorizedText: z.string().max(20000).optional()
+  }).refine(evidence => Object.keys(evidence).length > 0, {
+    message: 'At least one evidence field is required'
+  }),
+  submit: z.boolean().default(true)
+});
+
+// Subscription Schemas
+export const subscriptionPlanSchema = z.object({
+  name: z.string().min(1, 'Plan name is required').max(255),
+  price: amountSchema,
+  currency: currencySchema,
+  interval: z.enum(['monthly', 'yearly']),
+  trialDays: z.number().int().min(0).max(730).optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const createSubscriptionSchema = z.object({
+  planId: z.string().min(1, 'Plan ID is required'),
+  paymentMethodId: z.string().min(1, 'Payment method ID is required'),
+  trialDays: z.number().int().min(0).max(730).optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const updateSubscriptionSchema = z.object({
+  planId: z.string().min(1).optional(),
+  cancelAtPeriodEnd: z.boolean().optional()
+}).refine(data => data.planId !== undefined || data.cancelAtPeriodEnd !== undefined, {
+  message: 'Either planId or cancelAtPeriodEnd is required'
+});
+
+// Invoice Schemas
+const invoiceLineItemSchema = z.object({
+  description: z.string().min(1, 'Line item description is required').max(500),
+  quantity: z.number().positive(),
+  unitAmount: z.number().min(0),
+  metadata: z.record(z.any()).optional()
+});
+
+const invoiceDiscountSchema = z.object({
+  description: z.string().min(1).max(255),
+  type: z.enum(['percentage', 'fixed']),
+  value: z.number().positive()
+}).refine(discount => discount.type !== 'percentage' || discount.value <= 100, {
+  message: 'Percentage discounts cannot exceed 100'
+});
+
+const invoiceTaxRateSchema = z.object({
+  name: z.string().min(1).max(100),
+  rate: z.number().min(0).max(100)
+});
+
+export const createInvoiceSchema = z.object({
+  merchantId: z.string().min(1, 'Merchant ID is required'),
+  customerId: z.string().min(1, 'Customer ID is required'),
+  customerEmail: z.string().email(),
+  customerName: z.string().max(255).optional(),
+  currency: currencySchema,
+  lineItems: z.array(invoiceLineItemSchema).min(1, 'At least one line item is required'),
+  discounts: z.array(invoiceDiscountSchema).optional(),
+  taxRates: z.array(invoiceTaxRateSchema).optional(),
+  paymentMethodId: z.string().optional(),
+  dueDate: z.string().datetime().optional(),
+  memo: z.string().max(2000).optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const updateInvoiceSchema = z.object({
+  customerEmail: z.string().email().optional(),
+  customerName: z.string().max(255).optional(),
+  lineItems: z.array(invoiceLineItemSchema).min(1).optional(),
+  discounts: z.array(invoiceDiscountSchema).optional(),
+  taxRates: z.array(invoiceTaxRateSchema).optional(),
+  paymentMethodId: z.string().optional(),
+  dueDate: z.string().datetime().optional(),
+  memo: z.string().max(2000).optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const payInvoiceSchema = z.object({
+  paymentMethodId: z.string().min(1).optional()
+});
+
 // Export validation functions
 export const validatePaymentMethod = (data: unknown) => paymentMethodSchema.parse(data);
 export const validateTransaction = (data: unknown) => transactionSchema.parse(data);
@@ -263,3 +374,13 @@ export type ComplianceValidationType = z.infer<typeof complianceValidationSchema
 export type AuditLogsQueryType = z.infer<typeof auditLogsQuerySchema>;
 export type WebhookEndpointType = z.infer<typeof webhookEndpointSchema>;
 export type PaymentInputType = z.infer<typeof paymentInputSchema>;
+export type CapturePaymentType = z.infer<typeof capturePaymentSchema>;
+export type VoidPaymentType = z.infer<typeof voidPaymentSchema>;
+export type CreateRefundType = z.infer<typeof createRefundSchema>;
+export type SubscriptionPlanType = z.infer<typeof subscriptionPlanSchema>;
+export type CreateSubscriptionType = z.infer<typeof createSubscriptionSchema>;
+export type UpdateSubscriptionType = z.infer<typeof updateSubscriptionSchema>;
+export type CreateInvoiceType = z.infer<typeof createInvoiceSchema>;
+export type UpdateInvoiceType = z.infer<typeof updateInvoiceSchema>;
+export type PayInvoiceType = z.infer<typeof payInvoiceSchema>;
+export type DisputeEvidenceType = z.infer<typeof disputeEvidenceSchema>;
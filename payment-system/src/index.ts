@@ -7,6 +7,11 @@ import transactionRoutes from './api/routes/transaction.routes';
 import customerRoutes from './api/routes/customer.routes';
 import complianceRoutes from './api/routes/compliance.routes';
 import analyticsRoutes from './api/routes/analytics.routes';
+import disputeRoutes from './api/routes/dispute.routes';
+import subscriptionRoutes from './api/routes/subscription.routes';
+import invoiceRoutes from './api/routes/invoice.routes';
+import ledgerRoutes from './api/routes/ledger.routes';
+import adminRoutes from './api/routes/admin.routes';
 import { rateLimiter } from './api/middleware/rate-limiter';
 import { errorMiddleware } from './api/middleware/error.middleware';
 import { initializeDatabase } from './lib/payment/config/database.config';
@@ -53,6 +58,11 @@ app.use('/api/transactions', transactionRoutes);
 app.use('/api/customers', customerRoutes);
 app.use('/api/compliance', complianceRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/disputes', disputeRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
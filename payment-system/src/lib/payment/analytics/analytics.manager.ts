@@ -8,11 +8,14 @@ import {
 } from './types';
 import { MetricsCollector } from '../monitoring/metrics/collector';
 import { EventEmitter } from '../events/event.emitter';
+import { TransactionStore } from '../transaction/store/transaction.store';
+import { Transaction, TransactionStatus, TransactionType } from '../types/transaction.types';
 
 export class AnalyticsManager {
   constructor(
     private metricsCollector: MetricsCollector,
-    private eventEmitter: EventEmitter
+    private eventEmitter: EventEmitter,
+    private transactionStore?: TransactionStore
   ) {}
 
   async trackMetric(
@@ -87,7 +90,58 @@ export class AnalyticsManager {
     metrics: AnalyticsMetric[],
     dateRange: DateRange
   ): Promise<void> {
-    // Implement revenue metrics collection
+    // Revenue is read from settled transactions; stores without queryAll
+    // cannot list them across customers
+    if (!this.transactionStore?.queryAll) {
+      return;
+    }
+
+    // Partially captured payments have settled too, for the captured amount
+    const payments: Transaction[] = [];
+    for (const status of [TransactionStatus.COMPLETED, TransactionStatus.PARTIALLY_CAPTURED]) {
+      payments.push(...await this.transactionStore.queryAll!({
+        type: TransactionType.PAYMENT,
+        status,
+        startDate: dateRange.startDate,
+        endDate: dateRange.endDate
+      }));
+    }
+
+    for (const payment of payments) {
+      // Without a fee breakdown from the provider the whole amount counts as net
+      const gross = payment.fees?.grossAmount ?? payment.metadata?.capturedAmount ?? payment.amount;
+      const fee = payment.fees?.feeAmount ?? 0;
+      const net = payment.fees?.netAmount ?? gross - fee;
+      const currency = payment.fees?.currency ?? payment.currency;
+      const timestamp = payment.completedAt || payment.updatedAt;
+
+      metrics.push(
+        this.revenueMetric('gross_revenue', gross, currency, payment, timestamp),
+        this.revenueMetric('fees', fee, currency, payment, timestamp),
+        this.revenueMetric('net_revenue', net, currency, payment, timestamp)
+      );
+    }
+  }
+
+  private revenueMetric(
+    name: string,
+    value: number,
+    currency: string,
+    payment: Transaction,
+    timestamp: Date
+  ): AnalyticsMetric {
+    return {
+      id: uuidv4(),
+      name,
+      value,
+      dimension: currency,
+      timestamp,
+      metadata: {
+        transactionId: payment.id,
+        customerId: payment.customerId,
+        feesReported: !!payment.fees
+      }
+    };
   }
 
   private calculateSummary(
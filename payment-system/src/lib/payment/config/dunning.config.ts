@@ -0,0 +1,40 @@
+// src/lib/payment/config/dunning.config.ts
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * What happens to a subscription once every dunning retry has failed
+ */
+export type DunningFinalAction = 'cancel' | 'pause' | 'mark_unpaid';
+
+export interface DunningConfig {
+  // Days after the first failed charge on which the charge is retried
+  retryScheduleDays: number[];
+  finalAction: DunningFinalAction;
+}
+
+export const defaultDunningConfig: DunningConfig = {
+  retryScheduleDays: [1, 3, 5, 7],
+  finalAction: 'cancel'
+};
+
+// Read the dunning schedule from the environment, e.g. DUNNING_RETRY_DAYS=1,3,5,7
+export const loadDunningConfig = (): DunningConfig => {
+  const retryScheduleDays = process.env.DUNNING_RETRY_DAYS
+    ? process.env.DUNNING_RETRY_DAYS.split(',')
+        .map(day => parseInt(day.trim(), 10))
+        .filter(day => !isNaN(day) && day > 0)
+        .sort((a, b) => a - b)
+    : defaultDunningConfig.retryScheduleDays;
+
+  const finalAction = (process.env.DUNNING_FINAL_ACTION || defaultDunningConfig.finalAction) as DunningFinalAction;
+
+  return {
+    retryScheduleDays,
+    finalAction: ['cancel', 'pause', 'mark_unpaid'].includes(finalAction)
+      ? finalAction
+      : defaultDunningConfig.finalAction
+  };
+};
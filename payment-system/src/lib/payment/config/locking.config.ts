@@ -0,0 +1,37 @@
+// src/lib/payment/config/locking.config.ts
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Where record locks are kept. In memory they only exclude callers in the
+ * same process; in the database they hold across every API instance.
+ */
+export type RecordLockerBackend = 'memory' | 'database';
+
+export interface LockingConfig {
+  backend: RecordLockerBackend;
+  // How long a lock lives unless it is renewed
+  defaultExpirationMs: number;
+}
+
+export const defaultLockingConfig: LockingConfig = {
+  backend: 'memory',
+  defaultExpirationMs: 30000
+};
+
+// Read the locking setup from the environment, e.g. RECORD_LOCKER=database
+export const loadLockingConfig = (): LockingConfig => {
+  const backend = (process.env.RECORD_LOCKER || defaultLockingConfig.backend) as RecordLockerBackend;
+  const defaultExpirationMs = parseInt(process.env.RECORD_LOCK_EXPIRATION_MS || '', 10);
+
+  return {
+    backend: ['memory', 'database'].includes(backend)
+      ? backend
+      : defaultLockingConfig.backend,
+    defaultExpirationMs: defaultExpirationMs > 0
+      ? defaultExpirationMs
+      : defaultLockingConfig.defaultExpirationMs
+  };
+};
@@ -0,0 +1,143 @@
+// src/lib/payment/config/retry.config.ts
+import dotenv from 'dotenv';
+import { TransactionErrorCode } from '../types/transaction.types';
+
+// Load environment variables
+dotenv.config();
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How failures with particular decline or error codes are retried.
+ * Failures matching no rule fall back to the retry manager's policy.
+ */
+export interface RetryRule {
+  // Reported as the rule label on retry metrics
+  name: string;
+  // Provider decline codes and TransactionErrorCode values, matched
+  // case-insensitively
+  codes: string[];
+  // Retries allowed for the transaction; 0 means it is never retried
+  maxAttempts: number;
+  backoffType: 'fixed' | 'exponential';
+  // Delays in milliseconds; an initial delay of 0 retries right away
+  initialDelay: number;
+  maxDelay: number;
+  jitterFactor?: number;
+}
+
+export interface RetryConfig {
+  // Checked in order; the first rule listing the code applies
+  rules: RetryRule[];
+}
+
+export const defaultRetryRules: RetryRule[] = [
+  {
+    // The issuer will not approve the card; retrying only adds declines
+    name: 'hard_decline',
+    codes: [
+      'do_not_honor',
+      'fraudulent',
+      'lost_card',
+      'stolen_card',
+      'pickup_card',
+      'restricted_card',
+      'expired_card',
+      'incorrect_number',
+      'invalid_account',
+      'card_not_supported',
+      TransactionErrorCode.INVALID_CARD
+    ],
+    maxAttempts: 0,
+    backoffType: 'fixed',
+    initialDelay: 0,
+    maxDelay: 0
+  },
+  {
+    // Give the customer time to fund the account
+    name: 'insufficient_funds',
+    codes: ['insufficient_funds', TransactionErrorCode.INSUFFICIENT_FUNDS],
+    maxAttempts: 3,
+    backoffType: 'fixed',
+    initialDelay: 3 * DAY,
+    maxDelay: 3 * DAY
+  },
+  {
+    name: 'network',
+    codes: ['network_error', 'api_connection_error', 'connection_error', TransactionErrorCode.NETWORK_ERROR],
+    maxAttempts: 3,
+    backoffType: 'fixed',
+    initialDelay: 0,
+    maxDelay: 0
+  },
+  {
+    // The payment may have gone through, so allow time for it to show up
+    name: 'timeout',
+    codes: ['timeout_error', 'request_timeout', TransactionErrorCode.TIMEOUT],
+    maxAttempts: 3,
+    backoffType: 'exponential',
+    initialDelay: 5000,
+    maxDelay: 60000,
+    jitterFactor: 0.1
+  },
+  {
+    name: 'provider_unavailable',
+    codes: [
+      'processing_error',
+      'rate_limit_error',
+      'provider_communication_error',
+      'provider_circuit_open',
+      TransactionErrorCode.PROVIDER_ERROR
+    ],
+    maxAttempts: 5,
+    backoffType: 'exponential',
+    initialDelay: 1000,
+    maxDelay: 5 * 60 * 1000,
+    jitterFactor: 0.1
+  },
+  {
+    // Issuer asked for a later attempt
+    name: 'try_again_later',
+    codes: ['try_again_later', 'issuer_not_available'],
+    maxAttempts: 3,
+    backoffType: 'exponential',
+    initialDelay: 60 * 60 * 1000,
+    maxDelay: DAY,
+    jitterFactor: 0.1
+  }
+];
+
+export const defaultRetryConfig: RetryConfig = {
+  rules: defaultRetryRules
+};
+
+const isRetryRule = (rule: any): rule is RetryRule =>
+  !!rule &&
+  typeof rule.name === 'string' &&
+  Array.isArray(rule.codes) &&
+  typeof rule.maxAttempts === 'number' && rule.maxAttempts >= 0 &&
+  ['fixed', 'exponential'].includes(rule.backoffType) &&
+  typeof rule.initialDelay === 'number' && rule.initialDelay >= 0 &&
+  typeof rule.maxDelay === 'number';
+
+// Read retry rules from the environment: PAYMENT_RETRY_RULES is a JSON
+// array of rules checked before the defaults; a rule with a default's name
+// replaces it
+export const loadRetryConfig = (): RetryConfig => {
+  if (!process.env.PAYMENT_RETRY_RULES) {
+    return defaultRetryConfig;
+  }
+
+  try {
+    const parsed = JSON.parse(process.env.PAYMENT_RETRY_RULES);
+    const rules: RetryRule[] = Array.isArray(parsed) ? parsed.filter(isRetryRule) : [];
+    const names = new Set(rules.map(rule => rule.name));
+
+    return {
+      rules: [...rules, ...defaultRetryRules.filter(rule => !names.has(rule.name))]
+    };
+  } catch (error) {
+    // Keep the defaults rather than failing startup on a malformed value
+    return defaultRetryConfig;
+  }
+};
@@ -0,0 +1,67 @@
+// src/lib/payment/config/routing.config.ts
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * A provider a payment can be routed to, and the payments it accepts.
+ * Criteria left unset match every payment.
+ */
+export interface ProviderRoute {
+  // Name the provider is registered under in the router
+  provider: string;
+  // Share of the matching traffic relative to the other matching routes
+  weight: number;
+  currencies?: string[];
+  // Amount bounds in major units, inclusive
+  minAmount?: number;
+  maxAmount?: number;
+  cardBrands?: string[];
+  // ISO 3166-1 alpha-2 customer countries
+  countries?: string[];
+}
+
+export interface RoutingConfig {
+  // Used when no route matches and for transactions created before routing
+  defaultProvider: string;
+  routes: ProviderRoute[];
+  // Secondary providers, in order of preference, for payments whose
+  // matching providers all have an open circuit breaker
+  failover?: ProviderRoute[];
+}
+
+export const defaultRoutingConfig: RoutingConfig = {
+  defaultProvider: 'stripe',
+  routes: [],
+  failover: []
+};
+
+const parseRoutes = (value: string | undefined, fallback: ProviderRoute[]): ProviderRoute[] => {
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    const routes: any[] = Array.isArray(parsed)
+      ? parsed.filter(route => route && typeof route.provider === 'string')
+      : fallback;
+
+    return routes.map(route => ({
+      ...route,
+      weight: typeof route.weight === 'number' && route.weight >= 0 ? route.weight : 1
+    }));
+  } catch (error) {
+    // Keep the defaults rather than failing startup on a malformed value
+    return fallback;
+  }
+};
+
+// Read routing from the environment: PAYMENT_DEFAULT_PROVIDER=stripe, and
+// PAYMENT_ROUTES and PAYMENT_FAILOVER_ROUTES as JSON arrays of routes
+export const loadRoutingConfig = (): RoutingConfig => ({
+  defaultProvider: process.env.PAYMENT_DEFAULT_PROVIDER || defaultRoutingConfig.defaultProvider,
+  routes: parseRoutes(process.env.PAYMENT_ROUTES, defaultRoutingConfig.routes),
+  failover: parseRoutes(process.env.PAYMENT_FAILOVER_ROUTES, defaultRoutingConfig.failover!)
+});
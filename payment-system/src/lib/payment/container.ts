@@ -5,12 +5,17 @@ import { PaymentLogger } from './utils/logger';
 import { PaymentService } from './services/payment.service';
 import { EventEmitter } from './events/event.emitter';
 import { PaymentProviderInterface } from './types/provider.types';
+import { ProviderRouter } from './providers/provider-router';
+import { loadRoutingConfig } from './config/routing.config';
+import { HealthChecker } from './monitoring/health/checker';
+import { registerProviderCircuitIndicators } from './monitoring/health/indicators';
 
 export class PaymentContainer {
   private static instance: PaymentContainer;
   private repositories: Map<string, any> = new Map();
   private services: Map<string, any> = new Map();
   private providers: Map<string, any> = new Map();
+  private healthChecker: HealthChecker = new HealthChecker();
 
   private constructor() {}
 
@@ -45,10 +50,25 @@ export class PaymentContainer {
     return provider;
   }
 
+  getHealthChecker(): HealthChecker {
+    return this.healthChecker;
+  }
+
+  /**
+   * Router over every registered provider, keyed by registration name. Each
+   * provider's circuit breaker is reported by the health checker.
+   */
+  createProviderRouter(): ProviderRouter {
+    const router = new ProviderRouter(loadRoutingConfig());
+    this.providers.forEach((provider, key) => router.register(key, provider));
+    registerProviderCircuitIndicators(this.healthChecker, router);
+    return router;
+  }
+
   createPaymentService(options = {}): PaymentService {
     // Get or create dependencies
     const repository = this.getRepository<ITransactionRepository>('TransactionRepository');
-    const provider = this.getProvider('PaymentProvider');
+    const provider = this.createProviderRouter();
     const validator = new PaymentValidator();
     const eventEmitter = new EventEmitter();
     const logger = new PaymentLogger();
@@ -74,9 +94,9 @@ export function initializePaymentSystem(supabaseClient: any) {
     new SupabaseTransactionRepository(supabaseClient)
   );
 
-  // Register payment provider
+  // Register payment providers under the names used in routing config
   container.registerProvider(
-    'PaymentProvider',
+    'stripe',
     new StripeProvider(/* stripe config */)
   );
 
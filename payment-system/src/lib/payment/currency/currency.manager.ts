@@ -75,6 +75,23 @@ export class CurrencyManager {
     }).format(amount);
   }
 
+  /**
+   * Round an amount to the number of minor units the currency supports
+   */
+  roundAmount(amount: number, currencyCode: string): number {
+    const factor = Math.pow(10, this.getDecimals(currencyCode));
+    return Math.round((amount + Number.EPSILON) * factor) / factor;
+  }
+
+  getDecimals(currencyCode: string): number {
+    const currency = this.currencies.get(currencyCode.toUpperCase());
+    if (!currency) {
+      throw new Error(`Currency not found: ${currencyCode}`);
+    }
+
+    return currency.decimals;
+  }
+
   private isRateValid(rate: ExchangeRate): boolean {
     const MAX_RATE_AGE = 15 * 60 * 1000; // 15 minutes
     return Date.now() - rate.timestamp.getTime() < MAX_RATE_AGE;
@@ -103,6 +120,13 @@ export class CurrencyManager {
         symbol: '£',
         decimals: 2,
         isActive: true
+      },
+      {
+        code: 'JPY',
+        name: 'Japanese Yen',
+        symbol: '¥',
+        decimals: 0,
+        isActive: true
       }
       // Add more currencies as needed
     ];
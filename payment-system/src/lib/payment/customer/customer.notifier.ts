@@ -0,0 +1,59 @@
+// src/lib/payment/customer/customer.notifier.ts
+import { CustomerPreferences } from './types';
+
+export type CommunicationChannel = CustomerPreferences['communicationChannel'];
+
+export interface CustomerNotification {
+  customerId: string;
+  email: string;
+  // Identifies the message template, e.g. 'dunning.retry_failed'
+  template: string;
+  subject: string;
+  data: Record<string, any>;
+}
+
+export interface CustomerNotificationChannel {
+  send(notification: CustomerNotification): Promise<void>;
+}
+
+/**
+ * Delivers customer-facing notifications over the customer's preferred
+ * channel, falling back to email when that channel is not configured.
+ */
+export class CustomerNotifier {
+  private channels: Map<CommunicationChannel, CustomerNotificationChannel> = new Map();
+
+  addChannel(type: CommunicationChannel, channel: CustomerNotificationChannel): void {
+    this.channels.set(type, channel);
+  }
+
+  async notify(
+    preferredChannel: CommunicationChannel,
+    notification: CustomerNotification
+  ): Promise<CommunicationChannel | null> {
+    const type = this.channels.has(preferredChannel) ? preferredChannel : 'email';
+    const channel = this.channels.get(type);
+
+    if (!channel) {
+      return null;
+    }
+
+    await channel.send(notification);
+    return type;
+  }
+}
+
+// Example notification channels
+export class EmailCustomerNotificationChannel implements CustomerNotificationChannel {
+  async send(notification: CustomerNotification): Promise<void> {
+    // Implement email delivery
+    console.log(`Email to ${notification.email}: ${notification.subject}`);
+  }
+}
+
+export class SmsCustomerNotificationChannel implements CustomerNotificationChannel {
+  async send(notification: CustomerNotification): Promise<void> {
+    // Implement SMS delivery
+    console.log(`SMS to customer ${notification.customerId}: ${notification.subject}`);
+  }
+}
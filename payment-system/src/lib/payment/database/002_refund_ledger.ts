@@ -0,0 +1,36 @@
+// src/lib/payment/database/002_refund_ledger.ts
+import { Migration, MigrationContext } from './migration';
+
+export const refundLedgerMigration: Migration = {
+  version: 2,
+  name: 'Refund ledger',
+  
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Adding parent transaction reference for refunds');
+    
+    // Refunds (and later chargebacks) are child transactions of the payment they reverse
+    await connection.query(`
+      ALTER TABLE transactions
+      ADD COLUMN parent_transaction_id UUID REFERENCES transactions(id)
+    `);
+    
+    await connection.query(
+      `CREATE INDEX idx_transactions_parent_id ON transactions(parent_transaction_id)`
+    );
+    
+    logger.info('Refund ledger migration applied successfully');
+  },
+  
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Rolling back refund ledger migration');
+    
+    await connection.query('DROP INDEX IF EXISTS idx_transactions_parent_id');
+    await connection.query('ALTER TABLE transactions DROP COLUMN IF EXISTS parent_transaction_id');
+    
+    logger.info('Refund ledger migration rolled back successfully');
+  }
+};
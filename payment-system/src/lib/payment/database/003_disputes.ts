@@ -0,0 +1,50 @@
+// src/lib/payment/database/003_disputes.ts
+import { Migration, MigrationContext } from './migration';
+
+export const disputesMigration: Migration = {
+  version: 3,
+  name: 'Disputes',
+  
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Creating disputes table');
+    
+    await connection.query(`
+      CREATE TABLE disputes (
+        id UUID PRIMARY KEY,
+        provider_dispute_id VARCHAR(255) NOT NULL UNIQUE,
+        provider_charge_id VARCHAR(255),
+        payment_transaction_id UUID NOT NULL REFERENCES transactions(id),
+        chargeback_transaction_id UUID NOT NULL REFERENCES transactions(id),
+        status VARCHAR(30) NOT NULL,
+        reason VARCHAR(100) NOT NULL,
+        amount DECIMAL(15,2) NOT NULL,
+        currency CHAR(3) NOT NULL,
+        evidence_due_by TIMESTAMP,
+        evidence JSONB NOT NULL DEFAULT '{}',
+        evidence_submitted_at TIMESTAMP,
+        deadline_alerted_at TIMESTAMP,
+        metadata JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        closed_at TIMESTAMP
+      )
+    `);
+    
+    await connection.query(`CREATE INDEX idx_disputes_payment_transaction_id ON disputes(payment_transaction_id)`);
+    await connection.query(`CREATE INDEX idx_disputes_status_due ON disputes(status, evidence_due_by)`);
+    
+    logger.info('Disputes table created successfully');
+  },
+  
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Rolling back disputes migration');
+    
+    await connection.query('DROP TABLE IF EXISTS disputes');
+    
+    logger.info('Disputes migration rolled back successfully');
+  }
+};
@@ -0,0 +1,68 @@
+// src/lib/payment/database/004_subscriptions.ts
+import { Migration, MigrationContext } from './migration';
+
+export const subscriptionsMigration: Migration = {
+  version: 4,
+  name: 'Subscriptions',
+  
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Creating subscription tables');
+    
+    await connection.query(`
+      CREATE TABLE subscription_plans (
+        id UUID PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        price DECIMAL(15,2) NOT NULL,
+        currency CHAR(3) NOT NULL,
+        interval VARCHAR(10) NOT NULL,
+        trial_days INTEGER NOT NULL DEFAULT 0,
+        active BOOLEAN NOT NULL DEFAULT true,
+        metadata JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // The plan is snapshotted on the subscription so later plan edits
+    // do not change what existing subscribers are billed
+    await connection.query(`
+      CREATE TABLE subscriptions (
+        id UUID PRIMARY KEY,
+        status VARCHAR(20) NOT NULL,
+        plan_id UUID NOT NULL REFERENCES subscription_plans(id),
+        plan JSONB NOT NULL,
+        customer_id UUID NOT NULL REFERENCES customers(id),
+        customer_email VARCHAR(255) NOT NULL,
+        payment_method_id UUID NOT NULL REFERENCES payment_methods(id),
+        current_period_start TIMESTAMP NOT NULL,
+        current_period_end TIMESTAMP NOT NULL,
+        cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+        canceled_at TIMESTAMP,
+        trial_end TIMESTAMP,
+        scheduled_plan JSONB,
+        last_payment_transaction_id UUID REFERENCES transactions(id),
+        metadata JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    await connection.query(`CREATE INDEX idx_subscriptions_customer_id ON subscriptions(customer_id)`);
+    await connection.query(`CREATE INDEX idx_subscriptions_renewal ON subscriptions(status, current_period_end)`);
+    
+    logger.info('Subscription tables created successfully');
+  },
+  
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Rolling back subscriptions migration');
+    
+    await connection.query('DROP TABLE IF EXISTS subscriptions');
+    await connection.query('DROP TABLE IF EXISTS subscription_plans');
+    
+    logger.info('Subscriptions migration rolled back successfully');
+  }
+};
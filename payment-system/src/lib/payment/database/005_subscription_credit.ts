@@ -0,0 +1,31 @@
+// src/lib/payment/database/005_subscription_credit.ts
+import { Migration, MigrationContext } from './migration';
+
+export const subscriptionCreditMigration: Migration = {
+  version: 5,
+  name: 'Subscription credit balance',
+  
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Adding credit balance to subscriptions');
+    
+    // Credit left over from prorated plan changes, consumed by later charges
+    await connection.query(`
+      ALTER TABLE subscriptions
+      ADD COLUMN credit_balance DECIMAL(15,2) NOT NULL DEFAULT 0
+    `);
+    
+    logger.info('Subscription credit balance added successfully');
+  },
+  
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Rolling back subscription credit migration');
+    
+    await connection.query('ALTER TABLE subscriptions DROP COLUMN IF EXISTS credit_balance');
+    
+    logger.info('Subscription credit migration rolled back successfully');
+  }
+};
@@ -0,0 +1,34 @@
+// src/lib/payment/database/006_dunning.ts
+import { Migration, MigrationContext } from './migration';
+
+export const dunningMigration: Migration = {
+  version: 6,
+  name: 'Subscription dunning',
+  
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Adding dunning state to subscriptions');
+    
+    await connection.query(`ALTER TABLE subscriptions ADD COLUMN dunning JSONB`);
+    
+    // Dashboard lookups of accounts currently in dunning
+    await connection.query(`
+      CREATE INDEX idx_subscriptions_dunning ON subscriptions(status)
+      WHERE dunning IS NOT NULL
+    `);
+    
+    logger.info('Subscription dunning state added successfully');
+  },
+  
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+    
+    logger.info('Rolling back subscription dunning migration');
+    
+    await connection.query('DROP INDEX IF EXISTS idx_subscriptions_dunning');
+    await connection.query('ALTER TABLE subscriptions DROP COLUMN IF EXISTS dunning');
+    
+    logger.info('Subscription dunning migration rolled back successfully');
+  }
+};
@@ -0,0 +1,76 @@
+// src/lib/payment/database/007_invoices.ts
+import { Migration, MigrationContext } from './migration';
+
+export const invoicesMigration: Migration = {
+  version: 7,
+  name: 'Invoices',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating invoice tables');
+
+    // One counter row per merchant. Numbers are taken from here rather than a
+    // SEQUENCE because sequence values are not returned on rollback.
+    await connection.query(`
+      CREATE TABLE invoice_number_sequences (
+        merchant_id VARCHAR(255) PRIMARY KEY,
+        last_number INTEGER NOT NULL
+      )
+    `);
+
+    await connection.query(`
+      CREATE TABLE invoices (
+        id UUID PRIMARY KEY,
+        merchant_id VARCHAR(255) NOT NULL,
+        number VARCHAR(50),
+        sequence_number INTEGER,
+        status VARCHAR(20) NOT NULL,
+        customer_id UUID NOT NULL REFERENCES customers(id),
+        customer_email VARCHAR(255) NOT NULL,
+        customer_name VARCHAR(255),
+        currency CHAR(3) NOT NULL,
+        line_items JSONB NOT NULL DEFAULT '[]',
+        discounts JSONB NOT NULL DEFAULT '[]',
+        tax_rates JSONB NOT NULL DEFAULT '[]',
+        tax_lines JSONB NOT NULL DEFAULT '[]',
+        subtotal DECIMAL(15,2) NOT NULL,
+        discount_total DECIMAL(15,2) NOT NULL DEFAULT 0,
+        tax_total DECIMAL(15,2) NOT NULL DEFAULT 0,
+        total DECIMAL(15,2) NOT NULL,
+        amount_paid DECIMAL(15,2) NOT NULL DEFAULT 0,
+        amount_due DECIMAL(15,2) NOT NULL,
+        payment_method_id UUID REFERENCES payment_methods(id),
+        payment_transaction_id UUID REFERENCES transactions(id),
+        payment_attempts INTEGER NOT NULL DEFAULT 0,
+        last_payment_error TEXT,
+        due_date TIMESTAMP,
+        memo TEXT,
+        metadata JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        finalized_at TIMESTAMP,
+        paid_at TIMESTAMP,
+        voided_at TIMESTAMP,
+        marked_uncollectible_at TIMESTAMP,
+        UNIQUE (merchant_id, sequence_number)
+      )
+    `);
+
+    await connection.query(`CREATE INDEX idx_invoices_merchant_status ON invoices(merchant_id, status)`);
+    await connection.query(`CREATE INDEX idx_invoices_customer_id ON invoices(customer_id)`);
+
+    logger.info('Invoice tables created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back invoices migration');
+
+    await connection.query('DROP TABLE IF EXISTS invoices');
+    await connection.query('DROP TABLE IF EXISTS invoice_number_sequences');
+
+    logger.info('Invoices migration rolled back successfully');
+  }
+};
@@ -0,0 +1,69 @@
+// src/lib/payment/database/008_ledger.ts
+import { Migration, MigrationContext } from './migration';
+
+export const ledgerMigration: Migration = {
+  version: 8,
+  name: 'Double-entry ledger',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating ledger tables');
+
+    await connection.query(`
+      CREATE TABLE ledger_accounts (
+        id UUID PRIMARY KEY,
+        code VARCHAR(255) NOT NULL UNIQUE,
+        name VARCHAR(255) NOT NULL,
+        type VARCHAR(20) NOT NULL,
+        currency CHAR(3) NOT NULL,
+        customer_id UUID REFERENCES customers(id),
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // At most one settlement and one reversal per transaction
+    await connection.query(`
+      CREATE TABLE journal_entries (
+        id UUID PRIMARY KEY,
+        transaction_id UUID NOT NULL REFERENCES transactions(id),
+        kind VARCHAR(20) NOT NULL,
+        description TEXT NOT NULL,
+        currency CHAR(3) NOT NULL,
+        reverses_entry_id UUID REFERENCES journal_entries(id),
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (transaction_id, kind)
+      )
+    `);
+
+    await connection.query(`
+      CREATE TABLE ledger_postings (
+        id UUID PRIMARY KEY,
+        entry_id UUID NOT NULL REFERENCES journal_entries(id),
+        account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+        direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+        amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+        currency CHAR(3) NOT NULL
+      )
+    `);
+
+    await connection.query(`CREATE INDEX idx_ledger_accounts_customer_id ON ledger_accounts(customer_id)`);
+    await connection.query(`CREATE INDEX idx_ledger_accounts_currency ON ledger_accounts(currency)`);
+    await connection.query(`CREATE INDEX idx_ledger_postings_entry_id ON ledger_postings(entry_id)`);
+    await connection.query(`CREATE INDEX idx_ledger_postings_account_id ON ledger_postings(account_id)`);
+
+    logger.info('Ledger tables created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back ledger migration');
+
+    await connection.query('DROP TABLE IF EXISTS ledger_postings');
+    await connection.query('DROP TABLE IF EXISTS journal_entries');
+    await connection.query('DROP TABLE IF EXISTS ledger_accounts');
+
+    logger.info('Ledger migration rolled back successfully');
+  }
+};
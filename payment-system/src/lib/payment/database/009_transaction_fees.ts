@@ -0,0 +1,43 @@
+// src/lib/payment/database/009_transaction_fees.ts
+import { Migration, MigrationContext } from './migration';
+
+export const transactionFeesMigration: Migration = {
+  version: 9,
+  name: 'Transaction fees',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding fee columns to transactions');
+
+    // Left NULL until the provider reports fees; fee_currency is the
+    // settlement currency, which can differ from the charge currency
+    await connection.query(`
+      ALTER TABLE transactions
+        ADD COLUMN gross_amount DECIMAL(15,2),
+        ADD COLUMN fee_amount DECIMAL(15,2),
+        ADD COLUMN net_amount DECIMAL(15,2),
+        ADD COLUMN fee_currency CHAR(3),
+        ADD COLUMN fee_details JSONB
+    `);
+
+    logger.info('Fee columns added successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back transaction fees migration');
+
+    await connection.query(`
+      ALTER TABLE transactions
+        DROP COLUMN IF EXISTS fee_details,
+        DROP COLUMN IF EXISTS fee_currency,
+        DROP COLUMN IF EXISTS net_amount,
+        DROP COLUMN IF EXISTS fee_amount,
+        DROP COLUMN IF EXISTS gross_amount
+    `);
+
+    logger.info('Transaction fees migration rolled back successfully');
+  }
+};
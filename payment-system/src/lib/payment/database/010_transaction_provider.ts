@@ -0,0 +1,43 @@
+// src/lib/payment/database/010_transaction_provider.ts
+import { Migration, MigrationContext } from './migration';
+
+export const transactionProviderMigration: Migration = {
+  version: 10,
+  name: 'Transaction provider',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding provider column to transactions');
+
+    // NULL for transactions created before routing, which all went to the
+    // default provider
+    await connection.query(`
+      ALTER TABLE transactions
+        ADD COLUMN provider VARCHAR(50)
+    `);
+
+    await connection.query(`
+      CREATE INDEX idx_transactions_provider ON transactions(provider)
+    `);
+
+    logger.info('Provider column added successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back transaction provider migration');
+
+    await connection.query(`
+      DROP INDEX IF EXISTS idx_transactions_provider
+    `);
+
+    await connection.query(`
+      ALTER TABLE transactions
+        DROP COLUMN IF EXISTS provider
+    `);
+
+    logger.info('Transaction provider migration rolled back successfully');
+  }
+};
@@ -0,0 +1,51 @@
+// src/lib/payment/database/011_idempotency_keys.ts
+import { Migration, MigrationContext } from './migration';
+
+export const idempotencyKeysMigration: Migration = {
+  version: 11,
+  name: 'Idempotency keys',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating idempotency_keys table');
+
+    // The response columns hold what was sent for the original request so a
+    // retry can be answered with the same status, headers and body
+    await connection.query(`
+      CREATE TABLE idempotency_keys (
+        key VARCHAR(255) PRIMARY KEY,
+        locked BOOLEAN NOT NULL DEFAULT TRUE,
+        locked_at TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        resource_id VARCHAR(255),
+        resource_type VARCHAR(100),
+        request_hash VARCHAR(128),
+        request_context JSONB,
+        response_status_code INTEGER,
+        response_headers JSONB,
+        response_body TEXT,
+        attempts INTEGER NOT NULL DEFAULT 1,
+        last_attempt_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await connection.query(`CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at)`);
+    await connection.query(`
+      CREATE INDEX idx_idempotency_keys_resource ON idempotency_keys(resource_type, resource_id)
+    `);
+
+    logger.info('Idempotency keys table created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back idempotency keys migration');
+
+    await connection.query('DROP TABLE IF EXISTS idempotency_keys');
+
+    logger.info('Idempotency keys migration rolled back successfully');
+  }
+};
@@ -0,0 +1,49 @@
+// src/lib/payment/database/012_record_locks.ts
+import { Migration, MigrationContext } from './migration';
+
+export const recordLocksMigration: Migration = {
+  version: 12,
+  name: 'Record locks',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating record_locks table');
+
+    // Fencing tokens come from one sequence, so a later grant on a record
+    // always carries a higher token than any earlier one
+    await connection.query(`CREATE SEQUENCE record_lock_fencing_seq`);
+
+    await connection.query(`
+      CREATE TABLE record_locks (
+        lock_id UUID PRIMARY KEY,
+        resource_type VARCHAR(100) NOT NULL,
+        record_id VARCHAR(255) NOT NULL,
+        lock_level VARCHAR(10) NOT NULL CHECK (lock_level IN ('shared', 'exclusive')),
+        owner VARCHAR(255) NOT NULL,
+        owner_transaction VARCHAR(255),
+        fencing_token BIGINT NOT NULL DEFAULT nextval('record_lock_fencing_seq'),
+        metadata JSONB,
+        acquired_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_renewed TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL
+      )
+    `);
+
+    await connection.query(`CREATE INDEX idx_record_locks_record ON record_locks(resource_type, record_id)`);
+    await connection.query(`CREATE INDEX idx_record_locks_owner_transaction ON record_locks(owner_transaction)`);
+
+    logger.info('Record locks table created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back record locks migration');
+
+    await connection.query('DROP TABLE IF EXISTS record_locks');
+    await connection.query('DROP SEQUENCE IF EXISTS record_lock_fencing_seq');
+
+    logger.info('Record locks migration rolled back successfully');
+  }
+};
@@ -0,0 +1,48 @@
+// src/lib/payment/database/013_outbox.ts
+import { Migration, MigrationContext } from './migration';
+
+export const outboxMigration: Migration = {
+  version: 13,
+  name: 'Event outbox',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating outbox_events table');
+
+    await connection.query(`
+      CREATE TABLE outbox_events (
+        id UUID PRIMARY KEY,
+        type VARCHAR(100) NOT NULL,
+        aggregate_type VARCHAR(100),
+        aggregate_id VARCHAR(255),
+        data JSONB NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        published_at TIMESTAMP,
+        failed_at TIMESTAMP,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMP
+      )
+    `);
+
+    // The relay only ever reads rows that still have to go out
+    await connection.query(`
+      CREATE INDEX idx_outbox_events_pending ON outbox_events(created_at)
+      WHERE published_at IS NULL AND failed_at IS NULL
+    `);
+    await connection.query(`CREATE INDEX idx_outbox_events_aggregate ON outbox_events(aggregate_type, aggregate_id)`);
+
+    logger.info('Outbox events table created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back outbox migration');
+
+    await connection.query('DROP TABLE IF EXISTS outbox_events');
+
+    logger.info('Outbox migration rolled back successfully');
+  }
+};
@@ -0,0 +1,29 @@
+// src/lib/payment/database/014_event_schema_version.ts
+import { Migration, MigrationContext } from './migration';
+
+export const eventSchemaVersionMigration: Migration = {
+  version: 14,
+  name: 'Event schema version',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding schema_version column to events table');
+
+    // Left NULL for events stored before payloads were versioned; readers
+    // treat those as version 1
+    await connection.query(`ALTER TABLE events ADD COLUMN schema_version INTEGER`);
+
+    logger.info('Event schema version column added successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back event schema version migration');
+
+    await connection.query('ALTER TABLE events DROP COLUMN IF EXISTS schema_version');
+
+    logger.info('Event schema version migration rolled back successfully');
+  }
+};
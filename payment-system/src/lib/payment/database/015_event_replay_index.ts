@@ -0,0 +1,28 @@
+// src/lib/payment/database/015_event_replay_index.ts
+import { Migration, MigrationContext } from './migration';
+
+export const eventReplayIndexMigration: Migration = {
+  version: 15,
+  name: 'Event replay index',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating event replay index');
+
+    // Replays page through one or more types in (timestamp, id) order
+    await connection.query(`CREATE INDEX idx_events_type_timestamp ON events(type, timestamp, id)`);
+
+    logger.info('Event replay index created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back event replay index migration');
+
+    await connection.query('DROP INDEX IF EXISTS idx_events_type_timestamp');
+
+    logger.info('Event replay index migration rolled back successfully');
+  }
+};
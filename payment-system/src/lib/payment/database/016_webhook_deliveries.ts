@@ -0,0 +1,94 @@
+// src/lib/payment/database/016_webhook_deliveries.ts
+import { Migration, MigrationContext } from './migration';
+
+export const webhookDeliveriesMigration: Migration = {
+  version: 16,
+  name: 'Webhook deliveries',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding delivery health columns to webhook_endpoints');
+
+    await connection.query(`
+      ALTER TABLE webhook_endpoints
+        ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN failing_since TIMESTAMP,
+        ADD COLUMN disabled_at TIMESTAMP,
+        ADD COLUMN disabled_reason TEXT
+    `);
+
+    logger.info('Creating webhook delivery tables');
+
+    await connection.query(`
+      CREATE TABLE webhook_deliveries (
+        id UUID PRIMARY KEY,
+        endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+        event JSONB NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP,
+        last_attempt_at TIMESTAMP,
+        last_status_code INTEGER,
+        last_error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP
+      )
+    `);
+
+    await connection.query(`
+      CREATE TABLE webhook_delivery_attempts (
+        id UUID PRIMARY KEY,
+        delivery_id UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+        attempt_number INTEGER NOT NULL,
+        succeeded BOOLEAN NOT NULL,
+        status_code INTEGER,
+        latency_ms INTEGER NOT NULL,
+        response_excerpt TEXT,
+        error TEXT,
+        attempted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // The store already writes here but no migration ever created it
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS failed_webhooks (
+        id SERIAL PRIMARY KEY,
+        endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+        event_data JSONB NOT NULL,
+        error TEXT,
+        timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await connection.query('ALTER TABLE failed_webhooks ADD COLUMN IF NOT EXISTS delivery_id UUID');
+
+    await connection.query(`
+      CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)
+    `);
+    await connection.query(`CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at)`);
+    await connection.query(`CREATE INDEX idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id)`);
+    await connection.query(`CREATE INDEX IF NOT EXISTS idx_failed_webhooks_endpoint ON failed_webhooks(endpoint_id)`);
+
+    logger.info('Webhook delivery tables created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back webhook deliveries migration');
+
+    await connection.query('DROP TABLE IF EXISTS webhook_delivery_attempts');
+    await connection.query('DROP TABLE IF EXISTS webhook_deliveries');
+    await connection.query('ALTER TABLE failed_webhooks DROP COLUMN IF EXISTS delivery_id');
+    await connection.query(`
+      ALTER TABLE webhook_endpoints
+        DROP COLUMN IF EXISTS consecutive_failures,
+        DROP COLUMN IF EXISTS failing_since,
+        DROP COLUMN IF EXISTS disabled_at,
+        DROP COLUMN IF EXISTS disabled_reason
+    `);
+
+    logger.info('Webhook deliveries migration rolled back successfully');
+  }
+};
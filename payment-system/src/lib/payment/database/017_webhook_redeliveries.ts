@@ -0,0 +1,36 @@
+// src/lib/payment/database/017_webhook_redeliveries.ts
+import { Migration, MigrationContext } from './migration';
+
+export const webhookRedeliveriesMigration: Migration = {
+  version: 17,
+  name: 'Webhook redeliveries',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding redelivery link to webhook_deliveries');
+
+    await connection.query(`
+      ALTER TABLE webhook_deliveries
+        ADD COLUMN redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL
+    `);
+
+    // Redelivering failures looks them up per endpoint by status and time
+    await connection.query(`
+      CREATE INDEX idx_webhook_deliveries_endpoint_status ON webhook_deliveries(endpoint_id, status, created_at)
+    `);
+
+    logger.info('Webhook redelivery columns created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back webhook redeliveries migration');
+
+    await connection.query('DROP INDEX IF EXISTS idx_webhook_deliveries_endpoint_status');
+    await connection.query('ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS redelivery_of');
+
+    logger.info('Webhook redeliveries migration rolled back successfully');
+  }
+};
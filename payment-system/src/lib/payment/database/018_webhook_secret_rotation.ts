@@ -0,0 +1,35 @@
+// src/lib/payment/database/018_webhook_secret_rotation.ts
+import { Migration, MigrationContext } from './migration';
+
+export const webhookSecretRotationMigration: Migration = {
+  version: 18,
+  name: 'Webhook secret rotation',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding previous secret columns to webhook_endpoints');
+
+    await connection.query(`
+      ALTER TABLE webhook_endpoints
+        ADD COLUMN previous_secret TEXT,
+        ADD COLUMN previous_secret_expires_at TIMESTAMP
+    `);
+
+    logger.info('Webhook secret rotation columns added successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back webhook secret rotation migration');
+
+    await connection.query(`
+      ALTER TABLE webhook_endpoints
+        DROP COLUMN IF EXISTS previous_secret,
+        DROP COLUMN IF EXISTS previous_secret_expires_at
+    `);
+
+    logger.info('Webhook secret rotation migration rolled back successfully');
+  }
+};
@@ -0,0 +1,46 @@
+// src/lib/payment/database/019_inbound_webhook_events.ts
+import { Migration, MigrationContext } from './migration';
+
+export const inboundWebhookEventsMigration: Migration = {
+  version: 19,
+  name: 'Inbound webhook events',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating inbound_webhook_events table');
+
+    await connection.query(`
+      CREATE TABLE inbound_webhook_events (
+        provider VARCHAR(50) NOT NULL,
+        event_id VARCHAR(255) NOT NULL,
+        event_type VARCHAR(100) NOT NULL,
+        event_created_at TIMESTAMP NOT NULL,
+        received_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        processed_at TIMESTAMP,
+        outcome VARCHAR(20),
+        transaction_id UUID,
+        PRIMARY KEY (provider, event_id)
+      )
+    `);
+
+    // Ordering checks look up the newest applied event of a transaction
+    await connection.query(`
+      CREATE INDEX idx_inbound_webhook_events_transaction
+      ON inbound_webhook_events(provider, transaction_id, event_created_at)
+      WHERE outcome = 'applied'
+    `);
+
+    logger.info('Inbound webhook events table created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back inbound webhook events migration');
+
+    await connection.query('DROP TABLE IF EXISTS inbound_webhook_events');
+
+    logger.info('Inbound webhook events migration rolled back successfully');
+  }
+};
@@ -0,0 +1,42 @@
+// src/lib/payment/database/020_transaction_status_history.ts
+import { Migration, MigrationContext } from './migration';
+
+export const transactionStatusHistoryMigration: Migration = {
+  version: 20,
+  name: 'Transaction status history',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating transaction_status_history table');
+
+    await connection.query(`
+      CREATE TABLE transaction_status_history (
+        id UUID PRIMARY KEY,
+        transaction_id UUID NOT NULL REFERENCES transactions(id),
+        from_status VARCHAR(30) NOT NULL,
+        to_status VARCHAR(30) NOT NULL,
+        actor VARCHAR(255) NOT NULL,
+        reason TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await connection.query(`
+      CREATE INDEX idx_transaction_status_history_transaction
+      ON transaction_status_history(transaction_id, created_at)
+    `);
+
+    logger.info('Transaction status history table created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back transaction status history migration');
+
+    await connection.query('DROP TABLE IF EXISTS transaction_status_history');
+
+    logger.info('Transaction status history migration rolled back successfully');
+  }
+};
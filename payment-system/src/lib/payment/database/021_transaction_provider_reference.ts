@@ -0,0 +1,37 @@
+// src/lib/payment/database/021_transaction_provider_reference.ts
+import { Migration, MigrationContext } from './migration';
+
+export const transactionProviderReferenceMigration: Migration = {
+  version: 21,
+  name: 'Transaction provider reference indexes',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Creating transaction provider reference indexes');
+
+    // Disputes arrive with only the provider payment intent and charge IDs
+    await connection.query(`
+      CREATE INDEX idx_transactions_provider_transaction_id
+      ON transactions((metadata->>'providerTransactionId'))
+    `);
+
+    await connection.query(`
+      CREATE INDEX idx_transactions_provider_charge_id
+      ON transactions((metadata->>'providerChargeId'))
+    `);
+
+    logger.info('Transaction provider reference indexes created successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back transaction provider reference migration');
+
+    await connection.query('DROP INDEX IF EXISTS idx_transactions_provider_charge_id');
+    await connection.query('DROP INDEX IF EXISTS idx_transactions_provider_transaction_id');
+
+    logger.info('Transaction provider reference migration rolled back successfully');
+  }
+};
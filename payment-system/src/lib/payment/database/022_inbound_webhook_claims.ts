@@ -0,0 +1,43 @@
+// src/lib/payment/database/022_inbound_webhook_claims.ts
+import { Migration, MigrationContext } from './migration';
+
+export const inboundWebhookClaimsMigration: Migration = {
+  version: 22,
+  name: 'Inbound webhook claims',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding claimed_at column to inbound_webhook_events');
+
+    await connection.query(`
+      ALTER TABLE inbound_webhook_events
+        ADD COLUMN claimed_at TIMESTAMP
+    `);
+
+    // Events already recorded were claimed when they arrived
+    await connection.query(`
+      UPDATE inbound_webhook_events SET claimed_at = received_at
+    `);
+
+    await connection.query(`
+      ALTER TABLE inbound_webhook_events
+        ALTER COLUMN claimed_at SET NOT NULL
+    `);
+
+    logger.info('Inbound webhook claims column added successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back inbound webhook claims migration');
+
+    await connection.query(`
+      ALTER TABLE inbound_webhook_events
+        DROP COLUMN IF EXISTS claimed_at
+    `);
+
+    logger.info('Inbound webhook claims migration rolled back successfully');
+  }
+};
@@ -0,0 +1,29 @@
+// src/lib/payment/database/023_outbox_schema_version.ts
+import { Migration, MigrationContext } from './migration';
+
+export const outboxSchemaVersionMigration: Migration = {
+  version: 23,
+  name: 'Outbox schema version',
+
+  up: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Adding schema_version column to outbox_events table');
+
+    // Left NULL for events written before outbox payloads were versioned,
+    // which the relay hands on as version 1
+    await connection.query(`ALTER TABLE outbox_events ADD COLUMN schema_version INTEGER`);
+
+    logger.info('Outbox schema version column added successfully');
+  },
+
+  down: async (context: MigrationContext): Promise<void> => {
+    const { connection, logger } = context;
+
+    logger.info('Rolling back outbox schema version migration');
+
+    await connection.query('ALTER TABLE outbox_events DROP COLUMN IF EXISTS schema_version');
+
+    logger.info('Outbox schema version migration rolled back successfully');
+  }
+};
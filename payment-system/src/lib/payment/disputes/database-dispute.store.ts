@@ -0,0 +1,176 @@
+// src/lib/payment/disputes/database-dispute.store.ts
+import { Pool } from 'pg';
+import { Dispute, DisputeStatus } from './types';
+import { DisputeStore, DisputeQuery } from './dispute.store';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export class DatabaseDisputeStore extends DisputeStore {
+  private logger: PaymentLogger;
+
+  constructor(private dbPool: Pool) {
+    super();
+    this.logger = new PaymentLogger('info', 'DatabaseDisputeStore');
+  }
+
+  async save(dispute: Dispute): Promise<void> {
+    try {
+      const query = `
+        INSERT INTO disputes (
+          id, provider_dispute_id, provider_charge_id, payment_transaction_id,
+          chargeback_transaction_id, status, reason, amount, currency,
+          evidence_due_by, evidence, evidence_submitted_at, deadline_alerted_at,
+          metadata, created_at, updated_at, closed_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+        ON CONFLICT (id) DO UPDATE SET
+          status = $6,
+          reason = $7,
+          amount = $8,
+          evidence_due_by = $10,
+          evidence = $11,
+          evidence_submitted_at = $12,
+          deadline_alerted_at = $13,
+          metadata = $14,
+          updated_at = $16,
+          closed_at = $17
+      `;
+
+      await this.dbPool.query(query, [
+        dispute.id,
+        dispute.providerDisputeId,
+        dispute.providerChargeId || null,
+        dispute.paymentTransactionId,
+        dispute.chargebackTransactionId,
+        dispute.status,
+        dispute.reason,
+        dispute.amount,
+        dispute.currency,
+        dispute.evidenceDueBy || null,
+        JSON.stringify(dispute.evidence || {}),
+        dispute.evidenceSubmittedAt || null,
+        dispute.deadlineAlertedAt || null,
+        dispute.metadata ? JSON.stringify(dispute.metadata) : null,
+        dispute.createdAt,
+        dispute.updatedAt,
+        dispute.closedAt || null
+      ]);
+    } catch (error) {
+      this.logger.error('Failed to save dispute', { error, disputeId: dispute.id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save dispute',
+        ErrorCode.DATABASE_ERROR,
+        { disputeId: dispute.id }
+      );
+    }
+  }
+
+  async get(id: string): Promise<Dispute | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM disputes WHERE id = $1',
+        [id]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToDispute(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('Failed to get dispute', { error, id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get dispute',
+        ErrorCode.DATABASE_ERROR,
+        { disputeId: id }
+      );
+    }
+  }
+
+  async findByProviderDisputeId(providerDisputeId: string): Promise<Dispute | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM disputes WHERE provider_dispute_id = $1',
+        [providerDisputeId]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToDispute(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('Failed to find dispute by provider ID', { error, providerDisputeId });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to find dispute by provider ID',
+        ErrorCode.DATABASE_ERROR,
+        { providerDisputeId }
+      );
+    }
+  }
+
+  async list(options: DisputeQuery = {}): Promise<Dispute[]> {
+    try {
+      let query = 'SELECT * FROM disputes WHERE 1=1';
+      const params: any[] = [];
+      let paramIndex = 1;
+
+      if (options.status) {
+        query += ` AND status = $${paramIndex++}`;
+        params.push(options.status);
+      }
+
+      if (options.paymentTransactionId) {
+        query += ` AND payment_transaction_id = $${paramIndex++}`;
+        params.push(options.paymentTransactionId);
+      }
+
+      if (options.evidenceDueBefore) {
+        query += ` AND evidence_due_by <= $${paramIndex++}`;
+        params.push(options.evidenceDueBefore);
+      }
+
+      query += ' ORDER BY created_at DESC';
+
+      if (options.limit) {
+        query += ` LIMIT $${paramIndex++}`;
+        params.push(options.limit);
+      }
+
+      if (options.offset) {
+        query += ` OFFSET $${paramIndex++}`;
+        params.push(options.offset);
+      }
+
+      const result = await this.dbPool.query(query, params);
+      return result.rows.map(row => this.mapRowToDispute(row));
+    } catch (error) {
+      this.logger.error('Failed to list disputes', { error, options });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to list disputes',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  private mapRowToDispute(row: any): Dispute {
+    return {
+      id: row.id,
+      providerDisputeId: row.provider_dispute_id,
+      providerChargeId: row.provider_charge_id || undefined,
+      paymentTransactionId: row.payment_transaction_id,
+      chargebackTransactionId: row.chargeback_transaction_id,
+      status: row.status as DisputeStatus,
+      reason: row.reason,
+      amount: parseFloat(row.amount),
+      currency: row.currency,
+      evidenceDueBy: row.evidence_due_by || undefined,
+      evidence: row.evidence || {},
+      evidenceSubmittedAt: row.evidence_submitted_at || undefined,
+      deadlineAlertedAt: row.deadline_alerted_at || undefined,
+      metadata: row.metadata || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      closedAt: row.closed_at || undefined
+    };
+  }
+}
@@ -0,0 +1,472 @@
+// src/lib/payment/disputes/dispute.manager.ts
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Dispute,
+  DisputeEvidence,
+  DisputeStatus,
+  ProviderDisputeData
+} from './types';
+import { DisputeStore, DisputeQuery } from './dispute.store';
+import { TransactionManager } from '../transaction/managers/transaction.manager';
+import { TransactionStatus, TransactionType } from '../types/transaction.types';
+import { PaymentProviderInterface } from '../types/provider.types';
+import { EventEmitter } from '../events/event.emitter';
+import { AlertDetector } from '../monitoring/alerts/detector';
+import { MetricValue } from '../monitoring/metrics/collector';
+import { errorHandler, ErrorCode, PaymentError } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export const DISPUTE_DEADLINE_RULE = 'dispute_evidence_deadline';
+
+export interface DisputeManagerOptions {
+  eventEmitter?: EventEmitter;
+  alertDetector?: AlertDetector;
+  provider?: PaymentProviderInterface;
+  deadlineWarningMs?: number;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+/**
+ * Tracks chargebacks raised against payments. Each dispute is backed by a
+ * CHARGEBACK transaction that is a child of the disputed payment.
+ */
+export class DisputeManager {
+  private logger: PaymentLogger;
+  private eventEmitter?: EventEmitter;
+  private alertDetector?: AlertDetector;
+  private provider?: PaymentProviderInterface;
+  private deadlineWarningMs: number = 72 * 60 * 60 * 1000; // 3 days
+  private deadlineTimer?: NodeJS.Timeout;
+
+  // Provider statuses, including Stripe's inquiry ("warning_") variants
+  private static readonly statusMapping: Record<string, DisputeStatus> = {
+    warning_needs_response: DisputeStatus.NEEDS_RESPONSE,
+    needs_response: DisputeStatus.NEEDS_RESPONSE,
+    warning_under_review: DisputeStatus.UNDER_REVIEW,
+    under_review: DisputeStatus.UNDER_REVIEW,
+    warning_closed: DisputeStatus.WON,
+    won: DisputeStatus.WON,
+    lost: DisputeStatus.LOST
+  };
+
+  constructor(
+    private store: DisputeStore,
+    private transactionManager: TransactionManager,
+    options: DisputeManagerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'DisputeManager');
+    this.eventEmitter = options.eventEmitter;
+    this.alertDetector = options.alertDetector;
+    this.provider = options.provider;
+    this.deadlineWarningMs = options.deadlineWarningMs || this.deadlineWarningMs;
+
+    if (this.alertDetector) {
+      this.alertDetector.addRule({
+        name: DISPUTE_DEADLINE_RULE,
+        condition: metrics => metrics.length > 0,
+        severity: 'high',
+        description: 'Dispute evidence is due soon and has not been submitted'
+      });
+    }
+  }
+
+  /**
+   * Create or update a dispute from a provider notification
+   * @param data Dispute details reported by the provider
+   */
+  async syncDispute(data: ProviderDisputeData): Promise<Dispute> {
+    const operationId = uuidv4().slice(0, 8);
+    const status = this.mapProviderStatus(data.status);
+
+    try {
+      const existing = await this.store.findByProviderDisputeId(data.providerDisputeId);
+
+      if (!existing) {
+        return await this.openDispute(data, status, operationId);
+      }
+
+      if (this.isClosed(existing.status)) {
+        this.logger.info(`[${operationId}] Ignoring update for closed dispute ${existing.id}`, {
+          status: existing.status,
+          reportedStatus: status
+        });
+        return existing;
+      }
+
+      const updated: Dispute = {
+        ...existing,
+        status,
+        reason: data.reason || existing.reason,
+        amount: data.amount,
+        evidenceDueBy: data.evidenceDueBy || existing.evidenceDueBy,
+        metadata: { ...existing.metadata, ...data.metadata },
+        updatedAt: new Date()
+      };
+
+      if (this.isClosed(status)) {
+        return await this.closeDispute(updated, operationId);
+      }
+
+      await this.store.save(updated);
+
+      if (existing.status !== status) {
+        this.logger.info(`[${operationId}] Dispute ${existing.id} moved from ${existing.status} to ${status}`);
+
+        await this.emit('dispute.updated', {
+          disputeId: updated.id,
+          paymentTransactionId: updated.paymentTransactionId,
+          oldStatus: existing.status,
+          newStatus: status,
+          timestamp: updated.updatedAt
+        });
+      }
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`[${operationId}] Failed to sync dispute ${data.providerDisputeId}`, { error });
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to sync dispute',
+        ErrorCode.INTERNAL_ERROR,
+        { providerDisputeId: data.providerDisputeId }
+      );
+    }
+  }
+
+  /**
+   * Attach evidence to a dispute and optionally submit it to the provider
+   * @param disputeId Dispute ID
+   * @param evidence Evidence fields to add or replace
+   * @param submit Whether to submit the evidence for review now
+   */
+  async submitEvidence(
+    disputeId: string,
+    evidence: DisputeEvidence,
+    submit: boolean = true
+  ): Promise<Dispute> {
+    const operationId = uuidv4().slice(0, 8);
+    const dispute = await this.getDispute(disputeId);
+
+    if (dispute.status !== DisputeStatus.NEEDS_RESPONSE) {
+      throw errorHandler.createError(
+        `Dispute ${disputeId} does not accept evidence in ${dispute.status} state`,
+        ErrorCode.DISPUTE_INVALID_STATE,
+        { disputeId, status: dispute.status }
+      );
+    }
+
+    if (dispute.evidenceDueBy && dispute.evidenceDueBy.getTime() < Date.now()) {
+      throw errorHandler.createError(
+        `Evidence deadline for dispute ${disputeId} has passed`,
+        ErrorCode.DISPUTE_INVALID_STATE,
+        { disputeId, evidenceDueBy: dispute.evidenceDueBy }
+      );
+    }
+
+    const mergedEvidence = { ...dispute.evidence, ...evidence };
+
+    this.logger.info(`[${operationId}] Updating evidence for dispute ${disputeId}`, {
+      fields: Object.keys(evidence),
+      submit
+    });
+
+    if (this.provider?.submitDisputeEvidence) {
+      const result = await this.provider.submitDisputeEvidence(dispute.providerDisputeId, {
+        evidence: mergedEvidence as Record<string, string>,
+        submit,
+        metadata: { disputeId }
+      });
+
+      if (!result.success) {
+        throw errorHandler.createError(
+          result.error?.message || 'Provider rejected dispute evidence',
+          ErrorCode.PROVIDER_ERROR,
+          { disputeId, providerErrorCode: result.error?.code }
+        );
+      }
+    }
+
+    const updated: Dispute = {
+      ...dispute,
+      evidence: mergedEvidence,
+      status: submit ? DisputeStatus.UNDER_REVIEW : dispute.status,
+      evidenceSubmittedAt: submit ? new Date() : dispute.evidenceSubmittedAt,
+      updatedAt: new Date()
+    };
+
+    await this.store.save(updated);
+
+    if (submit) {
+      await this.emit('dispute.evidence_submitted', {
+        disputeId,
+        paymentTransactionId: dispute.paymentTransactionId,
+        fields: Object.keys(mergedEvidence),
+        timestamp: updated.evidenceSubmittedAt
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Get a dispute by ID
+   * @param disputeId Dispute ID
+   */
+  async getDispute(disputeId: string): Promise<Dispute> {
+    const dispute = await this.store.get(disputeId);
+
+    if (!dispute) {
+      throw errorHandler.createError(
+        `Dispute not found: ${disputeId}`,
+        ErrorCode.DISPUTE_NOT_FOUND,
+        { disputeId }
+      );
+    }
+
+    return dispute;
+  }
+
+  /**
+   * List disputes
+   * @param options Query options
+   */
+  async listDisputes(options: DisputeQuery = {}): Promise<Dispute[]> {
+    return this.store.list(options);
+  }
+
+  /**
+   * Raise alerts for disputes whose evidence deadline falls within the warning window.
+   * Each dispute is alerted at most once.
+   * @param now Reference time, defaults to the current time
+   * @returns Disputes that were alerted on
+   */
+  async checkEvidenceDeadlines(now: Date = new Date()): Promise<Dispute[]> {
+    const dueSoon = await this.store.list({
+      status: DisputeStatus.NEEDS_RESPONSE,
+      evidenceDueBefore: new Date(now.getTime() + this.deadlineWarningMs)
+    });
+
+    const pending = dueSoon.filter(dispute => !dispute.deadlineAlertedAt);
+
+    if (pending.length === 0) {
+      return [];
+    }
+
+    this.logger.warn(`${pending.length} dispute(s) approaching evidence deadline`, {
+      disputeIds: pending.map(dispute => dispute.id)
+    });
+
+    if (this.alertDetector) {
+      const metrics: MetricValue[] = pending.map(dispute => ({
+        // Hours left to respond; negative once the deadline has passed
+        value: (dispute.evidenceDueBy!.getTime() - now.getTime()) / (60 * 60 * 1000),
+        timestamp: now,
+        labels: {
+          disputeId: dispute.id,
+          paymentTransactionId: dispute.paymentTransactionId
+        }
+      }));
+
+      await this.alertDetector.checkRule(DISPUTE_DEADLINE_RULE, metrics);
+    }
+
+    for (const dispute of pending) {
+      dispute.deadlineAlertedAt = now;
+      dispute.updatedAt = now;
+      await this.store.save(dispute);
+
+      await this.emit('dispute.deadline_approaching', {
+        disputeId: dispute.id,
+        paymentTransactionId: dispute.paymentTransactionId,
+        evidenceDueBy: dispute.evidenceDueBy,
+        timestamp: now
+      });
+    }
+
+    return pending;
+  }
+
+  /**
+   * Periodically check evidence deadlines
+   * @param intervalMs Time between checks
+   */
+  startDeadlineMonitor(intervalMs: number = 60 * 60 * 1000): void {
+    this.stopDeadlineMonitor();
+
+    this.deadlineTimer = setInterval(() => {
+      this.checkEvidenceDeadlines().catch(error => {
+        this.logger.error('Dispute deadline check failed', { error });
+      });
+    }, intervalMs);
+  }
+
+  stopDeadlineMonitor(): void {
+    if (this.deadlineTimer) {
+      clearInterval(this.deadlineTimer);
+      this.deadlineTimer = undefined;
+    }
+  }
+
+  /**
+   * Record a new dispute and its chargeback transaction
+   */
+  private async openDispute(
+    data: ProviderDisputeData,
+    status: DisputeStatus,
+    operationId: string
+  ): Promise<Dispute> {
+    const payment = await this.transactionManager.getTransaction(data.paymentTransactionId);
+
+    if (!payment) {
+      throw errorHandler.createError(
+        `Disputed payment not found: ${data.paymentTransactionId}`,
+        ErrorCode.TRANSACTION_NOT_FOUND,
+        { transactionId: data.paymentTransactionId, providerDisputeId: data.providerDisputeId }
+      );
+    }
+
+    // The provider dispute ID doubles as the idempotency key, so a redelivered
+    // webhook cannot open a second chargeback
+    const chargeback = await this.transactionManager.beginTransaction(
+      TransactionType.CHARGEBACK,
+      {
+        type: TransactionType.CHARGEBACK,
+        amount: data.amount,
+        currency: data.currency,
+        customerId: payment.customerId,
+        paymentMethodId: payment.paymentMethodId,
+        idempotencyKey: `dispute-${data.providerDisputeId}`,
+        parentTransactionId: payment.id,
+        metadata: {
+          providerDisputeId: data.providerDisputeId,
+          providerChargeId: data.providerChargeId,
+          reason: data.reason
+        }
+      }
+    );
+
+    await this.transactionManager.updateTransactionStatus(
+      chargeback.id,
+      TransactionStatus.PROCESSING
+    );
+
+    await this.transactionManager.updateTransactionStatus(
+      payment.id,
+      payment.status,
+      { disputed: true, providerDisputeId: data.providerDisputeId }
+    );
+
+    const now = new Date();
+    const dispute: Dispute = {
+      id: uuidv4(),
+      providerDisputeId: data.providerDisputeId,
+      providerChargeId: data.providerChargeId,
+      paymentTransactionId: payment.id,
+      chargebackTransactionId: chargeback.id,
+      status,
+      reason: data.reason,
+      amount: data.amount,
+      currency: data.currency,
+      evidenceDueBy: data.evidenceDueBy,
+      evidence: {},
+      metadata: data.metadata,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.save(dispute);
+
+    this.logger.info(`[${operationId}] Opened dispute ${dispute.id} for payment ${payment.id}`, {
+      providerDisputeId: data.providerDisputeId,
+      chargebackTransactionId: chargeback.id,
+      status,
+      evidenceDueBy: data.evidenceDueBy
+    });
+
+    await this.emit('dispute.created', {
+      disputeId: dispute.id,
+      paymentTransactionId: payment.id,
+      chargebackTransactionId: chargeback.id,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      reason: dispute.reason,
+      evidenceDueBy: dispute.evidenceDueBy,
+      timestamp: now
+    });
+
+    // A dispute can already be closed when we first hear about it
+    if (this.isClosed(status)) {
+      return this.closeDispute(dispute, operationId);
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Settle the chargeback transaction once the dispute has an outcome.
+   * A lost dispute completes the chargeback; a won dispute means the
+   * chargeback did not go through, so it is marked failed.
+   */
+  private async closeDispute(dispute: Dispute, operationId: string): Promise<Dispute> {
+    const outcome = dispute.status === DisputeStatus.LOST
+      ? TransactionStatus.COMPLETED
+      : TransactionStatus.FAILED;
+
+    await this.transactionManager.updateTransactionStatus(
+      dispute.chargebackTransactionId,
+      outcome,
+      { disputeOutcome: dispute.status }
+    );
+
+    const closed: Dispute = {
+      ...dispute,
+      closedAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    await this.store.save(closed);
+
+    this.logger.info(`[${operationId}] Dispute ${dispute.id} closed as ${dispute.status}`);
+
+    await this.emit('dispute.closed', {
+      disputeId: closed.id,
+      paymentTransactionId: closed.paymentTransactionId,
+      chargebackTransactionId: closed.chargebackTransactionId,
+      outcome: closed.status,
+      amount: closed.amount,
+      currency: closed.currency,
+      timestamp: closed.closedAt
+    });
+
+    return closed;
+  }
+
+  private mapProviderStatus(providerStatus: string): DisputeStatus {
+    const status = DisputeManager.statusMapping[providerStatus];
+
+    if (!status) {
+      throw errorHandler.createError(
+        `Unknown dispute status: ${providerStatus}`,
+        ErrorCode.VALIDATION_ERROR,
+        { providerStatus }
+      );
+    }
+
+    return status;
+  }
+
+  private isClosed(status: DisputeStatus): boolean {
+    return status === DisputeStatus.WON || status === DisputeStatus.LOST;
+  }
+
+  private async emit(eventType: string, data: Record<string, any>): Promise<void> {
+    if (this.eventEmitter) {
+      await this.eventEmitter.emit(eventType, data);
+    }
+  }
+}
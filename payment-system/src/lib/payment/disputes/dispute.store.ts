@@ -0,0 +1,61 @@
+// src/lib/payment/disputes/dispute.store.ts
+import { Dispute, DisputeStatus } from './types';
+
+export interface DisputeQuery {
+  status?: DisputeStatus;
+  paymentTransactionId?: string;
+  evidenceDueBefore?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export abstract class DisputeStore {
+  abstract save(dispute: Dispute): Promise<void>;
+  abstract get(id: string): Promise<Dispute | null>;
+  abstract findByProviderDisputeId(providerDisputeId: string): Promise<Dispute | null>;
+  abstract list(options?: DisputeQuery): Promise<Dispute[]>;
+}
+
+export class InMemoryDisputeStore extends DisputeStore {
+  private disputes: Map<string, Dispute> = new Map();
+
+  async save(dispute: Dispute): Promise<void> {
+    this.disputes.set(dispute.id, { ...dispute, evidence: { ...dispute.evidence } });
+  }
+
+  async get(id: string): Promise<Dispute | null> {
+    const dispute = this.disputes.get(id);
+    return dispute ? { ...dispute, evidence: { ...dispute.evidence } } : null;
+  }
+
+  async findByProviderDisputeId(providerDisputeId: string): Promise<Dispute | null> {
+    const dispute = Array.from(this.disputes.values())
+      .find(d => d.providerDisputeId === providerDisputeId);
+    return dispute ? { ...dispute, evidence: { ...dispute.evidence } } : null;
+  }
+
+  async list(options: DisputeQuery = {}): Promise<Dispute[]> {
+    let disputes = Array.from(this.disputes.values());
+
+    if (options.status) {
+      disputes = disputes.filter(d => d.status === options.status);
+    }
+
+    if (options.paymentTransactionId) {
+      disputes = disputes.filter(d => d.paymentTransactionId === options.paymentTransactionId);
+    }
+
+    if (options.evidenceDueBefore) {
+      disputes = disputes.filter(d => 
+        d.evidenceDueBy !== undefined && d.evidenceDueBy <= options.evidenceDueBefore!
+      );
+    }
+
+    disputes.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const start = options.offset || 0;
+    const end = options.limit ? start + options.limit : undefined;
+
+    return disputes.slice(start, end).map(d => ({ ...d, evidence: { ...d.evidence } }));
+  }
+}
@@ -0,0 +1,54 @@
+// src/lib/payment/disputes/types.ts
+export enum DisputeStatus {
+  NEEDS_RESPONSE = 'needs_response',
+  UNDER_REVIEW = 'under_review',
+  WON = 'won',
+  LOST = 'lost'
+}
+
+export interface DisputeEvidence {
+  productDescription?: string;
+  customerName?: string;
+  customerEmailAddress?: string;
+  customerCommunication?: string;
+  receipt?: string;
+  shippingCarrier?: string;
+  shippingTrackingNumber?: string;
+  shippingDocumentation?: string;
+  refundPolicy?: string;
+  cancellationPolicy?: string;
+  uncategorizedText?: string;
+}
+
+export interface Dispute {
+  id: string;
+  providerDisputeId: string;
+  providerChargeId?: string;
+  paymentTransactionId: string;
+  chargebackTransactionId: string;
+  status: DisputeStatus;
+  reason: string;
+  amount: number;
+  currency: string;
+  evidenceDueBy?: Date;
+  evidence: DisputeEvidence;
+  evidenceSubmittedAt?: Date;
+  deadlineAlertedAt?: Date;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+  closedAt?: Date;
+}
+
+// Provider-neutral view of a dispute as reported by a webhook
+export interface ProviderDisputeData {
+  providerDisputeId: string;
+  providerChargeId?: string;
+  paymentTransactionId: string;
+  status: string;
+  reason: string;
+  amount: number;
+  currency: string;
+  evidenceDueBy?: Date;
+  metadata?: Record<string, any>;
+}
@@ -1,7 +1,7 @@
 // src/lib/payment/events/database-event.store.ts
 import { v4 as uuidv4 } from 'uuid';
 import { Pool } from 'pg';
-import { StoredEvent, EventStore } from './event.store';
+import { StoredEvent, EventStore, EventQuery, EventCursor } from './event.store';
 import { DatabaseConnection } from '../database/connection';
 import { PaymentLogger } from '../utils/logger';
 import { errorHandler, ErrorCode } from '../utils/error';
@@ -29,8 +29,8 @@ export class DatabaseEventStore extends EventStore {
     try {
       const query = `
         INSERT INTO events (
-          id, type, data, processed, error, retry_count, next_retry_at, timestamp
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          id, type, data, processed, error, retry_count, next_retry_at, timestamp, schema_version
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING *
       `;
 
@@ -42,7 +42,8 @@ export class DatabaseEventStore extends EventStore {
         event.error,
         event.retryCount || 0,
         event.nextRetryAt,
-        event.timestamp
+        event.timestamp,
+        event.schemaVersion || null
       ];
 
       const result = await this.dbPool.query(query, values);
@@ -267,6 +268,59 @@ export class DatabaseEventStore extends EventStore {
     }
   }
 
+  async findEvents(query: EventQuery, limit: number, after?: EventCursor): Promise<StoredEvent[]> {
+    try {
+      const { where, params } = this.buildQueryFilter(query);
+
+      // Keyset pagination keeps each page cheap however deep the replay is
+      let cursorFilter = '';
+      if (after) {
+        params.push(after.timestamp, after.id);
+        cursorFilter = `AND (timestamp, id) > ($${params.length - 1}, $${params.length})`;
+      }
+      params.push(limit);
+
+      const result = await this.dbPool.query(
+        `SELECT * FROM events
+         WHERE ${where} ${cursorFilter}
+         ORDER BY timestamp ASC, id ASC
+         LIMIT $${params.length}`,
+        params
+      );
+
+      return result.rows.map(row => this.mapRowToEvent(row));
+    } catch (error) {
+      this.logger.error('Failed to find events', { error, query });
+      throw errorHandler.wrapError(
+        error,
+        'Failed to find events',
+        ErrorCode.DATABASE_ERROR,
+        { types: query.types, from: query.from, to: query.to }
+      );
+    }
+  }
+
+  async countEvents(query: EventQuery): Promise<number> {
+    try {
+      const { where, params } = this.buildQueryFilter(query);
+
+      const result = await this.dbPool.query(
+        `SELECT COUNT(*) AS count FROM events WHERE ${where}`,
+        params
+      );
+
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      this.logger.error('Failed to count events', { error, query });
+      throw errorHandler.wrapError(
+        error,
+        'Failed to count events',
+        ErrorCode.DATABASE_ERROR,
+        { types: query.types, from: query.from, to: query.to }
+      );
+    }
+  }
+
   async pruneProcessedEvents(olderThan: Date): Promise<number> {
     try {
       const query = `
@@ -296,6 +350,18 @@ export class DatabaseEventStore extends EventStore {
     }
   }
 
+  private buildQueryFilter(query: EventQuery): { where: string; params: any[] } {
+    const params: any[] = [query.from, query.to];
+    let where = 'timestamp >= $1 AND timestamp < $2';
+
+    if (query.types && query.types.length > 0) {
+      params.push(query.types);
+      where += ` AND type = ANY($${params.length})`;
+    }
+
+    return { where, params };
+  }
+
   private mapRowToEvent(row: any): StoredEvent {
     return {
       id: row.id,
@@ -305,7 +371,8 @@ export class DatabaseEventStore extends EventStore {
       processed: row.processed,
       error: row.error,
       retryCount: row.retry_count,
-      nextRetryAt: row.next_retry_at ? new Date(row.next_retry_at) : undefined
+      nextRetryAt: row.next_retry_at ? new Date(row.next_retry_at) : undefined,
+      schemaVersion: row.schema_version || undefined
     };
   }
 }
@@ -0,0 +1,230 @@
+// src/lib/payment/events/database-outbox.store.ts
+import { Pool, PoolClient } from 'pg';
+import { OutboxStore, OutboxEvent, OutboxStats } from './outbox.store';
+import { Transaction, TransactionStatusChange } from '../types/transaction.types';
+import { DatabaseTransactionStore } from '../transaction/store/database-transaction.store';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export class DatabaseOutboxStore extends OutboxStore {
+  private logger: PaymentLogger;
+
+  constructor(
+    private dbPool: Pool,
+    private transactionStore: DatabaseTransactionStore
+  ) {
+    super();
+    this.logger = new PaymentLogger('info', 'DatabaseOutboxStore');
+  }
+
+  async commit(
+    transaction: Transaction,
+    events: OutboxEvent[],
+    statusChange?: TransactionStatusChange
+  ): Promise<void> {
+    const client = await this.dbPool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await this.transactionStore.save(transaction, client);
+      if (statusChange) {
+        await this.transactionStore.saveStatusChange(statusChange, client);
+      }
+      await this.append(events, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      this.logger.error('Failed to commit transaction with outbox events', {
+        error,
+        transactionId: transaction.id
+      });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to commit transaction with outbox events',
+        ErrorCode.DATABASE_ERROR,
+        { transactionId: transaction.id }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Insert events. Pass the client of an open database transaction to make
+   * them part of it.
+   */
+  async append(events: OutboxEvent[], executor: Pool | PoolClient = this.dbPool): Promise<void> {
+    for (const event of events) {
+      await executor.query(
+        `INSERT INTO outbox_events (
+           id, type, aggregate_type, aggregate_id, data, schema_version, created_at, attempts
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          event.id,
+          event.type,
+          event.aggregateType || null,
+          event.aggregateId || null,
+          JSON.stringify(event.data),
+          event.schemaVersion || null,
+          event.createdAt,
+          event.attempts
+        ]
+      );
+    }
+  }
+
+  async claimBatch(limit: number, leaseMs: number): Promise<OutboxEvent[]> {
+    try {
+      const now = new Date();
+
+      // SKIP LOCKED lets several relays poll at once without handing the
+      // same row to two of them
+      const result = await this.dbPool.query(
+        `UPDATE outbox_events
+         SET attempts = attempts + 1, next_attempt_at = $2
+         WHERE id IN (
+           SELECT id FROM outbox_events
+           WHERE published_at IS NULL
+             AND failed_at IS NULL
+             AND (next_attempt_at IS NULL OR next_attempt_at <= $1)
+           ORDER BY created_at
+           LIMIT $3
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [now, new Date(now.getTime() + leaseMs), limit]
+      );
+
+      return result.rows
+        .map(row => this.mapRowToEvent(row))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      this.logger.error('Failed to claim outbox events', { error });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to claim outbox events',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async markPublished(id: string): Promise<void> {
+    await this.updateEvent(
+      id,
+      'published_at = NOW(), last_error = NULL',
+      [],
+      'Failed to mark outbox event as published'
+    );
+  }
+
+  async markForRetry(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+    await this.updateEvent(
+      id,
+      'last_error = $2, next_attempt_at = $3',
+      [error, nextAttemptAt],
+      'Failed to mark outbox event for retry'
+    );
+  }
+
+  async markAsFailed(id: string, error: string): Promise<void> {
+    await this.updateEvent(
+      id,
+      'failed_at = NOW(), last_error = $2',
+      [error],
+      'Failed to mark outbox event as failed'
+    );
+  }
+
+  async prunePublished(publishedBefore: Date): Promise<number> {
+    try {
+      const result = await this.dbPool.query(
+        'DELETE FROM outbox_events WHERE published_at < $1',
+        [publishedBefore]
+      );
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      this.logger.error('Failed to prune published outbox events', { error });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to prune published outbox events',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async getStats(): Promise<OutboxStats> {
+    try {
+      const result = await this.dbPool.query(
+        `SELECT
+           COUNT(*) FILTER (WHERE published_at IS NULL AND failed_at IS NULL) AS pending,
+           COUNT(*) FILTER (WHERE published_at IS NOT NULL) AS published,
+           COUNT(*) FILTER (WHERE failed_at IS NOT NULL) AS failed,
+           MIN(created_at) FILTER (WHERE published_at IS NULL AND failed_at IS NULL) AS oldest_pending
+         FROM outbox_events`
+      );
+
+      const row = result.rows[0];
+      return {
+        pending: parseInt(row.pending, 10),
+        published: parseInt(row.published, 10),
+        failed: parseInt(row.failed, 10),
+        oldestPending: row.oldest_pending ? new Date(row.oldest_pending) : null
+      };
+    } catch (error) {
+      this.logger.error('Failed to get outbox stats', { error });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get outbox stats',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  private async updateEvent(
+    id: string,
+    assignments: string,
+    params: any[],
+    errorMessage: string
+  ): Promise<void> {
+    try {
+      await this.dbPool.query(
+        `UPDATE outbox_events SET ${assignments} WHERE id = $1`,
+        [id, ...params]
+      );
+    } catch (error) {
+      this.logger.error(errorMessage, { error, eventId: id });
+
+      throw errorHandler.wrapError(
+        error,
+        errorMessage,
+        ErrorCode.DATABASE_ERROR,
+        { eventId: id }
+      );
+    }
+  }
+
+  private mapRowToEvent(row: any): OutboxEvent {
+    return {
+      id: row.id,
+      type: row.type,
+      data: row.data,
+      aggregateType: row.aggregate_type || undefined,
+      aggregateId: row.aggregate_id || undefined,
+      schemaVersion: row.schema_version || undefined,
+      createdAt: new Date(row.created_at),
+      publishedAt: row.published_at ? new Date(row.published_at) : undefined,
+      failedAt: row.failed_at ? new Date(row.failed_at) : undefined,
+      attempts: row.attempts,
+      lastError: row.last_error || undefined,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined
+    };
+  }
+}
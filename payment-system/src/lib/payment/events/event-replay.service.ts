@@ -0,0 +1,302 @@
+// src/lib/payment/events/event-replay.service.ts
+import { v4 as uuidv4 } from 'uuid';
+import { EventStore, StoredEvent, EventCursor } from './event.store';
+import { EventSchemaRegistry } from './event.registry';
+import { PaymentLogger } from '../utils/logger';
+import { errorHandler, ErrorCode } from '../utils/error';
+
+export type ReplayHandler = (data: any, event: StoredEvent) => Promise<void>;
+
+export enum ReplayJobStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+  FAILED = 'failed'
+}
+
+export interface ReplayRequest {
+  types?: string[];
+  from: Date;
+  to: Date;
+  // Name of the registered handler that receives the events
+  target: string;
+  dryRun?: boolean;
+  ratePerSecond?: number;
+}
+
+export interface ReplayJobError {
+  eventId: string;
+  type: string;
+  error: string;
+}
+
+export interface ReplayJob {
+  id: string;
+  request: ReplayRequest;
+  status: ReplayJobStatus;
+  dryRun: boolean;
+  // Matching events counted when the job started
+  total: number;
+  delivered: number;
+  failed: number;
+  errors: ReplayJobError[];
+  cursor?: EventCursor;
+  startedAt: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+export interface EventReplayServiceOptions {
+  schemaRegistry?: EventSchemaRegistry;
+  batchSize?: number;
+  defaultRatePerSecond?: number;
+  maxRatePerSecond?: number;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+// Only the first errors are kept; the failed count covers the rest
+const MAX_JOB_ERRORS = 20;
+
+/**
+ * Replays stored events of chosen types between two timestamps to a single
+ * named handler, e.g. to rebuild a projection or redeliver webhooks.
+ *
+ * Replays leave the processed flags alone, so they never interfere with
+ * normal event processing. Jobs run in the background at a bounded rate and
+ * their progress is kept in memory.
+ */
+export class EventReplayService {
+  private logger: PaymentLogger;
+  private targets: Map<string, ReplayHandler> = new Map();
+  private jobs: Map<string, ReplayJob> = new Map();
+  private runs: Map<string, Promise<void>> = new Map();
+  private cancelRequested: Set<string> = new Set();
+  private schemaRegistry?: EventSchemaRegistry;
+  private batchSize: number;
+  private defaultRatePerSecond: number;
+  private maxRatePerSecond: number;
+
+  constructor(
+    private eventStore: EventStore,
+    options: EventReplayServiceOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'EventReplayService');
+    this.schemaRegistry = options.schemaRegistry;
+    this.batchSize = options.batchSize || 100;
+    this.defaultRatePerSecond = options.defaultRatePerSecond || 50;
+    this.maxRatePerSecond = options.maxRatePerSecond || 1000;
+  }
+
+  registerTarget(name: string, handler: ReplayHandler): void {
+    this.targets.set(name, handler);
+    this.logger.info(`Registered replay target: ${name}`);
+  }
+
+  getTargets(): string[] {
+    return Array.from(this.targets.keys()).sort();
+  }
+
+  /**
+   * Start replaying the matching events. A dry run only counts them.
+   * @returns The job as it stands once started
+   */
+  async startReplay(request: ReplayRequest): Promise<ReplayJob> {
+    const operationId = uuidv4().slice(0, 8);
+    const handler = this.validateRequest(request);
+
+    const total = await this.eventStore.countEvents(request);
+    const job: ReplayJob = {
+      id: uuidv4(),
+      request: { ...request, ratePerSecond: request.ratePerSecond || this.defaultRatePerSecond },
+      status: request.dryRun ? ReplayJobStatus.COMPLETED : ReplayJobStatus.RUNNING,
+      dryRun: !!request.dryRun,
+      total,
+      delivered: 0,
+      failed: 0,
+      errors: [],
+      startedAt: new Date(),
+      ...(request.dryRun && { completedAt: new Date() })
+    };
+
+    this.logger.info(`[${operationId}] ${job.dryRun ? 'Dry run of' : 'Starting'} replay ${job.id}`, {
+      target: request.target,
+      types: request.types,
+      from: request.from,
+      to: request.to,
+      total
+    });
+
+    if (job.dryRun) {
+      return this.copy(job);
+    }
+
+    this.jobs.set(job.id, job);
+    this.runs.set(job.id, this.runJob(job, handler, operationId));
+
+    return this.copy(job);
+  }
+
+  getJob(id: string): ReplayJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? this.copy(job) : undefined;
+  }
+
+  listJobs(): ReplayJob[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .map(job => this.copy(job));
+  }
+
+  /**
+   * Ask a running job to stop. It stops before the next event it would
+   * deliver.
+   */
+  cancelReplay(id: string): ReplayJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw errorHandler.createError(
+        `Replay job not found: ${id}`,
+        ErrorCode.REPLAY_JOB_NOT_FOUND,
+        { jobId: id }
+      );
+    }
+
+    if (job.status === ReplayJobStatus.RUNNING) {
+      this.cancelRequested.add(id);
+      this.logger.info(`Cancellation requested for replay ${id}`);
+    }
+
+    return this.copy(job);
+  }
+
+  /**
+   * Resolve once the job has stopped running
+   */
+  async waitForReplay(id: string): Promise<ReplayJob> {
+    const run = this.runs.get(id);
+    if (run) {
+      await run;
+    }
+
+    const job = this.getJob(id);
+    if (!job) {
+      throw errorHandler.createError(
+        `Replay job not found: ${id}`,
+        ErrorCode.REPLAY_JOB_NOT_FOUND,
+        { jobId: id }
+      );
+    }
+
+    return job;
+  }
+
+  private validateRequest(request: ReplayRequest): ReplayHandler {
+    const handler = this.targets.get(request.target);
+    if (!handler) {
+      throw errorHandler.createError(
+        `Unknown replay target: ${request.target}`,
+        ErrorCode.VALIDATION_ERROR,
+        { target: request.target, targets: this.getTargets() }
+      );
+    }
+
+    if (isNaN(request.from.getTime()) || isNaN(request.to.getTime()) || request.from >= request.to) {
+      throw errorHandler.createError(
+        'Replay range must have a valid start before its end',
+        ErrorCode.VALIDATION_ERROR,
+        { from: request.from, to: request.to }
+      );
+    }
+
+    const rate = request.ratePerSecond;
+    if (rate !== undefined && (!(rate > 0) || rate > this.maxRatePerSecond)) {
+      throw errorHandler.createError(
+        `Replay rate must be between 0 and ${this.maxRatePerSecond} events per second`,
+        ErrorCode.VALIDATION_ERROR,
+        { ratePerSecond: rate }
+      );
+    }
+
+    return handler;
+  }
+
+  private async runJob(job: ReplayJob, handler: ReplayHandler, operationId: string): Promise<void> {
+    const interval = 1000 / job.request.ratePerSecond!;
+    let nextDeliveryAt = Date.now();
+
+    try {
+      while (true) {
+        const events = await this.eventStore.findEvents(job.request, this.batchSize, job.cursor);
+        if (events.length === 0) {
+          break;
+        }
+
+        for (const event of events) {
+          if (this.cancelRequested.has(job.id)) {
+            job.status = ReplayJobStatus.CANCELLED;
+            return;
+          }
+
+          // Space deliveries out so a replay cannot flood the target
+          const wait = nextDeliveryAt - Date.now();
+          if (wait > 0) {
+            await new Promise(resolve => setTimeout(resolve, wait));
+          }
+          nextDeliveryAt = Math.max(nextDeliveryAt, Date.now()) + interval;
+
+          await this.deliver(job, handler, event);
+          job.cursor = { timestamp: event.timestamp, id: event.id };
+        }
+      }
+
+      job.status = ReplayJobStatus.COMPLETED;
+    } catch (error) {
+      job.status = ReplayJobStatus.FAILED;
+      job.error = error instanceof Error ? error.message : String(error);
+
+      this.logger.error(`[${operationId}] Replay ${job.id} failed`, { error, cursor: job.cursor });
+    } finally {
+      job.completedAt = new Date();
+      this.cancelRequested.delete(job.id);
+      this.runs.delete(job.id);
+
+      this.logger.info(`[${operationId}] Replay ${job.id} ${job.status}`, {
+        total: job.total,
+        delivered: job.delivered,
+        failed: job.failed
+      });
+    }
+  }
+
+  private async deliver(job: ReplayJob, handler: ReplayHandler, event: StoredEvent): Promise<void> {
+    try {
+      const data = this.schemaRegistry
+        ? this.schemaRegistry.upcastEvent(event)
+        : event.data;
+
+      await handler(data, event);
+      job.delivered++;
+    } catch (error) {
+      // One bad event should not stop the rest of the replay
+      job.failed++;
+      if (job.errors.length < MAX_JOB_ERRORS) {
+        job.errors.push({
+          eventId: event.id,
+          type: event.type,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      this.logger.warn(`Replay ${job.id} could not deliver event ${event.id}`, { error, type: event.type });
+    }
+  }
+
+  private copy(job: ReplayJob): ReplayJob {
+    return {
+      ...job,
+      request: { ...job.request },
+      errors: job.errors.map(e => ({ ...e })),
+      cursor: job.cursor ? { ...job.cursor } : undefined
+    };
+  }
+}
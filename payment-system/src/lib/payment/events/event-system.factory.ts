@@ -3,6 +3,10 @@ import { EventEmitter } from './event.emitter';
 import { EventStore } from './event.store';
 import { DatabaseEventStore } from './database-event.store';
 import { EventProcessor } from './event.processor';
+import { EventSchemaRegistry } from './event.registry';
+import { createEventCatalog } from './event.catalog';
+import { OutboxStore } from './outbox.store';
+import { OutboxRelay } from './outbox.relay';
 import { DatabaseConnection } from '../database/connection';
 import { getDbConnection } from '../config/database.config';
 
@@ -13,24 +17,32 @@ export interface EventSystemOptions {
   useDatabase?: boolean;
   dbConnection?: DatabaseConnection;
   startProcessor?: boolean;
+  outboxStore?: OutboxStore;
+  outboxPollInterval?: number;
+  schemaRegistry?: EventSchemaRegistry;
 }
 
 // Factory to create a complete event system
 export class EventSystemFactory {
   /**
-   * Create a complete event system with emitter, store, and processor
+   * Create a complete event system with emitter, store, and processor.
+   * Given an outbox store, a relay publishing its events is created too.
    */
   static createEventSystem(options: EventSystemOptions = {}): {
     eventEmitter: EventEmitter;
     eventStore: EventStore;
     eventProcessor: EventProcessor;
+    outboxRelay?: OutboxRelay;
   } {
     const {
       processingInterval = 5000,
       maxRetries = 3,
       useDatabase = true,
       dbConnection,
-      startProcessor = false
+      startProcessor = false,
+      outboxStore,
+      outboxPollInterval,
+      schemaRegistry = createEventCatalog()
     } = options;
 
     // Create appropriate event store
@@ -45,23 +57,31 @@ export class EventSystemFactory {
     }
 
     // Create event emitter
-    const eventEmitter = new EventEmitter(eventStore);
+    const eventEmitter = new EventEmitter(eventStore, schemaRegistry);
 
     // Create event processor
     const eventProcessor = new EventProcessor(eventStore, {
       processingInterval,
-      maxRetries
+      maxRetries,
+      schemaRegistry
     });
 
+    // Create outbox relay
+    const outboxRelay = outboxStore
+      ? new OutboxRelay(outboxStore, eventProcessor, { pollInterval: outboxPollInterval, eventEmitter })
+      : undefined;
+
     // Start processing events if requested
     if (startProcessor) {
       eventProcessor.startProcessing();
+      outboxRelay?.start();
     }
 
     return {
       eventEmitter,
       eventStore,
-      eventProcessor
+      eventProcessor,
+      outboxRelay
     };
   }
 
@@ -77,6 +97,6 @@ export class EventSystemFactory {
       eventStore = new EventStore();
     }
 
-    return new EventEmitter(eventStore);
+    return new EventEmitter(eventStore, createEventCatalog());
   }
 }
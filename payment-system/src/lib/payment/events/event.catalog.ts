@@ -0,0 +1,952 @@
+// src/lib/payment/events/event.catalog.ts
+import { z } from 'zod';
+import { EventSchemaRegistry, EventSchemaRegistryOptions } from './event.registry';
+import { TransactionStatus, TransactionType } from '../types/transaction.types';
+import { RiskLevel, CustomerStatus } from '../customer/types';
+import { DisputeStatus } from '../disputes/types';
+import { InvoiceStatus } from '../invoices/types';
+import { JournalEntryKind } from '../ledger/types';
+import { ReportType } from '../analytics/types';
+import { ComplianceCategory } from '../compliance/types';
+import { PaymentMethodType } from '../methods/types';
+import { LockLevel } from '../utils/record-locker';
+import { CircuitState } from '../providers/circuit-breaker';
+
+// Payloads hold Date objects when emitted and ISO strings once stored
+const timestampSchema = z.union([z.date(), z.string()]);
+const currencySchema = z.string().length(3);
+const subscriptionStatusSchema = z.enum(['active', 'canceled', 'expired', 'trial', 'past_due', 'paused', 'unpaid']);
+
+// Transaction events
+export const transactionCreatedV1 = z.object({
+  transactionId: z.string(),
+  type: z.nativeEnum(TransactionType),
+  amount: z.number(),
+  currency: z.string().length(3),
+  status: z.nativeEnum(TransactionStatus),
+  timestamp: timestampSchema
+});
+
+export const transactionStatusChangedV1 = z.object({
+  transactionId: z.string(),
+  oldStatus: z.nativeEnum(TransactionStatus),
+  newStatus: z.nativeEnum(TransactionStatus),
+  timestamp: timestampSchema
+});
+
+// Retry, recovery and dead letter events
+export const transactionRetryScheduledV1 = z.object({
+  transactionId: z.string(),
+  retryCount: z.number().int(),
+  delay: z.number(),
+  errorCode: z.string().optional(),
+  retryRule: z.string().optional(),
+  scheduledAt: timestampSchema,
+  nextRetryAt: timestampSchema
+});
+
+export const transactionRetryStartedV1 = z.object({
+  transactionId: z.string(),
+  retryCount: z.number().int(),
+  timestamp: timestampSchema
+});
+
+export const transactionRetryCancelledV1 = z.object({
+  transactionId: z.string(),
+  retryCount: z.number().int()
+});
+
+export const transactionCompletedAfterRetryV1 = z.object({
+  transactionId: z.string(),
+  retryCount: z.number().int(),
+  timestamp: timestampSchema
+});
+
+export const transactionFailedAfterRetryV1 = z.object({
+  transactionId: z.string(),
+  retryCount: z.number().int(),
+  errorCode: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const transactionRecoveryStartedV1 = z.object({
+  transactionId: z.string(),
+  status: z.nativeEnum(TransactionStatus),
+  errorCode: z.string().optional()
+});
+
+export const transactionRecoveryCompletedV1 = z.object({
+  transactionId: z.string(),
+  status: z.nativeEnum(TransactionStatus)
+});
+
+export const transactionReprocessingV1 = z.object({
+  transactionId: z.string(),
+  previousStatus: z.nativeEnum(TransactionStatus)
+});
+
+// Emitted by both the recovery manager and the dead letter queue, which
+// adds the status and time
+export const transactionMovedToDlqV1 = z.object({
+  transactionId: z.string(),
+  status: z.nativeEnum(TransactionStatus).optional(),
+  errorCode: z.string().optional(),
+  timestamp: timestampSchema.optional()
+});
+
+export const transactionRemovedFromDlqV1 = z.object({
+  transactionId: z.string(),
+  timestamp: timestampSchema
+});
+
+export const transactionReprocessFromDlqV1 = z.object({
+  transactionId: z.string(),
+  status: z.nativeEnum(TransactionStatus),
+  timestamp: timestampSchema
+});
+
+// Compensating transaction events
+export const transactionCompensatingRegisteredV1 = z.object({
+  transactionId: z.string(),
+  operationId: z.string(),
+  operationType: z.string(),
+  executionOrder: z.number()
+});
+
+export const transactionCompensatedV1 = z.object({
+  transactionId: z.string(),
+  operationCount: z.number().int()
+});
+
+export const transactionCompensationPartialV1 = z.object({
+  transactionId: z.string(),
+  completedOperations: z.number().int(),
+  failedOperations: z.number().int()
+});
+
+export const transactionCompensationFailedV1 = z.object({
+  transactionId: z.string(),
+  error: z.string().optional()
+});
+
+export const transactionCompensationOperationCompletedV1 = z.object({
+  operationId: z.string(),
+  transactionId: z.string(),
+  operationType: z.string()
+});
+
+export const transactionCompensationOperationFailedV1 = z.object({
+  operationId: z.string(),
+  transactionId: z.string(),
+  operationType: z.string(),
+  error: z.string().optional(),
+  retries: z.number().int()
+});
+
+// Reconciliation events
+export const transactionReconciliationCompletedV1 = z.object({
+  reconciliationId: z.string(),
+  timestamp: timestampSchema,
+  summary: z.record(z.any()),
+  metrics: z.record(z.any())
+});
+
+export const transactionReconciliationFailedV1 = z.object({
+  reconciliationId: z.string(),
+  error: z.string().optional(),
+  metrics: z.record(z.any())
+});
+
+export const transactionPayoutReconciliationCompletedV1 = z.object({
+  reconciliationId: z.string(),
+  payoutIds: z.array(z.string()),
+  timestamp: timestampSchema,
+  summary: z.record(z.any())
+});
+
+// Payment events reported by provider webhooks
+export const paymentSucceededV1 = z.object({
+  transactionId: z.string(),
+  provider: z.string(),
+  externalId: z.string(),
+  amount: z.number().optional(),
+  currency: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const paymentFailedV1 = z.object({
+  transactionId: z.string(),
+  provider: z.string(),
+  externalId: z.string(),
+  errorCode: z.string().optional(),
+  errorMessage: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const paymentDisputedV1 = z.object({
+  transactionId: z.string(),
+  disputeId: z.string(),
+  provider: z.string(),
+  externalId: z.string(),
+  amount: z.number(),
+  currency: currencySchema,
+  reason: z.string(),
+  evidenceDueBy: timestampSchema.optional(),
+  timestamp: timestampSchema
+});
+
+export const webhookProcessingErrorV1 = z.object({
+  provider: z.string(),
+  eventType: z.string().optional(),
+  error: z.string().optional(),
+  paymentIntentId: z.string().optional(),
+  disputeId: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const providerCircuitStateChangedV1 = z.object({
+  provider: z.string(),
+  previousState: z.nativeEnum(CircuitState),
+  state: z.nativeEnum(CircuitState),
+  failureRate: z.number(),
+  calls: z.number().int(),
+  retryAt: timestampSchema.optional(),
+  timestamp: timestampSchema
+});
+
+// Customer events carry the whole profile
+export const customerProfileV1 = z.object({
+  id: z.string(),
+  externalId: z.string().optional(),
+  email: z.string(),
+  name: z.string().optional(),
+  defaultCurrency: z.string().length(3),
+  defaultPaymentMethodId: z.string().optional(),
+  riskLevel: z.nativeEnum(RiskLevel),
+  metadata: z.record(z.any()),
+  preferences: z.record(z.any()),
+  limits: z.record(z.any()),
+  status: z.nativeEnum(CustomerStatus),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema
+});
+
+export const customerLimitsUpdatedV1 = z.object({
+  customerId: z.string(),
+  limits: z.object({
+    daily: z.number().optional(),
+    weekly: z.number().optional(),
+    monthly: z.number().optional(),
+    perTransaction: z.number().optional(),
+    currency: currencySchema
+  })
+});
+
+export const customerRiskLevelChangedV1 = z.object({
+  customerId: z.string(),
+  oldLevel: z.nativeEnum(RiskLevel),
+  newLevel: z.nativeEnum(RiskLevel)
+});
+
+// Payment method events carry the whole method
+export const paymentMethodV1 = z.object({
+  id: z.string(),
+  customerId: z.string(),
+  type: z.nativeEnum(PaymentMethodType),
+  provider: z.string(),
+  isDefault: z.boolean(),
+  isExpired: z.boolean(),
+  metadata: z.record(z.any()),
+  details: z.record(z.any()),
+  expiryDate: timestampSchema.optional(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema
+});
+
+// Refund events
+export const refundCreatedV1 = z.object({
+  refundId: z.string(),
+  parentTransactionId: z.string(),
+  amount: z.number(),
+  currency: z.string().length(3),
+  reason: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const refundCompletedV1 = z.object({
+  refundId: z.string(),
+  parentTransactionId: z.string(),
+  amount: z.number(),
+  currency: z.string().length(3),
+  refundedAmount: z.number(),
+  remainingAmount: z.number(),
+  providerRefundId: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const refundFailedV1 = z.object({
+  refundId: z.string(),
+  parentTransactionId: z.string(),
+  amount: z.number(),
+  errorCode: z.string().optional(),
+  errorMessage: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+// Dispute events
+export const disputeCreatedV1 = z.object({
+  disputeId: z.string(),
+  paymentTransactionId: z.string(),
+  chargebackTransactionId: z.string(),
+  amount: z.number(),
+  currency: currencySchema,
+  reason: z.string(),
+  evidenceDueBy: timestampSchema.optional(),
+  timestamp: timestampSchema
+});
+
+export const disputeUpdatedV1 = z.object({
+  disputeId: z.string(),
+  paymentTransactionId: z.string(),
+  oldStatus: z.nativeEnum(DisputeStatus),
+  newStatus: z.nativeEnum(DisputeStatus),
+  timestamp: timestampSchema
+});
+
+export const disputeEvidenceSubmittedV1 = z.object({
+  disputeId: z.string(),
+  paymentTransactionId: z.string(),
+  fields: z.array(z.string()),
+  timestamp: timestampSchema.optional()
+});
+
+export const disputeDeadlineApproachingV1 = z.object({
+  disputeId: z.string(),
+  paymentTransactionId: z.string(),
+  evidenceDueBy: timestampSchema.optional(),
+  timestamp: timestampSchema
+});
+
+export const disputeClosedV1 = z.object({
+  disputeId: z.string(),
+  paymentTransactionId: z.string(),
+  chargebackTransactionId: z.string(),
+  outcome: z.nativeEnum(DisputeStatus),
+  amount: z.number(),
+  currency: currencySchema,
+  timestamp: timestampSchema.optional()
+});
+
+// Ledger events
+export const ledgerEntryPostedV1 = z.object({
+  entryId: z.string(),
+  transactionId: z.string(),
+  kind: z.nativeEnum(JournalEntryKind),
+  currency: currencySchema,
+  amount: z.number(),
+  timestamp: timestampSchema
+});
+
+// Subscription events
+export const subscriptionPlanCreatedV1 = z.object({
+  planId: z.string(),
+  name: z.string(),
+  price: z.number(),
+  currency: currencySchema,
+  interval: z.enum(['monthly', 'yearly']),
+  timestamp: timestampSchema
+});
+
+export const subscriptionCreatedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  planId: z.string(),
+  status: subscriptionStatusSchema,
+  trialEnd: timestampSchema.optional(),
+  currentPeriodEnd: timestampSchema,
+  timestamp: timestampSchema
+});
+
+// Upgrades and downgrades that take effect immediately
+export const subscriptionPlanChangedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  fromPlanId: z.string(),
+  toPlanId: z.string(),
+  effectiveAt: timestampSchema,
+  amountCharged: z.number(),
+  creditBalance: z.number(),
+  prorationLines: z.array(z.object({
+    type: z.enum(['credit', 'debit']),
+    description: z.string(),
+    planId: z.string().optional(),
+    amount: z.number(),
+    periodStart: timestampSchema.optional(),
+    periodEnd: timestampSchema.optional()
+  })),
+  transactionId: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const subscriptionDowngradeScheduledV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  fromPlanId: z.string(),
+  toPlanId: z.string(),
+  effectiveAt: timestampSchema,
+  timestamp: timestampSchema
+});
+
+export const subscriptionCancelScheduledV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  cancelAt: timestampSchema,
+  timestamp: timestampSchema
+});
+
+export const subscriptionResumedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  timestamp: timestampSchema
+});
+
+// Paused or marked unpaid once dunning gives up
+export const subscriptionSuspendedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  planId: z.string(),
+  timestamp: timestampSchema
+});
+
+export const subscriptionRenewedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  planId: z.string(),
+  amount: z.number(),
+  creditApplied: z.number(),
+  currency: currencySchema,
+  transactionId: z.string().optional(),
+  trialEnded: z.boolean(),
+  recovered: z.boolean(),
+  currentPeriodStart: timestampSchema,
+  currentPeriodEnd: timestampSchema,
+  timestamp: timestampSchema
+});
+
+export const subscriptionPaymentFailedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  planId: z.string(),
+  amount: z.number(),
+  currency: currencySchema,
+  transactionId: z.string().optional(),
+  errorCode: z.string().optional(),
+  attempt: z.number().int(),
+  timestamp: timestampSchema
+});
+
+export const subscriptionCanceledV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  planId: z.string(),
+  canceledAt: timestampSchema,
+  timestamp: timestampSchema
+});
+
+// Dunning events
+export const dunningStartedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  errorCode: z.string().optional(),
+  nextAttemptAt: timestampSchema.optional(),
+  totalAttempts: z.number().int(),
+  timestamp: timestampSchema
+});
+
+export const dunningRetryFailedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  attempt: z.number().int(),
+  totalAttempts: z.number().int(),
+  errorCode: z.string().optional(),
+  transactionId: z.string().optional(),
+  nextAttemptAt: timestampSchema.optional(),
+  timestamp: timestampSchema
+});
+
+export const dunningRecoveredV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  attempt: z.number().int(),
+  transactionId: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const dunningExhaustedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  attempts: z.number().int(),
+  finalAction: z.enum(['cancel', 'pause', 'mark_unpaid']),
+  status: subscriptionStatusSchema,
+  errorCode: z.string().optional(),
+  timestamp: timestampSchema
+});
+
+export const dunningEndedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  attempt: z.number().int(),
+  reason: z.enum(['canceled', 'stopped']),
+  timestamp: timestampSchema
+});
+
+export const dunningCustomerNotifiedV1 = z.object({
+  subscriptionId: z.string(),
+  customerId: z.string(),
+  step: z.enum(['started', 'retry_failed', 'recovered', 'exhausted']),
+  channel: z.string(),
+  timestamp: timestampSchema
+});
+
+// Invoice events
+export const invoiceCreatedV1 = z.object({
+  invoiceId: z.string(),
+  merchantId: z.string(),
+  customerId: z.string(),
+  total: z.number(),
+  currency: currencySchema,
+  timestamp: timestampSchema
+});
+
+export const invoiceFinalizedV1 = z.object({
+  invoiceId: z.string(),
+  number: z.string().optional(),
+  merchantId: z.string(),
+  customerId: z.string(),
+  total: z.number(),
+  currency: currencySchema,
+  dueDate: timestampSchema.optional(),
+  timestamp: timestampSchema
+});
+
+export const invoicePaidV1 = z.object({
+  invoiceId: z.string(),
+  number: z.string().optional(),
+  merchantId: z.string(),
+  customerId: z.string(),
+  amount: z.number(),
+  currency: currencySchema,
+  transactionId: z.string().optional(),
+  timestamp: timestampSchema.optional()
+});
+
+export const invoicePaymentFailedV1 = z.object({
+  invoiceId: z.string(),
+  number: z.string().optional(),
+  customerId: z.string(),
+  amount: z.number(),
+  currency: currencySchema,
+  transactionId: z.string().optional(),
+  errorCode: z.string().optional(),
+  attempt: z.number().int(),
+  timestamp: timestampSchema
+});
+
+export const invoiceVoidedV1 = z.object({
+  invoiceId: z.string(),
+  number: z.string().optional(),
+  merchantId: z.string(),
+  customerId: z.string(),
+  previousStatus: z.nativeEnum(InvoiceStatus),
+  timestamp: timestampSchema
+});
+
+export const invoiceMarkedUncollectibleV1 = z.object({
+  invoiceId: z.string(),
+  number: z.string().optional(),
+  merchantId: z.string(),
+  customerId: z.string(),
+  amountDue: z.number(),
+  currency: currencySchema,
+  timestamp: timestampSchema
+});
+
+// Idempotency events
+export const idempotencyKeyCreatedV1 = z.object({
+  key: z.string(),
+  timestamp: timestampSchema,
+  path: z.string().optional()
+});
+
+export const idempotencyStaleLockResetV1 = z.object({
+  key: z.string(),
+  newLockTime: timestampSchema
+});
+
+export const idempotencyReplayDetectedV1 = z.object({
+  key: z.string(),
+  attempts: z.number().int(),
+  originalTimestamp: timestampSchema,
+  newTimestamp: timestampSchema,
+  originalPath: z.string().optional(),
+  newPath: z.string().optional()
+});
+
+export const idempotencyDuplicateRequestV1 = z.object({
+  key: z.string(),
+  status: z.enum(['in_progress', 'completed']),
+  attempts: z.number().int(),
+  resourceId: z.string().optional()
+});
+
+export const idempotencyLockReleasedV1 = z.object({
+  key: z.string(),
+  attempts: z.number().int()
+});
+
+export const idempotencyResourceAssociatedV1 = z.object({
+  key: z.string(),
+  resourceId: z.string(),
+  resourceType: z.string().optional(),
+  attempts: z.number().int(),
+  hasCachedResponse: z.boolean()
+});
+
+export const idempotencyStaleRequestDetectedV1 = z.object({
+  key: z.string(),
+  lockedSince: timestampSchema,
+  duration: z.number()
+});
+
+export const idempotencyCleanupV1 = z.object({
+  recordsRemoved: z.number().int(),
+  staleRecordsDetected: z.number().int(),
+  remainingRecords: z.number().int()
+});
+
+export const idempotencyKeyResetV1 = z.object({
+  key: z.string(),
+  timestamp: timestampSchema
+});
+
+// Record lock events; the database locker adds the fencing token
+export const lockAcquiredV1 = z.object({
+  recordId: z.string(),
+  resourceType: z.string(),
+  lockId: z.string(),
+  lockLevel: z.nativeEnum(LockLevel),
+  owner: z.string(),
+  transactionId: z.string().optional(),
+  fencingToken: z.number().optional()
+});
+
+export const lockReleasedV1 = z.object({
+  recordId: z.string(),
+  resourceType: z.string(),
+  lockId: z.string(),
+  lockLevel: z.nativeEnum(LockLevel),
+  owner: z.string(),
+  transactionId: z.string().optional()
+});
+
+export const lockTransactionReleasedV1 = z.object({
+  recordId: z.string(),
+  resourceType: z.string(),
+  lockId: z.string(),
+  lockLevel: z.nativeEnum(LockLevel),
+  transactionId: z.string()
+});
+
+export const lockUpgradedV1 = z.object({
+  recordId: z.string(),
+  resourceType: z.string(),
+  lockId: z.string(),
+  owner: z.string(),
+  transactionId: z.string().optional()
+});
+
+export const lockExpiredV1 = z.object({
+  recordId: z.string(),
+  resourceType: z.string(),
+  lockId: z.string(),
+  lockLevel: z.nativeEnum(LockLevel),
+  owner: z.string(),
+  transactionId: z.string().optional(),
+  expiresAt: timestampSchema
+});
+
+export const lockLostV1 = z.object({
+  recordId: z.string(),
+  resourceType: z.string(),
+  lockId: z.string(),
+  lockLevel: z.nativeEnum(LockLevel),
+  owner: z.string(),
+  transactionId: z.string().optional(),
+  fencingToken: z.number()
+});
+
+export const lockDeadlockDetectedV1 = z.object({
+  recordId: z.string(),
+  resourceType: z.string(),
+  requestedBy: z.string(),
+  cycle: z.array(z.string()),
+  victim: z.string()
+});
+
+// Analytics and compliance events
+export const analyticsMetricV1 = z.object({
+  id: z.string(),
+  name: z.string(),
+  value: z.number(),
+  dimension: z.string(),
+  timestamp: timestampSchema,
+  metadata: z.record(z.any()).optional()
+});
+
+export const analyticsReportGeneratedV1 = z.object({
+  id: z.string(),
+  type: z.nativeEnum(ReportType),
+  dateRange: z.object({
+    startDate: timestampSchema,
+    endDate: timestampSchema
+  }),
+  metrics: z.array(analyticsMetricV1),
+  summary: z.record(z.number()),
+  generatedAt: timestampSchema
+});
+
+export const auditActionLoggedV1 = z.object({
+  id: z.string(),
+  action: z.string(),
+  entityType: z.string(),
+  entityId: z.string(),
+  userId: z.string(),
+  timestamp: timestampSchema,
+  changes: z.record(z.any()).optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+export const complianceRuleAddedV1 = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  category: z.nativeEnum(ComplianceCategory),
+  enabled: z.boolean()
+});
+
+export const complianceValidationCompletedV1 = z.object({
+  passed: z.boolean(),
+  violations: z.array(z.object({
+    ruleId: z.string(),
+    message: z.string(),
+    data: z.any(),
+    timestamp: timestampSchema
+  }))
+});
+
+export type TransactionCreatedEvent = z.infer<typeof transactionCreatedV1>;
+export type TransactionStatusChangedEvent = z.infer<typeof transactionStatusChangedV1>;
+export type CustomerProfileEvent = z.infer<typeof customerProfileV1>;
+export type RefundCreatedEvent = z.infer<typeof refundCreatedV1>;
+export type RefundCompletedEvent = z.infer<typeof refundCompletedV1>;
+export type RefundFailedEvent = z.infer<typeof refundFailedV1>;
+
+// Latest payload of each cataloged event type
+export interface EventPayloads {
+  'transaction.created': TransactionCreatedEvent;
+  'transaction.status_changed': TransactionStatusChangedEvent;
+  'transaction.retry_scheduled': z.infer<typeof transactionRetryScheduledV1>;
+  'transaction.retry_started': z.infer<typeof transactionRetryStartedV1>;
+  'transaction.retry_cancelled': z.infer<typeof transactionRetryCancelledV1>;
+  'transaction.completed_after_retry': z.infer<typeof transactionCompletedAfterRetryV1>;
+  'transaction.failed_after_retry': z.infer<typeof transactionFailedAfterRetryV1>;
+  'transaction.recovery_started': z.infer<typeof transactionRecoveryStartedV1>;
+  'transaction.recovery_completed': z.infer<typeof transactionRecoveryCompletedV1>;
+  'transaction.reprocessing': z.infer<typeof transactionReprocessingV1>;
+  'transaction.moved_to_dlq': z.infer<typeof transactionMovedToDlqV1>;
+  'transaction.removed_from_dlq': z.infer<typeof transactionRemovedFromDlqV1>;
+  'transaction.reprocess_from_dlq': z.infer<typeof transactionReprocessFromDlqV1>;
+  'transaction.compensating_registered': z.infer<typeof transactionCompensatingRegisteredV1>;
+  'transaction.compensated': z.infer<typeof transactionCompensatedV1>;
+  'transaction.compensation_partial': z.infer<typeof transactionCompensationPartialV1>;
+  'transaction.compensation_failed': z.infer<typeof transactionCompensationFailedV1>;
+  'transaction.compensation_operation_completed': z.infer<typeof transactionCompensationOperationCompletedV1>;
+  'transaction.compensation_operation_failed': z.infer<typeof transactionCompensationOperationFailedV1>;
+  'transaction.reconciliation_completed': z.infer<typeof transactionReconciliationCompletedV1>;
+  'transaction.reconciliation_failed': z.infer<typeof transactionReconciliationFailedV1>;
+  'transaction.payout_reconciliation_completed': z.infer<typeof transactionPayoutReconciliationCompletedV1>;
+  'payment.succeeded': z.infer<typeof paymentSucceededV1>;
+  'payment.failed': z.infer<typeof paymentFailedV1>;
+  'payment.disputed': z.infer<typeof paymentDisputedV1>;
+  'webhook.processing_error': z.infer<typeof webhookProcessingErrorV1>;
+  'provider.circuit_state_changed': z.infer<typeof providerCircuitStateChangedV1>;
+  'customer.created': CustomerProfileEvent;
+  'customer.updated': CustomerProfileEvent;
+  'customer.limits_updated': z.infer<typeof customerLimitsUpdatedV1>;
+  'customer.risk_level_changed': z.infer<typeof customerRiskLevelChangedV1>;
+  'payment_method.added': z.infer<typeof paymentMethodV1>;
+  'payment_method.updated': z.infer<typeof paymentMethodV1>;
+  'payment_method.default_updated': z.infer<typeof paymentMethodV1>;
+  'payment_method.removed': z.infer<typeof paymentMethodV1>;
+  'payment_method.expired': z.infer<typeof paymentMethodV1>;
+  'refund.created': RefundCreatedEvent;
+  'refund.completed': RefundCompletedEvent;
+  'refund.failed': RefundFailedEvent;
+  'dispute.created': z.infer<typeof disputeCreatedV1>;
+  'dispute.updated': z.infer<typeof disputeUpdatedV1>;
+  'dispute.evidence_submitted': z.infer<typeof disputeEvidenceSubmittedV1>;
+  'dispute.deadline_approaching': z.infer<typeof disputeDeadlineApproachingV1>;
+  'dispute.closed': z.infer<typeof disputeClosedV1>;
+  'ledger.entry_posted': z.infer<typeof ledgerEntryPostedV1>;
+  'subscription.plan_created': z.infer<typeof subscriptionPlanCreatedV1>;
+  'subscription.created': z.infer<typeof subscriptionCreatedV1>;
+  'subscription.upgraded': z.infer<typeof subscriptionPlanChangedV1>;
+  'subscription.downgraded': z.infer<typeof subscriptionPlanChangedV1>;
+  'subscription.downgrade_scheduled': z.infer<typeof subscriptionDowngradeScheduledV1>;
+  'subscription.cancel_scheduled': z.infer<typeof subscriptionCancelScheduledV1>;
+  'subscription.resumed': z.infer<typeof subscriptionResumedV1>;
+  'subscription.paused': z.infer<typeof subscriptionSuspendedV1>;
+  'subscription.marked_unpaid': z.infer<typeof subscriptionSuspendedV1>;
+  'subscription.renewed': z.infer<typeof subscriptionRenewedV1>;
+  'subscription.payment_failed': z.infer<typeof subscriptionPaymentFailedV1>;
+  'subscription.canceled': z.infer<typeof subscriptionCanceledV1>;
+  'dunning.started': z.infer<typeof dunningStartedV1>;
+  'dunning.retry_failed': z.infer<typeof dunningRetryFailedV1>;
+  'dunning.recovered': z.infer<typeof dunningRecoveredV1>;
+  'dunning.exhausted': z.infer<typeof dunningExhaustedV1>;
+  'dunning.ended': z.infer<typeof dunningEndedV1>;
+  'dunning.customer_notified': z.infer<typeof dunningCustomerNotifiedV1>;
+  'invoice.created': z.infer<typeof invoiceCreatedV1>;
+  'invoice.finalized': z.infer<typeof invoiceFinalizedV1>;
+  'invoice.paid': z.infer<typeof invoicePaidV1>;
+  'invoice.payment_failed': z.infer<typeof invoicePaymentFailedV1>;
+  'invoice.voided': z.infer<typeof invoiceVoidedV1>;
+  'invoice.marked_uncollectible': z.infer<typeof invoiceMarkedUncollectibleV1>;
+  'idempotency.key_created': z.infer<typeof idempotencyKeyCreatedV1>;
+  'idempotency.stale_lock_reset': z.infer<typeof idempotencyStaleLockResetV1>;
+  'idempotency.replay_detected': z.infer<typeof idempotencyReplayDetectedV1>;
+  'idempotency.duplicate_request': z.infer<typeof idempotencyDuplicateRequestV1>;
+  'idempotency.lock_released': z.infer<typeof idempotencyLockReleasedV1>;
+  'idempotency.resource_associated': z.infer<typeof idempotencyResourceAssociatedV1>;
+  'idempotency.stale_request_detected': z.infer<typeof idempotencyStaleRequestDetectedV1>;
+  'idempotency.cleanup': z.infer<typeof idempotencyCleanupV1>;
+  'idempotency.key_reset': z.infer<typeof idempotencyKeyResetV1>;
+  'lock.acquired': z.infer<typeof lockAcquiredV1>;
+  'lock.released': z.infer<typeof lockReleasedV1>;
+  'lock.transaction_released': z.infer<typeof lockTransactionReleasedV1>;
+  'lock.upgraded': z.infer<typeof lockUpgradedV1>;
+  'lock.expired': z.infer<typeof lockExpiredV1>;
+  'lock.lost': z.infer<typeof lockLostV1>;
+  'lock.deadlock_detected': z.infer<typeof lockDeadlockDetectedV1>;
+  'analytics.metric_tracked': z.infer<typeof analyticsMetricV1>;
+  'analytics.report_generated': z.infer<typeof analyticsReportGeneratedV1>;
+  'audit.action_logged': z.infer<typeof auditActionLoggedV1>;
+  'compliance.rule_added': z.infer<typeof complianceRuleAddedV1>;
+  'compliance.validation_completed': z.infer<typeof complianceValidationCompletedV1>;
+}
+
+export type CatalogEventType = keyof EventPayloads;
+
+/**
+ * Create a registry holding every cataloged event schema.
+ *
+ * A breaking change to a payload gets a new version here, plus an upcaster
+ * from the previous one so events already stored can still be processed.
+ * The catalog covers every event the system emits, so it is strict unless
+ * the caller opts out: an uncataloged type is a missing schema, not a
+ * payload to pass through.
+ */
+export function createEventCatalog(options: EventSchemaRegistryOptions = {}): EventSchemaRegistry {
+  return new EventSchemaRegistry({ strict: true, ...options })
+    .register('transaction.created', 1, transactionCreatedV1)
+    .register('transaction.status_changed', 1, transactionStatusChangedV1)
+    .register('transaction.retry_scheduled', 1, transactionRetryScheduledV1)
+    .register('transaction.retry_started', 1, transactionRetryStartedV1)
+    .register('transaction.retry_cancelled', 1, transactionRetryCancelledV1)
+    .register('transaction.completed_after_retry', 1, transactionCompletedAfterRetryV1)
+    .register('transaction.failed_after_retry', 1, transactionFailedAfterRetryV1)
+    .register('transaction.recovery_started', 1, transactionRecoveryStartedV1)
+    .register('transaction.recovery_completed', 1, transactionRecoveryCompletedV1)
+    .register('transaction.reprocessing', 1, transactionReprocessingV1)
+    .register('transaction.moved_to_dlq', 1, transactionMovedToDlqV1)
+    .register('transaction.removed_from_dlq', 1, transactionRemovedFromDlqV1)
+    .register('transaction.reprocess_from_dlq', 1, transactionReprocessFromDlqV1)
+    .register('transaction.compensating_registered', 1, transactionCompensatingRegisteredV1)
+    .register('transaction.compensated', 1, transactionCompensatedV1)
+    .register('transaction.compensation_partial', 1, transactionCompensationPartialV1)
+    .register('transaction.compensation_failed', 1, transactionCompensationFailedV1)
+    .register('transaction.compensation_operation_completed', 1, transactionCompensationOperationCompletedV1)
+    .register('transaction.compensation_operation_failed', 1, transactionCompensationOperationFailedV1)
+    .register('transaction.reconciliation_completed', 1, transactionReconciliationCompletedV1)
+    .register('transaction.reconciliation_failed', 1, transactionReconciliationFailedV1)
+    .register('transaction.payout_reconciliation_completed', 1, transactionPayoutReconciliationCompletedV1)
+    .register('payment.succeeded', 1, paymentSucceededV1)
+    .register('payment.failed', 1, paymentFailedV1)
+    .register('payment.disputed', 1, paymentDisputedV1)
+    .register('webhook.processing_error', 1, webhookProcessingErrorV1)
+    .register('provider.circuit_state_changed', 1, providerCircuitStateChangedV1)
+    .register('customer.created', 1, customerProfileV1)
+    .register('customer.updated', 1, customerProfileV1)
+    .register('customer.limits_updated', 1, customerLimitsUpdatedV1)
+    .register('customer.risk_level_changed', 1, customerRiskLevelChangedV1)
+    .register('payment_method.added', 1, paymentMethodV1)
+    .register('payment_method.updated', 1, paymentMethodV1)
+    .register('payment_method.default_updated', 1, paymentMethodV1)
+    .register('payment_method.removed', 1, paymentMethodV1)
+    .register('payment_method.expired', 1, paymentMethodV1)
+    .register('refund.created', 1, refundCreatedV1)
+    .register('refund.completed', 1, refundCompletedV1)
+    .register('refund.failed', 1, refundFailedV1)
+    .register('dispute.created', 1, disputeCreatedV1)
+    .register('dispute.updated', 1, disputeUpdatedV1)
+    .register('dispute.evidence_submitted', 1, disputeEvidenceSubmittedV1)
+    .register('dispute.deadline_approaching', 1, disputeDeadlineApproachingV1)
+    .register('dispute.closed', 1, disputeClosedV1)
+    .register('ledger.entry_posted', 1, ledgerEntryPostedV1)
+    .register('subscription.plan_created', 1, subscriptionPlanCreatedV1)
+    .register('subscription.created', 1, subscriptionCreatedV1)
+    .register('subscription.upgraded', 1, subscriptionPlanChangedV1)
+    .register('subscription.downgraded', 1, subscriptionPlanChangedV1)
+    .register('subscription.downgrade_scheduled', 1, subscriptionDowngradeScheduledV1)
+    .register('subscription.cancel_scheduled', 1, subscriptionCancelScheduledV1)
+    .register('subscription.resumed', 1, subscriptionResumedV1)
+    .register('subscription.paused', 1, subscriptionSuspendedV1)
+    .register('subscription.marked_unpaid', 1, subscriptionSuspendedV1)
+    .register('subscription.renewed', 1, subscriptionRenewedV1)
+    .register('subscription.payment_failed', 1, subscriptionPaymentFailedV1)
+    .register('subscription.canceled', 1, subscriptionCanceledV1)
+    .register('dunning.started', 1, dunningStartedV1)
+    .register('dunning.retry_failed', 1, dunningRetryFailedV1)
+    .register('dunning.recovered', 1, dunningRecoveredV1)
+    .register('dunning.exhausted', 1, dunningExhaustedV1)
+    .register('dunning.ended', 1, dunningEndedV1)
+    .register('dunning.customer_notified', 1, dunningCustomerNotifiedV1)
+    .register('invoice.created', 1, invoiceCreatedV1)
+    .register('invoice.finalized', 1, invoiceFinalizedV1)
+    .register('invoice.paid', 1, invoicePaidV1)
+    .register('invoice.payment_failed', 1, invoicePaymentFailedV1)
+    .register('invoice.voided', 1, invoiceVoidedV1)
+    .register('invoice.marked_uncollectible', 1, invoiceMarkedUncollectibleV1)
+    .register('idempotency.key_created', 1, idempotencyKeyCreatedV1)
+    .register('idempotency.stale_lock_reset', 1, idempotencyStaleLockResetV1)
+    .register('idempotency.replay_detected', 1, idempotencyReplayDetectedV1)
+    .register('idempotency.duplicate_request', 1, idempotencyDuplicateRequestV1)
+    .register('idempotency.lock_released', 1, idempotencyLockReleasedV1)
+    .register('idempotency.resource_associated', 1, idempotencyResourceAssociatedV1)
+    .register('idempotency.stale_request_detected', 1, idempotencyStaleRequestDetectedV1)
+    .register('idempotency.cleanup', 1, idempotencyCleanupV1)
+    .register('idempotency.key_reset', 1, idempotencyKeyResetV1)
+    .register('lock.acquired', 1, lockAcquiredV1)
+    .register('lock.released', 1, lockReleasedV1)
+    .register('lock.transaction_released', 1, lockTransactionReleasedV1)
+    .register('lock.upgraded', 1, lockUpgradedV1)
+    .register('lock.expired', 1, lockExpiredV1)
+    .register('lock.lost', 1, lockLostV1)
+    .register('lock.deadlock_detected', 1, lockDeadlockDetectedV1)
+    .register('analytics.metric_tracked', 1, analyticsMetricV1)
+    .register('analytics.report_generated', 1, analyticsReportGeneratedV1)
+    .register('audit.action_logged', 1, auditActionLoggedV1)
+    .register('compliance.rule_added', 1, complianceRuleAddedV1)
+    .register('compliance.validation_completed', 1, complianceValidationCompletedV1);
+}
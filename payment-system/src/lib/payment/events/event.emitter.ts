@@ -1,22 +1,27 @@
 // src/lib/payment/events/event.emitter.ts
 import { EventEmitter as NodeEventEmitter } from 'events';
 import { EventStore, StoredEvent } from './event.store';
+import { EventSchemaRegistry } from './event.registry';
 import { PaymentLogger } from '../utils/logger';
 import { errorHandler, ErrorCode } from '../utils/error';
 
 export type EventData = Record<string, any>;
 export type EventHandler = (data: EventData) => Promise<void>;
+// Listeners on '*' are told the event name as well
+export type WildcardEventHandler = (event: string, data: EventData) => Promise<void>;
 export type EventFilter = (event: string, data: EventData) => boolean;
 
 export class EventEmitter extends NodeEventEmitter {
   private eventStore: EventStore;
+  private schemaRegistry?: EventSchemaRegistry;
   private logger: PaymentLogger;
   private filters: Map<string, EventFilter[]> = new Map();
   private maxRetries: number = 3;
 
-  constructor(eventStore: EventStore) {
+  constructor(eventStore: EventStore, schemaRegistry?: EventSchemaRegistry) {
     super();
     this.eventStore = eventStore;
+    this.schemaRegistry = schemaRegistry;
     this.logger = new PaymentLogger('info', 'EventEmitter');
     
     // Increase max listeners to avoid warnings
@@ -32,6 +37,12 @@ export class EventEmitter extends NodeEventEmitter {
       );
     }
 
+    // A payload that breaks its schema is a bug in the emitting code, so it
+    // is thrown back rather than stored for consumers to trip over
+    const schemaVersion = this.schemaRegistry
+      ? this.schemaRegistry.validate(event, data).schemaVersion
+      : undefined;
+
     const timestamp = new Date();
     const operationId = this.generateOperationId();
     
@@ -54,7 +65,8 @@ export class EventEmitter extends NodeEventEmitter {
         _meta: {
           event,
           timestamp,
-          operationId
+          operationId,
+          ...(schemaVersion !== undefined && { schemaVersion })
         }
       };
       
@@ -63,7 +75,8 @@ export class EventEmitter extends NodeEventEmitter {
         type: event,
         data: eventWithMeta,
         timestamp,
-        processed: false
+        processed: false,
+        schemaVersion
       });
       
       // Emit to synchronous listeners
@@ -112,8 +125,11 @@ export class EventEmitter extends NodeEventEmitter {
       // Reset processed flag
       await this.eventStore.resetProcessedFlag(eventId);
       
-      // Re-emit the event
-      const emitted = super.emit(event.type, event.data);
+      // Re-emit the event in its current shape
+      const data = this.schemaRegistry
+        ? this.schemaRegistry.upcastEvent(event)
+        : event.data;
+      const emitted = super.emit(event.type, data);
       if (!emitted) {
         this.logger.warn(`No listeners for replayed event: ${event.type}`, { eventId });
       }
@@ -125,10 +141,25 @@ export class EventEmitter extends NodeEventEmitter {
     }
   }
 
-  on(event: string, listener: EventHandler): this {
-    super.on(event, async (data) => {
+  /**
+   * Hand an event that was stored somewhere else, such as the outbox, to
+   * the listeners. It has already been validated, so it is neither checked
+   * nor stored again.
+   * @returns Whether any listener received it
+   */
+  notify(event: string, data: EventData): boolean {
+    if (!this.applyFilters(event, data)) {
+      return false;
+    }
+
+    const emitted = super.emit(event, data);
+    return super.emit('*', event, data) || emitted;
+  }
+
+  on(event: string, listener: EventHandler | WildcardEventHandler): this {
+    super.on(event, async (...args: any[]) => {
       try {
-        await listener(data);
+        await (listener as (...args: any[]) => Promise<void>)(...args);
       } catch (error) {
         this.logger.error(`Error in event listener for ${event}`, { error });
         // In a real system, you might want to add retry logic here
@@ -1,5 +1,6 @@
 // src/lib/payment/events/event.processor.ts
 import { EventStore, StoredEvent } from './event.store';
+import { EventSchemaRegistry } from './event.registry';
 import { PaymentLogger } from '../utils/logger';
 import { errorHandler, ErrorCode } from '../utils/error';
 
@@ -10,17 +11,20 @@ export class EventProcessor {
   private maxRetries: number = 3;
   private isProcessing: boolean = false;
   private timer: NodeJS.Timeout | null = null;
+  private schemaRegistry?: EventSchemaRegistry;
 
   constructor(
     private eventStore: EventStore,
     options: {
       processingInterval?: number;
       maxRetries?: number;
+      schemaRegistry?: EventSchemaRegistry;
     } = {}
   ) {
     this.logger = new PaymentLogger('info', 'EventProcessor');
     this.processingInterval = options.processingInterval || this.processingInterval;
     this.maxRetries = options.maxRetries || this.maxRetries;
+    this.schemaRegistry = options.schemaRegistry;
   }
 
   registerHandler(
@@ -65,6 +69,29 @@ export class EventProcessor {
     }
   }
 
+  /**
+   * Run the handler for an event that was not read from the event store,
+   * such as one relayed from the outbox. Failures are thrown so the caller
+   * can keep its own retry bookkeeping.
+   * @returns The payload as handed to the handler, upcast to its latest version
+   */
+  async publish(event: StoredEvent): Promise<Record<string, any>> {
+    const data = this.schemaRegistry
+      ? this.schemaRegistry.upcastEvent(event)
+      : event.data;
+
+    const handler = this.handlers.get(event.type);
+    if (!handler) {
+      this.logger.debug(`No handler for published event type: ${event.type}`, {
+        eventId: event.id
+      });
+      return data;
+    }
+
+    await handler(data);
+    return data;
+  }
+
   startProcessing(): void {
     if (this.timer) {
       this.stopProcessing();
@@ -104,8 +131,13 @@ export class EventProcessor {
         eventId: event.id 
       });
       
+      // Stored events may predate the current schema of their type
+      const data = this.schemaRegistry
+        ? this.schemaRegistry.upcastEvent(event)
+        : event.data;
+      
       // Execute handler
-      await handler(event.data);
+      await handler(data);
       
       // Mark as processed
       await this.eventStore.markAsProcessed(event.id);
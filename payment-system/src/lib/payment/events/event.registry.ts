@@ -0,0 +1,167 @@
+// src/lib/payment/events/event.registry.ts
+import { ZodTypeAny } from 'zod';
+import { StoredEvent } from './event.store';
+import { errorHandler, ErrorCode } from '../utils/error';
+
+export type EventUpcaster = (data: Record<string, any>) => Record<string, any>;
+
+export interface VersionedEventData {
+  data: Record<string, any>;
+  schemaVersion?: number;
+}
+
+export interface EventSchemaRegistryOptions {
+  // Reject event types that have no schema instead of passing them through.
+  // Off by default because a bare registry starts empty; createEventCatalog
+  // turns it on once every emitted type is registered.
+  strict?: boolean;
+}
+
+/**
+ * Schemas for event payloads, by event type and version.
+ *
+ * New events are checked against the latest version of their type. Stored
+ * events written under an older version are brought up to date by running
+ * the upcaster registered for each version step in turn.
+ */
+export class EventSchemaRegistry {
+  private schemas: Map<string, Map<number, ZodTypeAny>> = new Map();
+  private upcasters: Map<string, Map<number, EventUpcaster>> = new Map();
+  private strict: boolean;
+
+  constructor(options: EventSchemaRegistryOptions = {}) {
+    this.strict = options.strict || false;
+  }
+
+  register(type: string, version: number, schema: ZodTypeAny): this {
+    if (!Number.isInteger(version) || version < 1) {
+      throw errorHandler.createError(
+        `Invalid schema version ${version} for event ${type}`,
+        ErrorCode.CONFIGURATION_ERROR,
+        { eventType: type, version }
+      );
+    }
+
+    if (!this.schemas.has(type)) {
+      this.schemas.set(type, new Map());
+    }
+    this.schemas.get(type)!.set(version, schema);
+
+    return this;
+  }
+
+  /**
+   * Register the function that turns a payload of `fromVersion` into one of
+   * `fromVersion + 1`
+   */
+  registerUpcaster(type: string, fromVersion: number, upcaster: EventUpcaster): this {
+    if (!this.upcasters.has(type)) {
+      this.upcasters.set(type, new Map());
+    }
+    this.upcasters.get(type)!.set(fromVersion, upcaster);
+
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.schemas.has(type);
+  }
+
+  getEventTypes(): string[] {
+    return Array.from(this.schemas.keys()).sort();
+  }
+
+  getLatestVersion(type: string): number | undefined {
+    const versions = this.schemas.get(type);
+    return versions ? Math.max(...Array.from(versions.keys())) : undefined;
+  }
+
+  /**
+   * Check a new payload against the latest schema for its type
+   * @returns The payload with the version it was checked against
+   */
+  validate(type: string, data: Record<string, any>): VersionedEventData {
+    const schemaVersion = this.getLatestVersion(type);
+
+    if (schemaVersion === undefined) {
+      if (this.strict) {
+        throw errorHandler.createError(
+          `No schema registered for event ${type}`,
+          ErrorCode.VALIDATION_ERROR,
+          { eventType: type }
+        );
+      }
+
+      return { data };
+    }
+
+    this.check(type, schemaVersion, data);
+
+    return { data, schemaVersion };
+  }
+
+  /**
+   * Bring a stored payload up to the latest version of its type. Events
+   * saved before versions were recorded are taken to be version 1.
+   */
+  upcast(type: string, schemaVersion: number | undefined, data: Record<string, any>): VersionedEventData {
+    const latestVersion = this.getLatestVersion(type);
+    if (latestVersion === undefined) {
+      return { data, schemaVersion };
+    }
+
+    let version = schemaVersion || 1;
+    if (version > latestVersion) {
+      throw errorHandler.createError(
+        `Event ${type} has schema version ${version}, newer than the latest known version ${latestVersion}`,
+        ErrorCode.VALIDATION_ERROR,
+        { eventType: type, schemaVersion: version, latestVersion }
+      );
+    }
+
+    let upcasted = data;
+    while (version < latestVersion) {
+      const upcaster = this.upcasters.get(type)?.get(version);
+      if (!upcaster) {
+        throw errorHandler.createError(
+          `No upcaster for event ${type} from schema version ${version}`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { eventType: type, schemaVersion: version }
+        );
+      }
+
+      upcasted = upcaster(upcasted);
+      version++;
+    }
+
+    this.check(type, version, upcasted);
+
+    return { data: upcasted, schemaVersion: version };
+  }
+
+  /**
+   * Upcast the payload of a stored event, keeping the version in its
+   * `_meta` in step
+   */
+  upcastEvent(event: StoredEvent): Record<string, any> {
+    const { data, schemaVersion } = this.upcast(event.type, event.schemaVersion, event.data);
+
+    if (schemaVersion === event.schemaVersion || !data._meta) {
+      return data;
+    }
+
+    return { ...data, _meta: { ...data._meta, schemaVersion } };
+  }
+
+  private check(type: string, version: number, data: Record<string, any>): void {
+    const result = this.schemas.get(type)!.get(version)!.safeParse(data);
+
+    if (!result.success) {
+      throw errorHandler.createError(
+        `Invalid payload for event ${type} (schema version ${version})`,
+        ErrorCode.VALIDATION_ERROR,
+        { eventType: type, schemaVersion: version, issues: result.error.issues }
+      );
+    }
+  }
+}
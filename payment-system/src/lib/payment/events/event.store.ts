@@ -11,6 +11,20 @@ export interface StoredEvent {
   error?: string;
   retryCount?: number;
   nextRetryAt?: Date;
+  schemaVersion?: number;
+}
+
+// Events of the given types stored in [from, to)
+export interface EventQuery {
+  types?: string[];
+  from: Date;
+  to: Date;
+}
+
+// Position after which the next page of a query starts
+export interface EventCursor {
+  timestamp: Date;
+  id: string;
 }
 
 export class EventStore {
@@ -125,6 +139,18 @@ export class EventStore {
     return this.events.filter(event => event.processed && event.error);
   }
 
+  async findEvents(query: EventQuery, limit: number, after?: EventCursor): Promise<StoredEvent[]> {
+    return this.events
+      .filter(event => this.matchesQuery(event, query))
+      .sort((a, b) => this.compareEvents(a, b))
+      .filter(event => !after || this.compareEvents(event, after) > 0)
+      .slice(0, limit);
+  }
+
+  async countEvents(query: EventQuery): Promise<number> {
+    return this.events.filter(event => this.matchesQuery(event, query)).length;
+  }
+
   async pruneProcessedEvents(olderThan: Date): Promise<number> {
     const initialCount = this.events.length;
     
@@ -141,6 +167,21 @@ export class EventStore {
     return prunedCount;
   }
 
+  private matchesQuery(event: StoredEvent, query: EventQuery): boolean {
+    return event.timestamp >= query.from &&
+      event.timestamp < query.to &&
+      (!query.types || query.types.length === 0 || query.types.includes(event.type));
+  }
+
+  // Same order as ORDER BY timestamp, id
+  private compareEvents(a: EventCursor, b: EventCursor): number {
+    const byTime = a.timestamp.getTime() - b.timestamp.getTime();
+    if (byTime !== 0) {
+      return byTime;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substring(2, 15) + 
            Math.random().toString(36).substring(2, 15);
@@ -0,0 +1,162 @@
+// src/lib/payment/events/outbox.relay.ts
+import { v4 as uuidv4 } from 'uuid';
+import { OutboxStore, OutboxEvent } from './outbox.store';
+import { EventProcessor } from './event.processor';
+import { EventEmitter } from './event.emitter';
+import { PaymentLogger } from '../utils/logger';
+
+export interface OutboxRelayOptions {
+  pollInterval?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  leaseMs?: number;
+  retryDelayMs?: number;
+  // Listeners registered here, such as WebhookManager's, also receive each
+  // event once its processor handler has run
+  eventEmitter?: EventEmitter;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+/**
+ * Publishes events written to the outbox through the EventProcessor and
+ * then to the listeners of the EventEmitter, if one is given.
+ *
+ * An event is only marked published after its handler has finished, so a
+ * crash in between delivers it again: delivery is at least once. Handlers
+ * receive the outbox event id in `_meta.eventId` and should use it to
+ * ignore events they have already seen.
+ */
+export class OutboxRelay {
+  private logger: PaymentLogger;
+  private pollInterval: number;
+  private batchSize: number;
+  private maxAttempts: number;
+  private leaseMs: number;
+  private retryDelayMs: number;
+  private eventEmitter?: EventEmitter;
+  private isRelaying: boolean = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private outboxStore: OutboxStore,
+    private eventProcessor: EventProcessor,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'OutboxRelay');
+    this.pollInterval = options.pollInterval || 1000;
+    this.batchSize = options.batchSize || 100;
+    this.maxAttempts = options.maxAttempts || 10;
+    this.leaseMs = options.leaseMs || 30000;
+    this.retryDelayMs = options.retryDelayMs || 1000;
+    this.eventEmitter = options.eventEmitter;
+  }
+
+  /**
+   * Publish one batch of due events
+   * @returns Number of events published
+   */
+  async relayPending(): Promise<number> {
+    if (this.isRelaying) {
+      return 0;
+    }
+
+    this.isRelaying = true;
+    const operationId = uuidv4().slice(0, 8);
+    let published = 0;
+
+    try {
+      const events = await this.outboxStore.claimBatch(this.batchSize, this.leaseMs);
+      if (events.length === 0) {
+        return 0;
+      }
+
+      this.logger.debug(`[${operationId}] Relaying ${events.length} outbox events`);
+
+      for (const event of events) {
+        if (await this.relayEvent(event, operationId)) {
+          published++;
+        }
+      }
+
+      return published;
+    } catch (error) {
+      this.logger.error(`[${operationId}] Error relaying outbox events`, { error });
+      return published;
+    } finally {
+      this.isRelaying = false;
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      this.stop();
+    }
+
+    this.logger.info(`Starting outbox relay with interval: ${this.pollInterval}ms`);
+
+    this.timer = setInterval(() => {
+      this.relayPending().catch(error => {
+        this.logger.error('Error in outbox relay interval', { error });
+      });
+    }, this.pollInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.info('Stopped outbox relay');
+    }
+  }
+
+  private async relayEvent(event: OutboxEvent, operationId: string): Promise<boolean> {
+    try {
+      const data = await this.eventProcessor.publish({
+        id: event.id,
+        type: event.type,
+        data: {
+          ...event.data,
+          _meta: {
+            event: event.type,
+            eventId: event.id,
+            aggregateType: event.aggregateType,
+            aggregateId: event.aggregateId,
+            timestamp: event.createdAt,
+            attempt: event.attempts,
+            ...(event.schemaVersion !== undefined && { schemaVersion: event.schemaVersion })
+          }
+        },
+        timestamp: event.createdAt,
+        schemaVersion: event.schemaVersion
+      });
+
+      // Listeners are not awaited, so only a failed handler retries the event
+      this.eventEmitter?.notify(event.type, data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (event.attempts >= this.maxAttempts) {
+        await this.outboxStore.markAsFailed(event.id, message);
+        this.logger.warn(`[${operationId}] Outbox event failed after ${event.attempts} attempts`, {
+          eventId: event.id,
+          type: event.type
+        });
+      } else {
+        const delay = this.retryDelayMs * Math.pow(2, event.attempts - 1);
+        await this.outboxStore.markForRetry(event.id, message, new Date(Date.now() + delay));
+        this.logger.info(`[${operationId}] Outbox event will be retried`, {
+          eventId: event.id,
+          attempts: event.attempts,
+          delay
+        });
+      }
+
+      return false;
+    }
+
+    // A failure here leaves the event to be delivered again once the lease
+    // runs out, which is what at-least-once allows
+    await this.outboxStore.markPublished(event.id);
+    return true;
+  }
+}
@@ -0,0 +1,178 @@
+// src/lib/payment/events/outbox.store.ts
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction, TransactionStatusChange } from '../types/transaction.types';
+import { TransactionStore } from '../transaction/store/transaction.store';
+import { EventSchemaRegistry } from './event.registry';
+
+export interface OutboxEvent {
+  id: string;
+  type: string;
+  data: any;
+  aggregateType?: string;
+  aggregateId?: string;
+  // Version of the payload schema the data was checked against
+  schemaVersion?: number;
+  createdAt: Date;
+  publishedAt?: Date;
+  failedAt?: Date;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+}
+
+export interface OutboxStats {
+  pending: number;
+  published: number;
+  failed: number;
+  oldestPending: Date | null;
+}
+
+/**
+ * Build an outbox event. The id is fixed here and travels with every
+ * delivery, so consumers can use it to drop duplicates. Given a schema
+ * registry, the payload is checked the same way EventEmitter checks the
+ * events it stores, and the version it matched is kept with it.
+ */
+export function createOutboxEvent(
+  type: string,
+  data: any,
+  aggregate?: { type: string; id: string },
+  schemaRegistry?: EventSchemaRegistry
+): OutboxEvent {
+  const schemaVersion = schemaRegistry
+    ? schemaRegistry.validate(type, data).schemaVersion
+    : undefined;
+
+  return {
+    id: uuidv4(),
+    type,
+    data,
+    aggregateType: aggregate?.type,
+    aggregateId: aggregate?.id,
+    schemaVersion,
+    createdAt: new Date(),
+    attempts: 0
+  };
+}
+
+export abstract class OutboxStore {
+  /**
+   * Save a transaction together with the events its change raised. Both
+   * are committed or neither is, so an event is never published for a
+   * change that was rolled back and never lost for one that was kept. The
+   * status change that produced the events is written with them.
+   */
+  abstract commit(
+    transaction: Transaction,
+    events: OutboxEvent[],
+    statusChange?: TransactionStatusChange
+  ): Promise<void>;
+  abstract append(events: OutboxEvent[]): Promise<void>;
+
+  /**
+   * Take up to `limit` events that are due for publishing and count the
+   * attempt. Claimed events stay hidden from other relays for `leaseMs`;
+   * if the relay dies before marking them they become due again.
+   */
+  abstract claimBatch(limit: number, leaseMs: number): Promise<OutboxEvent[]>;
+  abstract markPublished(id: string): Promise<void>;
+  abstract markForRetry(id: string, error: string, nextAttemptAt: Date): Promise<void>;
+  abstract markAsFailed(id: string, error: string): Promise<void>;
+  abstract prunePublished(publishedBefore: Date): Promise<number>;
+  abstract getStats(): Promise<OutboxStats>;
+}
+
+export class InMemoryOutboxStore extends OutboxStore {
+  private events: Map<string, OutboxEvent> = new Map();
+
+  // As with the in-memory ledger there is nothing to roll back when both
+  // writes happen without anything running in between
+  constructor(private transactionStore: TransactionStore) {
+    super();
+  }
+
+  async commit(
+    transaction: Transaction,
+    events: OutboxEvent[],
+    statusChange?: TransactionStatusChange
+  ): Promise<void> {
+    if (statusChange) {
+      await this.transactionStore.saveWithStatusChange(transaction, statusChange);
+    } else {
+      await this.transactionStore.save(transaction);
+    }
+    await this.append(events);
+  }
+
+  async append(events: OutboxEvent[]): Promise<void> {
+    for (const event of events) {
+      this.events.set(event.id, { ...event });
+    }
+  }
+
+  async claimBatch(limit: number, leaseMs: number): Promise<OutboxEvent[]> {
+    const now = new Date();
+
+    const due = Array.from(this.events.values())
+      .filter(e => !e.publishedAt && !e.failedAt && (!e.nextAttemptAt || e.nextAttemptAt <= now))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+
+    return due.map(event => {
+      event.attempts += 1;
+      event.nextAttemptAt = new Date(now.getTime() + leaseMs);
+      return { ...event };
+    });
+  }
+
+  async markPublished(id: string): Promise<void> {
+    const event = this.events.get(id);
+    if (event) {
+      event.publishedAt = new Date();
+      event.lastError = undefined;
+    }
+  }
+
+  async markForRetry(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+    const event = this.events.get(id);
+    if (event) {
+      event.lastError = error;
+      event.nextAttemptAt = nextAttemptAt;
+    }
+  }
+
+  async markAsFailed(id: string, error: string): Promise<void> {
+    const event = this.events.get(id);
+    if (event) {
+      event.failedAt = new Date();
+      event.lastError = error;
+    }
+  }
+
+  async prunePublished(publishedBefore: Date): Promise<number> {
+    let pruned = 0;
+
+    for (const [id, event] of Array.from(this.events.entries())) {
+      if (event.publishedAt && event.publishedAt < publishedBefore) {
+        this.events.delete(id);
+        pruned++;
+      }
+    }
+
+    return pruned;
+  }
+
+  async getStats(): Promise<OutboxStats> {
+    const events = Array.from(this.events.values());
+    const pending = events.filter(e => !e.publishedAt && !e.failedAt);
+
+    return {
+      pending: pending.length,
+      published: events.filter(e => e.publishedAt).length,
+      failed: events.filter(e => e.failedAt).length,
+      oldestPending: pending.length > 0
+        ? new Date(Math.min(...pending.map(e => e.createdAt.getTime())))
+        : null
+    };
+  }
+}
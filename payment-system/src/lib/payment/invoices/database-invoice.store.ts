@@ -0,0 +1,266 @@
+// src/lib/payment/invoices/database-invoice.store.ts
+import { Pool, PoolClient } from 'pg';
+import { Invoice, InvoiceStatus } from './types';
+import { InvoiceStore, InvoiceQuery } from './invoice.store';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export class DatabaseInvoiceStore extends InvoiceStore {
+  private logger: PaymentLogger;
+
+  constructor(private dbPool: Pool) {
+    super();
+    this.logger = new PaymentLogger('info', 'DatabaseInvoiceStore');
+  }
+
+  async save(invoice: Invoice): Promise<void> {
+    try {
+      await this.upsert(this.dbPool, invoice);
+    } catch (error) {
+      this.logger.error('Failed to save invoice', { error, invoiceId: invoice.id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save invoice',
+        ErrorCode.DATABASE_ERROR,
+        { invoiceId: invoice.id }
+      );
+    }
+  }
+
+  async get(id: string): Promise<Invoice | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM invoices WHERE id = $1',
+        [id]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToInvoice(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('Failed to get invoice', { error, id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get invoice',
+        ErrorCode.DATABASE_ERROR,
+        { invoiceId: id }
+      );
+    }
+  }
+
+  async list(options: InvoiceQuery = {}): Promise<Invoice[]> {
+    try {
+      let query = 'SELECT * FROM invoices WHERE 1=1';
+      const params: any[] = [];
+      let paramIndex = 1;
+
+      if (options.merchantId) {
+        query += ` AND merchant_id = $${paramIndex++}`;
+        params.push(options.merchantId);
+      }
+
+      if (options.customerId) {
+        query += ` AND customer_id = $${paramIndex++}`;
+        params.push(options.customerId);
+      }
+
+      if (options.status) {
+        query += ` AND status = $${paramIndex++}`;
+        params.push(options.status);
+      }
+
+      query += ' ORDER BY created_at DESC';
+
+      if (options.limit) {
+        query += ` LIMIT $${paramIndex++}`;
+        params.push(options.limit);
+      }
+
+      if (options.offset) {
+        query += ` OFFSET $${paramIndex++}`;
+        params.push(options.offset);
+      }
+
+      const result = await this.dbPool.query(query, params);
+      return result.rows.map(row => this.mapRowToInvoice(row));
+    } catch (error) {
+      this.logger.error('Failed to list invoices', { error, options });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to list invoices',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async saveWithNextNumber(
+    invoice: Invoice,
+    formatNumber: (sequenceNumber: number) => string
+  ): Promise<Invoice> {
+    const client = await this.dbPool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // The upsert locks the merchant's counter row until commit, so concurrent
+      // finalizations queue up instead of racing for the same number. A
+      // rollback also rolls back the increment, unlike a Postgres SEQUENCE.
+      const result = await client.query(
+        `INSERT INTO invoice_number_sequences (merchant_id, last_number)
+         VALUES ($1, 1)
+         ON CONFLICT (merchant_id) DO UPDATE
+           SET last_number = invoice_number_sequences.last_number + 1
+         RETURNING last_number`,
+        [invoice.merchantId]
+      );
+
+      const sequenceNumber = parseInt(result.rows[0].last_number);
+      const numbered: Invoice = {
+        ...invoice,
+        sequenceNumber,
+        number: formatNumber(sequenceNumber)
+      };
+
+      await this.upsert(client, numbered);
+      await client.query('COMMIT');
+
+      return numbered;
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      this.logger.error('Failed to number invoice', {
+        error,
+        invoiceId: invoice.id,
+        merchantId: invoice.merchantId
+      });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to number invoice',
+        ErrorCode.DATABASE_ERROR,
+        { invoiceId: invoice.id, merchantId: invoice.merchantId }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  private async upsert(executor: Pool | PoolClient, invoice: Invoice): Promise<void> {
+    const query = `
+      INSERT INTO invoices (
+        id, merchant_id, number, sequence_number, status, customer_id,
+        customer_email, customer_name, currency, line_items, discounts,
+        tax_rates, tax_lines, subtotal, discount_total, tax_total, total,
+        amount_paid, amount_due, payment_method_id, payment_transaction_id,
+        payment_attempts, last_payment_error, due_date, memo, metadata,
+        created_at, updated_at, finalized_at, paid_at, voided_at,
+        marked_uncollectible_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
+        $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30,
+        $31, $32
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        number = $3,
+        sequence_number = $4,
+        status = $5,
+        customer_email = $7,
+        customer_name = $8,
+        line_items = $10,
+        discounts = $11,
+        tax_rates = $12,
+        tax_lines = $13,
+        subtotal = $14,
+        discount_total = $15,
+        tax_total = $16,
+        total = $17,
+        amount_paid = $18,
+        amount_due = $19,
+        payment_method_id = $20,
+        payment_transaction_id = $21,
+        payment_attempts = $22,
+        last_payment_error = $23,
+        due_date = $24,
+        memo = $25,
+        metadata = $26,
+        updated_at = $28,
+        finalized_at = $29,
+        paid_at = $30,
+        voided_at = $31,
+        marked_uncollectible_at = $32
+    `;
+
+    await executor.query(query, [
+      invoice.id,
+      invoice.merchantId,
+      invoice.number || null,
+      invoice.sequenceNumber || null,
+      invoice.status,
+      invoice.customerId,
+      invoice.customerEmail,
+      invoice.customerName || null,
+      invoice.currency,
+      JSON.stringify(invoice.lineItems),
+      JSON.stringify(invoice.discounts),
+      JSON.stringify(invoice.taxRates),
+      JSON.stringify(invoice.taxLines),
+      invoice.subtotal,
+      invoice.discountTotal,
+      invoice.taxTotal,
+      invoice.total,
+      invoice.amountPaid,
+      invoice.amountDue,
+      invoice.paymentMethodId || null,
+      invoice.paymentTransactionId || null,
+      invoice.paymentAttempts,
+      invoice.lastPaymentError || null,
+      invoice.dueDate || null,
+      invoice.memo || null,
+      invoice.metadata ? JSON.stringify(invoice.metadata) : null,
+      invoice.createdAt,
+      invoice.updatedAt,
+      invoice.finalizedAt || null,
+      invoice.paidAt || null,
+      invoice.voidedAt || null,
+      invoice.markedUncollectibleAt || null
+    ]);
+  }
+
+  private mapRowToInvoice(row: any): Invoice {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      number: row.number || undefined,
+      sequenceNumber: row.sequence_number !== null ? parseInt(row.sequence_number) : undefined,
+      status: row.status as InvoiceStatus,
+      customerId: row.customer_id,
+      customerEmail: row.customer_email,
+      customerName: row.customer_name || undefined,
+      currency: row.currency,
+      lineItems: row.line_items || [],
+      discounts: row.discounts || [],
+      taxRates: row.tax_rates || [],
+      taxLines: row.tax_lines || [],
+      subtotal: parseFloat(row.subtotal),
+      discountTotal: parseFloat(row.discount_total),
+      taxTotal: parseFloat(row.tax_total),
+      total: parseFloat(row.total),
+      amountPaid: parseFloat(row.amount_paid),
+      amountDue: parseFloat(row.amount_due),
+      paymentMethodId: row.payment_method_id || undefined,
+      paymentTransactionId: row.payment_transaction_id || undefined,
+      paymentAttempts: row.payment_attempts,
+      lastPaymentError: row.last_payment_error || undefined,
+      dueDate: row.due_date || undefined,
+      memo: row.memo || undefined,
+      metadata: row.metadata || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      finalizedAt: row.finalized_at || undefined,
+      paidAt: row.paid_at || undefined,
+      voidedAt: row.voided_at || undefined,
+      markedUncollectibleAt: row.marked_uncollectible_at || undefined
+    };
+  }
+}
@@ -0,0 +1,73 @@
+// src/lib/payment/invoices/invoice-calculator.ts
+
+import {
+  InvoiceDiscount,
+  InvoiceLineItem,
+  InvoiceTaxLine,
+  InvoiceTaxRate,
+  InvoiceTotals
+} from './types';
+import { CurrencyManager } from '../currency/currency.manager';
+
+export interface InvoiceCalculationInput {
+  currency: string;
+  lineItems: Omit<InvoiceLineItem, 'amount'>[];
+  discounts: Omit<InvoiceDiscount, 'amount'>[];
+  taxRates: InvoiceTaxRate[];
+}
+
+/**
+ * Works out invoice totals. Discounts are taken off the subtotal in the order
+ * given and can never take it below zero; each tax rate is then applied to
+ * the discounted subtotal. Every amount is rounded to the currency's minor unit.
+ */
+export class InvoiceCalculator {
+  constructor(private currencyManager: CurrencyManager) {}
+
+  calculate(input: InvoiceCalculationInput): InvoiceTotals {
+    const { currency } = input;
+
+    const lineItems: InvoiceLineItem[] = input.lineItems.map(item => ({
+      ...item,
+      amount: this.round(item.quantity * item.unitAmount, currency)
+    }));
+    const subtotal = this.round(this.sum(lineItems.map(item => item.amount)), currency);
+
+    let remaining = subtotal;
+    const discounts: InvoiceDiscount[] = input.discounts.map(discount => {
+      const requested = discount.type === 'percentage'
+        ? this.round(subtotal * discount.value / 100, currency)
+        : this.round(discount.value, currency);
+      const amount = Math.min(requested, remaining);
+
+      remaining = this.round(remaining - amount, currency);
+      return { ...discount, amount };
+    });
+    const discountTotal = this.round(subtotal - remaining, currency);
+
+    const taxLines: InvoiceTaxLine[] = input.taxRates.map(taxRate => ({
+      ...taxRate,
+      taxableAmount: remaining,
+      amount: this.round(remaining * taxRate.rate / 100, currency)
+    }));
+    const taxTotal = this.round(this.sum(taxLines.map(line => line.amount)), currency);
+
+    return {
+      lineItems,
+      discounts,
+      taxLines,
+      subtotal,
+      discountTotal,
+      taxTotal,
+      total: this.round(remaining + taxTotal, currency)
+    };
+  }
+
+  private sum(amounts: number[]): number {
+    return amounts.reduce((total, amount) => total + amount, 0);
+  }
+
+  private round(amount: number, currency: string): number {
+    return this.currencyManager.roundAmount(amount, currency);
+  }
+}
@@ -0,0 +1,570 @@
+// src/lib/payment/invoices/invoice.manager.ts
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Invoice,
+  InvoiceDiscount,
+  InvoiceLineItem,
+  InvoiceStatus,
+  InvoiceTaxRate
+} from './types';
+import { InvoiceStore, InvoiceQuery } from './invoice.store';
+import { InvoiceCalculator } from './invoice-calculator';
+import { InvoiceRenderer } from './invoice.renderer';
+import { PaymentService } from '../services/payment.service';
+import { PaymentResult } from '../types/common.types';
+import { CurrencyManager } from '../currency/currency.manager';
+import { EventEmitter } from '../events/event.emitter';
+import { errorHandler, ErrorCode, PaymentError } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export interface InvoiceManagerOptions {
+  eventEmitter?: EventEmitter;
+  currencyManager?: CurrencyManager;
+  // Invoice numbers look like INV-000042
+  numberPrefix?: string;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export type InvoiceLineItemInput = Omit<InvoiceLineItem, 'id' | 'amount'>;
+export type InvoiceDiscountInput = Omit<InvoiceDiscount, 'amount'>;
+
+export interface CreateInvoiceInput {
+  merchantId: string;
+  customerId: string;
+  customerEmail: string;
+  customerName?: string;
+  currency: string;
+  lineItems: InvoiceLineItemInput[];
+  discounts?: InvoiceDiscountInput[];
+  taxRates?: InvoiceTaxRate[];
+  paymentMethodId?: string;
+  dueDate?: Date;
+  memo?: string;
+  metadata?: Record<string, any>;
+}
+
+export type UpdateInvoiceInput = Partial<Omit<CreateInvoiceInput, 'merchantId' | 'customerId' | 'currency'>>;
+
+export type InvoiceRenderFormat = 'html' | 'text';
+
+/**
+ * Manages invoices from draft to settlement. Drafts can be edited freely;
+ * finalizing an invoice fixes its contents and gives it the merchant's next
+ * invoice number. Payments go through PaymentService, so every payment
+ * attempt is recorded as a PAYMENT transaction by the TransactionManager.
+ */
+export class InvoiceManager {
+  private logger: PaymentLogger;
+  private eventEmitter?: EventEmitter;
+  private currencyManager: CurrencyManager;
+  private calculator: InvoiceCalculator;
+  private renderer: InvoiceRenderer;
+  private numberPrefix: string;
+
+  private static readonly validTransitions: Record<InvoiceStatus, InvoiceStatus[]> = {
+    // Drafts have no number yet, so voiding one leaves no gap
+    [InvoiceStatus.DRAFT]: [InvoiceStatus.OPEN, InvoiceStatus.VOID],
+    [InvoiceStatus.OPEN]: [InvoiceStatus.PAID, InvoiceStatus.VOID, InvoiceStatus.UNCOLLECTIBLE],
+    // A written-off invoice can still be paid late
+    [InvoiceStatus.UNCOLLECTIBLE]: [InvoiceStatus.PAID, InvoiceStatus.VOID],
+    [InvoiceStatus.PAID]: [],
+    [InvoiceStatus.VOID]: []
+  };
+
+  constructor(
+    private store: InvoiceStore,
+    private paymentService: PaymentService,
+    options: InvoiceManagerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'InvoiceManager');
+    this.eventEmitter = options.eventEmitter;
+    this.currencyManager = options.currencyManager || new CurrencyManager('external');
+    this.calculator = new InvoiceCalculator(this.currencyManager);
+    this.renderer = new InvoiceRenderer(this.currencyManager);
+    this.numberPrefix = options.numberPrefix || 'INV';
+  }
+
+  /**
+   * Create a draft invoice
+   */
+  async createInvoice(input: CreateInvoiceInput): Promise<Invoice> {
+    const currency = input.currency.toUpperCase();
+
+    if (!this.currencyManager.validateCurrency(currency)) {
+      throw errorHandler.createError(
+        `Unsupported currency: ${input.currency}`,
+        ErrorCode.VALIDATION_ERROR,
+        { currency: input.currency }
+      );
+    }
+
+    const now = new Date();
+    const invoice = this.withTotals({
+      id: uuidv4(),
+      merchantId: input.merchantId,
+      status: InvoiceStatus.DRAFT,
+      customerId: input.customerId,
+      customerEmail: input.customerEmail,
+      customerName: input.customerName,
+      currency,
+      lineItems: input.lineItems.map(item => this.toLineItem(item)),
+      discounts: (input.discounts || []).map(discount => ({ ...discount, amount: 0 })),
+      taxRates: input.taxRates || [],
+      taxLines: [],
+      subtotal: 0,
+      discountTotal: 0,
+      taxTotal: 0,
+      total: 0,
+      amountPaid: 0,
+      amountDue: 0,
+      paymentMethodId: input.paymentMethodId,
+      paymentAttempts: 0,
+      dueDate: input.dueDate,
+      memo: input.memo,
+      metadata: input.metadata,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    await this.store.save(invoice);
+    this.logger.info(`Created draft invoice ${invoice.id}`, {
+      merchantId: invoice.merchantId,
+      customerId: invoice.customerId,
+      total: invoice.total
+    });
+
+    await this.emit('invoice.created', {
+      invoiceId: invoice.id,
+      merchantId: invoice.merchantId,
+      customerId: invoice.customerId,
+      total: invoice.total,
+      currency: invoice.currency,
+      timestamp: now
+    });
+
+    return invoice;
+  }
+
+  /**
+   * Edit a draft. Finalized invoices cannot be changed; void and reissue instead.
+   */
+  async updateDraft(invoiceId: string, changes: UpdateInvoiceInput): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw errorHandler.createError(
+        `Invoice ${invoiceId} is ${invoice.status} and can no longer be edited`,
+        ErrorCode.INVOICE_INVALID_STATE,
+        { invoiceId, status: invoice.status }
+      );
+    }
+
+    const updated = this.withTotals({
+      ...invoice,
+      customerEmail: changes.customerEmail ?? invoice.customerEmail,
+      customerName: changes.customerName ?? invoice.customerName,
+      lineItems: changes.lineItems
+        ? changes.lineItems.map(item => this.toLineItem(item))
+        : invoice.lineItems,
+      discounts: changes.discounts
+        ? changes.discounts.map(discount => ({ ...discount, amount: 0 }))
+        : invoice.discounts,
+      taxRates: changes.taxRates ?? invoice.taxRates,
+      paymentMethodId: changes.paymentMethodId ?? invoice.paymentMethodId,
+      dueDate: changes.dueDate ?? invoice.dueDate,
+      memo: changes.memo ?? invoice.memo,
+      metadata: changes.metadata ? { ...invoice.metadata, ...changes.metadata } : invoice.metadata,
+      updatedAt: new Date()
+    });
+
+    await this.store.save(updated);
+    return updated;
+  }
+
+  /**
+   * Finalize a draft: lock its contents, number it and open it for payment.
+   * An invoice that totals zero is marked paid straight away.
+   */
+  async finalizeInvoice(invoiceId: string): Promise<Invoice> {
+    const operationId = uuidv4().slice(0, 8);
+
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      this.validateTransition(invoice, InvoiceStatus.OPEN);
+
+      if (invoice.lineItems.length === 0) {
+        throw errorHandler.createError(
+          `Invoice ${invoiceId} has no line items`,
+          ErrorCode.VALIDATION_ERROR,
+          { invoiceId }
+        );
+      }
+
+      const now = new Date();
+      const settled = invoice.total === 0;
+      const finalized = await this.store.saveWithNextNumber(
+        {
+          ...invoice,
+          status: settled ? InvoiceStatus.PAID : InvoiceStatus.OPEN,
+          finalizedAt: now,
+          paidAt: settled ? now : undefined,
+          updatedAt: now
+        },
+        sequenceNumber => this.formatNumber(sequenceNumber)
+      );
+
+      this.logger.info(`[${operationId}] Finalized invoice ${invoiceId} as ${finalized.number}`, {
+        merchantId: finalized.merchantId,
+        total: finalized.total
+      });
+
+      await this.emit('invoice.finalized', {
+        invoiceId,
+        number: finalized.number,
+        merchantId: finalized.merchantId,
+        customerId: finalized.customerId,
+        total: finalized.total,
+        currency: finalized.currency,
+        dueDate: finalized.dueDate,
+        timestamp: now
+      });
+
+      if (settled) {
+        await this.emitPaid(finalized);
+      }
+
+      return finalized;
+    } catch (error) {
+      this.logger.error(`[${operationId}] Failed to finalize invoice ${invoiceId}`, { error });
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to finalize invoice',
+        ErrorCode.INTERNAL_ERROR,
+        { invoiceId }
+      );
+    }
+  }
+
+  /**
+   * Charge the amount due on an open or uncollectible invoice. A declined
+   * charge leaves the invoice as it was, so it can be paid again.
+   * @param paymentMethodId Overrides the invoice's payment method
+   */
+  async payInvoice(invoiceId: string, paymentMethodId?: string): Promise<Invoice> {
+    const operationId = uuidv4().slice(0, 8);
+
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      this.validateTransition(invoice, InvoiceStatus.PAID);
+
+      const methodId = paymentMethodId || invoice.paymentMethodId;
+      if (!methodId) {
+        throw errorHandler.createError(
+          `No payment method for invoice ${invoiceId}`,
+          ErrorCode.PAYMENT_METHOD_INVALID,
+          { invoiceId }
+        );
+      }
+
+      const attempt = invoice.paymentAttempts + 1;
+
+      this.logger.info(`[${operationId}] Paying invoice ${invoiceId}`, {
+        number: invoice.number,
+        amount: invoice.amountDue,
+        attempt
+      });
+
+      // One key per attempt: a retried request reuses the transaction, while
+      // paying again after a decline starts a new one
+      const result = await this.charge(invoice, methodId, `invoice-${invoice.id}-attempt-${attempt}`);
+      const now = new Date();
+
+      if (!result.success) {
+        const failed: Invoice = {
+          ...invoice,
+          paymentMethodId: methodId,
+          paymentAttempts: attempt,
+          lastPaymentError: result.error?.message || 'Payment failed',
+          updatedAt: now
+        };
+        await this.store.save(failed);
+
+        await this.emit('invoice.payment_failed', {
+          invoiceId,
+          number: invoice.number,
+          customerId: invoice.customerId,
+          amount: invoice.amountDue,
+          currency: invoice.currency,
+          transactionId: result.transactionId,
+          errorCode: result.error?.code,
+          attempt,
+          timestamp: now
+        });
+
+        throw errorHandler.createError(
+          result.error?.message || 'Invoice payment failed',
+          ErrorCode.PAYMENT_FAILED,
+          {
+            invoiceId,
+            transactionId: result.transactionId,
+            providerErrorCode: result.error?.code
+          }
+        );
+      }
+
+      const paid: Invoice = {
+        ...invoice,
+        status: InvoiceStatus.PAID,
+        amountPaid: invoice.total,
+        amountDue: 0,
+        paymentMethodId: methodId,
+        paymentTransactionId: result.transactionId,
+        paymentAttempts: attempt,
+        lastPaymentError: undefined,
+        paidAt: now,
+        updatedAt: now
+      };
+      await this.store.save(paid);
+
+      this.logger.info(`[${operationId}] Invoice ${invoiceId} paid`, {
+        transactionId: result.transactionId
+      });
+
+      await this.emitPaid(paid);
+
+      return paid;
+    } catch (error) {
+      this.logger.error(`[${operationId}] Failed to pay invoice ${invoiceId}`, { error });
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to pay invoice',
+        ErrorCode.INTERNAL_ERROR,
+        { invoiceId }
+      );
+    }
+  }
+
+  /**
+   * Cancel an invoice that should not be paid. A finalized invoice keeps its number.
+   */
+  async voidInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    this.validateTransition(invoice, InvoiceStatus.VOID);
+
+    const now = new Date();
+    const voided: Invoice = {
+      ...invoice,
+      status: InvoiceStatus.VOID,
+      amountDue: 0,
+      voidedAt: now,
+      updatedAt: now
+    };
+    await this.store.save(voided);
+
+    this.logger.info(`Voided invoice ${invoiceId}`, { number: invoice.number });
+
+    await this.emit('invoice.voided', {
+      invoiceId,
+      number: invoice.number,
+      merchantId: invoice.merchantId,
+      customerId: invoice.customerId,
+      previousStatus: invoice.status,
+      timestamp: now
+    });
+
+    return voided;
+  }
+
+  /**
+   * Write off an open invoice that is not expected to be paid
+   */
+  async markUncollectible(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    this.validateTransition(invoice, InvoiceStatus.UNCOLLECTIBLE);
+
+    const now = new Date();
+    const uncollectible: Invoice = {
+      ...invoice,
+      status: InvoiceStatus.UNCOLLECTIBLE,
+      markedUncollectibleAt: now,
+      updatedAt: now
+    };
+    await this.store.save(uncollectible);
+
+    this.logger.info(`Marked invoice ${invoiceId} uncollectible`, { number: invoice.number });
+
+    await this.emit('invoice.marked_uncollectible', {
+      invoiceId,
+      number: invoice.number,
+      merchantId: invoice.merchantId,
+      customerId: invoice.customerId,
+      amountDue: invoice.amountDue,
+      currency: invoice.currency,
+      timestamp: now
+    });
+
+    return uncollectible;
+  }
+
+  async getInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.store.get(invoiceId);
+
+    if (!invoice) {
+      throw errorHandler.createError(
+        `Invoice not found: ${invoiceId}`,
+        ErrorCode.INVOICE_NOT_FOUND,
+        { invoiceId }
+      );
+    }
+
+    return invoice;
+  }
+
+  async listInvoices(options: InvoiceQuery = {}): Promise<Invoice[]> {
+    return this.store.list(options);
+  }
+
+  async renderInvoice(invoiceId: string, format: InvoiceRenderFormat): Promise<string> {
+    const invoice = await this.getInvoice(invoiceId);
+
+    return format === 'html'
+      ? this.renderer.renderHtml(invoice)
+      : this.renderer.renderText(invoice);
+  }
+
+  private async charge(
+    invoice: Invoice,
+    paymentMethodId: string,
+    idempotencyKey: string
+  ): Promise<PaymentResult> {
+    try {
+      return await this.paymentService.processPayment({
+        amount: {
+          amount: invoice.amountDue,
+          currency: invoice.currency
+        },
+        customer: {
+          id: invoice.customerId,
+          email: invoice.customerEmail,
+          name: invoice.customerName
+        },
+        paymentMethod: paymentMethodId,
+        metadata: {
+          idempotencyKey,
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.number,
+          merchantId: invoice.merchantId
+        }
+      });
+    } catch (error) {
+      // Provider errors are treated like a declined charge
+      this.logger.error(`Charge failed for invoice ${invoice.id}`, { error });
+
+      return {
+        success: false,
+        error: {
+          code: error.code || ErrorCode.INTERNAL_ERROR,
+          message: error.message || 'Invoice charge failed'
+        }
+      };
+    }
+  }
+
+  /**
+   * Recalculate the totals of a draft
+   */
+  private withTotals(invoice: Invoice): Invoice {
+    this.validateAmounts(invoice);
+
+    const totals = this.calculator.calculate({
+      currency: invoice.currency,
+      lineItems: invoice.lineItems,
+      discounts: invoice.discounts,
+      taxRates: invoice.taxRates
+    });
+
+    // Only drafts are recalculated, and nothing has been paid on a draft
+    return { ...invoice, ...totals, amountDue: totals.total };
+  }
+
+  private validateAmounts(invoice: Invoice): void {
+    const invalid = (message: string, context: Record<string, any>) =>
+      errorHandler.createError(message, ErrorCode.VALIDATION_ERROR, { invoiceId: invoice.id, ...context });
+
+    invoice.lineItems.forEach(item => {
+      if (item.quantity <= 0 || item.unitAmount < 0) {
+        throw invalid('Line items need a positive quantity and a non-negative unit amount', {
+          description: item.description,
+          quantity: item.quantity,
+          unitAmount: item.unitAmount
+        });
+      }
+    });
+
+    invoice.discounts.forEach(discount => {
+      const outOfRange = discount.type === 'percentage'
+        ? discount.value <= 0 || discount.value > 100
+        : discount.value <= 0;
+
+      if (outOfRange) {
+        throw invalid(`Invalid ${discount.type} discount: ${discount.value}`, {
+          description: discount.description
+        });
+      }
+    });
+
+    invoice.taxRates.forEach(taxRate => {
+      if (taxRate.rate < 0 || taxRate.rate > 100) {
+        throw invalid(`Invalid tax rate: ${taxRate.rate}`, { name: taxRate.name });
+      }
+    });
+  }
+
+  private validateTransition(invoice: Invoice, status: InvoiceStatus): void {
+    if (!InvoiceManager.validTransitions[invoice.status].includes(status)) {
+      throw errorHandler.createError(
+        `Invoice ${invoice.id} cannot move from ${invoice.status} to ${status}`,
+        ErrorCode.INVOICE_INVALID_STATE,
+        { invoiceId: invoice.id, status: invoice.status, requestedStatus: status }
+      );
+    }
+  }
+
+  private toLineItem(item: InvoiceLineItemInput): InvoiceLineItem {
+    return { ...item, id: uuidv4(), amount: 0 };
+  }
+
+  private formatNumber(sequenceNumber: number): string {
+    const digits = String(sequenceNumber);
+    return `${this.numberPrefix}-${'0'.repeat(Math.max(6 - digits.length, 0))}${digits}`;
+  }
+
+  private async emitPaid(invoice: Invoice): Promise<void> {
+    await this.emit('invoice.paid', {
+      invoiceId: invoice.id,
+      number: invoice.number,
+      merchantId: invoice.merchantId,
+      customerId: invoice.customerId,
+      amount: invoice.amountPaid,
+      currency: invoice.currency,
+      transactionId: invoice.paymentTransactionId,
+      timestamp: invoice.paidAt
+    });
+  }
+
+  private async emit(eventType: string, data: Record<string, any>): Promise<void> {
+    if (this.eventEmitter) {
+      await this.eventEmitter.emit(eventType, data);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+// src/lib/payment/invoices/invoice.renderer.ts
+
+import { Invoice, InvoiceStatus } from './types';
+import { CurrencyManager } from '../currency/currency.manager';
+
+// Width of the plain-text layout; fits a monospaced A4/Letter page
+const TEXT_WIDTH = 72;
+
+/**
+ * Renders invoices for customers: HTML for the browser and email, and a
+ * fixed-width plain-text layout that can be fed to a PDF generator as is.
+ */
+export class InvoiceRenderer {
+  constructor(private currencyManager: CurrencyManager) {}
+
+  renderHtml(invoice: Invoice): string {
+    const money = (amount: number) => this.escape(this.format(amount, invoice.currency));
+
+    const lineRows = invoice.lineItems.map(item => `
+      <tr>
+        <td>${this.escape(item.description)}</td>
+        <td class="num">${item.quantity}</td>
+        <td class="num">${money(item.unitAmount)}</td>
+        <td class="num">${money(item.amount)}</td>
+      </tr>`).join('');
+
+    const summaryRows = this.summaryLines(invoice).map(([label, amount, strong]) => `
+      <tr${strong ? ' class="strong"' : ''}>
+        <td colspan="3">${this.escape(label)}</td>
+        <td class="num">${money(amount)}</td>
+      </tr>`).join('');
+
+    const billTo = [invoice.customerName, invoice.customerEmail]
+      .filter(Boolean)
+      .map(value => this.escape(value!))
+      .join('<br>');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${this.escape(this.title(invoice))}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 720px; margin: 40px auto; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; }
+    .strong td { font-weight: bold; }
+    .status { text-transform: uppercase; color: #666; }
+  </style>
+</head>
+<body>
+  <h1>${this.escape(this.title(invoice))}</h1>
+  <p class="status">${this.escape(invoice.status)}</p>
+  <p>${this.headerFields(invoice).map(([label, value]) => `${this.escape(label)}: ${this.escape(value)}`).join('<br>')}</p>
+  ${billTo ? `<p><strong>Bill to</strong><br>${billTo}</p>` : ''}
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">Qty</th>
+        <th class="num">Unit price</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${lineRows}${summaryRows}
+    </tbody>
+  </table>
+  ${invoice.memo ? `<p>${this.escape(invoice.memo)}</p>` : ''}
+</body>
+</html>
+`;
+  }
+
+  renderText(invoice: Invoice): string {
+    const money = (amount: number) => this.format(amount, invoice.currency);
+    const rule = '-'.repeat(TEXT_WIDTH);
+    const lines: string[] = [];
+
+    lines.push(this.title(invoice).toUpperCase());
+    lines.push(`Status: ${invoice.status}`);
+    this.headerFields(invoice).forEach(([label, value]) => lines.push(`${label}: ${value}`));
+
+    if (invoice.customerName || invoice.customerEmail) {
+      lines.push('');
+      lines.push('Bill to:');
+      [invoice.customerName, invoice.customerEmail]
+        .filter(Boolean)
+        .forEach(value => lines.push(`  ${value}`));
+    }
+
+    lines.push('');
+    lines.push(rule);
+    lines.push(this.columns('Description', 'Qty', 'Unit price', 'Amount'));
+    lines.push(rule);
+
+    invoice.lineItems.forEach(item => {
+      const [first, ...rest] = this.wrap(item.description, 36);
+      lines.push(this.columns(first, String(item.quantity), money(item.unitAmount), money(item.amount)));
+      rest.forEach(part => lines.push(part));
+    });
+
+    lines.push(rule);
+    this.summaryLines(invoice).forEach(([label, amount]) => {
+      lines.push(this.padLeft(`${label}  ${this.padLeft(money(amount), 16)}`, TEXT_WIDTH));
+    });
+
+    if (invoice.memo) {
+      lines.push('');
+      this.wrap(invoice.memo, TEXT_WIDTH).forEach(part => lines.push(part));
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private title(invoice: Invoice): string {
+    return invoice.number ? `Invoice ${invoice.number}` : 'Draft invoice';
+  }
+
+  private headerFields(invoice: Invoice): [string, string][] {
+    const fields: [string, string][] = [];
+
+    if (invoice.finalizedAt) {
+      fields.push(['Issued', this.date(invoice.finalizedAt)]);
+    }
+    if (invoice.dueDate) {
+      fields.push(['Due', this.date(invoice.dueDate)]);
+    }
+    if (invoice.paidAt) {
+      fields.push(['Paid', this.date(invoice.paidAt)]);
+    }
+    if (invoice.status === InvoiceStatus.VOID && invoice.voidedAt) {
+      fields.push(['Voided', this.date(invoice.voidedAt)]);
+    }
+
+    return fields;
+  }
+
+  // [label, amount, emphasised]
+  private summaryLines(invoice: Invoice): [string, number, boolean][] {
+    const lines: [string, number, boolean][] = [['Subtotal', invoice.subtotal, false]];
+
+    invoice.discounts.forEach(discount => {
+      const label = discount.type === 'percentage'
+        ? `${discount.description} (${discount.value}%)`
+        : discount.description;
+      lines.push([label, -discount.amount, false]);
+    });
+
+    invoice.taxLines.forEach(tax => {
+      lines.push([`${tax.name} (${tax.rate}%)`, tax.amount, false]);
+    });
+
+    lines.push(['Total', invoice.total, true]);
+
+    if (invoice.amountPaid > 0) {
+      lines.push(['Amount paid', -invoice.amountPaid, false]);
+    }
+
+    lines.push(['Amount due', invoice.amountDue, true]);
+
+    return lines;
+  }
+
+  private columns(description: string, quantity: string, unitAmount: string, amount: string): string {
+    return this.padRight(description, 36) +
+      this.padLeft(quantity, 6) +
+      this.padLeft(unitAmount, 15) +
+      this.padLeft(amount, 15);
+  }
+
+  private wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+      if (current && current.length + word.length + 1 > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    });
+
+    lines.push(current);
+    return lines;
+  }
+
+  private padRight(value: string, width: number): string {
+    return value.length >= width ? value.slice(0, width) : value + ' '.repeat(width - value.length);
+  }
+
+  private padLeft(value: string, width: number): string {
+    return value.length >= width ? value : ' '.repeat(width - value.length) + value;
+  }
+
+  private format(amount: number, currency: string): string {
+    return this.currencyManager.formatAmount(amount, currency);
+  }
+
+  private date(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,87 @@
+// src/lib/payment/invoices/invoice.store.ts
+import { Invoice, InvoiceStatus } from './types';
+
+export interface InvoiceQuery {
+  merchantId?: string;
+  customerId?: string;
+  status?: InvoiceStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export abstract class InvoiceStore {
+  abstract save(invoice: Invoice): Promise<void>;
+  abstract get(id: string): Promise<Invoice | null>;
+  abstract list(options?: InvoiceQuery): Promise<Invoice[]>;
+
+  /**
+   * Take the merchant's next invoice number and save the invoice with it in
+   * one atomic step. If saving fails the number is not used up, so a
+   * merchant's invoice numbers never have gaps.
+   */
+  abstract saveWithNextNumber(
+    invoice: Invoice,
+    formatNumber: (sequenceNumber: number) => string
+  ): Promise<Invoice>;
+}
+
+export class InMemoryInvoiceStore extends InvoiceStore {
+  private invoices: Map<string, Invoice> = new Map();
+  private sequences: Map<string, number> = new Map();
+
+  async save(invoice: Invoice): Promise<void> {
+    this.invoices.set(invoice.id, this.copy(invoice));
+  }
+
+  async get(id: string): Promise<Invoice | null> {
+    const invoice = this.invoices.get(id);
+    return invoice ? this.copy(invoice) : null;
+  }
+
+  async list(options: InvoiceQuery = {}): Promise<Invoice[]> {
+    let invoices = Array.from(this.invoices.values());
+
+    if (options.merchantId) {
+      invoices = invoices.filter(i => i.merchantId === options.merchantId);
+    }
+
+    if (options.customerId) {
+      invoices = invoices.filter(i => i.customerId === options.customerId);
+    }
+
+    if (options.status) {
+      invoices = invoices.filter(i => i.status === options.status);
+    }
+
+    invoices.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const start = options.offset || 0;
+    const end = options.limit ? start + options.limit : undefined;
+
+    return invoices.slice(start, end).map(i => this.copy(i));
+  }
+
+  async saveWithNextNumber(
+    invoice: Invoice,
+    formatNumber: (sequenceNumber: number) => string
+  ): Promise<Invoice> {
+    // Single-threaded, so reading and bumping the counter cannot interleave
+    const sequenceNumber = (this.sequences.get(invoice.merchantId) || 0) + 1;
+    const numbered = { ...invoice, sequenceNumber, number: formatNumber(sequenceNumber) };
+
+    this.invoices.set(numbered.id, this.copy(numbered));
+    this.sequences.set(invoice.merchantId, sequenceNumber);
+
+    return this.copy(numbered);
+  }
+
+  private copy(invoice: Invoice): Invoice {
+    return {
+      ...invoice,
+      lineItems: invoice.lineItems.map(item => ({ ...item })),
+      discounts: invoice.discounts.map(discount => ({ ...discount })),
+      taxRates: invoice.taxRates.map(rate => ({ ...rate })),
+      taxLines: invoice.taxLines.map(line => ({ ...line }))
+    };
+  }
+}
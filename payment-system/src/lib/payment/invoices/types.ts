@@ -0,0 +1,80 @@
+// src/lib/payment/invoices/types.ts
+export enum InvoiceStatus {
+  DRAFT = 'draft',
+  OPEN = 'open',
+  PAID = 'paid',
+  VOID = 'void',
+  UNCOLLECTIBLE = 'uncollectible'
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  // quantity * unitAmount, rounded to the currency
+  amount: number;
+  metadata?: Record<string, any>;
+}
+
+export interface InvoiceDiscount {
+  description: string;
+  type: 'percentage' | 'fixed';
+  // Percentage (0-100) or a fixed amount in major currency units
+  value: number;
+  // Amount actually taken off the subtotal
+  amount: number;
+}
+
+export interface InvoiceTaxRate {
+  name: string;
+  // Percentage, e.g. 20 for 20% VAT
+  rate: number;
+}
+
+export interface InvoiceTaxLine extends InvoiceTaxRate {
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  merchantId: string;
+  // Assigned when the invoice is finalized; drafts have no number
+  number?: string;
+  sequenceNumber?: number;
+  status: InvoiceStatus;
+  customerId: string;
+  customerEmail: string;
+  customerName?: string;
+  currency: string;
+  lineItems: InvoiceLineItem[];
+  discounts: InvoiceDiscount[];
+  taxRates: InvoiceTaxRate[];
+  taxLines: InvoiceTaxLine[];
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+  amountPaid: number;
+  amountDue: number;
+  paymentMethodId?: string;
+  paymentTransactionId?: string;
+  paymentAttempts: number;
+  lastPaymentError?: string;
+  dueDate?: Date;
+  memo?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+  finalizedAt?: Date;
+  paidAt?: Date;
+  voidedAt?: Date;
+  markedUncollectibleAt?: Date;
+}
+
+// Totals derived from the line items, discounts and tax rates
+export type InvoiceTotals = Pick<
+  Invoice,
+  'lineItems' | 'discounts' | 'taxLines' | 'subtotal' | 'discountTotal' | 'taxTotal' | 'total'
+>;
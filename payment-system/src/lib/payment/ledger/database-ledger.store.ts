@@ -0,0 +1,302 @@
+// src/lib/payment/ledger/database-ledger.store.ts
+import { Pool } from 'pg';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+  JournalEntry,
+  JournalEntryKind,
+  PostingDirection
+} from './types';
+import { LedgerStore, LedgerAccountQuery, AccountTotals } from './ledger.store';
+import { Transaction, TransactionStatusChange } from '../types/transaction.types';
+import { DatabaseTransactionStore } from '../transaction/store/database-transaction.store';
+import { DatabaseOutboxStore } from '../events/database-outbox.store';
+import { OutboxEvent } from '../events/outbox.store';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export class DatabaseLedgerStore extends LedgerStore {
+  private logger: PaymentLogger;
+
+  constructor(
+    private dbPool: Pool,
+    private transactionStore: DatabaseTransactionStore,
+    private outboxStore?: DatabaseOutboxStore
+  ) {
+    super();
+    this.logger = new PaymentLogger('info', 'DatabaseLedgerStore');
+  }
+
+  async ensureAccount(account: LedgerAccount): Promise<LedgerAccount> {
+    try {
+      await this.dbPool.query(
+        `INSERT INTO ledger_accounts (id, code, name, type, currency, customer_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (code) DO NOTHING`,
+        [
+          account.id,
+          account.code,
+          account.name,
+          account.type,
+          account.currency,
+          account.customerId || null,
+          account.createdAt
+        ]
+      );
+
+      const result = await this.dbPool.query(
+        'SELECT * FROM ledger_accounts WHERE code = $1',
+        [account.code]
+      );
+
+      return this.mapRowToAccount(result.rows[0]);
+    } catch (error) {
+      this.logger.error('Failed to save ledger account', { error, code: account.code });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save ledger account',
+        ErrorCode.DATABASE_ERROR,
+        { code: account.code }
+      );
+    }
+  }
+
+  async getAccount(id: string): Promise<LedgerAccount | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM ledger_accounts WHERE id = $1',
+        [id]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToAccount(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('Failed to get ledger account', { error, id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get ledger account',
+        ErrorCode.DATABASE_ERROR,
+        { accountId: id }
+      );
+    }
+  }
+
+  async listAccounts(options: LedgerAccountQuery = {}): Promise<LedgerAccount[]> {
+    try {
+      const { where, params } = this.buildAccountFilter(options);
+      const result = await this.dbPool.query(
+        `SELECT * FROM ledger_accounts a WHERE ${where} ORDER BY a.code`,
+        params
+      );
+
+      return result.rows.map(row => this.mapRowToAccount(row));
+    } catch (error) {
+      this.logger.error('Failed to list ledger accounts', { error, options });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to list ledger accounts',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async getEntries(transactionId: string): Promise<JournalEntry[]> {
+    try {
+      const entries = await this.dbPool.query(
+        'SELECT * FROM journal_entries WHERE transaction_id = $1 ORDER BY created_at ASC',
+        [transactionId]
+      );
+
+      if (entries.rows.length === 0) {
+        return [];
+      }
+
+      const postings = await this.dbPool.query(
+        'SELECT * FROM ledger_postings WHERE entry_id = ANY($1) ORDER BY id',
+        [entries.rows.map(row => row.id)]
+      );
+
+      return entries.rows.map(row => this.mapRowToEntry(
+        row,
+        postings.rows.filter(posting => posting.entry_id === row.id)
+      ));
+    } catch (error) {
+      this.logger.error('Failed to get journal entries', { error, transactionId });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get journal entries',
+        ErrorCode.DATABASE_ERROR,
+        { transactionId }
+      );
+    }
+  }
+
+  async getTotals(options: LedgerAccountQuery = {}): Promise<AccountTotals[]> {
+    try {
+      const { where, params } = this.buildAccountFilter(options);
+      const result = await this.dbPool.query(
+        `SELECT a.*,
+           COALESCE(SUM(p.amount) FILTER (WHERE p.direction = 'debit'), 0) AS debits,
+           COALESCE(SUM(p.amount) FILTER (WHERE p.direction = 'credit'), 0) AS credits
+         FROM ledger_accounts a
+         LEFT JOIN ledger_postings p ON p.account_id = a.id
+         WHERE ${where}
+         GROUP BY a.id
+         ORDER BY a.code`,
+        params
+      );
+
+      return result.rows.map(row => ({
+        account: this.mapRowToAccount(row),
+        debits: parseFloat(row.debits),
+        credits: parseFloat(row.credits)
+      }));
+    } catch (error) {
+      this.logger.error('Failed to total ledger accounts', { error, options });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to total ledger accounts',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async commitEntry(
+    entry: JournalEntry,
+    transaction: Transaction,
+    events: OutboxEvent[] = [],
+    statusChange?: TransactionStatusChange
+  ): Promise<void> {
+    if (events.length > 0 && !this.outboxStore) {
+      throw errorHandler.createError(
+        'Outbox events were given but the ledger store has no outbox store',
+        ErrorCode.CONFIGURATION_ERROR,
+        { transactionId: entry.transactionId }
+      );
+    }
+
+    const client = await this.dbPool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await this.transactionStore.save(transaction, client);
+      if (statusChange) {
+        await this.transactionStore.saveStatusChange(statusChange, client);
+      }
+
+      // The unique (transaction_id, kind) constraint stops a status change
+      // that is replayed from posting the same money twice
+      await client.query(
+        `INSERT INTO journal_entries (
+           id, transaction_id, kind, description, currency, reverses_entry_id, created_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          entry.id,
+          entry.transactionId,
+          entry.kind,
+          entry.description,
+          entry.currency,
+          entry.reversesEntryId || null,
+          entry.createdAt
+        ]
+      );
+
+      for (const posting of entry.postings) {
+        await client.query(
+          `INSERT INTO ledger_postings (id, entry_id, account_id, direction, amount, currency)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            posting.id,
+            entry.id,
+            posting.accountId,
+            posting.direction,
+            posting.amount,
+            posting.currency
+          ]
+        );
+      }
+
+      if (events.length > 0) {
+        await this.outboxStore!.append(events, client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      this.logger.error('Failed to commit journal entry', {
+        error,
+        entryId: entry.id,
+        transactionId: entry.transactionId
+      });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to commit journal entry',
+        ErrorCode.DATABASE_ERROR,
+        { entryId: entry.id, transactionId: entry.transactionId }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  private buildAccountFilter(options: LedgerAccountQuery): { where: string; params: any[] } {
+    let where = '1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (options.customerId) {
+      where += ` AND a.customer_id = $${paramIndex++}`;
+      params.push(options.customerId);
+    }
+
+    if (options.currency) {
+      where += ` AND a.currency = $${paramIndex++}`;
+      params.push(options.currency);
+    }
+
+    if (options.type) {
+      where += ` AND a.type = $${paramIndex++}`;
+      params.push(options.type);
+    }
+
+    return { where, params };
+  }
+
+  private mapRowToAccount(row: any): LedgerAccount {
+    return {
+      id: row.id,
+      code: row.code,
+      name: row.name,
+      type: row.type as LedgerAccountType,
+      currency: row.currency,
+      customerId: row.customer_id || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapRowToEntry(row: any, postingRows: any[]): JournalEntry {
+    return {
+      id: row.id,
+      transactionId: row.transaction_id,
+      kind: row.kind as JournalEntryKind,
+      description: row.description,
+      currency: row.currency,
+      reversesEntryId: row.reverses_entry_id || undefined,
+      createdAt: row.created_at,
+      postings: postingRows.map(posting => ({
+        id: posting.id,
+        accountId: posting.account_id,
+        direction: posting.direction as PostingDirection,
+        amount: parseFloat(posting.amount),
+        currency: posting.currency
+      }))
+    };
+  }
+}
@@ -0,0 +1,434 @@
+// src/lib/payment/ledger/ledger.manager.ts
+import { v4 as uuidv4 } from 'uuid';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+  JournalEntry,
+  JournalEntryKind,
+  Posting,
+  PostingDirection,
+  AccountBalance,
+  CurrencyBalance,
+  TrialBalance,
+  TrialBalanceLine
+} from './types';
+import { LedgerStore, LedgerAccountQuery, AccountTotals } from './ledger.store';
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionStatusChange,
+  TransactionType
+} from '../types/transaction.types';
+import { CurrencyManager } from '../currency/currency.manager';
+import { EventEmitter } from '../events/event.emitter';
+import { OutboxEvent } from '../events/outbox.store';
+import { PaymentLogger } from '../utils/logger';
+import { errorHandler, ErrorCode, PaymentError } from '../utils/error';
+
+export interface LedgerManagerOptions {
+  eventEmitter?: EventEmitter;
+  currencyManager?: CurrencyManager;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+// Statuses in which the provider has actually moved the money
+const SETTLED_STATUSES = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_CAPTURED
+];
+
+// Account types whose balance grows with debits
+const DEBIT_NORMAL_TYPES = [
+  LedgerAccountType.ASSET,
+  LedgerAccountType.EXPENSE
+];
+
+/**
+ * Keeps the double-entry ledger behind the transactions table. Every
+ * transition that moves money is recorded as a balanced journal entry
+ * between the provider balance and the customer's account.
+ */
+export class LedgerManager {
+  private logger: PaymentLogger;
+  private eventEmitter?: EventEmitter;
+  private currencyManager: CurrencyManager;
+
+  constructor(
+    private store: LedgerStore,
+    options: LedgerManagerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'LedgerManager');
+    this.eventEmitter = options.eventEmitter;
+    this.currencyManager = options.currencyManager || new CurrencyManager('external');
+  }
+
+  /**
+   * Build the journal entry a status change should produce
+   * @param previous Transaction before the change
+   * @param updated Transaction after the change
+   * @returns The entry, or null when the change does not move money
+   */
+  async buildEntry(previous: Transaction, updated: Transaction): Promise<JournalEntry | null> {
+    if (previous.status === updated.status) {
+      return null;
+    }
+
+    if (SETTLED_STATUSES.includes(updated.status)) {
+      return this.buildSettlementEntry(updated);
+    }
+
+    if (updated.status === TransactionStatus.ROLLED_BACK) {
+      return this.buildReversalEntry(updated);
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that an entry balances and commit it with the transaction change
+   * that produced it
+   * @param entry Journal entry to post
+   * @param transaction Transaction to save in the same unit of work
+   * @param events Outbox events to write in the same unit of work
+   * @param statusChange Status history row to write in the same unit of work
+   */
+  async commitEntry(
+    entry: JournalEntry,
+    transaction: Transaction,
+    events: OutboxEvent[] = [],
+    statusChange?: TransactionStatusChange
+  ): Promise<void> {
+    const operationId = uuidv4().slice(0, 8);
+
+    try {
+      this.assertBalanced(entry);
+
+      await this.store.commitEntry(entry, transaction, events, statusChange);
+
+      this.logger.info(`[${operationId}] Posted ${entry.kind} entry for transaction ${entry.transactionId}`, {
+        entryId: entry.id,
+        postings: entry.postings.length
+      });
+
+      await this.emit('ledger.entry_posted', {
+        entryId: entry.id,
+        transactionId: entry.transactionId,
+        kind: entry.kind,
+        currency: entry.currency,
+        amount: this.sum(entry.postings, PostingDirection.DEBIT, entry.currency),
+        timestamp: entry.createdAt
+      });
+    } catch (error) {
+      this.logger.error(`[${operationId}] Failed to post journal entry`, {
+        error,
+        entryId: entry.id,
+        transactionId: entry.transactionId
+      });
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to post journal entry',
+        ErrorCode.INTERNAL_ERROR,
+        { entryId: entry.id, transactionId: entry.transactionId }
+      );
+    }
+  }
+
+  /**
+   * Get the journal entries posted for a transaction
+   */
+  async getEntries(transactionId: string): Promise<JournalEntry[]> {
+    return this.store.getEntries(transactionId);
+  }
+
+  /**
+   * List ledger accounts
+   */
+  async listAccounts(options: LedgerAccountQuery = {}): Promise<LedgerAccount[]> {
+    return this.store.listAccounts(options);
+  }
+
+  /**
+   * Get the balance of a single account
+   */
+  async getAccountBalance(accountId: string): Promise<AccountBalance> {
+    const account = await this.store.getAccount(accountId);
+    if (!account) {
+      throw errorHandler.createError(
+        `Ledger account not found: ${accountId}`,
+        ErrorCode.LEDGER_ACCOUNT_NOT_FOUND,
+        { accountId }
+      );
+    }
+
+    const totals = await this.store.getTotals({ currency: account.currency });
+    const accountTotals = totals.find(t => t.account.id === accountId)
+      || { account, debits: 0, credits: 0 };
+
+    return this.toBalance(accountTotals);
+  }
+
+  /**
+   * Get the balances of a customer's accounts, one per currency
+   */
+  async getCustomerBalances(customerId: string): Promise<AccountBalance[]> {
+    const totals = await this.store.getTotals({ customerId });
+    return totals.map(t => this.toBalance(t));
+  }
+
+  /**
+   * Get account balances, optionally narrowed by customer, currency or type
+   */
+  async getBalances(options: LedgerAccountQuery = {}): Promise<AccountBalance[]> {
+    const totals = await this.store.getTotals(options);
+    return totals.map(t => this.toBalance(t));
+  }
+
+  /**
+   * Sum balances per currency and account type
+   */
+  async getCurrencyBalances(): Promise<CurrencyBalance[]> {
+    const balances = await this.getBalances();
+    const byCurrency = new Map<string, CurrencyBalance>();
+
+    for (const balance of balances) {
+      const currency = balance.account.currency;
+
+      if (!byCurrency.has(currency)) {
+        byCurrency.set(currency, {
+          currency,
+          balances: {
+            [LedgerAccountType.ASSET]: 0,
+            [LedgerAccountType.LIABILITY]: 0,
+            [LedgerAccountType.EQUITY]: 0,
+            [LedgerAccountType.REVENUE]: 0,
+            [LedgerAccountType.EXPENSE]: 0
+          }
+        });
+      }
+
+      const currencyBalance = byCurrency.get(currency)!;
+      currencyBalance.balances[balance.account.type] = this.currencyManager.roundAmount(
+        currencyBalance.balances[balance.account.type] + balance.balance,
+        currency
+      );
+    }
+
+    return Array.from(byCurrency.values())
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  /**
+   * Build a trial balance for one currency. Each account's net balance is
+   * listed on its debit or credit side; the two columns must agree.
+   */
+  async getTrialBalance(currency: string): Promise<TrialBalance> {
+    const totals = await this.store.getTotals({ currency });
+    const lines: TrialBalanceLine[] = totals.map(t => {
+      const net = this.currencyManager.roundAmount(t.debits - t.credits, currency);
+
+      return {
+        account: t.account,
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0
+      };
+    });
+
+    const totalDebits = this.currencyManager.roundAmount(
+      lines.reduce((sum, line) => sum + line.debit, 0),
+      currency
+    );
+    const totalCredits = this.currencyManager.roundAmount(
+      lines.reduce((sum, line) => sum + line.credit, 0),
+      currency
+    );
+
+    return {
+      currency,
+      lines,
+      totalDebits,
+      totalCredits,
+      balanced: totalDebits === totalCredits,
+      generatedAt: new Date()
+    };
+  }
+
+  private async buildSettlementEntry(transaction: Transaction): Promise<JournalEntry | null> {
+    const amount = this.currencyManager.roundAmount(
+      transaction.type === TransactionType.PAYMENT
+        ? transaction.metadata?.capturedAmount ?? transaction.amount
+        : transaction.amount,
+      transaction.currency
+    );
+
+    if (amount <= 0) {
+      return null;
+    }
+
+    const providerAccount = await this.providerBalanceAccount(transaction.currency);
+    const customerAccount = await this.customerAccount(transaction.customerId, transaction.currency);
+
+    // Payments bring money in from the customer; refunds and lost
+    // chargebacks send it back out
+    const [debitAccount, creditAccount, description] = transaction.type === TransactionType.PAYMENT
+      ? [providerAccount, customerAccount, `Payment ${transaction.id} captured`]
+      : transaction.type === TransactionType.REFUND
+        ? [customerAccount, providerAccount, `Refund ${transaction.id} paid out`]
+        : [customerAccount, providerAccount, `Chargeback ${transaction.id} lost`];
+
+    const postings = [
+      this.posting(debitAccount, PostingDirection.DEBIT, amount),
+      this.posting(creditAccount, PostingDirection.CREDIT, amount)
+    ];
+
+    // The provider keeps its fee out of a payment, so only the net amount
+    // reaches the provider balance. Fees settled in another currency cannot
+    // be posted in the same entry and are left to reconciliation.
+    const fees = transaction.fees;
+    if (
+      transaction.type === TransactionType.PAYMENT &&
+      fees &&
+      fees.feeAmount > 0 &&
+      fees.feeAmount < amount &&
+      fees.currency === transaction.currency
+    ) {
+      const feeAmount = this.currencyManager.roundAmount(fees.feeAmount, transaction.currency);
+      const feesAccount = await this.providerFeesAccount(transaction.currency);
+
+      postings[0] = this.posting(
+        providerAccount,
+        PostingDirection.DEBIT,
+        this.currencyManager.roundAmount(amount - feeAmount, transaction.currency)
+      );
+      postings.splice(1, 0, this.posting(feesAccount, PostingDirection.DEBIT, feeAmount));
+    }
+
+    return {
+      id: uuidv4(),
+      transactionId: transaction.id,
+      kind: JournalEntryKind.SETTLEMENT,
+      description,
+      currency: transaction.currency,
+      postings,
+      createdAt: new Date()
+    };
+  }
+
+  private async buildReversalEntry(transaction: Transaction): Promise<JournalEntry | null> {
+    const entries = await this.store.getEntries(transaction.id);
+    const settlement = entries.find(e => e.kind === JournalEntryKind.SETTLEMENT);
+
+    // Nothing was posted, so there is nothing to undo
+    if (!settlement || entries.some(e => e.kind === JournalEntryKind.REVERSAL)) {
+      return null;
+    }
+
+    return {
+      id: uuidv4(),
+      transactionId: transaction.id,
+      kind: JournalEntryKind.REVERSAL,
+      description: `Reversal: ${settlement.description}`,
+      currency: settlement.currency,
+      reversesEntryId: settlement.id,
+      postings: settlement.postings.map(posting => ({
+        ...posting,
+        id: uuidv4(),
+        direction: posting.direction === PostingDirection.DEBIT
+          ? PostingDirection.CREDIT
+          : PostingDirection.DEBIT
+      })),
+      createdAt: new Date()
+    };
+  }
+
+  private async providerBalanceAccount(currency: string): Promise<LedgerAccount> {
+    return this.store.ensureAccount({
+      id: uuidv4(),
+      code: `provider_balance:${currency}`,
+      name: `Provider balance (${currency})`,
+      type: LedgerAccountType.ASSET,
+      currency,
+      createdAt: new Date()
+    });
+  }
+
+  private async providerFeesAccount(currency: string): Promise<LedgerAccount> {
+    return this.store.ensureAccount({
+      id: uuidv4(),
+      code: `provider_fees:${currency}`,
+      name: `Provider fees (${currency})`,
+      type: LedgerAccountType.EXPENSE,
+      currency,
+      createdAt: new Date()
+    });
+  }
+
+  private async customerAccount(customerId: string, currency: string): Promise<LedgerAccount> {
+    return this.store.ensureAccount({
+      id: uuidv4(),
+      code: `customer:${customerId}:${currency}`,
+      name: `Customer ${customerId} (${currency})`,
+      type: LedgerAccountType.REVENUE,
+      currency,
+      customerId,
+      createdAt: new Date()
+    });
+  }
+
+  private posting(account: LedgerAccount, direction: PostingDirection, amount: number): Posting {
+    return {
+      id: uuidv4(),
+      accountId: account.id,
+      direction,
+      amount,
+      currency: account.currency
+    };
+  }
+
+  private assertBalanced(entry: JournalEntry): void {
+    const invalid = entry.postings.find(p => p.amount <= 0 || p.currency !== entry.currency);
+    const debits = this.sum(entry.postings, PostingDirection.DEBIT, entry.currency);
+    const credits = this.sum(entry.postings, PostingDirection.CREDIT, entry.currency);
+
+    if (entry.postings.length < 2 || invalid || debits !== credits) {
+      throw errorHandler.createError(
+        `Journal entry ${entry.id} does not balance`,
+        ErrorCode.LEDGER_ENTRY_UNBALANCED,
+        { entryId: entry.id, transactionId: entry.transactionId, debits, credits }
+      );
+    }
+  }
+
+  private sum(postings: Posting[], direction: PostingDirection, currency: string): number {
+    return this.currencyManager.roundAmount(
+      postings
+        .filter(p => p.direction === direction)
+        .reduce((total, p) => total + p.amount, 0),
+      currency
+    );
+  }
+
+  private toBalance(totals: AccountTotals): AccountBalance {
+    const { account } = totals;
+    const debits = this.currencyManager.roundAmount(totals.debits, account.currency);
+    const credits = this.currencyManager.roundAmount(totals.credits, account.currency);
+    const net = DEBIT_NORMAL_TYPES.includes(account.type) ? debits - credits : credits - debits;
+
+    return {
+      account,
+      debits,
+      credits,
+      balance: this.currencyManager.roundAmount(net, account.currency)
+    };
+  }
+
+  private async emit(event: string, data: any): Promise<void> {
+    if (this.eventEmitter) {
+      await this.eventEmitter.emit(event, data);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+// src/lib/payment/ledger/ledger.store.ts
+import { LedgerAccount, LedgerAccountType, JournalEntry, PostingDirection } from './types';
+import { Transaction, TransactionStatusChange } from '../types/transaction.types';
+import { TransactionStore } from '../transaction/store/transaction.store';
+import { OutboxStore, OutboxEvent } from '../events/outbox.store';
+
+export interface LedgerAccountQuery {
+  customerId?: string;
+  currency?: string;
+  type?: LedgerAccountType;
+}
+
+// Raw posting sums for one account
+export interface AccountTotals {
+  account: LedgerAccount;
+  debits: number;
+  credits: number;
+}
+
+export abstract class LedgerStore {
+  /**
+   * Create the account unless one with the same code already exists.
+   * Returns the stored account either way.
+   */
+  abstract ensureAccount(account: LedgerAccount): Promise<LedgerAccount>;
+  abstract getAccount(id: string): Promise<LedgerAccount | null>;
+  abstract listAccounts(options?: LedgerAccountQuery): Promise<LedgerAccount[]>;
+  abstract getEntries(transactionId: string): Promise<JournalEntry[]>;
+  abstract getTotals(options?: LedgerAccountQuery): Promise<AccountTotals[]>;
+
+  /**
+   * Write a journal entry together with the transaction change that caused
+   * it. Both are committed or neither is, so a transaction can never reach
+   * COMPLETED without its postings. Outbox events raised by the change and
+   * the status change itself are written in the same unit of work.
+   */
+  abstract commitEntry(
+    entry: JournalEntry,
+    transaction: Transaction,
+    events?: OutboxEvent[],
+    statusChange?: TransactionStatusChange
+  ): Promise<void>;
+}
+
+export class InMemoryLedgerStore extends LedgerStore {
+  private accounts: Map<string, LedgerAccount> = new Map();
+  private entries: JournalEntry[] = [];
+
+  // Transactions are written through the regular store; with nothing else
+  // running in between there is nothing to roll back
+  constructor(
+    private transactionStore: TransactionStore,
+    private outboxStore?: OutboxStore
+  ) {
+    super();
+  }
+
+  async ensureAccount(account: LedgerAccount): Promise<LedgerAccount> {
+    const existing = Array.from(this.accounts.values()).find(a => a.code === account.code);
+    if (existing) {
+      return { ...existing };
+    }
+
+    this.accounts.set(account.id, { ...account });
+    return { ...account };
+  }
+
+  async getAccount(id: string): Promise<LedgerAccount | null> {
+    const account = this.accounts.get(id);
+    return account ? { ...account } : null;
+  }
+
+  async listAccounts(options: LedgerAccountQuery = {}): Promise<LedgerAccount[]> {
+    let accounts = Array.from(this.accounts.values());
+
+    if (options.customerId) {
+      accounts = accounts.filter(a => a.customerId === options.customerId);
+    }
+
+    if (options.currency) {
+      accounts = accounts.filter(a => a.currency === options.currency);
+    }
+
+    if (options.type) {
+      accounts = accounts.filter(a => a.type === options.type);
+    }
+
+    return accounts
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .map(a => ({ ...a }));
+  }
+
+  async getEntries(transactionId: string): Promise<JournalEntry[]> {
+    return this.entries
+      .filter(e => e.transactionId === transactionId)
+      .map(e => this.copy(e));
+  }
+
+  async getTotals(options: LedgerAccountQuery = {}): Promise<AccountTotals[]> {
+    const accounts = await this.listAccounts(options);
+    const totals = new Map<string, AccountTotals>(
+      accounts.map(account => [account.id, { account, debits: 0, credits: 0 }] as [string, AccountTotals])
+    );
+
+    for (const entry of this.entries) {
+      for (const posting of entry.postings) {
+        const accountTotals = totals.get(posting.accountId);
+        if (!accountTotals) continue;
+
+        if (posting.direction === PostingDirection.DEBIT) {
+          accountTotals.debits += posting.amount;
+        } else {
+          accountTotals.credits += posting.amount;
+        }
+      }
+    }
+
+    return Array.from(totals.values());
+  }
+
+  async commitEntry(
+    entry: JournalEntry,
+    transaction: Transaction,
+    events: OutboxEvent[] = [],
+    statusChange?: TransactionStatusChange
+  ): Promise<void> {
+    if (events.length > 0 && !this.outboxStore) {
+      throw new Error('Outbox events were given but the ledger store has no outbox store');
+    }
+
+    // Mirrors the unique (transaction_id, kind) constraint in the database
+    if (this.entries.some(e => e.transactionId === entry.transactionId && e.kind === entry.kind)) {
+      throw new Error(`Journal entry ${entry.kind} already exists for transaction ${entry.transactionId}`);
+    }
+
+    if (statusChange) {
+      await this.transactionStore.saveWithStatusChange(transaction, statusChange);
+    } else {
+      await this.transactionStore.save(transaction);
+    }
+    this.entries.push(this.copy(entry));
+
+    if (events.length > 0) {
+      await this.outboxStore!.append(events);
+    }
+  }
+
+  private copy(entry: JournalEntry): JournalEntry {
+    return {
+      ...entry,
+      postings: entry.postings.map(p => ({ ...p }))
+    };
+  }
+}
@@ -0,0 +1,81 @@
+// src/lib/payment/ledger/types.ts
+export enum LedgerAccountType {
+  ASSET = 'asset',
+  LIABILITY = 'liability',
+  EQUITY = 'equity',
+  REVENUE = 'revenue',
+  EXPENSE = 'expense'
+}
+
+export enum PostingDirection {
+  DEBIT = 'debit',
+  CREDIT = 'credit'
+}
+
+export enum JournalEntryKind {
+  // Money actually moved: a capture, refund or lost chargeback
+  SETTLEMENT = 'settlement',
+  // Undoes a settlement entry when its transaction is rolled back
+  REVERSAL = 'reversal'
+}
+
+export interface LedgerAccount {
+  id: string;
+  // Stable lookup key, e.g. provider_balance:USD or customer:<id>:USD
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  currency: string;
+  customerId?: string;
+  createdAt: Date;
+}
+
+export interface Posting {
+  id: string;
+  accountId: string;
+  direction: PostingDirection;
+  // Always positive; the direction carries the sign
+  amount: number;
+  currency: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  transactionId: string;
+  kind: JournalEntryKind;
+  description: string;
+  currency: string;
+  postings: Posting[];
+  // Set on reversals
+  reversesEntryId?: string;
+  createdAt: Date;
+}
+
+export interface AccountBalance {
+  account: LedgerAccount;
+  debits: number;
+  credits: number;
+  // Signed towards the account's normal side: debits - credits for assets
+  // and expenses, credits - debits for everything else
+  balance: number;
+}
+
+export interface CurrencyBalance {
+  currency: string;
+  balances: Record<LedgerAccountType, number>;
+}
+
+export interface TrialBalanceLine {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  currency: string;
+  lines: TrialBalanceLine[];
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+  generatedAt: Date;
+}
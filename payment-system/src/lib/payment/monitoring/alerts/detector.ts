@@ -1,4 +1,7 @@
 // src/lib/payment/monitoring/alerts/detector.ts (continuation)
+import { MetricValue } from '../metrics/collector';
+import { AlertNotifier } from './notifier';
+
 export interface AlertRule {
   name: string;
   condition: (metrics: MetricValue[]) => boolean;
@@ -31,23 +34,34 @@ export class AlertDetector {
 
   async checkRules(metrics: Record<string, MetricValue[]>): Promise<void> {
     for (const rule of this.rules) {
-      const metricsForRule = metrics[rule.name] || [];
-      
-      if (rule.condition(metricsForRule)) {
-        const alert: Alert = {
-          id: `${rule.name}-${Date.now()}`,
-          ruleName: rule.name,
-          severity: rule.severity,
-          description: rule.description,
-          timestamp: new Date(),
-          metrics: metricsForRule,
-          acknowledged: false
-        };
-
-        this.alerts.push(alert);
-        await this.notifier.sendAlert(alert);
-      }
+      await this.evaluateRule(rule, metrics[rule.name] || []);
+    }
+  }
+
+  // Evaluate a single named rule, e.g. from a scheduled check that owns its own metrics
+  async checkRule(ruleName: string, metrics: MetricValue[]): Promise<Alert | null> {
+    const rule = this.rules.find(r => r.name === ruleName);
+    return rule ? this.evaluateRule(rule, metrics) : null;
+  }
+
+  private async evaluateRule(rule: AlertRule, metrics: MetricValue[]): Promise<Alert | null> {
+    if (!rule.condition(metrics)) {
+      return null;
     }
+
+    const alert: Alert = {
+      id: `${rule.name}-${Date.now()}`,
+      ruleName: rule.name,
+      severity: rule.severity,
+      description: rule.description,
+      timestamp: new Date(),
+      metrics,
+      acknowledged: false
+    };
+
+    this.alerts.push(alert);
+    await this.notifier.sendAlert(alert);
+    return alert;
   }
 
   getActiveAlerts(): Alert[] {
@@ -1,4 +1,6 @@
 // src/lib/payment/monitoring/alerts/notifier.ts
+import { Alert } from './detector';
+
 export interface NotificationChannel {
   send(alert: Alert): Promise<void>;
 }
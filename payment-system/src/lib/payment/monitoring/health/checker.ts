@@ -1,4 +1,4 @@
-/ src/lib/payment/monitoring/health/checker.ts
+// src/lib/payment/monitoring/health/checker.ts
 import { EventEmitter } from 'events';
 
 export interface HealthStatus {
@@ -7,7 +7,7 @@ export interface HealthStatus {
   timestamp: Date;
 }
 
-interface ComponentHealth {
+export interface ComponentHealth {
   status: 'UP' | 'DOWN' | 'DEGRADED';
   details?: Record<string, any>;
 }
@@ -0,0 +1,49 @@
+// src/lib/payment/monitoring/health/indicators.ts
+import { ComponentHealth, HealthChecker } from './checker';
+import { ProviderRouter } from '../../providers/provider-router';
+import { CircuitState } from '../../providers/circuit-breaker';
+
+/**
+ * Reports provider circuit breakers: DEGRADED while any breaker is not
+ * closed, DOWN once every provider's breaker is open. Given a provider name,
+ * only that provider's breaker is reported.
+ */
+export const createProviderCircuitIndicator = (router: ProviderRouter, provider?: string) =>
+  async (): Promise<ComponentHealth> => {
+    const breakers = router.getCircuitBreakerSnapshots()
+      .filter(breaker => !provider || breaker.provider === provider);
+    const open = breakers.filter(breaker => breaker.state === CircuitState.OPEN);
+    const closed = breakers.filter(breaker => breaker.state === CircuitState.CLOSED);
+
+    const status = breakers.length > 0 && open.length === breakers.length
+      ? 'DOWN'
+      : closed.length === breakers.length ? 'UP' : 'DEGRADED';
+
+    return {
+      status,
+      details: {
+        providers: breakers.reduce((details, breaker) => ({
+          ...details,
+          [breaker.provider]: {
+            state: breaker.state,
+            failureRate: breaker.failureRate,
+            calls: breaker.calls,
+            retryAt: breaker.retryAt
+          }
+        }), {} as Record<string, any>)
+      }
+    };
+  };
+
+/**
+ * Registers a `provider:<name>` circuit indicator for each provider of the
+ * router
+ */
+export const registerProviderCircuitIndicators = (
+  checker: HealthChecker,
+  router: ProviderRouter
+): void => {
+  router.getProviderNames().forEach(name =>
+    checker.registerIndicator(`provider:${name}`, createProviderCircuitIndicator(router, name))
+  );
+};
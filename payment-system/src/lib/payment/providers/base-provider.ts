@@ -3,6 +3,8 @@ import {
   PaymentProviderInterface,
   ProviderConfig,
   CreatePaymentInput,
+  CapturePaymentInput,
+  RefundPaymentInput,
   PaymentResult,
   PaymentMethod,
   AddPaymentMethodInput
@@ -10,11 +12,13 @@ import {
 import { errorHandler, ErrorCode } from '../utils/error';
 import { validatePaymentInput, validateAddPaymentMethodInput } from '../utils/validation';
 import { PaymentLogger } from '../utils/logger';
+import { CircuitBreaker } from './circuit-breaker';
 
 export abstract class BasePaymentProvider implements PaymentProviderInterface {
   protected config: ProviderConfig;
   protected initialized: boolean = false;
   protected logger: PaymentLogger;
+  protected circuitBreaker?: CircuitBreaker;
 
   constructor() {
     this.logger = new PaymentLogger('info', this.constructor.name);
@@ -62,6 +66,34 @@ export abstract class BasePaymentProvider implements PaymentProviderInterface {
     }
   }
 
+  /**
+   * Attach a circuit breaker that all calls to the provider's API go through
+   */
+  setCircuitBreaker(circuitBreaker: CircuitBreaker): void {
+    this.circuitBreaker = circuitBreaker;
+  }
+
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Call the provider's API, through the circuit breaker if one is attached
+   */
+  protected callApi<T>(call: () => Promise<T>): Promise<T> {
+    return this.circuitBreaker
+      ? this.circuitBreaker.execute(call, error => this.isProviderFault(error))
+      : call();
+  }
+
+  /**
+   * Whether an API error means the provider is unhealthy, as opposed to the
+   * request being declined or invalid. Providers should narrow this down.
+   */
+  protected isProviderFault(_error: any): boolean {
+    return true;
+  }
+
   protected validateCreatePaymentInput(data: CreatePaymentInput): void {
     validatePaymentInput(data);
   }
@@ -96,6 +128,10 @@ export abstract class BasePaymentProvider implements PaymentProviderInterface {
 
   abstract createPayment(data: CreatePaymentInput): Promise<PaymentResult>;
   abstract confirmPayment(paymentId: string): Promise<PaymentResult>;
+  abstract authorizePayment(data: CreatePaymentInput): Promise<PaymentResult>;
+  abstract capturePayment(paymentId: string, data?: CapturePaymentInput): Promise<PaymentResult>;
+  abstract voidPayment(paymentId: string, reason?: string): Promise<PaymentResult>;
+  abstract refundPayment(paymentId: string, data?: RefundPaymentInput): Promise<PaymentResult>;
   abstract getPaymentMethods(customerId: string): Promise<PaymentMethod[]>;
   abstract addPaymentMethod(customerId: string, data: AddPaymentMethodInput): Promise<PaymentMethod>;
   abstract removePaymentMethod(methodId: string): Promise<void>;
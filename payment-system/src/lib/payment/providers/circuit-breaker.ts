@@ -0,0 +1,248 @@
+// src/lib/payment/providers/circuit-breaker.ts
+import { EventEmitter } from '../events/event.emitter';
+import { errorHandler, ErrorCode, PaymentError } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export enum CircuitState {
+  // Calls go through and their outcomes are tracked
+  CLOSED = 'closed',
+  // Calls are rejected without reaching the provider
+  OPEN = 'open',
+  // A limited number of trial calls decide whether to close again
+  HALF_OPEN = 'half_open'
+}
+
+export interface CircuitBreakerOptions {
+  // Share of failed calls within the window that opens the breaker
+  failureRateThreshold?: number;
+  // Calls needed within the window before the failure rate is acted on
+  minimumCalls?: number;
+  windowMs?: number;
+  // Time the breaker stays open before trial calls are let through
+  openDurationMs?: number;
+  // Successful trial calls needed to close the breaker
+  halfOpenMaxCalls?: number;
+  // Calls taking longer than this count as failures
+  callTimeoutMs?: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  provider: string;
+  state: CircuitState;
+  calls: number;
+  failures: number;
+  failureRate: number;
+  openedAt?: Date;
+  // When an open breaker starts letting trial calls through
+  retryAt?: Date;
+}
+
+interface CallOutcome {
+  at: number;
+  failed: boolean;
+}
+
+/**
+ * Tracks the health of one provider from the outcomes of the calls made to
+ * it and stops sending it traffic while it is failing
+ */
+export class CircuitBreaker {
+  private logger: PaymentLogger;
+  private eventEmitter?: EventEmitter;
+  private now: () => number;
+  private state: CircuitState = CircuitState.CLOSED;
+  private outcomes: CallOutcome[] = [];
+  private openedAt?: number;
+  private halfOpenInFlight: number = 0;
+  private halfOpenSuccesses: number = 0;
+
+  private failureRateThreshold: number;
+  private minimumCalls: number;
+  private windowMs: number;
+  private openDurationMs: number;
+  private halfOpenMaxCalls: number;
+  private callTimeoutMs: number;
+
+  constructor(
+    readonly provider: string,
+    options: CircuitBreakerOptions = {},
+    dependencies: {
+      eventEmitter?: EventEmitter;
+      // Clock, replaceable in tests
+      now?: () => number;
+    } = {}
+  ) {
+    this.logger = new PaymentLogger('info', 'CircuitBreaker');
+    this.eventEmitter = dependencies.eventEmitter;
+    this.now = dependencies.now || Date.now;
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumCalls = options.minimumCalls ?? 10;
+    this.windowMs = options.windowMs ?? 60 * 1000;
+    this.openDurationMs = options.openDurationMs ?? 30 * 1000;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.callTimeoutMs = options.callTimeoutMs ?? 15 * 1000;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether a call would currently be let through. Unlike execute this
+   * does not reserve a trial call.
+   */
+  isCallPermitted(): boolean {
+    switch (this.state) {
+      case CircuitState.CLOSED:
+        return true;
+      case CircuitState.OPEN:
+        return this.now() >= this.openedAt! + this.openDurationMs;
+      case CircuitState.HALF_OPEN:
+        return this.halfOpenInFlight < this.halfOpenMaxCalls;
+    }
+  }
+
+  /**
+   * Run a provider call through the breaker
+   * @param call The call to the provider
+   * @param isFailure Decides whether an error reflects on the provider's
+   *   health; declines and invalid requests should not open the breaker
+   */
+  async execute<T>(
+    call: () => Promise<T>,
+    isFailure: (error: any) => boolean = () => true
+  ): Promise<T> {
+    if (!this.acquire()) {
+      throw errorHandler.createError(
+        `Circuit breaker for provider "${this.provider}" is open`,
+        ErrorCode.PROVIDER_CIRCUIT_OPEN,
+        { provider: this.provider, retryAt: this.getRetryAt() }
+      );
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(errorHandler.createError(
+        `Provider "${this.provider}" did not respond within ${this.callTimeoutMs}ms`,
+        ErrorCode.PROVIDER_COMMUNICATION_ERROR,
+        { provider: this.provider, timeoutMs: this.callTimeoutMs, isTimeout: true }
+      )), this.callTimeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([call(), timeout]);
+      this.recordOutcome(false);
+      return result;
+    } catch (error) {
+      const timedOut = error instanceof PaymentError && error.context?.isTimeout === true;
+      this.recordOutcome(timedOut || isFailure(error));
+      throw error;
+    } finally {
+      clearTimeout(timer!);
+    }
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const outcomes = this.getWindow();
+    const failures = outcomes.filter(outcome => outcome.failed).length;
+
+    return {
+      provider: this.provider,
+      state: this.state,
+      calls: outcomes.length,
+      failures,
+      failureRate: outcomes.length > 0 ? failures / outcomes.length : 0,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt) : undefined,
+      retryAt: this.getRetryAt()
+    };
+  }
+
+  private acquire(): boolean {
+    if (this.state === CircuitState.OPEN && this.isCallPermitted()) {
+      this.transition(CircuitState.HALF_OPEN);
+    }
+
+    if (this.state === CircuitState.HALF_OPEN) {
+      if (this.halfOpenInFlight >= this.halfOpenMaxCalls) {
+        return false;
+      }
+      this.halfOpenInFlight++;
+      return true;
+    }
+
+    return this.state === CircuitState.CLOSED;
+  }
+
+  private recordOutcome(failed: boolean): void {
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+
+      if (failed) {
+        this.transition(CircuitState.OPEN);
+      } else if (++this.halfOpenSuccesses >= this.halfOpenMaxCalls) {
+        this.transition(CircuitState.CLOSED);
+      }
+      return;
+    }
+
+    // Calls started before the breaker opened may still complete
+    if (this.state === CircuitState.OPEN) {
+      return;
+    }
+
+    this.outcomes.push({ at: this.now(), failed });
+    const { calls, failureRate } = this.getSnapshot();
+
+    if (failed && calls >= this.minimumCalls && failureRate >= this.failureRateThreshold) {
+      this.transition(CircuitState.OPEN);
+    }
+  }
+
+  private getWindow(): CallOutcome[] {
+    const since = this.now() - this.windowMs;
+    this.outcomes = this.outcomes.filter(outcome => outcome.at > since);
+    return this.outcomes;
+  }
+
+  private getRetryAt(): Date | undefined {
+    return this.state === CircuitState.OPEN && this.openedAt !== undefined
+      ? new Date(this.openedAt + this.openDurationMs)
+      : undefined;
+  }
+
+  private transition(state: CircuitState): void {
+    const previousState = this.state;
+    const snapshot = this.getSnapshot();
+
+    this.state = state;
+    this.halfOpenInFlight = 0;
+    this.halfOpenSuccesses = 0;
+
+    if (state === CircuitState.OPEN) {
+      this.openedAt = this.now();
+    } else if (state === CircuitState.CLOSED) {
+      this.openedAt = undefined;
+      this.outcomes = [];
+    }
+
+    const log = state === CircuitState.OPEN ? this.logger.warn : this.logger.info;
+    log.call(this.logger, `Circuit breaker for ${this.provider} ${previousState} -> ${state}`, {
+      failureRate: snapshot.failureRate,
+      calls: snapshot.calls
+    });
+
+    if (this.eventEmitter) {
+      this.eventEmitter.emit('provider.circuit_state_changed', {
+        provider: this.provider,
+        previousState,
+        state,
+        failureRate: snapshot.failureRate,
+        calls: snapshot.calls,
+        retryAt: this.getRetryAt(),
+        timestamp: new Date(this.now())
+      }).catch(error => {
+        this.logger.error('Failed to emit circuit breaker state change', { error });
+      });
+    }
+  }
+}
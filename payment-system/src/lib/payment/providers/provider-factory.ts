@@ -1,11 +1,13 @@
 // src/lib/payment/providers/provider-factory.ts
 import { PaymentProviderInterface, ProviderConfig } from '../types/provider.types';
 import { StripeProvider } from './stripe-provider';
+import { SandboxProvider } from './sandbox-provider';
 import { errorHandler, ErrorCode } from '../utils/error';
 
 export class PaymentProviderFactory {
   private static providers: Record<string, new () => PaymentProviderInterface> = {
-    stripe: StripeProvider
+    stripe: StripeProvider,
+    sandbox: SandboxProvider
   };
 
   static async createProvider(
@@ -55,6 +57,10 @@ export class PaymentProviderFactory {
       'initialize', 
       'createPayment', 
       'confirmPayment', 
+      'authorizePayment',
+      'capturePayment',
+      'voidPayment',
+      'refundPayment',
       'getPaymentMethods', 
       'addPaymentMethod', 
       'removePaymentMethod'
@@ -0,0 +1,235 @@
+// src/lib/payment/providers/provider-router.ts
+import { PaymentProviderInterface, CreatePaymentInput } from '../types/provider.types';
+import { Transaction } from '../types/transaction.types';
+import { ProviderRoute, RoutingConfig, defaultRoutingConfig } from '../config/routing.config';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+import { EventEmitter } from '../events/event.emitter';
+import { BasePaymentProvider } from './base-provider';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerSnapshot } from './circuit-breaker';
+
+/**
+ * Payment attributes routes are matched against
+ */
+export interface RoutingContext {
+  amount: number;
+  currency: string;
+  cardBrand?: string;
+  country?: string;
+}
+
+export interface ProviderSelection {
+  name: string;
+  provider: PaymentProviderInterface;
+}
+
+/**
+ * Chooses a provider for each new payment and resolves the provider of an
+ * existing transaction for follow-up calls. Every provider gets a circuit
+ * breaker; new payments avoid providers whose breaker is open.
+ */
+export class ProviderRouter {
+  private logger: PaymentLogger;
+  private providers: Map<string, PaymentProviderInterface> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private config: RoutingConfig;
+  private random: () => number;
+  private circuitBreakerOptions: CircuitBreakerOptions;
+  private eventEmitter?: EventEmitter;
+
+  constructor(
+    config: RoutingConfig = defaultRoutingConfig,
+    options: {
+      // Source of randomness for weighted selection, replaceable in tests
+      random?: () => number;
+      circuitBreaker?: CircuitBreakerOptions;
+      eventEmitter?: EventEmitter;
+      logLevel?: 'debug' | 'info' | 'warn' | 'error';
+    } = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'ProviderRouter');
+    this.config = config;
+    this.random = options.random || Math.random;
+    this.circuitBreakerOptions = options.circuitBreaker || {};
+    this.eventEmitter = options.eventEmitter;
+  }
+
+  /**
+   * Router that sends everything to a single provider
+   */
+  static forProvider(
+    provider: PaymentProviderInterface,
+    name: string = defaultRoutingConfig.defaultProvider
+  ): ProviderRouter {
+    return new ProviderRouter({ defaultProvider: name, routes: [] }).register(name, provider);
+  }
+
+  register(
+    name: string,
+    provider: PaymentProviderInterface,
+    circuitBreaker?: CircuitBreaker
+  ): this {
+    const breaker = circuitBreaker || new CircuitBreaker(name, this.circuitBreakerOptions, {
+      eventEmitter: this.eventEmitter
+    });
+
+    // Providers built on BasePaymentProvider report their call outcomes
+    if (provider instanceof BasePaymentProvider) {
+      provider.setCircuitBreaker(breaker);
+    }
+
+    this.providers.set(name, provider);
+    this.breakers.set(name, breaker);
+    return this;
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  getCircuitBreaker(name: string): CircuitBreaker | undefined {
+    return this.breakers.get(name);
+  }
+
+  getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.getSnapshot());
+  }
+
+  /**
+   * Get a registered provider by name
+   */
+  getProvider(name: string): PaymentProviderInterface {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw errorHandler.createError(
+        `Payment provider "${name}" is not registered`,
+        ErrorCode.CONFIGURATION_ERROR,
+        { provider: name, registeredProviders: this.getProviderNames() }
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Provider that processed a transaction. Transactions created before
+   * routing was introduced have none recorded and belong to the default.
+   */
+  getProviderForTransaction(transaction: Pick<Transaction, 'id' | 'provider'>): ProviderSelection {
+    const name = transaction.provider || this.config.defaultProvider;
+
+    return { name, provider: this.getProvider(name) };
+  }
+
+  /**
+   * Choose a provider for a new payment. Among the routes matching the
+   * payment one is picked at random in proportion to its weight; without a
+   * match the default provider is used. When all of those have an open
+   * circuit breaker the first healthy matching failover route is used.
+   */
+  selectProvider(input: CreatePaymentInput): ProviderSelection {
+    const context = this.getRoutingContext(input);
+    const matching = this.config.routes.filter(route =>
+      route.weight > 0 && this.providers.has(route.provider) && this.matches(route, context)
+    );
+    const candidates = matching.length > 0
+      ? matching
+      : [{ provider: this.config.defaultProvider, weight: 1 }];
+    const available = candidates.filter(route => this.isAvailable(route.provider));
+
+    if (available.length > 0) {
+      const name = this.pickWeighted(available).provider;
+
+      this.logger.debug('Provider selected', {
+        provider: name,
+        candidates: available.map(route => route.provider),
+        ...context
+      });
+
+      return { name, provider: this.getProvider(name) };
+    }
+
+    const failover = (this.config.failover || []).find(route =>
+      this.providers.has(route.provider) &&
+      this.isAvailable(route.provider) &&
+      this.matches(route, context)
+    );
+
+    if (!failover) {
+      // Nothing healthy can take the payment; the call fails fast on the
+      // open breaker instead of waiting on the provider
+      const name = this.pickWeighted(candidates).provider;
+      this.logger.warn('No healthy provider available for payment', { provider: name, ...context });
+
+      return { name, provider: this.getProvider(name) };
+    }
+
+    this.logger.warn(`Failing over to provider ${failover.provider}`, {
+      unavailable: candidates.map(route => route.provider),
+      ...context
+    });
+
+    return { name: failover.provider, provider: this.getProvider(failover.provider) };
+  }
+
+  private isAvailable(name: string): boolean {
+    const breaker = this.breakers.get(name);
+    return !breaker || breaker.isCallPermitted();
+  }
+
+  private getRoutingContext(input: CreatePaymentInput): RoutingContext {
+    const paymentMethod = typeof input.paymentMethod === 'string' ? undefined : input.paymentMethod;
+    const cardBrand = paymentMethod?.details?.brand || input.metadata?.cardBrand;
+    const country = input.customer.metadata?.country || input.metadata?.country;
+
+    return {
+      amount: input.amount.amount,
+      currency: input.amount.currency.toUpperCase(),
+      cardBrand: cardBrand ? String(cardBrand).toLowerCase() : undefined,
+      country: country ? String(country).toUpperCase() : undefined
+    };
+  }
+
+  private matches(route: ProviderRoute, context: RoutingContext): boolean {
+    if (route.currencies && !route.currencies.some(c => c.toUpperCase() === context.currency)) {
+      return false;
+    }
+
+    if (route.minAmount !== undefined && context.amount < route.minAmount) {
+      return false;
+    }
+
+    if (route.maxAmount !== undefined && context.amount > route.maxAmount) {
+      return false;
+    }
+
+    // A route restricted to certain brands or countries cannot take a
+    // payment whose brand or country is unknown
+    if (route.cardBrands &&
+        !(context.cardBrand && route.cardBrands.some(b => b.toLowerCase() === context.cardBrand))) {
+      return false;
+    }
+
+    if (route.countries &&
+        !(context.country && route.countries.some(c => c.toUpperCase() === context.country))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private pickWeighted(routes: ProviderRoute[]): ProviderRoute {
+    const total = routes.reduce((sum, route) => sum + route.weight, 0);
+    let remaining = this.random() * total;
+
+    for (const route of routes) {
+      remaining -= route.weight;
+      if (remaining < 0) {
+        return route;
+      }
+    }
+
+    return routes[routes.length - 1];
+  }
+}
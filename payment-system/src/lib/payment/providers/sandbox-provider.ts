@@ -0,0 +1,721 @@
+// src/lib/payment/providers/sandbox-provider.ts
+import crypto from 'crypto';
+import { BasePaymentProvider } from './base-provider';
+import {
+  CreatePaymentInput,
+  CapturePaymentInput,
+  RefundPaymentInput,
+  AddPaymentMethodInput,
+  ProviderConfig
+} from '../types/provider.types';
+import { PaymentMethod, PaymentResult } from '../types/common.types';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * What the sandbox does with a payment
+ */
+export type SandboxOutcome =
+  | { type: 'success' }
+  | { type: 'decline'; code: string; message?: string }
+  // The call fails after timeoutMs. Unless processed is false the payment
+  // still goes through, as when a real provider times out mid-request.
+  | { type: 'timeout'; processed?: boolean }
+  // The call fails before the payment is created
+  | { type: 'network_error' }
+  // 3-D Secure style authentication, completed by confirmPayment
+  | { type: 'requires_action' }
+  // The payment stays processing and its result arrives by webhook
+  | { type: 'async'; result?: 'succeeded' | 'failed'; delayMs?: number };
+
+export type SandboxPaymentStatus =
+  | 'requires_action'
+  | 'requires_capture'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface SandboxPayment {
+  id: string;
+  status: SandboxPaymentStatus;
+  // Amounts in minor currency units, as the provider APIs report them
+  amount: number;
+  amountCaptured: number;
+  amountRefunded: number;
+  currency: string;
+  customerId: string;
+  captureMethod: 'automatic' | 'manual';
+  metadata: Record<string, any>;
+  lastError?: { code: string; message: string };
+  createdAt: Date;
+}
+
+export interface SandboxWebhookEvent {
+  id: string;
+  object: 'event';
+  type: string;
+  created: number;
+  livemode: false;
+  data: { object: Record<string, any> };
+}
+
+export type SandboxWebhookHandler = (
+  event: SandboxWebhookEvent,
+  headers: Record<string, string>
+) => Promise<void>;
+
+/**
+ * Sandbox settings, passed in the provider config's options
+ */
+export interface SandboxOptions {
+  // Added to and overriding the default magic card numbers and amounts
+  cards?: Record<string, SandboxOutcome>;
+  // Keyed by amount in minor units, e.g. 4002 for 40.02
+  amounts?: Record<number, SandboxOutcome>;
+  defaultOutcome?: SandboxOutcome;
+  // How long a timed out call hangs before failing
+  timeoutMs?: number;
+  // Delay before an async payment is settled
+  asyncConfirmationDelayMs?: number;
+  // Webhooks are posted here, e.g. http://localhost:3000/api/webhooks/stripe
+  webhookUrl?: string;
+  // Receives webhooks in process, for running without a server
+  webhookHandler?: SandboxWebhookHandler;
+}
+
+/**
+ * Magic card numbers, following the provider test card conventions
+ */
+export const SANDBOX_CARDS: Record<string, SandboxOutcome> = {
+  '4242424242424242': { type: 'success' },
+  '4000000000000002': { type: 'decline', code: 'card_declined' },
+  '4000000000009995': { type: 'decline', code: 'insufficient_funds' },
+  '4000000000000069': { type: 'decline', code: 'expired_card' },
+  '4000000000000119': { type: 'decline', code: 'processing_error' },
+  '4000000000003220': { type: 'requires_action' },
+  '4000000000000408': { type: 'timeout' },
+  '4000000000000503': { type: 'network_error' },
+  '4000000000000077': { type: 'async' },
+  '4000000000000341': { type: 'async', result: 'failed' }
+};
+
+/**
+ * Magic amounts in minor units, for payment methods without a card number
+ */
+export const SANDBOX_AMOUNTS: Record<number, SandboxOutcome> = {
+  4002: { type: 'decline', code: 'card_declined' },
+  4051: { type: 'decline', code: 'insufficient_funds' },
+  4080: { type: 'timeout' },
+  5030: { type: 'network_error' },
+  2020: { type: 'async' }
+};
+
+const PAYMENT_METHOD_ALIASES: Record<string, string> = {
+  pm_card_visa: '4242424242424242',
+  pm_card_chargeDeclined: '4000000000000002',
+  pm_card_chargeDeclinedInsufficientFunds: '4000000000009995',
+  pm_card_chargeDeclinedExpiredCard: '4000000000000069',
+  pm_card_threeDSecureRequired: '4000000000003220'
+};
+
+/**
+ * Provider that keeps its state in memory and answers according to magic
+ * card numbers and amounts, so payment flows can run without network access
+ */
+export class SandboxProvider extends BasePaymentProvider {
+  private payments: Map<string, SandboxPayment> = new Map();
+  private paymentMethods: Map<string, PaymentMethod> = new Map();
+  private pendingTimers: Map<string, NodeJS.Timeout> = new Map();
+  private pendingDeliveries: Set<Promise<void>> = new Set();
+  private options: SandboxOptions = {};
+
+  async initialize(config: ProviderConfig): Promise<void> {
+    await super.initialize(config);
+
+    this.options = config.options || {};
+    this.logger.info('Sandbox provider initialized', {
+      webhookUrl: this.options.webhookUrl
+    });
+  }
+
+  async createPayment(data: CreatePaymentInput): Promise<PaymentResult> {
+    return this.startPayment(data, 'automatic');
+  }
+
+  async authorizePayment(data: CreatePaymentInput): Promise<PaymentResult> {
+    return this.startPayment(data, 'manual');
+  }
+
+  async confirmPayment(paymentId: string): Promise<PaymentResult> {
+    this.checkInitialization();
+
+    try {
+      const payment = await this.callApi(async () => {
+        const payment = this.getPayment(paymentId);
+
+        if (payment.status !== 'requires_action') {
+          throw this.unexpectedState(payment, 'confirm');
+        }
+
+        return this.settle(payment, 'succeeded');
+      });
+
+      return this.toResult(payment);
+    } catch (error) {
+      return this.toErrorResult(error);
+    }
+  }
+
+  async capturePayment(paymentId: string, data: CapturePaymentInput = {}): Promise<PaymentResult> {
+    this.checkInitialization();
+
+    try {
+      const payment = await this.callApi(async () => {
+        const payment = this.getPayment(paymentId);
+
+        if (payment.status !== 'requires_capture') {
+          throw this.unexpectedState(payment, 'capture');
+        }
+
+        const amount = data.amount !== undefined ? this.toMinorUnits(data.amount) : payment.amount;
+        if (amount <= 0 || amount > payment.amount) {
+          throw this.apiError('amount_too_large', `Cannot capture ${amount} of ${payment.amount}`);
+        }
+
+        payment.amountCaptured = amount;
+        return this.settle(payment, 'succeeded');
+      });
+
+      return this.toResult(payment);
+    } catch (error) {
+      return this.toErrorResult(error);
+    }
+  }
+
+  async voidPayment(paymentId: string, reason?: string): Promise<PaymentResult> {
+    this.checkInitialization();
+
+    try {
+      const payment = await this.callApi(async () => {
+        const payment = this.getPayment(paymentId);
+
+        if (!['requires_action', 'requires_capture', 'processing'].includes(payment.status)) {
+          throw this.unexpectedState(payment, 'cancel');
+        }
+
+        this.clearPendingTimer(payment.id);
+        payment.status = 'canceled';
+        payment.metadata = { ...payment.metadata, cancellationReason: reason };
+        this.sendWebhook('payment_intent.canceled', this.toPaymentIntent(payment));
+        return payment;
+      });
+
+      return this.toResult(payment);
+    } catch (error) {
+      return this.toErrorResult(error);
+    }
+  }
+
+  async refundPayment(paymentId: string, data: RefundPaymentInput = {}): Promise<PaymentResult> {
+    this.checkInitialization();
+
+    try {
+      const refund = await this.callApi(async () => {
+        const payment = this.getPayment(paymentId);
+
+        if (payment.status !== 'succeeded') {
+          throw this.unexpectedState(payment, 'refund');
+        }
+
+        const refundable = payment.amountCaptured - payment.amountRefunded;
+        const amount = data.amount !== undefined ? this.toMinorUnits(data.amount) : refundable;
+        if (amount <= 0 || amount > refundable) {
+          throw this.apiError(
+            'charge_already_refunded',
+            `Cannot refund ${amount}; ${refundable} remains refundable`
+          );
+        }
+
+        payment.amountRefunded += amount;
+        const refund = { id: `re_sandbox_${uuidv4()}`, amount, reason: data.reason };
+
+        this.sendWebhook('charge.refunded', {
+          id: `ch_${payment.id}`,
+          object: 'charge',
+          payment_intent: payment.id,
+          amount: payment.amountCaptured,
+          amount_refunded: payment.amountRefunded,
+          currency: payment.currency,
+          refunded: payment.amountRefunded === payment.amountCaptured,
+          metadata: payment.metadata
+        });
+
+        return refund;
+      });
+
+      return {
+        success: true,
+        transactionId: refund.id,
+        metadata: { paymentId, amount: refund.amount / 100, reason: refund.reason }
+      };
+    } catch (error) {
+      return this.toErrorResult(error);
+    }
+  }
+
+  async getPaymentMethods(customerId: string): Promise<PaymentMethod[]> {
+    this.checkInitialization();
+
+    return Array.from(this.paymentMethods.values())
+      .filter(method => method.customerId === customerId);
+  }
+
+  async addPaymentMethod(customerId: string, data: AddPaymentMethodInput): Promise<PaymentMethod> {
+    this.checkInitialization();
+    this.validateAddPaymentMethodInput(data);
+
+    const existing = await this.getPaymentMethods(customerId);
+    const isDefault = data.setAsDefault || existing.length === 0;
+
+    if (isDefault) {
+      existing.forEach(method => { method.isDefault = false; });
+    }
+
+    const number = data.details.number ? String(data.details.number).replace(/\s/g, '') : undefined;
+    const method: PaymentMethod = {
+      id: `pm_sandbox_${uuidv4()}`,
+      type: data.type,
+      details: {
+        ...data.details,
+        ...(number && { number, last4: number.slice(-4) })
+      },
+      isDefault,
+      customerId
+    };
+
+    this.paymentMethods.set(method.id, method);
+    return method;
+  }
+
+  async removePaymentMethod(methodId: string): Promise<void> {
+    this.checkInitialization();
+
+    if (!this.paymentMethods.delete(methodId)) {
+      throw errorHandler.createError(
+        `Payment method ${methodId} not found`,
+        ErrorCode.PAYMENT_METHOD_INVALID,
+        { methodId }
+      );
+    }
+  }
+
+  async verifyWebhookSignature(payload: string, signature: string): Promise<boolean> {
+    this.checkInitialization();
+
+    const parts = signature.split(',');
+    const timestamp = parts.find(part => part.startsWith('t='))?.substring(2);
+    const value = parts.find(part => part.startsWith('v1='))?.substring(3);
+
+    if (!timestamp || !value) {
+      return false;
+    }
+
+    const expected = this.sign(payload, timestamp);
+    return expected.length === value.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(value));
+  }
+
+  /**
+   * Status lookup used by the recovery strategies. Accepts the sandbox
+   * payment ID or the transaction ID the payment was created for.
+   */
+  async getTransactionStatus(reference: string): Promise<{
+    status: SandboxPaymentStatus;
+    reference: string;
+    error?: { code: string; message: string };
+  } | null> {
+    this.checkInitialization();
+
+    return this.callApi(async () => {
+      const payment = this.payments.get(reference) ||
+        Array.from(this.payments.values()).find(p => p.metadata.transactionId === reference);
+
+      return payment
+        ? { status: payment.status, reference: payment.id, error: payment.lastError }
+        : null;
+    });
+  }
+
+  /**
+   * Settle an async payment now instead of waiting for its delay
+   */
+  async completePendingPayment(
+    paymentId: string,
+    result: 'succeeded' | 'failed' = 'succeeded'
+  ): Promise<SandboxPayment> {
+    const payment = this.getPayment(paymentId);
+
+    if (payment.status !== 'processing') {
+      throw this.unexpectedState(payment, 'complete');
+    }
+
+    this.clearPendingTimer(paymentId);
+    return this.settle(payment, result);
+  }
+
+  /**
+   * Wait for webhooks that are on their way
+   */
+  async flushWebhooks(): Promise<void> {
+    while (this.pendingDeliveries.size > 0) {
+      await Promise.all(Array.from(this.pendingDeliveries));
+    }
+  }
+
+  getPayments(): SandboxPayment[] {
+    return Array.from(this.payments.values());
+  }
+
+  /**
+   * Drop all state and pending async confirmations
+   */
+  reset(): void {
+    this.pendingTimers.forEach(timer => clearTimeout(timer));
+    this.pendingTimers.clear();
+    this.payments.clear();
+    this.paymentMethods.clear();
+  }
+
+  protected isProviderFault(error: any): boolean {
+    // Declines and requests the sandbox rejects say nothing about its health
+    return error?.type !== 'SandboxCardError' && error?.type !== 'SandboxInvalidRequestError';
+  }
+
+  private async startPayment(
+    data: CreatePaymentInput,
+    captureMethod: 'automatic' | 'manual'
+  ): Promise<PaymentResult> {
+    this.checkInitialization();
+    this.validateCreatePaymentInput(data);
+
+    const operationId = uuidv4().slice(0, 8);
+    const outcome = this.resolveOutcome(data);
+
+    this.logger.info(`[${operationId}] Sandbox payment`, {
+      amount: data.amount.amount,
+      currency: data.amount.currency,
+      outcome: outcome.type,
+      captureMethod
+    });
+
+    try {
+      const payment = await this.callApi(() => this.simulate(data, outcome, captureMethod));
+      return this.toResult(payment);
+    } catch (error) {
+      return this.toErrorResult(error);
+    }
+  }
+
+  private async simulate(
+    data: CreatePaymentInput,
+    outcome: SandboxOutcome,
+    captureMethod: 'automatic' | 'manual'
+  ): Promise<SandboxPayment> {
+    if (outcome.type === 'network_error') {
+      throw this.apiError('api_connection_error', 'Could not connect to the sandbox provider', {
+        type: 'SandboxConnectionError',
+        isNetwork: true
+      });
+    }
+
+    const amount = this.toMinorUnits(data.amount.amount);
+    const payment: SandboxPayment = {
+      id: `pi_sandbox_${uuidv4()}`,
+      status: 'processing',
+      amount,
+      amountCaptured: 0,
+      amountRefunded: 0,
+      currency: data.amount.currency.toLowerCase(),
+      customerId: data.customer.id,
+      captureMethod,
+      metadata: { ...data.metadata, customerId: data.customer.id },
+      createdAt: new Date()
+    };
+
+    switch (outcome.type) {
+      case 'success':
+        this.payments.set(payment.id, payment);
+        return this.settle(payment, 'succeeded');
+
+      case 'decline':
+        this.payments.set(payment.id, payment);
+        payment.lastError = { code: outcome.code, message: outcome.message || 'Your card was declined' };
+        this.settle(payment, 'failed');
+        throw this.apiError(payment.lastError.code, payment.lastError.message, {
+          type: 'SandboxCardError',
+          paymentId: payment.id
+        });
+
+      case 'requires_action':
+        payment.status = 'requires_action';
+        this.payments.set(payment.id, payment);
+        return payment;
+
+      case 'async':
+        this.payments.set(payment.id, payment);
+        this.schedulePendingPayment(payment, outcome.result || 'succeeded', outcome.delayMs);
+        return payment;
+
+      case 'timeout':
+        if (outcome.processed !== false) {
+          this.payments.set(payment.id, payment);
+          this.settle(payment, 'succeeded');
+        }
+
+        await new Promise(resolve => setTimeout(resolve, this.options.timeoutMs ?? 100));
+        throw this.apiError('timeout_error', 'The sandbox provider did not respond in time', {
+          type: 'SandboxTimeoutError',
+          isTimeout: true
+        });
+    }
+  }
+
+  private resolveOutcome(data: CreatePaymentInput): SandboxOutcome {
+    const cards = { ...SANDBOX_CARDS, ...this.options.cards };
+    const amounts = { ...SANDBOX_AMOUNTS, ...this.options.amounts };
+    const cardNumber = this.getCardNumber(data.paymentMethod);
+
+    if (cardNumber && cards[cardNumber]) {
+      return cards[cardNumber];
+    }
+
+    return amounts[this.toMinorUnits(data.amount.amount)] ||
+      this.options.defaultOutcome ||
+      { type: 'success' };
+  }
+
+  private getCardNumber(paymentMethod: string | PaymentMethod): string | undefined {
+    const method = typeof paymentMethod === 'string'
+      ? this.paymentMethods.get(paymentMethod)
+      : paymentMethod;
+
+    if (method) {
+      const number = method.details?.number || method.details?.cardNumber;
+      return number ? String(number).replace(/\s/g, '') : undefined;
+    }
+
+    // Card numbers and test aliases can be passed in place of a method ID
+    return PAYMENT_METHOD_ALIASES[paymentMethod as string] ||
+      (/^\d{12,19}$/.test(paymentMethod as string) ? paymentMethod as string : undefined);
+  }
+
+  private settle(payment: SandboxPayment, result: 'succeeded' | 'failed'): SandboxPayment {
+    if (result === 'failed') {
+      payment.status = 'failed';
+      payment.lastError = payment.lastError || { code: 'card_declined', message: 'Your card was declined' };
+      this.sendWebhook('payment_intent.payment_failed', this.toPaymentIntent(payment));
+      return payment;
+    }
+
+    if (payment.captureMethod === 'manual' && payment.status !== 'requires_capture') {
+      payment.status = 'requires_capture';
+      this.sendWebhook('payment_intent.amount_capturable_updated', this.toPaymentIntent(payment));
+      return payment;
+    }
+
+    payment.status = 'succeeded';
+    payment.amountCaptured = payment.amountCaptured || payment.amount;
+    this.sendWebhook('payment_intent.succeeded', this.toPaymentIntent(payment));
+    return payment;
+  }
+
+  private schedulePendingPayment(
+    payment: SandboxPayment,
+    result: 'succeeded' | 'failed',
+    delayMs?: number
+  ): void {
+    const timer = setTimeout(() => {
+      this.pendingTimers.delete(payment.id);
+      this.settle(payment, result);
+    }, delayMs ?? this.options.asyncConfirmationDelayMs ?? 2000);
+
+    this.pendingTimers.set(payment.id, timer);
+  }
+
+  private clearPendingTimer(paymentId: string): void {
+    const timer = this.pendingTimers.get(paymentId);
+
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingTimers.delete(paymentId);
+    }
+  }
+
+  /**
+   * Send a webhook in the provider's event format, after the API call that
+   * caused it has returned
+   */
+  private sendWebhook(type: string, object: Record<string, any>): void {
+    if (!this.options.webhookUrl && !this.options.webhookHandler) {
+      return;
+    }
+
+    const event: SandboxWebhookEvent = {
+      id: `evt_sandbox_${uuidv4()}`,
+      object: 'event',
+      type,
+      created: Math.floor(Date.now() / 1000),
+      livemode: false,
+      data: { object }
+    };
+
+    const delivery = new Promise<void>(resolve => setImmediate(resolve))
+      .then(() => this.deliverWebhook(event))
+      .catch(error => {
+        this.logger.error(`Sandbox webhook delivery failed for ${type}`, {
+          eventId: event.id,
+          error: error.message
+        });
+      })
+      .then(() => { this.pendingDeliveries.delete(delivery); });
+
+    this.pendingDeliveries.add(delivery);
+  }
+
+  private async deliverWebhook(event: SandboxWebhookEvent): Promise<void> {
+    const payload = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers = {
+      'Content-Type': 'application/json',
+      'stripe-signature': `t=${timestamp},v1=${this.sign(payload, timestamp)}`
+    };
+
+    if (this.options.webhookHandler) {
+      await this.options.webhookHandler(event, headers);
+    }
+
+    if (this.options.webhookUrl) {
+      const response = await fetch(this.options.webhookUrl, {
+        method: 'POST',
+        headers,
+        body: payload
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook endpoint responded with ${response.status}`);
+      }
+    }
+  }
+
+  private sign(payload: string, timestamp: string): string {
+    return crypto
+      .createHmac('sha256', this.config.webhookSecret || '')
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+  }
+
+  private toPaymentIntent(payment: SandboxPayment): Record<string, any> {
+    return {
+      id: payment.id,
+      object: 'payment_intent',
+      amount: payment.amount,
+      amount_received: payment.amountCaptured,
+      currency: payment.currency,
+      status: payment.status,
+      capture_method: payment.captureMethod,
+      customer: payment.customerId,
+      payment_method_types: ['card'],
+      metadata: payment.metadata,
+      last_payment_error: payment.lastError || null,
+      created: Math.floor(payment.createdAt.getTime() / 1000)
+    };
+  }
+
+  private toResult(payment: SandboxPayment): PaymentResult {
+    const metadata = { sandboxStatus: payment.status };
+
+    switch (payment.status) {
+      case 'succeeded':
+      case 'requires_capture':
+      case 'canceled':
+        return { success: true, transactionId: payment.id, metadata };
+
+      case 'requires_action':
+        return {
+          success: false,
+          transactionId: payment.id,
+          metadata: { ...metadata, requiresAction: true },
+          error: {
+            code: 'REQUIRES_ACTION',
+            message: 'Customer action is required to complete this payment'
+          }
+        };
+
+      case 'processing':
+        return {
+          success: false,
+          transactionId: payment.id,
+          metadata,
+          error: {
+            code: 'PAYMENT_PENDING',
+            message: 'The payment is processing; its result will arrive by webhook'
+          }
+        };
+
+      default:
+        return {
+          success: false,
+          transactionId: payment.id,
+          metadata,
+          error: {
+            code: payment.lastError?.code || 'PAYMENT_FAILED',
+            message: payment.lastError?.message || `Payment failed with status: ${payment.status}`
+          }
+        };
+    }
+  }
+
+  private toErrorResult(error: any): PaymentResult {
+    return {
+      success: false,
+      transactionId: error.details?.paymentId,
+      error: {
+        code: error.code || 'PAYMENT_FAILED',
+        message: error.message,
+        details: error.details
+      }
+    };
+  }
+
+  private getPayment(paymentId: string): SandboxPayment {
+    const payment = this.payments.get(paymentId);
+
+    if (!payment) {
+      throw this.apiError('resource_missing', `No such payment: ${paymentId}`, {
+        type: 'SandboxInvalidRequestError'
+      });
+    }
+
+    return payment;
+  }
+
+  private unexpectedState(payment: SandboxPayment, action: string): Error {
+    return this.apiError(
+      'payment_intent_unexpected_state',
+      `Cannot ${action} payment ${payment.id} with status ${payment.status}`,
+      { type: 'SandboxInvalidRequestError', status: payment.status }
+    );
+  }
+
+  /**
+   * Error shaped like the ones provider SDKs throw
+   */
+  private apiError(code: string, message: string, details: Record<string, any> = {}): Error {
+    return Object.assign(new Error(message), { type: details.type, code, details });
+  }
+
+  private toMinorUnits(amount: number): number {
+    return Math.round(amount * 100);
+  }
+}
@@ -4,11 +4,15 @@ import { Stripe } from 'stripe';
 import { BasePaymentProvider } from './base-provider';
 import { 
   CreatePaymentInput,
+  CapturePaymentInput,
+  RefundPaymentInput,
+  SubmitDisputeEvidenceInput,
   PaymentResult,
   PaymentMethod,
   AddPaymentMethodInput,
   ProviderConfig
 } from '../types/provider.types';
+import { FeeBreakdown } from '../types/transaction.types';
 import { PaymentLogger } from '../utils/logger';
 import { errorHandler, ErrorCode } from '../utils/error';
 import { v4 as uuidv4 } from 'uuid';
@@ -69,33 +73,16 @@ export class StripeProvider extends BasePaymentProvider {
     try {
       // Convert amount to cents for Stripe
       const amount = Math.round(data.amount.amount * 100);
-      let paymentMethodId: string;
-      
-      // Handle payment method (string ID or object)
-      if (typeof data.paymentMethod === 'string') {
-        paymentMethodId = data.paymentMethod;
-      } else {
-        // Create a payment method if object is provided
-        const paymentMethodResult = await this.client.paymentMethods.create({
-          type: 'card',
-          card: {
-            number: data.paymentMethod.details.number,
-            exp_month: data.paymentMethod.details.expiryMonth || data.paymentMethod.details.exp_month,
-            exp_year: data.paymentMethod.details.expiryYear || data.paymentMethod.details.exp_year,
-            cvc: data.paymentMethod.details.cvc
-          }
-        });
-        
-        paymentMethodId = paymentMethodResult.id;
-        this.logger.debug(`[${operationId}] Created payment method`, { methodId: paymentMethodId });
-      }
+      const paymentMethodId = await this.resolvePaymentMethodId(data, operationId);
 
       // Create payment intent
-      const paymentIntent = await this.client.paymentIntents.create({
+      const paymentIntent = await this.callApi(() => this.client.paymentIntents.create({
         amount,
         currency: data.amount.currency.toLowerCase(),
         payment_method: paymentMethodId,
         confirm: true,
+        // Fees are only known once the charge has a balance transaction
+        expand: ['latest_charge.balance_transaction'],
         metadata: {
           ...data.metadata,
           customerId: data.customer.id,
@@ -106,7 +93,7 @@ export class StripeProvider extends BasePaymentProvider {
         ...(data.metadata?.idempotencyKey && {
           idempotency_key: data.metadata.idempotencyKey
         })
-      });
+      }));
 
       const success = paymentIntent.status === 'succeeded';
       
@@ -120,9 +107,10 @@ export class StripeProvider extends BasePaymentProvider {
         return {
           success: true,
           transactionId: paymentIntent.id,
+          fees: this.extractFees(paymentIntent),
           metadata: {
             stripeStatus: paymentIntent.status,
-            stripeChargeId: paymentIntent.latest_charge,
+            stripeChargeId: this.getChargeId(paymentIntent),
             operationId
           }
         };
@@ -214,18 +202,20 @@ export class StripeProvider extends BasePaymentProvider {
     this.logger.info(`[${operationId}] Confirming payment`, { paymentId });
 
     try {
-      const paymentIntent = await this.client.paymentIntents.retrieve(paymentId);
+      const paymentIntent = await this.callApi(() => this.client.paymentIntents.retrieve(paymentId));
       
       // Only confirm if it needs confirmation
       if (paymentIntent.status === 'requires_confirmation' || 
           paymentIntent.status === 'requires_action' ||
           paymentIntent.status === 'requires_payment_method') {
         
-        await this.client.paymentIntents.confirm(paymentId);
+        await this.callApi(() => this.client.paymentIntents.confirm(paymentId));
       }
       
       // Get the updated payment intent
-      const updatedIntent = await this.client.paymentIntents.retrieve(paymentId);
+      const updatedIntent = await this.callApi(() => this.client.paymentIntents.retrieve(paymentId, {
+        expand: ['latest_charge.balance_transaction']
+      }));
       const success = updatedIntent.status === 'succeeded';
       
       this.logger.info(`[${operationId}] Payment confirmation result: ${updatedIntent.status}`, {
@@ -237,9 +227,10 @@ export class StripeProvider extends BasePaymentProvider {
         return {
           success: true,
           transactionId: updatedIntent.id,
+          fees: this.extractFees(updatedIntent),
           metadata: {
             stripeStatus: updatedIntent.status,
-            stripeChargeId: updatedIntent.latest_charge,
+            stripeChargeId: this.getChargeId(updatedIntent),
             operationId
           }
         };
@@ -294,6 +285,404 @@ export class StripeProvider extends BasePaymentProvider {
     }
   }
 
+  async authorizePayment(data: CreatePaymentInput): Promise<PaymentResult> {
+    this.checkInitialization();
+    
+    const operationId = uuidv4().slice(0, 8);
+    this.logger.info(`[${operationId}] Authorizing payment`, { 
+      amount: data.amount,
+      currency: data.amount.currency,
+      customerId: data.customer.id
+    });
+    
+    try {
+      // Convert amount to cents for Stripe
+      const amount = Math.round(data.amount.amount * 100);
+      const paymentMethodId = await this.resolvePaymentMethodId(data, operationId);
+
+      // Create payment intent with manual capture so funds are only held
+      const paymentIntent = await this.callApi(() => this.client.paymentIntents.create({
+        amount,
+        currency: data.amount.currency.toLowerCase(),
+        payment_method: paymentMethodId,
+        capture_method: 'manual',
+        confirm: true,
+        metadata: {
+          ...data.metadata,
+          customerId: data.customer.id,
+          internalOperationId: operationId
+        },
+        receipt_email: data.customer.email,
+        ...(data.metadata?.idempotencyKey && {
+          idempotency_key: data.metadata.idempotencyKey
+        })
+      }));
+
+      this.logger.info(`[${operationId}] Authorization result: ${paymentIntent.status}`, {
+        status: paymentIntent.status,
+        intentId: paymentIntent.id
+      });
+      
+      if (paymentIntent.status === 'requires_capture') {
+        return {
+          success: true,
+          transactionId: paymentIntent.id,
+          metadata: {
+            stripeStatus: paymentIntent.status,
+            authorizedAmount: paymentIntent.amount_capturable / 100,
+            operationId
+          }
+        };
+      } else if (paymentIntent.status === 'requires_action') {
+        return {
+          success: false,
+          transactionId: paymentIntent.id,
+          metadata: {
+            stripeStatus: paymentIntent.status,
+            requiresAction: true,
+            clientSecret: paymentIntent.client_secret,
+            nextAction: paymentIntent.next_action,
+            operationId
+          },
+          error: {
+            code: 'REQUIRES_ACTION',
+            message: 'Customer action is required to complete this authorization',
+            details: { nextAction: paymentIntent.next_action }
+          }
+        };
+      } else {
+        return {
+          success: false,
+          transactionId: paymentIntent.id,
+          metadata: {
+            stripeStatus: paymentIntent.status,
+            operationId
+          },
+          error: {
+            code: 'AUTHORIZATION_FAILED',
+            message: `Authorization failed with status: ${paymentIntent.status}`,
+            details: { status: paymentIntent.status }
+          }
+        };
+      }
+    } catch (error) {
+      this.logger.error(`[${operationId}] Payment authorization failed`, { 
+        error,
+        errorCode: error.code || 'unknown',
+        message: error.message
+      });
+      
+      return {
+        success: false,
+        error: {
+          code: error.code || 'AUTHORIZATION_FAILED',
+          message: error.message,
+          details: error.raw || error
+        }
+      };
+    }
+  }
+
+  async capturePayment(paymentId: string, data: CapturePaymentInput = {}): Promise<PaymentResult> {
+    this.checkInitialization();
+    
+    if (!paymentId) {
+      throw errorHandler.createError(
+        'Payment ID is required',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+    
+    const operationId = uuidv4().slice(0, 8);
+    this.logger.info(`[${operationId}] Capturing payment`, { 
+      paymentId,
+      amount: data.amount
+    });
+
+    try {
+      // Omitting amount_to_capture captures the full authorized amount
+      const paymentIntent = await this.callApi(() => this.client.paymentIntents.capture(paymentId, {
+        ...(data.amount !== undefined && {
+          amount_to_capture: Math.round(data.amount * 100)
+        }),
+        ...(data.metadata && { metadata: data.metadata }),
+        expand: ['latest_charge.balance_transaction']
+      }));
+      
+      const success = paymentIntent.status === 'succeeded';
+      
+      this.logger.info(`[${operationId}] Capture result: ${paymentIntent.status}`, {
+        paymentId,
+        status: paymentIntent.status,
+        amountReceived: paymentIntent.amount_received
+      });
+      
+      if (success) {
+        return {
+          success: true,
+          transactionId: paymentIntent.id,
+          fees: this.extractFees(paymentIntent),
+          metadata: {
+            stripeStatus: paymentIntent.status,
+            stripeChargeId: this.getChargeId(paymentIntent),
+            capturedAmount: paymentIntent.amount_received / 100,
+            authorizedAmount: paymentIntent.amount / 100,
+            operationId
+          }
+        };
+      }
+      
+      return {
+        success: false,
+        transactionId: paymentIntent.id,
+        metadata: {
+          stripeStatus: paymentIntent.status,
+          operationId
+        },
+        error: {
+          code: 'CAPTURE_FAILED',
+          message: `Capture failed with status: ${paymentIntent.status}`,
+          details: { status: paymentIntent.status }
+        }
+      };
+    } catch (error) {
+      this.logger.error(`[${operationId}] Payment capture failed`, { 
+        error,
+        paymentId,
+        errorCode: error.code || 'unknown'
+      });
+      
+      return {
+        success: false,
+        transactionId: paymentId,
+        error: {
+          code: error.code || 'CAPTURE_FAILED',
+          message: error.message,
+          details: error.raw || error
+        }
+      };
+    }
+  }
+
+  async voidPayment(paymentId: string, reason?: string): Promise<PaymentResult> {
+    this.checkInitialization();
+    
+    if (!paymentId) {
+      throw errorHandler.createError(
+        'Payment ID is required',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+    
+    const operationId = uuidv4().slice(0, 8);
+    this.logger.info(`[${operationId}] Voiding payment authorization`, { paymentId, reason });
+
+    try {
+      // Cancelling an uncaptured payment intent releases the held funds
+      const paymentIntent = await this.callApi(() => this.client.paymentIntents.cancel(paymentId, {
+        cancellation_reason: this.mapCancellationReason(reason)
+      }));
+      
+      const success = paymentIntent.status === 'canceled';
+      
+      this.logger.info(`[${operationId}] Void result: ${paymentIntent.status}`, {
+        paymentId,
+        status: paymentIntent.status
+      });
+      
+      if (success) {
+        return {
+          success: true,
+          transactionId: paymentIntent.id,
+          metadata: {
+            stripeStatus: paymentIntent.status,
+            cancellationReason: paymentIntent.cancellation_reason,
+            operationId
+          }
+        };
+      }
+      
+      return {
+        success: false,
+        transactionId: paymentIntent.id,
+        metadata: {
+          stripeStatus: paymentIntent.status,
+          operationId
+        },
+        error: {
+          code: 'VOID_FAILED',
+          message: `Void failed with status: ${paymentIntent.status}`,
+          details: { status: paymentIntent.status }
+        }
+      };
+    } catch (error) {
+      this.logger.error(`[${operationId}] Payment void failed`, { 
+        error,
+        paymentId,
+        errorCode: error.code || 'unknown'
+      });
+      
+      return {
+        success: false,
+        transactionId: paymentId,
+        error: {
+          code: error.code || 'VOID_FAILED',
+          message: error.message,
+          details: error.raw || error
+        }
+      };
+    }
+  }
+
+  async refundPayment(paymentId: string, data: RefundPaymentInput = {}): Promise<PaymentResult> {
+    this.checkInitialization();
+    
+    if (!paymentId) {
+      throw errorHandler.createError(
+        'Payment ID is required',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+    
+    const operationId = uuidv4().slice(0, 8);
+    this.logger.info(`[${operationId}] Refunding payment`, { 
+      paymentId,
+      amount: data.amount,
+      reason: data.reason
+    });
+
+    try {
+      // Omitting amount refunds whatever is left of the captured charge
+      const refund = await this.callApi(() => this.client.refunds.create({
+        payment_intent: paymentId,
+        ...(data.amount !== undefined && {
+          amount: Math.round(data.amount * 100)
+        }),
+        reason: this.mapRefundReason(data.reason),
+        ...(data.metadata && { metadata: data.metadata })
+      }));
+      
+      // Card refunds usually settle asynchronously, so pending counts as accepted
+      const success = refund.status === 'succeeded' || refund.status === 'pending';
+      
+      this.logger.info(`[${operationId}] Refund result: ${refund.status}`, {
+        paymentId,
+        refundId: refund.id,
+        status: refund.status
+      });
+      
+      if (success) {
+        return {
+          success: true,
+          transactionId: refund.id,
+          metadata: {
+            stripeStatus: refund.status,
+            refundedAmount: refund.amount / 100,
+            paymentIntentId: paymentId,
+            operationId
+          }
+        };
+      }
+      
+      return {
+        success: false,
+        transactionId: refund.id,
+        metadata: {
+          stripeStatus: refund.status,
+          operationId
+        },
+        error: {
+          code: 'REFUND_FAILED',
+          message: `Refund failed with status: ${refund.status}`,
+          details: { status: refund.status, failureReason: refund.failure_reason }
+        }
+      };
+    } catch (error) {
+      this.logger.error(`[${operationId}] Payment refund failed`, { 
+        error,
+        paymentId,
+        errorCode: error.code || 'unknown'
+      });
+      
+      return {
+        success: false,
+        transactionId: paymentId,
+        error: {
+          code: error.code || 'REFUND_FAILED',
+          message: error.message,
+          details: error.raw || error
+        }
+      };
+    }
+  }
+
+  async submitDisputeEvidence(
+    disputeId: string,
+    data: SubmitDisputeEvidenceInput
+  ): Promise<PaymentResult> {
+    this.checkInitialization();
+    
+    if (!disputeId) {
+      throw errorHandler.createError(
+        'Dispute ID is required',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+    
+    const operationId = uuidv4().slice(0, 8);
+    this.logger.info(`[${operationId}] Updating dispute evidence`, { 
+      disputeId,
+      submit: data.submit,
+      fields: Object.keys(data.evidence)
+    });
+
+    try {
+      // Stripe expects snake_case evidence fields (customerName -> customer_name)
+      const evidence = Object.entries(data.evidence).reduce((result, [key, value]) => {
+        result[key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`)] = value;
+        return result;
+      }, {} as Record<string, string>);
+      
+      const dispute = await this.callApi(() => this.client.disputes.update(disputeId, {
+        evidence: evidence as Stripe.DisputeUpdateParams.Evidence,
+        submit: data.submit,
+        ...(data.metadata && { metadata: data.metadata })
+      }));
+      
+      this.logger.info(`[${operationId}] Dispute evidence updated: ${dispute.status}`, {
+        disputeId,
+        status: dispute.status
+      });
+      
+      return {
+        success: true,
+        transactionId: dispute.id,
+        metadata: {
+          stripeStatus: dispute.status,
+          evidenceDueBy: dispute.evidence_details?.due_by,
+          submissionCount: dispute.evidence_details?.submission_count,
+          operationId
+        }
+      };
+    } catch (error) {
+      this.logger.error(`[${operationId}] Dispute evidence update failed`, { 
+        error,
+        disputeId,
+        errorCode: error.code || 'unknown'
+      });
+      
+      return {
+        success: false,
+        transactionId: disputeId,
+        error: {
+          code: error.code || 'DISPUTE_UPDATE_FAILED',
+          message: error.message,
+          details: error.raw || error
+        }
+      };
+    }
+  }
+
   async getPaymentMethods(customerId: string): Promise<PaymentMethod[]> {
     this.checkInitialization();
     
@@ -310,18 +699,18 @@ export class StripeProvider extends BasePaymentProvider {
       
       try {
         // Try to find existing customer
-        const customers = await this.client.customers.list({
+        const customers = await this.callApi(() => this.client.customers.list({
           limit: 1,
           email: customerId // Assuming customerId is an email or we store Stripe ID in metadata
-        });
+        }));
         
         if (customers.data.length > 0) {
           stripeCustomerId = customers.data[0].id;
         } else {
           // Create a new customer
-          const customer = await this.client.customers.create({
+          const customer = await this.callApi(() => this.client.customers.create({
             metadata: { internalId: customerId }
-          });
+          }));
           stripeCustomerId = customer.id;
         }
       } catch (error) {
@@ -333,10 +722,10 @@ export class StripeProvider extends BasePaymentProvider {
       }
       
       // Get payment methods
-      const methods = await this.client.paymentMethods.list({
+      const methods = await this.callApi(() => this.client.paymentMethods.list({
         customer: stripeCustomerId,
         type: 'card'
-      });
+      }));
 
       return methods.data.map(method => ({
         id: method.id,
@@ -384,18 +773,18 @@ export class StripeProvider extends BasePaymentProvider {
       
       try {
         // Try to find existing customer
-        const customers = await this.client.customers.list({
+        const customers = await this.callApi(() => this.client.customers.list({
           limit: 1,
           email: customerId // Assuming customerId is an email or we store Stripe ID in metadata
-        });
+        }));
         
         if (customers.data.length > 0) {
           stripeCustomerId = customers.data[0].id;
         } else {
           // Create a new customer
-          const customer = await this.client.customers.create({
+          const customer = await this.callApi(() => this.client.customers.create({
             metadata: { internalId: customerId }
-          });
+          }));
           stripeCustomerId = customer.id;
         }
       } catch (error) {
@@ -407,7 +796,7 @@ export class StripeProvider extends BasePaymentProvider {
       }
       
       // Create payment method
-      const paymentMethod = await this.client.paymentMethods.create({
+      const paymentMethod = await this.callApi(() => this.client.paymentMethods.create({
         type: 'card',
         card: {
           number: data.details.number,
@@ -419,20 +808,20 @@ export class StripeProvider extends BasePaymentProvider {
           default: data.setAsDefault ? 'true' : 'false',
           internalCustomerId: customerId
         }
-      });
+      }));
       
       // Attach to customer
-      await this.client.paymentMethods.attach(paymentMethod.id, {
+      await this.callApi(() => this.client.paymentMethods.attach(paymentMethod.id, {
         customer: stripeCustomerId
-      });
+      }));
       
       // Set as default if requested
       if (data.setAsDefault) {
-        await this.client.customers.update(stripeCustomerId, {
+        await this.callApi(() => this.client.customers.update(stripeCustomerId, {
           invoice_settings: {
             default_payment_method: paymentMethod.id
           }
-        });
+        }));
       }
       
       return {
@@ -473,7 +862,7 @@ export class StripeProvider extends BasePaymentProvider {
     }
     
     try {
-      await this.client.paymentMethods.detach(methodId);
+      await this.callApi(() => this.client.paymentMethods.detach(methodId));
     } catch (error) {
       this.logger.error('Error removing payment method', { 
         error, 
@@ -529,6 +918,95 @@ export class StripeProvider extends BasePaymentProvider {
     }
   }
 
+  private async resolvePaymentMethodId(
+    data: CreatePaymentInput,
+    operationId: string
+  ): Promise<string> {
+    // Handle payment method (string ID or object)
+    const paymentMethod = data.paymentMethod;
+    if (typeof paymentMethod === 'string') {
+      return paymentMethod;
+    }
+    
+    // Create a payment method if object is provided
+    const paymentMethodResult = await this.callApi(() => this.client.paymentMethods.create({
+      type: 'card',
+      card: {
+        number: paymentMethod.details.number,
+        exp_month: paymentMethod.details.expiryMonth || paymentMethod.details.exp_month,
+        exp_year: paymentMethod.details.expiryYear || paymentMethod.details.exp_year,
+        cvc: paymentMethod.details.cvc
+      }
+    }));
+    
+    this.logger.debug(`[${operationId}] Created payment method`, { methodId: paymentMethodResult.id });
+    return paymentMethodResult.id;
+  }
+
+  private getChargeId(paymentIntent: Stripe.PaymentIntent): string | undefined {
+    const charge = paymentIntent.latest_charge;
+    return typeof charge === 'string' ? charge : charge?.id;
+  }
+
+  /**
+   * Read the fee breakdown from the charge's balance transaction. Stripe
+   * reports it in minor units of the settlement currency; it is missing
+   * when the charge was not expanded or has not settled yet.
+   */
+  private extractFees(paymentIntent: Stripe.PaymentIntent): FeeBreakdown | undefined {
+    const charge = paymentIntent.latest_charge;
+    if (!charge || typeof charge === 'string') {
+      return undefined;
+    }
+
+    const balanceTransaction = charge.balance_transaction;
+    if (!balanceTransaction || typeof balanceTransaction === 'string') {
+      return undefined;
+    }
+
+    return {
+      grossAmount: balanceTransaction.amount / 100,
+      feeAmount: balanceTransaction.fee / 100,
+      netAmount: balanceTransaction.net / 100,
+      currency: balanceTransaction.currency.toUpperCase(),
+      details: balanceTransaction.fee_details.map(detail => ({
+        type: detail.type,
+        description: detail.description || undefined,
+        amount: detail.amount / 100,
+        currency: detail.currency.toUpperCase()
+      }))
+    };
+  }
+
+  private mapCancellationReason(
+    reason?: string
+  ): Stripe.PaymentIntentCancelParams.CancellationReason {
+    const allowedReasons = ['duplicate', 'fraudulent', 'requested_by_customer', 'abandoned'];
+    
+    return (reason && allowedReasons.includes(reason) 
+      ? reason 
+      : 'requested_by_customer') as Stripe.PaymentIntentCancelParams.CancellationReason;
+  }
+
+  private mapRefundReason(reason?: string): Stripe.RefundCreateParams.Reason {
+    const allowedReasons = ['duplicate', 'fraudulent', 'requested_by_customer'];
+    
+    return (reason && allowedReasons.includes(reason) 
+      ? reason 
+      : 'requested_by_customer') as Stripe.RefundCreateParams.Reason;
+  }
+
+  /**
+   * Card declines and invalid requests say nothing about Stripe's health
+   */
+  protected isProviderFault(error: any): boolean {
+    return ![
+      'StripeCardError',
+      'StripeInvalidRequestError',
+      'StripeIdempotencyError'
+    ].includes(error?.type);
+  }
+
   private checkInitialization(): void {
     if (!this.isInitialized) {
       throw errorHandler.createError(
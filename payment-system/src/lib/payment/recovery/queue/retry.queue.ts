@@ -9,6 +9,7 @@ import { DatabaseConnection } from '../../database/connection';
 interface RetryQueueItem {
   id: string;
   transactionId: string;
+  queueName?: string;
   scheduledAt: Date;
   processedAt?: Date;
   retryCount: number;
@@ -18,12 +19,15 @@ interface RetryQueueItem {
 /**
  * RetryQueue manages scheduled retries for transactions with persistence
  * and event handling. It can use either in-memory or database storage.
+ * Queues with different names share the retry_queue table without
+ * picking up each other's items.
  */
 export class RetryQueue extends EventEmitter {
   private inMemoryQueue: Map<string, NodeJS.Timeout> = new Map();
   private logger: PaymentLogger;
   private dbPool?: Pool;
   private useDatabase: boolean;
+  private queueName: string;
   private pollInterval: number = 10000; // 10 seconds
   private pollTimer?: NodeJS.Timeout;
   private processing: boolean = false;
@@ -34,12 +38,14 @@ export class RetryQueue extends EventEmitter {
       dbConnection?: DatabaseConnection;
       useDatabase?: boolean;
       pollInterval?: number;
+      queueName?: string;
     } = {}
   ) {
     super();
     this.logger = new PaymentLogger(options.logLevel || 'info', 'RetryQueue');
     this.useDatabase = options.useDatabase !== false && !!options.dbConnection;
     this.pollInterval = options.pollInterval || 10000;
+    this.queueName = options.queueName || 'transactions';
     
     // Initialize database connection if provided
     if (this.useDatabase && options.dbConnection) {
@@ -54,6 +60,7 @@ export class RetryQueue extends EventEmitter {
     }
     
     this.logger.info('Retry queue initialized', {
+      queueName: this.queueName,
       useDatabase: this.useDatabase,
       pollInterval: this.pollInterval
     });
@@ -75,12 +82,19 @@ export class RetryQueue extends EventEmitter {
           processed_at TIMESTAMP,
           retry_count INTEGER NOT NULL DEFAULT 0,
           status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          queue_name VARCHAR(50) NOT NULL DEFAULT 'transactions',
           created_at TIMESTAMP NOT NULL DEFAULT NOW()
         )
       `;
       
       await this.dbPool.query(createTableQuery);
       
+      // Tables created before named queues existed
+      await this.dbPool.query(`
+        ALTER TABLE retry_queue
+        ADD COLUMN IF NOT EXISTS queue_name VARCHAR(50) NOT NULL DEFAULT 'transactions'
+      `);
+      
       // Create indexes for efficient lookups
       await this.dbPool.query(`
         CREATE INDEX IF NOT EXISTS idx_retry_transaction_id 
@@ -138,12 +152,12 @@ export class RetryQueue extends EventEmitter {
       // Get due retries
       const query = `
         SELECT * FROM retry_queue
-        WHERE status = 'pending' AND scheduled_at <= NOW()
+        WHERE status = 'pending' AND queue_name = $1 AND scheduled_at <= NOW()
         ORDER BY scheduled_at ASC
         LIMIT 10
       `;
       
-      const result = await this.dbPool.query(query);
+      const result = await this.dbPool.query(query, [this.queueName]);
       const dueRetries = result.rows;
       
       if (dueRetries.length === 0) {
@@ -253,16 +267,17 @@ export class RetryQueue extends EventEmitter {
     
     const query = `
       INSERT INTO retry_queue (
-        id, transaction_id, scheduled_at, retry_count, status
+        id, transaction_id, scheduled_at, retry_count, status, queue_name
       )
-      VALUES ($1, $2, $3, $4, 'pending')
+      VALUES ($1, $2, $3, $4, 'pending', $5)
     `;
     
     await this.dbPool.query(query, [
       uuidv4(),
       transactionId,
       scheduledAt,
-      retryCount
+      retryCount,
+      this.queueName
     ]);
   }
   
@@ -305,10 +320,10 @@ export class RetryQueue extends EventEmitter {
     const query = `
       UPDATE retry_queue 
       SET status = 'cancelled'
-      WHERE transaction_id = $1 AND status = 'pending'
+      WHERE transaction_id = $1 AND status = 'pending' AND queue_name = $2
     `;
     
-    await this.dbPool.query(query, [transactionId]);
+    await this.dbPool.query(query, [transactionId, this.queueName]);
   }
   
   /**
@@ -348,10 +363,10 @@ export class RetryQueue extends EventEmitter {
     const query = `
       UPDATE retry_queue
       SET status = 'cancelled'
-      WHERE status = 'pending'
+      WHERE status = 'pending' AND queue_name = $1
     `;
     
-    await this.dbPool.query(query);
+    await this.dbPool.query(query, [this.queueName]);
   }
   
   /**
@@ -390,17 +405,18 @@ export class RetryQueue extends EventEmitter {
     if (!this.dbPool) return [];
     
     const query = `
-      SELECT id, transaction_id, scheduled_at, retry_count, status
+      SELECT id, transaction_id, scheduled_at, retry_count, status, queue_name
       FROM retry_queue
-      WHERE status = 'pending'
+      WHERE status = 'pending' AND queue_name = $1
       ORDER BY scheduled_at ASC
     `;
     
-    const result = await this.dbPool.query(query);
+    const result = await this.dbPool.query(query, [this.queueName]);
     
     return result.rows.map(row => ({
       id: row.id,
       transactionId: row.transaction_id,
+      queueName: row.queue_name,
       scheduledAt: row.scheduled_at,
       retryCount: row.retry_count,
       status: row.status
@@ -461,10 +477,11 @@ export class RetryQueue extends EventEmitter {
         status, 
         COUNT(*) as count
       FROM retry_queue
+      WHERE queue_name = $1
       GROUP BY status
     `;
     
-    const countResult = await this.dbPool.query(countQuery);
+    const countResult = await this.dbPool.query(countQuery, [this.queueName]);
     
     const counts = {
       pendingCount: 0,
@@ -494,20 +511,20 @@ export class RetryQueue extends EventEmitter {
     const oldestQuery = `
       SELECT MIN(scheduled_at) as oldest
       FROM retry_queue
-      WHERE status = 'pending'
+      WHERE status = 'pending' AND queue_name = $1
     `;
     
-    const oldestResult = await this.dbPool.query(oldestQuery);
+    const oldestResult = await this.dbPool.query(oldestQuery, [this.queueName]);
     const oldestPendingRetry = oldestResult.rows[0]?.oldest;
     
     // Get average retry time for completed items
     const avgTimeQuery = `
       SELECT AVG(EXTRACT(EPOCH FROM (processed_at - scheduled_at)) * 1000) as avg_time
       FROM retry_queue
-      WHERE status = 'completed' AND processed_at IS NOT NULL
+      WHERE status = 'completed' AND processed_at IS NOT NULL AND queue_name = $1
     `;
     
-    const avgTimeResult = await this.dbPool.query(avgTimeQuery);
+    const avgTimeResult = await this.dbPool.query(avgTimeQuery, [this.queueName]);
     const averageRetryTime = avgTimeResult.rows[0]?.avg_time;
     
     return {
@@ -531,11 +548,12 @@ export class RetryQueue extends EventEmitter {
         DELETE FROM retry_queue
         WHERE (status = 'completed' OR status = 'cancelled')
         AND scheduled_at < $1
+        AND queue_name = $2
         RETURNING id
       `;
       
-      const result = await this.dbPool.query(query, [olderThan]);
-      const deletedCount = result.rowCount;
+      const result = await this.dbPool.query(query, [olderThan, this.queueName]);
+      const deletedCount = result.rowCount ?? 0;
       
       this.logger.info(`Cleaned up ${deletedCount} old retries`);
       return deletedCount;
@@ -557,3 +575,4 @@ export class RetryQueue extends EventEmitter {
     
     this.logger.info('Retry queue disposed');
   }
+}
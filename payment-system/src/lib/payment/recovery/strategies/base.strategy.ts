@@ -10,6 +10,7 @@ import {
 import { PaymentLogger } from '../../utils/logger';
 import { PaymentProviderFactory } from '../../providers/provider-factory';
 import { PaymentProviderInterface } from '../../types/provider.types';
+import { ProviderRouter } from '../../providers/provider-router';
 
 /**
  * A general fallback recovery strategy that can handle any type of error.
@@ -23,7 +24,8 @@ export class GeneralRecoveryStrategy implements RecoveryStrategy {
 
   constructor(
     private providerName: string,
-    private providerConfig: any
+    private providerConfig: any,
+    private router?: ProviderRouter
   ) {
     this.logger = new PaymentLogger('info', 'GeneralRecoveryStrategy');
   }
@@ -40,12 +42,19 @@ export class GeneralRecoveryStrategy implements RecoveryStrategy {
     try {
       this.logger.info(`Executing general recovery strategy for transaction ${transaction.id}`);
 
-      // Initialize provider if not already done
-      if (!this.provider) {
-        this.provider = await PaymentProviderFactory.createProvider(
-          this.providerName,
-          this.providerConfig
-        );
+      const provider = await this.resolveProvider(transaction);
+
+      if (!provider.getTransactionStatus) {
+        this.logger.warn(`Provider cannot look up the status of transaction ${transaction.id}`);
+        return {
+          success: false,
+          error: {
+            code: 'STATUS_LOOKUP_NOT_SUPPORTED',
+            message: 'Payment provider does not support transaction status lookups',
+            recoverable: false,
+            retryable: false
+          }
+        };
       }
 
       // General strategy is simple: just check the transaction status with provider
@@ -55,7 +64,7 @@ export class GeneralRecoveryStrategy implements RecoveryStrategy {
       const externalId = transaction.metadata?.externalId || transaction.id;
       
       // Query provider for transaction status
-      const transactionStatus = await this.provider.getTransactionStatus(externalId);
+      const transactionStatus = await provider.getTransactionStatus(externalId);
       
       if (!transactionStatus) {
         this.logger.warn(`No status found for transaction ${transaction.id} with provider`);
@@ -142,4 +151,23 @@ export class GeneralRecoveryStrategy implements RecoveryStrategy {
       };
     }
   }
+
+  /**
+   * The provider that processed the transaction when it was routed,
+   * otherwise the configured provider
+   */
+  private async resolveProvider(transaction: Transaction): Promise<PaymentProviderInterface> {
+    if (this.router && transaction.provider) {
+      return this.router.getProviderForTransaction(transaction).provider;
+    }
+
+    if (!this.provider) {
+      this.provider = await PaymentProviderFactory.createProvider(
+        this.providerName,
+        this.providerConfig
+      );
+    }
+
+    return this.provider;
+  }
 }
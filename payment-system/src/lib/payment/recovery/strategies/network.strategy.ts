@@ -11,6 +11,7 @@ import {
 import { PaymentLogger } from '../../utils/logger';
 import { PaymentProviderFactory } from '../../providers/provider-factory';
 import { PaymentProviderInterface } from '../../types/provider.types';
+import { ProviderRouter } from '../../providers/provider-router';
 
 export class NetworkRecoveryStrategy implements RecoveryStrategy {
   type = 'network';
@@ -19,7 +20,8 @@ export class NetworkRecoveryStrategy implements RecoveryStrategy {
 
   constructor(
     private providerName: string,
-    private providerConfig: any
+    private providerConfig: any,
+    private router?: ProviderRouter
   ) {
     this.logger = new PaymentLogger('info', 'NetworkRecoveryStrategy');
   }
@@ -36,12 +38,19 @@ export class NetworkRecoveryStrategy implements RecoveryStrategy {
     try {
       this.logger.info(`Executing network recovery strategy for transaction ${transaction.id}`);
 
-      // Initialize provider if not already done
-      if (!this.provider) {
-        this.provider = await PaymentProviderFactory.createProvider(
-          this.providerName,
-          this.providerConfig
-        );
+      const provider = await this.resolveProvider(transaction);
+
+      if (!provider.getTransactionStatus) {
+        this.logger.warn(`Provider cannot look up the status of transaction ${transaction.id}`);
+        return {
+          success: false,
+          error: {
+            code: 'STATUS_LOOKUP_NOT_SUPPORTED',
+            message: 'Payment provider does not support transaction status lookups',
+            recoverable: false,
+            retryable: false
+          }
+        };
       }
 
       // Check transaction status with the payment provider
@@ -51,7 +60,7 @@ export class NetworkRecoveryStrategy implements RecoveryStrategy {
       const externalId = transaction.metadata?.externalId || transaction.id;
       
       // Query provider for transaction status
-      const transactionStatus = await this.provider.getTransactionStatus(externalId);
+      const transactionStatus = await provider.getTransactionStatus(externalId);
       
       if (!transactionStatus) {
         this.logger.warn(`No status found for transaction ${transaction.id} with provider`);
@@ -138,4 +147,23 @@ export class NetworkRecoveryStrategy implements RecoveryStrategy {
       };
     }
   }
+
+  /**
+   * The provider that processed the transaction when it was routed,
+   * otherwise the configured provider
+   */
+  private async resolveProvider(transaction: Transaction): Promise<PaymentProviderInterface> {
+    if (this.router && transaction.provider) {
+      return this.router.getProviderForTransaction(transaction).provider;
+    }
+
+    if (!this.provider) {
+      this.provider = await PaymentProviderFactory.createProvider(
+        this.providerName,
+        this.providerConfig
+      );
+    }
+
+    return this.provider;
+  }
 }
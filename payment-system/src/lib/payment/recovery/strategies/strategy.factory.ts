@@ -3,11 +3,14 @@ import { RecoveryStrategy } from './recovery-strategy';
 import { NetworkRecoveryStrategy } from './network.strategy';
 import { TimeoutRecoveryStrategy } from './timeout.strategy';
 import { GeneralRecoveryStrategy } from './general.strategy';
+import { ProviderRouter } from '../../providers/provider-router';
 
 export interface RecoveryStrategyOptions {
   providerName: string;
   providerConfig: any;
   timeoutMaxWaitTime?: number;
+  // Sends recovery of routed transactions to the provider that processed them
+  router?: ProviderRouter;
 }
 
 /**
@@ -18,17 +21,18 @@ export class RecoveryStrategyFactory {
    * Create a default set of recovery strategies
    */
   static createDefaultStrategies(options: RecoveryStrategyOptions): RecoveryStrategy[] {
-    const { providerName, providerConfig, timeoutMaxWaitTime } = options;
+    const { providerName, providerConfig, timeoutMaxWaitTime, router } = options;
     
     return [
       // Specific strategies first (order matters)
-      new NetworkRecoveryStrategy(providerName, providerConfig),
+      new NetworkRecoveryStrategy(providerName, providerConfig, router),
       new TimeoutRecoveryStrategy(providerName, providerConfig, {
-        maxWaitTime: timeoutMaxWaitTime
+        maxWaitTime: timeoutMaxWaitTime,
+        router
       }),
       
       // General fallback strategy last
-      new GeneralRecoveryStrategy(providerName, providerConfig)
+      new GeneralRecoveryStrategy(providerName, providerConfig, router)
     ];
   }
 
@@ -39,19 +43,20 @@ export class RecoveryStrategyFactory {
     type: 'network' | 'timeout' | 'general',
     options: RecoveryStrategyOptions
   ): RecoveryStrategy {
-    const { providerName, providerConfig, timeoutMaxWaitTime } = options;
+    const { providerName, providerConfig, timeoutMaxWaitTime, router } = options;
     
     switch (type) {
       case 'network':
-        return new NetworkRecoveryStrategy(providerName, providerConfig);
+        return new NetworkRecoveryStrategy(providerName, providerConfig, router);
       
       case 'timeout':
         return new TimeoutRecoveryStrategy(providerName, providerConfig, {
-          maxWaitTime: timeoutMaxWaitTime
+          maxWaitTime: timeoutMaxWaitTime,
+          router
         });
       
       case 'general':
-        return new GeneralRecoveryStrategy(providerName, providerConfig);
+        return new GeneralRecoveryStrategy(providerName, providerConfig, router);
       
       default:
         throw new Error(`Unknown recovery strategy type: ${type}`);
@@ -11,11 +11,13 @@ import {
 import { PaymentLogger } from '../../utils/logger';
 import { PaymentProviderFactory } from '../../providers/provider-factory';
 import { PaymentProviderInterface } from '../../types/provider.types';
+import { ProviderRouter } from '../../providers/provider-router';
 
 export class TimeoutRecoveryStrategy implements RecoveryStrategy {
   type = 'timeout';
   private logger: PaymentLogger;
   private provider?: PaymentProviderInterface;
+  private router?: ProviderRouter;
   private maxWaitTime: number;
 
   constructor(
@@ -23,9 +25,11 @@ export class TimeoutRecoveryStrategy implements RecoveryStrategy {
     private providerConfig: any,
     options: {
       maxWaitTime?: number;
+      router?: ProviderRouter;
     } = {}
   ) {
     this.logger = new PaymentLogger('info', 'TimeoutRecoveryStrategy');
+    this.router = options.router;
     this.maxWaitTime = options.maxWaitTime || 60000; // Default: 1 minute max wait
   }
 
@@ -41,12 +45,19 @@ export class TimeoutRecoveryStrategy implements RecoveryStrategy {
     try {
       this.logger.info(`Executing timeout recovery strategy for transaction ${transaction.id}`);
 
-      // Initialize provider if not already done
-      if (!this.provider) {
-        this.provider = await PaymentProviderFactory.createProvider(
-          this.providerName,
-          this.providerConfig
-        );
+      const provider = await this.resolveProvider(transaction);
+
+      if (!provider.getTransactionStatus) {
+        this.logger.warn(`Provider cannot look up the status of transaction ${transaction.id}`);
+        return {
+          success: false,
+          error: {
+            code: 'STATUS_LOOKUP_NOT_SUPPORTED',
+            message: 'Payment provider does not support transaction status lookups',
+            recoverable: false,
+            retryable: false
+          }
+        };
       }
 
       // Calculate how long to wait for this recovery attempt
@@ -71,7 +82,7 @@ export class TimeoutRecoveryStrategy implements RecoveryStrategy {
       const externalId = transaction.metadata?.externalId || transaction.id;
       
       // Query provider for transaction status
-      const transactionStatus = await this.provider.getTransactionStatus(externalId);
+      const transactionStatus = await provider.getTransactionStatus(externalId);
       
       if (!transactionStatus) {
         this.logger.warn(`No status found for transaction ${transaction.id} with provider`);
@@ -198,4 +209,23 @@ export class TimeoutRecoveryStrategy implements RecoveryStrategy {
       };
     }
   }
+
+  /**
+   * The provider that processed the transaction when it was routed,
+   * otherwise the configured provider
+   */
+  private async resolveProvider(transaction: Transaction): Promise<PaymentProviderInterface> {
+    if (this.router && transaction.provider) {
+      return this.router.getProviderForTransaction(transaction).provider;
+    }
+
+    if (!this.provider) {
+      this.provider = await PaymentProviderFactory.createProvider(
+        this.providerName,
+        this.providerConfig
+      );
+    }
+
+    return this.provider;
+  }
 }
@@ -6,23 +6,34 @@ import {
   errorHandler 
 } from '../utils/error';
 import { PaymentLogger } from '../utils/logger';
+import { CreatePaymentInput } from '../types/provider.types';
+import { PaymentResult } from '../types/common.types';
+import { Transaction, TransactionType, TransactionStatus } from '../types/transaction.types';
+import { validatePaymentInput } from '../utils/validation';
 import { 
-  CreatePaymentInput, 
-  PaymentResult, 
-  TransactionType, 
-  TransactionStatus 
-} from '../types';
-import { validatePaymentInput } from '../validators/payment.validator';
+  CompensatingTransactionHandler, 
+  CompensatingOperationType 
+} from '../transaction/utils/compensating-transaction';
+import { ProviderRouter } from '../providers/provider-router';
 
 export class PaymentService {
   private logger: PaymentLogger;
-  private provider: any; // PaymentProvider
+  private router: ProviderRouter;
   private transactionManager: any; // TransactionManager
+  private compensatingHandler?: CompensatingTransactionHandler;
 
-  constructor(provider: any, transactionManager: any) {
+  constructor(
+    provider: any, // ProviderRouter or a single PaymentProvider
+    transactionManager: any,
+    compensatingHandler?: CompensatingTransactionHandler
+  ) {
     this.logger = new PaymentLogger();
-    this.provider = provider;
+    // A single provider is routed to for every payment
+    this.router = provider instanceof ProviderRouter 
+      ? provider 
+      : ProviderRouter.forProvider(provider);
     this.transactionManager = transactionManager;
+    this.compensatingHandler = compensatingHandler;
   }
 
   /**
@@ -56,6 +67,8 @@ export class PaymentService {
         );
       }
       
+      const { name: providerName, provider } = this.router.selectProvider(input);
+      
       // Create transaction record first (for idempotency)
       let transaction;
       try {
@@ -69,6 +82,7 @@ export class PaymentService {
               ? input.paymentMethod 
               : input.paymentMethod.id,
             idempotencyKey: input.metadata?.idempotencyKey || uuidv4(),
+            provider: providerName,
             metadata: {
               ...input.metadata,
               operationId,
@@ -110,23 +124,40 @@ export class PaymentService {
         );
       }
       
-      // Process with payment provider
+      // Process with payment provider. The transaction ID travels with the
+      // payment so the provider's webhooks can be matched back to it.
       try {
-        const result = await this.provider.createPayment(input);
+        const result = await provider.createPayment(this.withTransactionId(input, transaction.id));
         
         if (result.success) {
           // Update transaction to completed
           await this.transactionManager.updateTransactionStatus(
             transaction.id,
             TransactionStatus.COMPLETED,
-            { providerTransactionId: result.providerTransactionId }
+            { providerTransactionId: result.transactionId },
+            result.fees
           );
           
           this.logger.info(`[${operationId}] Payment processed successfully`, {
             transactionId: transaction.id,
-            providerTransactionId: result.providerTransactionId
+            providerTransactionId: result.transactionId
           });
           
+          return {
+            ...result,
+            transactionId: transaction.id,
+            requestId
+          };
+        } else if (result.error?.code === 'REQUIRES_ACTION' || result.error?.code === 'PAYMENT_PENDING') {
+          // The customer has to authenticate, or the provider settles the
+          // payment later; it stays in progress until confirmPayment is called
+          // or the provider's webhook reports the outcome
+          await this.transactionManager.updateTransactionStatus(
+            transaction.id,
+            TransactionStatus.PROCESSING,
+            { providerTransactionId: result.transactionId }
+          );
+          
           return {
             ...result,
             transactionId: transaction.id,
@@ -178,7 +209,7 @@ export class PaymentService {
           {
             ...context,
             transactionId: transaction.id,
-            provider: this.provider.constructor.name,
+            provider: providerName,
             recoverable: this.isErrorRecoverable(providerError.code),
             retryable: this.isErrorRetryable(providerError.code)
           }
@@ -241,6 +272,440 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Confirms a payment that required customer action, with the provider
+   * that created it
+   * @param transactionId Internal transaction ID of the payment
+   * @returns Confirmation result
+   */
+  async confirmPayment(transactionId: string): Promise<PaymentResult> {
+    const operationId = this.generateOperationId();
+    const context = { operationId, transactionId };
+    
+    this.logger.info(`[${operationId}] Confirming payment`, context);
+    
+    try {
+      const transaction = await this.transactionManager.getTransaction(transactionId);
+      
+      if (!transaction) {
+        throw errorHandler.createError(
+          `Transaction not found: ${transactionId}`,
+          ErrorCode.TRANSACTION_NOT_FOUND,
+          context
+        );
+      }
+      
+      if (transaction.status !== TransactionStatus.PROCESSING || 
+          !transaction.metadata?.providerTransactionId) {
+        throw errorHandler.createError(
+          `Transaction ${transactionId} is not awaiting confirmation`,
+          ErrorCode.TRANSACTION_INVALID_STATE,
+          { ...context, status: transaction.status }
+        );
+      }
+      
+      const { name: providerName, provider } = this.router.getProviderForTransaction(transaction);
+      const result = await provider.confirmPayment(transaction.metadata.providerTransactionId);
+      
+      if (result.error?.code === 'REQUIRES_ACTION') {
+        return { ...result, transactionId };
+      }
+      
+      if (!result.success) {
+        return this.handleProviderFailure(transactionId, result, { ...context, provider: providerName });
+      }
+      
+      await this.transactionManager.updateTransactionStatus(
+        transactionId,
+        TransactionStatus.COMPLETED,
+        { confirmedAt: new Date() },
+        result.fees
+      );
+      
+      this.logger.info(`[${operationId}] Payment confirmed`, { transactionId, provider: providerName });
+      
+      return {
+        ...result,
+        transactionId
+      };
+    } catch (error) {
+      return this.handleOperationError(
+        error,
+        'An unexpected error occurred during payment confirmation',
+        context
+      );
+    }
+  }
+
+  /**
+   * Authorizes a payment without capturing it, holding the funds
+   * until capturePayment or voidPayment is called
+   * @param input Payment input data
+   * @returns Authorization result
+   */
+  async authorizePayment(input: CreatePaymentInput): Promise<PaymentResult> {
+    const operationId = this.generateOperationId();
+    const requestId = input.metadata?.requestId || uuidv4();
+    const context = { 
+      operationId,
+      requestId,
+      amount: input.amount,
+      customerId: input.customer.id,
+      idempotencyKey: input.metadata?.idempotencyKey
+    };
+    
+    this.logger.info(`[${operationId}] Authorizing payment`, context);
+    
+    let transaction;
+    try {
+      try {
+        validatePaymentInput(input);
+      } catch (validationError) {
+        throw errorHandler.createError(
+          'Payment validation failed',
+          ErrorCode.PAYMENT_VALIDATION_FAILED,
+          { ...context, validationErrors: validationError.errors },
+          validationError
+        );
+      }
+      
+      const { name: providerName, provider } = this.router.selectProvider(input);
+      
+      transaction = await this.transactionManager.beginTransaction(
+        TransactionType.PAYMENT,
+        {
+          amount: input.amount.amount,
+          currency: input.amount.currency,
+          customerId: input.customer.id,
+          paymentMethodId: typeof input.paymentMethod === 'string' 
+            ? input.paymentMethod 
+            : input.paymentMethod.id,
+          idempotencyKey: input.metadata?.idempotencyKey || uuidv4(),
+          provider: providerName,
+          metadata: {
+            ...input.metadata,
+            operationId,
+            requestId,
+            captureMethod: 'manual'
+          }
+        }
+      );
+      
+      await this.transactionManager.updateTransactionStatus(
+        transaction.id,
+        TransactionStatus.PROCESSING
+      );
+      
+      const result = await provider.authorizePayment(this.withTransactionId(input, transaction.id));
+      
+      if (!result.success) {
+        return this.handleProviderFailure(transaction.id, result, context);
+      }
+      
+      await this.transactionManager.updateTransactionStatus(
+        transaction.id,
+        TransactionStatus.AUTHORIZED,
+        { 
+          providerTransactionId: result.transactionId,
+          authorizedAmount: input.amount.amount,
+          capturedAmount: 0,
+          authorizedAt: new Date()
+        }
+      );
+      
+      // Register void as the compensation for the hold on the customer's funds
+      if (this.compensatingHandler) {
+        await this.compensatingHandler.registerCompensatingOperation(transaction.id, {
+          operationType: CompensatingOperationType.PAYMENT_AUTHORIZE,
+          params: {
+            authorizationId: result.transactionId,
+            amount: input.amount.amount,
+            currency: input.amount.currency
+          },
+          executionOrder: 1
+        });
+      }
+      
+      this.logger.info(`[${operationId}] Payment authorized successfully`, {
+        transactionId: transaction.id,
+        providerTransactionId: result.transactionId
+      });
+      
+      return {
+        ...result,
+        transactionId: transaction.id,
+        requestId
+      };
+    } catch (error) {
+      return this.handleOperationError(
+        error,
+        'An unexpected error occurred during payment authorization',
+        { ...context, transactionId: transaction?.id }
+      );
+    }
+  }
+
+  /**
+   * Captures a previously authorized payment, fully or partially
+   * @param transactionId Internal transaction ID of the authorization
+   * @param amount Amount to capture; defaults to the full authorized amount
+   * @returns Capture result
+   */
+  async capturePayment(transactionId: string, amount?: number): Promise<PaymentResult> {
+    const operationId = this.generateOperationId();
+    const context = { operationId, transactionId, amount };
+    
+    this.logger.info(`[${operationId}] Capturing payment`, context);
+    
+    try {
+      const transaction = await this.getAuthorizedTransaction(transactionId);
+      const authorizedAmount = transaction.metadata?.authorizedAmount ?? transaction.amount;
+      const captureAmount = amount ?? authorizedAmount;
+      
+      if (captureAmount <= 0 || captureAmount > authorizedAmount) {
+        throw errorHandler.createError(
+          `Capture amount must be greater than 0 and at most ${authorizedAmount}`,
+          ErrorCode.VALIDATION_ERROR,
+          { ...context, authorizedAmount }
+        );
+      }
+      
+      const { provider } = this.router.getProviderForTransaction(transaction);
+      const result = await provider.capturePayment(
+        transaction.metadata.providerTransactionId,
+        { amount: captureAmount }
+      );
+      
+      if (!result.success) {
+        return this.handleProviderFailure(transactionId, result, context, false);
+      }
+      
+      // Whatever is not captured is released back to the customer by the provider
+      const capturedAmount = result.metadata?.capturedAmount ?? captureAmount;
+      const status = capturedAmount < authorizedAmount 
+        ? TransactionStatus.PARTIALLY_CAPTURED 
+        : TransactionStatus.COMPLETED;
+      
+      const updatedTransaction = await this.transactionManager.updateTransactionStatus(
+        transactionId,
+        status,
+        {
+          capturedAmount,
+          releasedAmount: authorizedAmount - capturedAmount,
+          capturedAt: new Date(),
+          providerChargeId: result.metadata?.stripeChargeId
+        },
+        result.fees
+      );
+      
+      if (this.compensatingHandler) {
+        await this.compensatingHandler.registerCompensatingOperation(transactionId, {
+          operationType: CompensatingOperationType.PAYMENT_CAPTURE,
+          params: {
+            captureId: result.transactionId,
+            amount: capturedAmount,
+            currency: transaction.currency
+          },
+          executionOrder: 2
+        });
+      }
+      
+      this.logger.info(`[${operationId}] Payment captured`, {
+        transactionId,
+        capturedAmount,
+        status
+      });
+      
+      return {
+        success: true,
+        transactionId,
+        metadata: {
+          ...result.metadata,
+          status: updatedTransaction.status,
+          capturedAmount,
+          authorizedAmount
+        }
+      };
+    } catch (error) {
+      return this.handleOperationError(
+        error,
+        'An unexpected error occurred during payment capture',
+        context
+      );
+    }
+  }
+
+  /**
+   * Voids a previously authorized payment, releasing the held funds
+   * @param transactionId Internal transaction ID of the authorization
+   * @param reason Optional reason for voiding
+   * @returns Void result
+   */
+  async voidPayment(transactionId: string, reason?: string): Promise<PaymentResult> {
+    const operationId = this.generateOperationId();
+    const context = { operationId, transactionId, reason };
+    
+    this.logger.info(`[${operationId}] Voiding payment authorization`, context);
+    
+    try {
+      const transaction = await this.getAuthorizedTransaction(transactionId);
+      
+      const { provider } = this.router.getProviderForTransaction(transaction);
+      const result = await provider.voidPayment(
+        transaction.metadata.providerTransactionId,
+        reason
+      );
+      
+      if (!result.success) {
+        return this.handleProviderFailure(transactionId, result, context, false);
+      }
+      
+      await this.transactionManager.updateTransactionStatus(
+        transactionId,
+        TransactionStatus.VOIDED,
+        {
+          voidedAt: new Date(),
+          voidReason: reason
+        }
+      );
+      
+      if (this.compensatingHandler) {
+        await this.compensatingHandler.registerCompensatingOperation(transactionId, {
+          operationType: CompensatingOperationType.PAYMENT_VOID,
+          params: { voidId: result.transactionId, reason },
+          executionOrder: 2
+        });
+      }
+      
+      this.logger.info(`[${operationId}] Payment authorization voided`, { transactionId });
+      
+      return {
+        success: true,
+        transactionId,
+        metadata: result.metadata
+      };
+    } catch (error) {
+      return this.handleOperationError(
+        error,
+        'An unexpected error occurred while voiding payment',
+        context
+      );
+    }
+  }
+
+  /**
+   * Get a payment transaction by ID
+   * @param transactionId Transaction ID
+   */
+  async getTransaction(transactionId: string): Promise<Transaction | null> {
+    return this.transactionManager.getTransaction(transactionId);
+  }
+
+  /**
+   * Loads a transaction and checks that it holds an open authorization
+   */
+  private async getAuthorizedTransaction(transactionId: string) {
+    const transaction = await this.transactionManager.getTransaction(transactionId);
+    
+    if (!transaction) {
+      throw errorHandler.createError(
+        `Transaction not found: ${transactionId}`,
+        ErrorCode.TRANSACTION_NOT_FOUND,
+        { transactionId }
+      );
+    }
+    
+    if (transaction.status !== TransactionStatus.AUTHORIZED) {
+      throw errorHandler.createError(
+        `Transaction ${transactionId} is not in AUTHORIZED state`,
+        ErrorCode.TRANSACTION_INVALID_STATE,
+        { transactionId, status: transaction.status }
+      );
+    }
+    
+    if (!transaction.metadata?.providerTransactionId) {
+      throw errorHandler.createError(
+        `Transaction ${transactionId} has no provider authorization reference`,
+        ErrorCode.TRANSACTION_INVALID_STATE,
+        { transactionId }
+      );
+    }
+    
+    return transaction;
+  }
+
+  /**
+   * Records a failed provider result and builds the standardized response.
+   * Capture and void failures leave the authorization in place, so they
+   * are not passed to the transaction error handling.
+   */
+  private async handleProviderFailure(
+    transactionId: string,
+    result: PaymentResult,
+    context: Record<string, any>,
+    failTransaction: boolean = true
+  ): Promise<PaymentResult> {
+    const errorCode = this.mapProviderErrorCode(result.error?.code);
+    const error = errorHandler.createError(
+      result.error?.message || 'Payment provider operation failed',
+      errorCode,
+      {
+        ...context,
+        transactionId,
+        providerErrorCode: result.error?.code,
+        providerErrorDetails: result.error?.details,
+        recoverable: this.isErrorRecoverable(result.error?.code),
+        retryable: this.isErrorRetryable(result.error?.code)
+      }
+    );
+    
+    if (failTransaction) {
+      await this.transactionManager.handleTransactionError(
+        transactionId,
+        {
+          code: error.code,
+          message: error.message,
+          details: error.context
+        }
+      );
+    }
+    
+    return {
+      success: false,
+      transactionId,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: process.env.NODE_ENV === 'production' ? undefined : error.context
+      }
+    };
+  }
+
+  /**
+   * Converts an unexpected error into a standardized error response
+   */
+  private handleOperationError(
+    error: any,
+    message: string,
+    context: Record<string, any>
+  ): PaymentResult {
+    const paymentError = error instanceof PaymentError 
+      ? error 
+      : errorHandler.wrapError(error, message, ErrorCode.INTERNAL_ERROR, context, false);
+    
+    errorHandler.handleError(paymentError);
+    
+    return {
+      success: false,
+      transactionId: context.transactionId,
+      error: {
+        code: paymentError.code,
+        message: paymentError.message,
+        details: process.env.NODE_ENV === 'production' ? undefined : paymentError.context
+      }
+    };
+  }
+
   /**
    * Maps provider-specific error codes to our standard error codes
    */
@@ -255,6 +720,8 @@ export class PaymentService {
       'expired_card': ErrorCode.PAYMENT_METHOD_INVALID,
       'processing_error': ErrorCode.PROVIDER_ERROR,
       'api_connection_error': ErrorCode.PROVIDER_COMMUNICATION_ERROR,
+      'provider_communication_error': ErrorCode.PROVIDER_COMMUNICATION_ERROR,
+      'provider_circuit_open': ErrorCode.PROVIDER_CIRCUIT_OPEN,
       'authentication_error': ErrorCode.AUTHENTICATION_ERROR,
       'rate_limit_error': ErrorCode.PROVIDER_ERROR,
       'invalid_request': ErrorCode.VALIDATION_ERROR,
@@ -294,6 +761,10 @@ export class PaymentService {
     return errorCode ? retryableErrors.includes(errorCode) : false;
   }
   
+  private withTransactionId(input: CreatePaymentInput, transactionId: string): CreatePaymentInput {
+    return { ...input, metadata: { ...input.metadata, transactionId } };
+  }
+  
   /**
    * Generates a unique operation ID for tracking
    */
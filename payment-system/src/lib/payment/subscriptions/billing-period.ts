@@ -0,0 +1,31 @@
+// src/lib/payment/subscriptions/billing-period.ts
+import { BillingInterval } from '../types/subscription';
+
+/**
+ * Advance a date by one billing interval. Month ends are clamped, so a
+ * period starting on Jan 31 renews on Feb 28/29 rather than in March.
+ */
+export function addBillingInterval(date: Date, interval: BillingInterval): Date {
+  const months = interval === 'yearly' ? 12 : 1;
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+
+  return result;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Price normalized to a monthly amount so plans with different intervals can be compared
+ */
+export function monthlyPrice(price: number, interval: BillingInterval): number {
+  return interval === 'yearly' ? price / 12 : price;
+}
@@ -0,0 +1,270 @@
+// src/lib/payment/subscriptions/database-subscription.store.ts
+import { Pool } from 'pg';
+import { DunningState, Subscription, SubscriptionPlan, SubscriptionStatus } from '../types/subscription';
+import { SubscriptionStore, SubscriptionQuery } from './subscription.store';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export class DatabaseSubscriptionStore extends SubscriptionStore {
+  private logger: PaymentLogger;
+
+  constructor(private dbPool: Pool) {
+    super();
+    this.logger = new PaymentLogger('info', 'DatabaseSubscriptionStore');
+  }
+
+  async savePlan(plan: SubscriptionPlan): Promise<void> {
+    try {
+      const query = `
+        INSERT INTO subscription_plans (
+          id, name, price, currency, interval, trial_days, active, metadata,
+          created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (id) DO UPDATE SET
+          name = $2,
+          trial_days = $6,
+          active = $7,
+          metadata = $8,
+          updated_at = $10
+      `;
+
+      await this.dbPool.query(query, [
+        plan.id,
+        plan.name,
+        plan.price,
+        plan.currency,
+        plan.interval,
+        plan.trialDays || 0,
+        plan.active,
+        plan.metadata ? JSON.stringify(plan.metadata) : null,
+        plan.createdAt,
+        plan.updatedAt
+      ]);
+    } catch (error) {
+      this.logger.error('Failed to save subscription plan', { error, planId: plan.id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save subscription plan',
+        ErrorCode.DATABASE_ERROR,
+        { planId: plan.id }
+      );
+    }
+  }
+
+  async getPlan(id: string): Promise<SubscriptionPlan | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM subscription_plans WHERE id = $1',
+        [id]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToPlan(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('Failed to get subscription plan', { error, id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get subscription plan',
+        ErrorCode.DATABASE_ERROR,
+        { planId: id }
+      );
+    }
+  }
+
+  async listPlans(activeOnly: boolean = false): Promise<SubscriptionPlan[]> {
+    try {
+      const result = await this.dbPool.query(
+        `SELECT * FROM subscription_plans ${activeOnly ? 'WHERE active = true' : ''} ORDER BY price ASC`
+      );
+
+      return result.rows.map(row => this.mapRowToPlan(row));
+    } catch (error) {
+      this.logger.error('Failed to list subscription plans', { error });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to list subscription plans',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    try {
+      const query = `
+        INSERT INTO subscriptions (
+          id, status, plan_id, plan, customer_id, customer_email, payment_method_id,
+          current_period_start, current_period_end, cancel_at_period_end, canceled_at,
+          trial_end, scheduled_plan, last_payment_transaction_id, metadata,
+          created_at, updated_at, credit_balance, dunning
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+        ON CONFLICT (id) DO UPDATE SET
+          status = $2,
+          plan_id = $3,
+          plan = $4,
+          payment_method_id = $7,
+          current_period_start = $8,
+          current_period_end = $9,
+          cancel_at_period_end = $10,
+          canceled_at = $11,
+          trial_end = $12,
+          scheduled_plan = $13,
+          last_payment_transaction_id = $14,
+          metadata = $15,
+          updated_at = $17,
+          credit_balance = $18,
+          dunning = $19
+      `;
+
+      await this.dbPool.query(query, [
+        subscription.id,
+        subscription.status,
+        subscription.plan.id,
+        JSON.stringify(subscription.plan),
+        subscription.customerId,
+        subscription.customerEmail,
+        subscription.paymentMethodId,
+        subscription.currentPeriodStart,
+        subscription.currentPeriodEnd,
+        subscription.cancelAtPeriodEnd || false,
+        subscription.canceledAt || null,
+        subscription.trialEnd || null,
+        subscription.scheduledPlan ? JSON.stringify(subscription.scheduledPlan) : null,
+        subscription.lastPaymentTransactionId || null,
+        subscription.metadata ? JSON.stringify(subscription.metadata) : null,
+        subscription.createdAt,
+        subscription.updatedAt,
+        subscription.creditBalance || 0,
+        subscription.dunning ? JSON.stringify(subscription.dunning) : null
+      ]);
+    } catch (error) {
+      this.logger.error('Failed to save subscription', { error, subscriptionId: subscription.id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save subscription',
+        ErrorCode.DATABASE_ERROR,
+        { subscriptionId: subscription.id }
+      );
+    }
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM subscriptions WHERE id = $1',
+        [id]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToSubscription(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('Failed to get subscription', { error, id });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get subscription',
+        ErrorCode.DATABASE_ERROR,
+        { subscriptionId: id }
+      );
+    }
+  }
+
+  async list(options: SubscriptionQuery = {}): Promise<Subscription[]> {
+    try {
+      let query = 'SELECT * FROM subscriptions WHERE 1=1';
+      const params: any[] = [];
+      let paramIndex = 1;
+
+      if (options.customerId) {
+        query += ` AND customer_id = $${paramIndex++}`;
+        params.push(options.customerId);
+      }
+
+      if (options.status) {
+        query += ` AND status = ANY($${paramIndex++})`;
+        params.push(options.status);
+      }
+
+      if (options.periodEndBefore) {
+        query += ` AND current_period_end <= $${paramIndex++}`;
+        params.push(options.periodEndBefore);
+      }
+
+      if (options.inDunning) {
+        query += ` AND dunning IS NOT NULL AND dunning->>'exhaustedAt' IS NULL`;
+      }
+
+      query += ' ORDER BY current_period_end ASC';
+
+      if (options.limit) {
+        query += ` LIMIT $${paramIndex++}`;
+        params.push(options.limit);
+      }
+
+      if (options.offset) {
+        query += ` OFFSET $${paramIndex++}`;
+        params.push(options.offset);
+      }
+
+      const result = await this.dbPool.query(query, params);
+      return result.rows.map(row => this.mapRowToSubscription(row));
+    } catch (error) {
+      this.logger.error('Failed to list subscriptions', { error, options });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to list subscriptions',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  private mapRowToPlan(row: any): SubscriptionPlan {
+    return {
+      id: row.id,
+      name: row.name,
+      price: parseFloat(row.price),
+      currency: row.currency,
+      interval: row.interval,
+      trialDays: row.trial_days || undefined,
+      active: row.active,
+      metadata: row.metadata || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToSubscription(row: any): Subscription {
+    return {
+      id: row.id,
+      status: row.status as SubscriptionStatus,
+      plan: row.plan,
+      customerId: row.customer_id,
+      customerEmail: row.customer_email,
+      paymentMethodId: row.payment_method_id,
+      currentPeriodStart: row.current_period_start,
+      currentPeriodEnd: row.current_period_end,
+      cancelAtPeriodEnd: row.cancel_at_period_end,
+      canceledAt: row.canceled_at || undefined,
+      trialEnd: row.trial_end || undefined,
+      scheduledPlan: row.scheduled_plan || undefined,
+      lastPaymentTransactionId: row.last_payment_transaction_id || undefined,
+      creditBalance: row.credit_balance ? parseFloat(row.credit_balance) : undefined,
+      dunning: row.dunning ? this.mapDunningState(row.dunning) : undefined,
+      metadata: row.metadata || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // Dates inside JSONB come back as strings
+  private mapDunningState(value: any): DunningState {
+    return {
+      ...value,
+      startedAt: new Date(value.startedAt),
+      nextAttemptAt: value.nextAttemptAt ? new Date(value.nextAttemptAt) : undefined,
+      exhaustedAt: value.exhaustedAt ? new Date(value.exhaustedAt) : undefined
+    };
+  }
+}
@@ -0,0 +1,387 @@
+// src/lib/payment/subscriptions/dunning.manager.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { DunningState, Subscription } from '../types/subscription';
+import { SubscriptionStore } from './subscription.store';
+import { SubscriptionManager } from './subscription.manager';
+import { RetryQueue } from '../recovery/queue/retry.queue';
+import { CustomerStore } from '../customer/customer.store';
+import { CustomerNotifier, CommunicationChannel } from '../customer/customer.notifier';
+import { DunningConfig, defaultDunningConfig } from '../config/dunning.config';
+import { EventEmitter } from '../events/event.emitter';
+import { errorHandler, ErrorCode, PaymentError } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DunningManagerOptions {
+  config?: Partial<DunningConfig>;
+  eventEmitter?: EventEmitter;
+  customerStore?: CustomerStore;
+  notifier?: CustomerNotifier;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export type DunningStep = 'started' | 'retry_failed' | 'recovered' | 'exhausted';
+
+/**
+ * Retries failed renewal charges on a fixed schedule counted from the first
+ * failure, notifies the customer at each step and applies the configured
+ * final action once the schedule runs out. Retries are scheduled on a
+ * RetryQueue keyed by subscription ID.
+ */
+export class DunningManager {
+  private logger: PaymentLogger;
+  private config: DunningConfig;
+  private eventEmitter?: EventEmitter;
+  private customerStore?: CustomerStore;
+  private notifier?: CustomerNotifier;
+
+  constructor(
+    private subscriptionManager: SubscriptionManager,
+    private store: SubscriptionStore,
+    private retryQueue: RetryQueue,
+    options: DunningManagerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'DunningManager');
+    this.config = { ...defaultDunningConfig, ...options.config };
+    this.eventEmitter = options.eventEmitter;
+    this.customerStore = options.customerStore;
+    this.notifier = options.notifier;
+
+    // Subscribe to retry events from the queue
+    this.retryQueue.on('retry', (subscriptionId: string) => {
+      this.processRetry(subscriptionId).catch(error => {
+        this.logger.error(`Dunning retry failed for subscription ${subscriptionId}`, { error });
+      });
+    });
+  }
+
+  /**
+   * Put a subscription whose renewal charge failed into dunning
+   */
+  async startDunning(subscriptionId: string, errorCode?: string): Promise<Subscription> {
+    const operationId = uuidv4().slice(0, 8);
+
+    try {
+      const subscription = await this.getSubscription(subscriptionId);
+
+      if (subscription.status !== 'past_due') {
+        throw errorHandler.createError(
+          `Subscription ${subscriptionId} is ${subscription.status}, not past due`,
+          ErrorCode.SUBSCRIPTION_INVALID_STATE,
+          { subscriptionId, status: subscription.status }
+        );
+      }
+
+      // Already scheduled; a repeated failure notification must not restart the schedule
+      if (subscription.dunning && !subscription.dunning.exhaustedAt) {
+        return subscription;
+      }
+
+      const now = new Date();
+      const dunning: DunningState = {
+        startedAt: now,
+        attempt: 0,
+        nextAttemptAt: this.attemptDate(now, 1),
+        lastErrorCode: errorCode
+      };
+
+      const updated = await this.saveDunningState(subscription, dunning);
+      await this.scheduleAttempt(updated, 1);
+
+      this.logger.info(`[${operationId}] Started dunning for subscription ${subscriptionId}`, {
+        nextAttemptAt: dunning.nextAttemptAt,
+        schedule: this.config.retryScheduleDays
+      });
+
+      await this.notifyCustomer(updated, 'started');
+      await this.emit('dunning.started', {
+        subscriptionId,
+        customerId: subscription.customerId,
+        errorCode,
+        nextAttemptAt: dunning.nextAttemptAt,
+        totalAttempts: this.config.retryScheduleDays.length,
+        timestamp: now
+      });
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`[${operationId}] Failed to start dunning for subscription ${subscriptionId}`, { error });
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to start dunning',
+        ErrorCode.INTERNAL_ERROR,
+        { subscriptionId }
+      );
+    }
+  }
+
+  /**
+   * Run the next scheduled retry for a subscription in dunning
+   */
+  async processRetry(subscriptionId: string): Promise<Subscription> {
+    const operationId = uuidv4().slice(0, 8);
+    const subscription = await this.getSubscription(subscriptionId);
+    const dunning = subscription.dunning;
+
+    // Paid, canceled or otherwise resolved since the retry was scheduled
+    if (!dunning || dunning.exhaustedAt || subscription.status !== 'past_due') {
+      this.logger.info(`[${operationId}] Subscription ${subscriptionId} is no longer in dunning, skipping retry`);
+      return subscription;
+    }
+
+    const attempt = dunning.attempt + 1;
+    const totalAttempts = this.config.retryScheduleDays.length;
+
+    this.logger.info(`[${operationId}] Dunning retry ${attempt}/${totalAttempts} for subscription ${subscriptionId}`);
+
+    const result = await this.subscriptionManager.retryRenewal(subscriptionId, attempt);
+    const now = new Date();
+
+    if (result.outcome === 'renewed') {
+      // The successful renewal already cleared the dunning state
+      const recovered = await this.getSubscription(subscriptionId);
+
+      await this.notifyCustomer(recovered, 'recovered');
+      await this.emit('dunning.recovered', {
+        subscriptionId,
+        customerId: subscription.customerId,
+        attempt,
+        transactionId: result.transactionId,
+        timestamp: now
+      });
+
+      return recovered;
+    }
+
+    if (result.outcome === 'canceled') {
+      const canceled = await this.saveDunningState(
+        await this.getSubscription(subscriptionId),
+        undefined
+      );
+
+      await this.emit('dunning.ended', {
+        subscriptionId,
+        customerId: subscription.customerId,
+        attempt,
+        reason: 'canceled',
+        timestamp: now
+      });
+
+      return canceled;
+    }
+
+    const failed = await this.getSubscription(subscriptionId);
+
+    if (attempt < totalAttempts) {
+      const nextAttemptAt = this.attemptDate(dunning.startedAt, attempt + 1);
+      const updated = await this.saveDunningState(failed, {
+        ...dunning,
+        attempt,
+        nextAttemptAt,
+        lastErrorCode: result.errorCode
+      });
+      await this.scheduleAttempt(updated, attempt + 1);
+
+      await this.notifyCustomer(updated, 'retry_failed');
+      await this.emit('dunning.retry_failed', {
+        subscriptionId,
+        customerId: subscription.customerId,
+        attempt,
+        totalAttempts,
+        errorCode: result.errorCode,
+        transactionId: result.transactionId,
+        nextAttemptAt,
+        timestamp: now
+      });
+
+      return updated;
+    }
+
+    return this.exhaust(failed, { ...dunning, attempt, lastErrorCode: result.errorCode });
+  }
+
+  /**
+   * Stop dunning for a subscription, e.g. after the customer paid by other means
+   */
+  async stopDunning(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    await this.retryQueue.dequeue(subscriptionId);
+
+    if (!subscription.dunning) {
+      return subscription;
+    }
+
+    const updated = await this.saveDunningState(subscription, undefined);
+
+    await this.emit('dunning.ended', {
+      subscriptionId,
+      customerId: subscription.customerId,
+      attempt: subscription.dunning.attempt,
+      reason: 'stopped',
+      timestamp: new Date()
+    });
+
+    return updated;
+  }
+
+  /**
+   * Subscriptions currently in dunning, for the dashboard
+   */
+  async getDunningAccounts(limit?: number, offset?: number): Promise<Subscription[]> {
+    return this.subscriptionManager.getDunningSubscriptions(limit, offset);
+  }
+
+  /**
+   * Apply the configured final action once every retry has failed
+   */
+  private async exhaust(subscription: Subscription, dunning: DunningState): Promise<Subscription> {
+    const finalAction = this.config.finalAction;
+    const now = new Date();
+
+    this.logger.warn(`Dunning exhausted for subscription ${subscription.id}`, {
+      attempts: dunning.attempt,
+      finalAction
+    });
+
+    let updated: Subscription;
+    if (finalAction === 'cancel') {
+      updated = await this.subscriptionManager.cancelSubscription(subscription.id, { atPeriodEnd: false });
+    } else {
+      updated = await this.subscriptionManager.suspendSubscription(
+        subscription.id,
+        finalAction === 'pause' ? 'paused' : 'unpaid'
+      );
+    }
+
+    updated = await this.saveDunningState(updated, {
+      ...dunning,
+      nextAttemptAt: undefined,
+      exhaustedAt: now,
+      finalAction
+    });
+
+    await this.notifyCustomer(updated, 'exhausted');
+    await this.emit('dunning.exhausted', {
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      attempts: dunning.attempt,
+      finalAction,
+      status: updated.status,
+      errorCode: dunning.lastErrorCode,
+      timestamp: now
+    });
+
+    return updated;
+  }
+
+  private async scheduleAttempt(subscription: Subscription, attempt: number): Promise<void> {
+    const delay = Math.max(
+      this.attemptDate(subscription.dunning!.startedAt, attempt).getTime() - Date.now(),
+      0
+    );
+
+    await this.retryQueue.enqueue(subscription.id, delay, attempt);
+  }
+
+  /**
+   * When the given retry attempt is due, counted in days from the start of dunning
+   */
+  private attemptDate(startedAt: Date, attempt: number): Date {
+    const day = this.config.retryScheduleDays[attempt - 1];
+    return new Date(startedAt.getTime() + day * DAY_MS);
+  }
+
+  private async saveDunningState(
+    subscription: Subscription,
+    dunning: DunningState | undefined
+  ): Promise<Subscription> {
+    const updated = { ...subscription, dunning, updatedAt: new Date() };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  /**
+   * Notify the customer over their preferred channel. Notification failures
+   * are logged and never interrupt the dunning schedule.
+   */
+  private async notifyCustomer(subscription: Subscription, step: DunningStep): Promise<void> {
+    if (!this.notifier) {
+      return;
+    }
+
+    try {
+      let channel: CommunicationChannel = 'email';
+
+      if (this.customerStore) {
+        const profile = await this.customerStore.get(subscription.customerId);
+        channel = profile?.preferences?.communicationChannel || 'email';
+      }
+
+      const deliveredVia = await this.notifier.notify(channel, {
+        customerId: subscription.customerId,
+        email: subscription.customerEmail,
+        template: `dunning.${step}`,
+        subject: this.notificationSubject(step),
+        data: {
+          subscriptionId: subscription.id,
+          planName: subscription.plan.name,
+          amount: subscription.plan.price,
+          currency: subscription.plan.currency,
+          attempt: subscription.dunning?.attempt,
+          nextAttemptAt: subscription.dunning?.nextAttemptAt,
+          finalAction: subscription.dunning?.finalAction
+        }
+      });
+
+      if (!deliveredVia) {
+        this.logger.warn(`No notification channel configured for customer ${subscription.customerId}`);
+        return;
+      }
+
+      await this.emit('dunning.customer_notified', {
+        subscriptionId: subscription.id,
+        customerId: subscription.customerId,
+        step,
+        channel: deliveredVia,
+        timestamp: new Date()
+      });
+    } catch (error) {
+      this.logger.error(`Failed to notify customer ${subscription.customerId} about dunning`, {
+        error,
+        subscriptionId: subscription.id,
+        step
+      });
+    }
+  }
+
+  private notificationSubject(step: DunningStep): string {
+    switch (step) {
+      case 'started':
+        return 'We could not process your subscription payment';
+      case 'retry_failed':
+        return 'Your subscription payment failed again';
+      case 'recovered':
+        return 'Your subscription payment went through';
+      case 'exhausted':
+        return 'Your subscription is no longer active';
+    }
+  }
+
+  private async getSubscription(subscriptionId: string): Promise<Subscription> {
+    return this.subscriptionManager.getSubscription(subscriptionId);
+  }
+
+  private async emit(eventType: string, data: Record<string, any>): Promise<void> {
+    if (this.eventEmitter) {
+      await this.eventEmitter.emit(eventType, data);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+// src/lib/payment/subscriptions/proration.ts
+
+import {
+  ProrationLine,
+  ProrationResult,
+  Subscription,
+  SubscriptionPlan
+} from '../types/subscription';
+import { CurrencyManager } from '../currency/currency.manager';
+import { addBillingInterval } from './billing-period';
+
+/**
+ * Works out what a mid-cycle plan change costs. The unused part of the
+ * current period is credited, and the new plan is charged either for the
+ * rest of the current period (same interval) or for a full new period
+ * starting now (interval change, e.g. monthly to yearly).
+ */
+export class ProrationCalculator {
+  constructor(private currencyManager: CurrencyManager) {}
+
+  calculate(
+    subscription: Subscription,
+    newPlan: SubscriptionPlan,
+    prorationDate: Date = new Date()
+  ): ProrationResult {
+    const currency = subscription.plan.currency;
+    const periodStart = subscription.currentPeriodStart;
+    const periodEnd = subscription.currentPeriodEnd;
+    const lines: ProrationLine[] = [];
+
+    const inTrial = subscription.status === 'trial';
+    // A trial keeps its end date; the new interval applies from the first renewal
+    const intervalChanged = !inTrial && newPlan.interval !== subscription.plan.interval;
+    const newPeriodStart = intervalChanged ? prorationDate : periodStart;
+    const newPeriodEnd = intervalChanged
+      ? addBillingInterval(prorationDate, newPlan.interval)
+      : periodEnd;
+
+    // Nothing was paid for a trial period, so there is nothing to credit or charge
+    if (!inTrial) {
+      const unusedFraction = this.unusedFraction(periodStart, periodEnd, prorationDate);
+
+      const credit = this.round(subscription.plan.price * unusedFraction, currency);
+      if (credit > 0) {
+        lines.push({
+          type: 'credit',
+          description: `Unused time on ${subscription.plan.name}`,
+          planId: subscription.plan.id,
+          amount: credit,
+          periodStart: prorationDate,
+          periodEnd
+        });
+      }
+
+      const debit = intervalChanged
+        ? this.round(newPlan.price, currency)
+        : this.round(newPlan.price * unusedFraction, currency);
+      if (debit > 0) {
+        lines.push({
+          type: 'debit',
+          description: intervalChanged
+            ? `${newPlan.name} (${newPlan.interval})`
+            : `Remaining time on ${newPlan.name}`,
+          planId: newPlan.id,
+          amount: debit,
+          periodStart: prorationDate,
+          periodEnd: newPeriodEnd
+        });
+      }
+    }
+
+    const existingCredit = this.round(subscription.creditBalance || 0, currency);
+    if (existingCredit > 0) {
+      lines.push({
+        type: 'credit',
+        description: 'Account credit',
+        amount: existingCredit
+      });
+    }
+
+    const totalCredit = this.sumLines(lines, 'credit', currency);
+    const totalDebit = this.sumLines(lines, 'debit', currency);
+    const net = this.round(totalDebit - totalCredit, currency);
+
+    return {
+      subscriptionId: subscription.id,
+      fromPlanId: subscription.plan.id,
+      toPlanId: newPlan.id,
+      currency,
+      prorationDate,
+      lines,
+      totalCredit,
+      totalDebit,
+      amountDue: Math.max(net, 0),
+      creditBalance: Math.max(-net, 0),
+      newPeriodStart,
+      newPeriodEnd
+    };
+  }
+
+  /**
+   * Share of the period still remaining at the given date, between 0 and 1
+   */
+  private unusedFraction(periodStart: Date, periodEnd: Date, at: Date): number {
+    const total = periodEnd.getTime() - periodStart.getTime();
+    if (total <= 0) {
+      return 0;
+    }
+
+    const remaining = periodEnd.getTime() - at.getTime();
+    return Math.min(Math.max(remaining / total, 0), 1);
+  }
+
+  private sumLines(lines: ProrationLine[], type: ProrationLine['type'], currency: string): number {
+    return this.round(
+      lines
+        .filter(line => line.type === type)
+        .reduce((total, line) => total + line.amount, 0),
+      currency
+    );
+  }
+
+  private round(amount: number, currency: string): number {
+    return this.currencyManager.roundAmount(amount, currency);
+  }
+}
@@ -0,0 +1,785 @@
+// src/lib/payment/subscriptions/subscription.manager.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BillingInterval,
+  ProrationResult,
+  Subscription,
+  SubscriptionPlan,
+  SubscriptionStatus
+} from '../types/subscription';
+import { SubscriptionStore } from './subscription.store';
+import { addBillingInterval, addDays, monthlyPrice } from './billing-period';
+import { ProrationCalculator } from './proration';
+import { PaymentService } from '../services/payment.service';
+import { PaymentResult } from '../types/common.types';
+import { CurrencyManager } from '../currency/currency.manager';
+import { EventEmitter } from '../events/event.emitter';
+import { errorHandler, ErrorCode } from '../utils/error';
+import { PaymentLogger } from '../utils/logger';
+
+export interface SubscriptionManagerOptions {
+  eventEmitter?: EventEmitter;
+  currencyManager?: CurrencyManager;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export interface CreatePlanInput {
+  name: string;
+  price: number;
+  currency: string;
+  interval: BillingInterval;
+  trialDays?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface CreateSubscriptionInput {
+  customerId: string;
+  customerEmail: string;
+  planId: string;
+  paymentMethodId: string;
+  // Overrides the plan's trial length; 0 skips the trial
+  trialDays?: number;
+  metadata?: Record<string, any>;
+}
+
+export type RenewalOutcome = 'renewed' | 'payment_failed' | 'canceled';
+
+export interface RenewalResult {
+  outcome: RenewalOutcome;
+  transactionId?: string;
+  errorCode?: string;
+}
+
+export interface PlanChangePreview {
+  subscriptionId: string;
+  fromPlan: SubscriptionPlan;
+  toPlan: SubscriptionPlan;
+  // Upgrades and interval changes apply now; downgrades wait for the next renewal
+  effective: 'immediate' | 'period_end';
+  effectiveAt: Date;
+  // Only set for immediate changes
+  proration?: ProrationResult;
+}
+
+// Subscriptions in these states count as the customer's current subscription
+const LIVE_STATUSES: SubscriptionStatus[] = ['trial', 'active', 'past_due', 'paused', 'unpaid'];
+
+// States left behind by a failed renewal, where the current period was never paid
+const DELINQUENT_STATUSES: SubscriptionStatus[] = ['past_due', 'paused', 'unpaid'];
+
+/**
+ * Manages the plan catalog and the subscription lifecycle. Charges are made
+ * through PaymentService, so every billing period is backed by a PAYMENT transaction.
+ */
+export class SubscriptionManager {
+  private logger: PaymentLogger;
+  private eventEmitter?: EventEmitter;
+  private currencyManager: CurrencyManager;
+  private prorationCalculator: ProrationCalculator;
+
+  constructor(
+    private store: SubscriptionStore,
+    private paymentService: PaymentService,
+    options: SubscriptionManagerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'SubscriptionManager');
+    this.eventEmitter = options.eventEmitter;
+    this.currencyManager = options.currencyManager || new CurrencyManager('external');
+    this.prorationCalculator = new ProrationCalculator(this.currencyManager);
+  }
+
+  /**
+   * Add a plan to the catalog
+   */
+  async createPlan(input: CreatePlanInput): Promise<SubscriptionPlan> {
+    if (input.price <= 0) {
+      throw errorHandler.createError(
+        'Plan price must be greater than zero',
+        ErrorCode.VALIDATION_ERROR,
+        { price: input.price }
+      );
+    }
+
+    const now = new Date();
+    const plan: SubscriptionPlan = {
+      id: uuidv4(),
+      name: input.name,
+      price: input.price,
+      currency: input.currency.toUpperCase(),
+      interval: input.interval,
+      trialDays: input.trialDays,
+      active: true,
+      metadata: input.metadata,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.savePlan(plan);
+    this.logger.info(`Created subscription plan ${plan.id}`, { name: plan.name, price: plan.price });
+
+    await this.emit('subscription.plan_created', {
+      planId: plan.id,
+      name: plan.name,
+      price: plan.price,
+      currency: plan.currency,
+      interval: plan.interval,
+      timestamp: now
+    });
+
+    return plan;
+  }
+
+  /**
+   * Stop offering a plan. Existing subscribers keep their plan.
+   */
+  async deactivatePlan(planId: string): Promise<SubscriptionPlan> {
+    const plan = await this.getPlan(planId);
+    const updated = { ...plan, active: false, updatedAt: new Date() };
+
+    await this.store.savePlan(updated);
+    return updated;
+  }
+
+  async getPlan(planId: string): Promise<SubscriptionPlan> {
+    const plan = await this.store.getPlan(planId);
+
+    if (!plan) {
+      throw errorHandler.createError(
+        `Plan not found: ${planId}`,
+        ErrorCode.PLAN_NOT_FOUND,
+        { planId }
+      );
+    }
+
+    return plan;
+  }
+
+  async listPlans(activeOnly: boolean = true): Promise<SubscriptionPlan[]> {
+    return this.store.listPlans(activeOnly);
+  }
+
+  /**
+   * Start a subscription. Without a trial the first period is charged immediately.
+   */
+  async createSubscription(input: CreateSubscriptionInput): Promise<Subscription> {
+    const operationId = uuidv4().slice(0, 8);
+    const plan = await this.getPlan(input.planId);
+
+    if (!plan.active) {
+      throw errorHandler.createError(
+        `Plan ${plan.id} is no longer available`,
+        ErrorCode.VALIDATION_ERROR,
+        { planId: plan.id }
+      );
+    }
+
+    const current = await this.getCurrentSubscription(input.customerId);
+    if (current) {
+      throw errorHandler.createError(
+        `Customer ${input.customerId} already has a subscription`,
+        ErrorCode.SUBSCRIPTION_INVALID_STATE,
+        { customerId: input.customerId, subscriptionId: current.id }
+      );
+    }
+
+    const now = new Date();
+    const trialDays = input.trialDays ?? plan.trialDays ?? 0;
+    const subscription: Subscription = {
+      id: uuidv4(),
+      status: trialDays > 0 ? 'trial' : 'active',
+      plan,
+      customerId: input.customerId,
+      customerEmail: input.customerEmail,
+      paymentMethodId: input.paymentMethodId,
+      currentPeriodStart: now,
+      currentPeriodEnd: trialDays > 0 ? addDays(now, trialDays) : addBillingInterval(now, plan.interval),
+      trialEnd: trialDays > 0 ? addDays(now, trialDays) : undefined,
+      metadata: input.metadata,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.logger.info(`[${operationId}] Creating subscription ${subscription.id}`, {
+      customerId: input.customerId,
+      planId: plan.id,
+      trialDays
+    });
+
+    if (trialDays === 0) {
+      const result = await this.charge(
+        subscription,
+        plan.price,
+        `subscription-${subscription.id}-${now.getTime()}`,
+        { planId: plan.id, periodStart: now.toISOString() }
+      );
+
+      if (!result.success) {
+        throw errorHandler.createError(
+          result.error?.message || 'Initial subscription payment failed',
+          ErrorCode.PAYMENT_FAILED,
+          {
+            customerId: input.customerId,
+            planId: plan.id,
+            transactionId: result.transactionId,
+            providerErrorCode: result.error?.code
+          }
+        );
+      }
+
+      subscription.lastPaymentTransactionId = result.transactionId;
+    }
+
+    await this.store.save(subscription);
+
+    await this.emit('subscription.created', {
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      planId: plan.id,
+      status: subscription.status,
+      trialEnd: subscription.trialEnd,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      timestamp: now
+    });
+
+    return subscription;
+  }
+
+  /**
+   * Show what a plan change would cost without applying it
+   */
+  async previewPlanChange(
+    subscriptionId: string,
+    planId: string,
+    at: Date = new Date()
+  ): Promise<PlanChangePreview> {
+    const subscription = await this.getLiveSubscription(subscriptionId);
+    const plan = await this.getPlan(planId);
+
+    this.validatePlanChange(subscription, plan);
+    return this.buildPlanChangePreview(subscription, plan, at);
+  }
+
+  /**
+   * Move a subscription to another plan. Upgrades and interval changes apply
+   * immediately and are prorated; downgrades are scheduled for the end of the
+   * current period.
+   */
+  async changePlan(subscriptionId: string, planId: string): Promise<Subscription> {
+    const operationId = uuidv4().slice(0, 8);
+    const subscription = await this.getLiveSubscription(subscriptionId);
+    const plan = await this.getPlan(planId);
+
+    this.validatePlanChange(subscription, plan);
+
+    if (plan.id === subscription.plan.id) {
+      // Switching back to the current plan cancels a pending downgrade
+      if (!subscription.scheduledPlan) {
+        return subscription;
+      }
+
+      const updated = { ...subscription, scheduledPlan: undefined, updatedAt: new Date() };
+      await this.store.save(updated);
+      return updated;
+    }
+
+    const now = new Date();
+    const preview = this.buildPlanChangePreview(subscription, plan, now);
+
+    if (preview.effective === 'period_end') {
+      const updated: Subscription = { ...subscription, scheduledPlan: plan, updatedAt: now };
+      await this.store.save(updated);
+
+      this.logger.info(`[${operationId}] Scheduled downgrade of subscription ${subscriptionId}`, {
+        fromPlanId: subscription.plan.id,
+        toPlanId: plan.id
+      });
+
+      await this.emit('subscription.downgrade_scheduled', {
+        subscriptionId,
+        customerId: subscription.customerId,
+        fromPlanId: subscription.plan.id,
+        toPlanId: plan.id,
+        effectiveAt: preview.effectiveAt,
+        timestamp: now
+      });
+
+      return updated;
+    }
+
+    const proration = preview.proration!;
+    let lastPaymentTransactionId = subscription.lastPaymentTransactionId;
+
+    if (proration.amountDue > 0) {
+      // Keyed on the subscription's state so a retried change cannot charge twice
+      const result = await this.charge(
+        subscription,
+        proration.amountDue,
+        `subscription-${subscription.id}-change-${plan.id}-${subscription.updatedAt.getTime()}`,
+        { planId: plan.id, proration: true }
+      );
+
+      if (!result.success) {
+        throw errorHandler.createError(
+          result.error?.message || 'Plan change payment failed',
+          ErrorCode.PAYMENT_FAILED,
+          {
+            subscriptionId,
+            planId: plan.id,
+            amountDue: proration.amountDue,
+            transactionId: result.transactionId,
+            providerErrorCode: result.error?.code
+          }
+        );
+      }
+
+      lastPaymentTransactionId = result.transactionId;
+    }
+
+    const updated: Subscription = {
+      ...subscription,
+      plan,
+      scheduledPlan: undefined,
+      currentPeriodStart: proration.newPeriodStart,
+      currentPeriodEnd: proration.newPeriodEnd,
+      creditBalance: proration.creditBalance,
+      lastPaymentTransactionId,
+      updatedAt: now
+    };
+    await this.store.save(updated);
+
+    const isUpgrade = this.isUpgrade(subscription.plan, plan);
+
+    this.logger.info(`[${operationId}] Changed plan of subscription ${subscriptionId}`, {
+      fromPlanId: subscription.plan.id,
+      toPlanId: plan.id,
+      amountDue: proration.amountDue,
+      creditBalance: proration.creditBalance
+    });
+
+    await this.emit(isUpgrade ? 'subscription.upgraded' : 'subscription.downgraded', {
+      subscriptionId,
+      customerId: subscription.customerId,
+      fromPlanId: subscription.plan.id,
+      toPlanId: plan.id,
+      effectiveAt: now,
+      amountCharged: proration.amountDue,
+      creditBalance: proration.creditBalance,
+      prorationLines: proration.lines,
+      transactionId: proration.amountDue > 0 ? lastPaymentTransactionId : undefined,
+      timestamp: now
+    });
+
+    return updated;
+  }
+
+  /**
+   * Cancel a subscription, by default at the end of the current period
+   */
+  async cancelSubscription(
+    subscriptionId: string,
+    options: { atPeriodEnd?: boolean } = {}
+  ): Promise<Subscription> {
+    const { atPeriodEnd = true } = options;
+    const subscription = await this.getLiveSubscription(subscriptionId);
+    const now = new Date();
+
+    if (atPeriodEnd) {
+      const updated = { ...subscription, cancelAtPeriodEnd: true, updatedAt: now };
+      await this.store.save(updated);
+
+      await this.emit('subscription.cancel_scheduled', {
+        subscriptionId,
+        customerId: subscription.customerId,
+        cancelAt: subscription.currentPeriodEnd,
+        timestamp: now
+      });
+
+      return updated;
+    }
+
+    return this.markCanceled(subscription, now);
+  }
+
+  /**
+   * Undo a pending cancel-at-period-end
+   */
+  async resumeSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.getLiveSubscription(subscriptionId);
+
+    if (!subscription.cancelAtPeriodEnd) {
+      return subscription;
+    }
+
+    const updated = { ...subscription, cancelAtPeriodEnd: false, updatedAt: new Date() };
+    await this.store.save(updated);
+
+    await this.emit('subscription.resumed', {
+      subscriptionId,
+      customerId: subscription.customerId,
+      timestamp: updated.updatedAt
+    });
+
+    return updated;
+  }
+
+  async getSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.store.get(subscriptionId);
+
+    if (!subscription) {
+      throw errorHandler.createError(
+        `Subscription not found: ${subscriptionId}`,
+        ErrorCode.SUBSCRIPTION_NOT_FOUND,
+        { subscriptionId }
+      );
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Get the customer's live subscription, if any
+   */
+  async getCurrentSubscription(customerId: string): Promise<Subscription | null> {
+    const subscriptions = await this.store.list({ customerId, status: LIVE_STATUSES, limit: 1 });
+    return subscriptions[0] || null;
+  }
+
+  /**
+   * Subscriptions whose current period has ended and need renewing
+   */
+  async getDueSubscriptions(now: Date = new Date(), limit?: number): Promise<Subscription[]> {
+    return this.store.list({
+      status: ['trial', 'active'],
+      periodEndBefore: now,
+      limit
+    });
+  }
+
+  /**
+   * Close the current period and start the next one. Pending cancellations
+   * and downgrades are applied here, then the new period is charged.
+   */
+  async renewSubscription(subscriptionId: string): Promise<RenewalOutcome> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    if (subscription.cancelAtPeriodEnd) {
+      await this.markCanceled(subscription, subscription.currentPeriodEnd);
+      return 'canceled';
+    }
+
+    const result = await this.chargeRenewal(
+      subscription,
+      `subscription-${subscription.id}-${subscription.currentPeriodEnd.getTime()}`
+    );
+
+    return result.outcome;
+  }
+
+  /**
+   * Retry the charge for a renewal that failed. Each attempt gets its own
+   * idempotency key, since the failed charge's transaction cannot be reused.
+   */
+  async retryRenewal(subscriptionId: string, attempt: number): Promise<RenewalResult> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    if (subscription.status !== 'past_due') {
+      throw errorHandler.createError(
+        `Subscription ${subscriptionId} has no failed renewal to retry`,
+        ErrorCode.SUBSCRIPTION_INVALID_STATE,
+        { subscriptionId, status: subscription.status }
+      );
+    }
+
+    // A customer who cancels while in dunning is not charged again
+    if (subscription.cancelAtPeriodEnd) {
+      await this.markCanceled(subscription, new Date());
+      return { outcome: 'canceled' };
+    }
+
+    return this.chargeRenewal(
+      subscription,
+      `subscription-${subscription.id}-${subscription.currentPeriodEnd.getTime()}-retry-${attempt}`,
+      attempt
+    );
+  }
+
+  /**
+   * Take a subscription out of service after dunning gave up on it
+   */
+  async suspendSubscription(
+    subscriptionId: string,
+    status: 'paused' | 'unpaid'
+  ): Promise<Subscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    if (!DELINQUENT_STATUSES.includes(subscription.status)) {
+      throw errorHandler.createError(
+        `Subscription ${subscriptionId} is ${subscription.status}`,
+        ErrorCode.SUBSCRIPTION_INVALID_STATE,
+        { subscriptionId, status: subscription.status }
+      );
+    }
+
+    const updated: Subscription = { ...subscription, status, updatedAt: new Date() };
+    await this.store.save(updated);
+
+    this.logger.info(`Suspended subscription ${subscriptionId}`, { status });
+
+    await this.emit(status === 'paused' ? 'subscription.paused' : 'subscription.marked_unpaid', {
+      subscriptionId,
+      customerId: subscription.customerId,
+      planId: subscription.plan.id,
+      timestamp: updated.updatedAt
+    });
+
+    return updated;
+  }
+
+  /**
+   * Subscriptions currently working through the dunning schedule
+   */
+  async getDunningSubscriptions(limit?: number, offset?: number): Promise<Subscription[]> {
+    return this.store.list({ inDunning: true, limit, offset });
+  }
+
+  /**
+   * Charge the period following the current one and move the subscription
+   * into it on success
+   */
+  private async chargeRenewal(
+    subscription: Subscription,
+    idempotencyKey: string,
+    attempt?: number
+  ): Promise<RenewalResult> {
+    const operationId = uuidv4().slice(0, 8);
+    const subscriptionId = subscription.id;
+    const now = new Date();
+
+    const plan = subscription.scheduledPlan || subscription.plan;
+    const periodStart = subscription.currentPeriodEnd;
+
+    // Credit from earlier plan changes is used up before charging the payment method
+    const credit = subscription.creditBalance || 0;
+    const amountDue = this.currencyManager.roundAmount(Math.max(plan.price - credit, 0), plan.currency);
+    const creditBalance = this.currencyManager.roundAmount(Math.max(credit - plan.price, 0), plan.currency);
+
+    const result: PaymentResult = amountDue > 0
+      ? await this.charge(
+          subscription,
+          amountDue,
+          idempotencyKey,
+          { planId: plan.id, periodStart: periodStart.toISOString(), attempt }
+        )
+      : { success: true };
+
+    if (!result.success) {
+      const updated: Subscription = {
+        ...subscription,
+        status: 'past_due',
+        updatedAt: now
+      };
+      await this.store.save(updated);
+
+      this.logger.warn(`[${operationId}] Renewal payment failed for subscription ${subscriptionId}`, {
+        transactionId: result.transactionId,
+        errorCode: result.error?.code,
+        attempt
+      });
+
+      await this.emit('subscription.payment_failed', {
+        subscriptionId,
+        customerId: subscription.customerId,
+        planId: plan.id,
+        amount: amountDue,
+        currency: plan.currency,
+        transactionId: result.transactionId,
+        errorCode: result.error?.code,
+        attempt,
+        timestamp: now
+      });
+
+      return {
+        outcome: 'payment_failed',
+        transactionId: result.transactionId,
+        errorCode: result.error?.code
+      };
+    }
+
+    const updated: Subscription = {
+      ...subscription,
+      status: 'active',
+      plan,
+      scheduledPlan: undefined,
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: addBillingInterval(periodStart, plan.interval),
+      creditBalance,
+      dunning: undefined,
+      lastPaymentTransactionId: result.transactionId || subscription.lastPaymentTransactionId,
+      updatedAt: now
+    };
+    await this.store.save(updated);
+
+    this.logger.info(`[${operationId}] Renewed subscription ${subscriptionId}`, {
+      planId: plan.id,
+      currentPeriodEnd: updated.currentPeriodEnd,
+      transactionId: result.transactionId,
+      attempt
+    });
+
+    await this.emit('subscription.renewed', {
+      subscriptionId,
+      customerId: subscription.customerId,
+      planId: plan.id,
+      amount: amountDue,
+      creditApplied: this.currencyManager.roundAmount(Math.min(credit, plan.price), plan.currency),
+      currency: plan.currency,
+      transactionId: result.transactionId,
+      trialEnded: subscription.status === 'trial',
+      recovered: subscription.status === 'past_due',
+      currentPeriodStart: updated.currentPeriodStart,
+      currentPeriodEnd: updated.currentPeriodEnd,
+      timestamp: now
+    });
+
+    return { outcome: 'renewed', transactionId: result.transactionId };
+  }
+
+  /**
+   * Charge the subscription's payment method. Callers derive the idempotency
+   * key from the period or change being paid for, so a retry after a crash
+   * cannot charge twice.
+   */
+  private async charge(
+    subscription: Subscription,
+    amount: number,
+    idempotencyKey: string,
+    metadata: Record<string, any>
+  ): Promise<PaymentResult> {
+    try {
+      return await this.paymentService.processPayment({
+        amount: {
+          amount,
+          currency: subscription.plan.currency
+        },
+        customer: {
+          id: subscription.customerId,
+          email: subscription.customerEmail
+        },
+        paymentMethod: subscription.paymentMethodId,
+        metadata: {
+          ...metadata,
+          idempotencyKey,
+          subscriptionId: subscription.id
+        }
+      });
+    } catch (error) {
+      // Provider errors are treated like a declined charge
+      this.logger.error(`Charge failed for subscription ${subscription.id}`, { error });
+
+      return {
+        success: false,
+        error: {
+          code: error.code || ErrorCode.INTERNAL_ERROR,
+          message: error.message || 'Subscription charge failed'
+        }
+      };
+    }
+  }
+
+  private buildPlanChangePreview(
+    subscription: Subscription,
+    plan: SubscriptionPlan,
+    at: Date
+  ): PlanChangePreview {
+    const immediate = subscription.status === 'trial' ||
+      plan.interval !== subscription.plan.interval ||
+      this.isUpgrade(subscription.plan, plan);
+
+    return {
+      subscriptionId: subscription.id,
+      fromPlan: subscription.plan,
+      toPlan: plan,
+      effective: immediate ? 'immediate' : 'period_end',
+      effectiveAt: immediate ? at : subscription.currentPeriodEnd,
+      proration: immediate
+        ? this.prorationCalculator.calculate(subscription, plan, at)
+        : undefined
+    };
+  }
+
+  private validatePlanChange(subscription: Subscription, plan: SubscriptionPlan): void {
+    if (!plan.active) {
+      throw errorHandler.createError(
+        `Plan ${plan.id} is no longer available`,
+        ErrorCode.VALIDATION_ERROR,
+        { planId: plan.id }
+      );
+    }
+
+    if (plan.currency !== subscription.plan.currency) {
+      throw errorHandler.createError(
+        `Cannot change from a ${subscription.plan.currency} plan to a ${plan.currency} plan`,
+        ErrorCode.VALIDATION_ERROR,
+        { subscriptionId: subscription.id, planId: plan.id }
+      );
+    }
+
+    // Prorating against a period that was never paid would credit money we never received
+    if (DELINQUENT_STATUSES.includes(subscription.status)) {
+      throw errorHandler.createError(
+        `Subscription ${subscription.id} has an outstanding payment`,
+        ErrorCode.SUBSCRIPTION_INVALID_STATE,
+        { subscriptionId: subscription.id, status: subscription.status }
+      );
+    }
+  }
+
+  private isUpgrade(fromPlan: SubscriptionPlan, toPlan: SubscriptionPlan): boolean {
+    return monthlyPrice(toPlan.price, toPlan.interval) >= monthlyPrice(fromPlan.price, fromPlan.interval);
+  }
+
+  private async markCanceled(subscription: Subscription, canceledAt: Date): Promise<Subscription> {
+    const updated: Subscription = {
+      ...subscription,
+      status: 'canceled',
+      cancelAtPeriodEnd: false,
+      scheduledPlan: undefined,
+      canceledAt,
+      updatedAt: new Date()
+    };
+
+    await this.store.save(updated);
+    this.logger.info(`Canceled subscription ${subscription.id}`);
+
+    await this.emit('subscription.canceled', {
+      subscriptionId: subscription.id,
+      customerId: subscription.customerId,
+      planId: subscription.plan.id,
+      canceledAt,
+      timestamp: updated.updatedAt
+    });
+
+    return updated;
+  }
+
+  private async getLiveSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    if (!LIVE_STATUSES.includes(subscription.status)) {
+      throw errorHandler.createError(
+        `Subscription ${subscriptionId} is ${subscription.status}`,
+        ErrorCode.SUBSCRIPTION_INVALID_STATE,
+        { subscriptionId, status: subscription.status }
+      );
+    }
+
+    return subscription;
+  }
+
+  private async emit(eventType: string, data: Record<string, any>): Promise<void> {
+    if (this.eventEmitter) {
+      await this.eventEmitter.emit(eventType, data);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// src/lib/payment/subscriptions/subscription.scheduler.ts
+
+import { SubscriptionManager, RenewalOutcome } from './subscription.manager';
+import { DunningManager } from './dunning.manager';
+import { PaymentLogger } from '../utils/logger';
+
+export interface SubscriptionSchedulerOptions {
+  // Maximum subscriptions renewed per run
+  batchSize?: number;
+  // Failed renewals are handed to dunning when set
+  dunningManager?: DunningManager;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export interface RenewalRunSummary {
+  processed: number;
+  renewed: number;
+  paymentFailed: number;
+  canceled: number;
+  errors: number;
+}
+
+/**
+ * Periodically renews subscriptions whose billing period has ended
+ */
+export class SubscriptionScheduler {
+  private logger: PaymentLogger;
+  private batchSize: number;
+  private dunningManager?: DunningManager;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(
+    private subscriptionManager: SubscriptionManager,
+    options: SubscriptionSchedulerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'SubscriptionScheduler');
+    this.batchSize = options.batchSize || 100;
+    this.dunningManager = options.dunningManager;
+  }
+
+  start(intervalMs: number = 5 * 60 * 1000): void {
+    this.stop();
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        this.logger.error('Subscription renewal run failed', { error });
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Renew every subscription that is due. A failure on one subscription
+   * does not stop the rest of the batch.
+   */
+  async runOnce(now: Date = new Date()): Promise<RenewalRunSummary> {
+    const summary: RenewalRunSummary = {
+      processed: 0,
+      renewed: 0,
+      paymentFailed: 0,
+      canceled: 0,
+      errors: 0
+    };
+
+    // Skip if the previous run is still going
+    if (this.running) {
+      this.logger.warn('Previous renewal run still in progress, skipping');
+      return summary;
+    }
+
+    this.running = true;
+
+    try {
+      const due = await this.subscriptionManager.getDueSubscriptions(now, this.batchSize);
+
+      for (const subscription of due) {
+        summary.processed++;
+
+        try {
+          const outcome: RenewalOutcome = await this.subscriptionManager.renewSubscription(subscription.id);
+
+          if (outcome === 'renewed') {
+            summary.renewed++;
+          } else if (outcome === 'payment_failed') {
+            summary.paymentFailed++;
+
+            if (this.dunningManager) {
+              await this.dunningManager.startDunning(subscription.id);
+            }
+          } else {
+            summary.canceled++;
+          }
+        } catch (error) {
+          summary.errors++;
+          this.logger.error(`Failed to renew subscription ${subscription.id}`, { error });
+        }
+      }
+
+      if (summary.processed > 0) {
+        this.logger.info('Subscription renewal run completed', summary);
+      }
+
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+// src/lib/payment/subscriptions/subscription.store.ts
+import { Subscription, SubscriptionPlan, SubscriptionStatus } from '../types/subscription';
+
+export interface SubscriptionQuery {
+  customerId?: string;
+  status?: SubscriptionStatus[];
+  periodEndBefore?: Date;
+  // Only subscriptions with an active dunning schedule
+  inDunning?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export abstract class SubscriptionStore {
+  abstract savePlan(plan: SubscriptionPlan): Promise<void>;
+  abstract getPlan(id: string): Promise<SubscriptionPlan | null>;
+  abstract listPlans(activeOnly?: boolean): Promise<SubscriptionPlan[]>;
+  abstract save(subscription: Subscription): Promise<void>;
+  abstract get(id: string): Promise<Subscription | null>;
+  abstract list(options?: SubscriptionQuery): Promise<Subscription[]>;
+}
+
+export class InMemorySubscriptionStore extends SubscriptionStore {
+  private plans: Map<string, SubscriptionPlan> = new Map();
+  private subscriptions: Map<string, Subscription> = new Map();
+
+  async savePlan(plan: SubscriptionPlan): Promise<void> {
+    this.plans.set(plan.id, { ...plan });
+  }
+
+  async getPlan(id: string): Promise<SubscriptionPlan | null> {
+    const plan = this.plans.get(id);
+    return plan ? { ...plan } : null;
+  }
+
+  async listPlans(activeOnly: boolean = false): Promise<SubscriptionPlan[]> {
+    return Array.from(this.plans.values())
+      .filter(plan => !activeOnly || plan.active)
+      .sort((a, b) => a.price - b.price)
+      .map(plan => ({ ...plan }));
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(subscription.id, { ...subscription });
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async list(options: SubscriptionQuery = {}): Promise<Subscription[]> {
+    let subscriptions = Array.from(this.subscriptions.values());
+
+    if (options.customerId) {
+      subscriptions = subscriptions.filter(s => s.customerId === options.customerId);
+    }
+
+    if (options.status) {
+      subscriptions = subscriptions.filter(s => options.status!.includes(s.status));
+    }
+
+    if (options.periodEndBefore) {
+      subscriptions = subscriptions.filter(s => s.currentPeriodEnd <= options.periodEndBefore!);
+    }
+
+    if (options.inDunning) {
+      subscriptions = subscriptions.filter(s => s.dunning && !s.dunning.exhaustedAt);
+    }
+
+    // Oldest period end first so overdue renewals are processed first
+    subscriptions.sort((a, b) => a.currentPeriodEnd.getTime() - b.currentPeriodEnd.getTime());
+
+    const start = options.offset || 0;
+    const end = options.limit ? start + options.limit : undefined;
+
+    return subscriptions.slice(start, end).map(s => ({ ...s }));
+  }
+}
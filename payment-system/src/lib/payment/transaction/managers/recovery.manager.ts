@@ -11,7 +11,7 @@ import { DeadLetterQueue } from '../recovery/queue/dead-letter.queue';
 import { PaymentLogger } from '../../utils/logger';
 import { EventEmitter } from '../../events/event.emitter';
 import { errorHandler, ErrorCode } from '../../utils/error';
-import { RecordLocker, LockLevel } from '../../utils/record-locker';
+import { RecordLocker, LockLevel, isDeadlockVictim } from '../../utils/record-locker';
 
 export interface RecoveryOptions {
   maxAttempts?: number;
@@ -88,6 +88,9 @@ export class RecoveryManager {
           );
           this.logger.debug(`[${operationId}] Acquired lock for transaction ${transaction.id}`);
         } catch (lockError) {
+          if (isDeadlockVictim(lockError)) {
+            throw lockError;
+          }
           this.logger.error(`[${operationId}] Failed to acquire lock for transaction ${transaction.id}`, { error: lockError });
           // Continue without lock, but this is suboptimal
         }
@@ -336,6 +339,9 @@ export class RecoveryManager {
             }
           );
         } catch (lockError) {
+          if (isDeadlockVictim(lockError)) {
+            throw lockError;
+          }
           this.logger.error(`[${operationId}] Failed to acquire lock for reprocessing transaction ${transactionId}`, {
             error: lockError
           });
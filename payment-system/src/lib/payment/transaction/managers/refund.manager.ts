@@ -0,0 +1,441 @@
+// src/lib/payment/transaction/managers/refund.manager.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType
+} from '../../types/transaction.types';
+import { PaymentProviderInterface } from '../../types/provider.types';
+import { PaymentResult } from '../../types/common.types';
+import { TransactionManager } from './transaction.manager';
+import { PaymentLogger } from '../../utils/logger';
+import { EventEmitter } from '../../events/event.emitter';
+import { errorHandler, ErrorCode, PaymentError, getErrorMessage } from '../../utils/error';
+import { RecordLocker, LockLevel } from '../../utils/record-locker';
+import { ProviderRouter } from '../../providers/provider-router';
+import { CurrencyManager } from '../../currency/currency.manager';
+
+/**
+ * Options for RefundManager
+ */
+export interface RefundManagerOptions {
+  eventEmitter?: EventEmitter;
+  recordLocker?: RecordLocker;
+  currencyManager?: CurrencyManager;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+/**
+ * Refund request for a captured payment
+ */
+export interface RefundRequest {
+  // Amount to refund, in major currency units. Defaults to the remaining refundable amount.
+  amount?: number;
+  reason?: string;
+  idempotencyKey: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Summary of all refunds recorded against a payment
+ */
+export interface RefundLedger {
+  parentTransactionId: string;
+  currency: string;
+  capturedAmount: number;
+  refundedAmount: number;
+  pendingAmount: number;
+  remainingAmount: number;
+  refunds: Transaction[];
+}
+
+/**
+ * Creates refunds as child REFUND transactions of a payment and keeps
+ * the total refunded amount within what was captured.
+ */
+export class RefundManager {
+  private logger: PaymentLogger;
+  private eventEmitter?: EventEmitter;
+  private recordLocker?: RecordLocker;
+  private router: ProviderRouter;
+  private currencyManager: CurrencyManager;
+  private lockTimeoutMs: number = 10000; // 10 seconds
+
+  constructor(
+    private transactionManager: TransactionManager,
+    provider: ProviderRouter | PaymentProviderInterface,
+    options: RefundManagerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'RefundManager');
+    this.router = provider instanceof ProviderRouter ? provider : ProviderRouter.forProvider(provider);
+    this.eventEmitter = options.eventEmitter;
+    this.recordLocker = options.recordLocker;
+    this.currencyManager = options.currencyManager || new CurrencyManager('external');
+  }
+
+  /**
+   * Refund all or part of a captured payment
+   * @param parentTransactionId ID of the payment transaction to refund
+   * @param request Refund details
+   * @returns The refund transaction
+   */
+  async createRefund(
+    parentTransactionId: string,
+    request: RefundRequest
+  ): Promise<Transaction> {
+    const operationId = uuidv4().slice(0, 8);
+    let lockId: string | undefined;
+
+    try {
+      this.logger.info(`[${operationId}] Creating refund for transaction ${parentTransactionId}`, {
+        amount: request.amount,
+        reason: request.reason,
+        idempotencyKey: request.idempotencyKey
+      });
+
+      // Serialize refunds per payment so concurrent requests cannot over-refund
+      if (this.recordLocker) {
+        lockId = await this.recordLocker.acquireLock(
+          parentTransactionId,
+          'refund',
+          {
+            waitTimeoutMs: this.lockTimeoutMs,
+            lockLevel: LockLevel.EXCLUSIVE
+          }
+        );
+      }
+
+      const parent = await this.getRefundableTransaction(parentTransactionId);
+      const ledger = await this.buildLedger(parent);
+
+      // Replaying a refund request returns the refund that was already created
+      const existingRefund = ledger.refunds.find(
+        refund => refund.idempotencyKey === request.idempotencyKey
+      );
+
+      if (existingRefund) {
+        this.logger.info(`[${operationId}] Found existing refund with idempotency key ${request.idempotencyKey}`, {
+          refundId: existingRefund.id,
+          status: existingRefund.status
+        });
+
+        return existingRefund;
+      }
+
+      const amount = this.resolveRefundAmount(ledger, request.amount);
+
+      // Record the refund before calling the provider so that it is counted
+      // against the remaining amount even if the provider call is slow
+      const refund = await this.transactionManager.beginTransaction(
+        TransactionType.REFUND,
+        {
+          type: TransactionType.REFUND,
+          amount,
+          currency: parent.currency,
+          customerId: parent.customerId,
+          paymentMethodId: parent.paymentMethodId,
+          idempotencyKey: request.idempotencyKey,
+          parentTransactionId,
+          // Refunds are issued by the provider that captured the payment
+          provider: parent.provider,
+          metadata: {
+            ...request.metadata,
+            reason: request.reason,
+            operationId
+          }
+        }
+      );
+
+      // The lookup above only sees this payment's refunds. A key already
+      // used elsewhere comes back as that other transaction.
+      if (refund.type !== TransactionType.REFUND || refund.parentTransactionId !== parentTransactionId) {
+        throw errorHandler.createError(
+          `Idempotency key ${request.idempotencyKey} was already used for another transaction`,
+          ErrorCode.IDEMPOTENCY_ERROR,
+          { parentTransactionId, idempotencyKey: request.idempotencyKey, transactionId: refund.id }
+        );
+      }
+
+      await this.emit('refund.created', {
+        refundId: refund.id,
+        parentTransactionId,
+        amount,
+        currency: refund.currency,
+        reason: request.reason,
+        timestamp: refund.createdAt
+      });
+
+      await this.transactionManager.updateTransactionStatus(
+        refund.id,
+        TransactionStatus.PROCESSING
+      );
+
+      const { provider } = this.router.getProviderForTransaction(parent);
+      let result: PaymentResult;
+      
+      try {
+        result = await provider.refundPayment(
+          parent.metadata!.providerTransactionId,
+          {
+            amount,
+            reason: request.reason,
+            metadata: {
+              transactionId: refund.id,
+              parentTransactionId
+            }
+          }
+        );
+      } catch (providerError) {
+        // Left in PROCESSING the refund would hold back the remaining
+        // amount for good, so it is failed like a rejected refund
+        result = {
+          success: false,
+          error: {
+            code: ErrorCode.PROVIDER_COMMUNICATION_ERROR,
+            message: getErrorMessage(providerError)
+          }
+        };
+      }
+
+      if (!result.success) {
+        this.logger.warn(`[${operationId}] Provider rejected refund ${refund.id}`, {
+          errorCode: result.error?.code,
+          errorMessage: result.error?.message
+        });
+
+        const failedRefund = await this.transactionManager.updateTransactionStatus(
+          refund.id,
+          TransactionStatus.FAILED,
+          {
+            failureReason: result.error?.code,
+            failureMessage: result.error?.message
+          }
+        );
+
+        await this.emit('refund.failed', {
+          refundId: refund.id,
+          parentTransactionId,
+          amount,
+          errorCode: result.error?.code,
+          errorMessage: result.error?.message,
+          timestamp: failedRefund.updatedAt
+        });
+
+        return failedRefund;
+      }
+
+      const completedRefund = await this.transactionManager.updateTransactionStatus(
+        refund.id,
+        TransactionStatus.COMPLETED,
+        {
+          providerRefundId: result.transactionId,
+          refundedAt: new Date()
+        }
+      );
+
+      // Keep a running total on the payment itself for quick lookups
+      const refundedAmount = this.roundAmount(ledger.refundedAmount + amount, parent.currency);
+      await this.transactionManager.updateTransactionStatus(
+        parentTransactionId,
+        parent.status,
+        {
+          refundedAmount,
+          fullyRefunded: refundedAmount >= ledger.capturedAmount
+        }
+      );
+
+      await this.emit('refund.completed', {
+        refundId: refund.id,
+        parentTransactionId,
+        amount,
+        currency: refund.currency,
+        refundedAmount,
+        remainingAmount: this.roundAmount(ledger.remainingAmount - amount, parent.currency),
+        providerRefundId: result.transactionId,
+        timestamp: completedRefund.updatedAt
+      });
+
+      this.logger.info(`[${operationId}] Refund ${refund.id} completed`, {
+        parentTransactionId,
+        amount,
+        refundedAmount
+      });
+
+      return completedRefund;
+    } catch (error) {
+      this.logger.error(`[${operationId}] Failed to refund transaction ${parentTransactionId}`, { error });
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to create refund',
+        ErrorCode.INTERNAL_ERROR,
+        { parentTransactionId, amount: request.amount }
+      );
+    } finally {
+      if (this.recordLocker && lockId) {
+        try {
+          await this.recordLocker.releaseLock(parentTransactionId, 'refund', lockId);
+        } catch (releaseError) {
+          this.logger.error(`[${operationId}] Failed to release refund lock for ${parentTransactionId}`, {
+            error: releaseError
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the refund ledger for a payment
+   * @param parentTransactionId ID of the payment transaction
+   */
+  async getRefundLedger(parentTransactionId: string): Promise<RefundLedger> {
+    const parent = await this.getRefundableTransaction(parentTransactionId);
+    return this.buildLedger(parent);
+  }
+
+  /**
+   * Total up the refunds recorded against a payment
+   */
+  private async buildLedger(parent: Transaction): Promise<RefundLedger> {
+    const refunds = await this.transactionManager.getChildTransactions(
+      parent.id,
+      TransactionType.REFUND
+    );
+
+    const capturedAmount = parent.metadata?.capturedAmount ?? parent.amount;
+    const refundedAmount = this.sumAmounts(
+      refunds.filter(refund => refund.status === TransactionStatus.COMPLETED),
+      parent.currency
+    );
+    // In-flight refunds still count against the remaining amount
+    const pendingAmount = this.sumAmounts(
+      refunds.filter(refund =>
+        refund.status === TransactionStatus.PENDING ||
+        refund.status === TransactionStatus.PROCESSING
+      ),
+      parent.currency
+    );
+
+    return {
+      parentTransactionId: parent.id,
+      currency: parent.currency,
+      capturedAmount,
+      refundedAmount,
+      pendingAmount,
+      remainingAmount: this.roundAmount(capturedAmount - refundedAmount - pendingAmount, parent.currency),
+      refunds
+    };
+  }
+
+  /**
+   * Load a transaction and check that it is a captured payment that can be refunded
+   */
+  private async getRefundableTransaction(transactionId: string): Promise<Transaction> {
+    const parent = await this.transactionManager.getTransaction(transactionId);
+
+    if (!parent) {
+      throw errorHandler.createError(
+        `Transaction not found: ${transactionId}`,
+        ErrorCode.TRANSACTION_NOT_FOUND,
+        { transactionId }
+      );
+    }
+
+    if (parent.type !== TransactionType.PAYMENT) {
+      throw errorHandler.createError(
+        `Transaction ${parent.id} is not a payment`,
+        ErrorCode.TRANSACTION_INVALID_STATE,
+        { transactionId: parent.id, type: parent.type }
+      );
+    }
+
+    const refundableStatuses = [
+      TransactionStatus.COMPLETED,
+      TransactionStatus.PARTIALLY_CAPTURED
+    ];
+
+    if (!refundableStatuses.includes(parent.status)) {
+      throw errorHandler.createError(
+        `Transaction ${parent.id} cannot be refunded in ${parent.status} state`,
+        ErrorCode.TRANSACTION_INVALID_STATE,
+        { transactionId: parent.id, status: parent.status }
+      );
+    }
+
+    if (!parent.metadata?.providerTransactionId) {
+      throw errorHandler.createError(
+        `Transaction ${parent.id} has no provider payment reference`,
+        ErrorCode.TRANSACTION_INVALID_STATE,
+        { transactionId: parent.id }
+      );
+    }
+
+    return parent;
+  }
+
+  /**
+   * Determine the refund amount and check it against the remaining balance
+   */
+  private resolveRefundAmount(ledger: RefundLedger, requestedAmount?: number): number {
+    if (ledger.remainingAmount <= 0) {
+      throw errorHandler.createError(
+        `Transaction ${ledger.parentTransactionId} has already been fully refunded`,
+        ErrorCode.REFUND_AMOUNT_EXCEEDED,
+        {
+          transactionId: ledger.parentTransactionId,
+          capturedAmount: ledger.capturedAmount,
+          refundedAmount: ledger.refundedAmount
+        }
+      );
+    }
+
+    const amount = requestedAmount ?? ledger.remainingAmount;
+
+    if (amount <= 0) {
+      throw errorHandler.createError(
+        'Refund amount must be greater than zero',
+        ErrorCode.VALIDATION_ERROR,
+        { transactionId: ledger.parentTransactionId, amount }
+      );
+    }
+
+    if (amount > ledger.remainingAmount) {
+      throw errorHandler.createError(
+        `Refund amount ${amount} exceeds remaining refundable amount ${ledger.remainingAmount}`,
+        ErrorCode.REFUND_AMOUNT_EXCEEDED,
+        {
+          transactionId: ledger.parentTransactionId,
+          amount,
+          capturedAmount: ledger.capturedAmount,
+          refundedAmount: ledger.refundedAmount,
+          pendingAmount: ledger.pendingAmount,
+          remainingAmount: ledger.remainingAmount
+        }
+      );
+    }
+
+    return this.roundAmount(amount, ledger.currency);
+  }
+
+  private sumAmounts(transactions: Transaction[], currency: string): number {
+    return this.roundAmount(
+      transactions.reduce((total, tx) => total + tx.amount, 0),
+      currency
+    );
+  }
+
+  private roundAmount(value: number, currency: string): number {
+    return this.currencyManager.roundAmount(value, currency);
+  }
+
+  private async emit(eventType: string, data: Record<string, any>): Promise<void> {
+    if (this.eventEmitter) {
+      await this.eventEmitter.emit(eventType, data);
+    }
+  }
+}
@@ -13,7 +13,9 @@ import { RetryQueue } from '../recovery/queue/retry.queue';
 import { PaymentLogger } from '../../utils/logger';
 import { EventEmitter } from '../../events/event.emitter';
 import { errorHandler, ErrorCode } from '../../utils/error';
-import { RecordLocker, LockLevel } from '../../utils/record-locker';
+import { RecordLocker, LockLevel, isDeadlockVictim } from '../../utils/record-locker';
+import { RetryRule, defaultRetryRules } from '../../config/retry.config';
+import { MetricsCollector } from '../../monitoring/metrics/collector';
 
 /**
  * Retry policy interface defining how retries should behave
@@ -30,7 +32,10 @@ export interface RetryPolicy {
  * Options for initializing the RetryManager
  */
 export interface RetryManagerOptions {
+  // Used for failures that match no retry rule
   retryPolicy?: Partial<RetryPolicy>;
+  retryRules?: RetryRule[];
+  metricsCollector?: MetricsCollector;
   eventEmitter?: EventEmitter;
   recordLocker?: RecordLocker;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
@@ -38,12 +43,17 @@ export interface RetryManagerOptions {
 
 /**
  * Manages retrying failed transactions with configurable policies,
- * backoff strategies, and error handling.
+ * backoff strategies, and error handling. Failures are retried according
+ * to the rule for their decline or error code.
  */
 export class RetryManager {
   private logger: PaymentLogger;
   private retryPolicy: RetryPolicy;
+  private retryRules: RetryRule[];
   private eventEmitter?: EventEmitter;
+  private metricsCollector?: MetricsCollector;
+  // Final outcomes of retried transactions per rule, for the success rate
+  private ruleOutcomes: Map<string, { succeeded: number; failed: number }> = new Map();
   private recordLocker?: RecordLocker;
   private lockTimeoutMs: number = 10000; // 10 seconds
   
@@ -55,6 +65,8 @@ export class RetryManager {
     this.logger = new PaymentLogger(options.logLevel || 'info', 'RetryManager');
     this.eventEmitter = options.eventEmitter;
     this.recordLocker = options.recordLocker;
+    this.metricsCollector = options.metricsCollector;
+    this.retryRules = options.retryRules || defaultRetryRules;
     
     // Set up retry policy with defaults and any overrides
     this.retryPolicy = {
@@ -70,7 +82,8 @@ export class RetryManager {
     this.retryQueue.on('retry', this.handleRetry.bind(this));
     
     this.logger.info('Retry manager initialized', {
-      policy: this.retryPolicy
+      policy: this.retryPolicy,
+      rules: this.retryRules.map(rule => rule.name)
     });
   }
 
@@ -81,6 +94,33 @@ export class RetryManager {
     return this.retryPolicy.maxAttempts;
   }
 
+  /**
+   * Get the retry rule for an error. The provider's decline code is
+   * matched before the error code.
+   * @param error The error to find a rule for
+   */
+  getRetryRule(error?: TransactionError): RetryRule | undefined {
+    if (!error) {
+      return undefined;
+    }
+
+    const codes = [error.details?.declineCode, error.details?.providerErrorCode, error.code]
+      .filter(code => typeof code === 'string')
+      .map(code => code.toLowerCase());
+
+    for (const code of codes) {
+      const rule = this.retryRules.find(rule =>
+        rule.codes.some(ruleCode => ruleCode.toLowerCase() === code)
+      );
+
+      if (rule) {
+        return rule;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Schedule a transaction for retry
    * @param transaction The transaction to retry
@@ -94,22 +134,40 @@ export class RetryManager {
     let lockId: string | undefined;
     
     try {
+      const { policy, rule } = this.getPolicy(transaction, error);
+      
+      // Some declines are final, so don't retry them at all
+      if (rule && rule.maxAttempts === 0) {
+        this.logger.info(`[${operationId}] Retry rule ${rule.name} does not allow retrying transaction ${transaction.id}`, {
+          errorCode: (error || transaction.error)?.code
+        });
+        
+        return this.markAsFailed(transaction, error || transaction.error || {
+          code: 'RETRY_NOT_ALLOWED',
+          message: `Failures matching retry rule ${rule.name} are not retried`,
+          recoverable: false,
+          retryable: false,
+          details: { retryRule: rule.name }
+        }, false);
+      }
+      
       // Check if we've exceeded max retries
-      if (transaction.retryCount >= this.retryPolicy.maxAttempts) {
+      if (transaction.retryCount >= policy.maxAttempts) {
         this.logger.warn(`[${operationId}] Max retry attempts reached for transaction ${transaction.id}`, {
           retryCount: transaction.retryCount,
-          maxAttempts: this.retryPolicy.maxAttempts
+          maxAttempts: policy.maxAttempts,
+          retryRule: rule?.name
         });
         
         // Mark as failed - we're not going to retry anymore
         return this.markAsFailed(transaction, error || {
           code: 'RETRY_LIMIT_EXCEEDED',
-          message: `Maximum retry attempts (${this.retryPolicy.maxAttempts}) reached`,
+          message: `Maximum retry attempts (${policy.maxAttempts}) reached`,
           recoverable: false,
           retryable: false,
           details: {
             retryCount: transaction.retryCount,
-            maxRetries: this.retryPolicy.maxAttempts
+            maxRetries: policy.maxAttempts
           }
         });
       }
@@ -127,6 +185,9 @@ export class RetryManager {
           );
           this.logger.debug(`[${operationId}] Acquired lock for transaction ${transaction.id}`);
         } catch (lockError) {
+          if (isDeadlockVictim(lockError)) {
+            throw lockError;
+          }
           this.logger.error(`[${operationId}] Failed to acquire lock for transaction ${transaction.id}`, { 
             error: lockError 
           });
@@ -135,11 +196,12 @@ export class RetryManager {
       }
       
       const retryCount = transaction.retryCount + 1;
-      const delay = this.calculateDelay(retryCount);
+      const delay = this.calculateDelay(retryCount, policy);
       
-      this.logger.info(`[${operationId}] Scheduling retry ${retryCount}/${this.retryPolicy.maxAttempts} for transaction ${transaction.id}`, {
+      this.logger.info(`[${operationId}] Scheduling retry ${retryCount}/${policy.maxAttempts} for transaction ${transaction.id}`, {
         delay,
-        status: transaction.status
+        status: transaction.status,
+        retryRule: rule?.name
       });
       
       // Update transaction with retry information
@@ -152,7 +214,8 @@ export class RetryManager {
           ...transaction.metadata,
           lastRetryAt: new Date(),
           nextRetryAt: new Date(Date.now() + delay),
-          retryReason: error?.code || 'UNKNOWN_ERROR'
+          retryReason: error?.code || 'UNKNOWN_ERROR',
+          retryRule: rule?.name
         }
       };
       
@@ -174,6 +237,7 @@ export class RetryManager {
           retryCount,
           delay,
           errorCode: error?.code,
+          retryRule: rule?.name,
           scheduledAt: new Date(),
           nextRetryAt: new Date(Date.now() + delay)
         });
@@ -338,7 +402,9 @@ export class RetryManager {
         await this.markAsCompleted(transaction);
       } else {
         // Failed again, check if we should retry
-        if (transaction.retryCount < this.retryPolicy.maxAttempts) {
+        const { policy } = this.getPolicy(transaction);
+        
+        if (transaction.retryCount < policy.maxAttempts) {
           // Schedule another retry
           await this.scheduleRetry(transaction, {
             code: 'RETRY_FAILED',
@@ -357,7 +423,7 @@ export class RetryManager {
             recoverable: false,
             retryable: false,
             details: {
-              maxRetries: this.retryPolicy.maxAttempts,
+              maxRetries: policy.maxAttempts,
               attemptsUsed: transaction.retryCount
             }
           });
@@ -376,7 +442,7 @@ export class RetryManager {
             code: 'RETRY_PROCESSING_ERROR',
             message: error.message || 'Error processing retry',
             recoverable: false,
-            retryable: transaction.retryCount < this.retryPolicy.maxAttempts,
+            retryable: transaction.retryCount < this.getPolicy(transaction).policy.maxAttempts,
             details: {
               error: error.message,
               retryCount: transaction.retryCount
@@ -402,11 +468,29 @@ export class RetryManager {
   }
 
   /**
-   * Calculate delay for next retry using the configured policy
+   * Policy for retrying a transaction: the rule matching the error, else
+   * the rule the transaction was first retried under, else the default
+   * @param transaction The transaction to retry
+   * @param error The error that caused the retry
+   */
+  private getPolicy(
+    transaction: Transaction,
+    error?: TransactionError
+  ): { policy: RetryPolicy; rule?: RetryRule } {
+    const rule = this.getRetryRule(error) ||
+      this.getRetryRule(transaction.error) ||
+      this.retryRules.find(rule => rule.name === transaction.metadata?.retryRule);
+
+    return { policy: rule || this.retryPolicy, rule };
+  }
+
+  /**
+   * Calculate delay for next retry using the given policy
    * @param retryCount Current retry count
+   * @param policy Retry policy to apply
    */
-  private calculateDelay(retryCount: number): number {
-    const { backoffType, initialDelay, maxDelay, jitterFactor } = this.retryPolicy;
+  private calculateDelay(retryCount: number, policy: RetryPolicy = this.retryPolicy): number {
+    const { backoffType, initialDelay, maxDelay, jitterFactor } = policy;
     
     // Calculate base delay according to backoff type
     let delay: number;
@@ -458,6 +542,8 @@ export class RetryManager {
     
     this.logger.info(`Transaction ${transaction.id} completed successfully after ${transaction.retryCount} retries`);
     
+    this.recordRuleOutcome(transaction, true);
+    
     return completedTransaction;
   }
 
@@ -465,10 +551,12 @@ export class RetryManager {
    * Mark a transaction as failed
    * @param transaction The transaction to mark as failed
    * @param error Error information
+   * @param afterRetry False when the transaction is failed without being retried
    */
   private async markAsFailed(
     transaction: Transaction,
-    error: TransactionError
+    error: TransactionError,
+    afterRetry: boolean = true
   ): Promise<Transaction> {
     const failedTransaction = {
       ...transaction,
@@ -478,13 +566,17 @@ export class RetryManager {
       failedAt: new Date(),
       metadata: {
         ...transaction.metadata,
-        failedAfterRetry: true,
+        ...(afterRetry ? { failedAfterRetry: true } : { retryNotAllowed: true }),
         finalRetryCount: transaction.retryCount
       }
     };
     
     await this.store.save(failedTransaction);
     
+    if (!afterRetry) {
+      return failedTransaction;
+    }
+    
     // Emit event
     if (this.eventEmitter) {
       await this.eventEmitter.emit('transaction.failed_after_retry', {
@@ -499,9 +591,39 @@ export class RetryManager {
       errorCode: error.code
     });
     
+    if (transaction.retryCount > 0) {
+      this.recordRuleOutcome(transaction, false);
+    }
+    
     return failedTransaction;
   }
 
+  /**
+   * Count the final outcome of a retried transaction against its rule and
+   * report the rule's success rate
+   * @param transaction The retried transaction
+   * @param succeeded Whether a retry succeeded
+   */
+  private recordRuleOutcome(transaction: Transaction, succeeded: boolean): void {
+    const rule = this.getPolicy(transaction).rule?.name || 'default';
+    const outcomes = this.ruleOutcomes.get(rule) || { succeeded: 0, failed: 0 };
+    
+    if (succeeded) {
+      outcomes.succeeded++;
+    } else {
+      outcomes.failed++;
+    }
+    this.ruleOutcomes.set(rule, outcomes);
+    
+    if (this.metricsCollector) {
+      this.metricsCollector.record(
+        'transaction.retry.success_rate',
+        outcomes.succeeded / (outcomes.succeeded + outcomes.failed),
+        { rule }
+      );
+    }
+  }
+
   /**
    * Get pending retries
    */
@@ -527,6 +649,7 @@ export class RetryManager {
     pendingCount: number;
     avgRetryCount: number;
     successRate: number;
+    successRateByRule: Record<string, number>;
     retryCountDistribution: Record<number, number>;
   }> {
     try {
@@ -575,10 +698,31 @@ export class RetryManager {
           (retryCountDistribution[tx.retryCount] || 0) + 1;
       });
       
+      // Success rate of each retry rule; transactions retried before rules
+      // existed count towards the default policy
+      const outcomesByRule: Record<string, { succeeded: number; total: number }> = {};
+      
+      [...completedAfterRetry, ...failedAfterRetry].forEach(tx => {
+        const rule = tx.metadata?.retryRule || 'default';
+        const outcomes = outcomesByRule[rule] || { succeeded: 0, total: 0 };
+        
+        outcomes.total++;
+        if (tx.status === TransactionStatus.COMPLETED) {
+          outcomes.succeeded++;
+        }
+        outcomesByRule[rule] = outcomes;
+      });
+      
+      const successRateByRule: Record<string, number> = {};
+      Object.keys(outcomesByRule).forEach(rule => {
+        successRateByRule[rule] = outcomesByRule[rule].succeeded / outcomesByRule[rule].total;
+      });
+      
       return {
         pendingCount: pendingRetries.length,
         avgRetryCount,
         successRate,
+        successRateByRule,
         retryCountDistribution
       };
     } catch (error) {
@@ -596,6 +740,12 @@ export class RetryManager {
    * @param error The error to check
    */
   isRetryableError(error: TransactionError): boolean {
+    // A retry rule for the code takes precedence over the error's own flag
+    const rule = this.getRetryRule(error);
+    if (rule) {
+      return rule.maxAttempts > 0;
+    }
+    
     // If error explicitly states if it's retryable, use that
     if (error.retryable !== undefined) {
       return error.retryable;
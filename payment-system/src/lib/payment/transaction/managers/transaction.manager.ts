@@ -5,15 +5,22 @@ import {
   Transaction, 
   TransactionStatus, 
   TransactionType,
-  TransactionError
+  TransactionError,
+  TransactionStatusChange,
+  FeeBreakdown
 } from '../../types/transaction.types';
 import { TransactionStore } from '../store/transaction.store';
 import { PaymentLogger } from '../../utils/logger';
 import { EventEmitter } from '../../events/event.emitter';
-import { errorHandler, ErrorCode } from '../../utils/error';
-import { RecordLocker, LockLevel } from '../../utils/record-locker';
+import { OutboxStore, createOutboxEvent } from '../../events/outbox.store';
+import { EventSchemaRegistry } from '../../events/event.registry';
+import { createEventCatalog } from '../../events/event.catalog';
+import { errorHandler, ErrorCode, PaymentError } from '../../utils/error';
+import { RecordLocker, LockLevel, isDeadlockVictim } from '../../utils/record-locker';
 import { RecoveryManager } from './recovery.manager';
 import { RetryManager } from './retry.manager';
+import { LedgerManager } from '../../ledger/ledger.manager';
+import { assertValidTransition } from '../utils/status';
 
 /**
  * Options for TransactionManager
@@ -23,9 +30,30 @@ export interface TransactionManagerOptions {
   recoveryManager?: RecoveryManager;
   retryManager?: RetryManager;
   recordLocker?: RecordLocker;
+  ledgerManager?: LedgerManager;
+  /**
+   * When set, lifecycle events are written to the outbox together with the
+   * transaction instead of being emitted after the save. It must write
+   * through the same transaction store as the manager.
+   */
+  outboxStore?: OutboxStore;
+  /**
+   * Checks events before they are written to the outbox. Defaults to the
+   * event catalog.
+   */
+  schemaRegistry?: EventSchemaRegistry;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
 }
 
+/**
+ * Who changed a transaction's status and why, kept in its status history
+ */
+export interface StatusChangeContext {
+  // Defaults to 'system'
+  actor?: string;
+  reason?: string;
+}
+
 /**
  * Manages transaction lifecycle, persistence, and coordination with
  * recovery and retry functionality.
@@ -36,6 +64,9 @@ export class TransactionManager {
   private recoveryManager?: RecoveryManager;
   private retryManager?: RetryManager;
   private recordLocker?: RecordLocker;
+  private ledgerManager?: LedgerManager;
+  private outboxStore?: OutboxStore;
+  private schemaRegistry: EventSchemaRegistry;
   private lockTimeoutMs: number = 10000; // 10 seconds
   
   constructor(
@@ -47,6 +78,9 @@ export class TransactionManager {
     this.recoveryManager = options.recoveryManager;
     this.retryManager = options.retryManager;
     this.recordLocker = options.recordLocker;
+    this.ledgerManager = options.ledgerManager;
+    this.outboxStore = options.outboxStore;
+    this.schemaRegistry = options.schemaRegistry || createEventCatalog();
   }
 
   /**
@@ -64,7 +98,7 @@ export class TransactionManager {
     try {
       // Check for existing transaction with same idempotency key
       if (data.idempotencyKey) {
-        const existingTransaction = await this.store.getByIdempotencyKey(data.idempotencyKey);
+        const existingTransaction = await this.store.findByIdempotencyKey(data.idempotencyKey);
         
         if (existingTransaction) {
           this.logger.info(`[${operationId}] Found existing transaction with idempotency key ${data.idempotencyKey}`, {
@@ -94,19 +128,27 @@ export class TransactionManager {
         currency: transaction.currency
       });
       
+      const createdEvent = {
+        transactionId: transaction.id,
+        type,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        status: transaction.status,
+        timestamp: transaction.createdAt
+      };
+      
       // Save transaction
-      await this.store.save(transaction);
+      if (this.outboxStore) {
+        await this.outboxStore.commit(transaction, [
+          createOutboxEvent('transaction.created', createdEvent, { type: 'transaction', id: transaction.id }, this.schemaRegistry)
+        ]);
+      } else {
+        await this.store.save(transaction);
+      }
       
       // Emit event
-      if (this.eventEmitter) {
-        await this.eventEmitter.emit('transaction.created', {
-          transactionId: transaction.id,
-          type,
-          amount: transaction.amount,
-          currency: transaction.currency,
-          status: transaction.status,
-          timestamp: transaction.createdAt
-        });
+      if (this.eventEmitter && !this.outboxStore) {
+        await this.eventEmitter.emit('transaction.created', createdEvent);
       }
       
       return transaction;
@@ -150,8 +192,14 @@ export class TransactionManager {
         );
       }
       
-      // Check if retryable and we have a retry manager
-      if (error.retryable && this.retryManager) {
+      // Subscription charges are retried on the dunning schedule, and a failed
+      // invoice payment leaves the invoice open to be paid again
+      const retriedElsewhere = !!transaction.metadata?.subscriptionId ||
+        !!transaction.metadata?.invoiceId;
+      
+      // Check if retryable and we have a retry manager. Its retry rules
+      // decide for the decline codes they cover.
+      if (this.retryManager && !retriedElsewhere && this.retryManager.isRetryableError(error)) {
         this.logger.info(`[${operationId}] Error is retryable, scheduling retry for transaction ${id}`);
         return this.retryManager.scheduleRetry(transaction, error);
       }
@@ -172,7 +220,9 @@ export class TransactionManager {
           failureReason: error.code,
           failureMessage: error.message,
           failureDetails: error.details
-        }
+        },
+        undefined,
+        { reason: error.code }
       );
     } catch (error) {
       this.logger.error(`[${operationId}] Failed to handle transaction error for ${id}`, { error });
@@ -236,54 +286,63 @@ export class TransactionManager {
   }
   
   /**
-   * Validate state transition
-   * @param currentState Current state
-   * @param newState New state
+   * Get transactions linked to a parent transaction (refunds, chargebacks)
+   * @param parentTransactionId Parent transaction ID
+   * @param type Optional transaction type filter
    */
-  private validateStateTransition(
-    currentState: TransactionStatus,
-    newState: TransactionStatus
-  ): void {
-    // Define valid state transitions
-    const validTransitions: Record<TransactionStatus, TransactionStatus[]> = {
-      [TransactionStatus.PENDING]: [
-        TransactionStatus.PROCESSING,
-        TransactionStatus.COMPLETED,
-        TransactionStatus.FAILED,
-        TransactionStatus.RECOVERY_PENDING
-      ],
-      [TransactionStatus.PROCESSING]: [
-        TransactionStatus.COMPLETED,
-        TransactionStatus.FAILED,
-        TransactionStatus.RECOVERY_PENDING
-      ],
-      [TransactionStatus.COMPLETED]: [],
-      [TransactionStatus.FAILED]: [
-        TransactionStatus.RECOVERY_PENDING
-      ],
-      [TransactionStatus.RECOVERY_PENDING]: [
-        TransactionStatus.PROCESSING,
-        TransactionStatus.RECOVERY_IN_PROGRESS,
-        TransactionStatus.FAILED
-      ],
-      [TransactionStatus.RECOVERY_IN_PROGRESS]: [
-        TransactionStatus.COMPLETED,
-        TransactionStatus.FAILED,
-        TransactionStatus.RECOVERY_PENDING
-      ]
-    };
-    
-    // No state change is always valid
-    if (currentState === newState) {
-      return;
+  async getChildTransactions(
+    parentTransactionId: string,
+    type?: TransactionType
+  ): Promise<Transaction[]> {
+    try {
+      const children = await this.store.findByParentId(parentTransactionId);
+      return type ? children.filter(tx => tx.type === type) : children;
+    } catch (error) {
+      this.logger.error(`Failed to get child transactions for ${parentTransactionId}`, { error });
+      
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get child transactions',
+        ErrorCode.INTERNAL_ERROR,
+        { parentTransactionId, type }
+      );
     }
-    
-    // Check if transition is valid
-    if (!validTransitions[currentState]?.includes(newState)) {
-      throw errorHandler.createError(
-        `Invalid state transition from ${currentState} to ${newState}`,
-        ErrorCode.TRANSACTION_INVALID_STATE,
-        { currentState, newState }
+  }
+  
+  /**
+   * Get the payment a provider payment ID or charge ID belongs to
+   * @param reference Provider payment intent or charge ID
+   */
+  async getTransactionByProviderReference(reference: string): Promise<Transaction | null> {
+    try {
+      return this.store.findByProviderReference(reference);
+    } catch (error) {
+      this.logger.error(`Failed to get transaction for provider reference ${reference}`, { error });
+      
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get transaction by provider reference',
+        ErrorCode.INTERNAL_ERROR,
+        { reference }
+      );
+    }
+  }
+  
+  /**
+   * Get the status changes of a transaction, oldest first
+   * @param id Transaction ID
+   */
+  async getStatusHistory(id: string): Promise<TransactionStatusChange[]> {
+    try {
+      return this.store.getStatusHistory(id);
+    } catch (error) {
+      this.logger.error(`Failed to get status history for transaction ${id}`, { error });
+      
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get transaction status history',
+        ErrorCode.INTERNAL_ERROR,
+        { transactionId: id }
       );
     }
   }
@@ -293,11 +352,15 @@ export class TransactionManager {
    * @param id Transaction ID
    * @param status New status
    * @param metadata Optional metadata to update
+   * @param fees Optional fee breakdown reported by the provider
+   * @param context Actor and reason recorded in the status history
    */
   async updateTransactionStatus(
     id: string,
     status: TransactionStatus,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    fees?: FeeBreakdown,
+    context: StatusChangeContext = {}
   ): Promise<Transaction> {
     const operationId = uuidv4().slice(0, 8);
     let lockId: string | undefined;
@@ -318,6 +381,10 @@ export class TransactionManager {
           );
           this.logger.debug(`[${operationId}] Acquired lock for transaction ${id}`);
         } catch (lockError) {
+          // A deadlock victim gives up instead of carrying on without the lock
+          if (isDeadlockVictim(lockError)) {
+            throw lockError;
+          }
           this.logger.error(`[${operationId}] Failed to acquire lock for transaction ${id}`, { 
             error: lockError 
           });
@@ -336,7 +403,7 @@ export class TransactionManager {
       }
       
       // Validate state transition
-      this.validateStateTransition(transaction.status, status);
+      assertValidTransition(transaction.type, transaction.status, status);
       
       // Update transaction
       const updatedTransaction = {
@@ -347,20 +414,45 @@ export class TransactionManager {
           ...transaction.metadata,
           ...metadata
         },
+        ...(fees && { fees }),
         ...(status === TransactionStatus.COMPLETED && { completedAt: new Date() }),
         ...(status === TransactionStatus.FAILED && { failedAt: new Date() })
       };
       
-      await this.store.save(updatedTransaction);
+      // Transitions that move money are saved together with their postings
+      const journalEntry = this.ledgerManager
+        ? await this.ledgerManager.buildEntry(transaction, updatedTransaction)
+        : null;
+      
+      const statusChangedEvent = {
+        transactionId: id,
+        oldStatus: transaction.status,
+        newStatus: status,
+        timestamp: updatedTransaction.updatedAt
+      };
+      const outboxEvents = this.outboxStore
+        ? [createOutboxEvent('transaction.status_changed', statusChangedEvent, { type: 'transaction', id }, this.schemaRegistry)]
+        : [];
+      
+      // Written in the same unit of work as the new status, so a change
+      // that is kept always has its history row
+      const statusChange = transaction.status !== status
+        ? this.createStatusChange(updatedTransaction, transaction.status, context)
+        : undefined;
+      
+      if (journalEntry) {
+        await this.ledgerManager!.commitEntry(journalEntry, updatedTransaction, outboxEvents, statusChange);
+      } else if (this.outboxStore) {
+        await this.outboxStore.commit(updatedTransaction, outboxEvents, statusChange);
+      } else if (statusChange) {
+        await this.store.saveWithStatusChange(updatedTransaction, statusChange);
+      } else {
+        await this.store.save(updatedTransaction);
+      }
       
       // Emit event
-      if (this.eventEmitter) {
-        await this.eventEmitter.emit('transaction.status_changed', {
-          transactionId: id,
-          oldStatus: transaction.status,
-          newStatus: status,
-          timestamp: updatedTransaction.updatedAt
-        });
+      if (this.eventEmitter && !this.outboxStore) {
+        await this.eventEmitter.emit('transaction.status_changed', statusChangedEvent);
       }
       
       this.logger.info(`[${operationId}] Updated transaction ${id} status from ${transaction.status} to ${status}`);
@@ -369,6 +461,11 @@ export class TransactionManager {
     } catch (error) {
       this.logger.error(`[${operationId}] Failed to update transaction ${id} status`, { error });
       
+      // Keep the code of an illegal transition or a missing transaction
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+      
       throw errorHandler.wrapError(
         error,
         `Failed to update transaction status to ${status}`,
@@ -388,3 +485,25 @@ export class TransactionManager {
         }
       }
     }
+  }
+  
+  /**
+   * History row for a transaction that moved from `fromStatus` to its
+   * current status
+   */
+  private createStatusChange(
+    transaction: Transaction,
+    fromStatus: TransactionStatus,
+    context: StatusChangeContext
+  ): TransactionStatusChange {
+    return {
+      id: uuidv4(),
+      transactionId: transaction.id,
+      fromStatus,
+      toStatus: transaction.status,
+      actor: context.actor || 'system',
+      reason: context.reason,
+      createdAt: transaction.updatedAt
+    };
+  }
+}
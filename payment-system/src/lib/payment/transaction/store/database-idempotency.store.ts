@@ -0,0 +1,352 @@
+// src/lib/payment/transaction/store/database-idempotency.store.ts
+import { Pool } from 'pg';
+import {
+  IdempotencyStore,
+  IdempotencyLockResult,
+  IdempotencyCompletion,
+  IdempotencyStats
+} from './idempotency.store';
+import { IdempotencyRecord } from '../utils/idempotency';
+import { errorHandler, ErrorCode } from '../../utils/error';
+import { PaymentLogger } from '../../utils/logger';
+
+export class DatabaseIdempotencyStore extends IdempotencyStore {
+  private logger: PaymentLogger;
+
+  constructor(private dbPool: Pool) {
+    super();
+    this.logger = new PaymentLogger('info', 'DatabaseIdempotencyStore');
+  }
+
+  async lock(record: IdempotencyRecord): Promise<IdempotencyLockResult> {
+    try {
+      // The row lock taken by ON CONFLICT serialises concurrent requests for
+      // the same key; only the one whose WHERE clause matches gets a row back.
+      // An expired row is replaced outright unless it is a lock that was never
+      // released, in which case its attempts carry over
+      const result = await this.dbPool.query(
+        `WITH previous AS (
+           SELECT locked, resource_id, expires_at FROM idempotency_keys WHERE key = $1
+         )
+         INSERT INTO idempotency_keys (
+           key, locked, locked_at, expires_at, request_hash, request_context,
+           attempts, last_attempt_at
+         ) VALUES ($1, TRUE, $2, $3, $4, $5, 1, $2)
+         ON CONFLICT (key) DO UPDATE SET
+           locked = TRUE,
+           locked_at = EXCLUDED.locked_at,
+           expires_at = EXCLUDED.expires_at,
+           request_hash = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at OR EXCLUDED.request_context IS NOT NULL
+               THEN EXCLUDED.request_hash
+             ELSE idempotency_keys.request_hash
+           END,
+           request_context = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at OR EXCLUDED.request_context IS NOT NULL
+               THEN EXCLUDED.request_context
+             ELSE idempotency_keys.request_context
+           END,
+           resource_id = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at THEN NULL
+             ELSE idempotency_keys.resource_id
+           END,
+           resource_type = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at THEN NULL
+             ELSE idempotency_keys.resource_type
+           END,
+           response_status_code = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at THEN NULL
+             ELSE idempotency_keys.response_status_code
+           END,
+           response_headers = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at THEN NULL
+             ELSE idempotency_keys.response_headers
+           END,
+           response_body = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at THEN NULL
+             ELSE idempotency_keys.response_body
+           END,
+           attempts = CASE
+             WHEN idempotency_keys.expires_at < EXCLUDED.locked_at
+               AND NOT (idempotency_keys.locked AND idempotency_keys.resource_id IS NULL)
+               THEN 1
+             ELSE idempotency_keys.attempts + 1
+           END,
+           last_attempt_at = EXCLUDED.last_attempt_at
+         WHERE idempotency_keys.expires_at < EXCLUDED.locked_at
+           OR (
+             idempotency_keys.locked = FALSE
+             AND idempotency_keys.resource_id IS NULL
+             AND (
+               idempotency_keys.request_hash IS NULL
+               OR EXCLUDED.request_hash IS NULL
+               OR idempotency_keys.request_hash = EXCLUDED.request_hash
+             )
+           )
+         RETURNING idempotency_keys.*,
+           (SELECT locked FROM previous) AS previous_locked,
+           (SELECT resource_id FROM previous) AS previous_resource_id,
+           (SELECT expires_at FROM previous) AS previous_expires_at`,
+        [
+          record.key,
+          record.timestamp,
+          record.expiresAt,
+          record.requestHash || null,
+          record.requestContext ? JSON.stringify(record.requestContext) : null
+        ]
+      );
+
+      if (result.rows.length > 0) {
+        const row = result.rows[0];
+        const existed = row.previous_expires_at !== null;
+        const expired = existed && new Date(row.previous_expires_at) < record.timestamp;
+        const staleLockReset = expired && row.previous_locked && !row.previous_resource_id;
+
+        return {
+          acquired: true,
+          created: !existed || (expired && !staleLockReset),
+          staleLockReset,
+          record: this.mapRowToRecord(row)
+        };
+      }
+
+      const existing = await this.touch(record.key, record.timestamp);
+      if (!existing) {
+        // Removed between the two statements; the next attempt will insert it
+        return this.lock(record);
+      }
+
+      return { acquired: false, created: false, staleLockReset: false, record: existing };
+    } catch (error) {
+      this.logger.error('Failed to lock idempotency key', { error, key: record.key });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to lock idempotency key',
+        ErrorCode.DATABASE_ERROR,
+        { idempotencyKey: record.key }
+      );
+    }
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM idempotency_keys WHERE key = $1',
+        [key]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToRecord(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('Failed to get idempotency key', { error, key });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get idempotency key',
+        ErrorCode.DATABASE_ERROR,
+        { idempotencyKey: key }
+      );
+    }
+  }
+
+  async touch(key: string, attemptedAt: Date): Promise<IdempotencyRecord | null> {
+    return this.updateRecord(
+      key,
+      'attempts = attempts + 1, last_attempt_at = $2',
+      [attemptedAt],
+      'Failed to record idempotency attempt'
+    );
+  }
+
+  async release(key: string): Promise<IdempotencyRecord | null> {
+    return this.updateRecord(key, 'locked = FALSE', [], 'Failed to release idempotency key');
+  }
+
+  async complete(key: string, completion: IdempotencyCompletion): Promise<IdempotencyRecord | null> {
+    const { response } = completion;
+
+    return this.updateRecord(
+      key,
+      `locked = FALSE,
+       resource_id = $2,
+       resource_type = $3,
+       expires_at = $4,
+       request_hash = COALESCE(request_hash, $5),
+       response_status_code = COALESCE($6, response_status_code),
+       response_headers = COALESCE($7, response_headers),
+       response_body = COALESCE($8, response_body)`,
+      [
+        completion.resourceId,
+        completion.resourceType,
+        completion.expiresAt,
+        completion.requestHash || null,
+        response ? response.statusCode : null,
+        response ? JSON.stringify(response.headers) : null,
+        response ? response.body : null
+      ],
+      'Failed to complete idempotency key'
+    );
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const result = await this.dbPool.query(
+        'DELETE FROM idempotency_keys WHERE key = $1',
+        [key]
+      );
+
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      this.logger.error('Failed to delete idempotency key', { error, key });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to delete idempotency key',
+        ErrorCode.DATABASE_ERROR,
+        { idempotencyKey: key }
+      );
+    }
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    try {
+      const result = await this.dbPool.query(
+        'DELETE FROM idempotency_keys WHERE expires_at < $1',
+        [now]
+      );
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      this.logger.error('Failed to delete expired idempotency keys', { error });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to delete expired idempotency keys',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async releaseStaleLocks(lockedBefore: Date): Promise<IdempotencyRecord[]> {
+    try {
+      const result = await this.dbPool.query(
+        `UPDATE idempotency_keys SET locked = FALSE
+         WHERE locked = TRUE AND resource_id IS NULL AND locked_at < $1
+         RETURNING *`,
+        [lockedBefore]
+      );
+
+      return result.rows.map(row => this.mapRowToRecord(row));
+    } catch (error) {
+      this.logger.error('Failed to release stale idempotency locks', { error });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to release stale idempotency locks',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async getStats(): Promise<IdempotencyStats> {
+    try {
+      const result = await this.dbPool.query(
+        `SELECT
+           COUNT(*) AS total_records,
+           COUNT(*) FILTER (WHERE locked) AS locked_records,
+           COUNT(*) FILTER (WHERE resource_id IS NOT NULL) AS completed_records,
+           COALESCE(SUM(attempts), 0) AS total_attempts,
+           MIN(locked_at) AS oldest_record
+         FROM idempotency_keys`
+      );
+
+      const row = result.rows[0];
+      return {
+        totalRecords: parseInt(row.total_records, 10),
+        lockedRecords: parseInt(row.locked_records, 10),
+        completedRecords: parseInt(row.completed_records, 10),
+        totalAttempts: parseInt(row.total_attempts, 10),
+        oldestRecord: row.oldest_record ? new Date(row.oldest_record) : null
+      };
+    } catch (error) {
+      this.logger.error('Failed to get idempotency stats', { error });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get idempotency stats',
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  async hasLockedResource(resourceType: string, resourceId: string): Promise<boolean> {
+    try {
+      const result = await this.dbPool.query(
+        `SELECT 1 FROM idempotency_keys
+         WHERE locked = TRUE AND resource_type = $1 AND resource_id = $2
+         LIMIT 1`,
+        [resourceType, resourceId]
+      );
+
+      return result.rows.length > 0;
+    } catch (error) {
+      this.logger.error('Failed to check idempotency locks', { error, resourceType, resourceId });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to check idempotency locks',
+        ErrorCode.DATABASE_ERROR,
+        { resourceType, resourceId }
+      );
+    }
+  }
+
+  private async updateRecord(
+    key: string,
+    assignments: string,
+    params: any[],
+    errorMessage: string
+  ): Promise<IdempotencyRecord | null> {
+    try {
+      const result = await this.dbPool.query(
+        `UPDATE idempotency_keys SET ${assignments} WHERE key = $1 RETURNING *`,
+        [key, ...params]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToRecord(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error(errorMessage, { error, key });
+
+      throw errorHandler.wrapError(
+        error,
+        errorMessage,
+        ErrorCode.DATABASE_ERROR,
+        { idempotencyKey: key }
+      );
+    }
+  }
+
+  private mapRowToRecord(row: any): IdempotencyRecord {
+    return {
+      key: row.key,
+      locked: row.locked,
+      timestamp: new Date(row.locked_at),
+      expiresAt: new Date(row.expires_at),
+      resourceId: row.resource_id || undefined,
+      resourceType: row.resource_type || undefined,
+      requestHash: row.request_hash || undefined,
+      requestContext: row.request_context
+        ? { ...row.request_context, timestamp: new Date(row.request_context.timestamp) }
+        : undefined,
+      response: row.response_status_code !== null && row.response_status_code !== undefined
+        ? {
+            statusCode: row.response_status_code,
+            headers: row.response_headers || {},
+            body: row.response_body || ''
+          }
+        : undefined,
+      attempts: row.attempts,
+      lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at) : undefined
+    };
+  }
+}
@@ -1,9 +1,11 @@
 // src/lib/payment/transaction/store/database-transaction.store.ts
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { 
   Transaction, 
   TransactionStatus, 
-  TransactionType 
+  TransactionType,
+  TransactionStatusChange,
+  FeeBreakdown
 } from '../../types/transaction.types';
 import { TransactionStore, TransactionQuery } from './transaction.store';
 import { errorHandler, ErrorCode } from '../../utils/error';
@@ -17,14 +19,25 @@ export class DatabaseTransactionStore extends TransactionStore {
     this.logger = new PaymentLogger('info', 'DatabaseTransactionStore');
   }
 
-  async save(transaction: Transaction): Promise<void> {
+  /**
+   * Save a transaction. Pass a client to take part in a database transaction
+   * that the caller has already begun.
+   */
+  async save(
+    transaction: Transaction,
+    executor: Pool | PoolClient = this.dbPool
+  ): Promise<void> {
     try {
       const query = `
         INSERT INTO transactions (
           id, type, status, amount, currency, customer_id, payment_method_id,
           idempotency_key, retry_count, metadata, error, created_at, updated_at,
-          completed_at, failed_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+          completed_at, failed_at, parent_transaction_id, gross_amount,
+          fee_amount, net_amount, fee_currency, fee_details, provider
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
+          $17, $18, $19, $20, $21, $22
+        )
         ON CONFLICT (id) DO UPDATE SET
           status = $3,
           retry_count = $9,
@@ -32,10 +45,16 @@ export class DatabaseTransactionStore extends TransactionStore {
           error = $11,
           updated_at = $13,
           completed_at = $14,
-          failed_at = $15
+          failed_at = $15,
+          gross_amount = $17,
+          fee_amount = $18,
+          net_amount = $19,
+          fee_currency = $20,
+          fee_details = $21
       `;
+      const fees = transaction.fees;
 
-      await this.dbPool.query(query, [
+      await executor.query(query, [
         transaction.id,
         transaction.type,
         transaction.status,
@@ -50,7 +69,14 @@ export class DatabaseTransactionStore extends TransactionStore {
         transaction.createdAt,
         transaction.updatedAt,
         transaction.completedAt,
-        transaction.failedAt
+        transaction.failedAt,
+        transaction.parentTransactionId || null,
+        fees ? fees.grossAmount : null,
+        fees ? fees.feeAmount : null,
+        fees ? fees.netAmount : null,
+        fees ? fees.currency : null,
+        fees ? JSON.stringify(fees.details) : null,
+        transaction.provider || null
       ]);
       
       this.logger.debug('Transaction saved', { 
@@ -197,6 +223,163 @@ export class DatabaseTransactionStore extends TransactionStore {
     }
   }
 
+  async findByParentId(parentTransactionId: string): Promise<Transaction[]> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM transactions WHERE parent_transaction_id = $1 ORDER BY created_at ASC',
+        [parentTransactionId]
+      );
+
+      return result.rows.map(row => this.mapRowToTransaction(row));
+    } catch (error) {
+      this.logger.error('Failed to find child transactions', { 
+        error, 
+        parentTransactionId 
+      });
+      
+      throw errorHandler.wrapError(
+        error,
+        'Failed to find child transactions',
+        ErrorCode.DATABASE_ERROR,
+        { parentTransactionId }
+      );
+    }
+  }
+
+  async findByProviderReference(reference: string): Promise<Transaction | null> {
+    try {
+      const result = await this.dbPool.query(
+        `SELECT * FROM transactions
+         WHERE type = $1
+           AND (metadata->>'providerTransactionId' = $2 OR metadata->>'providerChargeId' = $2)
+         ORDER BY created_at ASC
+         LIMIT 1`,
+        [TransactionType.PAYMENT, reference]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToTransaction(result.rows[0]);
+    } catch (error) {
+      this.logger.error('Failed to find transaction by provider reference', { 
+        error, 
+        reference 
+      });
+      
+      throw errorHandler.wrapError(
+        error,
+        'Failed to find transaction by provider reference',
+        ErrorCode.DATABASE_ERROR,
+        { reference }
+      );
+    }
+  }
+
+  /**
+   * Add a status change to the history. Pass a client to take part in a
+   * database transaction that the caller has already begun.
+   */
+  async saveStatusChange(
+    change: TransactionStatusChange,
+    executor: Pool | PoolClient = this.dbPool
+  ): Promise<void> {
+    try {
+      await executor.query(
+        `
+          INSERT INTO transaction_status_history (
+            id, transaction_id, from_status, to_status, actor, reason, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `,
+        [
+          change.id,
+          change.transactionId,
+          change.fromStatus,
+          change.toStatus,
+          change.actor,
+          change.reason || null,
+          change.createdAt
+        ]
+      );
+    } catch (error) {
+      this.logger.error('Failed to save transaction status change', {
+        error,
+        transactionId: change.transactionId
+      });
+      
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save transaction status change',
+        ErrorCode.DATABASE_ERROR,
+        { transactionId: change.transactionId }
+      );
+    }
+  }
+
+  async saveWithStatusChange(
+    transaction: Transaction,
+    change: TransactionStatusChange
+  ): Promise<void> {
+    const client = await this.dbPool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await this.save(transaction, client);
+      await this.saveStatusChange(change, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      this.logger.error('Failed to save transaction with status change', {
+        error,
+        transactionId: transaction.id
+      });
+
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save transaction with status change',
+        ErrorCode.DATABASE_ERROR,
+        { transactionId: transaction.id }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getStatusHistory(transactionId: string): Promise<TransactionStatusChange[]> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM transaction_status_history WHERE transaction_id = $1 ORDER BY created_at ASC',
+        [transactionId]
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        transactionId: row.transaction_id,
+        fromStatus: row.from_status as TransactionStatus,
+        toStatus: row.to_status as TransactionStatus,
+        actor: row.actor,
+        reason: row.reason || undefined,
+        createdAt: row.created_at
+      }));
+    } catch (error) {
+      this.logger.error('Failed to get transaction status history', { 
+        error, 
+        transactionId 
+      });
+      
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get transaction status history',
+        ErrorCode.DATABASE_ERROR,
+        { transactionId }
+      );
+    }
+  }
+
   async queryAll(options: TransactionQuery): Promise<Transaction[]> {
     try {
       let query = 'SELECT * FROM transactions WHERE 1=1';
@@ -261,13 +444,30 @@ export class DatabaseTransactionStore extends TransactionStore {
       customerId: row.customer_id,
       paymentMethodId: row.payment_method_id,
       idempotencyKey: row.idempotency_key,
+      parentTransactionId: row.parent_transaction_id || undefined,
       retryCount: row.retry_count,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
       error: row.error ? JSON.parse(row.error) : undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       completedAt: row.completed_at,
-      failedAt: row.failed_at
+      failedAt: row.failed_at,
+      fees: this.mapRowToFees(row),
+      provider: row.provider || undefined
+    };
+  }
+
+  private mapRowToFees(row: any): FeeBreakdown | undefined {
+    if (row.fee_amount === null || row.fee_amount === undefined) {
+      return undefined;
+    }
+
+    return {
+      grossAmount: parseFloat(row.gross_amount),
+      feeAmount: parseFloat(row.fee_amount),
+      netAmount: parseFloat(row.net_amount),
+      currency: row.fee_currency,
+      details: row.fee_details || []
     };
   }
 }
@@ -0,0 +1,222 @@
+// src/lib/payment/transaction/store/idempotency.store.ts
+import { IdempotencyRecord, IdempotentResponse } from '../utils/idempotency';
+
+export interface IdempotencyLockResult {
+  // Whether the caller now holds the lock on the key
+  acquired: boolean;
+  // True when no live record existed for the key
+  created: boolean;
+  // True when the lock of a request that never finished had expired and
+  // was taken over
+  staleLockReset: boolean;
+  // The record after the attempt. When the lock was not acquired this is
+  // the record that blocked it, with the attempt counted
+  record: IdempotencyRecord;
+}
+
+export interface IdempotencyCompletion {
+  resourceId: string;
+  resourceType: string;
+  response?: IdempotentResponse;
+  requestHash?: string;
+  expiresAt: Date;
+}
+
+export interface IdempotencyStats {
+  totalRecords: number;
+  lockedRecords: number;
+  completedRecords: number;
+  totalAttempts: number;
+  oldestRecord: Date | null;
+}
+
+export abstract class IdempotencyStore {
+  /**
+   * Lock the key in a single atomic step. The lock is granted when there is
+   * no live record, when the record has expired, or when an earlier attempt
+   * released it without completing and the request hashes do not conflict.
+   */
+  abstract lock(record: IdempotencyRecord): Promise<IdempotencyLockResult>;
+  abstract get(key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Count another attempt against the key
+   */
+  abstract touch(key: string, attemptedAt: Date): Promise<IdempotencyRecord | null>;
+  abstract release(key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Store the outcome of the request and unlock the key
+   */
+  abstract complete(key: string, completion: IdempotencyCompletion): Promise<IdempotencyRecord | null>;
+  abstract delete(key: string): Promise<boolean>;
+  abstract deleteExpired(now: Date): Promise<number>;
+
+  /**
+   * Unlock keys locked before the given time that never completed
+   */
+  abstract releaseStaleLocks(lockedBefore: Date): Promise<IdempotencyRecord[]>;
+  abstract getStats(): Promise<IdempotencyStats>;
+  abstract hasLockedResource(resourceType: string, resourceId: string): Promise<boolean>;
+}
+
+const copyRecord = (record: IdempotencyRecord): IdempotencyRecord => ({
+  ...record,
+  response: record.response
+    ? { ...record.response, headers: { ...record.response.headers } }
+    : undefined
+});
+
+export class InMemoryIdempotencyStore extends IdempotencyStore {
+  private records: Map<string, IdempotencyRecord> = new Map();
+
+  // Every check and update below runs without awaiting, so a lock is never
+  // granted twice within one process
+  async lock(record: IdempotencyRecord): Promise<IdempotencyLockResult> {
+    const existing = this.records.get(record.key);
+
+    if (!existing) {
+      this.records.set(record.key, copyRecord(record));
+      return { acquired: true, created: true, staleLockReset: false, record: copyRecord(record) };
+    }
+
+    if (existing.expiresAt < record.timestamp) {
+      const staleLockReset = existing.locked && !existing.resourceId;
+      const replacement = staleLockReset
+        ? { ...record, attempts: existing.attempts + 1 }
+        : record;
+
+      this.records.set(record.key, copyRecord(replacement));
+      return { acquired: true, created: !staleLockReset, staleLockReset, record: copyRecord(replacement) };
+    }
+
+    existing.attempts += 1;
+    existing.lastAttemptAt = record.timestamp;
+
+    const hashConflict = !!record.requestHash && !!existing.requestHash &&
+      record.requestHash !== existing.requestHash;
+
+    if (existing.locked || existing.resourceId || hashConflict) {
+      return { acquired: false, created: false, staleLockReset: false, record: copyRecord(existing) };
+    }
+
+    existing.locked = true;
+    existing.timestamp = record.timestamp;
+    existing.expiresAt = record.expiresAt;
+
+    if (record.requestContext) {
+      existing.requestContext = record.requestContext;
+      existing.requestHash = record.requestHash;
+    }
+
+    return { acquired: true, created: false, staleLockReset: false, record: copyRecord(existing) };
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    return record ? copyRecord(record) : null;
+  }
+
+  async touch(key: string, attemptedAt: Date): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    record.attempts += 1;
+    record.lastAttemptAt = attemptedAt;
+    return copyRecord(record);
+  }
+
+  async release(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    record.locked = false;
+    return copyRecord(record);
+  }
+
+  async complete(key: string, completion: IdempotencyCompletion): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    record.resourceId = completion.resourceId;
+    record.resourceType = completion.resourceType;
+    record.locked = false;
+    record.expiresAt = completion.expiresAt;
+
+    if (completion.response) {
+      record.response = { ...completion.response, headers: { ...completion.response.headers } };
+    }
+
+    if (completion.requestHash && !record.requestHash) {
+      record.requestHash = completion.requestHash;
+    }
+
+    return copyRecord(record);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    let removed = 0;
+
+    for (const [key, record] of this.records.entries()) {
+      if (record.expiresAt < now) {
+        this.records.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  async releaseStaleLocks(lockedBefore: Date): Promise<IdempotencyRecord[]> {
+    const released: IdempotencyRecord[] = [];
+
+    for (const record of this.records.values()) {
+      if (record.locked && !record.resourceId && record.timestamp < lockedBefore) {
+        record.locked = false;
+        released.push(copyRecord(record));
+      }
+    }
+
+    return released;
+  }
+
+  async getStats(): Promise<IdempotencyStats> {
+    const stats: IdempotencyStats = {
+      totalRecords: this.records.size,
+      lockedRecords: 0,
+      completedRecords: 0,
+      totalAttempts: 0,
+      oldestRecord: null
+    };
+
+    for (const record of this.records.values()) {
+      if (record.locked) stats.lockedRecords++;
+      if (record.resourceId) stats.completedRecords++;
+      stats.totalAttempts += record.attempts;
+
+      if (!stats.oldestRecord || record.timestamp < stats.oldestRecord) {
+        stats.oldestRecord = record.timestamp;
+      }
+    }
+
+    return stats;
+  }
+
+  async hasLockedResource(resourceType: string, resourceId: string): Promise<boolean> {
+    return Array.from(this.records.values()).some(record =>
+      record.locked &&
+      record.resourceType === resourceType &&
+      record.resourceId === resourceId
+    );
+  }
+}
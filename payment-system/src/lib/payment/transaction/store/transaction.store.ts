@@ -1,6 +1,11 @@
 // src/lib/payment/transaction/store/transaction.store.ts
 
-import { Transaction, TransactionStatus, TransactionType } from '../../types/transaction.types';
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  TransactionStatusChange
+} from '../../types/transaction.types';
 
 export interface TransactionQuery {
   customerId?: string;
@@ -21,6 +26,28 @@ export abstract class TransactionStore {
   ): Promise<Transaction[]>;
   abstract delete(id: string): Promise<void>;
   abstract findByIdempotencyKey(key: string): Promise<Transaction | null>;
+  abstract findByParentId(parentTransactionId: string): Promise<Transaction[]>;
+  
+  /**
+   * Payment whose provider payment ID or charge ID is `reference`
+   */
+  abstract findByProviderReference(reference: string): Promise<Transaction | null>;
+  abstract saveStatusChange(change: TransactionStatusChange): Promise<void>;
+  
+  /**
+   * Save a transaction together with the status change that produced it.
+   * Both are committed or neither is, so the history never misses a change
+   * that was kept.
+   */
+  abstract saveWithStatusChange(
+    transaction: Transaction,
+    change: TransactionStatusChange
+  ): Promise<void>;
+  
+  /**
+   * Status changes of a transaction, oldest first
+   */
+  abstract getStatusHistory(transactionId: string): Promise<TransactionStatusChange[]>;
   
   // Optional method for reconciliation, can be implemented by concrete classes
   queryAll?(options: TransactionQuery): Promise<Transaction[]>;
@@ -30,6 +57,7 @@ export abstract class TransactionStore {
 export class InMemoryTransactionStore extends TransactionStore {
   private transactions: Map<string, Transaction> = new Map();
   private idempotencyKeys: Map<string, string> = new Map();
+  private statusHistory: TransactionStatusChange[] = [];
 
   async save(transaction: Transaction): Promise<void> {
     this.transactions.set(transaction.id, { ...transaction });
@@ -86,6 +114,43 @@ export class InMemoryTransactionStore extends TransactionStore {
     return this.get(transactionId);
   }
 
+  async findByParentId(parentTransactionId: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(tx => tx.parentTransactionId === parentTransactionId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(tx => ({ ...tx }));
+  }
+
+  async findByProviderReference(reference: string): Promise<Transaction | null> {
+    const transaction = Array.from(this.transactions.values()).find(tx =>
+      tx.type === TransactionType.PAYMENT && (
+        tx.metadata?.providerTransactionId === reference ||
+        tx.metadata?.providerChargeId === reference
+      )
+    );
+    return transaction ? { ...transaction } : null;
+  }
+
+  async saveStatusChange(change: TransactionStatusChange): Promise<void> {
+    this.statusHistory.push({ ...change });
+  }
+
+  // With nothing running in between the two writes there is nothing to
+  // roll back
+  async saveWithStatusChange(
+    transaction: Transaction,
+    change: TransactionStatusChange
+  ): Promise<void> {
+    await this.saveStatusChange(change);
+    await this.save(transaction);
+  }
+
+  async getStatusHistory(transactionId: string): Promise<TransactionStatusChange[]> {
+    return this.statusHistory
+      .filter(change => change.transactionId === transactionId)
+      .map(change => ({ ...change }));
+  }
+
   // Implement queryAll for reconciliation
   async queryAll(options: TransactionQuery): Promise<Transaction[]> {
     let results = Array.from(this.transactions.values());
@@ -119,5 +184,6 @@ export class InMemoryTransactionStore extends TransactionStore {
   async clear(): Promise<void> {
     this.transactions.clear();
     this.idempotencyKeys.clear();
+    this.statusHistory = [];
   }
 }
@@ -5,7 +5,7 @@ import { errorHandler, ErrorCode } from '../../utils/error';
 import { TransactionStore } from '../store/transaction.store';
 import { Transaction, TransactionStatus, TransactionType } from '../types';
 import { EventEmitter } from '../../events/event.emitter';
-import { RecordLocker, LockLevel } from '../../utils/record-locker';
+import { RecordLocker, LockLevel, isDeadlockVictim } from '../../utils/record-locker';
 
 export enum CompensatingOperationStatus {
   PENDING = 'pending',
@@ -162,6 +162,9 @@ export class CompensatingTransactionHandler {
             }
           );
         } catch (error) {
+          if (isDeadlockVictim(error)) {
+            throw error;
+          }
           this.logger.error(`Failed to acquire lock for transaction ${transactionId}`, { error });
           // Continue without lock as this is a recovery operation
         }
@@ -810,8 +813,10 @@ export class CompensatingTransactionHandler {
   private isTerminalState(status: TransactionStatus): boolean {
     return [
       TransactionStatus.COMPLETED,
+      TransactionStatus.PARTIALLY_CAPTURED,
       TransactionStatus.FAILED,
-      TransactionStatus.ROLLED_BACK
+      TransactionStatus.ROLLED_BACK,
+      TransactionStatus.VOIDED
     ].includes(status);
   }
   
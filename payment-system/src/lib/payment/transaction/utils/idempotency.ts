@@ -4,6 +4,7 @@ import { createHash } from 'crypto';
 import { PaymentLogger } from '../../utils/logger';
 import { errorHandler, ErrorCode } from '../../utils/error';
 import { EventEmitter } from '../../events/event.emitter';
+import { IdempotencyStore, InMemoryIdempotencyStore } from '../store/idempotency.store';
 
 export interface RequestContext {
   path: string;
@@ -12,6 +13,13 @@ export interface RequestContext {
   timestamp: Date;
 }
 
+// Response sent for the original request, replayed unchanged to retries
+export interface IdempotentResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
 export interface IdempotencyRecord {
   key: string;
   locked: boolean;
@@ -21,13 +29,13 @@ export interface IdempotencyRecord {
   expiresAt: Date;
   requestHash?: string;
   requestContext?: RequestContext;
-  cachedResponse?: string;
+  response?: IdempotentResponse;
   attempts: number;
   lastAttemptAt?: Date;
 }
 
 export class IdempotencyManager {
-  private records: Map<string, IdempotencyRecord> = new Map();
+  private store: IdempotencyStore;
   private logger: PaymentLogger;
   private lockExpirationMs: number;
   private recordExpirationMs: number;
@@ -40,8 +48,12 @@ export class IdempotencyManager {
       recordExpirationMs?: number;
       staleRequestTimeoutMs?: number;
       eventEmitter?: EventEmitter;
+      // Where keys are kept; use a shared store when several instances
+      // serve the API so keys survive restarts and are seen by all of them
+      store?: IdempotencyStore;
     } = {}
   ) {
+    this.store = options.store || new InMemoryIdempotencyStore();
     this.lockExpirationMs = options.lockExpirationMs || 300000; // 5 minutes default lock expiration
     this.recordExpirationMs = options.recordExpirationMs || 86400000; // 24 hours default record expiration
     this.staleRequestTimeoutMs = options.staleRequestTimeoutMs || 3600000; // 1 hour default for stale requests
@@ -50,7 +62,11 @@ export class IdempotencyManager {
 
     // Setup periodic cleanup
     if (typeof setInterval !== 'undefined') {
-      setInterval(() => this.cleanup(), 3600000); // Run cleanup every hour
+      setInterval(() => {
+        this.cleanup().catch(error => {
+          this.logger.error('Failed to clean up idempotency records', { error });
+        });
+      }, 3600000); // Run cleanup every hour
     }
   }
 
@@ -60,189 +76,159 @@ export class IdempotencyManager {
    */
   async checkAndLock(key: string, requestContext?: RequestContext): Promise<boolean> {
     this.validateKey(key);
-    
-    // First run cleanup
-    this.cleanup();
 
-    // Check if key exists and is still valid
-    const existing = this.records.get(key);
+    // Expired records count as absent, so the store can decide on the lock
+    // in one step
+    const now = new Date();
+    const { acquired, created, staleLockReset, record: existing } = await this.store.lock({
+      key,
+      locked: true,
+      timestamp: now,
+      expiresAt: new Date(now.getTime() + this.lockExpirationMs),
+      requestHash: requestContext?.bodyHash,
+      requestContext,
+      attempts: 1,
+      lastAttemptAt: now
+    });
 
-    if (existing) {
-      this.logger.info('Found existing idempotency record', { 
+    if (created) {
+      this.logger.info('Created new idempotency record', { 
         key, 
-        locked: existing.locked,
-        resourceId: existing.resourceId,
-        attempts: existing.attempts
+        requestHash: requestContext?.bodyHash ? '[present]' : '[not provided]',
+        path: requestContext?.path 
       });
       
-      // Update attempts counter
-      existing.attempts += 1;
-      existing.lastAttemptAt = new Date();
-      
-      // Check for replay attack with different request context
-      if (requestContext && existing.requestHash && 
-          requestContext.bodyHash !== existing.requestHash) {
-        this.logger.warn('Possible replay attack detected: same idempotency key with different request body', {
+      // Emit new key event
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('idempotency.key_created', {
           key,
-          attempts: existing.attempts,
-          originalPath: existing.requestContext?.path,
-          newPath: requestContext.path
+          timestamp: now,
+          path: requestContext?.path
+        }).catch(error => {
+          this.logger.error('Failed to emit key created event', { error });
         });
-        
-        // Emit replay detection event
-        if (this.eventEmitter) {
-          this.eventEmitter.emit('idempotency.replay_detected', {
-            key,
-            attempts: existing.attempts,
-            originalTimestamp: existing.timestamp,
-            newTimestamp: new Date(),
-            originalPath: existing.requestContext?.path,
-            newPath: requestContext.path
-          }).catch(error => {
-            this.logger.error('Failed to emit replay detection event', { error });
-          });
-        }
-        
-        throw errorHandler.createError(
-          'Request body does not match original request',
-          ErrorCode.IDEMPOTENCY_ERROR,
-          { idempotencyKey: key }
-        );
       }
       
-      if (existing.locked) {
-        const now = new Date();
-        // Check if this is a stale lock (hanging process)
-        if (now > existing.expiresAt) {
-          this.logger.warn('Detected stale lock, resetting', { 
-            key,
-            lockedAt: existing.timestamp,
-            expiredAt: existing.expiresAt
-          });
-          
-          existing.locked = true;
-          existing.timestamp = now;
-          existing.expiresAt = new Date(now.getTime() + this.lockExpirationMs);
-          
-          // Emit stale lock event
-          if (this.eventEmitter) {
-            this.eventEmitter.emit('idempotency.stale_lock_reset', {
-              key,
-              originalLockTime: existing.timestamp,
-              newLockTime: now
-            }).catch(error => {
-              this.logger.error('Failed to emit stale lock event', { error });
-            });
-          }
-          
-          return true;
-        }
-        
-        // Otherwise, it's a duplicate request during processing
-        this.logger.warn('Duplicate request while operation in progress', {
-          key, 
-          lockedAt: existing.timestamp,
-          timeElapsed: Date.now() - existing.timestamp.getTime()
+      return true;
+    }
+
+    this.logger.info('Found existing idempotency record', { 
+      key, 
+      locked: existing.locked,
+      resourceId: existing.resourceId,
+      attempts: existing.attempts
+    });
+
+    if (staleLockReset) {
+      this.logger.warn('Detected stale lock, reset', { key });
+      
+      // Emit stale lock event
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('idempotency.stale_lock_reset', {
+          key,
+          newLockTime: now
+        }).catch(error => {
+          this.logger.error('Failed to emit stale lock event', { error });
         });
-        
-        // Emit duplicate request event
-        if (this.eventEmitter) {
-          this.eventEmitter.emit('idempotency.duplicate_request', {
-            key,
-            status: 'in_progress',
-            attempts: existing.attempts,
-            resourceId: existing.resourceId
-          }).catch(error => {
-            this.logger.error('Failed to emit duplicate request event', { error });
-          });
-        }
-        
-        throw errorHandler.createError(
-          'Duplicate request: operation is in progress',
-          ErrorCode.DUPLICATE_REQUEST,
-          { 
-            idempotencyKey: key,
-            inProgressSince: existing.timestamp
-          }
-        );
       }
       
-      // If we have a completed operation linked to this key
-      if (existing.resourceId) {
-        this.logger.info('Request with previously completed operation', {
+      return true;
+    }
+
+    // Otherwise it was unlocked and has been reused
+    if (acquired) {
+      return true;
+    }
+    
+    // Check for replay attack with different request context
+    if (requestContext && existing.requestHash && 
+        requestContext.bodyHash !== existing.requestHash) {
+      this.logger.warn('Possible replay attack detected: same idempotency key with different request body', {
+        key,
+        attempts: existing.attempts,
+        originalPath: existing.requestContext?.path,
+        newPath: requestContext.path
+      });
+      
+      // Emit replay detection event
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('idempotency.replay_detected', {
           key,
-          resourceId: existing.resourceId,
-          resourceType: existing.resourceType
+          attempts: existing.attempts,
+          originalTimestamp: existing.timestamp,
+          newTimestamp: now,
+          originalPath: existing.requestContext?.path,
+          newPath: requestContext.path
+        }).catch(error => {
+          this.logger.error('Failed to emit replay detection event', { error });
         });
-        
-        // Emit duplicate request event for completed operation
-        if (this.eventEmitter) {
-          this.eventEmitter.emit('idempotency.duplicate_request', {
-            key,
-            status: 'completed',
-            resourceId: existing.resourceId,
-            attempts: existing.attempts
-          }).catch(error => {
-            this.logger.error('Failed to emit duplicate request event', { error });
-          });
-        }
-        
-        throw errorHandler.createError(
-          'Duplicate request: operation already completed',
-          ErrorCode.DUPLICATE_REQUEST,
-          { 
-            idempotencyKey: key,
-            resourceId: existing.resourceId,
-            resourceType: existing.resourceType
-          }
-        );
       }
       
-      // Otherwise it's unlocked and can be reused
-      existing.locked = true;
-      existing.timestamp = new Date();
-      existing.expiresAt = new Date(Date.now() + this.lockExpirationMs);
+      throw errorHandler.createError(
+        'Request body does not match original request',
+        ErrorCode.IDEMPOTENCY_ERROR,
+        { idempotencyKey: key }
+      );
+    }
+    
+    if (existing.locked) {
+      // A duplicate request during processing
+      this.logger.warn('Duplicate request while operation in progress', {
+        key, 
+        lockedAt: existing.timestamp,
+        timeElapsed: Date.now() - existing.timestamp.getTime()
+      });
       
-      // Update request context if provided
-      if (requestContext) {
-        existing.requestContext = requestContext;
-        existing.requestHash = requestContext.bodyHash;
+      // Emit duplicate request event
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('idempotency.duplicate_request', {
+          key,
+          status: 'in_progress',
+          attempts: existing.attempts,
+          resourceId: existing.resourceId
+        }).catch(error => {
+          this.logger.error('Failed to emit duplicate request event', { error });
+        });
       }
       
-      return true;
+      throw errorHandler.createError(
+        'Duplicate request: operation is in progress',
+        ErrorCode.DUPLICATE_REQUEST,
+        { 
+          idempotencyKey: key,
+          inProgressSince: existing.timestamp
+        }
+      );
     }
     
-    // Create a new lock
-    const now = new Date();
-    this.records.set(key, { 
+    // Otherwise we have a completed operation linked to this key
+    this.logger.info('Request with previously completed operation', {
       key,
-      locked: true, 
-      timestamp: now,
-      expiresAt: new Date(now.getTime() + this.lockExpirationMs),
-      requestHash: requestContext?.bodyHash,
-      requestContext,
-      attempts: 1,
-      lastAttemptAt: now
+      resourceId: existing.resourceId,
+      resourceType: existing.resourceType
     });
     
-    this.logger.info('Created new idempotency record', { 
-      key, 
-      requestHash: requestContext?.bodyHash ? '[present]' : '[not provided]',
-      path: requestContext?.path 
-    });
-    
-    // Emit new key event
+    // Emit duplicate request event for completed operation
     if (this.eventEmitter) {
-      this.eventEmitter.emit('idempotency.key_created', {
+      this.eventEmitter.emit('idempotency.duplicate_request', {
         key,
-        timestamp: now,
-        path: requestContext?.path
+        status: 'completed',
+        resourceId: existing.resourceId,
+        attempts: existing.attempts
       }).catch(error => {
-        this.logger.error('Failed to emit key created event', { error });
+        this.logger.error('Failed to emit duplicate request event', { error });
       });
     }
     
-    return true;
+    throw errorHandler.createError(
+      'Duplicate request: operation already completed',
+      ErrorCode.DUPLICATE_REQUEST,
+      { 
+        idempotencyKey: key,
+        resourceId: existing.resourceId,
+        resourceType: existing.resourceType
+      }
+    );
   }
 
   /**
@@ -251,9 +237,8 @@ export class IdempotencyManager {
   async releaseLock(key: string): Promise<void> {
     this.validateKey(key);
     
-    const record = this.records.get(key);
+    const record = await this.store.release(key);
     if (record) {
-      record.locked = false;
       this.logger.info('Released idempotency lock', { key });
       
       // Emit lock released event
@@ -271,41 +256,33 @@ export class IdempotencyManager {
   }
 
   /**
-   * Associate a resource with an idempotency key after operation completes
+   * Associate a resource with an idempotency key after operation completes,
+   * keeping the response so retries can be answered with it
    */
   async associateResource(
     key: string, 
     resourceId: string, 
     resourceType: string,
-    cachedResponse?: string,
+    response?: IdempotentResponse,
     requestHash?: string
   ): Promise<void> {
     this.validateKey(key);
     
-    const record = this.records.get(key);
+    // Extend expiration time since we now have an associated resource
+    const record = await this.store.complete(key, {
+      resourceId,
+      resourceType,
+      response,
+      requestHash,
+      expiresAt: new Date(Date.now() + this.recordExpirationMs)
+    });
+
     if (record) {
-      record.resourceId = resourceId;
-      record.resourceType = resourceType;
-      record.locked = false;
-      
-      // Store cache response if provided
-      if (cachedResponse) {
-        record.cachedResponse = cachedResponse;
-      }
-      
-      // Update request hash if provided and not already set
-      if (requestHash && !record.requestHash) {
-        record.requestHash = requestHash;
-      }
-      
-      // Extend expiration time since we now have an associated resource
-      record.expiresAt = new Date(Date.now() + this.recordExpirationMs);
-      
       this.logger.info('Associated resource with idempotency key', { 
         key, 
         resourceId, 
         resourceType,
-        hasCachedResponse: !!cachedResponse
+        hasCachedResponse: !!response
       });
       
       // Emit resource association event
@@ -315,7 +292,7 @@ export class IdempotencyManager {
           resourceId,
           resourceType,
           attempts: record.attempts,
-          hasCachedResponse: !!cachedResponse
+          hasCachedResponse: !!response
         }).catch(error => {
           this.logger.error('Failed to emit resource association event', { error });
         });
@@ -337,11 +314,10 @@ export class IdempotencyManager {
   ): Promise<{ resourceId: string; resourceType: string } | null> {
     this.validateKey(key);
     
-    const record = this.records.get(key);
-    if (record && record.resourceId) {
+    const record = await this.store.get(key);
+    if (record && record.resourceId && record.expiresAt > new Date()) {
       // Update access timestamp and attempts
-      record.lastAttemptAt = new Date();
-      record.attempts += 1;
+      await this.store.touch(key, new Date());
       
       return {
         resourceId: record.resourceId,
@@ -355,7 +331,7 @@ export class IdempotencyManager {
    * Check if a key exists
    */
   async keyExists(key: string): Promise<boolean> {
-    return this.records.has(key);
+    return (await this.store.get(key)) !== null;
   }
 
   /**
@@ -368,13 +344,13 @@ export class IdempotencyManager {
     hasResource: boolean;
     attempts: number;
     requestHash?: string;
-    cachedResponse?: string;
+    response?: IdempotentResponse;
     resourceId?: string;
     resourceType?: string;
   } | null> {
     this.validateKey(key);
     
-    const record = this.records.get(key);
+    const record = await this.store.get(key);
     if (!record) {
       return null;
     }
@@ -387,7 +363,7 @@ export class IdempotencyManager {
       hasResource: !!record.resourceId,
       attempts: record.attempts,
       requestHash: record.requestHash,
-      cachedResponse: record.cachedResponse,
+      response: record.response,
       resourceId: record.resourceId,
       resourceType: record.resourceType
     };
@@ -397,54 +373,45 @@ export class IdempotencyManager {
    * Clean up expired records
    */
   async cleanup(): Promise<void> {
-    const now = new Date().getTime();
-    let expiredCount = 0;
-    let staleCount = 0;
+    const now = Date.now();
     
-    for (const [key, record] of this.records.entries()) {
-      // Remove expired records
-      if (record.expiresAt.getTime() < now) {
-        this.records.delete(key);
-        expiredCount++;
-        continue;
-      }
+    // Remove expired records
+    const expiredCount = await this.store.deleteExpired(new Date(now));
+    
+    // If a lock has been held for too long, consider the request stale
+    const staleRecords = await this.store.releaseStaleLocks(new Date(now - this.staleRequestTimeoutMs));
+    
+    for (const record of staleRecords) {
+      const lockDuration = now - record.timestamp.getTime();
       
-      // Detect and handle stale locked requests
-      if (record.locked && !record.resourceId) {
-        const lockDuration = now - record.timestamp.getTime();
-        
-        // If the lock has been held for too long, consider it stale
-        if (lockDuration > this.staleRequestTimeoutMs) {
-          this.logger.warn(`Detected stale request for key ${key}, releasing lock`, {
-            lockedFor: `${Math.round(lockDuration / 1000 / 60)} minutes`
-          });
-          
-          record.locked = false;
-          staleCount++;
-          
-          // Emit stale request event
-          if (this.eventEmitter) {
-            this.eventEmitter.emit('idempotency.stale_request_detected', {
-              key,
-              lockedSince: record.timestamp,
-              duration: lockDuration
-            }).catch(error => {
-              this.logger.error('Failed to emit stale request event', { error });
-            });
-          }
-        }
+      this.logger.warn(`Detected stale request for key ${record.key}, releasing lock`, {
+        lockedFor: `${Math.round(lockDuration / 1000 / 60)} minutes`
+      });
+      
+      // Emit stale request event
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('idempotency.stale_request_detected', {
+          key: record.key,
+          lockedSince: record.timestamp,
+          duration: lockDuration
+        }).catch(error => {
+          this.logger.error('Failed to emit stale request event', { error });
+        });
       }
     }
     
+    const staleCount = staleRecords.length;
     if (expiredCount > 0 || staleCount > 0) {
       this.logger.info(`Cleaned up ${expiredCount} expired idempotency records and detected ${staleCount} stale requests`);
       
       // Emit cleanup event
       if (this.eventEmitter) {
+        const { totalRecords } = await this.store.getStats();
+        
         this.eventEmitter.emit('idempotency.cleanup', {
           recordsRemoved: expiredCount,
           staleRecordsDetected: staleCount,
-          remainingRecords: this.records.size
+          remainingRecords: totalRecords
         }).catch(error => {
           this.logger.error('Failed to emit cleanup event', { error });
         });
@@ -455,8 +422,8 @@ export class IdempotencyManager {
   /**
    * Get the total number of idempotency records
    */
-  getRecordCount(): number {
-    return this.records.size;
+  async getRecordCount(): Promise<number> {
+    return (await this.store.getStats()).totalRecords;
   }
 
   /**
@@ -465,9 +432,8 @@ export class IdempotencyManager {
   async forceResetKey(key: string): Promise<boolean> {
     this.validateKey(key);
     
-    const exists = this.records.has(key);
+    const exists = await this.store.delete(key);
     if (exists) {
-      this.records.delete(key);
       this.logger.warn('Forced reset of idempotency key', { key });
       
       // Emit key reset event
@@ -487,34 +453,21 @@ export class IdempotencyManager {
   /**
    * Get metrics and statistics about idempotency system
    */
-  getMetrics(): {
+  async getMetrics(): Promise<{
     totalRecords: number;
     lockedRecords: number;
     completedRecords: number;
     averageAttempts: number;
     oldestRecord: Date | null;
-  } {
-    let lockedCount = 0;
-    let completedCount = 0;
-    let totalAttempts = 0;
-    let oldestTimestamp: Date | null = null;
-    
-    for (const record of this.records.values()) {
-      if (record.locked) lockedCount++;
-      if (record.resourceId) completedCount++;
-      totalAttempts += record.attempts;
-      
-      if (!oldestTimestamp || record.timestamp < oldestTimestamp) {
-        oldestTimestamp = record.timestamp;
-      }
-    }
+  }> {
+    const stats = await this.store.getStats();
     
     return {
-      totalRecords: this.records.size,
-      lockedRecords: lockedCount,
-      completedRecords: completedCount,
-      averageAttempts: this.records.size > 0 ? totalAttempts / this.records.size : 0,
-      oldestRecord: oldestTimestamp
+      totalRecords: stats.totalRecords,
+      lockedRecords: stats.lockedRecords,
+      completedRecords: stats.completedRecords,
+      averageAttempts: stats.totalRecords > 0 ? stats.totalAttempts / stats.totalRecords : 0,
+      oldestRecord: stats.oldestRecord
     };
   }
 
@@ -522,15 +475,8 @@ export class IdempotencyManager {
    * Check if any idempotency key is in a locked state for a specific resource
    * Used to prevent conflicts between different operations on the same resource
    */
-  isResourceLocked(resourceType: string, resourceId: string): boolean {
-    for (const record of this.records.values()) {
-      if (record.locked && 
-          record.resourceType === resourceType && 
-          record.resourceId === resourceId) {
-        return true;
-      }
-    }
-    return false;
+  async isResourceLocked(resourceType: string, resourceId: string): Promise<boolean> {
+    return this.store.hasLockedResource(resourceType, resourceId);
   }
 
   /**
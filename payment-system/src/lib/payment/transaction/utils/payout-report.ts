@@ -0,0 +1,274 @@
+// src/lib/payment/transaction/utils/payout-report.ts
+import { errorHandler, ErrorCode } from '../../utils/error';
+
+/**
+ * One balance movement included in a payout, e.g. a charge, refund or
+ * dispute. Amounts are in major units; debits such as refunds are negative.
+ */
+export interface PayoutLine {
+  payoutId: string;
+  // Provider ID of the charge, refund or dispute the line settles. Lines
+  // without a source (payout fees, adjustments) only count towards the total.
+  sourceId?: string;
+  category: string;
+  gross: number;
+  fee: number;
+  net: number;
+  currency: string;
+  createdAt?: Date;
+}
+
+export interface Payout {
+  id: string;
+  // Amount the provider paid out, when the report states it
+  amount?: number;
+  currency: string;
+  arrivalDate?: Date;
+  lines: PayoutLine[];
+}
+
+export type PayoutReportFormat = 'csv' | 'json';
+
+// Accepted column names, first match wins. Covers our own export format and
+// the itemized payout reconciliation report Stripe produces.
+const CSV_COLUMNS: Record<string, string[]> = {
+  payoutId: ['payout_id', 'automatic_payout_id'],
+  payoutAmount: ['payout_amount'],
+  arrivalDate: ['arrival_date', 'automatic_payout_effective_at'],
+  sourceId: ['source_id', 'payment_intent_id', 'charge_id'],
+  category: ['reporting_category', 'category', 'type'],
+  gross: ['gross', 'amount'],
+  fee: ['fee'],
+  net: ['net'],
+  currency: ['currency'],
+  createdAt: ['created', 'created_at']
+};
+
+/**
+ * Parses provider payout reports into payouts with their lines
+ */
+export class PayoutReportParser {
+  parse(content: string, format: PayoutReportFormat): Payout[] {
+    const payouts = format === 'csv' ? this.parseCsv(content) : this.parseJson(content);
+
+    if (payouts.length === 0) {
+      throw errorHandler.createError(
+        'Payout report contains no payouts',
+        ErrorCode.VALIDATION_ERROR,
+        { format }
+      );
+    }
+
+    return payouts;
+  }
+
+  private parseCsv(content: string): Payout[] {
+    const rows = this.splitCsv(content).filter(row => row.some(cell => cell.trim() !== ''));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const column = (field: string): number =>
+      CSV_COLUMNS[field].map(name => header.indexOf(name)).find(index => index >= 0) ?? -1;
+
+    const indexes: Record<string, number> = {};
+    for (const field of Object.keys(CSV_COLUMNS)) {
+      indexes[field] = column(field);
+    }
+
+    for (const required of ['payoutId', 'gross', 'currency']) {
+      if (indexes[required] < 0) {
+        throw errorHandler.createError(
+          `Payout report is missing a ${CSV_COLUMNS[required][0]} column`,
+          ErrorCode.VALIDATION_ERROR,
+          { header }
+        );
+      }
+    }
+
+    const payouts = new Map<string, Payout>();
+
+    rows.slice(1).forEach((row, index) => {
+      const value = (field: string): string | undefined => {
+        const cell = indexes[field] >= 0 ? row[indexes[field]] : undefined;
+        return cell !== undefined && cell.trim() !== '' ? cell.trim() : undefined;
+      };
+      const line = this.toLine({
+        payoutId: value('payoutId'),
+        sourceId: value('sourceId'),
+        category: value('category'),
+        gross: value('gross'),
+        fee: value('fee'),
+        net: value('net'),
+        currency: value('currency'),
+        createdAt: value('createdAt')
+      }, `row ${index + 2}`);
+
+      if (!payouts.has(line.payoutId)) {
+        const payoutAmount = value('payoutAmount');
+        const arrivalDate = value('arrivalDate');
+
+        payouts.set(line.payoutId, {
+          id: line.payoutId,
+          amount: payoutAmount !== undefined ? this.toNumber(payoutAmount, 'payout_amount', `row ${index + 2}`) : undefined,
+          currency: line.currency,
+          arrivalDate: arrivalDate ? this.toDate(arrivalDate) : undefined,
+          lines: []
+        });
+      }
+
+      payouts.get(line.payoutId)!.lines.push(line);
+    });
+
+    return Array.from(payouts.values());
+  }
+
+  private parseJson(content: string): Payout[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw errorHandler.createError(
+        'Payout report is not valid JSON',
+        ErrorCode.VALIDATION_ERROR,
+        { error: error.message }
+      );
+    }
+
+    const payouts: any[] = Array.isArray(parsed) ? parsed : parsed?.payouts;
+    if (!Array.isArray(payouts)) {
+      throw errorHandler.createError(
+        'Payout report must be an array of payouts or an object with a payouts array',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+
+    return payouts.map((payout, index) => {
+      const id = payout.id ?? payout.payoutId ?? payout.payout_id;
+      if (!id || !Array.isArray(payout.lines)) {
+        throw errorHandler.createError(
+          `Payout ${index} needs an id and a lines array`,
+          ErrorCode.VALIDATION_ERROR,
+          { index }
+        );
+      }
+
+      const lines = payout.lines.map((line: any, lineIndex: number) => this.toLine({
+        payoutId: id,
+        sourceId: line.sourceId ?? line.source_id,
+        category: line.category ?? line.reporting_category ?? line.type,
+        gross: line.gross ?? line.amount,
+        fee: line.fee,
+        net: line.net,
+        currency: line.currency ?? payout.currency,
+        createdAt: line.createdAt ?? line.created_at ?? line.created
+      }, `payout ${id} line ${lineIndex}`));
+
+      const arrivalDate = payout.arrivalDate ?? payout.arrival_date;
+
+      return {
+        id: String(id),
+        amount: payout.amount !== undefined ? this.toNumber(payout.amount, 'amount', `payout ${id}`) : undefined,
+        currency: String(payout.currency ?? lines[0]?.currency ?? '').toUpperCase(),
+        arrivalDate: arrivalDate !== undefined ? this.toDate(arrivalDate) : undefined,
+        lines
+      };
+    });
+  }
+
+  private toLine(raw: Record<string, any>, location: string): PayoutLine {
+    if (!raw.payoutId || raw.gross === undefined || !raw.currency) {
+      throw errorHandler.createError(
+        `Payout report ${location} needs a payout ID, gross amount and currency`,
+        ErrorCode.VALIDATION_ERROR,
+        { location }
+      );
+    }
+
+    const gross = this.toNumber(raw.gross, 'gross', location);
+    const fee = raw.fee !== undefined ? this.toNumber(raw.fee, 'fee', location) : 0;
+
+    return {
+      payoutId: String(raw.payoutId),
+      sourceId: raw.sourceId ? String(raw.sourceId) : undefined,
+      category: raw.category ? String(raw.category).toLowerCase() : 'charge',
+      gross,
+      fee,
+      // Providers report fees as a positive cost taken out of the gross
+      net: raw.net !== undefined ? this.toNumber(raw.net, 'net', location) : gross - fee,
+      currency: String(raw.currency).toUpperCase(),
+      createdAt: raw.createdAt !== undefined ? this.toDate(raw.createdAt) : undefined
+    };
+  }
+
+  private toNumber(value: any, field: string, location: string): number {
+    const number = typeof value === 'number' ? value : parseFloat(value);
+    if (isNaN(number)) {
+      throw errorHandler.createError(
+        `Invalid ${field} in payout report ${location}: ${value}`,
+        ErrorCode.VALIDATION_ERROR,
+        { field, location, value }
+      );
+    }
+
+    return number;
+  }
+
+  private toDate(value: any): Date {
+    // Stripe reports timestamps as Unix seconds
+    if (typeof value === 'number' || /^\d+$/.test(String(value))) {
+      return new Date(Number(value) * 1000);
+    }
+
+    return new Date(value);
+  }
+
+  /**
+   * Split CSV text into rows of cells, honouring quoted fields that contain
+   * commas, escaped quotes or line breaks
+   */
+  private splitCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+}
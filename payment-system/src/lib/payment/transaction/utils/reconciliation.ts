@@ -3,9 +3,10 @@ import { v4 as uuidv4 } from 'uuid';
 import { Transaction, TransactionStatus, TransactionType } from '../types';
 import { TransactionStore } from '../store/transaction.store';
 import { PaymentLogger } from '../../utils/logger';
-import { errorHandler, ErrorCode } from '../../utils/error';
+import { errorHandler, ErrorCode, PaymentError } from '../../utils/error';
 import { EventEmitter } from '../../events/event.emitter';
 import { AlertDetector } from '../../monitoring/alerts/detector';
+import { Payout, PayoutLine } from './payout-report';
 
 export interface ReconciliationResult {
   id: string;
@@ -25,7 +26,17 @@ export interface ReconciliationResult {
 
 export interface ReconciliationMismatch {
   transactionId: string;
-  type: 'status_mismatch' | 'amount_mismatch' | 'orphaned' | 'missing' | 'duplicate';
+  type:
+    | 'status_mismatch'
+    | 'amount_mismatch'
+    | 'orphaned'
+    | 'missing'
+    | 'duplicate'
+    // Payout-level discrepancies found by reconcilePayouts
+    | 'settlement_missing'
+    | 'settlement_extra'
+    | 'settlement_amount_mismatch'
+    | 'payout_total_mismatch';
   details: Record<string, any>;
   severity: 'low' | 'medium' | 'high' | 'critical';
   retryable: boolean;
@@ -46,6 +57,16 @@ export interface ReconciliationOptions {
   timezoneToleranceMs?: number; // For handling timezone discrepancies
 }
 
+export interface PayoutReconciliationOptions {
+  // Window of settled internal transactions expected in the payouts.
+  // Defaults to the creation times of the payout lines.
+  startDate?: Date;
+  endDate?: Date;
+  // Largest difference in major units still treated as equal
+  amountTolerance?: number;
+  alertOnMismatch?: boolean;
+}
+
 /**
  * TransactionReconciliator verifies consistency between the internal transaction store
  * and external payment systems, identifies discrepancies, and provides data for
@@ -260,6 +281,195 @@ export class TransactionReconciliator {
     }
   }
   
+  /**
+   * Reconcile provider payouts against settled internal transactions. Each
+   * payout line is matched by provider ID to the payment, refund or
+   * chargeback it settles; settled transactions no payout line accounts for
+   * are reported as missing.
+   */
+  async reconcilePayouts(
+    payouts: Payout[],
+    options: PayoutReconciliationOptions = {}
+  ): Promise<ReconciliationResult> {
+    const reconciliationId = uuidv4();
+    const { amountTolerance = 0.005, alertOnMismatch = true } = options;
+    const lines = payouts.reduce((all, payout) => all.concat(payout.lines), [] as PayoutLine[]);
+
+    this.logger.info(`Starting payout reconciliation #${reconciliationId}`, {
+      payouts: payouts.map(payout => payout.id),
+      lines: lines.length
+    });
+
+    try {
+      const { startDate, endDate } = this.getPayoutWindow(lines, options);
+
+      if (!this.transactionStore.queryAll) {
+        throw errorHandler.createError(
+          'Payout reconciliation requires a transaction store that implements queryAll',
+          ErrorCode.CONFIGURATION_ERROR
+        );
+      }
+
+      const settled = (await this.transactionStore.queryAll({ startDate, endDate }))
+        .filter(tx => this.isSettled(tx));
+      const index = this.indexByProviderId(settled);
+
+      const mismatches: ReconciliationMismatch[] = [];
+      const matchedTransactionIds = new Set<string>();
+      const seenSourceIds = new Set<string>();
+      let matchedLines = 0;
+
+      for (const line of lines) {
+        if (!line.sourceId) {
+          continue;
+        }
+
+        if (seenSourceIds.has(line.sourceId)) {
+          mismatches.push({
+            transactionId: line.sourceId,
+            type: 'duplicate',
+            details: { payoutId: line.payoutId, sourceId: line.sourceId, gross: line.gross },
+            severity: 'high',
+            retryable: false,
+            fixStrategy: 'contact_provider'
+          });
+          continue;
+        }
+        seenSourceIds.add(line.sourceId);
+
+        const transaction = index.get(line.sourceId);
+        if (!transaction) {
+          mismatches.push({
+            transactionId: line.sourceId,
+            type: 'settlement_extra',
+            details: {
+              payoutId: line.payoutId,
+              sourceId: line.sourceId,
+              category: line.category,
+              gross: line.gross,
+              net: line.net,
+              currency: line.currency
+            },
+            severity: 'high',
+            retryable: false,
+            fixStrategy: 'create_internal_record'
+          });
+          continue;
+        }
+
+        matchedTransactionIds.add(transaction.id);
+
+        const amountMismatch = this.compareSettlement(transaction, line, amountTolerance);
+        if (amountMismatch) {
+          mismatches.push(amountMismatch);
+        } else {
+          matchedLines++;
+        }
+      }
+
+      for (const transaction of settled) {
+        // Only transactions that went through the provider can be paid out
+        if (matchedTransactionIds.has(transaction.id) || this.getProviderIds(transaction).length === 0) {
+          continue;
+        }
+
+        mismatches.push({
+          transactionId: transaction.id,
+          type: 'settlement_missing',
+          details: {
+            internalType: transaction.type,
+            internalStatus: transaction.status,
+            internalAmount: this.getSettledAmount(transaction),
+            currency: transaction.currency,
+            providerIds: this.getProviderIds(transaction),
+            completedAt: transaction.completedAt || transaction.updatedAt
+          },
+          severity: 'medium',
+          // It may simply land in the next payout
+          retryable: true,
+          fixStrategy: 'check_next_payout'
+        });
+      }
+
+      for (const payout of payouts) {
+        if (payout.amount === undefined) {
+          continue;
+        }
+
+        const linesNet = payout.lines.reduce((sum, line) => sum + line.net, 0);
+        if (Math.abs(linesNet - payout.amount) > amountTolerance) {
+          mismatches.push({
+            transactionId: payout.id,
+            type: 'payout_total_mismatch',
+            details: {
+              payoutId: payout.id,
+              payoutAmount: payout.amount,
+              linesNet: Math.round(linesNet * 100) / 100,
+              difference: Math.round((payout.amount - linesNet) * 100) / 100,
+              currency: payout.currency
+            },
+            severity: 'critical',
+            retryable: false,
+            fixStrategy: 'contact_provider'
+          });
+        }
+      }
+
+      const count = (...types: ReconciliationMismatch['type'][]) =>
+        mismatches.filter(m => types.includes(m.type)).length;
+
+      const result: ReconciliationResult = {
+        id: reconciliationId,
+        timestamp: new Date(),
+        source: 'external',
+        transactionsChecked: lines.length,
+        mismatches,
+        summary: {
+          succeeded: matchedLines,
+          failed: 0,
+          inProgress: 0,
+          inconsistent: count('settlement_amount_mismatch', 'payout_total_mismatch', 'duplicate'),
+          orphaned: count('settlement_extra'),
+          missing: count('settlement_missing')
+        }
+      };
+
+      this.logger.info(`Completed payout reconciliation #${reconciliationId}`, {
+        linesChecked: lines.length,
+        mismatchCount: mismatches.length,
+        summary: result.summary
+      });
+
+      if (alertOnMismatch && this.alertDetector && mismatches.length > 0) {
+        this.generateAlertsForMismatches(mismatches, reconciliationId);
+      }
+
+      if (this.eventEmitter) {
+        await this.eventEmitter.emit('transaction.payout_reconciliation_completed', {
+          reconciliationId,
+          payoutIds: payouts.map(payout => payout.id),
+          timestamp: result.timestamp,
+          summary: result.summary
+        });
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Payout reconciliation #${reconciliationId} failed`, { error });
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw errorHandler.wrapError(
+        error,
+        'Payout reconciliation failed',
+        ErrorCode.RECONCILIATION_ERROR,
+        { reconciliationId }
+      );
+    }
+  }
+
   /**
    * Fetch internal transactions in batches for better memory management and performance
    */
@@ -582,9 +792,12 @@ export class TransactionReconciliator {
     const statusMapping: Record<TransactionStatus, string[]> = {
       [TransactionStatus.PENDING]: ['pending', 'initiated', 'processing'],
       [TransactionStatus.PROCESSING]: ['processing', 'in_progress', 'pending'],
+      [TransactionStatus.AUTHORIZED]: ['authorized', 'requires_capture'],
+      [TransactionStatus.PARTIALLY_CAPTURED]: ['partially_captured', 'succeeded', 'settled'],
       [TransactionStatus.COMPLETED]: ['completed', 'succeeded', 'settled'],
       [TransactionStatus.FAILED]: ['failed', 'declined', 'error'],
       [TransactionStatus.ROLLED_BACK]: ['voided', 'reversed', 'cancelled', 'refunded'],
+      [TransactionStatus.VOIDED]: ['voided', 'canceled', 'cancelled'],
       [TransactionStatus.RECOVERY_PENDING]: ['pending', 'processing', 'recovery'],
       [TransactionStatus.RECOVERY_IN_PROGRESS]: ['processing', 'in_progress', 'recovery']
     };
@@ -779,6 +992,120 @@ export class TransactionReconciliator {
     return 'retry_status_check';
   }
   
+  /**
+   * Work out which settled transactions the payouts should cover
+   */
+  private getPayoutWindow(
+    lines: PayoutLine[],
+    options: PayoutReconciliationOptions
+  ): { startDate: Date; endDate: Date } {
+    if (options.startDate && options.endDate) {
+      return { startDate: options.startDate, endDate: options.endDate };
+    }
+
+    const times = lines
+      .filter(line => line.createdAt)
+      .map(line => line.createdAt!.getTime());
+
+    if (times.length === 0) {
+      throw errorHandler.createError(
+        'Payout lines carry no creation times; pass startDate and endDate',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+
+    return {
+      startDate: options.startDate || new Date(Math.min(...times) - this.defaultTimezoneTolerance),
+      endDate: options.endDate || new Date(Math.max(...times) + this.defaultTimezoneTolerance)
+    };
+  }
+
+  /**
+   * Check whether money for a transaction has actually moved
+   */
+  private isSettled(tx: Transaction): boolean {
+    return tx.status === TransactionStatus.COMPLETED ||
+      (tx.type === TransactionType.PAYMENT && tx.status === TransactionStatus.PARTIALLY_CAPTURED);
+  }
+
+  /**
+   * Provider IDs a payout line may use to refer to a transaction
+   */
+  private getProviderIds(tx: Transaction): string[] {
+    const metadata = tx.metadata || {};
+    const ids = tx.type === TransactionType.PAYMENT
+      ? [metadata.providerTransactionId, metadata.providerChargeId]
+      : tx.type === TransactionType.REFUND
+        ? [metadata.providerRefundId]
+        // The disputed charge ID also belongs to the payment, so only the
+        // dispute ID identifies a chargeback
+        : [metadata.providerDisputeId];
+
+    return ids.filter(id => typeof id === 'string' && id.length > 0);
+  }
+
+  private indexByProviderId(transactions: Transaction[]): Map<string, Transaction> {
+    const index = new Map<string, Transaction>();
+
+    for (const tx of transactions) {
+      for (const id of this.getProviderIds(tx)) {
+        index.set(id, tx);
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Amount that actually settled, in the transaction currency
+   */
+  private getSettledAmount(tx: Transaction): number {
+    return tx.type === TransactionType.PAYMENT
+      ? tx.metadata?.capturedAmount ?? tx.amount
+      : tx.amount;
+  }
+
+  /**
+   * Compare a payout line with the transaction it settles
+   */
+  private compareSettlement(
+    tx: Transaction,
+    line: PayoutLine,
+    amountTolerance: number
+  ): ReconciliationMismatch | null {
+    // Prefer the provider's own figures when we recorded them
+    const expectedGross = tx.fees?.grossAmount ?? this.getSettledAmount(tx);
+    const expectedCurrency = (tx.fees?.currency ?? tx.currency).toUpperCase();
+
+    // Refunds and chargebacks are paid out as negative lines
+    const grossMatches = Math.abs(Math.abs(line.gross) - expectedGross) <= amountTolerance;
+    const feeMatches = !tx.fees || Math.abs(Math.abs(line.fee) - tx.fees.feeAmount) <= amountTolerance;
+    const currencyMatches = line.currency === expectedCurrency;
+
+    if (grossMatches && feeMatches && currencyMatches) {
+      return null;
+    }
+
+    return {
+      transactionId: tx.id,
+      type: 'settlement_amount_mismatch',
+      details: {
+        payoutId: line.payoutId,
+        sourceId: line.sourceId,
+        internalType: tx.type,
+        expectedGross,
+        reportedGross: line.gross,
+        expectedFee: tx.fees?.feeAmount,
+        reportedFee: line.fee,
+        expectedCurrency,
+        reportedCurrency: line.currency
+      },
+      severity: currencyMatches ? this.getAmountMismatchSeverity(expectedGross, Math.abs(line.gross), 0) : 'critical',
+      retryable: false,
+      fixStrategy: 'manual_review'
+    };
+  }
+
   /**
    * Create summary statistics for the reconciliation
    */
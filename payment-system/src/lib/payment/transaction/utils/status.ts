@@ -0,0 +1,146 @@
+// src/lib/payment/transaction/utils/status.ts
+import { TransactionStatus, TransactionType } from '../../types/transaction.types';
+import { errorHandler, ErrorCode } from '../../utils/error';
+
+type TransitionTable = Partial<Record<TransactionStatus, TransactionStatus[]>>;
+
+// Statuses a transaction may move to from each status, per transaction type.
+// A status missing from a table is one that type never reaches or never
+// leaves.
+const TRANSACTION_TRANSITIONS: Record<TransactionType, TransitionTable> = {
+  [TransactionType.PAYMENT]: {
+    [TransactionStatus.PENDING]: [
+      TransactionStatus.PROCESSING,
+      TransactionStatus.AUTHORIZED,
+      TransactionStatus.COMPLETED,
+      TransactionStatus.FAILED,
+      TransactionStatus.RECOVERY_PENDING
+    ],
+    [TransactionStatus.PROCESSING]: [
+      TransactionStatus.AUTHORIZED,
+      TransactionStatus.COMPLETED,
+      TransactionStatus.FAILED,
+      TransactionStatus.RECOVERY_PENDING
+    ],
+    [TransactionStatus.AUTHORIZED]: [
+      TransactionStatus.PARTIALLY_CAPTURED,
+      TransactionStatus.COMPLETED,
+      TransactionStatus.VOIDED,
+      TransactionStatus.FAILED
+    ],
+    [TransactionStatus.PARTIALLY_CAPTURED]: [
+      TransactionStatus.ROLLED_BACK
+    ],
+    [TransactionStatus.COMPLETED]: [
+      TransactionStatus.ROLLED_BACK
+    ],
+    [TransactionStatus.FAILED]: [
+      TransactionStatus.RECOVERY_PENDING
+    ],
+    [TransactionStatus.RECOVERY_PENDING]: [
+      TransactionStatus.PROCESSING,
+      TransactionStatus.RECOVERY_IN_PROGRESS,
+      TransactionStatus.FAILED
+    ],
+    [TransactionStatus.RECOVERY_IN_PROGRESS]: [
+      TransactionStatus.COMPLETED,
+      TransactionStatus.FAILED,
+      TransactionStatus.RECOVERY_PENDING
+    ]
+  },
+  // Refunds are sent to the provider once and settle either way
+  [TransactionType.REFUND]: {
+    [TransactionStatus.PENDING]: [
+      TransactionStatus.PROCESSING,
+      TransactionStatus.FAILED
+    ],
+    [TransactionStatus.PROCESSING]: [
+      TransactionStatus.COMPLETED,
+      TransactionStatus.FAILED
+    ]
+  },
+  // A chargeback completes when the dispute is lost and fails when it is won
+  [TransactionType.CHARGEBACK]: {
+    [TransactionStatus.PENDING]: [
+      TransactionStatus.PROCESSING
+    ],
+    [TransactionStatus.PROCESSING]: [
+      TransactionStatus.COMPLETED,
+      TransactionStatus.FAILED
+    ]
+  }
+};
+
+// How far along its lifecycle a transaction in each status is. Recovery
+// statuses sit with PROCESSING since the payment is being attempted again.
+const STATUS_STAGE: Record<TransactionStatus, number> = {
+  [TransactionStatus.PENDING]: 0,
+  [TransactionStatus.PROCESSING]: 1,
+  [TransactionStatus.RECOVERY_PENDING]: 1,
+  [TransactionStatus.RECOVERY_IN_PROGRESS]: 1,
+  [TransactionStatus.AUTHORIZED]: 2,
+  [TransactionStatus.PARTIALLY_CAPTURED]: 3,
+  [TransactionStatus.COMPLETED]: 4,
+  [TransactionStatus.FAILED]: 4,
+  [TransactionStatus.VOIDED]: 4,
+  [TransactionStatus.ROLLED_BACK]: 5
+};
+
+/**
+ * Statuses a transaction of the given type may move to from `from`
+ */
+export function getAllowedTransitions(
+  type: TransactionType,
+  from: TransactionStatus
+): TransactionStatus[] {
+  const table = TRANSACTION_TRANSITIONS[type] || {};
+  return [...(table[from] || [])];
+}
+
+/**
+ * Whether a transaction of the given type may move from `from` to `to`.
+ * Keeping the same status is always allowed, so metadata can be updated
+ * on its own.
+ */
+export function isValidTransition(
+  type: TransactionType,
+  from: TransactionStatus,
+  to: TransactionStatus
+): boolean {
+  return from === to || getAllowedTransitions(type, from).includes(to);
+}
+
+/**
+ * @throws PaymentError with TRANSACTION_INVALID_STATE when the move is not
+ * allowed for the transaction type
+ */
+export function assertValidTransition(
+  type: TransactionType,
+  from: TransactionStatus,
+  to: TransactionStatus
+): void {
+  if (!isValidTransition(type, from, to)) {
+    throw errorHandler.createError(
+      `Invalid ${type} transaction state transition from ${from} to ${to}`,
+      ErrorCode.TRANSACTION_INVALID_STATE,
+      {
+        transactionType: type,
+        currentState: from,
+        newState: to,
+        allowedStates: getAllowedTransitions(type, from)
+      }
+    );
+  }
+}
+
+export function getStatusStage(status: TransactionStatus): number {
+  return STATUS_STAGE[status];
+}
+
+/**
+ * Whether moving from `current` to `next` would take the transaction back
+ * to an earlier stage, e.g. PROCESSING after COMPLETED
+ */
+export function isStatusRegression(current: TransactionStatus, next: TransactionStatus): boolean {
+  return getStatusStage(next) < getStatusStage(current);
+}
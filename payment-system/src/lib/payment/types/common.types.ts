@@ -5,7 +5,9 @@ import {
   Transaction, 
   TransactionType, 
   TransactionStatus, 
-  TransactionError 
+  TransactionError,
+  FeeBreakdown,
+  FeeDetail
 } from './transaction.types';
 
 // Re-export transaction types from central file
@@ -13,7 +15,9 @@ export {
   Transaction, 
   TransactionType, 
   TransactionStatus, 
-  TransactionError 
+  TransactionError,
+  FeeBreakdown,
+  FeeDetail
 };
 
 // Define other common types that aren't transaction-specific
@@ -40,7 +44,11 @@ export interface PaymentMethod {
 export interface PaymentResult {
   success: boolean;
   transactionId?: string;
+  // ID the service logged the request under, for tracing a result back
+  requestId?: string;
   error?: PaymentError;
+  // Set when the provider has reported what it charged for the payment
+  fees?: FeeBreakdown;
   metadata?: Record<string, any>;
 }
 
@@ -12,10 +12,24 @@ export interface PaymentProviderInterface {
   initialize(config: ProviderConfig): Promise<void>;
   createPayment(data: CreatePaymentInput): Promise<PaymentResult>;
   confirmPayment(paymentId: string): Promise<PaymentResult>;
+  authorizePayment(data: CreatePaymentInput): Promise<PaymentResult>;
+  capturePayment(paymentId: string, data?: CapturePaymentInput): Promise<PaymentResult>;
+  voidPayment(paymentId: string, reason?: string): Promise<PaymentResult>;
+  refundPayment(paymentId: string, data?: RefundPaymentInput): Promise<PaymentResult>;
   getPaymentMethods(customerId: string): Promise<PaymentMethod[]>;
   addPaymentMethod(customerId: string, data: AddPaymentMethodInput): Promise<PaymentMethod>;
   removePaymentMethod(methodId: string): Promise<void>;
   verifyWebhookSignature?(payload: string, signature: string): Promise<boolean>;
+  submitDisputeEvidence?(disputeId: string, data: SubmitDisputeEvidenceInput): Promise<PaymentResult>;
+  // Used by the recovery strategies; resolves to null when the provider has no record of the reference
+  getTransactionStatus?(reference: string): Promise<ProviderTransactionStatus | null>;
+}
+
+export interface ProviderTransactionStatus {
+  status: string;
+  // The provider's own ID for the payment
+  reference: string;
+  error?: { code: string; message: string };
 }
 
 export interface CreatePaymentInput {
@@ -25,6 +39,26 @@ export interface CreatePaymentInput {
   metadata?: Record<string, any>;
 }
 
+export interface CapturePaymentInput {
+  // Amount to capture, in major currency units. Omit to capture the full authorization.
+  amount?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface RefundPaymentInput {
+  // Amount to refund, in major currency units. Omit to refund the remaining captured amount.
+  amount?: number;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface SubmitDisputeEvidenceInput {
+  evidence: Record<string, string>;
+  // Submit immediately; otherwise the evidence is staged and can still be edited
+  submit: boolean;
+  metadata?: Record<string, any>;
+}
+
 export interface AddPaymentMethodInput {
   type: 'card' | 'bank_account' | 'digital_wallet';
   details: Record<string, any>;
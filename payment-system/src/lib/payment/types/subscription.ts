@@ -1,19 +1,78 @@
+export type BillingInterval = 'monthly' | 'yearly';
+
+export type SubscriptionStatus = 'active' | 'canceled' | 'expired' | 'trial' | 'past_due' | 'paused' | 'unpaid';
+
 export interface SubscriptionPlan {
+  id: string;
   name: string;
   price: number;
-  interval: 'monthly' | 'yearly';
+  currency: string;
+  interval: BillingInterval;
+  trialDays?: number;
+  active: boolean;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Subscription {
   id: string;
-  status: 'active' | 'canceled' | 'expired' | 'trial';
+  status: SubscriptionStatus;
   plan: SubscriptionPlan;
   customerId: string;
+  customerEmail: string;
+  paymentMethodId: string;
   currentPeriodStart: Date;
   currentPeriodEnd: Date;
   cancelAtPeriodEnd?: boolean;
+  canceledAt?: Date;
   trialEnd?: Date;
+  // Downgrades take effect at the next renewal
+  scheduledPlan?: SubscriptionPlan;
+  lastPaymentTransactionId?: string;
+  // Unused credit from plan changes, applied to the next charges
+  creditBalance?: number;
+  // Set while a failed renewal is being retried
+  dunning?: DunningState;
   metadata?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface DunningState {
+  startedAt: Date;
+  // Retries made so far
+  attempt: number;
+  nextAttemptAt?: Date;
+  lastErrorCode?: string;
+  // Set once every retry has failed and the final action was applied
+  exhaustedAt?: Date;
+  finalAction?: 'cancel' | 'pause' | 'mark_unpaid';
+}
+
+export interface ProrationLine {
+  type: 'credit' | 'debit';
+  description: string;
+  planId?: string;
+  // Always positive; the line type gives the direction
+  amount: number;
+  periodStart?: Date;
+  periodEnd?: Date;
+}
+
+export interface ProrationResult {
+  subscriptionId: string;
+  fromPlanId: string;
+  toPlanId: string;
+  currency: string;
+  prorationDate: Date;
+  lines: ProrationLine[];
+  totalCredit: number;
+  totalDebit: number;
+  // Charged now when positive
+  amountDue: number;
+  // Credit left on the subscription after the change
+  creditBalance: number;
+  newPeriodStart: Date;
+  newPeriodEnd: Date;
+}
@@ -4,9 +4,12 @@
 export enum TransactionStatus {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
+  AUTHORIZED = 'AUTHORIZED',
+  PARTIALLY_CAPTURED = 'PARTIALLY_CAPTURED',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
   ROLLED_BACK = 'ROLLED_BACK',
+  VOIDED = 'VOIDED',
   RECOVERY_PENDING = 'RECOVERY_PENDING',
   RECOVERY_IN_PROGRESS = 'RECOVERY_IN_PROGRESS'
 }
@@ -34,6 +37,7 @@ export interface Transaction {
   customerId: string;
   paymentMethodId: string;
   idempotencyKey: string;
+  parentTransactionId?: string;
   metadata?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
@@ -41,6 +45,42 @@ export interface Transaction {
   failedAt?: Date;
   retryCount: number;
   error?: TransactionError;
+  fees?: FeeBreakdown;
+  // Name of the provider that processed the transaction. Follow-up calls
+  // (confirm, capture, refund, recovery) must go to the same provider.
+  provider?: string;
+}
+
+// A status change recorded in the transaction's status history
+export interface TransactionStatusChange {
+  id: string;
+  transactionId: string;
+  fromStatus: TransactionStatus;
+  toStatus: TransactionStatus;
+  // User ID for manual changes, otherwise the component that made the change
+  actor: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+export interface FeeDetail {
+  // Provider fee category, e.g. stripe_fee or application_fee
+  type: string;
+  description?: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * What the provider charged for a transaction. Amounts are in major units of
+ * the settlement currency, which may differ from the charge currency.
+ */
+export interface FeeBreakdown {
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number;
+  currency: string;
+  details: FeeDetail[];
 }
 
 // Export additional transaction-related types below as needed
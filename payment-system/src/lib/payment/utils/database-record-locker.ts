@@ -0,0 +1,574 @@
+// src/lib/payment/utils/database-record-locker.ts
+import { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { RecordLocker, RecordLock, LockLevel, LockOptions, LockGraph } from './record-locker';
+import { errorHandler, ErrorCode, PaymentError } from './error';
+import { EventEmitter } from '../events/event.emitter';
+
+/**
+ * RecordLocker backed by the record_locks table, so every API instance
+ * sharing the database sees the same locks.
+ *
+ * Grants are serialised per record with a transaction-scoped advisory lock
+ * and expire unless renewed. Each grant carries a fencing token from a
+ * database sequence, reported with lock.acquired and by getFencingToken.
+ * Nothing here compares tokens on write, so a holder must stop writing once
+ * lock.lost is emitted for its lock.
+ *
+ * Waiters poll instead of queueing, so there is no wait-for graph and no
+ * deadlock detection across instances; waitTimeoutMs bounds the wait.
+ */
+export class DatabaseRecordLocker extends RecordLocker {
+  // Locks granted to this instance, by lock ID
+  private heldLocks: Map<string, RecordLock> = new Map();
+  private leaseTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private waitingRequests: number = 0;
+
+  constructor(
+    private dbPool: Pool,
+    options: {
+      defaultExpirationMs?: number;
+      instanceId?: string;
+      eventEmitter?: EventEmitter;
+    } = {}
+  ) {
+    super(options);
+  }
+
+  async acquireLock(
+    recordId: string,
+    resourceType: string,
+    options: LockOptions = {}
+  ): Promise<string> {
+    const {
+      expirationMs = this.defaultExpirationMs,
+      waitTimeoutMs = 5000,
+      retryIntervalMs = 100,
+      transactionId,
+      lockLevel = LockLevel.EXCLUSIVE,
+      metadata = {}
+    } = options;
+
+    const deadline = Date.now() + waitTimeoutMs;
+    let waiting = false;
+
+    try {
+      while (true) {
+        const lock = await this.tryAcquire(recordId, resourceType, lockLevel, expirationMs, transactionId, metadata);
+        if (lock) {
+          this.trackLock(lock, expirationMs);
+
+          this.logger.debug(`Acquired ${lockLevel} lock on ${resourceType}:${recordId}`, {
+            lockId: lock.lockId,
+            transactionId,
+            fencingToken: lock.fencingToken
+          });
+
+          // Emit lock acquired event
+          if (this.eventEmitter) {
+            this.eventEmitter.emit('lock.acquired', {
+              recordId,
+              resourceType,
+              lockId: lock.lockId,
+              lockLevel,
+              owner: this.instanceId,
+              transactionId,
+              fencingToken: lock.fencingToken
+            }).catch(error => {
+              this.logger.error('Failed to emit lock acquired event', { error });
+            });
+          }
+
+          return lock.lockId;
+        }
+
+        if (waitTimeoutMs <= 0) {
+          throw errorHandler.createError(
+            `Failed to acquire ${lockLevel} lock on ${resourceType}:${recordId} (no wait requested)`,
+            ErrorCode.LOCK_ACQUISITION_FAILED,
+            { recordId, resourceType, lockLevel }
+          );
+        }
+
+        if (Date.now() + retryIntervalMs > deadline) {
+          throw errorHandler.createError(
+            `Timeout waiting to acquire ${lockLevel} lock on ${resourceType}:${recordId}`,
+            ErrorCode.LOCK_TIMEOUT,
+            { recordId, resourceType, waitTimeoutMs, lockLevel }
+          );
+        }
+
+        if (!waiting) {
+          waiting = true;
+          this.waitingRequests++;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, retryIntervalMs));
+      }
+    } finally {
+      if (waiting) {
+        this.waitingRequests--;
+      }
+    }
+  }
+
+  async releaseLock(
+    recordId: string,
+    resourceType: string,
+    lockId?: string
+  ): Promise<boolean> {
+    const result = await this.query(
+      `DELETE FROM record_locks
+       WHERE resource_type = $1 AND record_id = $2 AND owner = $3
+         AND ($4::uuid IS NULL OR lock_id = $4)
+       RETURNING *`,
+      [resourceType, recordId, this.instanceId, lockId || null],
+      'Failed to release record lock'
+    );
+
+    if (result.rows.length === 0) {
+      this.logger.warn(`Attempted to release non-existent lock on ${resourceType}:${recordId}`);
+      return false;
+    }
+
+    for (const row of result.rows) {
+      const lock = this.forgetLock(row);
+
+      this.logger.debug(`Released ${lock.lockLevel} lock on ${resourceType}:${recordId}`, {
+        lockId: lock.lockId,
+        transactionId: lock.ownerTransaction
+      });
+
+      // Emit lock released event
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('lock.released', {
+          recordId,
+          resourceType,
+          lockId: lock.lockId,
+          lockLevel: lock.lockLevel,
+          owner: this.instanceId,
+          transactionId: lock.ownerTransaction
+        }).catch(error => {
+          this.logger.error('Failed to emit lock released event', { error });
+        });
+      }
+    }
+
+    return true;
+  }
+
+  async releaseTransactionLocks(transactionId: string): Promise<number> {
+    const result = await this.query(
+      `DELETE FROM record_locks
+       WHERE owner_transaction = $1 AND owner = $2
+       RETURNING *`,
+      [transactionId, this.instanceId],
+      'Failed to release transaction locks'
+    );
+
+    for (const row of result.rows) {
+      const lock = this.forgetLock(row);
+
+      this.logger.debug(`Released transaction lock on ${lock.resourceType}:${lock.recordId}`, {
+        lockId: lock.lockId,
+        transactionId
+      });
+
+      // Emit lock released event
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('lock.transaction_released', {
+          recordId: lock.recordId,
+          resourceType: lock.resourceType,
+          lockId: lock.lockId,
+          lockLevel: lock.lockLevel,
+          transactionId
+        }).catch(error => {
+          this.logger.error('Failed to emit transaction lock released event', { error });
+        });
+      }
+    }
+
+    this.logger.info(`Released ${result.rows.length} locks for transaction ${transactionId}`);
+    return result.rows.length;
+  }
+
+  /**
+   * Upgrade a shared lock to an exclusive lock. The upgraded lock gets a new
+   * fencing token, since writes under it must win over earlier readers.
+   */
+  async upgradeLock(
+    recordId: string,
+    resourceType: string,
+    lockId: string,
+    options: Omit<LockOptions, 'lockLevel'> = {}
+  ): Promise<string> {
+    const { expirationMs = this.defaultExpirationMs } = options;
+
+    const row = await this.inRecordTransaction(recordId, resourceType, 'Failed to upgrade record lock', async client => {
+      const locks = await client.query(
+        `SELECT * FROM record_locks
+         WHERE resource_type = $1 AND record_id = $2 AND expires_at >= NOW()`,
+        [resourceType, recordId]
+      );
+
+      if (locks.rows.length === 0) {
+        throw errorHandler.createError(
+          `Cannot upgrade non-existent lock on ${resourceType}:${recordId}`,
+          ErrorCode.LOCK_NOT_FOUND,
+          { recordId, resourceType, lockId }
+        );
+      }
+
+      const own = locks.rows.find(lock =>
+        lock.owner === this.instanceId &&
+        lock.lock_id === lockId &&
+        lock.lock_level === LockLevel.SHARED
+      );
+
+      if (!own) {
+        throw errorHandler.createError(
+          `Cannot find shared lock to upgrade on ${resourceType}:${recordId}`,
+          ErrorCode.LOCK_NOT_FOUND,
+          { recordId, resourceType, lockId }
+        );
+      }
+
+      // Check if upgrade is possible (no other locks should exist)
+      if (locks.rows.length > 1) {
+        throw errorHandler.createError(
+          `Cannot upgrade lock due to other concurrent locks on ${resourceType}:${recordId}`,
+          ErrorCode.LOCK_UPGRADE_FAILED,
+          { recordId, resourceType, lockId, existingLocks: locks.rows.length }
+        );
+      }
+
+      const result = await client.query(
+        `UPDATE record_locks SET
+           lock_level = $2,
+           last_renewed = NOW(),
+           expires_at = NOW() + $3 * INTERVAL '1 millisecond',
+           fencing_token = nextval('record_lock_fencing_seq')
+         WHERE lock_id = $1
+         RETURNING *`,
+        [lockId, LockLevel.EXCLUSIVE, expirationMs]
+      );
+
+      return result.rows[0];
+    });
+
+    this.trackLock(this.mapRowToLock(row), expirationMs);
+
+    this.logger.info(`Upgraded lock on ${resourceType}:${recordId} from SHARED to EXCLUSIVE`, {
+      lockId,
+      transactionId: row.owner_transaction
+    });
+
+    // Emit lock upgraded event
+    if (this.eventEmitter) {
+      this.eventEmitter.emit('lock.upgraded', {
+        recordId,
+        resourceType,
+        lockId,
+        owner: this.instanceId,
+        transactionId: row.owner_transaction || undefined
+      }).catch(error => {
+        this.logger.error('Failed to emit lock upgraded event', { error });
+      });
+    }
+
+    return lockId;
+  }
+
+  /**
+   * Waiters are not queued, so there is no graph to build
+   */
+  getLockGraph(): LockGraph {
+    throw errorHandler.createError(
+      'The database record locker does not track waiting requests, so it has no lock graph',
+      ErrorCode.CONFIGURATION_ERROR,
+      { instanceId: this.instanceId }
+    );
+  }
+
+  /**
+   * Fencing token of a lock held by this instance
+   */
+  getFencingToken(lockId: string): number | undefined {
+    const lock = this.heldLocks.get(lockId);
+    return lock ? lock.fencingToken : undefined;
+  }
+
+  /**
+   * Only locks held by this instance can be checked without a query
+   */
+  isLocked(
+    recordId: string,
+    resourceType: string,
+    lockLevel: LockLevel = LockLevel.EXCLUSIVE
+  ): boolean {
+    const now = new Date();
+
+    return this.getHeldLocks(recordId, resourceType).some(lock =>
+      now <= lock.expiresAt &&
+      (lockLevel === LockLevel.EXCLUSIVE || lock.lockLevel === LockLevel.EXCLUSIVE)
+    );
+  }
+
+  getLockInfo(
+    recordId: string,
+    resourceType: string
+  ): Array<Omit<RecordLock, 'lockId'>> {
+    return this.getHeldLocks(recordId, resourceType).map(lock => {
+      const { lockId, ...lockInfo } = lock;
+      return lockInfo;
+    });
+  }
+
+  getMetrics(): ReturnType<RecordLocker['getMetrics']> {
+    const soon = new Date(Date.now() + 10000); // 10 seconds from now
+    const locks = Array.from(this.heldLocks.values());
+    const locksByResourceType: Record<string, number> = {};
+
+    for (const lock of locks) {
+      locksByResourceType[lock.resourceType] = (locksByResourceType[lock.resourceType] || 0) + 1;
+    }
+
+    const sharedLocks = locks.filter(lock => lock.lockLevel === LockLevel.SHARED).length;
+
+    return {
+      totalLocks: locks.length,
+      sharedLocks,
+      exclusiveLocks: locks.length - sharedLocks,
+      waitingRequests: this.waitingRequests,
+      transactions: new Set(locks.filter(lock => lock.ownerTransaction).map(lock => lock.ownerTransaction)).size,
+      expiringWithin10Seconds: locks.filter(lock => lock.expiresAt <= soon).length,
+      locksByResourceType
+    };
+  }
+
+  /**
+   * Stop renewing leases on shutdown. Leases still held expire on their own.
+   */
+  dispose(): void {
+    for (const timer of this.leaseTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.leaseTimers.clear();
+    this.heldLocks.clear();
+
+    super.dispose();
+  }
+
+  /**
+   * Grant the lock if it is compatible with the live locks on the record.
+   * Expired locks are removed first, which is what hands a record over
+   * from a holder that stopped renewing.
+   */
+  private async tryAcquire(
+    recordId: string,
+    resourceType: string,
+    lockLevel: LockLevel,
+    expirationMs: number,
+    transactionId: string | undefined,
+    metadata: Record<string, any>
+  ): Promise<RecordLock | null> {
+    const row = await this.inRecordTransaction(recordId, resourceType, 'Failed to acquire record lock', async client => {
+      await client.query(
+        `DELETE FROM record_locks
+         WHERE resource_type = $1 AND record_id = $2 AND expires_at < NOW()`,
+        [resourceType, recordId]
+      );
+
+      const existing = await client.query(
+        'SELECT lock_level FROM record_locks WHERE resource_type = $1 AND record_id = $2',
+        [resourceType, recordId]
+      );
+
+      // Multiple shared locks can coexist; an exclusive lock coexists with none
+      const compatible = existing.rows.length === 0 || (
+        lockLevel === LockLevel.SHARED &&
+        existing.rows.every(lock => lock.lock_level === LockLevel.SHARED)
+      );
+
+      if (!compatible) {
+        return null;
+      }
+
+      const result = await client.query(
+        `INSERT INTO record_locks (
+           lock_id, resource_type, record_id, lock_level, owner, owner_transaction,
+           metadata, acquired_at, expires_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW() + $8 * INTERVAL '1 millisecond')
+         RETURNING *`,
+        [
+          uuidv4(),
+          resourceType,
+          recordId,
+          lockLevel,
+          this.instanceId,
+          transactionId || null,
+          JSON.stringify(metadata),
+          expirationMs
+        ]
+      );
+
+      return result.rows[0];
+    });
+
+    return row ? this.mapRowToLock(row) : null;
+  }
+
+  /**
+   * Run the callback in a transaction holding the advisory lock for the
+   * record, so grants on the same record never interleave
+   */
+  private async inRecordTransaction<T>(
+    recordId: string,
+    resourceType: string,
+    errorMessage: string,
+    callback: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.dbPool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${resourceType}:${recordId}`]);
+
+      const result = await callback(client);
+
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      this.logger.error(errorMessage, { error, recordId, resourceType });
+
+      throw errorHandler.wrapError(
+        error,
+        errorMessage,
+        ErrorCode.DATABASE_ERROR,
+        { recordId, resourceType }
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  private async query(sql: string, params: any[], errorMessage: string): Promise<{ rows: any[] }> {
+    try {
+      return await this.dbPool.query(sql, params);
+    } catch (error) {
+      this.logger.error(errorMessage, { error });
+
+      throw errorHandler.wrapError(
+        error,
+        errorMessage,
+        ErrorCode.DATABASE_ERROR
+      );
+    }
+  }
+
+  private trackLock(lock: RecordLock, expirationMs: number): void {
+    this.heldLocks.set(lock.lockId, lock);
+    this.scheduleRenewal(lock.lockId, expirationMs);
+  }
+
+  private forgetLock(row: any): RecordLock {
+    const timer = this.leaseTimers.get(row.lock_id);
+    if (timer) {
+      clearTimeout(timer);
+      this.leaseTimers.delete(row.lock_id);
+    }
+
+    this.heldLocks.delete(row.lock_id);
+    return this.mapRowToLock(row);
+  }
+
+  /**
+   * Renew the lease at half the expiration time to ensure we renew before expiry
+   */
+  private scheduleRenewal(lockId: string, expirationMs: number): void {
+    const existingTimer = this.leaseTimers.get(lockId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const timer = setTimeout(() => {
+      this.renewLease(lockId, expirationMs).catch(error => {
+        this.logger.error('Failed to renew record lock', { error, lockId });
+      });
+    }, Math.floor(expirationMs / 2));
+
+    this.leaseTimers.set(lockId, timer);
+  }
+
+  private async renewLease(lockId: string, expirationMs: number): Promise<void> {
+    const lock = this.heldLocks.get(lockId);
+    if (!lock) return;
+
+    const result = await this.dbPool.query(
+      `UPDATE record_locks SET
+         last_renewed = NOW(),
+         expires_at = NOW() + $3 * INTERVAL '1 millisecond'
+       WHERE lock_id = $1 AND owner = $2
+       RETURNING *`,
+      [lockId, this.instanceId, expirationMs]
+    );
+
+    if (result.rows.length === 0) {
+      // The lease ran out and another instance may now hold the record
+      this.leaseTimers.delete(lockId);
+      this.heldLocks.delete(lockId);
+
+      this.logger.warn(`Lost ${lock.lockLevel} lock on ${lock.resourceType}:${lock.recordId}`, {
+        lockId,
+        transactionId: lock.ownerTransaction,
+        fencingToken: lock.fencingToken
+      });
+
+      if (this.eventEmitter) {
+        this.eventEmitter.emit('lock.lost', {
+          recordId: lock.recordId,
+          resourceType: lock.resourceType,
+          lockId,
+          lockLevel: lock.lockLevel,
+          owner: this.instanceId,
+          transactionId: lock.ownerTransaction,
+          fencingToken: lock.fencingToken
+        }).catch(error => {
+          this.logger.error('Failed to emit lock lost event', { error });
+        });
+      }
+      return;
+    }
+
+    this.heldLocks.set(lockId, this.mapRowToLock(result.rows[0]));
+    this.scheduleRenewal(lockId, expirationMs);
+  }
+
+  private getHeldLocks(recordId: string, resourceType: string): RecordLock[] {
+    return Array.from(this.heldLocks.values())
+      .filter(lock => lock.recordId === recordId && lock.resourceType === resourceType);
+  }
+
+  private mapRowToLock(row: any): RecordLock {
+    return {
+      recordId: row.record_id,
+      resourceType: row.resource_type,
+      lockLevel: row.lock_level as LockLevel,
+      acquiredAt: new Date(row.acquired_at),
+      expiresAt: new Date(row.expires_at),
+      owner: row.owner,
+      lastRenewed: row.last_renewed ? new Date(row.last_renewed) : undefined,
+      lockId: row.lock_id,
+      ownerTransaction: row.owner_transaction || undefined,
+      metadata: row.metadata || undefined,
+      // BIGINT comes back from pg as a string
+      fencingToken: parseInt(row.fencing_token, 10)
+    };
+  }
+}
@@ -12,11 +12,33 @@ export enum ErrorCode {
   PROVIDER_ERROR = 'provider_error',
   PROVIDER_NOT_INITIALIZED = 'provider_not_initialized',
   PROVIDER_COMMUNICATION_ERROR = 'provider_communication_error',
+  PROVIDER_CIRCUIT_OPEN = 'provider_circuit_open',
   
   // Transaction errors
   TRANSACTION_NOT_FOUND = 'transaction_not_found',
   TRANSACTION_ALREADY_PROCESSED = 'transaction_already_processed',
   TRANSACTION_INVALID_STATE = 'transaction_invalid_state',
+  REFUND_AMOUNT_EXCEEDED = 'refund_amount_exceeded',
+  
+  // Dispute errors
+  DISPUTE_NOT_FOUND = 'dispute_not_found',
+  DISPUTE_INVALID_STATE = 'dispute_invalid_state',
+  
+  // Subscription errors
+  SUBSCRIPTION_NOT_FOUND = 'subscription_not_found',
+  SUBSCRIPTION_INVALID_STATE = 'subscription_invalid_state',
+  PLAN_NOT_FOUND = 'plan_not_found',
+  
+  // Invoice errors
+  INVOICE_NOT_FOUND = 'invoice_not_found',
+  INVOICE_INVALID_STATE = 'invoice_invalid_state',
+  
+  // Ledger errors
+  LEDGER_ACCOUNT_NOT_FOUND = 'ledger_account_not_found',
+  LEDGER_ENTRY_UNBALANCED = 'ledger_entry_unbalanced',
+  
+  // Reconciliation errors
+  RECONCILIATION_ERROR = 'reconciliation_error',
   
   // Customer errors
   CUSTOMER_NOT_FOUND = 'customer_not_found',
@@ -25,6 +47,7 @@ export enum ErrorCode {
   // System errors
   INTERNAL_ERROR = 'internal_error',
   CONFIGURATION_ERROR = 'configuration_error',
+  DATABASE_ERROR = 'database_error',
   
   // Validation errors
   VALIDATION_ERROR = 'validation_error',
@@ -37,6 +60,22 @@ export enum ErrorCode {
   IDEMPOTENCY_ERROR = 'idempotency_error',
   DUPLICATE_REQUEST = 'duplicate_request',
   
+  // Record lock errors
+  LOCK_ACQUISITION_FAILED = 'lock_acquisition_failed',
+  LOCK_TIMEOUT = 'lock_timeout',
+  LOCK_NOT_FOUND = 'lock_not_found',
+  LOCK_UPGRADE_FAILED = 'lock_upgrade_failed',
+  // The transaction was aborted to break a lock cycle
+  DEADLOCK_VICTIM = 'deadlock_victim',
+  
+  // Event replay errors
+  REPLAY_JOB_NOT_FOUND = 'replay_job_not_found',
+  
+  // Webhook errors
+  WEBHOOK_NOT_FOUND = 'webhook_not_found',
+  WEBHOOK_DELIVERY_NOT_FOUND = 'webhook_delivery_not_found',
+  WEBHOOK_DISABLED = 'webhook_disabled',
+  
   // Recovery errors
   RECOVERY_ERROR = 'recovery_error',
   RECOVERY_LIMIT_EXCEEDED = 'recovery_limit_exceeded'
@@ -104,21 +143,43 @@ export class PaymentError extends Error {
       case ErrorCode.VALIDATION_ERROR:
       case ErrorCode.PAYMENT_VALIDATION_FAILED:
       case ErrorCode.PAYMENT_METHOD_INVALID:
+      case ErrorCode.REFUND_AMOUNT_EXCEEDED:
         return 400;
       case ErrorCode.AUTHENTICATION_ERROR:
         return 401;
+      case ErrorCode.PAYMENT_FAILED:
+        return 402;
       case ErrorCode.AUTHORIZATION_ERROR:
         return 403;
       case ErrorCode.TRANSACTION_NOT_FOUND:
       case ErrorCode.CUSTOMER_NOT_FOUND:
+      case ErrorCode.DISPUTE_NOT_FOUND:
+      case ErrorCode.SUBSCRIPTION_NOT_FOUND:
+      case ErrorCode.PLAN_NOT_FOUND:
+      case ErrorCode.INVOICE_NOT_FOUND:
+      case ErrorCode.LEDGER_ACCOUNT_NOT_FOUND:
+      case ErrorCode.REPLAY_JOB_NOT_FOUND:
+      case ErrorCode.WEBHOOK_NOT_FOUND:
+      case ErrorCode.WEBHOOK_DELIVERY_NOT_FOUND:
         return 404;
       case ErrorCode.DUPLICATE_REQUEST:
       case ErrorCode.IDEMPOTENCY_ERROR:
       case ErrorCode.TRANSACTION_ALREADY_PROCESSED:
+      case ErrorCode.TRANSACTION_INVALID_STATE:
+      case ErrorCode.DISPUTE_INVALID_STATE:
+      case ErrorCode.SUBSCRIPTION_INVALID_STATE:
+      case ErrorCode.INVOICE_INVALID_STATE:
+      case ErrorCode.LOCK_ACQUISITION_FAILED:
+      case ErrorCode.LOCK_TIMEOUT:
+      case ErrorCode.LOCK_UPGRADE_FAILED:
+      case ErrorCode.DEADLOCK_VICTIM:
+      case ErrorCode.WEBHOOK_DISABLED:
         return 409;
       case ErrorCode.PROVIDER_ERROR:
       case ErrorCode.PROVIDER_COMMUNICATION_ERROR:
         return 502;
+      case ErrorCode.PROVIDER_CIRCUIT_OPEN:
+        return 503;
       default:
         return 500;
     }
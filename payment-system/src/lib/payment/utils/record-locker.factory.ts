@@ -0,0 +1,34 @@
+// src/lib/payment/utils/record-locker.factory.ts
+import { RecordLocker } from './record-locker';
+import { DatabaseRecordLocker } from './database-record-locker';
+import { EventEmitter } from '../events/event.emitter';
+import { DatabaseConnection } from '../database/connection';
+import { getDbConnection } from '../config/database.config';
+import { LockingConfig, loadLockingConfig } from '../config/locking.config';
+
+export interface RecordLockerOptions {
+  config?: LockingConfig;
+  dbConnection?: DatabaseConnection;
+  eventEmitter?: EventEmitter;
+  instanceId?: string;
+}
+
+/**
+ * Create the record locker the locking config asks for. The database
+ * locker uses the given connection, or the default one.
+ */
+export function createRecordLocker(options: RecordLockerOptions = {}): RecordLocker {
+  const { config = loadLockingConfig(), dbConnection, eventEmitter, instanceId } = options;
+  const lockerOptions = {
+    defaultExpirationMs: config.defaultExpirationMs,
+    instanceId,
+    eventEmitter
+  };
+
+  if (config.backend === 'database') {
+    const conn = dbConnection || getDbConnection();
+    return new DatabaseRecordLocker(conn.getPool(), lockerOptions);
+  }
+
+  return new RecordLocker(lockerOptions);
+}
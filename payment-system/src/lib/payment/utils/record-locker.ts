@@ -1,7 +1,7 @@
 // src/lib/payment/utils/record-locker.ts
 import { v4 as uuidv4 } from 'uuid';
 import { PaymentLogger } from './logger';
-import { errorHandler, ErrorCode } from './error';
+import { errorHandler, ErrorCode, PaymentError } from './error';
 import { EventEmitter } from '../events/event.emitter';
 
 export enum LockLevel {
@@ -20,6 +20,9 @@ export interface RecordLock {
   lockId: string;
   ownerTransaction?: string;
   metadata?: Record<string, any>;
+  // Increases with every grant of the record, so a store can refuse writes
+  // from a holder whose lock expired and was given to someone else
+  fencingToken?: number;
 }
 
 export interface LockOptions {
@@ -72,22 +75,56 @@ export interface LockQueue {
   }>;
 }
 
+export interface LockGraphNode {
+  transactionId: string;
+  // Earliest lock held or requested; the latest starter in a cycle is aborted
+  startedAt: Date;
+  holding: Array<{ recordId: string; resourceType: string; lockLevel: LockLevel }>;
+  waitingFor: Array<{ recordId: string; resourceType: string; lockLevel: LockLevel; since: Date }>;
+}
+
+// The transaction in `from` waits for a lock that `to` holds
+export interface LockGraphEdge {
+  from: string;
+  to: string;
+  recordId: string;
+  resourceType: string;
+  lockLevel: LockLevel;
+}
+
+export interface LockGraph {
+  transactions: LockGraphNode[];
+  edges: LockGraphEdge[];
+  // Groups of transactions that wait on each other, directly or through others
+  cycles: string[][];
+}
+
+/**
+ * Whether a failed lock request aborted the caller to break a deadlock.
+ * Callers that otherwise carry on without the lock must give up instead.
+ */
+export function isDeadlockVictim(error: unknown): boolean {
+  return error instanceof PaymentError && error.code === ErrorCode.DEADLOCK_VICTIM;
+}
+
 /**
  * RecordLocker provides record-level locking for critical operations
  * to prevent concurrent modifications and ensure data integrity.
- * Implements a multi-level locking system with deadlock prevention.
+ * Implements a multi-level locking system with deadlock detection.
+ * Locks live in this process only; DatabaseRecordLocker shares them
+ * between API instances.
  */
 export class RecordLocker {
   private locks: Map<string, RecordLock[]> = new Map();
   private lockQueues: Map<string, LockQueue> = new Map();
-  private logger: PaymentLogger;
-  private instanceId: string;
+  protected logger: PaymentLogger;
+  protected instanceId: string;
   private renewalTimers: Map<string, NodeJS.Timeout> = new Map();
-  private defaultExpirationMs: number = 30000; // 30 seconds
+  protected defaultExpirationMs: number = 30000; // 30 seconds
   private renewalIntervalMs: number = 10000; // 10 seconds
   private cleanupIntervalMs: number = 60000; // 1 minute
   private cleanupTimer?: NodeJS.Timeout;
-  private eventEmitter?: EventEmitter;
+  protected eventEmitter?: EventEmitter;
   private transactionLocks: Map<string, Set<string>> = new Map(); // Track locks by transaction
   
   constructor(
@@ -136,7 +173,6 @@ export class RecordLocker {
     } = options;
     
     const lockKey = this.getLockKey(recordId, resourceType);
-    const startTime = Date.now();
     
     // Create lock queue entry if needed
     if (!this.lockQueues.has(lockKey)) {
@@ -147,17 +183,6 @@ export class RecordLocker {
       });
     }
     
-    // Check for potential deadlock if this is part of a transaction
-    if (transactionId) {
-      if (this.wouldCreateDeadlock(recordId, resourceType, transactionId, lockLevel)) {
-        throw errorHandler.createError(
-          `Potential deadlock detected for transaction ${transactionId} on ${resourceType}:${recordId}`,
-          ErrorCode.DEADLOCK_DETECTED,
-          { recordId, resourceType, transactionId }
-        );
-      }
-    }
-    
     // Try to acquire lock immediately if compatible
     const canAcquireImmediately = this.canAcquireLock(lockKey, lockLevel, this.instanceId, transactionId);
     if (canAcquireImmediately) {
@@ -176,16 +201,17 @@ export class RecordLocker {
     // Create a promise that will resolve when the lock is acquired or timeout occurs
     return new Promise<string>((resolve, reject) => {
       const queue = this.lockQueues.get(lockKey)!;
-      
-      // Add to waiting queue
-      queue.waitingLocks.push({
+      const waiter = {
         owner: this.instanceId,
         lockLevel,
         timestamp: new Date(),
         resolve,
         reject,
         transactionId
-      });
+      };
+      
+      // Add to waiting queue
+      queue.waitingLocks.push(waiter);
       
       this.logger.debug(`Added ${lockLevel} lock request to queue for ${resourceType}:${recordId}`, {
         queueLength: queue.waitingLocks.length,
@@ -197,10 +223,7 @@ export class RecordLocker {
         // Remove from queue if still there
         const queue = this.lockQueues.get(lockKey);
         if (queue) {
-          const index = queue.waitingLocks.findIndex(l => 
-            l.owner === this.instanceId && 
-            l.timestamp.getTime() === startTime
-          );
+          const index = queue.waitingLocks.indexOf(waiter);
           
           if (index >= 0) {
             queue.waitingLocks.splice(index, 1);
@@ -213,6 +236,11 @@ export class RecordLocker {
           }
         }
       }, waitTimeoutMs);
+      
+      // Waiting may have closed a cycle between transactions
+      if (transactionId) {
+        this.resolveDeadlock(transactionId, recordId, resourceType);
+      }
     });
   }
   
@@ -417,6 +445,78 @@ export class RecordLocker {
     });
   }
   
+  /**
+   * Build the wait-for graph: an edge runs from each transaction waiting in
+   * a lock queue to every other transaction holding a lock that conflicts
+   * with the request
+   */
+  getLockGraph(): LockGraph {
+    const now = new Date();
+    const nodes: Map<string, LockGraphNode> = new Map();
+    const edges: LockGraphEdge[] = [];
+
+    const getNode = (transactionId: string): LockGraphNode => {
+      if (!nodes.has(transactionId)) {
+        nodes.set(transactionId, { transactionId, startedAt: now, holding: [], waitingFor: [] });
+      }
+      return nodes.get(transactionId)!;
+    };
+
+    // Locks held per transaction
+    for (const [transactionId, lockIds] of this.transactionLocks.entries()) {
+      for (const locks of this.locks.values()) {
+        for (const lock of locks) {
+          if (!lockIds.has(lock.lockId) || now > lock.expiresAt) continue;
+
+          const node = getNode(transactionId);
+          node.holding.push({ recordId: lock.recordId, resourceType: lock.resourceType, lockLevel: lock.lockLevel });
+          if (lock.acquiredAt < node.startedAt) {
+            node.startedAt = lock.acquiredAt;
+          }
+        }
+      }
+    }
+
+    // Waiting requests and the holders they wait on
+    for (const [lockKey, queue] of this.lockQueues.entries()) {
+      const activeLocks = (this.locks.get(lockKey) || []).filter(lock => now <= lock.expiresAt);
+
+      for (const waiter of queue.waitingLocks) {
+        if (!waiter.transactionId) continue;
+
+        const node = getNode(waiter.transactionId);
+        node.waitingFor.push({
+          recordId: queue.recordId,
+          resourceType: queue.resourceType,
+          lockLevel: waiter.lockLevel,
+          since: waiter.timestamp
+        });
+        if (waiter.timestamp < node.startedAt) {
+          node.startedAt = waiter.timestamp;
+        }
+
+        for (const lock of activeLocks) {
+          const conflicts = waiter.lockLevel === LockLevel.EXCLUSIVE || lock.lockLevel === LockLevel.EXCLUSIVE;
+          if (!lock.ownerTransaction || lock.ownerTransaction === waiter.transactionId || !conflicts) continue;
+
+          edges.push({
+            from: waiter.transactionId,
+            to: lock.ownerTransaction,
+            recordId: queue.recordId,
+            resourceType: queue.resourceType,
+            lockLevel: waiter.lockLevel
+          });
+        }
+      }
+    }
+
+    return {
+      transactions: Array.from(nodes.values()),
+      edges,
+      cycles: this.findCycles(edges)
+    };
+  }
+  
   /**
    * Upgrade a shared lock to an exclusive lock
    */
@@ -798,85 +898,142 @@ export class RecordLocker {
   }
   
   /**
-   * Check for potential deadlocks when acquiring a new lock
+   * Look for a cycle through the transaction that just started waiting and
+   * abort the youngest transaction in it. Its waits fail with
+   * DEADLOCK_VICTIM and its locks are released so the others can proceed.
    */
-  private wouldCreateDeadlock(
-    recordId: string,
-    resourceType: string,
-    transactionId: string,
-    lockLevel: LockLevel
-  ): boolean {
-    // Check if this record is already locked by another transaction
-    const lockKey = this.getLockKey(recordId, resourceType);
-    const locks = this.locks.get(lockKey) || [];
-    
-    // If no locks or only our transaction's locks, no deadlock
-    if (locks.length === 0 || locks.every(l => l.ownerTransaction === transactionId)) {
-      return false;
+  private resolveDeadlock(transactionId: string, recordId: string, resourceType: string): void {
+    const graph = this.getLockGraph();
+    const cycle = this.findCycleThrough(graph.edges, transactionId);
+    if (!cycle) return;
+
+    const startedAt = new Map(graph.transactions.map(node => [node.transactionId, node.startedAt.getTime()]));
+    const victim = cycle.reduce((youngest, candidate) =>
+      startedAt.get(candidate)! > startedAt.get(youngest)! ? candidate : youngest
+    );
+
+    this.logger.warn(`Deadlock detected on ${resourceType}:${recordId}, aborting transaction ${victim}`, {
+      cycle,
+      requestedBy: transactionId
+    });
+
+    // Emit deadlock event
+    if (this.eventEmitter) {
+      this.eventEmitter.emit('lock.deadlock_detected', {
+        recordId,
+        resourceType,
+        requestedBy: transactionId,
+        cycle,
+        victim
+      }).catch(error => {
+        this.logger.error('Failed to emit deadlock detected event', { error });
+      });
     }
-    
-    // Check for potential circular wait conditions
-    for (const lock of locks) {
-      // Skip locks from our transaction
-      if (lock.ownerTransaction === transactionId) continue;
-      
-      // If we find an exclusive lock or we're requesting exclusive
-      // and there's already any lock, check for circular dependency
-      if (lock.lockLevel === LockLevel.EXCLUSIVE || 
-         (lockLevel === LockLevel.EXCLUSIVE && locks.length > 0)) {
-        
-        // See if the other transaction is waiting on any records we have locked
-        const otherTxId = lock.ownerTransaction;
-        if (!otherTxId) continue;
-        
-        // Check if we can detect a circular wait
-        if (this.hasCircularWait(transactionId, otherTxId, new Set())) {
-          return true;
+
+    const error = errorHandler.createError(
+      `Transaction ${victim} aborted to resolve a deadlock`,
+      ErrorCode.DEADLOCK_VICTIM,
+      { transactionId: victim, cycle }
+    );
+
+    for (const queue of this.lockQueues.values()) {
+      const victimWaiters = queue.waitingLocks.filter(w => w.transactionId === victim);
+      queue.waitingLocks = queue.waitingLocks.filter(w => w.transactionId !== victim);
+      victimWaiters.forEach(waiter => waiter.reject(error));
+    }
+
+    this.releaseTransactionLocks(victim).catch(releaseError => {
+      this.logger.error('Failed to release locks of deadlock victim', { error: releaseError, transactionId: victim });
+    });
+  }
+
+  /**
+   * Find the strongly connected components of the wait-for graph that
+   * hold more than one transaction (Tarjan's algorithm, linear in the
+   * size of the graph)
+   */
+  private findCycles(edges: LockGraphEdge[]): string[][] {
+    const waitsFor = this.buildWaitsFor(edges);
+    const index: Map<string, number> = new Map();
+    const lowLink: Map<string, number> = new Map();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const connect = (transactionId: string): void => {
+      index.set(transactionId, index.size);
+      lowLink.set(transactionId, index.get(transactionId)!);
+      stack.push(transactionId);
+      onStack.add(transactionId);
+
+      for (const next of waitsFor.get(transactionId) || []) {
+        if (!index.has(next)) {
+          connect(next);
+          lowLink.set(transactionId, Math.min(lowLink.get(transactionId)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(transactionId, Math.min(lowLink.get(transactionId)!, index.get(next)!));
         }
       }
+
+      if (lowLink.get(transactionId) !== index.get(transactionId)) return;
+
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== transactionId);
+
+      if (component.length > 1) {
+        cycles.push(component.reverse());
+      }
+    };
+
+    for (const transactionId of waitsFor.keys()) {
+      if (!index.has(transactionId)) {
+        connect(transactionId);
+      }
     }
-    
-    return false;
+
+    return cycles;
   }
-  
+
   /**
-   * Check for circular wait conditions that could lead to deadlocks
+   * Find one cycle that leads back to the given transaction. Each
+   * transaction is visited at most once, and the search stops at the
+   * first path that closes the cycle.
    */
-  private hasCircularWait(
-    startTxId: string,
-    currentTxId: string,
-    visited: Set<string>
-  ): boolean {
-    // Prevent infinite recursion
-    if (visited.has(currentTxId)) return false;
-    visited.add(currentTxId);
-    
-    // Check if current transaction is waiting on any locks held by our starting transaction
-    for (const [lockKey, locks] of this.locks.entries()) {
-      const locksHeldByStart = locks.filter(l => l.ownerTransaction === startTxId);
-      if (locksHeldByStart.length === 0) continue;
-      
-      // Check if the current transaction is waiting for any of these locks
-      const queue = this.lockQueues.get(lockKey);
-      if (!queue) continue;
-      
-      const isWaiting = queue.waitingLocks.some(w => w.transactionId === currentTxId);
-      if (isWaiting) {
-        // Found circular wait
-        return true;
+  private findCycleThrough(edges: LockGraphEdge[], transactionId: string): string[] | undefined {
+    const waitsFor = this.buildWaitsFor(edges);
+    const visited = new Set<string>([transactionId]);
+    const path: string[] = [transactionId];
+
+    const visit = (current: string): boolean => {
+      for (const next of waitsFor.get(current) || []) {
+        if (next === transactionId) return true;
+        if (visited.has(next)) continue;
+
+        visited.add(next);
+        path.push(next);
+        if (visit(next)) return true;
+        path.pop();
       }
-      
-      // Check if any transaction that the current tx is waiting on is in turn waiting on our start tx
-      for (const waitingLock of queue.waitingLocks) {
-        if (waitingLock.transactionId && waitingLock.transactionId !== currentTxId) {
-          if (this.hasCircularWait(startTxId, waitingLock.transactionId, new Set(visited))) {
-            return true;
-          }
-        }
+      return false;
+    };
+
+    return visit(transactionId) ? path : undefined;
+  }
+
+  private buildWaitsFor(edges: LockGraphEdge[]): Map<string, Set<string>> {
+    const waitsFor: Map<string, Set<string>> = new Map();
+    for (const edge of edges) {
+      if (!waitsFor.has(edge.from)) {
+        waitsFor.set(edge.from, new Set());
       }
+      waitsFor.get(edge.from)!.add(edge.to);
     }
-    
-    return false;
+    return waitsFor;
   }
   
   /**
@@ -1,8 +1,5 @@
 // src/lib/payment/utils/validation.ts
 import { z } from 'zod';
-import { 
-  PaymentMethodType 
-} from '../methods/types';
 import { 
   CreatePaymentInput, 
   AddPaymentMethodInput 
@@ -26,7 +23,7 @@ const customerSchema = z.object({
 const paymentMethodStringSchema = z.string().min(1, 'Payment method ID is required');
 
 const paymentMethodObjectSchema = z.object({
-  type: z.nativeEnum(PaymentMethodType, {
+  type: z.enum(['card', 'bank_account', 'digital_wallet'], {
     errorMap: () => ({ message: 'Invalid payment method type' })
   }),
   details: z.record(z.any()).refine(
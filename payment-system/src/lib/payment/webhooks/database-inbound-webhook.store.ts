@@ -0,0 +1,140 @@
+// src/lib/payment/webhooks/database-inbound-webhook.store.ts
+import { Pool } from 'pg';
+import {
+  InboundWebhookStore,
+  InboundWebhookEvent,
+  InboundWebhookOutcome,
+  DEFAULT_CLAIM_TIMEOUT_MS
+} from './inbound-webhook.store';
+import { errorHandler, ErrorCode } from '../utils/error';
+
+export class DatabaseInboundWebhookStore extends InboundWebhookStore {
+  constructor(
+    private dbPool: Pool,
+    private claimTimeoutMs: number = DEFAULT_CLAIM_TIMEOUT_MS
+  ) {
+    super();
+  }
+
+  async claim(event: InboundWebhookEvent): Promise<boolean> {
+    try {
+      // The primary key makes the insert the deduplication point; only an
+      // event whose processing failed, or whose claim went stale without an
+      // outcome after a crash, is taken over again
+      const query = `
+        INSERT INTO inbound_webhook_events (
+          provider, event_id, event_type, event_created_at, received_at, claimed_at
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (provider, event_id) DO UPDATE SET
+          received_at = $5,
+          claimed_at = $6,
+          processed_at = NULL,
+          outcome = NULL
+        WHERE inbound_webhook_events.outcome = $7
+          OR (inbound_webhook_events.outcome IS NULL AND inbound_webhook_events.claimed_at <= $8)
+        RETURNING event_id
+      `;
+
+      const claimedAt = new Date(Date.now());
+      const result = await this.dbPool.query(query, [
+        event.provider,
+        event.eventId,
+        event.eventType,
+        event.eventCreatedAt,
+        event.receivedAt,
+        claimedAt,
+        InboundWebhookOutcome.FAILED,
+        new Date(claimedAt.getTime() - this.claimTimeoutMs)
+      ]);
+
+      return result.rows.length > 0;
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to record inbound webhook event',
+        ErrorCode.DATABASE_ERROR,
+        { provider: event.provider, eventId: event.eventId }
+      );
+    }
+  }
+
+  async complete(
+    provider: string,
+    eventId: string,
+    outcome: InboundWebhookOutcome,
+    transactionId?: string
+  ): Promise<void> {
+    try {
+      await this.dbPool.query(
+        `
+          UPDATE inbound_webhook_events
+          SET outcome = $3, processed_at = NOW(), transaction_id = COALESCE($4, transaction_id)
+          WHERE provider = $1 AND event_id = $2
+        `,
+        [provider, eventId, outcome, transactionId || null]
+      );
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to complete inbound webhook event',
+        ErrorCode.DATABASE_ERROR,
+        { provider, eventId }
+      );
+    }
+  }
+
+  async get(provider: string, eventId: string): Promise<InboundWebhookEvent | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM inbound_webhook_events WHERE provider = $1 AND event_id = $2',
+        [provider, eventId]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToEvent(result.rows[0]) : null;
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get inbound webhook event',
+        ErrorCode.DATABASE_ERROR,
+        { provider, eventId }
+      );
+    }
+  }
+
+  async getLastApplied(provider: string, transactionId: string): Promise<InboundWebhookEvent | null> {
+    try {
+      const result = await this.dbPool.query(
+        `
+          SELECT * FROM inbound_webhook_events
+          WHERE provider = $1 AND transaction_id = $2 AND outcome = $3
+          ORDER BY event_created_at DESC
+          LIMIT 1
+        `,
+        [provider, transactionId, InboundWebhookOutcome.APPLIED]
+      );
+
+      return result.rows.length > 0 ? this.mapRowToEvent(result.rows[0]) : null;
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get last applied inbound webhook event',
+        ErrorCode.DATABASE_ERROR,
+        { provider, transactionId }
+      );
+    }
+  }
+
+  private mapRowToEvent(row: any): InboundWebhookEvent {
+    return {
+      provider: row.provider,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      eventCreatedAt: row.event_created_at,
+      receivedAt: row.received_at,
+      claimedAt: row.claimed_at,
+      processedAt: row.processed_at || undefined,
+      outcome: row.outcome ? row.outcome as InboundWebhookOutcome : undefined,
+      transactionId: row.transaction_id || undefined
+    };
+  }
+}
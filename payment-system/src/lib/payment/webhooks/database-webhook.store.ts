@@ -1,5 +1,13 @@
 // src/lib/payment/webhooks/database-webhook.store.ts
-import { WebhookEndpoint, WebhookEvent, WebhookEventType } from './types';
+import {
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookDeliveryQuery
+} from './types';
 import { WebhookStore, FailedWebhook } from './webhook.store';
 import { Pool } from 'pg';
 import { errorHandler, ErrorCode } from '../utils/error';
@@ -11,15 +19,18 @@ export class DatabaseWebhookStore extends WebhookStore {
     try {
       const query = `
         INSERT INTO webhook_endpoints (
-          id, url, secret, active, events, metadata, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          id, url, secret, active, events, metadata, created_at, updated_at,
+          previous_secret, previous_secret_expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         ON CONFLICT (id) DO UPDATE SET
           url = $2,
           secret = $3,
           active = $4,
           events = $5,
           metadata = $6,
-          updated_at = $8
+          updated_at = $8,
+          previous_secret = $9,
+          previous_secret_expires_at = $10
       `;
 
       await this.dbPool.query(query, [
@@ -30,7 +41,9 @@ export class DatabaseWebhookStore extends WebhookStore {
         JSON.stringify(endpoint.events),
         endpoint.metadata ? JSON.stringify(endpoint.metadata) : null,
         endpoint.createdAt,
-        endpoint.updatedAt
+        endpoint.updatedAt,
+        endpoint.previousSecret || null,
+        endpoint.previousSecretExpiresAt || null
       ]);
     } catch (error) {
       throw errorHandler.wrapError(
@@ -53,17 +66,7 @@ export class DatabaseWebhookStore extends WebhookStore {
         return null;
       }
 
-      const row = result.rows[0];
-      return {
-        id: row.id,
-        url: row.url,
-        secret: row.secret,
-        active: row.active,
-        events: row.events,
-        metadata: row.metadata,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at
-      };
+      return this.mapRowToEndpoint(result.rows[0]);
     } catch (error) {
       throw errorHandler.wrapError(
         error,
@@ -83,16 +86,7 @@ export class DatabaseWebhookStore extends WebhookStore {
       
       const result = await this.dbPool.query(query, [JSON.stringify([eventType])]);
       
-      return result.rows.map(row => ({
-        id: row.id,
-        url: row.url,
-        secret: row.secret,
-        active: row.active,
-        events: row.events,
-        metadata: row.metadata,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at
-      }));
+      return result.rows.map(row => this.mapRowToEndpoint(row));
     } catch (error) {
       throw errorHandler.wrapError(
         error,
@@ -120,15 +114,16 @@ export class DatabaseWebhookStore extends WebhookStore {
     try {
       const query = `
         INSERT INTO failed_webhooks (
-          endpoint_id, event_data, error, timestamp
-        ) VALUES ($1, $2, $3, $4)
+          endpoint_id, event_data, error, timestamp, delivery_id
+        ) VALUES ($1, $2, $3, $4, $5)
       `;
 
       await this.dbPool.query(query, [
         webhook.endpoint.id,
         JSON.stringify(webhook.event),
         webhook.error,
-        webhook.timestamp
+        webhook.timestamp,
+        webhook.deliveryId || null
       ]);
     } catch (error) {
       throw errorHandler.wrapError(
@@ -151,19 +146,11 @@ export class DatabaseWebhookStore extends WebhookStore {
       const result = await this.dbPool.query(query, [endpointId]);
       
       return result.rows.map(row => ({
-        endpoint: {
-          id: row.id,
-          url: row.url,
-          secret: row.secret,
-          active: row.active,
-          events: row.events,
-          metadata: row.metadata,
-          createdAt: row.created_at,
-          updatedAt: row.updated_at
-        },
+        endpoint: this.mapRowToEndpoint(row),
         event: row.event_data,
         error: row.error,
-        timestamp: row.timestamp
+        timestamp: row.timestamp,
+        deliveryId: row.delivery_id || undefined
       }));
     } catch (error) {
       throw errorHandler.wrapError(
@@ -174,4 +161,300 @@ export class DatabaseWebhookStore extends WebhookStore {
       );
     }
   }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    try {
+      const query = `
+        INSERT INTO webhook_deliveries (
+          id, endpoint_id, event, status, attempts, next_attempt_at, last_attempt_at,
+          last_status_code, last_error, created_at, updated_at, completed_at, redelivery_of
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        ON CONFLICT (id) DO UPDATE SET
+          status = $4,
+          attempts = $5,
+          next_attempt_at = $6,
+          last_attempt_at = $7,
+          last_status_code = $8,
+          last_error = $9,
+          updated_at = $11,
+          completed_at = $12
+      `;
+
+      await this.dbPool.query(query, [
+        delivery.id,
+        delivery.endpointId,
+        JSON.stringify(delivery.event),
+        delivery.status,
+        delivery.attempts,
+        delivery.nextAttemptAt || null,
+        delivery.lastAttemptAt || null,
+        delivery.lastStatusCode || null,
+        delivery.lastError || null,
+        delivery.createdAt,
+        delivery.updatedAt,
+        delivery.completedAt || null,
+        delivery.redeliveryOf || null
+      ]);
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save webhook delivery',
+        ErrorCode.DATABASE_ERROR,
+        { deliveryId: delivery.id }
+      );
+    }
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM webhook_deliveries WHERE id = $1',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToDelivery(result.rows[0]);
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get webhook delivery',
+        ErrorCode.DATABASE_ERROR,
+        { id }
+      );
+    }
+  }
+
+  async getDeliveries(endpointId: string, query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    try {
+      const conditions = ['endpoint_id = $1'];
+      const values: any[] = [endpointId];
+
+      if (query.eventType) {
+        values.push(query.eventType);
+        conditions.push(`event->>'type' = $${values.length}`);
+      }
+
+      if (query.status) {
+        values.push(query.status);
+        conditions.push(`status = $${values.length}`);
+      }
+
+      if (query.startDate) {
+        values.push(query.startDate);
+        conditions.push(`created_at >= $${values.length}`);
+      }
+
+      if (query.endDate) {
+        values.push(query.endDate);
+        conditions.push(`created_at < $${values.length}`);
+      }
+
+      let sql = `
+        SELECT * FROM webhook_deliveries
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY created_at DESC
+      `;
+
+      if (query.limit) {
+        values.push(query.limit);
+        sql += ` LIMIT $${values.length}`;
+      }
+
+      if (query.offset) {
+        values.push(query.offset);
+        sql += ` OFFSET $${values.length}`;
+      }
+
+      const result = await this.dbPool.query(sql, values);
+
+      return result.rows.map(row => this.mapRowToDelivery(row));
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get webhook deliveries',
+        ErrorCode.DATABASE_ERROR,
+        { endpointId }
+      );
+    }
+  }
+
+  async claimDueDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    try {
+      // SKIP LOCKED lets several workers claim disjoint batches
+      const query = `
+        UPDATE webhook_deliveries
+        SET next_attempt_at = NOW() + ($3 * INTERVAL '1 millisecond')
+        WHERE id IN (
+          SELECT id FROM webhook_deliveries
+          WHERE status = $1 AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+          ORDER BY next_attempt_at ASC NULLS FIRST
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `;
+
+      const result = await this.dbPool.query(query, [WebhookDeliveryStatus.PENDING, limit, leaseMs]);
+
+      return result.rows.map(row => this.mapRowToDelivery(row));
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to claim webhook deliveries',
+        ErrorCode.DATABASE_ERROR,
+        { limit }
+      );
+    }
+  }
+
+  async saveDeliveryAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    try {
+      const query = `
+        INSERT INTO webhook_delivery_attempts (
+          id, delivery_id, attempt_number, succeeded, status_code,
+          latency_ms, response_excerpt, error, attempted_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `;
+
+      await this.dbPool.query(query, [
+        attempt.id,
+        attempt.deliveryId,
+        attempt.attemptNumber,
+        attempt.succeeded,
+        attempt.statusCode || null,
+        attempt.latencyMs,
+        attempt.responseExcerpt || null,
+        attempt.error || null,
+        attempt.attemptedAt
+      ]);
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to save webhook delivery attempt',
+        ErrorCode.DATABASE_ERROR,
+        { deliveryId: attempt.deliveryId, attemptNumber: attempt.attemptNumber }
+      );
+    }
+  }
+
+  async getDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    try {
+      const result = await this.dbPool.query(
+        'SELECT * FROM webhook_delivery_attempts WHERE delivery_id = $1 ORDER BY attempt_number ASC',
+        [deliveryId]
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        deliveryId: row.delivery_id,
+        attemptNumber: row.attempt_number,
+        succeeded: row.succeeded,
+        statusCode: row.status_code || undefined,
+        latencyMs: row.latency_ms,
+        responseExcerpt: row.response_excerpt || undefined,
+        error: row.error || undefined,
+        attemptedAt: row.attempted_at
+      }));
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to get webhook delivery attempts',
+        ErrorCode.DATABASE_ERROR,
+        { deliveryId }
+      );
+    }
+  }
+
+  async recordEndpointResult(endpointId: string, succeeded: boolean, at: Date): Promise<WebhookEndpoint | null> {
+    try {
+      // Done in one statement so concurrent attempts cannot lose a failure
+      const query = succeeded
+        ? `
+          UPDATE webhook_endpoints
+          SET consecutive_failures = 0, failing_since = NULL
+          WHERE id = $1
+          RETURNING *
+        `
+        : `
+          UPDATE webhook_endpoints
+          SET consecutive_failures = consecutive_failures + 1,
+              failing_since = COALESCE(failing_since, $2)
+          WHERE id = $1
+          RETURNING *
+        `;
+
+      const result = await this.dbPool.query(query, succeeded ? [endpointId] : [endpointId, at]);
+
+      return result.rows.length > 0 ? this.mapRowToEndpoint(result.rows[0]) : null;
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to record webhook endpoint result',
+        ErrorCode.DATABASE_ERROR,
+        { endpointId }
+      );
+    }
+  }
+
+  async disableEndpoint(endpointId: string, reason: string, at: Date): Promise<boolean> {
+    try {
+      const result = await this.dbPool.query(
+        `
+          UPDATE webhook_endpoints
+          SET active = false, disabled_at = $2, disabled_reason = $3, updated_at = $2
+          WHERE id = $1 AND active = true
+        `,
+        [endpointId, at, reason]
+      );
+
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      throw errorHandler.wrapError(
+        error,
+        'Failed to disable webhook endpoint',
+        ErrorCode.DATABASE_ERROR,
+        { endpointId }
+      );
+    }
+  }
+
+  private mapRowToEndpoint(row: any): WebhookEndpoint {
+    return {
+      id: row.id,
+      url: row.url,
+      secret: row.secret,
+      previousSecret: row.previous_secret || undefined,
+      previousSecretExpiresAt: row.previous_secret_expires_at || undefined,
+      active: row.active,
+      events: row.events,
+      metadata: row.metadata,
+      consecutiveFailures: row.consecutive_failures || 0,
+      failingSince: row.failing_since || undefined,
+      disabledAt: row.disabled_at || undefined,
+      disabledReason: row.disabled_reason || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      event: row.event,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at || undefined,
+      lastAttemptAt: row.last_attempt_at || undefined,
+      lastStatusCode: row.last_status_code || undefined,
+      lastError: row.last_error || undefined,
+      redeliveryOf: row.redelivery_of || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at || undefined
+    };
+  }
 }
@@ -0,0 +1,120 @@
+// src/lib/payment/webhooks/inbound-webhook.store.ts
+
+export enum InboundWebhookOutcome {
+  // Changed the state of a transaction or dispute
+  APPLIED = 'applied',
+  // Nothing to do, e.g. an unhandled type or a transaction already settled
+  IGNORED = 'ignored',
+  // Older than the state it would have replaced
+  STALE = 'stale',
+  FAILED = 'failed'
+}
+
+// How long a claimed event may go without an outcome before a redelivery
+// may take it over; processing that outlives this was lost with its process
+export const DEFAULT_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// A webhook received from a payment provider
+export interface InboundWebhookEvent {
+  provider: string;
+  eventId: string;
+  eventType: string;
+  // When the provider created the event, which is not when it arrived
+  eventCreatedAt: Date;
+  receivedAt: Date;
+  // Set by the store when processing of the event starts
+  claimedAt?: Date;
+  processedAt?: Date;
+  outcome?: InboundWebhookOutcome;
+  transactionId?: string;
+}
+
+export abstract class InboundWebhookStore {
+  /**
+   * Record that an event arrived
+   * @returns False if the event was seen before, unless its processing
+   * failed or was claimed longer ago than the claim timeout without
+   * finishing, in which case it may be processed again
+   */
+  abstract claim(event: InboundWebhookEvent): Promise<boolean>;
+
+  abstract complete(
+    provider: string,
+    eventId: string,
+    outcome: InboundWebhookOutcome,
+    transactionId?: string
+  ): Promise<void>;
+
+  abstract get(provider: string, eventId: string): Promise<InboundWebhookEvent | null>;
+
+  /**
+   * The newest event, by provider creation time, that changed the
+   * transaction
+   */
+  abstract getLastApplied(provider: string, transactionId: string): Promise<InboundWebhookEvent | null>;
+}
+
+export class InMemoryInboundWebhookStore extends InboundWebhookStore {
+  private events: Map<string, InboundWebhookEvent> = new Map();
+
+  constructor(private claimTimeoutMs: number = DEFAULT_CLAIM_TIMEOUT_MS) {
+    super();
+  }
+
+  async claim(event: InboundWebhookEvent): Promise<boolean> {
+    const key = this.key(event.provider, event.eventId);
+    const existing = this.events.get(key);
+    const now = Date.now();
+
+    if (existing && !this.isReclaimable(existing, now)) {
+      return false;
+    }
+
+    this.events.set(key, { ...event, claimedAt: new Date(now), processedAt: undefined, outcome: undefined });
+    return true;
+  }
+
+  async complete(
+    provider: string,
+    eventId: string,
+    outcome: InboundWebhookOutcome,
+    transactionId?: string
+  ): Promise<void> {
+    const event = this.events.get(this.key(provider, eventId));
+    if (!event) {
+      return;
+    }
+
+    event.outcome = outcome;
+    event.processedAt = new Date();
+    event.transactionId = transactionId || event.transactionId;
+  }
+
+  async get(provider: string, eventId: string): Promise<InboundWebhookEvent | null> {
+    const event = this.events.get(this.key(provider, eventId));
+    return event ? { ...event } : null;
+  }
+
+  async getLastApplied(provider: string, transactionId: string): Promise<InboundWebhookEvent | null> {
+    const applied = Array.from(this.events.values())
+      .filter(event =>
+        event.provider === provider &&
+        event.transactionId === transactionId &&
+        event.outcome === InboundWebhookOutcome.APPLIED
+      )
+      .sort((a, b) => b.eventCreatedAt.getTime() - a.eventCreatedAt.getTime());
+
+    return applied.length > 0 ? { ...applied[0] } : null;
+  }
+
+  private isReclaimable(event: InboundWebhookEvent, now: number): boolean {
+    if (event.outcome) {
+      return event.outcome === InboundWebhookOutcome.FAILED;
+    }
+    return now - event.claimedAt!.getTime() >= this.claimTimeoutMs;
+  }
+
+  private key(provider: string, eventId: string): string {
+    return `${provider}:${eventId}`;
+  }
+}
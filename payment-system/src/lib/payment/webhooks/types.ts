@@ -6,7 +6,9 @@ export enum WebhookEventType {
   PAYMENT_DISPUTED = 'payment.disputed',
   METHOD_ADDED = 'payment_method.added',
   METHOD_UPDATED = 'payment_method.updated',
-  METHOD_REMOVED = 'payment_method.removed'
+  METHOD_REMOVED = 'payment_method.removed',
+  TRANSACTION_CREATED = 'transaction.created',
+  TRANSACTION_STATUS_CHANGED = 'transaction.status_changed'
 }
 
 export interface WebhookEvent {
@@ -14,16 +16,69 @@ export interface WebhookEvent {
   type: WebhookEventType;
   data: Record<string, any>;
   timestamp: Date;
-  signature: string;
 }
 
 export interface WebhookEndpoint {
   id: string;
   url: string;
   secret: string;
+  // Still signs deliveries until it expires, so receivers can switch over
+  previousSecret?: string;
+  previousSecretExpiresAt?: Date;
   active: boolean;
   events: WebhookEventType[];
   metadata?: Record<string, any>;
+  // Failed delivery attempts since the last successful one
+  consecutiveFailures?: number;
+  failingSince?: Date;
+  disabledAt?: Date;
+  disabledReason?: string;
   createdAt: Date;
   updatedAt: Date;
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  // Retries exhausted or the endpoint was disabled
+  FAILED = 'failed'
+}
+
+// One event sent to one endpoint, across all of its attempts
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+  // Set when an operator resent the event of an earlier delivery
+  redeliveryOf?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface WebhookDeliveryQuery {
+  eventType?: WebhookEventType;
+  status?: WebhookDeliveryStatus;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  attemptNumber: number;
+  succeeded: boolean;
+  statusCode?: number;
+  latencyMs: number;
+  responseExcerpt?: string;
+  error?: string;
+  attemptedAt: Date;
 }
\ No newline at end of file
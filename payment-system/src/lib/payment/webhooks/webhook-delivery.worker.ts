@@ -0,0 +1,381 @@
+// src/lib/payment/webhooks/webhook-delivery.worker.ts
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus
+} from './types';
+import { WebhookStore } from './webhook.store';
+import { SIGNATURE_HEADER, createSignatureHeader, getSigningSecrets } from './webhook.signature';
+import { AlertNotifier } from '../monitoring/alerts/notifier';
+import { PaymentLogger } from '../utils/logger';
+
+export interface WebhookDeliveryWorkerOptions {
+  pollInterval?: number;
+  batchSize?: number;
+  leaseMs?: number;
+  // Delay before the first retry; each retry after that waits twice as long
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // How long after an event was queued it may still be retried
+  retryWindowMs?: number;
+  requestTimeoutMs?: number;
+  responseExcerptLength?: number;
+  // An endpoint is disabled once it has failed this many times in a row...
+  disableAfterFailures?: number;
+  // ...and has not had a successful delivery for this long
+  disableAfterMs?: number;
+  alertNotifier?: AlertNotifier;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export interface WebhookDeliveryRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface AttemptResult {
+  succeeded: boolean;
+  statusCode?: number;
+  latencyMs: number;
+  responseExcerpt?: string;
+  error?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * The HTTP request sent to the endpoint for a given attempt. It is signed
+ * when it is built, so every retry carries a fresh timestamp.
+ */
+export function buildDeliveryRequest(
+  endpoint: WebhookEndpoint,
+  delivery: WebhookDelivery,
+  attemptNumber: number,
+  signedAt: Date = new Date()
+): WebhookDeliveryRequest {
+  const body = JSON.stringify(delivery.event);
+
+  return {
+    url: endpoint.url,
+    headers: {
+      'Content-Type': 'application/json',
+      [SIGNATURE_HEADER]: createSignatureHeader(
+        body,
+        getSigningSecrets(endpoint, signedAt),
+        Math.floor(signedAt.getTime() / 1000)
+      ),
+      'X-Webhook-ID': delivery.event.id,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Attempt': String(attemptNumber)
+    },
+    body
+  };
+}
+
+/**
+ * Sends queued webhook deliveries and retries failed ones with exponential
+ * backoff until the retry window (three days by default) has passed.
+ *
+ * Every attempt is recorded with its status code, latency and the start of
+ * the response body. Endpoints that keep failing are disabled and their
+ * owner is told through the AlertNotifier.
+ */
+export class WebhookDeliveryWorker {
+  private logger: PaymentLogger;
+  private pollInterval: number;
+  private batchSize: number;
+  private leaseMs: number;
+  private initialBackoffMs: number;
+  private maxBackoffMs: number;
+  private retryWindowMs: number;
+  private requestTimeoutMs: number;
+  private responseExcerptLength: number;
+  private disableAfterFailures: number;
+  private disableAfterMs: number;
+  private alertNotifier?: AlertNotifier;
+  private isDelivering: boolean = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private store: WebhookStore,
+    options: WebhookDeliveryWorkerOptions = {}
+  ) {
+    this.logger = new PaymentLogger(options.logLevel || 'info', 'WebhookDeliveryWorker');
+    this.pollInterval = options.pollInterval || 1000;
+    this.batchSize = options.batchSize || 50;
+    this.leaseMs = options.leaseMs || 60000;
+    this.initialBackoffMs = options.initialBackoffMs || 60000;
+    this.maxBackoffMs = options.maxBackoffMs || 12 * HOUR_MS;
+    this.retryWindowMs = options.retryWindowMs || 72 * HOUR_MS;
+    this.requestTimeoutMs = options.requestTimeoutMs || 10000;
+    this.responseExcerptLength = options.responseExcerptLength || 1000;
+    this.disableAfterFailures = options.disableAfterFailures || 10;
+    this.disableAfterMs = options.disableAfterMs || 72 * HOUR_MS;
+    this.alertNotifier = options.alertNotifier;
+  }
+
+  /**
+   * Attempt one batch of deliveries that are due
+   * @returns Number of deliveries that succeeded
+   */
+  async processDue(): Promise<number> {
+    if (this.isDelivering) {
+      return 0;
+    }
+
+    this.isDelivering = true;
+    const operationId = uuidv4().slice(0, 8);
+    let delivered = 0;
+
+    try {
+      const deliveries = await this.store.claimDueDeliveries(this.batchSize, this.leaseMs);
+      if (deliveries.length === 0) {
+        return 0;
+      }
+
+      this.logger.debug(`[${operationId}] Attempting ${deliveries.length} webhook deliveries`);
+
+      for (const delivery of deliveries) {
+        try {
+          const result = await this.deliver(delivery);
+          if (result.status === WebhookDeliveryStatus.SUCCEEDED) {
+            delivered++;
+          }
+        } catch (error) {
+          // The lease runs out and the delivery is picked up again
+          this.logger.error(`[${operationId}] Error delivering webhook ${delivery.id}`, { error });
+        }
+      }
+
+      return delivered;
+    } catch (error) {
+      this.logger.error(`[${operationId}] Error processing webhook deliveries`, { error });
+      return delivered;
+    } finally {
+      this.isDelivering = false;
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      this.stop();
+    }
+
+    this.logger.info(`Starting webhook delivery worker with interval: ${this.pollInterval}ms`);
+
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        this.logger.error('Error in webhook delivery interval', { error });
+      });
+    }, this.pollInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.info('Stopped webhook delivery worker');
+    }
+  }
+
+  /**
+   * Make the next attempt at a delivery and schedule a retry if it fails
+   * @returns The delivery as it stands after the attempt
+   */
+  async deliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const endpoint = await this.store.getEndpoint(delivery.endpointId);
+
+    if (!endpoint || !endpoint.active) {
+      const updated = this.complete(delivery, WebhookDeliveryStatus.FAILED, {
+        lastError: endpoint ? 'Endpoint is disabled' : 'Endpoint no longer exists'
+      });
+      await this.store.saveDelivery(updated);
+
+      this.logger.info(`Dropped webhook delivery ${delivery.id}`, {
+        endpointId: delivery.endpointId,
+        reason: updated.lastError
+      });
+      return updated;
+    }
+
+    const attemptNumber = delivery.attempts + 1;
+    const attemptedAt = new Date();
+    const result = await this.send(endpoint, delivery);
+
+    const attempt: WebhookDeliveryAttempt = {
+      id: uuidv4(),
+      deliveryId: delivery.id,
+      attemptNumber,
+      attemptedAt,
+      ...result
+    };
+    await this.store.saveDeliveryAttempt(attempt);
+
+    let updated: WebhookDelivery = {
+      ...delivery,
+      attempts: attemptNumber,
+      lastAttemptAt: attemptedAt,
+      lastStatusCode: result.statusCode,
+      lastError: result.error,
+      updatedAt: new Date()
+    };
+
+    if (result.succeeded) {
+      updated = this.complete(updated, WebhookDeliveryStatus.SUCCEEDED);
+    } else {
+      const nextAttemptAt = new Date(attemptedAt.getTime() + this.getBackoff(attemptNumber));
+
+      if (nextAttemptAt.getTime() > delivery.createdAt.getTime() + this.retryWindowMs) {
+        updated = this.complete(updated, WebhookDeliveryStatus.FAILED);
+
+        await this.store.saveFailedWebhook({
+          endpoint,
+          event: delivery.event,
+          error: result.error || 'Webhook delivery failed',
+          timestamp: new Date(),
+          deliveryId: delivery.id
+        });
+
+        this.logger.warn(`Webhook delivery ${delivery.id} failed after ${attemptNumber} attempts`, {
+          endpointId: endpoint.id,
+          eventId: delivery.event.id
+        });
+      } else {
+        updated.nextAttemptAt = nextAttemptAt;
+
+        this.logger.info(`Webhook delivery ${delivery.id} will be retried`, {
+          endpointId: endpoint.id,
+          attempts: attemptNumber,
+          nextAttemptAt
+        });
+      }
+    }
+
+    await this.store.saveDelivery(updated);
+    await this.updateEndpointHealth(endpoint, result.succeeded, attemptedAt);
+
+    return updated;
+  }
+
+  private async send(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<AttemptResult> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+    const request = buildDeliveryRequest(endpoint, delivery, delivery.attempts + 1);
+    const startTime = Date.now();
+
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal
+      });
+
+      const body = await response.text().catch(() => '');
+      const latencyMs = Date.now() - startTime;
+
+      return {
+        succeeded: response.ok,
+        statusCode: response.status,
+        latencyMs,
+        responseExcerpt: body ? body.slice(0, this.responseExcerptLength) : undefined,
+        error: response.ok ? undefined : `Endpoint responded with ${response.status} ${response.statusText}`.trim()
+      };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Request timed out after ${this.requestTimeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+
+      return {
+        succeeded: false,
+        latencyMs: Date.now() - startTime,
+        error: message
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private getBackoff(attemptNumber: number): number {
+    return Math.min(this.initialBackoffMs * Math.pow(2, attemptNumber - 1), this.maxBackoffMs);
+  }
+
+  private complete(
+    delivery: WebhookDelivery,
+    status: WebhookDeliveryStatus,
+    changes: Partial<WebhookDelivery> = {}
+  ): WebhookDelivery {
+    const now = new Date();
+
+    return {
+      ...delivery,
+      ...changes,
+      status,
+      nextAttemptAt: undefined,
+      completedAt: now,
+      updatedAt: now
+    };
+  }
+
+  private async updateEndpointHealth(endpoint: WebhookEndpoint, succeeded: boolean, at: Date): Promise<void> {
+    try {
+      const updated = await this.store.recordEndpointResult(endpoint.id, succeeded, at);
+      if (!updated || succeeded || !updated.failingSince) {
+        return;
+      }
+
+      const failures = updated.consecutiveFailures || 0;
+      const failingForMs = at.getTime() - new Date(updated.failingSince).getTime();
+
+      if (failures < this.disableAfterFailures || failingForMs < this.disableAfterMs) {
+        return;
+      }
+
+      const reason = `${failures} consecutive delivery failures since ${new Date(updated.failingSince).toISOString()}`;
+
+      // Only the worker that actually flipped the flag sends the alert
+      if (!await this.store.disableEndpoint(endpoint.id, reason, at)) {
+        return;
+      }
+
+      this.logger.warn(`Disabled webhook endpoint ${endpoint.id}`, { url: endpoint.url, reason });
+
+      await this.notifyDisabled(updated, reason, failures, at);
+    } catch (error) {
+      // Health tracking must never hold up deliveries
+      this.logger.error(`Error updating health of webhook endpoint ${endpoint.id}`, { error });
+    }
+  }
+
+  private async notifyDisabled(
+    endpoint: WebhookEndpoint,
+    reason: string,
+    failures: number,
+    at: Date
+  ): Promise<void> {
+    if (!this.alertNotifier) {
+      return;
+    }
+
+    await this.alertNotifier.sendAlert({
+      id: `webhook_endpoint_disabled-${at.getTime()}`,
+      ruleName: 'webhook_endpoint_disabled',
+      severity: 'high',
+      description: `Webhook endpoint ${endpoint.url} was disabled: ${reason}`,
+      timestamp: at,
+      metrics: [{
+        value: failures,
+        timestamp: at,
+        labels: {
+          endpointId: endpoint.id,
+          url: endpoint.url,
+          ...(endpoint.metadata?.ownerEmail && { owner: endpoint.metadata.ownerEmail })
+        }
+      }],
+      acknowledged: false
+    });
+  }
+}
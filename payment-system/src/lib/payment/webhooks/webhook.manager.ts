@@ -1,9 +1,34 @@
 // src/lib/payment/webhooks/webhook.manager.ts
 import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { WebhookEvent, WebhookEndpoint, WebhookEventType } from './types';
+import {
+  WebhookEvent,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookDeliveryQuery
+} from './types';
 import { WebhookStore } from './webhook.store';
-import { EventEmitter } from './event.emitter';
+import { EventEmitter } from '../events/event.emitter';
+import { buildDeliveryRequest, WebhookDeliveryRequest } from './webhook-delivery.worker';
+import { verifyWebhookSignature, DEFAULT_SIGNATURE_TOLERANCE_SECONDS } from './webhook.signature';
+import { errorHandler, ErrorCode } from '../utils/error';
+
+export interface WebhookDeliveryDetails {
+  delivery: WebhookDelivery;
+  // What the next (or last) attempt sends
+  request: WebhookDeliveryRequest;
+  // Every attempt with its status code, latency and response excerpt
+  attempts: WebhookDeliveryAttempt[];
+}
+
+// Upper bound on failed deliveries resent by one bulk redelivery
+const MAX_BULK_REDELIVERIES = 1000;
+
+// How long the old secret keeps signing after a rotation by default
+const DEFAULT_ROTATION_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
 
 export class WebhookManager {
   constructor(
@@ -39,82 +64,191 @@ export class WebhookManager {
     return endpoint;
   }
 
-  async processEvent(type: WebhookEventType, data: any): Promise<void> {
+  /**
+   * Queue a delivery of the event to every active endpoint subscribed to
+   * it. The WebhookDeliveryWorker sends them and retries failures.
+   */
+  async processEvent(type: WebhookEventType, data: any): Promise<WebhookDelivery[]> {
     const endpoints = await this.store.getEndpointsByEvent(type);
+    const deliveries: WebhookDelivery[] = [];
 
     const event: WebhookEvent = {
       id: uuidv4(),
       type,
       data,
-      timestamp: new Date(),
-      signature: ''
+      timestamp: new Date()
     };
 
     for (const endpoint of endpoints) {
       if (endpoint.active) {
-        event.signature = this.signPayload(event, endpoint.secret);
-        await this.sendWebhook(endpoint, event);
+        deliveries.push(await this.queueDelivery(endpoint, event));
       }
     }
+
+    return deliveries;
   }
 
-  private async sendWebhook(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<void> {
-    try {
-      const response = await fetch(endpoint.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Signature': event.signature,
-          'X-Webhook-ID': event.id
-        },
-        body: JSON.stringify(event)
-      });
-
-      if (!response.ok) {
-        throw new Error(`Webhook delivery failed: ${response.statusText}`);
-      }
-    } catch (error) {
-      // Log error and potentially retry
-      console.error(`Webhook delivery failed for endpoint ${endpoint.id}:`, error);
-      await this.handleWebhookFailure(endpoint, event, error);
-    }
+  /**
+   * Publish a payment event. Endpoints subscribed to it are queued a
+   * delivery by the listener set up in the constructor.
+   */
+  async emitEvent(type: string, data: Record<string, any>): Promise<void> {
+    await this.eventEmitter.emit(type, data);
   }
 
-  verifySignature(payload: string, signature: string, secret: string): boolean {
-    const expectedSignature = this.generateSignature(payload, secret);
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
+  async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+    return this.store.getEndpoint(id);
   }
 
-  private generateSecret(): string {
-    return crypto.randomBytes(32).toString('hex');
+  /**
+   * Replace the endpoint's secret. Deliveries are signed with both the old
+   * and the new secret until the grace period ends.
+   * @returns The endpoint with its new secret
+   */
+  async rotateSecret(
+    endpointId: string,
+    gracePeriodMs: number = DEFAULT_ROTATION_GRACE_PERIOD_MS
+  ): Promise<WebhookEndpoint> {
+    const endpoint = await this.requireEndpoint(endpointId);
+    const now = new Date();
+
+    const rotated: WebhookEndpoint = {
+      ...endpoint,
+      secret: this.generateSecret(),
+      previousSecret: gracePeriodMs > 0 ? endpoint.secret : undefined,
+      previousSecretExpiresAt: gracePeriodMs > 0 ? new Date(now.getTime() + gracePeriodMs) : undefined,
+      updatedAt: now
+    };
+
+    await this.store.saveEndpoint(rotated);
+    return rotated;
   }
 
-  private signPayload(event: WebhookEvent, secret: string): string {
-    const payload = JSON.stringify(event);
-    return this.generateSignature(payload, secret);
+  async getDeliveries(endpointId: string, query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    await this.requireEndpoint(endpointId);
+    return this.store.getDeliveries(endpointId, query);
   }
 
-  private generateSignature(payload: string, secret: string): string {
-    return crypto
-      .createHmac('sha256', secret)
-      .update(payload)
-      .digest('hex');
+  async getDeliveryDetails(endpointId: string, deliveryId: string): Promise<WebhookDeliveryDetails> {
+    const endpoint = await this.requireEndpoint(endpointId);
+    const delivery = await this.requireDelivery(endpointId, deliveryId);
+    const attempts = await this.store.getDeliveryAttempts(deliveryId);
+
+    return {
+      delivery,
+      request: buildDeliveryRequest(endpoint, delivery, Math.max(delivery.attempts, 1), delivery.lastAttemptAt),
+      attempts
+    };
   }
 
-  private async handleWebhookFailure(
+  /**
+   * Send the event of an earlier delivery again as a new delivery. The event
+   * keeps its id so the endpoint can tell it has seen it before.
+   */
+  async redeliver(endpointId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const endpoint = await this.requireActiveEndpoint(endpointId);
+    const original = await this.requireDelivery(endpointId, deliveryId);
+
+    return this.queueDelivery(endpoint, original.event, original.id);
+  }
+
+  /**
+   * Redeliver every delivery to the endpoint that failed for good and was
+   * created in [startDate, endDate)
+   */
+  async redeliverFailed(endpointId: string, startDate: Date, endDate: Date): Promise<WebhookDelivery[]> {
+    const endpoint = await this.requireActiveEndpoint(endpointId);
+    const failed = await this.store.getDeliveries(endpointId, {
+      status: WebhookDeliveryStatus.FAILED,
+      startDate,
+      endDate,
+      limit: MAX_BULK_REDELIVERIES
+    });
+
+    const deliveries: WebhookDelivery[] = [];
+    // Oldest first so the endpoint sees events in their original order
+    for (const original of failed.reverse()) {
+      deliveries.push(await this.queueDelivery(endpoint, original.event, original.id));
+    }
+
+    return deliveries;
+  }
+
+  private async queueDelivery(
     endpoint: WebhookEndpoint,
     event: WebhookEvent,
-    error: Error
-  ): Promise<void> {
-    // Implement retry logic or store failed webhooks
-    await this.store.saveFailedWebhook({
-      endpoint,
-      event,
-      error: error.message,
-      timestamp: new Date()
-    });
+    redeliveryOf?: string
+  ): Promise<WebhookDelivery> {
+    const now = new Date();
+
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      endpointId: endpoint.id,
+      event: { ...event },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      redeliveryOf,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.saveDelivery(delivery);
+    return delivery;
+  }
+
+  private async requireEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.store.getEndpoint(endpointId);
+    if (!endpoint) {
+      throw errorHandler.createError(
+        `Webhook ${endpointId} not found`,
+        ErrorCode.WEBHOOK_NOT_FOUND,
+        { endpointId }
+      );
+    }
+
+    return endpoint;
+  }
+
+  private async requireActiveEndpoint(endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.requireEndpoint(endpointId);
+    if (!endpoint.active) {
+      throw errorHandler.createError(
+        `Webhook ${endpointId} is disabled; re-enable it before redelivering`,
+        ErrorCode.WEBHOOK_DISABLED,
+        { endpointId, disabledReason: endpoint.disabledReason }
+      );
+    }
+
+    return endpoint;
+  }
+
+  private async requireDelivery(endpointId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.store.getDelivery(deliveryId);
+    if (!delivery || delivery.endpointId !== endpointId) {
+      throw errorHandler.createError(
+        `Webhook delivery ${deliveryId} not found`,
+        ErrorCode.WEBHOOK_DELIVERY_NOT_FOUND,
+        { endpointId, deliveryId }
+      );
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Verify a `t=...,v1=...` signature header on an inbound webhook
+   */
+  verifySignature(
+    payload: string,
+    signature: string,
+    secret: string | string[],
+    toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+  ): boolean {
+    return verifyWebhookSignature(payload, signature, secret, { toleranceSeconds });
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
   }
 }
\ No newline at end of file
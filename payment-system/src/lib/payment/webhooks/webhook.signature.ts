@@ -0,0 +1,138 @@
+// src/lib/payment/webhooks/webhook.signature.ts
+import crypto from 'crypto';
+import { WebhookEndpoint } from './types';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const SIGNATURE_VERSION = 'v1';
+
+// How far the signed timestamp may be from the receiver's clock
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface ParsedSignatureHeader {
+  timestamp: number;
+  signatures: string[];
+}
+
+export interface VerifySignatureOptions {
+  toleranceSeconds?: number;
+  // Current time in seconds, for testing
+  now?: number;
+}
+
+/**
+ * Build a signature header of the form `t=<unix seconds>,v1=<hex>`.
+ *
+ * The HMAC covers `<timestamp>.<payload>`, so a captured request cannot be
+ * replayed once the tolerance window has passed. Each secret adds its own
+ * `v1` entry, which lets an endpoint keep verifying with its old secret
+ * while a rotation is in progress.
+ */
+export function createSignatureHeader(
+  payload: string,
+  secrets: string[],
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signatures = secrets.map(
+    secret => `${SIGNATURE_VERSION}=${computeSignature(payload, secret, timestamp)}`
+  );
+
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+/**
+ * Split a signature header into its timestamp and `v1` signatures.
+ * Entries for other versions are ignored.
+ * @returns Null if the header has no valid timestamp or no signature
+ */
+export function parseSignatureHeader(header: string): ParsedSignatureHeader | null {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (key === 't') {
+      timestamp = /^\d+$/.test(value) ? parseInt(value, 10) : undefined;
+    } else if (key === SIGNATURE_VERSION && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Check a signature header against the raw request body. Merchants can use
+ * this to verify webhooks we send them; pass both secrets while rotating.
+ *
+ * @param payload The raw body exactly as received
+ * @param header The value of the X-Webhook-Signature header
+ * @param secret The endpoint secret, or several accepted secrets
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string,
+  secret: string | string[],
+  options: VerifySignatureOptions = {}
+): boolean {
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return false;
+  }
+
+  const tolerance = options.toleranceSeconds !== undefined
+    ? options.toleranceSeconds
+    : DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = options.now !== undefined ? options.now : Math.floor(Date.now() / 1000);
+
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    return false;
+  }
+
+  const secrets = Array.isArray(secret) ? secret : [secret];
+
+  return secrets.some(candidate => {
+    const expected = Buffer.from(computeSignature(payload, candidate, parsed.timestamp));
+
+    return parsed.signatures.some(signature => {
+      const actual = Buffer.from(signature);
+      // timingSafeEqual throws on buffers of different length
+      return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+    });
+  });
+}
+
+/**
+ * Secrets that sign deliveries to the endpoint at the given time: the
+ * current one, plus the previous one while its grace period lasts
+ */
+export function getSigningSecrets(endpoint: WebhookEndpoint, at: Date = new Date()): string[] {
+  const secrets = [endpoint.secret];
+
+  if (
+    endpoint.previousSecret &&
+    endpoint.previousSecretExpiresAt &&
+    new Date(endpoint.previousSecretExpiresAt) > at
+  ) {
+    secrets.push(endpoint.previousSecret);
+  }
+
+  return secrets;
+}
+
+function computeSignature(payload: string, secret: string, timestamp: number): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+}
@@ -1,10 +1,19 @@
-import { WebhookEndpoint, WebhookEvent, WebhookEventType } from '../webhooks/types';
+import {
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookDeliveryQuery
+} from '../webhooks/types';
 
 export interface FailedWebhook {
   endpoint: WebhookEndpoint;
   event: WebhookEvent;
   error: string;
   timestamp: Date;
+  deliveryId?: string;
 }
 
 export abstract class WebhookStore {
@@ -14,12 +23,43 @@ export abstract class WebhookStore {
   abstract getEndpointsByEvent(eventType: WebhookEventType): Promise<WebhookEndpoint[]>;
   abstract saveFailedWebhook(webhook: FailedWebhook): Promise<void>;
   abstract getFailedWebhooks(endpointId: string): Promise<FailedWebhook[]>;
+
+  abstract saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  abstract getDelivery(id: string): Promise<WebhookDelivery | null>;
+
+  /**
+   * Deliveries to one endpoint, newest first. The date range applies to
+   * when the delivery was created.
+   */
+  abstract getDeliveries(endpointId: string, query?: WebhookDeliveryQuery): Promise<WebhookDelivery[]>;
+
+  /**
+   * Take up to `limit` pending deliveries that are due. Claimed deliveries
+   * are pushed `leaseMs` into the future so other workers skip them.
+   */
+  abstract claimDueDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]>;
+  abstract saveDeliveryAttempt(attempt: WebhookDeliveryAttempt): Promise<void>;
+  abstract getDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]>;
+
+  /**
+   * Update the failure streak of an endpoint after an attempt
+   * @returns The endpoint as updated, or null if it no longer exists
+   */
+  abstract recordEndpointResult(endpointId: string, succeeded: boolean, at: Date): Promise<WebhookEndpoint | null>;
+
+  /**
+   * Deactivate an endpoint
+   * @returns False if it was already inactive
+   */
+  abstract disableEndpoint(endpointId: string, reason: string, at: Date): Promise<boolean>;
 }
 
 // In-memory implementation for development and testing
 export class InMemoryWebhookStore extends WebhookStore {
   private endpoints: Map<string, WebhookEndpoint> = new Map();
   private failedWebhooks: FailedWebhook[] = [];
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+  private attempts: WebhookDeliveryAttempt[] = [];
 
   async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
     this.endpoints.set(endpoint.id, { ...endpoint });
@@ -49,4 +89,79 @@ export class InMemoryWebhookStore extends WebhookStore {
       .filter(webhook => webhook.endpoint.id === endpointId)
       .map(webhook => ({ ...webhook }));
   }
-}
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? { ...delivery } : null;
+  }
+
+  async getDeliveries(endpointId: string, query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    const offset = query.offset || 0;
+
+    return Array.from(this.deliveries.values())
+      .filter(d =>
+        d.endpointId === endpointId &&
+        (!query.eventType || d.event.type === query.eventType) &&
+        (!query.status || d.status === query.status) &&
+        (!query.startDate || d.createdAt >= query.startDate) &&
+        (!query.endDate || d.createdAt < query.endDate)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, query.limit ? offset + query.limit : undefined)
+      .map(delivery => ({ ...delivery }));
+  }
+
+  async claimDueDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    const now = new Date();
+
+    return Array.from(this.deliveries.values())
+      .filter(d => d.status === WebhookDeliveryStatus.PENDING && (!d.nextAttemptAt || d.nextAttemptAt <= now))
+      .sort((a, b) => (a.nextAttemptAt || a.createdAt).getTime() - (b.nextAttemptAt || b.createdAt).getTime())
+      .slice(0, limit)
+      .map(delivery => {
+        delivery.nextAttemptAt = new Date(now.getTime() + leaseMs);
+        return { ...delivery };
+      });
+  }
+
+  async saveDeliveryAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    this.attempts.push({ ...attempt });
+  }
+
+  async getDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    return this.attempts
+      .filter(attempt => attempt.deliveryId === deliveryId)
+      .sort((a, b) => a.attemptNumber - b.attemptNumber)
+      .map(attempt => ({ ...attempt }));
+  }
+
+  async recordEndpointResult(endpointId: string, succeeded: boolean, at: Date): Promise<WebhookEndpoint | null> {
+    const endpoint = this.endpoints.get(endpointId);
+    if (!endpoint) {
+      return null;
+    }
+
+    endpoint.consecutiveFailures = succeeded ? 0 : (endpoint.consecutiveFailures || 0) + 1;
+    endpoint.failingSince = succeeded ? undefined : endpoint.failingSince || at;
+
+    return { ...endpoint };
+  }
+
+  async disableEndpoint(endpointId: string, reason: string, at: Date): Promise<boolean> {
+    const endpoint = this.endpoints.get(endpointId);
+    if (!endpoint || !endpoint.active) {
+      return false;
+    }
+
+    endpoint.active = false;
+    endpoint.disabledAt = at;
+    endpoint.disabledReason = reason;
+    endpoint.updatedAt = at;
+
+    return true;
+  }
+}
\ No newline at end of file
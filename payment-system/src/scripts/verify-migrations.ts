@@ -2,6 +2,28 @@
 import { initializeDatabase } from '../lib/payment/config/database.config';
 import { MigrationManager } from '../lib/payment/database/migration';
 import { initialSchemaMigration } from '../lib/payment/database/001_initial_schema';
+import { refundLedgerMigration } from '../lib/payment/database/002_refund_ledger';
+import { disputesMigration } from '../lib/payment/database/003_disputes';
+import { subscriptionsMigration } from '../lib/payment/database/004_subscriptions';
+import { subscriptionCreditMigration } from '../lib/payment/database/005_subscription_credit';
+import { dunningMigration } from '../lib/payment/database/006_dunning';
+import { invoicesMigration } from '../lib/payment/database/007_invoices';
+import { ledgerMigration } from '../lib/payment/database/008_ledger';
+import { transactionFeesMigration } from '../lib/payment/database/009_transaction_fees';
+import { transactionProviderMigration } from '../lib/payment/database/010_transaction_provider';
+import { idempotencyKeysMigration } from '../lib/payment/database/011_idempotency_keys';
+import { recordLocksMigration } from '../lib/payment/database/012_record_locks';
+import { outboxMigration } from '../lib/payment/database/013_outbox';
+import { eventSchemaVersionMigration } from '../lib/payment/database/014_event_schema_version';
+import { eventReplayIndexMigration } from '../lib/payment/database/015_event_replay_index';
+import { webhookDeliveriesMigration } from '../lib/payment/database/016_webhook_deliveries';
+import { webhookRedeliveriesMigration } from '../lib/payment/database/017_webhook_redeliveries';
+import { webhookSecretRotationMigration } from '../lib/payment/database/018_webhook_secret_rotation';
+import { inboundWebhookEventsMigration } from '../lib/payment/database/019_inbound_webhook_events';
+import { transactionStatusHistoryMigration } from '../lib/payment/database/020_transaction_status_history';
+import { transactionProviderReferenceMigration } from '../lib/payment/database/021_transaction_provider_reference';
+import { inboundWebhookClaimsMigration } from '../lib/payment/database/022_inbound_webhook_claims';
+import { outboxSchemaVersionMigration } from '../lib/payment/database/023_outbox_schema_version';
 import { PaymentLogger } from '../lib/payment/utils/logger';
 
 const logger = new PaymentLogger('info', 'MigrationVerifier');
@@ -21,17 +43,43 @@ async function verifyMigrations() {
     logger.info('Migration manager initialized');
 
     // Register migrations
-    migrationManager.registerMigration(initialSchemaMigration);
-    logger.info('Initial schema migration registered');
+    const migrations = [
+      initialSchemaMigration,
+      refundLedgerMigration,
+      disputesMigration,
+      subscriptionsMigration,
+      subscriptionCreditMigration,
+      dunningMigration,
+      invoicesMigration,
+      ledgerMigration,
+      transactionFeesMigration,
+      transactionProviderMigration,
+      idempotencyKeysMigration,
+      recordLocksMigration,
+      outboxMigration,
+      eventSchemaVersionMigration,
+      eventReplayIndexMigration,
+      webhookDeliveriesMigration,
+      webhookRedeliveriesMigration,
+      webhookSecretRotationMigration,
+      inboundWebhookEventsMigration,
+      transactionStatusHistoryMigration,
+      transactionProviderReferenceMigration,
+      inboundWebhookClaimsMigration,
+      outboxSchemaVersionMigration
+    ];
+    migrations.forEach(migration => migrationManager.registerMigration(migration));
+    logger.info(`Registered ${migrations.length} migrations`);
 
     // Check current version
     const currentVersion = await migrationManager.getCurrentVersion();
     logger.info(`Current database version: ${currentVersion}`);
 
     // Run migrations if needed
-    if (currentVersion < initialSchemaMigration.version) {
-      logger.info(`Migrating database to version ${initialSchemaMigration.version}`);
-      await migrationManager.migrateToVersion(initialSchemaMigration.version, { backup: true });
+    const latestVersion = migrations[migrations.length - 1].version;
+    if (currentVersion < latestVersion) {
+      logger.info(`Migrating database to version ${latestVersion}`);
+      await migrationManager.migrateToLatest({ backup: true });
       logger.info('Migration completed');
     } else {
       logger.info('Database is already at the latest version');
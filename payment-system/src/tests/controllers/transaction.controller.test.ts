@@ -550,6 +550,46 @@ describe('TransactionController', () => {
     expect(updatedTransaction?.status).toBe(TransactionStatus.COMPLETED);
   });
   
+  test('updateTransactionStatus should return 409 for an illegal transition', async () => {
+    // Arrange
+    const transaction = {
+      id: uuidv4(),
+      type: TransactionType.PAYMENT,
+      status: TransactionStatus.COMPLETED,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm-123',
+      idempotencyKey: 'idem-123',
+      retryCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    
+    await transactionStore.save(transaction);
+    
+    const req = mockRequest(
+      { id: transaction.id }, 
+      { status: TransactionStatus.PENDING }
+    );
+    
+    const res = mockResponse();
+    
+    // Act
+    await transactionController.updateTransactionStatus(req, res);
+    
+    // Assert
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'transaction_invalid_state' })
+    );
+    
+    // Verify transaction was left as it was
+    const unchangedTransaction = await transactionStore.get(transaction.id);
+    expect(unchangedTransaction?.status).toBe(TransactionStatus.COMPLETED);
+    expect(await transactionStore.getStatusHistory(transaction.id)).toEqual([]);
+  });
+  
   test('retryTransaction should schedule a retry for a failed transaction', async () => {
     // Arrange
     const transaction = {
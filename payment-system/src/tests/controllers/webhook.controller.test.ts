@@ -6,6 +6,14 @@ import { WebhookManager } from '../../lib/payment/webhooks/webhook.manager';
 import { TransactionManager } from '../../lib/payment/transaction/managers/transaction.manager';
 import { InMemoryTransactionStore } from '../../lib/payment/transaction/store/transaction.store';
 import { InMemoryWebhookStore } from '../../lib/payment/webhooks/webhook.store';
+import {
+  InMemoryInboundWebhookStore,
+  InboundWebhookOutcome,
+  DEFAULT_CLAIM_TIMEOUT_MS
+} from '../../lib/payment/webhooks/inbound-webhook.store';
+import { AuditManager } from '../../lib/payment/compliance/audit.manager';
+import { DisputeManager } from '../../lib/payment/disputes/dispute.manager';
+import { InMemoryDisputeStore } from '../../lib/payment/disputes/dispute.store';
 import { EventEmitter } from '../../lib/payment/events/event.emitter';
 import { EventStore } from '../../lib/payment/events/event.store';
 import { TransactionStatus, TransactionType } from '../../lib/payment/types/transaction.types';
@@ -500,4 +508,266 @@ describe('WebhookController', () => {
     expect(events['payment.failed']).toBeDefined();
     expect(events['payment.failed'][0].transactionId).toBe(transactionId);
   });
+  
+  describe('inbound event ordering', () => {
+    let inboundWebhookStore: InMemoryInboundWebhookStore;
+    let auditManager: AuditManager;
+    let controller: WebhookController;
+    
+    beforeEach(() => {
+      inboundWebhookStore = new InMemoryInboundWebhookStore();
+      auditManager = new AuditManager(eventEmitter);
+      
+      // Signature checks are covered above, so these events go unverified
+      controller = new WebhookController(
+        webhookManager,
+        transactionManager,
+        {},
+        undefined,
+        inboundWebhookStore,
+        auditManager
+      );
+    });
+    
+    const createProcessingTransaction = async () => {
+      const transaction = {
+        id: uuidv4(),
+        type: TransactionType.PAYMENT,
+        status: TransactionStatus.PROCESSING,
+        amount: 100,
+        currency: 'USD',
+        customerId: 'customer-123',
+        paymentMethodId: 'pm-123',
+        idempotencyKey: `idem-${uuidv4()}`,
+        retryCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      
+      await transactionStore.save(transaction);
+      return transaction;
+    };
+    
+    const sendStripeEvent = async (type: string, transactionId: string, created: number, id = `evt_${uuidv4()}`) => {
+      const eventData = {
+        id,
+        type,
+        created,
+        data: {
+          object: {
+            id: `pi_${uuidv4()}`,
+            amount: 10000,
+            currency: 'usd',
+            metadata: { transactionId },
+            last_payment_error: { code: 'card_declined', message: 'Your card was declined' }
+          }
+        }
+      };
+      
+      const req = mockRequest({}, eventData, { 'stripe-signature': 't=0,v1=unverified' });
+      const res = mockResponse();
+      
+      await controller.handleStripeWebhook(req, res);
+      return { id, res };
+    };
+    
+    test('should skip an event that was already processed', async () => {
+      // Arrange
+      const transaction = await createProcessingTransaction();
+      const created = Math.floor(Date.now() / 1000);
+      const { id } = await sendStripeEvent('payment_intent.succeeded', transaction.id, created);
+      const logAction = jest.spyOn(auditManager, 'logAction');
+      
+      // Act
+      const { res } = await sendStripeEvent('payment_intent.succeeded', transaction.id, created, id);
+      
+      // Assert
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ received: true, duplicate: true });
+      expect((await inboundWebhookStore.get('stripe', id))?.outcome).toBe(InboundWebhookOutcome.APPLIED);
+      expect(logAction).toHaveBeenCalledWith(
+        'webhook.ignored',
+        'inbound_webhook',
+        id,
+        'stripe',
+        undefined,
+        expect.objectContaining({ reason: 'duplicate_event' })
+      );
+    });
+    
+    test('should not let an older event undo a newer one', async () => {
+      // Arrange
+      const transaction = await createProcessingTransaction();
+      const created = Math.floor(Date.now() / 1000);
+      await sendStripeEvent('payment_intent.succeeded', transaction.id, created);
+      
+      // Act
+      const { id } = await sendStripeEvent('payment_intent.payment_failed', transaction.id, created - 60);
+      
+      // Assert
+      expect((await transactionStore.get(transaction.id))?.status).toBe(TransactionStatus.COMPLETED);
+      expect(await inboundWebhookStore.get('stripe', id)).toMatchObject({
+        outcome: InboundWebhookOutcome.STALE,
+        transactionId: transaction.id
+      });
+    });
+    
+    test('should keep an applied event applied when publishing it fails', async () => {
+      // Arrange
+      const transaction = await createProcessingTransaction();
+      jest.spyOn(webhookManager, 'emitEvent').mockRejectedValue(new Error('event bus unavailable'));
+      
+      // Act
+      const { id, res } = await sendStripeEvent('payment_intent.succeeded', transaction.id, Math.floor(Date.now() / 1000));
+      
+      // Assert
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect((await transactionStore.get(transaction.id))?.status).toBe(TransactionStatus.COMPLETED);
+      expect((await inboundWebhookStore.get('stripe', id))?.outcome).toBe(InboundWebhookOutcome.APPLIED);
+    });
+    
+    test('should ask for a redelivery when processing fails and apply the redelivered event', async () => {
+      // Arrange
+      const transaction = await createProcessingTransaction();
+      const created = Math.floor(Date.now() / 1000);
+      jest.spyOn(transactionManager, 'updateTransactionStatus').mockRejectedValueOnce(new Error('connection lost'));
+      const failed = await sendStripeEvent('payment_intent.succeeded', transaction.id, created);
+      
+      // Act
+      const { res } = await sendStripeEvent('payment_intent.succeeded', transaction.id, created, failed.id);
+      
+      // Assert
+      expect(failed.res.status).toHaveBeenCalledWith(500);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect((await transactionStore.get(transaction.id))?.status).toBe(TransactionStatus.COMPLETED);
+      expect((await inboundWebhookStore.get('stripe', failed.id))?.outcome).toBe(InboundWebhookOutcome.APPLIED);
+    });
+    
+    test('should take over an event whose processing never finished once its claim times out', async () => {
+      // Arrange
+      const transaction = await createProcessingTransaction();
+      const created = Math.floor(Date.now() / 1000);
+      const id = `evt_${uuidv4()}`;
+      const claimedAt = Date.now();
+      // A process that crashed mid-way leaves the claim without an outcome
+      await inboundWebhookStore.claim({
+        provider: 'stripe',
+        eventId: id,
+        eventType: 'payment_intent.succeeded',
+        eventCreatedAt: new Date(created * 1000),
+        receivedAt: new Date(claimedAt)
+      });
+      const retried = await sendStripeEvent('payment_intent.succeeded', transaction.id, created, id);
+      jest.spyOn(Date, 'now').mockReturnValue(claimedAt + DEFAULT_CLAIM_TIMEOUT_MS);
+      
+      // Act
+      const { res } = await sendStripeEvent('payment_intent.succeeded', transaction.id, created, id);
+      
+      // Assert
+      expect(retried.res.json).toHaveBeenCalledWith({ received: true, duplicate: true });
+      expect(res.json).toHaveBeenCalledWith({ received: true });
+      expect((await transactionStore.get(transaction.id))?.status).toBe(TransactionStatus.COMPLETED);
+      expect((await inboundWebhookStore.get('stripe', id))?.outcome).toBe(InboundWebhookOutcome.APPLIED);
+    });
+    
+    test('should audit each applied and refused status change', async () => {
+      // Arrange
+      const transaction = await createProcessingTransaction();
+      const created = Math.floor(Date.now() / 1000);
+      const logAction = jest.spyOn(auditManager, 'logAction');
+      
+      // Act
+      const applied = await sendStripeEvent('payment_intent.succeeded', transaction.id, created);
+      const refused = await sendStripeEvent('payment_intent.payment_failed', transaction.id, created - 60);
+      
+      // Assert
+      expect(logAction).toHaveBeenCalledWith(
+        'webhook.applied',
+        'transaction',
+        transaction.id,
+        'stripe',
+        { status: { from: TransactionStatus.PROCESSING, to: TransactionStatus.COMPLETED } },
+        expect.objectContaining({ reason: 'status_applied', eventId: applied.id })
+      );
+      expect(logAction).toHaveBeenCalledWith(
+        'webhook.stale',
+        'transaction',
+        transaction.id,
+        'stripe',
+        undefined,
+        expect.objectContaining({
+          reason: 'older_than_last_applied',
+          eventId: refused.id,
+          lastAppliedEventId: applied.id
+        })
+      );
+    });
+  });
+  
+  describe('dispute events', () => {
+    let disputeStore: InMemoryDisputeStore;
+    let controller: WebhookController;
+    
+    beforeEach(() => {
+      disputeStore = new InMemoryDisputeStore();
+      controller = new WebhookController(
+        webhookManager,
+        transactionManager,
+        {},
+        new DisputeManager(disputeStore, transactionManager, { eventEmitter })
+      );
+    });
+    
+    test('should find the disputed payment by its provider payment intent', async () => {
+      // Arrange
+      const transaction = {
+        id: uuidv4(),
+        type: TransactionType.PAYMENT,
+        status: TransactionStatus.COMPLETED,
+        amount: 100,
+        currency: 'USD',
+        customerId: 'customer-123',
+        paymentMethodId: 'pm-123',
+        idempotencyKey: `idem-${uuidv4()}`,
+        retryCount: 0,
+        metadata: { providerTransactionId: 'pi_disputed' },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      await transactionStore.save(transaction);
+      
+      // Stripe sends the payment intent and charge as bare IDs, without our metadata
+      const eventData = {
+        id: `evt_${uuidv4()}`,
+        type: 'charge.dispute.created',
+        created: Math.floor(Date.now() / 1000),
+        data: {
+          object: {
+            id: 'dp_123',
+            charge: 'ch_disputed',
+            payment_intent: 'pi_disputed',
+            amount: 10000,
+            currency: 'usd',
+            status: 'needs_response',
+            reason: 'fraudulent',
+            metadata: {}
+          }
+        }
+      };
+      
+      const req = mockRequest({}, eventData, { 'stripe-signature': 't=0,v1=unverified' });
+      const res = mockResponse();
+      
+      // Act
+      await controller.handleStripeWebhook(req, res);
+      
+      // Assert
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(await disputeStore.findByProviderDisputeId('dp_123')).toMatchObject({
+        paymentTransactionId: transaction.id,
+        providerChargeId: 'ch_disputed',
+        amount: 100
+      });
+    });
+  });
 });
@@ -0,0 +1,226 @@
+// src/tests/payment/database-record-locker.test.ts
+
+import { DatabaseRecordLocker } from '../../lib/payment/utils/database-record-locker';
+import { RecordLocker, LockLevel } from '../../lib/payment/utils/record-locker';
+import { createRecordLocker } from '../../lib/payment/utils/record-locker.factory';
+import { ErrorCode } from '../../lib/payment/utils/error';
+
+describe('DatabaseRecordLocker', () => {
+  let pool: { query: jest.Mock; connect: jest.Mock };
+  let client: { query: jest.Mock; release: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+  let existingLocks: Array<{ lock_level: LockLevel }>;
+  let recordLocker: DatabaseRecordLocker;
+
+  const lockRow = (overrides: Record<string, any> = {}) => ({
+    lock_id: 'lock-1',
+    resource_type: 'transaction',
+    record_id: 'tx-1',
+    lock_level: LockLevel.EXCLUSIVE,
+    owner: 'instance-1',
+    owner_transaction: null,
+    fencing_token: '42',
+    metadata: {},
+    acquired_at: new Date(),
+    last_renewed: null,
+    expires_at: new Date(Date.now() + 30000),
+    ...overrides
+  });
+
+  const statements = () => client.query.mock.calls.map(([sql]) => sql.trim().split(/\s+/)[0]);
+
+  beforeEach(() => {
+    existingLocks = [];
+    client = {
+      release: jest.fn(),
+      query: jest.fn().mockImplementation(async (sql: string, params: any[] = []) => {
+        if (sql.startsWith('SELECT lock_level')) {
+          return { rows: existingLocks };
+        }
+        if (sql.includes('INSERT INTO record_locks')) {
+          return { rows: [lockRow({ lock_id: params[0], lock_level: params[3], owner_transaction: params[5] })] };
+        }
+        return { rows: [] };
+      })
+    };
+    pool = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      connect: jest.fn().mockResolvedValue(client)
+    };
+    eventEmitter = { emit: jest.fn().mockResolvedValue(true) };
+    recordLocker = new DatabaseRecordLocker(pool as any, {
+      instanceId: 'instance-1',
+      eventEmitter: eventEmitter as any
+    });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    recordLocker.dispose();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should grant a lock under the advisory lock of the record', async () => {
+    // Act
+    const lockId = await recordLocker.acquireLock('tx-1', 'transaction', { transactionId: 'tx-owner' });
+
+    // Assert
+    expect(statements()).toEqual(['BEGIN', 'SELECT', 'DELETE', 'SELECT', 'INSERT', 'COMMIT']);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('pg_advisory_xact_lock'), ['transaction:tx-1']);
+    expect(client.release).toHaveBeenCalled();
+    expect(recordLocker.getFencingToken(lockId)).toBe(42);
+    expect(recordLocker.isLocked('tx-1', 'transaction')).toBe(true);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('lock.acquired', expect.objectContaining({
+      lockId,
+      owner: 'instance-1',
+      transactionId: 'tx-owner',
+      fencingToken: 42
+    }));
+  });
+
+  test('should let shared locks coexist but keep an exclusive request waiting', async () => {
+    // Arrange
+    existingLocks = [{ lock_level: LockLevel.SHARED }];
+
+    // Act
+    const sharedLockId = await recordLocker.acquireLock('tx-1', 'transaction', { lockLevel: LockLevel.SHARED });
+    const exclusive = recordLocker.acquireLock('tx-1', 'transaction', { waitTimeoutMs: 50, retryIntervalMs: 10 });
+
+    // Assert
+    expect(sharedLockId).toEqual(expect.any(String));
+    await expect(exclusive).rejects.toMatchObject({ code: ErrorCode.LOCK_TIMEOUT });
+    await expect(recordLocker.acquireLock('tx-1', 'transaction', { waitTimeoutMs: 0 })).rejects.toMatchObject({
+      code: ErrorCode.LOCK_ACQUISITION_FAILED
+    });
+    expect(recordLocker.getMetrics()).toEqual(expect.objectContaining({
+      totalLocks: 1,
+      sharedLocks: 1,
+      waitingRequests: 0
+    }));
+  });
+
+  test('should roll back and wrap a database failure', async () => {
+    // Arrange
+    const query = client.query.getMockImplementation()!;
+    client.query.mockImplementation(async (sql: string, params?: any[]) => {
+      if (sql.includes('INSERT INTO record_locks')) {
+        throw new Error('connection reset');
+      }
+      return query(sql, params);
+    });
+
+    // Act & Assert
+    await expect(recordLocker.acquireLock('tx-1', 'transaction')).rejects.toMatchObject({
+      code: ErrorCode.DATABASE_ERROR
+    });
+    expect(statements()).toContain('ROLLBACK');
+    expect(statements()).not.toContain('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  test('should release only locks owned by this instance', async () => {
+    // Arrange
+    const lockId = await recordLocker.acquireLock('tx-1', 'transaction');
+    pool.query.mockResolvedValueOnce({ rows: [lockRow({ lock_id: lockId })] });
+
+    // Act
+    const released = await recordLocker.releaseLock('tx-1', 'transaction', lockId);
+    const releasedAgain = await recordLocker.releaseLock('tx-1', 'transaction', lockId);
+
+    // Assert
+    expect(released).toBe(true);
+    expect(releasedAgain).toBe(false);
+    expect(pool.query).toHaveBeenCalledWith(
+      expect.stringContaining('DELETE FROM record_locks'),
+      ['transaction', 'tx-1', 'instance-1', lockId]
+    );
+    expect(recordLocker.getFencingToken(lockId)).toBeUndefined();
+    expect(eventEmitter.emit).toHaveBeenCalledWith('lock.released', expect.objectContaining({ lockId }));
+  });
+
+  test('should give an upgraded lock a new fencing token', async () => {
+    // Arrange
+    const lockId = await recordLocker.acquireLock('tx-1', 'transaction', { lockLevel: LockLevel.SHARED });
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT * FROM record_locks')) {
+        return { rows: [lockRow({ lock_id: lockId, lock_level: LockLevel.SHARED })] };
+      }
+      if (sql.includes('UPDATE record_locks')) {
+        return { rows: [lockRow({ lock_id: lockId, fencing_token: '43' })] };
+      }
+      return { rows: [] };
+    });
+
+    // Act
+    await recordLocker.upgradeLock('tx-1', 'transaction', lockId);
+
+    // Assert
+    expect(recordLocker.getFencingToken(lockId)).toBe(43);
+    expect(recordLocker.getLockInfo('tx-1', 'transaction')).toEqual([
+      expect.objectContaining({ lockLevel: LockLevel.EXCLUSIVE, fencingToken: 43 })
+    ]);
+  });
+
+  test('should report a lock whose lease could not be renewed as lost', async () => {
+    // Arrange
+    jest.useFakeTimers();
+    const lockId = await recordLocker.acquireLock('tx-1', 'transaction', { expirationMs: 1000 });
+    pool.query.mockResolvedValueOnce({ rows: [] });
+
+    // Act
+    await jest.advanceTimersByTimeAsync(500);
+
+    // Assert
+    expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE record_locks'), [lockId, 'instance-1', 1000]);
+    expect(recordLocker.isLocked('tx-1', 'transaction')).toBe(false);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('lock.lost', expect.objectContaining({
+      lockId,
+      fencingToken: 42
+    }));
+  });
+
+  test('should refuse to build a lock graph', () => {
+    // Act & Assert
+    expect(() => recordLocker.getLockGraph()).toThrow(expect.objectContaining({
+      code: ErrorCode.CONFIGURATION_ERROR
+    }));
+  });
+});
+
+describe('createRecordLocker', () => {
+  let recordLocker: RecordLocker;
+
+  afterEach(() => {
+    recordLocker.dispose();
+  });
+
+  test('should use the database locker when configured for it', () => {
+    // Arrange
+    const pool = { query: jest.fn(), connect: jest.fn() };
+
+    // Act
+    recordLocker = createRecordLocker({
+      config: { backend: 'database', defaultExpirationMs: 30000 },
+      dbConnection: { getPool: () => pool } as any
+    });
+
+    // Assert
+    expect(recordLocker).toBeInstanceOf(DatabaseRecordLocker);
+  });
+
+  test('should keep locks in memory by default', () => {
+    // Act
+    recordLocker = createRecordLocker({
+      config: { backend: 'memory', defaultExpirationMs: 30000 }
+    });
+
+    // Assert
+    expect(recordLocker).toBeInstanceOf(RecordLocker);
+    expect(recordLocker).not.toBeInstanceOf(DatabaseRecordLocker);
+  });
+});
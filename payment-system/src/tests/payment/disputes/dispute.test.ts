@@ -0,0 +1,191 @@
+// src/tests/payment/disputes/dispute.test.ts
+
+import { DisputeManager, DISPUTE_DEADLINE_RULE } from '../../../lib/payment/disputes/dispute.manager';
+import { InMemoryDisputeStore } from '../../../lib/payment/disputes/dispute.store';
+import { DisputeStatus, ProviderDisputeData } from '../../../lib/payment/disputes/types';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { AlertDetector } from '../../../lib/payment/monitoring/alerts/detector';
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType
+} from '../../../lib/payment/types/transaction.types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('DisputeManager', () => {
+  let transactionManager: TransactionManager;
+  let disputeManager: DisputeManager;
+  let notifier: { sendAlert: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+  let provider: { submitDisputeEvidence: jest.Mock };
+  let payment: Transaction;
+
+  const disputeData = (overrides: Partial<ProviderDisputeData> = {}): ProviderDisputeData => ({
+    providerDisputeId: 'dp_123',
+    providerChargeId: 'ch_123',
+    paymentTransactionId: payment.id,
+    status: 'needs_response',
+    reason: 'fraudulent',
+    amount: 100,
+    currency: 'USD',
+    evidenceDueBy: new Date(Date.now() + 7 * 24 * HOUR),
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    eventEmitter = { emit: jest.fn().mockResolvedValue(undefined) };
+    notifier = { sendAlert: jest.fn().mockResolvedValue(undefined) };
+    provider = {
+      submitDisputeEvidence: jest.fn().mockResolvedValue({ success: true, transactionId: 'dp_123' })
+    };
+
+    transactionManager = new TransactionManager(new InMemoryTransactionStore());
+    disputeManager = new DisputeManager(new InMemoryDisputeStore(), transactionManager, {
+      eventEmitter: eventEmitter as any,
+      alertDetector: new AlertDetector(notifier as any),
+      provider: provider as any,
+      deadlineWarningMs: 48 * HOUR
+    });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Arrange: a completed payment to dispute
+    payment = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-idem-123'
+    });
+    payment = await transactionManager.updateTransactionStatus(
+      payment.id,
+      TransactionStatus.COMPLETED,
+      { providerTransactionId: 'pi_123' }
+    );
+  });
+
+  afterEach(() => {
+    disputeManager.stopDeadlineMonitor();
+    jest.restoreAllMocks();
+  });
+
+  test('should open a dispute with a linked chargeback transaction', async () => {
+    // Act
+    const dispute = await disputeManager.syncDispute(disputeData());
+
+    // Assert
+    expect(dispute.status).toBe(DisputeStatus.NEEDS_RESPONSE);
+    expect(dispute.paymentTransactionId).toBe(payment.id);
+
+    const chargeback = await transactionManager.getTransaction(dispute.chargebackTransactionId);
+    expect(chargeback!.type).toBe(TransactionType.CHARGEBACK);
+    expect(chargeback!.status).toBe(TransactionStatus.PROCESSING);
+    expect(chargeback!.parentTransactionId).toBe(payment.id);
+
+    expect(eventEmitter.emit).toHaveBeenCalledWith('dispute.created', expect.objectContaining({
+      disputeId: dispute.id,
+      paymentTransactionId: payment.id
+    }));
+  });
+
+  test('should not open a second chargeback for a redelivered webhook', async () => {
+    // Act
+    const first = await disputeManager.syncDispute(disputeData());
+    const second = await disputeManager.syncDispute(disputeData());
+
+    // Assert
+    expect(second.id).toBe(first.id);
+    expect(second.chargebackTransactionId).toBe(first.chargebackTransactionId);
+
+    const chargebacks = await transactionManager.getChildTransactions(payment.id, TransactionType.CHARGEBACK);
+    expect(chargebacks).toHaveLength(1);
+  });
+
+  test('should complete the chargeback when the dispute is lost', async () => {
+    // Arrange
+    await disputeManager.syncDispute(disputeData());
+    await disputeManager.syncDispute(disputeData({ status: 'under_review' }));
+
+    // Act
+    const dispute = await disputeManager.syncDispute(disputeData({ status: 'lost' }));
+
+    // Assert
+    expect(dispute.status).toBe(DisputeStatus.LOST);
+    expect(dispute.closedAt).toBeDefined();
+
+    const chargeback = await transactionManager.getTransaction(dispute.chargebackTransactionId);
+    expect(chargeback!.status).toBe(TransactionStatus.COMPLETED);
+  });
+
+  test('should fail the chargeback when the dispute is won', async () => {
+    // Arrange
+    await disputeManager.syncDispute(disputeData());
+
+    // Act
+    const dispute = await disputeManager.syncDispute(disputeData({ status: 'won' }));
+
+    // Assert
+    const chargeback = await transactionManager.getTransaction(dispute.chargebackTransactionId);
+    expect(chargeback!.status).toBe(TransactionStatus.FAILED);
+    expect(chargeback!.metadata!.disputeOutcome).toBe(DisputeStatus.WON);
+  });
+
+  test('should submit evidence and move the dispute under review', async () => {
+    // Arrange
+    const opened = await disputeManager.syncDispute(disputeData());
+
+    // Act
+    const dispute = await disputeManager.submitEvidence(opened.id, {
+      customerName: 'Jane Doe',
+      shippingTrackingNumber: '1Z999'
+    });
+
+    // Assert
+    expect(dispute.status).toBe(DisputeStatus.UNDER_REVIEW);
+    expect(dispute.evidenceSubmittedAt).toBeDefined();
+    expect(provider.submitDisputeEvidence).toHaveBeenCalledWith('dp_123', expect.objectContaining({
+      submit: true,
+      evidence: { customerName: 'Jane Doe', shippingTrackingNumber: '1Z999' }
+    }));
+  });
+
+  test('should reject evidence once the dispute is under review', async () => {
+    // Arrange
+    const opened = await disputeManager.syncDispute(disputeData({ status: 'under_review' }));
+
+    // Act & Assert
+    await expect(
+      disputeManager.submitEvidence(opened.id, { uncategorizedText: 'Late evidence' })
+    ).rejects.toMatchObject({ code: ErrorCode.DISPUTE_INVALID_STATE });
+  });
+
+  test('should alert once when an evidence deadline is close', async () => {
+    // Arrange
+    const urgent = await disputeManager.syncDispute(disputeData({
+      evidenceDueBy: new Date(Date.now() + 12 * HOUR)
+    }));
+    await disputeManager.syncDispute(disputeData({
+      providerDisputeId: 'dp_456',
+      evidenceDueBy: new Date(Date.now() + 10 * 24 * HOUR)
+    }));
+
+    // Act
+    const alerted = await disputeManager.checkEvidenceDeadlines();
+    const alertedAgain = await disputeManager.checkEvidenceDeadlines();
+
+    // Assert
+    expect(alerted.map(dispute => dispute.id)).toEqual([urgent.id]);
+    expect(alertedAgain).toHaveLength(0);
+    expect(notifier.sendAlert).toHaveBeenCalledTimes(1);
+    expect(notifier.sendAlert).toHaveBeenCalledWith(expect.objectContaining({
+      ruleName: DISPUTE_DEADLINE_RULE,
+      severity: 'high'
+    }));
+  });
+});
@@ -0,0 +1,115 @@
+// src/tests/payment/events/event-registry.test.ts
+
+import { z } from 'zod';
+import { EventEmitter } from '../../../lib/payment/events/event.emitter';
+import { EventProcessor } from '../../../lib/payment/events/event.processor';
+import { EventStore } from '../../../lib/payment/events/event.store';
+import { EventSchemaRegistry } from '../../../lib/payment/events/event.registry';
+import { createEventCatalog } from '../../../lib/payment/events/event.catalog';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+import { TransactionStatus } from '../../../lib/payment/types/transaction.types';
+
+describe('Event schema registry', () => {
+  let eventStore: EventStore;
+
+  beforeEach(() => {
+    eventStore = new EventStore();
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should store cataloged events with their schema version', async () => {
+    // Arrange
+    const eventEmitter = new EventEmitter(eventStore, createEventCatalog());
+    eventEmitter.on('transaction.status_changed', async () => {});
+
+    // Act
+    await eventEmitter.emit('transaction.status_changed', {
+      transactionId: 'tx_123',
+      oldStatus: TransactionStatus.PENDING,
+      newStatus: TransactionStatus.PROCESSING,
+      timestamp: new Date()
+    });
+
+    // Assert
+    const [storedEvent] = await eventStore.getUnprocessedEvents();
+    expect(storedEvent.schemaVersion).toBe(1);
+    expect(storedEvent.data._meta.schemaVersion).toBe(1);
+  });
+
+  test('should reject a payload that does not match its schema', async () => {
+    // Arrange
+    const eventEmitter = new EventEmitter(eventStore, createEventCatalog());
+
+    // Act & Assert
+    await expect(eventEmitter.emit('transaction.status_changed', {
+      transactionId: 'tx_123',
+      newStatus: 'SOMETHING_ELSE'
+    })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(await eventStore.getUnprocessedEvents()).toEqual([]);
+  });
+
+  test('should reject event types missing from the catalog', async () => {
+    // Arrange
+    const eventEmitter = new EventEmitter(eventStore, createEventCatalog());
+
+    // Act & Assert
+    await expect(eventEmitter.emit('transaction.not_cataloged', {
+      transactionId: 'tx_123'
+    })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(await eventStore.getUnprocessedEvents()).toEqual([]);
+  });
+
+  test('should let a caller opt out of strict mode', async () => {
+    // Arrange
+    const eventEmitter = new EventEmitter(eventStore, createEventCatalog({ strict: false }));
+    eventEmitter.on('transaction.not_cataloged', async () => {});
+
+    // Act
+    await eventEmitter.emit('transaction.not_cataloged', { transactionId: 'tx_123' });
+
+    // Assert
+    const [storedEvent] = await eventStore.getUnprocessedEvents();
+    expect(storedEvent.type).toBe('transaction.not_cataloged');
+  });
+
+  test('should upcast old stored events before handing them to handlers', async () => {
+    // Arrange
+    const registry = new EventSchemaRegistry()
+      .register('test.amount_changed', 1, z.object({ amount: z.number() }))
+      .register('test.amount_changed', 2, z.object({ amountMinor: z.number().int(), currency: z.string() }))
+      .registerUpcaster('test.amount_changed', 1, ({ amount, ...rest }) => ({
+        ...rest,
+        amountMinor: Math.round(amount * 100),
+        currency: 'USD'
+      }));
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const eventProcessor = new EventProcessor(eventStore, { schemaRegistry: registry });
+    eventProcessor.registerHandler('test.amount_changed', handler);
+    await eventStore.saveEvent({
+      type: 'test.amount_changed',
+      data: { amount: 12.5, _meta: { event: 'test.amount_changed' } },
+      timestamp: new Date(),
+      processed: false,
+      schemaVersion: 1
+    });
+
+    // Act
+    await eventProcessor.processEvents();
+
+    // Assert
+    expect(handler).toHaveBeenCalledWith({
+      amountMinor: 1250,
+      currency: 'USD',
+      _meta: { event: 'test.amount_changed', schemaVersion: 2 }
+    });
+    expect(await eventStore.getUnprocessedEvents()).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+// src/tests/payment/events/event-replay.test.ts
+
+import { EventReplayService, ReplayJobStatus } from '../../../lib/payment/events/event-replay.service';
+import { EventStore } from '../../../lib/payment/events/event.store';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('EventReplayService', () => {
+  const from = new Date('2024-01-01T00:00:00Z');
+  const to = new Date('2024-01-02T00:00:00Z');
+
+  let eventStore: EventStore;
+  let replayService: EventReplayService;
+  let handler: jest.Mock;
+
+  const saveEvent = (type: string, timestamp: string, data: Record<string, any> = {}) =>
+    eventStore.saveEvent({ type, data, timestamp: new Date(timestamp), processed: true });
+
+  beforeEach(async () => {
+    eventStore = new EventStore();
+    replayService = new EventReplayService(eventStore, { batchSize: 2, maxRatePerSecond: 10000 });
+    handler = jest.fn().mockResolvedValue(undefined);
+    replayService.registerTarget('projection', handler);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await saveEvent('refund.created', '2024-01-01T12:00:00Z', { refundId: 're_2' });
+    await saveEvent('refund.created', '2024-01-01T09:00:00Z', { refundId: 're_1' });
+    await saveEvent('refund.completed', '2024-01-01T15:00:00Z', { refundId: 're_1' });
+    await saveEvent('customer.updated', '2024-01-01T10:00:00Z');
+    await saveEvent('refund.created', '2024-01-02T00:00:00Z', { refundId: 're_3' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should only count matching events on a dry run', async () => {
+    // Act
+    const job = await replayService.startReplay({
+      types: ['refund.created', 'refund.completed'],
+      from,
+      to,
+      target: 'projection',
+      dryRun: true
+    });
+
+    // Assert
+    expect(job).toMatchObject({ status: ReplayJobStatus.COMPLETED, dryRun: true, total: 3 });
+    expect(handler).not.toHaveBeenCalled();
+    expect(replayService.listJobs()).toEqual([]);
+  });
+
+  test('should deliver matching events in order and keep going past failures', async () => {
+    // Arrange
+    handler.mockRejectedValueOnce(new Error('projection unavailable'));
+
+    // Act
+    const started = await replayService.startReplay({
+      types: ['refund.created', 'refund.completed'],
+      from,
+      to,
+      target: 'projection',
+      ratePerSecond: 10000
+    });
+    const job = await replayService.waitForReplay(started.id);
+
+    // Assert
+    const delivered = handler.mock.calls.map(([data, event]: [any, any]) => [event.type, data.refundId]);
+    expect(delivered).toEqual([
+      ['refund.created', 're_1'],
+      ['refund.created', 're_2'],
+      ['refund.completed', 're_1']
+    ]);
+    expect(job).toMatchObject({
+      status: ReplayJobStatus.COMPLETED,
+      total: 3,
+      delivered: 2,
+      failed: 1,
+      errors: [expect.objectContaining({ type: 'refund.created', error: 'projection unavailable' })]
+    });
+  });
+
+  test('should reject a target that is not registered', async () => {
+    // Act & Assert
+    await expect(replayService.startReplay({ from, to, target: 'unknown' }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+});
@@ -0,0 +1,156 @@
+// src/tests/payment/events/outbox.test.ts
+
+import { InMemoryOutboxStore, createOutboxEvent } from '../../../lib/payment/events/outbox.store';
+import { OutboxRelay } from '../../../lib/payment/events/outbox.relay';
+import { EventProcessor } from '../../../lib/payment/events/event.processor';
+import { EventEmitter } from '../../../lib/payment/events/event.emitter';
+import { EventStore } from '../../../lib/payment/events/event.store';
+import { createEventCatalog } from '../../../lib/payment/events/event.catalog';
+import { WebhookManager } from '../../../lib/payment/webhooks/webhook.manager';
+import { InMemoryWebhookStore } from '../../../lib/payment/webhooks/webhook.store';
+import { WebhookEventType, WebhookDeliveryStatus } from '../../../lib/payment/webhooks/types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { TransactionType, TransactionStatus } from '../../../lib/payment/types/transaction.types';
+
+describe('Transactional outbox', () => {
+  let transactionStore: InMemoryTransactionStore;
+  let outboxStore: InMemoryOutboxStore;
+  let eventEmitter: { emit: jest.Mock };
+  let eventProcessor: EventProcessor;
+  let outboxRelay: OutboxRelay;
+  let transactionManager: TransactionManager;
+
+  const createTransaction = () => transactionManager.beginTransaction(TransactionType.PAYMENT, {
+    type: TransactionType.PAYMENT,
+    idempotencyKey: 'outbox-test-payment',
+    amount: 1000,
+    currency: 'USD',
+    paymentMethodId: 'pm_123',
+    customerId: 'cus_123'
+  });
+
+  beforeEach(() => {
+    transactionStore = new InMemoryTransactionStore();
+    outboxStore = new InMemoryOutboxStore(transactionStore);
+    eventEmitter = { emit: jest.fn().mockResolvedValue(true) };
+    eventProcessor = new EventProcessor(new EventStore());
+    outboxRelay = new OutboxRelay(outboxStore, eventProcessor, { retryDelayMs: 1 });
+    transactionManager = new TransactionManager(transactionStore, {
+      eventEmitter: eventEmitter as any,
+      outboxStore
+    });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    outboxRelay.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('should write lifecycle events to the outbox instead of emitting them', async () => {
+    // Arrange
+    const transaction = await createTransaction();
+
+    // Act
+    await transactionManager.updateTransactionStatus(transaction.id, TransactionStatus.PROCESSING);
+
+    // Assert
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+    expect(await outboxStore.getStats()).toEqual(expect.objectContaining({ pending: 2, published: 0 }));
+  });
+
+  test('should publish each event once through the event processor', async () => {
+    // Arrange
+    const handler = jest.fn().mockResolvedValue(undefined);
+    eventProcessor.registerHandler('transaction.created', handler);
+    const transaction = await createTransaction();
+
+    // Act
+    const published = await outboxRelay.relayPending();
+    const publishedAgain = await outboxRelay.relayPending();
+
+    // Assert
+    expect(published).toBe(1);
+    expect(publishedAgain).toBe(0);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+      transactionId: transaction.id,
+      _meta: expect.objectContaining({ eventId: expect.any(String), aggregateId: transaction.id })
+    }));
+  });
+
+  test('should redeliver an event with the same id after the handler fails', async () => {
+    // Arrange
+    const handler = jest.fn()
+      .mockRejectedValueOnce(new Error('consumer unavailable'))
+      .mockResolvedValueOnce(undefined);
+    eventProcessor.registerHandler('transaction.created', handler);
+    await createTransaction();
+
+    // Act
+    await outboxRelay.relayPending();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await outboxRelay.relayPending();
+
+    // Assert
+    const [[firstDelivery], [secondDelivery]]: [any][] = handler.mock.calls;
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(secondDelivery._meta.eventId).toBe(firstDelivery._meta.eventId);
+    expect(secondDelivery._meta.attempt).toBe(2);
+    expect(await outboxStore.getStats()).toEqual(expect.objectContaining({ pending: 0, published: 1 }));
+  });
+
+  test('should queue a merchant webhook for an event relayed from the outbox', async () => {
+    // Arrange
+    const webhookStore = new InMemoryWebhookStore();
+    const listenerEmitter = new EventEmitter(new EventStore(), createEventCatalog());
+    const webhookManager = new WebhookManager(webhookStore, listenerEmitter);
+    const endpoint = await webhookManager.registerEndpoint(
+      'https://merchant.example.com/webhooks',
+      [WebhookEventType.TRANSACTION_CREATED]
+    );
+    outboxRelay = new OutboxRelay(outboxStore, eventProcessor, { eventEmitter: listenerEmitter });
+    const transaction = await createTransaction();
+
+    // Act
+    await outboxRelay.relayPending();
+    await new Promise(resolve => setImmediate(resolve));
+
+    // Assert
+    const [delivery] = await webhookStore.getDeliveries(endpoint.id);
+    expect(delivery.status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(delivery.event).toMatchObject({
+      type: WebhookEventType.TRANSACTION_CREATED,
+      data: expect.objectContaining({
+        transactionId: transaction.id,
+        _meta: expect.objectContaining({ schemaVersion: 1 })
+      })
+    });
+  });
+
+  test('should check outbox events against their schema before they are stored', () => {
+    // Arrange
+    const catalog = createEventCatalog();
+
+    // Act
+    const event = createOutboxEvent('transaction.status_changed', {
+      transactionId: 'tx_123',
+      oldStatus: TransactionStatus.PENDING,
+      newStatus: TransactionStatus.PROCESSING,
+      timestamp: new Date()
+    }, { type: 'transaction', id: 'tx_123' }, catalog);
+
+    // Assert
+    expect(event.schemaVersion).toBe(1);
+    expect(() => createOutboxEvent('transaction.status_changed', {
+      transactionId: 'tx_123',
+      newStatus: 'SOMETHING_ELSE'
+    }, undefined, catalog)).toThrow(expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR }));
+  });
+});
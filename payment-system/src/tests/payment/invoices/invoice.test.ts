@@ -0,0 +1,234 @@
+// src/tests/payment/invoices/invoice.test.ts
+
+import { InvoiceManager, CreateInvoiceInput } from '../../../lib/payment/invoices/invoice.manager';
+import { InMemoryInvoiceStore } from '../../../lib/payment/invoices/invoice.store';
+import { InvoiceStatus } from '../../../lib/payment/invoices/types';
+import { PaymentService } from '../../../lib/payment/services/payment.service';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { TransactionStatus, TransactionType } from '../../../lib/payment/types/transaction.types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('InvoiceManager', () => {
+  let invoiceManager: InvoiceManager;
+  let transactionManager: TransactionManager;
+  let provider: { createPayment: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+
+  const invoiceInput = (overrides: Partial<CreateInvoiceInput> = {}): CreateInvoiceInput => ({
+    merchantId: 'merchant-a',
+    customerId: 'customer-123',
+    customerEmail: 'customer@example.com',
+    currency: 'USD',
+    lineItems: [
+      { description: 'Consulting hours', quantity: 2, unitAmount: 50 },
+      { description: 'Hosting', quantity: 1, unitAmount: 25.5 }
+    ],
+    paymentMethodId: 'pm_123',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    eventEmitter = { emit: jest.fn().mockResolvedValue(undefined) };
+    provider = {
+      createPayment: jest.fn().mockResolvedValue({ success: true, providerTransactionId: 'pi_123' })
+    };
+
+    transactionManager = new TransactionManager(new InMemoryTransactionStore());
+    invoiceManager = new InvoiceManager(
+      new InMemoryInvoiceStore(),
+      new PaymentService(provider, transactionManager),
+      { eventEmitter: eventEmitter as any }
+    );
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should total line items, discounts and tax', async () => {
+    // Act
+    const invoice = await invoiceManager.createInvoice(invoiceInput({
+      discounts: [
+        { description: 'Loyalty', type: 'percentage', value: 10 },
+        { description: 'Voucher', type: 'fixed', value: 5 }
+      ],
+      taxRates: [{ name: 'VAT', rate: 20 }]
+    }));
+
+    // Assert
+    expect(invoice.status).toBe(InvoiceStatus.DRAFT);
+    expect(invoice.number).toBeUndefined();
+    expect(invoice.lineItems.map(item => item.amount)).toEqual([100, 25.5]);
+    expect(invoice.subtotal).toBe(125.5);
+    expect(invoice.discounts.map(discount => discount.amount)).toEqual([12.55, 5]);
+    expect(invoice.discountTotal).toBe(17.55);
+    expect(invoice.taxLines).toEqual([
+      { name: 'VAT', rate: 20, taxableAmount: 107.95, amount: 21.59 }
+    ]);
+    expect(invoice.total).toBe(129.54);
+    expect(invoice.amountDue).toBe(129.54);
+  });
+
+  test('should never discount below zero', async () => {
+    // Act
+    const invoice = await invoiceManager.createInvoice(invoiceInput({
+      discounts: [{ description: 'Credit note', type: 'fixed', value: 500 }],
+      taxRates: [{ name: 'VAT', rate: 20 }]
+    }));
+
+    // Assert
+    expect(invoice.discountTotal).toBe(125.5);
+    expect(invoice.taxTotal).toBe(0);
+    expect(invoice.total).toBe(0);
+  });
+
+  test('should number finalized invoices sequentially per merchant', async () => {
+    // Arrange
+    const first = await invoiceManager.createInvoice(invoiceInput());
+    const discarded = await invoiceManager.createInvoice(invoiceInput());
+    const second = await invoiceManager.createInvoice(invoiceInput());
+    const otherMerchant = await invoiceManager.createInvoice(invoiceInput({ merchantId: 'merchant-b' }));
+
+    // Act
+    const finalizedFirst = await invoiceManager.finalizeInvoice(first.id);
+    await invoiceManager.voidInvoice(discarded.id);
+    const finalizedSecond = await invoiceManager.finalizeInvoice(second.id);
+    const finalizedOther = await invoiceManager.finalizeInvoice(otherMerchant.id);
+
+    // Assert: the voided draft never took a number
+    expect(finalizedFirst.status).toBe(InvoiceStatus.OPEN);
+    expect(finalizedFirst.number).toBe('INV-000001');
+    expect(finalizedSecond.number).toBe('INV-000002');
+    expect(finalizedOther.number).toBe('INV-000001');
+    expect(eventEmitter.emit).toHaveBeenCalledWith('invoice.finalized', expect.objectContaining({
+      invoiceId: first.id,
+      number: 'INV-000001'
+    }));
+  });
+
+  test('should not allow a finalized invoice to be edited or finalized again', async () => {
+    // Arrange
+    const invoice = await invoiceManager.createInvoice(invoiceInput());
+    await invoiceManager.finalizeInvoice(invoice.id);
+
+    // Act & Assert
+    await expect(invoiceManager.updateDraft(invoice.id, { memo: 'Changed' }))
+      .rejects.toMatchObject({ code: ErrorCode.INVOICE_INVALID_STATE });
+    await expect(invoiceManager.finalizeInvoice(invoice.id))
+      .rejects.toMatchObject({ code: ErrorCode.INVOICE_INVALID_STATE });
+  });
+
+  test('should pay an invoice with a PAYMENT transaction', async () => {
+    // Arrange
+    const invoice = await invoiceManager.finalizeInvoice(
+      (await invoiceManager.createInvoice(invoiceInput())).id
+    );
+
+    // Act
+    const paid = await invoiceManager.payInvoice(invoice.id);
+
+    // Assert
+    expect(paid.status).toBe(InvoiceStatus.PAID);
+    expect(paid.amountPaid).toBe(125.5);
+    expect(paid.amountDue).toBe(0);
+    expect(paid.paidAt).toBeDefined();
+
+    const transaction = await transactionManager.getTransaction(paid.paymentTransactionId!);
+    expect(transaction).toMatchObject({
+      type: TransactionType.PAYMENT,
+      status: TransactionStatus.COMPLETED,
+      amount: 125.5,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123'
+    });
+    expect(transaction!.metadata).toMatchObject({
+      invoiceId: invoice.id,
+      invoiceNumber: 'INV-000001'
+    });
+    expect(eventEmitter.emit).toHaveBeenCalledWith('invoice.paid', expect.objectContaining({
+      invoiceId: invoice.id,
+      transactionId: paid.paymentTransactionId
+    }));
+  });
+
+  test('should keep an invoice open after a declined payment', async () => {
+    // Arrange
+    const invoice = await invoiceManager.finalizeInvoice(
+      (await invoiceManager.createInvoice(invoiceInput())).id
+    );
+    provider.createPayment.mockResolvedValueOnce({
+      success: false,
+      error: { code: 'card_declined', message: 'Your card was declined' }
+    });
+
+    // Act
+    await expect(invoiceManager.payInvoice(invoice.id))
+      .rejects.toMatchObject({ code: ErrorCode.PAYMENT_FAILED });
+
+    // Assert
+    const open = await invoiceManager.getInvoice(invoice.id);
+    expect(open.status).toBe(InvoiceStatus.OPEN);
+    expect(open.paymentAttempts).toBe(1);
+    expect(open.lastPaymentError).toBe('Your card was declined');
+
+    // Act: paying again starts a new transaction
+    const paid = await invoiceManager.payInvoice(invoice.id, 'pm_456');
+
+    // Assert
+    expect(paid.status).toBe(InvoiceStatus.PAID);
+    expect(paid.paymentAttempts).toBe(2);
+    expect(provider.createPayment).toHaveBeenCalledTimes(2);
+    expect(provider.createPayment).toHaveBeenLastCalledWith(expect.objectContaining({
+      paymentMethod: 'pm_456'
+    }));
+  });
+
+  test('should move through uncollectible to void', async () => {
+    // Arrange
+    const invoice = await invoiceManager.finalizeInvoice(
+      (await invoiceManager.createInvoice(invoiceInput())).id
+    );
+
+    // Act
+    const uncollectible = await invoiceManager.markUncollectible(invoice.id);
+    const voided = await invoiceManager.voidInvoice(invoice.id);
+
+    // Assert
+    expect(uncollectible.status).toBe(InvoiceStatus.UNCOLLECTIBLE);
+    expect(voided.status).toBe(InvoiceStatus.VOID);
+    expect(voided.number).toBe('INV-000001');
+    await expect(invoiceManager.payInvoice(invoice.id))
+      .rejects.toMatchObject({ code: ErrorCode.INVOICE_INVALID_STATE });
+    expect(provider.createPayment).not.toHaveBeenCalled();
+  });
+
+  test('should render an invoice as HTML and plain text', async () => {
+    // Arrange
+    const invoice = await invoiceManager.finalizeInvoice(
+      (await invoiceManager.createInvoice(invoiceInput({
+        customerName: 'Smith & Sons <Ltd>',
+        taxRates: [{ name: 'VAT', rate: 20 }]
+      }))).id
+    );
+
+    // Act
+    const html = await invoiceManager.renderInvoice(invoice.id, 'html');
+    const text = await invoiceManager.renderInvoice(invoice.id, 'text');
+
+    // Assert
+    expect(html).toContain('Invoice INV-000001');
+    expect(html).toContain('Smith &amp; Sons &lt;Ltd&gt;');
+    expect(html).toContain('$150.60');
+
+    expect(text).toContain('INVOICE INV-000001');
+    expect(text).toMatch(/Consulting hours\s+2\s+\$50\.00\s+\$100\.00/);
+    expect(text).toMatch(/VAT \(20%\)\s+\$25\.10/);
+    text.split('\n').forEach(line => expect(line.length).toBeLessThanOrEqual(72));
+  });
+});
@@ -0,0 +1,218 @@
+// src/tests/payment/ledger/ledger.test.ts
+
+import { LedgerManager } from '../../../lib/payment/ledger/ledger.manager';
+import { InMemoryLedgerStore } from '../../../lib/payment/ledger/ledger.store';
+import { JournalEntryKind, LedgerAccountType, PostingDirection } from '../../../lib/payment/ledger/types';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { Transaction, TransactionStatus, TransactionType } from '../../../lib/payment/types/transaction.types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('LedgerManager', () => {
+  let transactionStore: InMemoryTransactionStore;
+  let ledgerManager: LedgerManager;
+  let transactionManager: TransactionManager;
+
+  const completedPayment = async (
+    amount: number,
+    currency: string = 'USD',
+    customerId: string = 'customer-123'
+  ): Promise<Transaction> => {
+    const payment = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount,
+      currency,
+      customerId,
+      paymentMethodId: 'pm_123',
+      idempotencyKey: `payment-${customerId}-${currency}-${amount}`
+    });
+
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING);
+    return transactionManager.updateTransactionStatus(payment.id, TransactionStatus.COMPLETED);
+  };
+
+  beforeEach(() => {
+    transactionStore = new InMemoryTransactionStore();
+    ledgerManager = new LedgerManager(new InMemoryLedgerStore(transactionStore));
+    transactionManager = new TransactionManager(transactionStore, { ledgerManager });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should post a balanced entry when a payment completes', async () => {
+    // Act
+    const payment = await completedPayment(100);
+
+    // Assert
+    const entries = await ledgerManager.getEntries(payment.id);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].kind).toBe(JournalEntryKind.SETTLEMENT);
+    expect(entries[0].postings.map(p => [p.direction, p.amount])).toEqual([
+      [PostingDirection.DEBIT, 100],
+      [PostingDirection.CREDIT, 100]
+    ]);
+
+    const [provider] = await ledgerManager.getBalances({ type: LedgerAccountType.ASSET });
+    expect(provider.account.code).toBe('provider_balance:USD');
+    expect(provider.balance).toBe(100);
+
+    const [customer] = await ledgerManager.getCustomerBalances('customer-123');
+    expect(customer.account.code).toBe('customer:customer-123:USD');
+    expect(customer.balance).toBe(100);
+  });
+
+  test('should post the provider fee as an expense', async () => {
+    // Arrange
+    const payment = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-with-fees'
+    });
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING);
+
+    // Act
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.COMPLETED, {}, {
+      grossAmount: 100,
+      feeAmount: 3.2,
+      netAmount: 96.8,
+      currency: 'USD',
+      details: [{ type: 'stripe_fee', amount: 3.2, currency: 'USD' }]
+    });
+
+    // Assert
+    const balances = await ledgerManager.getBalances({ currency: 'USD' });
+    expect(balances.map(b => [b.account.code, b.balance])).toEqual([
+      ['customer:customer-123:USD', 100],
+      ['provider_balance:USD', 96.8],
+      ['provider_fees:USD', 3.2]
+    ]);
+    expect((await ledgerManager.getTrialBalance('USD')).balanced).toBe(true);
+  });
+
+  test('should not post anything for transitions that move no money', async () => {
+    // Arrange
+    const payment = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-declined'
+    });
+
+    // Act
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING);
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.FAILED);
+
+    // Assert
+    expect(await ledgerManager.getEntries(payment.id)).toEqual([]);
+    expect(await ledgerManager.listAccounts()).toEqual([]);
+  });
+
+  test('should post a refund against the customer account', async () => {
+    // Arrange
+    const payment = await completedPayment(100);
+    const refund = await transactionManager.beginTransaction(TransactionType.REFUND, {
+      type: TransactionType.REFUND,
+      amount: 30,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'refund-1',
+      parentTransactionId: payment.id
+    });
+
+    // Act
+    await transactionManager.updateTransactionStatus(refund.id, TransactionStatus.PROCESSING);
+    await transactionManager.updateTransactionStatus(refund.id, TransactionStatus.COMPLETED);
+
+    // Assert
+    const [customer] = await ledgerManager.getCustomerBalances('customer-123');
+    expect(customer).toMatchObject({ debits: 30, credits: 100, balance: 70 });
+
+    const [provider] = await ledgerManager.getBalances({ type: LedgerAccountType.ASSET });
+    expect(provider.balance).toBe(70);
+  });
+
+  test('should reverse the settlement when a completed transaction is rolled back', async () => {
+    // Arrange
+    const payment = await completedPayment(100);
+
+    // Act
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.ROLLED_BACK);
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.ROLLED_BACK);
+
+    // Assert: the repeated update did not reverse twice
+    const entries = await ledgerManager.getEntries(payment.id);
+    expect(entries.map(e => e.kind)).toEqual([JournalEntryKind.SETTLEMENT, JournalEntryKind.REVERSAL]);
+    expect(entries[1].reversesEntryId).toBe(entries[0].id);
+
+    const balances = await ledgerManager.getBalances();
+    balances.forEach(balance => expect(balance.balance).toBe(0));
+  });
+
+  test('should leave the status unchanged when the postings cannot be written', async () => {
+    // Arrange
+    const payment = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-store-down'
+    });
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING);
+    jest.spyOn(transactionStore, 'save').mockRejectedValueOnce(new Error('Connection lost'));
+
+    // Act
+    await expect(transactionManager.updateTransactionStatus(payment.id, TransactionStatus.COMPLETED))
+      .rejects.toThrow();
+
+    // Assert
+    expect((await transactionManager.getTransaction(payment.id))!.status).toBe(TransactionStatus.PROCESSING);
+    expect(await ledgerManager.getEntries(payment.id)).toEqual([]);
+  });
+
+  test('should produce a balanced trial balance per currency', async () => {
+    // Arrange
+    await completedPayment(100);
+    await completedPayment(49.99, 'USD', 'customer-456');
+    await completedPayment(20, 'EUR');
+
+    // Act
+    const usd = await ledgerManager.getTrialBalance('USD');
+    const currencies = await ledgerManager.getCurrencyBalances();
+
+    // Assert
+    expect(usd.balanced).toBe(true);
+    expect(usd.totalDebits).toBe(149.99);
+    expect(usd.totalCredits).toBe(149.99);
+    expect(usd.lines).toHaveLength(3);
+
+    expect(currencies).toEqual([
+      expect.objectContaining({
+        currency: 'EUR',
+        balances: expect.objectContaining({ asset: 20, revenue: 20 })
+      }),
+      expect.objectContaining({
+        currency: 'USD',
+        balances: expect.objectContaining({ asset: 149.99, revenue: 149.99 })
+      })
+    ]);
+  });
+
+  test('should fail for an unknown account', async () => {
+    // Act & Assert
+    await expect(ledgerManager.getAccountBalance('missing'))
+      .rejects.toMatchObject({ code: ErrorCode.LEDGER_ACCOUNT_NOT_FOUND });
+  });
+});
@@ -0,0 +1,70 @@
+// src/tests/payment/monitoring/health.test.ts
+
+import { HealthChecker } from '../../../lib/payment/monitoring/health/checker';
+import { registerProviderCircuitIndicators } from '../../../lib/payment/monitoring/health/indicators';
+import { ProviderRouter } from '../../../lib/payment/providers/provider-router';
+import { CircuitState } from '../../../lib/payment/providers/circuit-breaker';
+
+describe('HealthChecker', () => {
+  let checker: HealthChecker;
+  let router: ProviderRouter;
+
+  const openBreaker = async (name: string) => {
+    const breaker = router.getCircuitBreaker(name)!;
+    for (let i = 0; i < 4; i++) {
+      await breaker.execute(() => Promise.reject(new Error('Service unavailable'))).catch(() => undefined);
+    }
+  };
+
+  beforeEach(() => {
+    checker = new HealthChecker();
+    router = new ProviderRouter({
+      defaultProvider: 'stripe',
+      routes: [{ provider: 'stripe', weight: 1 }],
+      failover: [{ provider: 'adyen', weight: 1 }]
+    }, { circuitBreaker: { minimumCalls: 4 } })
+      .register('stripe', {} as any)
+      .register('adyen', {} as any);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should report a circuit indicator for each provider', async () => {
+    // Arrange
+    registerProviderCircuitIndicators(checker, router);
+
+    // Act
+    const health = await checker.check();
+
+    // Assert
+    expect(health.status).toBe('UP');
+    expect(Object.keys(health.components)).toEqual(['provider:stripe', 'provider:adyen']);
+    expect(health.components['provider:stripe'].details!.providers).toEqual({
+      stripe: expect.objectContaining({ state: CircuitState.CLOSED })
+    });
+  });
+
+  test('should report the provider whose circuit is open as down', async () => {
+    // Arrange
+    registerProviderCircuitIndicators(checker, router);
+
+    // Act
+    await openBreaker('stripe');
+    const health = await checker.check();
+
+    // Assert
+    expect(health.status).toBe('DOWN');
+    expect(health.components['provider:stripe']).toMatchObject({
+      status: 'DOWN',
+      details: { providers: { stripe: { state: CircuitState.OPEN, failureRate: 1 } } }
+    });
+    expect(health.components['provider:adyen'].status).toBe('UP');
+    expect(checker.getStatus()).toBe(health);
+  });
+});
@@ -0,0 +1,197 @@
+// src/tests/payment/providers/circuit-breaker.test.ts
+
+import { CircuitBreaker, CircuitState } from '../../../lib/payment/providers/circuit-breaker';
+import { ProviderRouter } from '../../../lib/payment/providers/provider-router';
+import { createProviderCircuitIndicator } from '../../../lib/payment/monitoring/health/indicators';
+import { CreatePaymentInput } from '../../../lib/payment/types/provider.types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let eventEmitter: { emit: jest.Mock };
+  let breaker: CircuitBreaker;
+
+  const fail = () => breaker.execute(() => Promise.reject(new Error('Service unavailable'))).catch(() => undefined);
+  const succeed = () => breaker.execute(() => Promise.resolve('ok'));
+
+  beforeEach(() => {
+    now = 0;
+    eventEmitter = { emit: jest.fn().mockResolvedValue(true) };
+    breaker = new CircuitBreaker('stripe', {
+      failureRateThreshold: 0.5,
+      minimumCalls: 4,
+      windowMs: 60000,
+      openDurationMs: 30000,
+      halfOpenMaxCalls: 1,
+      callTimeoutMs: 50
+    }, { eventEmitter: eventEmitter as any, now: () => now });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should open once the failure rate crosses the threshold', async () => {
+    // Act
+    await succeed();
+    await succeed();
+    await fail();
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    await fail();
+
+    // Assert
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('provider.circuit_state_changed', expect.objectContaining({
+      provider: 'stripe',
+      previousState: CircuitState.CLOSED,
+      state: CircuitState.OPEN,
+      failureRate: 0.5
+    }));
+  });
+
+  test('should reject calls without reaching the provider while open', async () => {
+    // Arrange
+    for (let i = 0; i < 4; i++) {
+      await fail();
+    }
+    const call = jest.fn().mockResolvedValue('ok');
+
+    // Act & Assert
+    await expect(breaker.execute(call)).rejects.toMatchObject({ code: ErrorCode.PROVIDER_CIRCUIT_OPEN });
+    expect(call).not.toHaveBeenCalled();
+    expect(breaker.isCallPermitted()).toBe(false);
+  });
+
+  test('should close after a successful trial call and reopen after a failed one', async () => {
+    // Arrange
+    for (let i = 0; i < 4; i++) {
+      await fail();
+    }
+    now += 30000;
+
+    // Act: the trial call fails, so the breaker opens again
+    expect(breaker.isCallPermitted()).toBe(true);
+    await fail();
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+
+    now += 30000;
+    await succeed();
+
+    // Assert
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    expect(eventEmitter.emit.mock.calls.map(([, data]: [string, any]) => data.state)).toEqual([
+      CircuitState.OPEN,
+      CircuitState.HALF_OPEN,
+      CircuitState.OPEN,
+      CircuitState.HALF_OPEN,
+      CircuitState.CLOSED
+    ]);
+  });
+
+  test('should not count errors the caller classifies as declines', async () => {
+    // Arrange
+    const decline = Object.assign(new Error('Your card was declined'), { type: 'StripeCardError' });
+
+    // Act
+    for (let i = 0; i < 6; i++) {
+      await breaker.execute(() => Promise.reject(decline), error => error.type !== 'StripeCardError')
+        .catch(() => undefined);
+    }
+
+    // Assert
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    expect(breaker.getSnapshot()).toMatchObject({ calls: 6, failures: 0 });
+  });
+
+  test('should count slow calls as failures', async () => {
+    // Act
+    const result = breaker.execute(() => new Promise(resolve => setTimeout(resolve, 200)), () => false);
+
+    // Assert
+    await expect(result).rejects.toMatchObject({
+      code: ErrorCode.PROVIDER_COMMUNICATION_ERROR,
+      context: expect.objectContaining({ isTimeout: true })
+    });
+    expect(breaker.getSnapshot().failures).toBe(1);
+  });
+});
+
+describe('ProviderRouter failover', () => {
+  const paymentInput: CreatePaymentInput = {
+    amount: { amount: 100, currency: 'USD' },
+    customer: { id: 'customer-123', email: 'customer@example.com' },
+    paymentMethod: 'pm_card_visa'
+  };
+
+  let router: ProviderRouter;
+
+  const openBreaker = async (name: string) => {
+    const breaker = router.getCircuitBreaker(name)!;
+    for (let i = 0; i < 4; i++) {
+      await breaker.execute(() => Promise.reject(new Error('Service unavailable'))).catch(() => undefined);
+    }
+  };
+
+  beforeEach(() => {
+    router = new ProviderRouter({
+      defaultProvider: 'stripe',
+      routes: [{ provider: 'stripe', weight: 1, currencies: ['USD', 'EUR'] }],
+      failover: [
+        { provider: 'adyen', weight: 1, currencies: ['EUR'] },
+        { provider: 'braintree', weight: 1, currencies: ['USD'] }
+      ]
+    }, { circuitBreaker: { minimumCalls: 4 } })
+      .register('stripe', {} as any)
+      .register('adyen', {} as any)
+      .register('braintree', {} as any);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should fail over to the first eligible secondary provider', async () => {
+    // Arrange
+    expect(router.selectProvider(paymentInput).name).toBe('stripe');
+
+    // Act
+    await openBreaker('stripe');
+
+    // Assert
+    expect(router.selectProvider(paymentInput).name).toBe('braintree');
+    expect(router.selectProvider({ ...paymentInput, amount: { amount: 100, currency: 'EUR' } }).name)
+      .toBe('adyen');
+  });
+
+  test('should keep follow-up calls on the original provider', async () => {
+    // Act
+    await openBreaker('stripe');
+
+    // Assert
+    expect(router.getProviderForTransaction({ id: 'tx_1', provider: 'stripe' }).name).toBe('stripe');
+  });
+
+  test('should report breaker states through the health indicator', async () => {
+    // Arrange
+    const indicator = createProviderCircuitIndicator(router);
+    expect((await indicator()).status).toBe('UP');
+
+    // Act
+    await openBreaker('stripe');
+    const health = await indicator();
+
+    // Assert
+    expect(health.status).toBe('DEGRADED');
+    expect(health.details!.providers.stripe).toMatchObject({ state: CircuitState.OPEN, failureRate: 1 });
+    expect(health.details!.providers.adyen.state).toBe(CircuitState.CLOSED);
+  });
+});
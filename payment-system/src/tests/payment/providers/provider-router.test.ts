@@ -0,0 +1,163 @@
+// src/tests/payment/providers/provider-router.test.ts
+
+import { ProviderRouter } from '../../../lib/payment/providers/provider-router';
+import { PaymentService } from '../../../lib/payment/services/payment.service';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { CreatePaymentInput } from '../../../lib/payment/types/provider.types';
+import { TransactionStatus } from '../../../lib/payment/types/transaction.types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+const createMockProvider = (prefix: string) => ({
+  createPayment: jest.fn().mockResolvedValue({ success: true, transactionId: `${prefix}_pay` }),
+  confirmPayment: jest.fn().mockResolvedValue({ success: true, transactionId: `${prefix}_pay` }),
+  authorizePayment: jest.fn().mockResolvedValue({ success: true, transactionId: `${prefix}_auth` }),
+  capturePayment: jest.fn().mockResolvedValue({ success: true, transactionId: `${prefix}_auth` }),
+  voidPayment: jest.fn().mockResolvedValue({ success: true, transactionId: `${prefix}_auth` }),
+  refundPayment: jest.fn().mockResolvedValue({ success: true, transactionId: `${prefix}_refund` })
+});
+
+const paymentInput = (overrides: Partial<CreatePaymentInput> = {}): CreatePaymentInput => ({
+  amount: { amount: 100, currency: 'USD' },
+  customer: { id: 'customer-123', email: 'customer@example.com', metadata: { country: 'US' } },
+  paymentMethod: {
+    id: 'pm_123',
+    type: 'card',
+    details: { brand: 'visa' },
+    isDefault: true,
+    customerId: 'customer-123'
+  },
+  metadata: { idempotencyKey: `routing-${Math.random()}` },
+  ...overrides
+});
+
+describe('ProviderRouter', () => {
+  let stripe: ReturnType<typeof createMockProvider>;
+  let adyen: ReturnType<typeof createMockProvider>;
+  let random: jest.Mock;
+  let router: ProviderRouter;
+
+  beforeEach(() => {
+    stripe = createMockProvider('stripe');
+    adyen = createMockProvider('adyen');
+    random = jest.fn().mockReturnValue(0);
+
+    router = new ProviderRouter({
+      defaultProvider: 'stripe',
+      routes: [
+        { provider: 'adyen', weight: 1, currencies: ['EUR'], countries: ['DE', 'NL'] },
+        { provider: 'adyen', weight: 1, cardBrands: ['amex'], minAmount: 500 },
+        { provider: 'stripe', weight: 3, currencies: ['USD'] },
+        { provider: 'adyen', weight: 1, currencies: ['USD'], maxAmount: 1000 }
+      ]
+    }, { random })
+      .register('stripe', stripe as any)
+      .register('adyen', adyen as any);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should route by currency and customer country', () => {
+    // Act
+    const german = router.selectProvider(paymentInput({
+      amount: { amount: 50, currency: 'eur' },
+      customer: { id: 'customer-de', email: 'de@example.com', metadata: { country: 'de' } }
+    }));
+    const french = router.selectProvider(paymentInput({
+      amount: { amount: 50, currency: 'EUR' },
+      customer: { id: 'customer-fr', email: 'fr@example.com', metadata: { country: 'FR' } }
+    }));
+
+    // Assert
+    expect(german.name).toBe('adyen');
+    // No route matches, so the default is used
+    expect(french.name).toBe('stripe');
+  });
+
+  test('should route by card brand and amount', () => {
+    // Arrange
+    const amex = (amount: number) => paymentInput({
+      amount: { amount, currency: 'GBP' },
+      paymentMethod: { id: 'pm_amex', type: 'card', details: { brand: 'AMEX' }, isDefault: true, customerId: 'customer-123' }
+    });
+
+    // Act & Assert
+    expect(router.selectProvider(amex(750)).name).toBe('adyen');
+    expect(router.selectProvider(amex(100)).name).toBe('stripe');
+  });
+
+  test('should split matching traffic by weight', () => {
+    // Act: USD payments up to 1000 match stripe (3) and adyen (1)
+    random.mockReturnValueOnce(0.74).mockReturnValueOnce(0.75);
+    const first = router.selectProvider(paymentInput());
+    const second = router.selectProvider(paymentInput());
+
+    // Assert
+    expect(first.name).toBe('stripe');
+    expect(second.name).toBe('adyen');
+    // Above 1000 only the stripe route remains
+    random.mockReturnValueOnce(0.99);
+    expect(router.selectProvider(paymentInput({ amount: { amount: 5000, currency: 'USD' } })).name)
+      .toBe('stripe');
+  });
+
+  test('should fail for a transaction whose provider is no longer registered', () => {
+    // Act & Assert
+    expect(() => router.getProviderForTransaction({ id: 'tx_1', provider: 'braintree' }))
+      .toThrow(expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR }));
+    expect(router.getProviderForTransaction({ id: 'tx_2' }).name).toBe('stripe');
+  });
+
+  test('should record the chosen provider and send follow-up calls to it', async () => {
+    // Arrange
+    const transactionManager = new TransactionManager(new InMemoryTransactionStore());
+    const paymentService = new PaymentService(router, transactionManager);
+    random.mockReturnValue(0.9);
+
+    // Act
+    const authorization = await paymentService.authorizePayment(paymentInput());
+    // Later payments going elsewhere must not affect the capture
+    random.mockReturnValue(0);
+    const capture = await paymentService.capturePayment(authorization.transactionId!);
+
+    // Assert
+    expect(capture.success).toBe(true);
+    expect(adyen.authorizePayment).toHaveBeenCalledTimes(1);
+    expect(adyen.capturePayment).toHaveBeenCalledWith('adyen_auth', { amount: 100 });
+    expect(stripe.capturePayment).not.toHaveBeenCalled();
+
+    const transaction = await transactionManager.getTransaction(authorization.transactionId!);
+    expect(transaction).toMatchObject({ provider: 'adyen', status: TransactionStatus.COMPLETED });
+  });
+
+  test('should confirm a payment that required action with the provider that created it', async () => {
+    // Arrange
+    const transactionManager = new TransactionManager(new InMemoryTransactionStore());
+    const paymentService = new PaymentService(router, transactionManager);
+    random.mockReturnValue(0.9);
+    adyen.createPayment.mockResolvedValueOnce({
+      success: false,
+      transactionId: 'adyen_3ds',
+      error: { code: 'REQUIRES_ACTION', message: 'Authentication required' }
+    });
+
+    // Act
+    const pending = await paymentService.processPayment(paymentInput());
+    random.mockReturnValue(0);
+    const confirmed = await paymentService.confirmPayment(pending.transactionId!);
+
+    // Assert
+    expect(pending.error?.code).toBe('REQUIRES_ACTION');
+    expect(confirmed.success).toBe(true);
+    expect(adyen.confirmPayment).toHaveBeenCalledWith('adyen_3ds');
+    expect(stripe.confirmPayment).not.toHaveBeenCalled();
+    expect((await transactionManager.getTransaction(pending.transactionId!))!.status)
+      .toBe(TransactionStatus.COMPLETED);
+  });
+});
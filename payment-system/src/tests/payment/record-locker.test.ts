@@ -0,0 +1,90 @@
+// src/tests/payment/record-locker.test.ts
+
+import { RecordLocker, LockLevel } from '../../lib/payment/utils/record-locker';
+import { ErrorCode } from '../../lib/payment/utils/error';
+
+describe('RecordLocker deadlock detection', () => {
+  let eventEmitter: { emit: jest.Mock };
+  let recordLocker: RecordLocker;
+
+  // Give each transaction a distinct start time
+  const pause = () => new Promise(resolve => setTimeout(resolve, 5));
+
+  beforeEach(() => {
+    eventEmitter = { emit: jest.fn().mockResolvedValue(true) };
+    recordLocker = new RecordLocker({ eventEmitter: eventEmitter as any });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    recordLocker.dispose();
+    jest.restoreAllMocks();
+  });
+
+  test('should abort the youngest transaction when two wait on each other', async () => {
+    // Arrange
+    await recordLocker.acquireLock('tx-1', 'transaction', { transactionId: 'older' });
+    await pause();
+    await recordLocker.acquireLock('tx-2', 'transaction', { transactionId: 'younger' });
+    const olderWaits = recordLocker.acquireLock('tx-2', 'transaction', { transactionId: 'older', waitTimeoutMs: 1000 });
+
+    // Act
+    const youngerWaits = recordLocker.acquireLock('tx-1', 'transaction', { transactionId: 'younger', waitTimeoutMs: 1000 });
+
+    // Assert
+    await expect(youngerWaits).rejects.toMatchObject({ code: ErrorCode.DEADLOCK_VICTIM });
+    await expect(olderWaits).resolves.toEqual(expect.any(String));
+    expect(recordLocker.getLockInfo('tx-2', 'transaction')).toEqual([
+      expect.objectContaining({ ownerTransaction: 'older', lockLevel: LockLevel.EXCLUSIVE })
+    ]);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('lock.deadlock_detected', expect.objectContaining({
+      victim: 'younger',
+      cycle: expect.arrayContaining(['older', 'younger'])
+    }));
+  });
+
+  test('should break a cycle that runs through three transactions', async () => {
+    // Arrange
+    await recordLocker.acquireLock('tx-1', 'transaction', { transactionId: 'first' });
+    await pause();
+    await recordLocker.acquireLock('tx-2', 'transaction', { transactionId: 'second' });
+    await pause();
+    await recordLocker.acquireLock('tx-3', 'transaction', { transactionId: 'third' });
+    const firstWaits = recordLocker.acquireLock('tx-2', 'transaction', { transactionId: 'first', waitTimeoutMs: 1000 });
+    const secondWaits = recordLocker.acquireLock('tx-3', 'transaction', { transactionId: 'second', waitTimeoutMs: 1000 });
+
+    // Act
+    const thirdWaits = recordLocker.acquireLock('tx-1', 'transaction', { transactionId: 'third', waitTimeoutMs: 1000 });
+
+    // Assert
+    await expect(thirdWaits).rejects.toMatchObject({ code: ErrorCode.DEADLOCK_VICTIM });
+    await expect(secondWaits).resolves.toEqual(expect.any(String));
+    expect(eventEmitter.emit).toHaveBeenCalledWith('lock.deadlock_detected', expect.objectContaining({
+      victim: 'third',
+      cycle: ['third', 'first', 'second']
+    }));
+    expect(recordLocker.getLockGraph().cycles).toEqual([]);
+
+    await recordLocker.releaseTransactionLocks('second');
+    await expect(firstWaits).resolves.toEqual(expect.any(String));
+  });
+
+  test('should report who waits on whom in the lock graph', async () => {
+    // Arrange
+    await recordLocker.acquireLock('tx-1', 'transaction', { transactionId: 'holder' });
+
+    // Act
+    const waits = recordLocker.acquireLock('tx-1', 'transaction', { transactionId: 'waiter', waitTimeoutMs: 50 });
+    const graph = recordLocker.getLockGraph();
+
+    // Assert
+    expect(graph.edges).toEqual([
+      expect.objectContaining({ from: 'waiter', to: 'holder', recordId: 'tx-1' })
+    ]);
+    expect(graph.cycles).toEqual([]);
+    await expect(waits).rejects.toMatchObject({ code: ErrorCode.LOCK_TIMEOUT });
+  });
+});
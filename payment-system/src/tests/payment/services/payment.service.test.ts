@@ -0,0 +1,164 @@
+// src/tests/payment/services/payment.service.test.ts
+
+import { PaymentService } from '../../../lib/payment/services/payment.service';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { 
+  CompensatingTransactionHandler,
+  CompensatingOperationType
+} from '../../../lib/payment/transaction/utils/compensating-transaction';
+import { TransactionStatus } from '../../../lib/payment/types/transaction.types';
+import { CreatePaymentInput } from '../../../lib/payment/types/provider.types';
+
+// Provider mock that holds funds on authorize and releases them on void
+const createMockProvider = () => ({
+  authorizePayment: jest.fn().mockResolvedValue({
+    success: true,
+    transactionId: 'pi_auth_123',
+    metadata: { stripeStatus: 'requires_capture' }
+  }),
+  capturePayment: jest.fn().mockImplementation(async (_id: string, data: { amount?: number }) => ({
+    success: true,
+    transactionId: 'pi_auth_123',
+    metadata: { stripeStatus: 'succeeded', capturedAmount: data.amount }
+  })),
+  voidPayment: jest.fn().mockResolvedValue({
+    success: true,
+    transactionId: 'pi_auth_123',
+    metadata: { stripeStatus: 'canceled' }
+  })
+});
+
+const paymentInput: CreatePaymentInput = {
+  amount: { amount: 100, currency: 'USD' },
+  customer: { id: 'customer-123', email: 'customer@example.com' },
+  paymentMethod: 'pm_card_visa',
+  metadata: { idempotencyKey: 'auth-idem-123' }
+};
+
+describe('PaymentService authorize/capture', () => {
+  let paymentService: PaymentService;
+  let transactionManager: TransactionManager;
+  let compensatingHandler: CompensatingTransactionHandler;
+  let provider: ReturnType<typeof createMockProvider>;
+  
+  beforeEach(() => {
+    const store = new InMemoryTransactionStore();
+    transactionManager = new TransactionManager(store);
+    compensatingHandler = new CompensatingTransactionHandler(store);
+    provider = createMockProvider();
+    
+    paymentService = new PaymentService(provider, transactionManager, compensatingHandler);
+    
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  test('authorizePayment should leave the transaction AUTHORIZED', async () => {
+    const result = await paymentService.authorizePayment(paymentInput);
+    
+    expect(result.success).toBe(true);
+    
+    const transaction = await transactionManager.getTransaction(result.transactionId!);
+    expect(transaction!.status).toBe(TransactionStatus.AUTHORIZED);
+    expect(transaction!.metadata).toEqual(expect.objectContaining({
+      providerTransactionId: 'pi_auth_123',
+      authorizedAmount: 100
+    }));
+    
+    const operations = compensatingHandler.getCompensatingOperations(result.transactionId!);
+    expect(operations.map(op => op.operationType)).toEqual([
+      CompensatingOperationType.PAYMENT_AUTHORIZE
+    ]);
+  });
+  
+  test('capturePayment without amount should capture in full', async () => {
+    const { transactionId } = await paymentService.authorizePayment(paymentInput);
+    
+    const result = await paymentService.capturePayment(transactionId!);
+    
+    expect(result.success).toBe(true);
+    expect(provider.capturePayment).toHaveBeenCalledWith('pi_auth_123', { amount: 100 });
+    
+    const transaction = await transactionManager.getTransaction(transactionId!);
+    expect(transaction!.status).toBe(TransactionStatus.COMPLETED);
+    expect(transaction!.metadata!.capturedAmount).toBe(100);
+  });
+  
+  test('capturePayment with a smaller amount should mark PARTIALLY_CAPTURED', async () => {
+    const { transactionId } = await paymentService.authorizePayment(paymentInput);
+    
+    const result = await paymentService.capturePayment(transactionId!, 40);
+    
+    expect(result.success).toBe(true);
+    
+    const transaction = await transactionManager.getTransaction(transactionId!);
+    expect(transaction!.status).toBe(TransactionStatus.PARTIALLY_CAPTURED);
+    expect(transaction!.metadata).toEqual(expect.objectContaining({
+      capturedAmount: 40,
+      releasedAmount: 60
+    }));
+  });
+  
+  test('capturePayment should record the fee breakdown reported by the provider', async () => {
+    const { transactionId } = await paymentService.authorizePayment(paymentInput);
+    const fees = {
+      grossAmount: 100,
+      feeAmount: 3.2,
+      netAmount: 96.8,
+      currency: 'USD',
+      details: [{ type: 'stripe_fee', description: 'Stripe processing fees', amount: 3.2, currency: 'USD' }]
+    };
+    provider.capturePayment.mockResolvedValueOnce({
+      success: true,
+      transactionId: 'pi_auth_123',
+      fees,
+      metadata: { stripeStatus: 'succeeded', capturedAmount: 100 }
+    });
+    
+    await paymentService.capturePayment(transactionId!);
+    
+    const transaction = await transactionManager.getTransaction(transactionId!);
+    expect(transaction!.status).toBe(TransactionStatus.COMPLETED);
+    expect(transaction!.fees).toEqual(fees);
+  });
+  
+  test('capturePayment should reject amounts above the authorization', async () => {
+    const { transactionId } = await paymentService.authorizePayment(paymentInput);
+    
+    const result = await paymentService.capturePayment(transactionId!, 150);
+    
+    expect(result.success).toBe(false);
+    expect(provider.capturePayment).not.toHaveBeenCalled();
+    
+    const transaction = await transactionManager.getTransaction(transactionId!);
+    expect(transaction!.status).toBe(TransactionStatus.AUTHORIZED);
+  });
+  
+  test('voidPayment should release the authorization', async () => {
+    const { transactionId } = await paymentService.authorizePayment(paymentInput);
+    
+    const result = await paymentService.voidPayment(transactionId!, 'requested_by_customer');
+    
+    expect(result.success).toBe(true);
+    expect(provider.voidPayment).toHaveBeenCalledWith('pi_auth_123', 'requested_by_customer');
+    
+    const transaction = await transactionManager.getTransaction(transactionId!);
+    expect(transaction!.status).toBe(TransactionStatus.VOIDED);
+  });
+  
+  test('capturePayment should fail after the authorization was voided', async () => {
+    const { transactionId } = await paymentService.authorizePayment(paymentInput);
+    await paymentService.voidPayment(transactionId!);
+    
+    const result = await paymentService.capturePayment(transactionId!);
+    
+    expect(result.success).toBe(false);
+    expect(result.error!.code).toBe('transaction_invalid_state');
+  });
+});
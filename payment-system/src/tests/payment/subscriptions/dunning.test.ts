@@ -0,0 +1,202 @@
+// src/tests/payment/subscriptions/dunning.test.ts
+
+import { DunningManager } from '../../../lib/payment/subscriptions/dunning.manager';
+import { SubscriptionManager } from '../../../lib/payment/subscriptions/subscription.manager';
+import { InMemorySubscriptionStore } from '../../../lib/payment/subscriptions/subscription.store';
+import { InMemoryCustomerStore } from '../../../lib/payment/customer/customer.store';
+import { CustomerNotifier } from '../../../lib/payment/customer/customer.notifier';
+import { CustomerStatus, RiskLevel } from '../../../lib/payment/customer/types';
+import { Subscription } from '../../../lib/payment/types/subscription';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const declined = {
+  success: false,
+  transactionId: 'tx_failed',
+  error: { code: 'PAYMENT_DECLINED', message: 'Card declined' }
+};
+
+describe('DunningManager', () => {
+  let store: InMemorySubscriptionStore;
+  let subscriptionManager: SubscriptionManager;
+  let dunningManager: DunningManager;
+  let paymentService: { processPayment: jest.Mock };
+  let retryQueue: { on: jest.Mock; enqueue: jest.Mock; dequeue: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+  let emailChannel: { send: jest.Mock };
+  let smsChannel: { send: jest.Mock };  let subscription: Subscription;
+
+  const createDunningManager = (finalAction: 'cancel' | 'pause' | 'mark_unpaid' = 'cancel') =>
+    new DunningManager(subscriptionManager, store, retryQueue as any, {
+      config: { retryScheduleDays: [1, 3, 5, 7], finalAction },
+      eventEmitter: eventEmitter as any,
+      customerStore,
+      notifier
+    });
+
+  let customerStore: InMemoryCustomerStore;
+  let notifier: CustomerNotifier;
+
+  beforeEach(async () => {
+    store = new InMemorySubscriptionStore();
+    eventEmitter = { emit: jest.fn().mockResolvedValue(undefined) };
+    paymentService = {
+      processPayment: jest.fn().mockResolvedValue({ success: true, transactionId: 'tx_123' })
+    };
+    retryQueue = {
+      on: jest.fn(),
+      enqueue: jest.fn().mockResolvedValue(undefined),
+      dequeue: jest.fn().mockResolvedValue(undefined)
+    };
+    emailChannel = { send: jest.fn().mockResolvedValue(undefined) };
+    smsChannel = { send: jest.fn().mockResolvedValue(undefined) };
+
+    notifier = new CustomerNotifier();
+    notifier.addChannel('email', emailChannel);
+    notifier.addChannel('sms', smsChannel);
+
+    customerStore = new InMemoryCustomerStore();
+    await customerStore.save({
+      id: 'customer-123',
+      email: 'customer@example.com',
+      defaultCurrency: 'USD',
+      riskLevel: RiskLevel.LOW,
+      metadata: {},
+      preferences: {
+        communicationChannel: 'sms',
+        savePaymentMethods: true,
+        autoPayEnabled: true
+      },
+      limits: { currency: 'USD' },
+      status: CustomerStatus.ACTIVE,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    subscriptionManager = new SubscriptionManager(store, paymentService as any, {
+      eventEmitter: eventEmitter as any
+    });
+    dunningManager = createDunningManager();
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Arrange: a subscription whose renewal charge was declined
+    const plan = await subscriptionManager.createPlan({
+      name: 'Basic',
+      price: 10,
+      currency: 'USD',
+      interval: 'monthly'
+    });
+    subscription = await subscriptionManager.createSubscription({
+      customerId: 'customer-123',
+      customerEmail: 'customer@example.com',
+      planId: plan.id,
+      paymentMethodId: 'pm_123'
+    });
+    await store.save({ ...subscription, currentPeriodEnd: new Date(Date.now() - 1000) });
+    paymentService.processPayment.mockResolvedValueOnce(declined);
+    await subscriptionManager.renewSubscription(subscription.id);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should schedule the first retry one day after the failure', async () => {
+    // Act
+    const inDunning = await dunningManager.startDunning(subscription.id, 'PAYMENT_DECLINED');
+
+    // Assert
+    expect(inDunning.dunning!.attempt).toBe(0);
+    expect(inDunning.dunning!.nextAttemptAt!.getTime() - inDunning.dunning!.startedAt.getTime()).toBe(DAY);
+    expect(retryQueue.enqueue).toHaveBeenCalledWith(subscription.id, expect.any(Number), 1);
+    expect(retryQueue.enqueue.mock.calls[0][1]).toBeGreaterThan(DAY - 1000);
+
+    const accounts = await dunningManager.getDunningAccounts();
+    expect(accounts.map(account => account.id)).toEqual([subscription.id]);
+
+    expect(eventEmitter.emit).toHaveBeenCalledWith('dunning.started', expect.objectContaining({
+      subscriptionId: subscription.id,
+      totalAttempts: 4
+    }));
+  });
+
+  test('should notify the customer over their preferred channel', async () => {
+    // Act
+    await dunningManager.startDunning(subscription.id);
+
+    // Assert
+    expect(smsChannel.send).toHaveBeenCalledWith(expect.objectContaining({
+      customerId: 'customer-123',
+      template: 'dunning.started'
+    }));
+    expect(emailChannel.send).not.toHaveBeenCalled();
+  });
+
+  test('should schedule the next retry from the start of dunning after a failed retry', async () => {
+    // Arrange
+    const started = await dunningManager.startDunning(subscription.id);
+    paymentService.processPayment.mockResolvedValueOnce(declined);
+
+    // Act
+    const afterRetry = await dunningManager.processRetry(subscription.id);
+
+    // Assert
+    expect(afterRetry.status).toBe('past_due');
+    expect(afterRetry.dunning!.attempt).toBe(1);
+    expect(afterRetry.dunning!.nextAttemptAt).toEqual(
+      new Date(started.dunning!.startedAt.getTime() + 3 * DAY)
+    );
+    expect(paymentService.processPayment).toHaveBeenLastCalledWith(expect.objectContaining({
+      metadata: expect.objectContaining({ attempt: 1 })
+    }));
+    expect(retryQueue.enqueue).toHaveBeenLastCalledWith(subscription.id, expect.any(Number), 2);
+  });
+
+  test('should leave dunning when a retry succeeds', async () => {
+    // Arrange
+    await dunningManager.startDunning(subscription.id);
+
+    // Act
+    const recovered = await dunningManager.processRetry(subscription.id);
+
+    // Assert
+    expect(recovered.status).toBe('active');
+    expect(recovered.dunning).toBeUndefined();
+    expect(await dunningManager.getDunningAccounts()).toHaveLength(0);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('dunning.recovered', expect.objectContaining({
+      subscriptionId: subscription.id,
+      attempt: 1
+    }));
+  });
+
+  test.each([
+    ['cancel', 'canceled'],
+    ['pause', 'paused'],
+    ['mark_unpaid', 'unpaid']
+  ] as const)('should apply the %s final action once every retry fails', async (finalAction, status) => {
+    // Arrange
+    dunningManager = createDunningManager(finalAction);
+    await dunningManager.startDunning(subscription.id);
+    paymentService.processPayment.mockResolvedValue(declined);
+
+    // Act
+    let result = subscription;
+    for (let attempt = 0; attempt < 4; attempt++) {
+      result = await dunningManager.processRetry(subscription.id);
+    }
+
+    // Assert
+    expect(result.status).toBe(status);
+    expect(result.dunning!.exhaustedAt).toBeDefined();
+    expect(result.dunning!.finalAction).toBe(finalAction);
+    expect(retryQueue.enqueue).toHaveBeenCalledTimes(4);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('dunning.exhausted', expect.objectContaining({
+      subscriptionId: subscription.id,
+      attempts: 4,
+      finalAction
+    }));
+  });
+});
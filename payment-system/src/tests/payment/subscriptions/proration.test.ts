@@ -0,0 +1,195 @@
+// src/tests/payment/subscriptions/proration.test.ts
+
+import { ProrationCalculator } from '../../../lib/payment/subscriptions/proration';
+import { SubscriptionManager } from '../../../lib/payment/subscriptions/subscription.manager';
+import { InMemorySubscriptionStore } from '../../../lib/payment/subscriptions/subscription.store';
+import { CurrencyManager } from '../../../lib/payment/currency/currency.manager';
+import { Subscription, SubscriptionPlan } from '../../../lib/payment/types/subscription';
+
+const plan = (overrides: Partial<SubscriptionPlan>): SubscriptionPlan => ({
+  id: 'plan-basic',
+  name: 'Basic',
+  price: 10,
+  currency: 'USD',
+  interval: 'monthly',
+  active: true,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const subscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+  id: 'sub-123',
+  status: 'active',
+  plan: plan({}),
+  customerId: 'customer-123',
+  customerEmail: 'customer@example.com',
+  paymentMethodId: 'pm_123',
+  // A 30 day period
+  currentPeriodStart: new Date('2024-04-01T00:00:00Z'),
+  currentPeriodEnd: new Date('2024-05-01T00:00:00Z'),
+  createdAt: new Date('2024-04-01T00:00:00Z'),
+  updatedAt: new Date('2024-04-01T00:00:00Z'),
+  ...overrides
+});
+
+describe('ProrationCalculator', () => {
+  const calculator = new ProrationCalculator(new CurrencyManager('external'));
+  const midPeriod = new Date('2024-04-11T00:00:00Z');
+
+  test('should credit unused time and charge the rest of the period on the new plan', () => {
+    // Act
+    const result = calculator.calculate(
+      subscription(),
+      plan({ id: 'plan-pro', name: 'Pro', price: 30 }),
+      midPeriod
+    );
+
+    // Assert: 20 of 30 days remain
+    expect(result.lines).toEqual([
+      expect.objectContaining({ type: 'credit', planId: 'plan-basic', amount: 6.67 }),
+      expect.objectContaining({ type: 'debit', planId: 'plan-pro', amount: 20 })
+    ]);
+    expect(result.amountDue).toBe(13.33);
+    expect(result.creditBalance).toBe(0);
+    expect(result.newPeriodEnd).toEqual(new Date('2024-05-01T00:00:00Z'));
+  });
+
+  test('should start a new yearly period when switching from monthly', () => {
+    // Act
+    const result = calculator.calculate(
+      subscription(),
+      plan({ id: 'plan-yearly', name: 'Basic Yearly', price: 100, interval: 'yearly' }),
+      midPeriod
+    );
+
+    // Assert
+    expect(result.totalCredit).toBe(6.67);
+    expect(result.totalDebit).toBe(100);
+    expect(result.amountDue).toBe(93.33);
+    expect(result.newPeriodStart).toEqual(midPeriod);
+    expect(result.newPeriodEnd).toEqual(new Date('2025-04-11T00:00:00Z'));
+  });
+
+  test('should leave a credit balance when switching from yearly to monthly', () => {
+    // Arrange
+    const yearly = subscription({
+      plan: plan({ id: 'plan-yearly', price: 120, interval: 'yearly' }),
+      currentPeriodStart: new Date('2024-01-01T00:00:00Z'),
+      currentPeriodEnd: new Date('2025-01-01T00:00:00Z')
+    });
+
+    // Act
+    const result = calculator.calculate(yearly, plan({}), new Date('2024-07-02T00:00:00Z'));
+
+    // Assert: 183 of 366 days remain
+    expect(result.totalCredit).toBe(60);
+    expect(result.amountDue).toBe(0);
+    expect(result.creditBalance).toBe(50);
+  });
+
+  test('should round to the currency minor unit', () => {
+    // Arrange
+    const yen = subscription({ plan: plan({ price: 1000, currency: 'JPY' }) });
+
+    // Act
+    const result = calculator.calculate(
+      yen,
+      plan({ id: 'plan-pro', price: 3000, currency: 'JPY' }),
+      midPeriod
+    );
+
+    // Assert
+    expect(result.totalCredit).toBe(667);
+    expect(result.totalDebit).toBe(2000);
+    expect(result.amountDue).toBe(1333);
+  });
+
+  test('should not prorate a trial', () => {
+    // Act
+    const result = calculator.calculate(
+      subscription({ status: 'trial' }),
+      plan({ id: 'plan-yearly', price: 100, interval: 'yearly' }),
+      midPeriod
+    );
+
+    // Assert
+    expect(result.lines).toHaveLength(0);
+    expect(result.amountDue).toBe(0);
+    expect(result.newPeriodEnd).toEqual(new Date('2024-05-01T00:00:00Z'));
+  });
+});
+
+describe('SubscriptionManager proration', () => {
+  let store: InMemorySubscriptionStore;
+  let manager: SubscriptionManager;
+  let paymentService: { processPayment: jest.Mock };
+
+  beforeEach(() => {
+    store = new InMemorySubscriptionStore();
+    paymentService = {
+      processPayment: jest.fn().mockResolvedValue({ success: true, transactionId: 'tx_123' })
+    };
+    manager = new SubscriptionManager(store, paymentService as any);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should charge the prorated amount and carry credit into the next renewal', async () => {
+    // Arrange
+    const yearly = await manager.createPlan({ name: 'Yearly', price: 120, currency: 'USD', interval: 'yearly' });
+    const monthly = await manager.createPlan({ name: 'Monthly', price: 20, currency: 'USD', interval: 'monthly' });
+    const created = await manager.createSubscription({
+      customerId: 'customer-123',
+      customerEmail: 'customer@example.com',
+      planId: yearly.id,
+      paymentMethodId: 'pm_123'
+    });
+
+    // Act: switch to monthly straight away, leaving almost the whole year as credit
+    const preview = await manager.previewPlanChange(created.id, monthly.id);
+    const changed = await manager.changePlan(created.id, monthly.id);
+
+    // Assert
+    expect(preview.effective).toBe('immediate');
+    expect(changed.plan.id).toBe(monthly.id);
+    expect(changed.creditBalance).toBeCloseTo(100, 0);
+    expect(paymentService.processPayment).toHaveBeenCalledTimes(1);
+
+    // Act: the next renewal is covered by the credit
+    await store.save({ ...changed, currentPeriodEnd: new Date(Date.now() - 1000) });
+    const outcome = await manager.renewSubscription(created.id);
+
+    // Assert
+    const renewed = await manager.getSubscription(created.id);
+    expect(outcome).toBe('renewed');
+    expect(renewed.creditBalance).toBeCloseTo(80, 0);
+    expect(paymentService.processPayment).toHaveBeenCalledTimes(1);
+  });
+
+  test('should preview a downgrade as scheduled without proration', async () => {
+    // Arrange
+    const pro = await manager.createPlan({ name: 'Pro', price: 30, currency: 'USD', interval: 'monthly' });
+    const basic = await manager.createPlan({ name: 'Basic', price: 10, currency: 'USD', interval: 'monthly' });
+    const created = await manager.createSubscription({
+      customerId: 'customer-123',
+      customerEmail: 'customer@example.com',
+      planId: pro.id,
+      paymentMethodId: 'pm_123'
+    });
+
+    // Act
+    const preview = await manager.previewPlanChange(created.id, basic.id);
+
+    // Assert
+    expect(preview.effective).toBe('period_end');
+    expect(preview.effectiveAt).toEqual(created.currentPeriodEnd);
+    expect(preview.proration).toBeUndefined();
+  });
+});
@@ -0,0 +1,250 @@
+// src/tests/payment/subscriptions/subscription.test.ts
+
+import { SubscriptionManager } from '../../../lib/payment/subscriptions/subscription.manager';
+import { SubscriptionScheduler } from '../../../lib/payment/subscriptions/subscription.scheduler';
+import { InMemorySubscriptionStore } from '../../../lib/payment/subscriptions/subscription.store';
+import { addBillingInterval } from '../../../lib/payment/subscriptions/billing-period';
+import { SubscriptionPlan } from '../../../lib/payment/types/subscription';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('SubscriptionManager', () => {
+  let store: InMemorySubscriptionStore;
+  let manager: SubscriptionManager;
+  let paymentService: { processPayment: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+  let basic: SubscriptionPlan;
+  let pro: SubscriptionPlan;
+
+  const subscribe = (overrides: Record<string, any> = {}) =>
+    manager.createSubscription({
+      customerId: 'customer-123',
+      customerEmail: 'customer@example.com',
+      planId: basic.id,
+      paymentMethodId: 'pm_123',
+      ...overrides
+    });
+
+  // Move the subscription's period end into the past so it is due for renewal
+  const expirePeriod = async (subscriptionId: string) => {
+    const subscription = await store.get(subscriptionId);
+    await store.save({ ...subscription!, currentPeriodEnd: new Date(Date.now() - 1000) });
+  };
+
+  beforeEach(async () => {
+    store = new InMemorySubscriptionStore();
+    eventEmitter = { emit: jest.fn().mockResolvedValue(undefined) };
+    paymentService = {
+      processPayment: jest.fn().mockResolvedValue({ success: true, transactionId: 'tx_123' })
+    };
+    manager = new SubscriptionManager(store, paymentService as any, {
+      eventEmitter: eventEmitter as any
+    });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Arrange: two monthly plans
+    basic = await manager.createPlan({ name: 'Basic', price: 10, currency: 'usd', interval: 'monthly' });
+    pro = await manager.createPlan({ name: 'Pro', price: 30, currency: 'USD', interval: 'monthly' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should charge the first period when there is no trial', async () => {
+    // Act
+    const subscription = await subscribe();
+
+    // Assert
+    expect(subscription.status).toBe('active');
+    expect(subscription.plan.id).toBe(basic.id);
+    expect(subscription.lastPaymentTransactionId).toBe('tx_123');
+    expect(subscription.currentPeriodEnd).toEqual(
+      addBillingInterval(subscription.currentPeriodStart, 'monthly')
+    );
+    expect(paymentService.processPayment).toHaveBeenCalledWith(expect.objectContaining({
+      amount: { amount: 10, currency: 'USD' },
+      customer: { id: 'customer-123', email: 'customer@example.com' },
+      paymentMethod: 'pm_123'
+    }));
+    expect(eventEmitter.emit).toHaveBeenCalledWith('subscription.created', expect.objectContaining({
+      subscriptionId: subscription.id,
+      status: 'active'
+    }));
+  });
+
+  test('should start a trial without charging', async () => {
+    // Act
+    const subscription = await subscribe({ trialDays: 14 });
+
+    // Assert
+    expect(subscription.status).toBe('trial');
+    expect(subscription.trialEnd).toEqual(subscription.currentPeriodEnd);
+    expect(subscription.currentPeriodEnd.getTime() - subscription.currentPeriodStart.getTime()).toBe(14 * DAY);
+    expect(paymentService.processPayment).not.toHaveBeenCalled();
+  });
+
+  test('should not create a subscription when the first charge fails', async () => {
+    // Arrange
+    paymentService.processPayment.mockResolvedValueOnce({
+      success: false,
+      transactionId: 'tx_failed',
+      error: { code: 'PAYMENT_DECLINED', message: 'Card declined' }
+    });
+
+    // Act & Assert
+    await expect(subscribe()).rejects.toMatchObject({ code: ErrorCode.PAYMENT_FAILED });
+    expect(await manager.getCurrentSubscription('customer-123')).toBeNull();
+  });
+
+  test('should reject a second subscription for the same customer', async () => {
+    // Arrange
+    await subscribe();
+
+    // Act & Assert
+    await expect(subscribe({ planId: pro.id })).rejects.toMatchObject({
+      code: ErrorCode.SUBSCRIPTION_INVALID_STATE
+    });
+  });
+
+  test('should apply upgrades immediately and schedule downgrades', async () => {
+    // Arrange
+    const subscription = await subscribe();
+
+    // Act
+    const upgraded = await manager.changePlan(subscription.id, pro.id);
+    const downgraded = await manager.changePlan(subscription.id, basic.id);
+
+    // Assert
+    expect(upgraded.plan.id).toBe(pro.id);
+    expect(downgraded.plan.id).toBe(pro.id);
+    expect(downgraded.scheduledPlan!.id).toBe(basic.id);
+
+    const eventTypes = eventEmitter.emit.mock.calls.map(call => call[0]);
+    expect(eventTypes).toEqual(expect.arrayContaining([
+      'subscription.upgraded',
+      'subscription.downgrade_scheduled'
+    ]));
+  });
+
+  test('should cancel at the end of the period', async () => {
+    // Arrange
+    const subscription = await subscribe();
+
+    // Act
+    const scheduled = await manager.cancelSubscription(subscription.id);
+    await expirePeriod(subscription.id);
+    const outcome = await manager.renewSubscription(subscription.id);
+
+    // Assert
+    expect(scheduled.status).toBe('active');
+    expect(scheduled.cancelAtPeriodEnd).toBe(true);
+    expect(outcome).toBe('canceled');
+    expect((await manager.getSubscription(subscription.id)).status).toBe('canceled');
+    expect(paymentService.processPayment).toHaveBeenCalledTimes(1);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('subscription.canceled', expect.objectContaining({
+      subscriptionId: subscription.id
+    }));
+  });
+
+  test('should renew into the next period and apply a scheduled downgrade', async () => {
+    // Arrange
+    const subscription = await subscribe({ planId: pro.id });
+    await manager.changePlan(subscription.id, basic.id);
+    await expirePeriod(subscription.id);
+    const expired = await store.get(subscription.id);
+    paymentService.processPayment.mockResolvedValueOnce({ success: true, transactionId: 'tx_456' });
+
+    // Act
+    const outcome = await manager.renewSubscription(subscription.id);
+
+    // Assert
+    const renewed = await manager.getSubscription(subscription.id);
+    expect(outcome).toBe('renewed');
+    expect(renewed.plan.id).toBe(basic.id);
+    expect(renewed.scheduledPlan).toBeUndefined();
+    expect(renewed.currentPeriodStart).toEqual(expired!.currentPeriodEnd);
+    expect(renewed.lastPaymentTransactionId).toBe('tx_456');
+    expect(paymentService.processPayment).toHaveBeenLastCalledWith(expect.objectContaining({
+      amount: { amount: 10, currency: 'USD' }
+    }));
+  });
+
+  test('should mark the subscription past due when renewal payment fails', async () => {
+    // Arrange
+    const subscription = await subscribe();
+    await expirePeriod(subscription.id);
+    paymentService.processPayment.mockResolvedValueOnce({
+      success: false,
+      transactionId: 'tx_failed',
+      error: { code: 'PAYMENT_DECLINED', message: 'Card declined' }
+    });
+
+    // Act
+    const outcome = await manager.renewSubscription(subscription.id);
+
+    // Assert
+    expect(outcome).toBe('payment_failed');
+    expect((await manager.getSubscription(subscription.id)).status).toBe('past_due');
+    expect(eventEmitter.emit).toHaveBeenCalledWith('subscription.payment_failed', expect.objectContaining({
+      subscriptionId: subscription.id,
+      errorCode: 'PAYMENT_DECLINED'
+    }));
+  });
+});
+
+describe('SubscriptionScheduler', () => {
+  let store: InMemorySubscriptionStore;
+  let manager: SubscriptionManager;
+  let scheduler: SubscriptionScheduler;
+  let paymentService: { processPayment: jest.Mock };
+
+  beforeEach(() => {
+    store = new InMemorySubscriptionStore();
+    paymentService = {
+      processPayment: jest.fn().mockResolvedValue({ success: true, transactionId: 'tx_123' })
+    };
+    manager = new SubscriptionManager(store, paymentService as any);
+    scheduler = new SubscriptionScheduler(manager);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('should renew only subscriptions whose period has ended', async () => {
+    // Arrange
+    const plan = await manager.createPlan({ name: 'Basic', price: 10, currency: 'USD', interval: 'monthly' });
+    const trial = await manager.createSubscription({
+      customerId: 'customer-1',
+      customerEmail: 'one@example.com',
+      planId: plan.id,
+      paymentMethodId: 'pm_1',
+      trialDays: 7
+    });
+    await manager.createSubscription({
+      customerId: 'customer-2',
+      customerEmail: 'two@example.com',
+      planId: plan.id,
+      paymentMethodId: 'pm_2'
+    });
+    paymentService.processPayment.mockClear();
+
+    // Act
+    const summary = await scheduler.runOnce(new Date(Date.now() + 8 * DAY));
+
+    // Assert
+    expect(summary).toEqual({ processed: 1, renewed: 1, paymentFailed: 0, canceled: 0, errors: 0 });
+    expect(paymentService.processPayment).toHaveBeenCalledTimes(1);
+    expect((await manager.getSubscription(trial.id)).status).toBe('active');
+  });
+});
@@ -0,0 +1,127 @@
+// src/tests/payment/transaction/idempotency.test.ts
+
+import { IdempotencyManager, RequestContext } from '../../../lib/payment/transaction/utils/idempotency';
+import { InMemoryIdempotencyStore } from '../../../lib/payment/transaction/store/idempotency.store';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('IdempotencyManager', () => {
+  const key = 'idem-key-12345';
+  const lockExpirationMs = 60000;
+
+  let store: InMemoryIdempotencyStore;
+  let eventEmitter: { emit: jest.Mock };
+  let idempotencyManager: IdempotencyManager;
+
+  const requestContext = (bodyHash: string): RequestContext => ({
+    path: '/payments',
+    method: 'POST',
+    bodyHash,
+    timestamp: new Date()
+  });
+
+  beforeEach(() => {
+    // Fake timers stop the hourly cleanup from keeping the process alive
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+
+    store = new InMemoryIdempotencyStore();
+    eventEmitter = { emit: jest.fn().mockResolvedValue(true) };
+    idempotencyManager = new IdempotencyManager({
+      store,
+      lockExpirationMs,
+      eventEmitter: eventEmitter as any
+    });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should reject a second request while the first holds the lock', async () => {
+    // Arrange
+    await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+
+    // Act & Assert
+    await expect(idempotencyManager.checkAndLock(key, requestContext('hash-1')))
+      .rejects.toMatchObject({ code: ErrorCode.DUPLICATE_REQUEST });
+    expect((await idempotencyManager.getKeyStatus(key))!.attempts).toBe(2);
+  });
+
+  test('should let a retry take the key after the lock is released', async () => {
+    // Arrange
+    await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+    await idempotencyManager.releaseLock(key);
+
+    // Act
+    const locked = await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+
+    // Assert
+    expect(locked).toBe(true);
+    expect((await idempotencyManager.getKeyStatus(key))!.locked).toBe(true);
+  });
+
+  test('should reject a different request body for the same key', async () => {
+    // Arrange
+    await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+    await idempotencyManager.releaseLock(key);
+
+    // Act & Assert
+    await expect(idempotencyManager.checkAndLock(key, requestContext('hash-2')))
+      .rejects.toMatchObject({ code: ErrorCode.IDEMPOTENCY_ERROR });
+    expect(eventEmitter.emit).toHaveBeenCalledWith('idempotency.replay_detected', expect.objectContaining({ key }));
+  });
+
+  test('should keep the original response for replay', async () => {
+    // Arrange
+    const response = {
+      statusCode: 201,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+      body: '{"id":"tx_123","status":"COMPLETED"}'
+    };
+    await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+
+    // Act
+    await idempotencyManager.associateResource(key, 'tx_123', 'transaction', response, 'hash-1');
+
+    // Assert
+    expect(await idempotencyManager.getAssociatedResource(key)).toEqual({
+      resourceId: 'tx_123',
+      resourceType: 'transaction'
+    });
+    expect((await idempotencyManager.getKeyStatus(key))!.response).toEqual(response);
+    await expect(idempotencyManager.checkAndLock(key, requestContext('hash-1')))
+      .rejects.toMatchObject({ code: ErrorCode.DUPLICATE_REQUEST });
+  });
+
+  test('should take over a lock that has expired', async () => {
+    // Arrange
+    await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+    jest.setSystemTime(Date.now() + lockExpirationMs + 1);
+
+    // Act
+    const locked = await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+
+    // Assert
+    expect(locked).toBe(true);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('idempotency.stale_lock_reset', expect.objectContaining({ key }));
+  });
+
+  test('should remove expired records during cleanup', async () => {
+    // Arrange
+    await idempotencyManager.checkAndLock(key, requestContext('hash-1'));
+    await idempotencyManager.associateResource(key, 'tx_123', 'transaction');
+    jest.setSystemTime(Date.now() + 86400000 + 1);
+
+    // Act
+    await idempotencyManager.cleanup();
+
+    // Assert
+    expect(await idempotencyManager.keyExists(key)).toBe(false);
+    expect(await idempotencyManager.getRecordCount()).toBe(0);
+  });
+});
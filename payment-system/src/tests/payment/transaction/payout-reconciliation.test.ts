@@ -0,0 +1,181 @@
+// src/tests/payment/transaction/payout-reconciliation.test.ts
+
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { PayoutReportParser } from '../../../lib/payment/transaction/utils/payout-report';
+import { TransactionReconciliator } from '../../../lib/payment/transaction/utils/reconciliation';
+import { Transaction, TransactionStatus, TransactionType } from '../../../lib/payment/types/transaction.types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('Payout reconciliation', () => {
+  let transactionStore: InMemoryTransactionStore;
+  let transactionManager: TransactionManager;
+  let reconciliator: TransactionReconciliator;
+  let parser: PayoutReportParser;
+
+  const settledPayment = async (amount: number, providerTransactionId: string): Promise<Transaction> => {
+    const payment = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: `payment-${providerTransactionId}`
+    });
+
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING);
+    return transactionManager.updateTransactionStatus(payment.id, TransactionStatus.COMPLETED, {
+      providerTransactionId
+    });
+  };
+
+  const payoutJson = (lines: any[], amount?: number): string => JSON.stringify({
+    payouts: [{
+      id: 'po_1',
+      amount,
+      currency: 'usd',
+      lines: lines.map(line => ({ currency: 'usd', created_at: new Date().toISOString(), ...line }))
+    }]
+  });
+
+  beforeEach(() => {
+    transactionStore = new InMemoryTransactionStore();
+    transactionManager = new TransactionManager(transactionStore);
+    reconciliator = new TransactionReconciliator(transactionStore, { getTransactions: jest.fn() });
+    parser = new PayoutReportParser();
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should parse an itemized CSV payout report', () => {
+    // Arrange
+    const created = Math.floor(Date.now() / 1000);
+    const csv = [
+      'automatic_payout_id,source_id,reporting_category,gross,fee,net,currency,created',
+      `po_1,pi_1,charge,100.00,3.20,96.80,usd,${created}`,
+      `po_1,re_1,refund,-30.00,0.00,-30.00,usd,${created}`,
+      `po_2,pi_2,"charge",50.00,1.75,48.25,usd,${created}`
+    ].join('\r\n');
+
+    // Act
+    const payouts = parser.parse(csv, 'csv');
+
+    // Assert
+    expect(payouts.map(p => [p.id, p.lines.length])).toEqual([['po_1', 2], ['po_2', 1]]);
+    expect(payouts[0].lines[1]).toMatchObject({
+      sourceId: 're_1',
+      category: 'refund',
+      gross: -30,
+      net: -30,
+      currency: 'USD'
+    });
+    expect(payouts[0].lines[0].createdAt!.getTime()).toBe(created * 1000);
+  });
+
+  test('should reject a report without the required columns', () => {
+    // Act & Assert
+    expect(() => parser.parse('payout_id,net\npo_1,10', 'csv'))
+      .toThrow(expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR }));
+  });
+
+  test('should match payout lines to settled transactions', async () => {
+    // Arrange
+    const payment = await settledPayment(100, 'pi_1');
+    const refund = await transactionManager.beginTransaction(TransactionType.REFUND, {
+      type: TransactionType.REFUND,
+      amount: 30,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'refund-1',
+      parentTransactionId: payment.id
+    });
+    await transactionManager.updateTransactionStatus(refund.id, TransactionStatus.PROCESSING);
+    await transactionManager.updateTransactionStatus(refund.id, TransactionStatus.COMPLETED, {
+      providerRefundId: 're_1'
+    });
+
+    const payouts = parser.parse(payoutJson([
+      { source_id: 'pi_1', category: 'charge', gross: 100, fee: 3.2 },
+      { source_id: 're_1', category: 'refund', gross: -30, fee: 0 }
+    ], 66.8), 'json');
+
+    // Act
+    const result = await reconciliator.reconcilePayouts(payouts);
+
+    // Assert
+    expect(result.mismatches).toEqual([]);
+    expect(result.transactionsChecked).toBe(2);
+    expect(result.summary.succeeded).toBe(2);
+  });
+
+  test('should flag missing, extra and mis-amounted settlements', async () => {
+    // Arrange
+    const shortPaid = await settledPayment(100, 'pi_1');
+    const unpaid = await settledPayment(25, 'pi_2');
+
+    const payouts = parser.parse(payoutJson([
+      { source_id: 'pi_1', gross: 90, fee: 2.9 },
+      { source_id: 'pi_unknown', gross: 10, fee: 0.59 }
+    ]), 'json');
+
+    // Act
+    const result = await reconciliator.reconcilePayouts(payouts);
+
+    // Assert
+    const byType = (type: string) => result.mismatches.filter(m => m.type === type);
+
+    expect(byType('settlement_amount_mismatch')).toEqual([
+      expect.objectContaining({
+        transactionId: shortPaid.id,
+        details: expect.objectContaining({ expectedGross: 100, reportedGross: 90 })
+      })
+    ]);
+    expect(byType('settlement_extra')).toEqual([
+      expect.objectContaining({ transactionId: 'pi_unknown', severity: 'high' })
+    ]);
+    expect(byType('settlement_missing')).toEqual([
+      expect.objectContaining({ transactionId: unpaid.id, retryable: true })
+    ]);
+    expect(result.summary).toMatchObject({ succeeded: 0, inconsistent: 1, orphaned: 1, missing: 1 });
+  });
+
+  test('should flag a payout whose lines do not add up to the amount paid', async () => {
+    // Arrange
+    await settledPayment(100, 'pi_1');
+
+    const payouts = parser.parse(payoutJson([
+      { source_id: 'pi_1', gross: 100, fee: 3.2, net: 96.8 }
+    ], 90), 'json');
+
+    // Act
+    const result = await reconciliator.reconcilePayouts(payouts);
+
+    // Assert
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        transactionId: 'po_1',
+        type: 'payout_total_mismatch',
+        details: expect.objectContaining({ linesNet: 96.8, difference: -6.8 })
+      })
+    ]);
+  });
+
+  test('should require a window when payout lines have no dates', async () => {
+    // Arrange
+    const payouts = parser.parse(JSON.stringify([
+      { id: 'po_1', currency: 'usd', lines: [{ source_id: 'pi_1', gross: 100 }] }
+    ]), 'json');
+
+    // Act & Assert
+    await expect(reconciliator.reconcilePayouts(payouts))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+});
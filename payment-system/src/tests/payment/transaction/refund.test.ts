@@ -0,0 +1,258 @@
+// src/tests/payment/transaction/refund.test.ts
+
+import { RefundManager } from '../../../lib/payment/transaction/managers/refund.manager';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { PaymentService } from '../../../lib/payment/services/payment.service';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType
+} from '../../../lib/payment/types/transaction.types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+const createMockProvider = () => ({
+  createPayment: jest.fn().mockResolvedValue({ success: true, transactionId: 'pi_789' }),
+  refundPayment: jest.fn().mockImplementation(async (_id: string, data: { amount?: number }) => ({
+    success: true,
+    transactionId: `re_${data.amount}`,
+    metadata: { stripeStatus: 'succeeded', refundedAmount: data.amount }
+  }))
+});
+
+describe('RefundManager', () => {
+  let store: InMemoryTransactionStore;
+  let transactionManager: TransactionManager;
+  let refundManager: RefundManager;
+  let provider: ReturnType<typeof createMockProvider>;
+  let eventEmitter: { emit: jest.Mock };
+  let payment: Transaction;
+
+  beforeEach(async () => {
+    store = new InMemoryTransactionStore();
+    eventEmitter = { emit: jest.fn().mockResolvedValue(undefined) };
+    transactionManager = new TransactionManager(store, { eventEmitter: eventEmitter as any });
+    provider = createMockProvider();
+    refundManager = new RefundManager(transactionManager, provider as any, {
+      eventEmitter: eventEmitter as any
+    });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Arrange: a captured payment of 100.00
+    payment = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-idem-123'
+    });
+    payment = await transactionManager.updateTransactionStatus(
+      payment.id,
+      TransactionStatus.COMPLETED,
+      { providerTransactionId: 'pi_123' }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should create a child refund transaction', async () => {
+    // Act
+    const refund = await refundManager.createRefund(payment.id, {
+      amount: 40,
+      reason: 'requested_by_customer',
+      idempotencyKey: 'refund-idem-1'
+    });
+
+    // Assert
+    expect(refund.type).toBe(TransactionType.REFUND);
+    expect(refund.status).toBe(TransactionStatus.COMPLETED);
+    expect(refund.parentTransactionId).toBe(payment.id);
+    expect(refund.amount).toBe(40);
+    expect(provider.refundPayment).toHaveBeenCalledWith('pi_123', expect.objectContaining({ amount: 40 }));
+
+    const updatedPayment = await transactionManager.getTransaction(payment.id);
+    expect(updatedPayment!.status).toBe(TransactionStatus.COMPLETED);
+    expect(updatedPayment!.metadata!.refundedAmount).toBe(40);
+
+    const eventTypes = eventEmitter.emit.mock.calls.map(call => call[0]);
+    expect(eventTypes).toEqual(expect.arrayContaining(['refund.created', 'refund.completed']));
+  });
+
+  test('should allow several partial refunds up to the captured amount', async () => {
+    // Act
+    await refundManager.createRefund(payment.id, { amount: 30, idempotencyKey: 'refund-idem-1' });
+    await refundManager.createRefund(payment.id, { amount: 50.5, idempotencyKey: 'refund-idem-2' });
+    const last = await refundManager.createRefund(payment.id, { idempotencyKey: 'refund-idem-3' });
+
+    // Assert
+    expect(last.amount).toBe(19.5);
+
+    const ledger = await refundManager.getRefundLedger(payment.id);
+    expect(ledger.refunds).toHaveLength(3);
+    expect(ledger.refundedAmount).toBe(100);
+    expect(ledger.remainingAmount).toBe(0);
+
+    const updatedPayment = await transactionManager.getTransaction(payment.id);
+    expect(updatedPayment!.metadata!.fullyRefunded).toBe(true);
+  });
+
+  test('should reject refunds exceeding the remaining amount', async () => {
+    // Arrange
+    await refundManager.createRefund(payment.id, { amount: 80, idempotencyKey: 'refund-idem-1' });
+
+    // Act & Assert
+    await expect(
+      refundManager.createRefund(payment.id, { amount: 25, idempotencyKey: 'refund-idem-2' })
+    ).rejects.toMatchObject({ code: ErrorCode.REFUND_AMOUNT_EXCEEDED });
+
+    expect(provider.refundPayment).toHaveBeenCalledTimes(1);
+  });
+
+  test('should only count captured amount for partially captured payments', async () => {
+    // Arrange
+    const authorized = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-idem-456'
+    });
+    await transactionManager.updateTransactionStatus(authorized.id, TransactionStatus.AUTHORIZED);
+    await transactionManager.updateTransactionStatus(
+      authorized.id,
+      TransactionStatus.PARTIALLY_CAPTURED,
+      { providerTransactionId: 'pi_456', capturedAmount: 60 }
+    );
+
+    // Act & Assert
+    await expect(
+      refundManager.createRefund(authorized.id, { amount: 70, idempotencyKey: 'refund-idem-1' })
+    ).rejects.toMatchObject({ code: ErrorCode.REFUND_AMOUNT_EXCEEDED });
+
+    const refund = await refundManager.createRefund(authorized.id, { idempotencyKey: 'refund-idem-2' });
+    expect(refund.amount).toBe(60);
+  });
+
+  test('should return the existing refund for a repeated idempotency key', async () => {
+    // Act
+    const first = await refundManager.createRefund(payment.id, { amount: 10, idempotencyKey: 'refund-idem-1' });
+    const second = await refundManager.createRefund(payment.id, { amount: 10, idempotencyKey: 'refund-idem-1' });
+
+    // Assert
+    expect(second.id).toBe(first.id);
+    expect(provider.refundPayment).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject an idempotency key already used to refund another payment', async () => {
+    // Arrange
+    const other = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 50,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-idem-other'
+    });
+    await transactionManager.updateTransactionStatus(
+      other.id,
+      TransactionStatus.COMPLETED,
+      { providerTransactionId: 'pi_other' }
+    );
+    const first = await refundManager.createRefund(payment.id, { amount: 10, idempotencyKey: 'refund-idem-1' });
+
+    // Act & Assert
+    await expect(
+      refundManager.createRefund(other.id, { amount: 10, idempotencyKey: 'refund-idem-1' })
+    ).rejects.toMatchObject({ code: ErrorCode.IDEMPOTENCY_ERROR });
+
+    expect(provider.refundPayment).toHaveBeenCalledTimes(1);
+    expect((await refundManager.getRefundLedger(other.id)).refundedAmount).toBe(0);
+    expect((await transactionManager.getTransaction(first.id))!.parentTransactionId).toBe(payment.id);
+  });
+
+  test('should mark the refund failed when the provider declines it', async () => {
+    // Arrange
+    provider.refundPayment.mockResolvedValueOnce({
+      success: false,
+      error: { code: 'REFUND_FAILED', message: 'Charge already disputed' }
+    });
+
+    // Act
+    const refund = await refundManager.createRefund(payment.id, { amount: 20, idempotencyKey: 'refund-idem-1' });
+
+    // Assert
+    expect(refund.status).toBe(TransactionStatus.FAILED);
+
+    const ledger = await refundManager.getRefundLedger(payment.id);
+    expect(ledger.refundedAmount).toBe(0);
+    expect(ledger.remainingAmount).toBe(100);
+
+    const eventTypes = eventEmitter.emit.mock.calls.map(call => call[0]);
+    expect(eventTypes).toContain('refund.failed');
+  });
+
+  test('should fail the refund when the provider call throws', async () => {
+    // Arrange
+    provider.refundPayment.mockRejectedValueOnce(new Error('socket hang up'));
+
+    // Act
+    const refund = await refundManager.createRefund(payment.id, { amount: 20, idempotencyKey: 'refund-idem-1' });
+
+    // Assert
+    expect(refund.status).toBe(TransactionStatus.FAILED);
+    expect(refund.metadata).toMatchObject({
+      failureReason: ErrorCode.PROVIDER_COMMUNICATION_ERROR,
+      failureMessage: 'socket hang up'
+    });
+
+    const ledger = await refundManager.getRefundLedger(payment.id);
+    expect(ledger.pendingAmount).toBe(0);
+    expect(ledger.remainingAmount).toBe(100);
+  });
+
+  test('should refund a payment processed through the payment service', async () => {
+    // Arrange
+    const paymentService = new PaymentService(provider, transactionManager);
+    const processed = await paymentService.processPayment({
+      amount: { amount: 75, currency: 'USD' },
+      customer: { id: 'customer-123', email: 'customer@example.com' },
+      paymentMethod: 'pm_123',
+      metadata: { idempotencyKey: 'payment-idem-e2e' }
+    });
+
+    // Act
+    const refund = await refundManager.createRefund(processed.transactionId!, {
+      amount: 25,
+      idempotencyKey: 'refund-idem-e2e'
+    });
+
+    // Assert
+    expect(processed.success).toBe(true);
+    expect(refund.status).toBe(TransactionStatus.COMPLETED);
+    expect(provider.refundPayment).toHaveBeenCalledWith('pi_789', expect.objectContaining({ amount: 25 }));
+  });
+
+  test('should reject refunds for payments that were not captured', async () => {
+    // Arrange
+    const pending = await transactionManager.beginTransaction(TransactionType.PAYMENT, {
+      type: TransactionType.PAYMENT,
+      amount: 50,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: 'payment-idem-789'
+    });
+
+    // Act & Assert
+    await expect(
+      refundManager.createRefund(pending.id, { idempotencyKey: 'refund-idem-1' })
+    ).rejects.toMatchObject({ code: ErrorCode.TRANSACTION_INVALID_STATE });
+  });
+});
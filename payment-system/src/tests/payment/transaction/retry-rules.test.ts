@@ -0,0 +1,147 @@
+// src/tests/payment/transaction/retry-rules.test.ts
+
+import { RetryManager } from '../../../lib/payment/transaction/managers/retry.manager';
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { MetricsCollector } from '../../../lib/payment/monitoring/metrics/collector';
+import {
+  Transaction,
+  TransactionError,
+  TransactionErrorCode,
+  TransactionStatus,
+  TransactionType
+} from '../../../lib/payment/types/transaction.types';
+import { v4 as uuidv4 } from 'uuid';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Retry rules', () => {
+  let transactionStore: InMemoryTransactionStore;
+  let retryQueue: { on: jest.Mock; enqueue: jest.Mock };
+  let metricsCollector: MetricsCollector;
+  let retryManager: RetryManager;
+
+  const createTransaction = (error: TransactionError, retryCount: number = 0): Transaction => ({
+    id: uuidv4(),
+    type: TransactionType.PAYMENT,
+    status: TransactionStatus.FAILED,
+    amount: 100,
+    currency: 'USD',
+    customerId: 'customer-123',
+    paymentMethodId: 'pm-123',
+    idempotencyKey: `idem-${uuidv4()}`,
+    retryCount,
+    error,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const declined = (declineCode: string): TransactionError => ({
+    code: 'payment_failed',
+    message: 'Your card was declined',
+    recoverable: true,
+    retryable: false,
+    details: { providerErrorCode: declineCode }
+  });
+
+  const networkError: TransactionError = {
+    code: TransactionErrorCode.NETWORK_ERROR,
+    message: 'Network error occurred',
+    recoverable: true,
+    retryable: true
+  };
+
+  beforeEach(() => {
+    transactionStore = new InMemoryTransactionStore();
+    retryQueue = { on: jest.fn(), enqueue: jest.fn().mockResolvedValue(undefined) };
+    metricsCollector = new MetricsCollector();
+    retryManager = new RetryManager(transactionStore, retryQueue as any, { metricsCollector });
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should retry insufficient funds after three days even when the error is not retryable', async () => {
+    // Arrange
+    const transactionManager = new TransactionManager(transactionStore, { retryManager });
+    const transaction = createTransaction(declined('insufficient_funds'));
+    await transactionStore.save(transaction);
+
+    // Act
+    const result = await transactionManager.handleTransactionError(transaction.id, transaction.error!);
+
+    // Assert
+    expect(result.status).toBe(TransactionStatus.RECOVERY_PENDING);
+    expect(result.metadata?.retryRule).toBe('insufficient_funds');
+    expect(retryQueue.enqueue).toHaveBeenCalledWith(transaction.id, 3 * DAY);
+  });
+
+  test('should never retry do_not_honor', async () => {
+    // Arrange
+    const error = { ...declined('do_not_honor'), retryable: true };
+    const transaction = createTransaction(error);
+    await transactionStore.save(transaction);
+
+    // Act
+    const result = await retryManager.scheduleRetry(transaction, error);
+
+    // Assert
+    expect(retryManager.isRetryableError(error)).toBe(false);
+    expect(result.status).toBe(TransactionStatus.FAILED);
+    expect(result.metadata?.retryNotAllowed).toBe(true);
+    expect(retryQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  test('should retry network errors right away', async () => {
+    // Arrange
+    const transaction = createTransaction(networkError);
+    await transactionStore.save(transaction);
+
+    // Act
+    await retryManager.scheduleRetry(transaction, networkError);
+
+    // Assert
+    expect(retryQueue.enqueue).toHaveBeenCalledWith(transaction.id, 0);
+  });
+
+  test('should apply the max attempts of the matching rule', async () => {
+    // Arrange: the network rule allows 3 retries, provider errors 5
+    const network = createTransaction(networkError, 3);
+    const providerError: TransactionError = { ...networkError, code: 'processing_error' };
+    const provider = createTransaction(providerError, 3);
+
+    // Act
+    const exhausted = await retryManager.scheduleRetry(network);
+    const retried = await retryManager.scheduleRetry(provider, providerError);
+
+    // Assert
+    expect(exhausted.error?.code).toBe('RETRY_LIMIT_EXCEEDED');
+    expect(retried.status).toBe(TransactionStatus.RECOVERY_PENDING);
+    expect(retried.retryCount).toBe(4);
+  });
+
+  test('should report the success rate of each rule', async () => {
+    // Arrange
+    const handleRetry = retryQueue.on.mock.calls.find(([event]: [string]) => event === 'retry')![1];
+    const succeeds = await retryManager.scheduleRetry(createTransaction(networkError), networkError);
+    const fails = await retryManager.scheduleRetry(createTransaction(networkError, 2), networkError);
+    const random = jest.spyOn(Math, 'random');
+
+    // Act
+    random.mockReturnValue(0.9);
+    await handleRetry(succeeds.id);
+    random.mockReturnValue(0.1);
+    await handleRetry(fails.id);
+
+    // Assert
+    expect(metricsCollector.getMetric('transaction.retry.success_rate')).toEqual([
+      expect.objectContaining({ value: 1, labels: { rule: 'network' } }),
+      expect.objectContaining({ value: 0.5, labels: { rule: 'network' } })
+    ]);
+  });
+});
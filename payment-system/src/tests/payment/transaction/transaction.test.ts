@@ -0,0 +1,148 @@
+// src/tests/payment/transaction/transaction.test.ts
+
+import { TransactionManager } from '../../../lib/payment/transaction/managers/transaction.manager';
+import { InMemoryTransactionStore } from '../../../lib/payment/transaction/store/transaction.store';
+import { isValidTransition } from '../../../lib/payment/transaction/utils/status';
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType
+} from '../../../lib/payment/types/transaction.types';
+import { errorHandler, ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('TransactionManager status transitions', () => {
+  let store: InMemoryTransactionStore;
+  let transactionManager: TransactionManager;
+
+  const createTransaction = (type: TransactionType = TransactionType.PAYMENT): Promise<Transaction> =>
+    transactionManager.beginTransaction(type, {
+      type,
+      amount: 100,
+      currency: 'USD',
+      customerId: 'customer-123',
+      paymentMethodId: 'pm_123',
+      idempotencyKey: `idem-${Math.random().toString(36).slice(2)}`
+    });
+
+  beforeEach(() => {
+    store = new InMemoryTransactionStore();
+    transactionManager = new TransactionManager(store);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should refuse to move a completed payment back to pending', async () => {
+    // Arrange
+    const payment = await createTransaction();
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.COMPLETED);
+
+    // Act & Assert
+    await expect(
+      transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PENDING)
+    ).rejects.toMatchObject({ code: ErrorCode.TRANSACTION_INVALID_STATE });
+    expect((await store.get(payment.id))!.status).toBe(TransactionStatus.COMPLETED);
+  });
+
+  test('should apply the transitions of the transaction type', async () => {
+    // Arrange
+    const refund = await createTransaction(TransactionType.REFUND);
+
+    // Act & Assert
+    expect(isValidTransition(TransactionType.PAYMENT, TransactionStatus.PENDING, TransactionStatus.AUTHORIZED)).toBe(true);
+    expect(isValidTransition(TransactionType.REFUND, TransactionStatus.PENDING, TransactionStatus.AUTHORIZED)).toBe(false);
+    expect(isValidTransition(TransactionType.CHARGEBACK, TransactionStatus.COMPLETED, TransactionStatus.ROLLED_BACK)).toBe(false);
+
+    await expect(
+      transactionManager.updateTransactionStatus(refund.id, TransactionStatus.AUTHORIZED)
+    ).rejects.toMatchObject({ code: ErrorCode.TRANSACTION_INVALID_STATE });
+  });
+
+  test('should record each transition with its actor and reason', async () => {
+    // Arrange
+    const payment = await createTransaction();
+
+    // Act
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING);
+    await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING, { note: 'metadata only' });
+    await transactionManager.updateTransactionStatus(
+      payment.id,
+      TransactionStatus.FAILED,
+      undefined,
+      undefined,
+      { actor: 'user-42', reason: 'Cancelled by support' }
+    );
+
+    // Assert
+    const history = await transactionManager.getStatusHistory(payment.id);
+    expect(history).toEqual([
+      expect.objectContaining({
+        fromStatus: TransactionStatus.PENDING,
+        toStatus: TransactionStatus.PROCESSING,
+        actor: 'system'
+      }),
+      expect.objectContaining({
+        fromStatus: TransactionStatus.PROCESSING,
+        toStatus: TransactionStatus.FAILED,
+        actor: 'user-42',
+        reason: 'Cancelled by support'
+      })
+    ]);
+    expect(history[1].createdAt).toBeInstanceOf(Date);
+  });
+
+  test('should keep the previous status when its history cannot be recorded', async () => {
+    // Arrange
+    const payment = await createTransaction();
+    jest.spyOn(store, 'saveStatusChange').mockRejectedValueOnce(new Error('connection lost'));
+
+    // Act & Assert
+    await expect(
+      transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING)
+    ).rejects.toMatchObject({ code: ErrorCode.INTERNAL_ERROR });
+    expect((await store.get(payment.id))!.status).toBe(TransactionStatus.PENDING);
+    expect(await transactionManager.getStatusHistory(payment.id)).toEqual([]);
+  });
+
+  test('should abandon the status change when its lock request is chosen as a deadlock victim', async () => {
+    // Arrange
+    const recordLocker = {
+      acquireLock: jest.fn().mockRejectedValue(
+        errorHandler.createError('Transaction aborted to resolve a deadlock', ErrorCode.DEADLOCK_VICTIM)
+      ),
+      releaseLock: jest.fn()
+    };
+    transactionManager = new TransactionManager(store, { recordLocker: recordLocker as any });
+    const payment = await createTransaction();
+
+    // Act & Assert
+    await expect(
+      transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING)
+    ).rejects.toMatchObject({ code: ErrorCode.DEADLOCK_VICTIM });
+    expect((await store.get(payment.id))!.status).toBe(TransactionStatus.PENDING);
+    expect(recordLocker.releaseLock).not.toHaveBeenCalled();
+  });
+
+  test('should still update the status when the lock cannot be acquired in time', async () => {
+    // Arrange
+    const recordLocker = {
+      acquireLock: jest.fn().mockRejectedValue(
+        errorHandler.createError('Timeout waiting to acquire lock', ErrorCode.LOCK_TIMEOUT)
+      ),
+      releaseLock: jest.fn()
+    };
+    transactionManager = new TransactionManager(store, { recordLocker: recordLocker as any });
+    const payment = await createTransaction();
+
+    // Act
+    const updated = await transactionManager.updateTransactionStatus(payment.id, TransactionStatus.PROCESSING);
+
+    // Assert
+    expect(updated.status).toBe(TransactionStatus.PROCESSING);
+  });
+});
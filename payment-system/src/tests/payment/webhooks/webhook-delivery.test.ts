@@ -0,0 +1,141 @@
+// src/tests/payment/webhooks/webhook-delivery.test.ts
+
+import { WebhookDeliveryWorker } from '../../../lib/payment/webhooks/webhook-delivery.worker';
+import { InMemoryWebhookStore } from '../../../lib/payment/webhooks/webhook.store';
+import { WebhookEndpoint, WebhookEventType, WebhookDelivery, WebhookDeliveryStatus } from '../../../lib/payment/webhooks/types';
+import { AlertNotifier } from '../../../lib/payment/monitoring/alerts/notifier';
+
+describe('WebhookDeliveryWorker', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  let store: InMemoryWebhookStore;
+  let fetchMock: jest.Mock;
+  let endpoint: WebhookEndpoint;
+
+  const createDelivery = async (createdAt: Date = new Date()): Promise<WebhookDelivery> => {
+    const delivery: WebhookDelivery = {
+      id: `del_${Math.random().toString(36).slice(2)}`,
+      endpointId: endpoint.id,
+      event: {
+        id: 'evt_123',
+        type: WebhookEventType.PAYMENT_SUCCEEDED,
+        data: { paymentId: 'pay_123' },
+        timestamp: createdAt
+      },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: createdAt,
+      createdAt,
+      updatedAt: createdAt
+    };
+    await store.saveDelivery(delivery);
+    return delivery;
+  };
+
+  beforeEach(async () => {
+    store = new InMemoryWebhookStore();
+    fetchMock = jest.fn();
+    (global as any).fetch = fetchMock;
+
+    endpoint = {
+      id: 'we_123',
+      url: 'https://merchant.example.com/webhooks',
+      secret: 'secret',
+      active: true,
+      events: [WebhookEventType.PAYMENT_SUCCEEDED],
+      metadata: { ownerEmail: 'ops@merchant.example.com' },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await store.saveEndpoint(endpoint);
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete (global as any).fetch;
+    jest.restoreAllMocks();
+  });
+
+  test('should record the attempt and schedule a retry with backoff', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+      text: jest.fn().mockResolvedValue('upstream down')
+    });
+    const worker = new WebhookDeliveryWorker(store, { initialBackoffMs: 1000 });
+    await createDelivery();
+    const [claimed] = await store.claimDueDeliveries(10, 60000);
+
+    // Act
+    const first = await worker.deliver(claimed);
+    const second = await worker.deliver(first);
+
+    // Assert
+    expect(second).toMatchObject({ status: WebhookDeliveryStatus.PENDING, attempts: 2, lastStatusCode: 503 });
+    expect(second.nextAttemptAt!.getTime() - second.lastAttemptAt!.getTime()).toBe(2000);
+
+    const attempts = await store.getDeliveryAttempts(claimed.id);
+    expect(attempts).toHaveLength(2);
+    expect(attempts[0]).toMatchObject({
+      attemptNumber: 1,
+      succeeded: false,
+      statusCode: 503,
+      responseExcerpt: 'upstream down'
+    });
+    expect(attempts[0].latencyMs).toBeGreaterThanOrEqual(0);
+    expect((await store.getEndpoint(endpoint.id))!.consecutiveFailures).toBe(2);
+  });
+
+  test('should give up once the retry window has passed', async () => {
+    // Arrange
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const worker = new WebhookDeliveryWorker(store);
+    const delivery = await createDelivery(new Date(Date.now() - 72 * HOUR_MS));
+
+    // Act
+    const result = await worker.deliver(delivery);
+
+    // Assert
+    expect(result).toMatchObject({ status: WebhookDeliveryStatus.FAILED, lastError: 'connect ECONNREFUSED' });
+    expect(result.completedAt).toBeDefined();
+    expect(await store.getFailedWebhooks(endpoint.id)).toEqual([
+      expect.objectContaining({ deliveryId: delivery.id, error: 'connect ECONNREFUSED' })
+    ]);
+  });
+
+  test('should disable an endpoint after sustained failures and notify its owner', async () => {
+    // Arrange
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const alertNotifier = new AlertNotifier();
+    const sendAlert = jest.spyOn(alertNotifier, 'sendAlert').mockResolvedValue(undefined);
+    const worker = new WebhookDeliveryWorker(store, {
+      disableAfterFailures: 2,
+      disableAfterMs: HOUR_MS,
+      alertNotifier
+    });
+    await store.recordEndpointResult(endpoint.id, false, new Date(Date.now() - 2 * HOUR_MS));
+
+    // Act
+    await worker.deliver(await createDelivery());
+    const next = await worker.deliver(await createDelivery());
+
+    // Assert
+    const disabled = await store.getEndpoint(endpoint.id);
+    expect(disabled).toMatchObject({ active: false, consecutiveFailures: 2 });
+    expect(disabled!.disabledReason).toContain('2 consecutive delivery failures');
+    expect(sendAlert).toHaveBeenCalledTimes(1);
+
+    const [[alert]]: [[any]] = sendAlert.mock.calls as any;
+    expect(alert).toMatchObject({ ruleName: 'webhook_endpoint_disabled', severity: 'high' });
+    expect(alert.metrics[0].labels).toMatchObject({ endpointId: endpoint.id, owner: 'ops@merchant.example.com' });
+
+    expect(next).toMatchObject({ status: WebhookDeliveryStatus.FAILED, lastError: 'Endpoint is disabled' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,119 @@
+// src/tests/payment/webhooks/webhook-redelivery.test.ts
+
+import { WebhookManager } from '../../../lib/payment/webhooks/webhook.manager';
+import { InMemoryWebhookStore } from '../../../lib/payment/webhooks/webhook.store';
+import { WebhookEndpoint, WebhookEventType, WebhookDelivery, WebhookDeliveryStatus } from '../../../lib/payment/webhooks/types';
+import { ErrorCode } from '../../../lib/payment/utils/error';
+
+describe('WebhookManager delivery log', () => {
+  let store: InMemoryWebhookStore;
+  let webhookManager: WebhookManager;
+  let endpoint: WebhookEndpoint;
+
+  const saveDelivery = async (
+    id: string,
+    type: WebhookEventType,
+    status: WebhookDeliveryStatus,
+    createdAt: string
+  ): Promise<WebhookDelivery> => {
+    const delivery: WebhookDelivery = {
+      id,
+      endpointId: endpoint.id,
+      event: { id: `evt_${id}`, type, data: {}, timestamp: new Date(createdAt) },
+      status,
+      attempts: 1,
+      createdAt: new Date(createdAt),
+      updatedAt: new Date(createdAt)
+    };
+    await store.saveDelivery(delivery);
+    return delivery;
+  };
+
+  beforeEach(async () => {
+    store = new InMemoryWebhookStore();
+    webhookManager = new WebhookManager(store, { on: jest.fn() } as any);
+    endpoint = await webhookManager.registerEndpoint(
+      'https://merchant.example.com/webhooks',
+      [WebhookEventType.PAYMENT_SUCCEEDED, WebhookEventType.PAYMENT_FAILED]
+    );
+
+    await saveDelivery('d1', WebhookEventType.PAYMENT_SUCCEEDED, WebhookDeliveryStatus.FAILED, '2024-01-01T09:00:00Z');
+    await saveDelivery('d2', WebhookEventType.PAYMENT_FAILED, WebhookDeliveryStatus.SUCCEEDED, '2024-01-01T10:00:00Z');
+    await saveDelivery('d3', WebhookEventType.PAYMENT_FAILED, WebhookDeliveryStatus.FAILED, '2024-01-01T11:00:00Z');
+    await saveDelivery('d4', WebhookEventType.PAYMENT_SUCCEEDED, WebhookDeliveryStatus.FAILED, '2024-01-02T11:00:00Z');
+
+    // Spy on logger methods to avoid console output
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should filter deliveries by event type, status and date', async () => {
+    // Act
+    const deliveries = await webhookManager.getDeliveries(endpoint.id, {
+      eventType: WebhookEventType.PAYMENT_FAILED,
+      status: WebhookDeliveryStatus.FAILED,
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-01-02T00:00:00Z')
+    });
+
+    // Assert
+    expect(deliveries.map(d => d.id)).toEqual(['d3']);
+  });
+
+  test('should return a delivery with its request and attempts', async () => {
+    // Arrange
+    await store.saveDeliveryAttempt({
+      id: 'att_1',
+      deliveryId: 'd1',
+      attemptNumber: 1,
+      succeeded: false,
+      statusCode: 500,
+      latencyMs: 120,
+      responseExcerpt: 'Internal Server Error',
+      attemptedAt: new Date('2024-01-01T09:00:01Z')
+    });
+
+    // Act
+    const details = await webhookManager.getDeliveryDetails(endpoint.id, 'd1');
+
+    // Assert
+    expect(details.request).toMatchObject({
+      url: endpoint.url,
+      headers: expect.objectContaining({ 'X-Webhook-ID': 'evt_d1', 'X-Webhook-Delivery': 'd1' })
+    });
+    expect(JSON.parse(details.request.body).id).toBe('evt_d1');
+    expect(details.attempts).toEqual([expect.objectContaining({ statusCode: 500, responseExcerpt: 'Internal Server Error' })]);
+    await expect(webhookManager.getDeliveryDetails('we_other', 'd1'))
+      .rejects.toMatchObject({ code: ErrorCode.WEBHOOK_NOT_FOUND });
+  });
+
+  test('should redeliver the failed deliveries in a window, oldest first', async () => {
+    // Act
+    const deliveries = await webhookManager.redeliverFailed(
+      endpoint.id,
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-01-02T00:00:00Z')
+    );
+
+    // Assert
+    expect(deliveries.map(d => [d.redeliveryOf, d.event.id, d.status])).toEqual([
+      ['d1', 'evt_d1', WebhookDeliveryStatus.PENDING],
+      ['d3', 'evt_d3', WebhookDeliveryStatus.PENDING]
+    ]);
+    expect(await store.getDelivery(deliveries[0].id)).toMatchObject({ attempts: 0 });
+  });
+
+  test('should refuse to redeliver to a disabled endpoint', async () => {
+    // Arrange
+    await store.disableEndpoint(endpoint.id, 'Too many failures', new Date());
+
+    // Act & Assert
+    await expect(webhookManager.redeliver(endpoint.id, 'd1'))
+      .rejects.toMatchObject({ code: ErrorCode.WEBHOOK_DISABLED });
+  });
+});
@@ -0,0 +1,70 @@
+// src/tests/payment/webhooks/webhook-signature.test.ts
+
+import {
+  createSignatureHeader,
+  verifyWebhookSignature,
+  SIGNATURE_HEADER
+} from '../../../lib/payment/webhooks/webhook.signature';
+import { buildDeliveryRequest } from '../../../lib/payment/webhooks/webhook-delivery.worker';
+import { WebhookManager } from '../../../lib/payment/webhooks/webhook.manager';
+import { InMemoryWebhookStore } from '../../../lib/payment/webhooks/webhook.store';
+import { WebhookEventType, WebhookDelivery, WebhookDeliveryStatus } from '../../../lib/payment/webhooks/types';
+
+describe('Webhook signatures', () => {
+  const payload = JSON.stringify({ id: 'evt_123', type: 'payment.succeeded' });
+  const timestamp = 1700000000;
+
+  test('should accept a signature within the tolerance window only', () => {
+    // Arrange
+    const header = createSignatureHeader(payload, ['whsec_current'], timestamp);
+
+    // Act & Assert
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(payload, header, 'whsec_current', { now: timestamp + 299 })).toBe(true);
+    expect(verifyWebhookSignature(payload, header, 'whsec_current', { now: timestamp + 301 })).toBe(false);
+    expect(verifyWebhookSignature(payload + ' ', header, 'whsec_current', { now: timestamp })).toBe(false);
+    expect(verifyWebhookSignature(payload, header, 'whsec_other', { now: timestamp })).toBe(false);
+  });
+
+  test('should reject a header with the timestamp swapped', () => {
+    // Arrange
+    const header = createSignatureHeader(payload, ['whsec_current'], timestamp);
+    const replayed = header.replace(`t=${timestamp}`, `t=${timestamp + 600}`);
+
+    // Act & Assert
+    expect(verifyWebhookSignature(payload, replayed, 'whsec_current', { now: timestamp + 600 })).toBe(false);
+    expect(verifyWebhookSignature(payload, 'v1=abc', 'whsec_current')).toBe(false);
+  });
+
+  test('should sign with both secrets during the rotation grace period', async () => {
+    // Arrange
+    const store = new InMemoryWebhookStore();
+    const webhookManager = new WebhookManager(store, { on: jest.fn() } as any);
+    const endpoint = await webhookManager.registerEndpoint(
+      'https://merchant.example.com/webhooks',
+      [WebhookEventType.PAYMENT_SUCCEEDED]
+    );
+    const delivery: WebhookDelivery = {
+      id: 'del_123',
+      endpointId: endpoint.id,
+      event: { id: 'evt_123', type: WebhookEventType.PAYMENT_SUCCEEDED, data: {}, timestamp: new Date() },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    // Act
+    const rotated = await webhookManager.rotateSecret(endpoint.id, 60 * 60 * 1000);
+    const duringGrace = buildDeliveryRequest(rotated, delivery, 1);
+    const afterGrace = buildDeliveryRequest(rotated, delivery, 1, new Date(Date.now() + 2 * 60 * 60 * 1000));
+
+    // Assert
+    const header = duringGrace.headers[SIGNATURE_HEADER];
+    expect(rotated.secret).not.toBe(endpoint.secret);
+    expect(header.split(',')).toHaveLength(3);
+    expect(verifyWebhookSignature(duringGrace.body, header, endpoint.secret)).toBe(true);
+    expect(verifyWebhookSignature(duringGrace.body, header, rotated.secret)).toBe(true);
+    expect(afterGrace.headers[SIGNATURE_HEADER].split(',')).toHaveLength(2);
+  });
+});